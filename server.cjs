@@ -610,26 +610,46 @@ app.post('/api/agent/explain-term', async (req, res) => {
 });
 
 // POST /api/agent/compare
+// documentContexts are document IDs in draft order, oldest first; draftLabels optionally say who
+// produced each draft (e.g. "Our draft", "Counterparty markup")
 app.post('/api/agent/compare', async (req, res) => {
   console.log('--- Incoming /api/agent/compare request ---');
-  const { documentContexts, caseId, analysisContext } = req.body;
+  const { documentContexts, caseId, analysisContext, draftLabels } = req.body;
   if (!Array.isArray(documentContexts) || documentContexts.length < 2) {
       return res.status(400).json({ error: 'Requires an array of at least two document contexts (IDs or content)' });
   }
+  if (draftLabels !== undefined && (!Array.isArray(draftLabels) || draftLabels.length !== documentContexts.length)) {
+      return res.status(400).json({ error: 'draftLabels must have one label per document' });
+  }
   if (!caseId) return res.status(400).json({ error: 'Missing caseId' });
 
   try {
-    // Fetch content for all documents concurrently
+    // Fetch content for all documents concurrently, plus their names for labelling the drafts
     const docPromises = documentContexts.map(docId => getDocumentContentFromSupabase(docId));
-    const docContents = await Promise.all(docPromises);
-
-    // Construct the prompt with multiple documents
-    let userPromptContent = 'Compare the following documents:\n\n';
+    const [docContents, { data: docRows }] = await Promise.all([
+      Promise.all(docPromises),
+      supabase.from('documents').select('id, filename, created_at').in('id', documentContexts),
+    ]);
+    const docInfo = new Map((docRows || []).map(row => [row.id, row]));
+
+    const draftCount = documentContexts.length;
+    let userPromptContent = `Compare the following ${draftCount} successive drafts of the same document, oldest first:\n\n`;
     docContents.forEach((content, index) => {
-        userPromptContent += `Document ${index + 1}:\n---\n${content}\n---\n\n`;
+        const info = docInfo.get(documentContexts[index]);
+        const details = [
+          info?.filename,
+          draftLabels?.[index] ? `from ${draftLabels[index]}` : null,
+          info?.created_at ? `uploaded ${String(info.created_at).slice(0, 10)}` : null,
+        ].filter(Boolean).join(', ');
+        userPromptContent += `Draft ${index + 1}${details ? ` (${details})` : ''}:\n---\n${content}\n---\n\n`;
     });
+    if (analysisContext) {
+        userPromptContent += `Additional context:\n${analysisContext}\n`;
+    }
 
-    const systemPrompt = 'You are a legal document comparison assistant. Compare the provided documents, highlighting key differences and similarities relevant to legal analysis. Be specific and structured in your comparison.';
+    const systemPrompt = draftCount > 2
+      ? `You are a legal document comparison assistant reviewing a negotiation. The documents are successive drafts of one agreement, in order. Align the drafts clause by clause, matching clauses even when they were moved or renumbered. Then, for each clause that changed at any point, give a short timeline: how its wording evolved from draft to draft, which draft (and whose, where the draft says who produced it) introduced each change, and the legal effect of that change. List clauses that never changed together in one line. Finish with the open points: changes one side introduced that the other has not accepted. Use markdown headings per clause.`
+      : 'You are a legal document comparison assistant. Compare the provided documents, highlighting key differences and similarities relevant to legal analysis. Be specific and structured in your comparison.';
 
     await streamAgentResponse(req, res, systemPrompt, userPromptContent);
    } catch (err) {
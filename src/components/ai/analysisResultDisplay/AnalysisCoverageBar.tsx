@@ -0,0 +1,52 @@
+import React from 'react';
+import { Layers, AlertTriangle } from 'lucide-react';
+import { AnalysisCoverage } from '@/services/documentAnalysisService';
+import { cn } from '@/lib/utils';
+
+interface AnalysisCoverageBarProps {
+  coverage: AnalysisCoverage;
+}
+
+const statusClasses: Record<AnalysisCoverage['chunks'][number]['status'], string> = {
+  analyzed: 'bg-primary/70',
+  failed: 'bg-destructive',
+  skipped: 'bg-muted-foreground/30',
+};
+
+// Shows which sections of a long document the chunked analysis actually covered
+const AnalysisCoverageBar: React.FC<AnalysisCoverageBarProps> = ({ coverage }) => {
+  // Single-chunk documents are always analyzed whole; nothing worth showing
+  if (coverage.totalChunks <= 1 || coverage.documentLength === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3 space-y-1">
+      <div className="flex items-center text-xs text-muted-foreground dark:text-dark-muted-foreground">
+        {coverage.complete ? (
+          <Layers className="h-3.5 w-3.5 mr-1.5 flex-shrink-0" />
+        ) : (
+          <AlertTriangle className="h-3.5 w-3.5 mr-1.5 flex-shrink-0 text-amber-500" />
+        )}
+        {coverage.complete
+          ? `Full document analyzed in ${coverage.totalChunks} sections`
+          : `Analyzed ${coverage.analyzedChunks} of ${coverage.totalChunks} sections — results may be incomplete`}
+      </div>
+      <div className="relative h-1.5 w-full overflow-hidden rounded-full bg-secondary dark:bg-dark-secondary">
+        {coverage.chunks.map(chunk => (
+          <div
+            key={chunk.index}
+            className={cn('absolute top-0 h-full', statusClasses[chunk.status])}
+            style={{
+              left: `${(chunk.start / coverage.documentLength) * 100}%`,
+              width: `${((chunk.end - chunk.start) / coverage.documentLength) * 100}%`,
+            }}
+            title={`Section ${chunk.index + 1}: ${chunk.status}${chunk.error ? ` (${chunk.error})` : ''}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisCoverageBar;
@@ -1,5 +1,7 @@
 import React from 'react';
-import { AnalysisType, StructuredAnalysisResult, EntitiesResult, ClausesResult, RisksResult, TimelineResult, AnalysisErrorResult } from '@/services/documentAnalysisService';
+import { AnalysisType, StructuredAnalysisResult, EntitiesResult, Clause, ClausesResult, RisksResult, TimelineResult, AnalysisErrorResult } from '@/services/documentAnalysisService';
+import { PageMapEntry } from '@/types/document';
+import { Playbook, PlaybookFinding, PlaybookResult, PlaybookRule } from '@/types/playbook';
 
 import {
   SummaryDisplay,
@@ -8,6 +10,7 @@ import {
   RisksDisplay,
   TimelineDisplay,
   PrivilegedTermsDisplay,
+  PlaybookReviewDisplay,
 } from './index'; // Import from the new index file
 
 // Placeholder for specific display components - these will be created next
@@ -29,6 +32,10 @@ interface AnalysisResultRendererProps {
   // onItemClick: (item: any) => void;
   onItemHover: (item: PositionalItem | null) => void;
   onItemClick: (item: PositionalItem) => void;
+  pageMap?: PageMapEntry[] | null; // Lets items show "p. 14:7" style citations
+  playbook?: Playbook | null; // The playbook a 'playbook' result was reviewed against
+  onRedlineFinding?: (rule: PlaybookRule, finding: PlaybookFinding) => void;
+  onFindSimilarClause?: (clause: Clause) => void; // Look a clause up in the clause library
 }
 
 const AnalysisResultRenderer: React.FC<AnalysisResultRendererProps> = ({
@@ -40,6 +47,10 @@ const AnalysisResultRenderer: React.FC<AnalysisResultRendererProps> = ({
   // onItemClick,
   onItemHover,
   onItemClick,
+  pageMap,
+  playbook,
+  onRedlineFinding,
+  onFindSimilarClause,
 }) => {
   if (!analysisType || !analysisResult) {
     return <p className="text-sm text-muted-foreground dark:text-dark-muted-foreground">No analysis result to display.</p>;
@@ -93,13 +104,13 @@ const AnalysisResultRenderer: React.FC<AnalysisResultRendererProps> = ({
 
     case 'clauses':
       if (analysisResult && typeof analysisResult === 'object' && 'clauses' in analysisResult && Array.isArray((analysisResult as ClausesResult).clauses)) {
-        return <ClausesDisplay result={analysisResult as ClausesResult} onCopyItem={onCopyItemText} onAddItemToContext={onAddItemToChatContext} onItemHover={onItemHover} onItemClick={onItemClick} />;
+        return <ClausesDisplay result={analysisResult as ClausesResult} onCopyItem={onCopyItemText} onAddItemToContext={onAddItemToChatContext} onItemHover={onItemHover} onItemClick={onItemClick} onFindSimilar={onFindSimilarClause} pageMap={pageMap} />;
       }
       break;
 
     case 'risks':
       if (analysisResult && typeof analysisResult === 'object' && 'risks' in analysisResult && Array.isArray((analysisResult as RisksResult).risks)) {
-        return <RisksDisplay result={analysisResult as RisksResult} onCopyItem={onCopyItemText} onAddItemToContext={onAddItemToChatContext} onItemHover={onItemHover} onItemClick={onItemClick} />;
+        return <RisksDisplay result={analysisResult as RisksResult} onCopyItem={onCopyItemText} onAddItemToContext={onAddItemToChatContext} onItemHover={onItemHover} onItemClick={onItemClick} pageMap={pageMap} />;
       }
       break;
 
@@ -115,6 +126,12 @@ const AnalysisResultRenderer: React.FC<AnalysisResultRendererProps> = ({
       }
       break;
 
+    case 'playbook':
+      if (playbook && analysisResult && typeof analysisResult === 'object' && 'playbook' in analysisResult && Array.isArray((analysisResult as PlaybookResult).playbook)) {
+        return <PlaybookReviewDisplay result={analysisResult as PlaybookResult} playbook={playbook} onAddItemToContext={onAddItemToChatContext} onItemHover={onItemHover} onItemClick={onItemClick} onRedline={onRedlineFinding} pageMap={pageMap} />;
+      }
+      break;
+
     case 'custom':
     case 'document_context':
     default:
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { ClausesResult, Clause } from '@/services/documentAnalysisService';
-import { ListChecks, FileText, MessageSquareText, Copy, MessageSquarePlus, ChevronDown, ChevronUp, Check } from 'lucide-react';
+import { getPageLocation, formatPageCitation } from '@/utils/pageMap';
+import { PageMapEntry } from '@/types/document';
+import { ListChecks, FileText, MessageSquareText, Copy, MessageSquarePlus, ChevronDown, ChevronUp, Check, Library } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
 import { toast } from 'react-hot-toast';
@@ -12,16 +14,19 @@ interface ClauseItemProps {
   onAddItemToContext: (itemText: string, itemTypeLabel: string) => void;
   onItemHover: (item: Clause | null) => void;
   onItemClick: (item: Clause) => void;
+  onFindSimilar?: (clause: Clause) => void;
+  pageMap?: PageMapEntry[] | null;
 }
 
-const ClauseItem: React.FC<ClauseItemProps> = ({ clause, index, onCopyItem, onAddItemToContext, onItemHover, onItemClick }) => {
+const ClauseItem: React.FC<ClauseItemProps> = ({ clause, index, onCopyItem, onAddItemToContext, onItemHover, onItemClick, onFindSimilar, pageMap }) => {
   const [isTextExpanded, setIsTextExpanded] = useState(false);
   const [isAnalysisExpanded, setIsAnalysisExpanded] = useState(false);
   const [copied, setCopied] = useState(false);
 
   const clauseTitle = clause.title || `Clause ${index + 1}`;
+  const pageCitation = typeof clause.start === 'number' ? formatPageCitation(getPageLocation(pageMap, clause.start)) : null;
   const fullClauseTextForContext = 
-`${clauseTitle}\n\nExtracted Text:\n${clause.text || 'N/A'}\n\nAI Analysis:\n${clause.analysis || 'N/A'}`;
+`${clauseTitle}${pageCitation ? ` (${pageCitation})` : ''}\n\nExtracted Text:\n${clause.text || 'N/A'}\n\nAI Analysis:\n${clause.analysis || 'N/A'}`;
 
   const toggleTextExpansion = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -48,6 +53,9 @@ const ClauseItem: React.FC<ClauseItemProps> = ({ clause, index, onCopyItem, onAd
       <div className="flex justify-between items-start mb-2">
           <h5 className="font-semibold text-sm text-primary dark:text-dark-primary flex-grow mr-2" title={clause.title}>
               {clauseTitle}
+              {pageCitation && (
+                <span className="ml-1.5 text-xs font-normal text-muted-foreground dark:text-dark-muted-foreground whitespace-nowrap">{pageCitation}</span>
+              )}
           </h5>
           <div className="flex items-center space-x-0.5 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
               <Button 
@@ -69,6 +77,17 @@ const ClauseItem: React.FC<ClauseItemProps> = ({ clause, index, onCopyItem, onAd
               >
                   <MessageSquarePlus className="h-3.5 w-3.5" />
               </Button>
+              {onFindSimilar && clause.text && (
+                <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="h-6 w-6 p-1 text-muted-foreground dark:text-dark-muted-foreground hover:text-foreground dark:hover:text-dark-foreground"
+                    onClick={(e) => { e.stopPropagation(); onFindSimilar(clause); }}
+                    title="Find a Similar Clause in My Library"
+                >
+                    <Library className="h-3.5 w-3.5" />
+                </Button>
+              )}
           </div>
       </div>
       
@@ -123,9 +142,11 @@ interface ClausesDisplayProps {
   // onClauseClick: (clause: Clause) => void;
   onItemHover: (item: Clause | null) => void;
   onItemClick: (item: Clause) => void;
+  onFindSimilar?: (clause: Clause) => void; // Compare a clause with the user's clause library
+  pageMap?: PageMapEntry[] | null;
 }
 
-const ClausesDisplay: React.FC<ClausesDisplayProps> = ({ result, onCopyItem, onAddItemToContext, onItemHover, onItemClick }) => {
+const ClausesDisplay: React.FC<ClausesDisplayProps> = ({ result, onCopyItem, onAddItemToContext, onItemHover, onItemClick, onFindSimilar, pageMap }) => {
   if (!result || !result.clauses || result.clauses.length === 0) {
     return (
       <div className="space-y-3">
@@ -154,6 +175,8 @@ const ClausesDisplay: React.FC<ClausesDisplayProps> = ({ result, onCopyItem, onA
             onAddItemToContext={onAddItemToContext} 
             onItemHover={onItemHover} 
             onItemClick={onItemClick} 
+            onFindSimilar={onFindSimilar}
+            pageMap={pageMap}
           />
         ))}
       </div>
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { BookCheck, CheckCircle2, AlertTriangle, CircleSlash, MessageSquarePlus, PenLine } from 'lucide-react';
+import { PositionalItem } from '@/services/documentAnalysisService';
+import { getPageLocation, formatPageCitation } from '@/utils/pageMap';
+import { PageMapEntry } from '@/types/document';
+import { Playbook, PlaybookFinding, PlaybookResult, PlaybookRule, PlaybookSeverity } from '@/types/playbook';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { countFindings, needsAttention, pairFindingsWithRules, RuleFinding } from '@/utils/playbook';
+
+interface PlaybookReviewDisplayProps {
+  result: PlaybookResult;
+  playbook: Playbook;
+  onAddItemToContext: (itemText: string, itemTypeLabel: string) => void;
+  onItemHover: (item: PositionalItem | null) => void;
+  onItemClick: (item: PositionalItem) => void;
+  onRedline?: (rule: PlaybookRule, finding: PlaybookFinding) => void; // Absent while the document isn't editable
+  pageMap?: PageMapEntry[] | null;
+}
+
+const statusStyles: Record<PlaybookFinding['status'], { label: string; icon: React.ReactNode; border: string }> = {
+  met: { label: 'Met', icon: <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />, border: 'border-green-500' },
+  deviates: { label: 'Deviates', icon: <AlertTriangle className="h-4 w-4 text-amber-600 flex-shrink-0" />, border: 'border-amber-500' },
+  missing: { label: 'Missing', icon: <CircleSlash className="h-4 w-4 text-red-600 flex-shrink-0" />, border: 'border-red-500' },
+};
+
+const severityVariants: Record<PlaybookSeverity, 'secondary' | 'info' | 'warning' | 'danger'> = {
+  low: 'secondary',
+  medium: 'info',
+  high: 'warning',
+  critical: 'danger',
+};
+
+const positionLabels: Record<NonNullable<PlaybookFinding['matchedPosition']>, string> = {
+  preferred: 'Preferred language',
+  fallback: 'Fallback position',
+  unacceptable: 'Unacceptable term',
+};
+
+const isAnchored = (finding: PlaybookFinding): finding is PlaybookFinding & PositionalItem =>
+  typeof finding.start === 'number' && typeof finding.end === 'number';
+
+const FindingItem: React.FC<{ pair: RuleFinding } & Omit<PlaybookReviewDisplayProps, 'result' | 'playbook'>> = ({
+  pair, onAddItemToContext, onItemHover, onItemClick, onRedline, pageMap,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { rule, finding } = pair;
+  const style = statusStyles[finding.status];
+  const canRedline = !!onRedline && finding.status === 'deviates' && isAnchored(finding) && !!rule.preferredLanguage.trim();
+  const pageCitation = isAnchored(finding) ? formatPageCitation(getPageLocation(pageMap, finding.start)) : null;
+  const contextText = `Playbook rule "${rule.title}" – ${style.label}${pageCitation ? ` (${pageCitation})` : ''}: ${finding.explanation}\n\nFirm's preferred language:\n${rule.preferredLanguage}${finding.text ? `\n\nClause in the document:\n${finding.text}` : ''}`;
+
+  return (
+    <div
+      className={cn(
+        'p-3 border-l-4 rounded-md group bg-muted/30 dark:bg-dark-muted/30 transition-all duration-150',
+        style.border,
+        isAnchored(finding) && 'cursor-pointer hover:shadow-lg'
+      )}
+      onMouseEnter={() => isAnchored(finding) && onItemHover(finding)}
+      onMouseLeave={() => onItemHover(null)}
+      onClick={() => isAnchored(finding) && onItemClick(finding)}
+    >
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2 min-w-0">
+          {style.icon}
+          <h5 className="font-semibold text-sm truncate" title={rule.title}>{rule.title}</h5>
+          {pageCitation && <span className="text-xs text-muted-foreground whitespace-nowrap">{pageCitation}</span>}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {needsAttention(pair) && <Badge variant={severityVariants[rule.severity]} size="xs">{rule.severity}</Badge>}
+          <Badge variant="secondary" size="xs">{finding.status === 'missing' && !rule.required ? 'Not present' : style.label}</Badge>
+        </div>
+      </div>
+
+      <div className="ml-6 space-y-1">
+        {finding.matchedPosition && <p className="text-xs font-medium">{positionLabels[finding.matchedPosition]}</p>}
+        <p className={cn('text-xs text-muted-foreground', !isExpanded && 'line-clamp-3')}>{finding.explanation}</p>
+        {isExpanded && (
+          <div className="text-xs space-y-1 pt-1">
+            <p className="font-medium">Preferred language</p>
+            <p className="whitespace-pre-wrap text-muted-foreground">{rule.preferredLanguage || '—'}</p>
+            {rule.fallbackPositions.length > 0 && (
+              <>
+                <p className="font-medium">Fallback positions</p>
+                <ol className="list-decimal ml-4 text-muted-foreground">
+                  {rule.fallbackPositions.map((position, index) => <li key={index}>{position}</li>)}
+                </ol>
+              </>
+            )}
+          </div>
+        )}
+        <div className="flex items-center gap-1 pt-1">
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={(e) => { e.stopPropagation(); setIsExpanded(!isExpanded); }}>
+            {isExpanded ? 'Hide firm position' : 'Show firm position'}
+          </Button>
+          {canRedline && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs ml-auto"
+              onClick={(e) => { e.stopPropagation(); onRedline?.(rule, finding); }}
+              title="Suggest a tracked rewrite of this clause to the preferred language"
+            >
+              <PenLine className="h-3 w-3 mr-1" /> Redline to preferred
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn('h-6 w-6 p-1 text-muted-foreground', !canRedline && 'ml-auto')}
+            onClick={(e) => { e.stopPropagation(); onAddItemToContext(contextText, `Playbook - ${rule.title}`); }}
+            title="Add Finding to Chat Context"
+          >
+            <MessageSquarePlus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Results of reviewing a document against a playbook: every rule as met, deviating or missing,
+ * anchored to the clause it concerns, with deviations offered as a redline to the preferred language.
+ */
+const PlaybookReviewDisplay: React.FC<PlaybookReviewDisplayProps> = ({ result, playbook, ...itemProps }) => {
+  const pairs = pairFindingsWithRules(playbook.rules, result.playbook);
+  const counts = countFindings(pairs);
+  // What needs acting on first, then the rest in playbook order
+  const ordered = [...pairs.filter(needsAttention), ...pairs.filter(pair => !needsAttention(pair))];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center text-base font-semibold text-foreground dark:text-dark-foreground">
+        <BookCheck className="h-5 w-5 mr-2 text-muted-foreground flex-shrink-0" />
+        {playbook.name}
+      </div>
+      <div className="flex flex-wrap gap-1.5 text-xs">
+        <Badge variant="success" size="xs">Met: {counts.met}</Badge>
+        <Badge variant="warning" size="xs">Deviates: {counts.deviates}</Badge>
+        <Badge variant="danger" size="xs">Missing: {counts.missing}</Badge>
+      </div>
+      <div className="space-y-2.5">
+        {ordered.map(pair => <FindingItem key={pair.rule.id} pair={pair} {...itemProps} />)}
+      </div>
+    </div>
+  );
+};
+
+export default PlaybookReviewDisplay;
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { RisksResult, Risk } from '@/services/documentAnalysisService';
+import { getPageLocation, formatPageCitation } from '@/utils/pageMap';
+import { PageMapEntry } from '@/types/document';
 import { ShieldAlert, AlertTriangle, ShieldCheck, ShieldQuestion, Copy, MessageSquarePlus, ChevronDown, ChevronUp, Check } from 'lucide-react'; // Icons for severity and Chevrons
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/Button';
@@ -14,6 +16,7 @@ interface RisksDisplayProps {
   // onRiskClick: (risk: Risk) => void;
   onItemHover: (item: Risk | null) => void;
   onItemClick: (item: Risk) => void;
+  pageMap?: PageMapEntry[] | null;
 }
 
 const getRiskSeverityIcon = (severity: Risk['severity']) => {
@@ -69,14 +72,16 @@ interface RiskItemProps {
   onAddItemToContext: (itemText: string, itemTypeLabel: string) => void;
   onItemHover: (item: Risk | null) => void;
   onItemClick: (item: Risk) => void;
+  pageMap?: PageMapEntry[] | null;
 }
 
-const RiskItem: React.FC<RiskItemProps> = ({ risk, index, onCopyItem, onAddItemToContext, onItemHover, onItemClick }) => {
+const RiskItem: React.FC<RiskItemProps> = ({ risk, index, onCopyItem, onAddItemToContext, onItemHover, onItemClick, pageMap }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
   const riskTitle = risk.title || `Risk ${index + 1}`;
-  const riskTextForActions = `${risk.severity || 'Unknown'} Risk: ${riskTitle} - ${risk.explanation}`;
+  const pageCitation = typeof risk.start === 'number' ? formatPageCitation(getPageLocation(pageMap, risk.start)) : null;
+  const riskTextForActions = `${risk.severity || 'Unknown'} Risk: ${riskTitle}${pageCitation ? ` (${pageCitation})` : ''} - ${risk.explanation}`;
   const { borderColorClass, bgColorClass, badgeVariant, textColorClass } = getRiskSeverityStyles(risk.severity);
 
   const toggleExpansion = (e: React.MouseEvent) => {
@@ -110,6 +115,9 @@ const RiskItem: React.FC<RiskItemProps> = ({ risk, index, onCopyItem, onAddItemT
         <div className={cn("flex items-center", textColorClass)}>
           {getRiskSeverityIcon(risk.severity)}
           <h5 className="ml-2 font-semibold text-sm">{riskTitle}</h5>
+          {pageCitation && (
+            <span className="ml-1.5 text-xs text-muted-foreground dark:text-dark-muted-foreground whitespace-nowrap">{pageCitation}</span>
+          )}
         </div>
         <Badge variant={badgeVariant} className={cn("text-xs whitespace-nowrap")}>
           {risk.severity || 'Unknown'}
@@ -158,7 +166,7 @@ const RiskItem: React.FC<RiskItemProps> = ({ risk, index, onCopyItem, onAddItemT
   );
 };
 
-const RisksDisplay: React.FC<RisksDisplayProps> = ({ result, onCopyItem, onAddItemToContext, onItemHover, onItemClick }) => {
+const RisksDisplay: React.FC<RisksDisplayProps> = ({ result, onCopyItem, onAddItemToContext, onItemHover, onItemClick, pageMap }) => {
   if (!result || !result.risks || result.risks.length === 0) {
     return (
         <div className="space-y-3">
@@ -187,6 +195,7 @@ const RisksDisplay: React.FC<RisksDisplayProps> = ({ result, onCopyItem, onAddIt
                     onAddItemToContext={onAddItemToContext} 
                     onItemHover={onItemHover} 
                     onItemClick={onItemClick} 
+                    pageMap={pageMap}
                 />
             ))}
         </div>
@@ -5,4 +5,5 @@ export { default as ClausesDisplay } from './ClausesDisplay';
 export { default as RisksDisplay } from './RisksDisplay';
 export { default as TimelineDisplay } from './TimelineDisplay';
 export { default as PrivilegedTermsDisplay } from './PrivilegedTermsDisplay';
-// export { default as DefaultDisplay } from './DefaultDisplay'; // If we create a specific default/fallback component 
\ No newline at end of file
+export { default as PlaybookReviewDisplay } from './PlaybookReviewDisplay';
+// export { default as DefaultDisplay } from './DefaultDisplay'; // If we create a specific default/fallback component export { default as AnalysisCoverageBar } from './AnalysisCoverageBar';
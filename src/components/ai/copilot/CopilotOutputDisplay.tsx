@@ -12,6 +12,7 @@ import IdentifiedObjectionsDisplay from './IdentifiedObjectionsDisplay';
 import SimpleListDisplay from './SimpleListDisplay';
 import RefinementModal from './RefinementModal';
 import { CopilotGoalType, AIAnalysisResults } from '@/types/aiCopilot';
+import { PageMapEntry } from '@/types/document';
 import { Textarea } from '@/components/ui/Textarea';
 import { Label } from '@/components/ui/Label';
 
@@ -45,9 +46,9 @@ const CopilotOutputDisplay: React.FC = () => {
   }, [aiOutputHistory, currentOutputIndex]);
 
   const documentsMap = useMemo(() => {
-    const map = new Map<string, { filename: string; title?: string }>();
+    const map = new Map<string, { filename: string; title?: string; extractedText?: string | null; pageMap?: PageMapEntry[] | null }>();
     selectedDocumentsContent.forEach(doc => {
-      map.set(doc.id, { filename: doc.filename, title: doc.title });
+      map.set(doc.id, { filename: doc.filename, title: doc.title, extractedText: doc.extractedText, pageMap: doc.pageMap });
     });
     return map;
   }, [selectedDocumentsContent]);
@@ -1,13 +1,22 @@
 import React from 'react';
 import { AIKeyExcerpt } from '@/types/aiCopilot';
+import { PageMapEntry } from '@/types/document';
+import { getPageLocation } from '@/utils/pageMap';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { FileText } from 'lucide-react';
 
 interface KeyExcerptsDisplayProps {
   excerpts: AIKeyExcerpt[];
-  documentsMap: Map<string, { filename: string; title?: string; }>; // To get filename from documentId
+  documentsMap: Map<string, { filename: string; title?: string; extractedText?: string | null; pageMap?: PageMapEntry[] | null; }>; // To get filename from documentId
 }
 
+// Page of an excerpt the AI didn't paginate, found by locating its text in the document
+const findExcerptPage = (excerptText: string, extractedText?: string | null, pageMap?: PageMapEntry[] | null): number | undefined => {
+  if (!extractedText || !pageMap) return undefined;
+  const offset = extractedText.indexOf(excerptText.replace(/\s+/g, ' ').trim());
+  return offset >= 0 ? getPageLocation(pageMap, offset)?.page : undefined;
+};
+
 const KeyExcerptsDisplay: React.FC<KeyExcerptsDisplayProps> = ({ excerpts, documentsMap }) => {
   if (!excerpts || excerpts.length === 0) {
     return <p className="text-sm text-muted-foreground dark:text-slate-400 italic">No key excerpts identified by the AI.</p>;
@@ -19,6 +28,7 @@ const KeyExcerptsDisplay: React.FC<KeyExcerptsDisplayProps> = ({ excerpts, docum
         {excerpts.map((item, index) => {
           const docInfo = documentsMap.get(item.documentId);
           const docName = docInfo?.filename || item.documentId; // Fallback to ID if not found
+          const pageNumber = item.pageNumber ?? findExcerptPage(item.text, docInfo?.extractedText, docInfo?.pageMap);
           return (
             <AccordionItem value={`excerpt-${index}`} key={`excerpt-${index}`} className="border dark:border-slate-700 rounded-md bg-background dark:bg-slate-800/30 shadow-sm">
               <AccordionTrigger className="px-4 py-3 text-sm font-medium hover:no-underline hover:bg-muted/50 dark:hover:bg-slate-700/50 rounded-t-md">
@@ -27,8 +37,8 @@ const KeyExcerptsDisplay: React.FC<KeyExcerptsDisplayProps> = ({ excerpts, docum
                   <span className="truncate flex-1 text-left text-foreground dark:text-dark-foreground">
                     Excerpt from: {docName}
                   </span>
-                  {item.pageNumber && (
-                    <span className="text-xs text-muted-foreground dark:text-slate-400 ml-auto mr-2 whitespace-nowrap">Pg. {item.pageNumber}</span>
+                  {pageNumber && (
+                    <span className="text-xs text-muted-foreground dark:text-slate-400 ml-auto mr-2 whitespace-nowrap">Pg. {pageNumber}</span>
                   )}
                 </div>
               </AccordionTrigger>
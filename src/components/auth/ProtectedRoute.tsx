@@ -3,8 +3,7 @@ import { Navigate, Outlet, useLocation } from 'react-router-dom';
 // import { useAuth } from '@/context/AuthContext'; // OLD PATH
 import { useAuth } from '@/hooks/useAuth'; // CORRECT PATH
 import { Spinner } from '@/components/ui/Spinner'; // Assuming a Spinner component exists
-import { TRIAL_AI_CALL_LIMIT } from '@/config/constants';
-import { isSubscriptionActive, isTrialValid } from '@/utils/subscription';
+import { getAiQuotaStatus, isSubscriptionActive, isTrialValid } from '@/utils/subscription';
 
 const ProtectedRoute: React.FC = () => {
   const { user, userProfile, loading } = useAuth();
@@ -45,11 +44,10 @@ const ProtectedRoute: React.FC = () => {
       // Pass a message to the subscription page indicating why they were redirected
       let message = "Your access has expired. Please subscribe to continue.";
       if (isTrialing && !trialIsValid) {
-        const trialEndDate = userProfile.trial_ends_at ? new Date(userProfile.trial_ends_at) : null;
-        const callsUsed = userProfile.trial_ai_calls_used || 0;
-        if (trialEndDate && new Date() > trialEndDate) {
+        const { refusal } = getAiQuotaStatus(userProfile);
+        if (refusal === 'trial_expired' && userProfile.trial_ends_at) {
           message = "Your trial period has ended. Please subscribe to continue.";
-        } else if (callsUsed >= TRIAL_AI_CALL_LIMIT) {
+        } else if (refusal === 'trial_limit') {
           message = "You have reached your trial AI call limit. Please subscribe to continue.";
         }
       } else if (userProfile.subscription_status && userProfile.subscription_status !== 'active' && userProfile.subscription_status !== 'trialing') {
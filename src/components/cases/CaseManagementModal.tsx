@@ -15,10 +15,17 @@ import { Input } from '@/components/ui/Input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Spinner } from '@/components/ui/Spinner';
 import { Alert, AlertDescription } from '@/components/ui/Alert';
-import { Trash2, Edit, Plus } from 'lucide-react';
+import { Trash2, Edit, Plus, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import * as caseService from '@/services/caseService';
+import { getMyOrganizations } from '@/services/membershipService';
 import { Case } from '@/types/case';
+import { Organization } from '@/types/membership';
+import { canPerform, caseRoleLabels } from '@/utils/casePermissions';
 import { toast } from 'sonner';
+import CaseMembersPanel from './CaseMembersPanel';
+import PendingInvitations from './PendingInvitations';
 
 interface CaseManagementModalProps {
     isOpen: boolean;
@@ -32,6 +39,11 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
     const [error, setError] = useState<string | null>(null);
     const [newCaseName, setNewCaseName] = useState('');
     const [isCreating, setIsCreating] = useState(false);
+    // The firms the user belongs to; a new matter can belong to one of them
+    const [organizations, setOrganizations] = useState<Organization[]>([]);
+    const [newCaseOrganizationId, setNewCaseOrganizationId] = useState<string>('none');
+    // The matter whose members panel is open
+    const [membersCaseId, setMembersCaseId] = useState<string | null>(null);
 
     // TODO: Add states for rename/delete operations
 
@@ -40,6 +52,11 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
             fetchCases();
             setNewCaseName(''); // Reset new case name input
             setError(null); // Reset error
+            setMembersCaseId(null);
+            getMyOrganizations().then(({ data }) => {
+                setOrganizations(data || []);
+                setNewCaseOrganizationId(data?.length === 1 ? data[0].id : 'none');
+            });
         }
     }, [isOpen]);
 
@@ -66,7 +83,10 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
         }
         setIsCreating(true);
         try {
-            const { error: createError } = await caseService.createCase({ name: trimmedName });
+            const { error: createError } = await caseService.createCase({
+                name: trimmedName,
+                organization_id: newCaseOrganizationId === 'none' ? null : newCaseOrganizationId,
+            });
             if (createError) throw createError;
             toast.success(`Matter "${trimmedName}" created successfully.`);
             setNewCaseName(''); // Clear input
@@ -88,10 +108,12 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
                 <DialogHeader>
                     <DialogTitle>Manage Matters</DialogTitle>
                     <DialogDescription>
-                        Create new matters, or rename/delete existing ones.
+                        Create new matters, rename or delete existing ones, and manage who works on them.
                     </DialogDescription>
                 </DialogHeader>
 
+                <PendingInvitations onAccepted={(invitation) => { if (invitation.caseId) { fetchCases(); onCasesUpdated(); } }} />
+
                 {/* Create New Case Section */}
                 <div className="flex items-center gap-2 mt-4">
                     <Input 
@@ -101,6 +123,15 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
                         disabled={isCreating}
                         onKeyDown={(e) => e.key === 'Enter' && !isCreating && handleCreateCase()}
                     />
+                    {organizations.length > 0 && (
+                        <Select value={newCaseOrganizationId} onValueChange={setNewCaseOrganizationId} disabled={isCreating}>
+                            <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="none">Personal</SelectItem>
+                                {organizations.map(org => <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    )}
                     <Button variant="primary" onClick={handleCreateCase} disabled={!newCaseName.trim() || isCreating}>
                         {isCreating ? <Spinner size="sm" className="mr-2" /> : <Plus className="h-4 w-4 mr-2 text-primary-foreground" />}
                         Create Matter
@@ -119,15 +150,27 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
                         ) : cases.length > 0 ? (
                             <ul className="space-y-2">
                                 {cases.map((c) => (
-                                    <li key={c.id} className="flex items-center justify-between p-2 bg-muted/50 dark:bg-dark-muted/50 rounded text-sm">
+                                    <li key={c.id} className="bg-muted/50 dark:bg-dark-muted/50 rounded text-sm">
+                                      <div className="flex items-center justify-between p-2">
                                         <span className="font-medium truncate pr-2 text-foreground dark:text-dark-foreground">{c.name}</span>
                                         <div className="flex items-center gap-1 flex-shrink-0">
+                                            {c.role && c.role !== 'owner' && <Badge variant="secondary" size="xs">{caseRoleLabels[c.role]}</Badge>}
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                                                onClick={() => setMembersCaseId(membersCaseId === c.id ? null : c.id)}
+                                                title="Members"
+                                            >
+                                                <Users className="h-4 w-4" />
+                                            </Button>
                                             <Button 
                                                 variant="ghost" 
                                                 size="icon" 
                                                 className="h-7 w-7 text-muted-foreground hover:text-foreground"
                                                 // onClick={() => handleInitiateRename(c)} // TODO
                                                 title="Rename Matter"
+                                                disabled={!canPerform(c.role, 'edit')}
                                             >
                                                 <Edit className="h-4 w-4" />
                                             </Button>
@@ -137,10 +180,18 @@ const CaseManagementModal: React.FC<CaseManagementModalProps> = ({ isOpen, onClo
                                                 className="h-7 w-7 text-destructive hover:text-destructive/80"
                                                 // onClick={() => handleInitiateDelete(c)} // TODO
                                                 title="Delete Matter"
+                                                disabled={!canPerform(c.role, 'delete')}
                                             >
                                                 <Trash2 className="h-4 w-4" />
                                             </Button>
                                         </div>
+                                      </div>
+                                      {membersCaseId === c.id && (
+                                          <CaseMembersPanel
+                                              caseItem={c}
+                                              onLeft={() => { setMembersCaseId(null); fetchCases(); onCasesUpdated(); }}
+                                          />
+                                      )}
                                     </li>
                                 ))}
                             </ul>
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { LogOut, MailPlus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Spinner } from '@/components/ui/Spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { Case } from '@/types/case';
+import { CaseMember, CaseRole, Invitation } from '@/types/membership';
+import {
+  getCaseMembers, getOrganizationMembers, getPendingInvitations, inviteCaseMember, removeCaseMember,
+  revokeInvitation, updateCaseMemberRole,
+} from '@/services/membershipService';
+import { assignableRoles, canManageMember, canPerform, caseRoleLabels } from '@/utils/casePermissions';
+
+interface CaseMembersPanelProps {
+  caseItem: Case;
+  onLeft?: () => void; // Called after the current user removes themselves from the case
+}
+
+/**
+ * Who is on a case and in what role, with invitations by email. Members who can manage the case
+ * change roles and remove people; everyone else sees the list and can leave.
+ */
+const CaseMembersPanel: React.FC<CaseMembersPanelProps> = ({ caseItem, onLeft }) => {
+  const { user } = useAuth();
+  const myRole = caseItem.role ?? null;
+  const roles = assignableRoles(myRole);
+  const canManage = canPerform(myRole, 'manage_members');
+
+  const [members, setMembers] = useState<CaseMember[] | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  // Colleagues from the case's organisation, offered as invitees
+  const [colleagueEmails, setColleagueEmails] = useState<string[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CaseRole>(roles[roles.length - 1] ?? 'client');
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await getCaseMembers(caseItem.id);
+      if (error) toast.error(`Failed to load members: ${error.message}`);
+      setMembers(data || []);
+      if (canManage) {
+        const { data: pending } = await getPendingInvitations({ caseId: caseItem.id });
+        setInvitations(pending || []);
+        if (caseItem.organizationId) {
+          const { data: colleagues } = await getOrganizationMembers(caseItem.organizationId);
+          setColleagueEmails((colleagues || []).map(colleague => colleague.email).filter((value): value is string => !!value));
+        }
+      }
+    };
+    load();
+  }, [caseItem.id, caseItem.organizationId, canManage]);
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    const { data, error } = await inviteCaseMember(caseItem.id, email, role);
+    setIsInviting(false);
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to send the invitation');
+      return;
+    }
+    setInvitations(prev => [data, ...prev.filter(invitation => invitation.email !== data.email)]);
+    setEmail('');
+    toast.success(`Invited ${data.email} as ${caseRoleLabels[role].toLowerCase()}. They'll see the invitation when they sign in.`);
+  };
+
+  const handleRoleChange = async (member: CaseMember, newRole: CaseRole) => {
+    const { error } = await updateCaseMemberRole(caseItem.id, member, newRole);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setMembers(prev => prev?.map(existing => (existing.userId === member.userId ? { ...existing, role: newRole } : existing)) ?? null);
+  };
+
+  const handleRemove = async (member: CaseMember) => {
+    const isMe = member.userId === user?.id;
+    const prompt = isMe ? `Leave "${caseItem.name}"? You will lose access to it.` : `Remove ${member.name || member.email} from "${caseItem.name}"?`;
+    if (!window.confirm(prompt)) return;
+    const { error } = await removeCaseMember(caseItem.id, member);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    if (isMe) {
+      toast.success(`You left "${caseItem.name}".`);
+      onLeft?.();
+      return;
+    }
+    setMembers(prev => prev?.filter(existing => existing.userId !== member.userId) ?? null);
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    const { error } = await revokeInvitation(invitation);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setInvitations(prev => prev.filter(existing => existing.id !== invitation.id));
+  };
+
+  if (!members) return <div className="flex justify-center p-3"><Spinner size="sm" /></div>;
+
+  return (
+    <div className="space-y-3 p-3 border-t border-border dark:border-dark-border">
+      <ul className="space-y-1.5">
+        {members.map(member => (
+          <li key={member.userId} className="flex items-center gap-2 text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="truncate font-medium">{member.name || member.email || 'Unknown member'}{member.userId === user?.id && ' (you)'}</p>
+              {member.name && member.email && <p className="truncate text-xs text-muted-foreground">{member.email}</p>}
+            </div>
+            {canManageMember(myRole, member.role) ? (
+              <Select value={member.role} onValueChange={value => handleRoleChange(member, value as CaseRole)}>
+                <SelectTrigger className="w-40 h-8 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {roles.map(option => <SelectItem key={option} value={option}>{caseRoleLabels[option]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="secondary" size="xs">{caseRoleLabels[member.role]}</Badge>
+            )}
+            {(canManageMember(myRole, member.role) || (member.userId === user?.id && member.role !== 'owner')) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={() => handleRemove(member)}
+                title={member.userId === user?.id ? 'Leave matter' : 'Remove member'}
+              >
+                {member.userId === user?.id ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <>
+          {invitations.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Pending invitations</p>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate">{invitation.email}</span>
+                  <Badge variant="info" size="xs">{caseRoleLabels[invitation.role as CaseRole] ?? invitation.role}</Badge>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRevoke(invitation)} title="Revoke invitation">
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Input
+              type="email"
+              placeholder="Invite by email..."
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && email.trim() && !isInviting && handleInvite()}
+              list={`colleagues-${caseItem.id}`}
+              disabled={isInviting}
+              className="h-8 text-sm"
+            />
+            <datalist id={`colleagues-${caseItem.id}`}>
+              {colleagueEmails.map(colleague => <option key={colleague} value={colleague} />)}
+            </datalist>
+            <Select value={role} onValueChange={value => setRole(value as CaseRole)}>
+              <SelectTrigger className="w-40 h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {roles.map(option => <SelectItem key={option} value={option}>{caseRoleLabels[option]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleInvite} disabled={!email.trim() || isInviting}>
+              {isInviting ? <Spinner size="sm" /> : <MailPlus className="h-4 w-4" />}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CaseMembersPanel;
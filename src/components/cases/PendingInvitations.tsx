@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Mail, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Invitation } from '@/types/membership';
+import { getMyInvitations, respondToInvitation } from '@/services/membershipService';
+import { caseRoleLabels } from '@/utils/casePermissions';
+
+interface PendingInvitationsProps {
+  onAccepted?: (invitation: Invitation) => void;
+}
+
+/** Invitations to cases and organisations waiting for the current user; renders nothing when there are none. */
+const PendingInvitations: React.FC<PendingInvitationsProps> = ({ onAccepted }) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMyInvitations().then(({ data }) => setInvitations(data || []));
+  }, []);
+
+  const handleRespond = async (invitation: Invitation, accept: boolean) => {
+    setRespondingId(invitation.id);
+    const { error } = await respondToInvitation(invitation.id, accept);
+    setRespondingId(null);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setInvitations(prev => prev.filter(existing => existing.id !== invitation.id));
+    if (accept) {
+      toast.success(`You joined ${invitation.caseName || invitation.organizationName || 'the invitation'}.`);
+      onAccepted?.(invitation);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border border-primary/30 bg-primary/5 p-3">
+      <h4 className="flex items-center text-sm font-medium"><Mail className="h-4 w-4 mr-1.5" /> Invitations</h4>
+      {invitations.map(invitation => (
+        <div key={invitation.id} className="flex items-center gap-2 text-sm">
+          <p className="flex-1 min-w-0 truncate">
+            {invitation.invitedByName || 'A colleague'} invited you to{' '}
+            <span className="font-medium">{invitation.caseName || invitation.organizationName}</span>
+            {' as '}
+            {invitation.caseId ? caseRoleLabels[invitation.role as keyof typeof caseRoleLabels]?.toLowerCase() : invitation.role}
+          </p>
+          <Button size="sm" onClick={() => handleRespond(invitation, true)} disabled={respondingId === invitation.id}>
+            <Check className="h-4 w-4 mr-1" /> Accept
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => handleRespond(invitation, false)} disabled={respondingId === invitation.id} title="Decline">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PendingInvitations;
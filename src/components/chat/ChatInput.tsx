@@ -73,6 +73,7 @@ interface CommandAction {
     description: string;
 }
 
+// Mirrors CHAT_MODELS in supabase/functions/_shared/llm.ts, which maps each id to a provider model
 const availableModels = [
   { id: 'openai-gpt-4o', name: 'OpenAI GPT-4o', provider: 'OpenAI', supportsWebSearch: true },
   { id: 'perplexity-online', name: 'Perplexity Online', provider: 'Perplexity', supportsWebSearch: true },
@@ -108,7 +109,7 @@ const commandActions: CommandAction[] = [
       label: '/agent compare',
       value: '/agent compare',
       icon: <BarChart2 className="h-4 w-4 mr-2 text-primary" />,
-      description: 'Compare two documents.',
+      description: 'Compare two or more drafts, oldest first.',
     },
     {
       id: 'agent-draft',
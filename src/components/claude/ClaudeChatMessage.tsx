@@ -1,10 +1,12 @@
 import React from 'react';
+import { Link } from 'react-router-dom';
 import ReactMarkdown, { Options } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Light as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { githubGist as atomOneLightGist } from 'react-syntax-highlighter/dist/esm/styles/hljs';
 import { atomOneDark } from 'react-syntax-highlighter/dist/esm/styles/hljs';
 import { cn } from '@/lib/utils';
+import { isDocumentCitation } from '@/types/sources';
 
 import LegalThinkingPanel from './LegalThinkingPanel';
 import LegalSourcesDisplay, { SourceInfo } from './LegalSourcesDisplay';
@@ -53,11 +55,32 @@ export const markdownRenderers = (): Options['components'] => ({
       </code>
     );
   },
-  a: ({ ...props }) => {
-    return <a {...props} target="_blank" rel="noopener noreferrer" />;
+  a: ({ href, children, ...props }) => {
+    // In-app links (e.g. jump-to-passage citations) stay in the SPA
+    if (href?.startsWith('/')) {
+      return <Link to={href} className={props.className}>{children}</Link>;
+    }
+    return <a href={href} {...props} target="_blank" rel="noopener noreferrer">{children}</a>;
   },
 });
 
+/**
+ * Turns inline document citations like [Lease.pdf, 10240] into jump-to-passage links,
+ * using the passage whose range contains the cited offset (or the first passage of that document).
+ */
+const linkDocumentCitations = (content: string, sources: SourceInfo[]): string => {
+  const passages = sources.filter(isDocumentCitation);
+  if (passages.length === 0) return content;
+
+  return content.replace(/\[([^[\]]+?),\s*(\d+)\](?!\()/g, (match, filename: string, offset: string) => {
+    const name = filename.trim();
+    const position = Number(offset);
+    const passage = passages.find(p => p.filename === name && position >= p.start && position < p.end)
+      ?? passages.find(p => p.filename === name);
+    return passage ? `[${name}, ${offset}](${passage.url})` : match;
+  });
+};
+
 /**
  * Enhanced chat message component specifically for Claude responses
  * Handles different response types (simple, complex, research) with appropriate UI
@@ -169,7 +192,7 @@ const ClaudeChatMessage: React.FC<ClaudeMessageProps> = ({
         ) : (
           <div className="prose prose-sm dark:prose-invert max-w-none text-card-foreground dark:text-dark-card-foreground message-content-clickable-links">
             <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownRenderers()}>
-              {content}
+              {isUser ? content : linkDocumentCitations(content, sources)}
             </ReactMarkdown>
           </div>
         )}
@@ -1,24 +1,14 @@
 import React from 'react';
 import { GavelIcon, CheckCircle2, AlertCircle, HelpCircle, ExternalLink } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { VerifiedCitation } from '@/types/citation';
 
-export interface VerifiedCitation {
-  citation: string;
-  verified: boolean;
-  correctedCitation?: string;
-  court?: string;
-  date?: string;
-  summary?: string;
-  sources?: {
-    title: string;
-    url: string;
-  }[];
-  error?: string;
-}
+export type { VerifiedCitation } from '@/types/citation';
 
 interface LegalCitationVerificationProps {
   verifications: VerifiedCitation[];
   className?: string;
+  onCitationClick?: (verification: VerifiedCitation) => void; // E.g. to jump to the first occurrence
 }
 
 /**
@@ -26,7 +16,8 @@ interface LegalCitationVerificationProps {
  */
 const LegalCitationVerification: React.FC<LegalCitationVerificationProps> = ({ 
   verifications,
-  className
+  className,
+  onCitationClick
 }) => {
   if (!verifications || verifications.length === 0) return null;
 
@@ -52,9 +43,17 @@ const LegalCitationVerification: React.FC<LegalCitationVerificationProps> = ({
               )}
               
               <div className="flex-1">
-                <div className="font-mono text-sm text-foreground dark:text-dark-foreground">
+                <div
+                  className={cn("font-mono text-sm text-foreground dark:text-dark-foreground", onCitationClick && "cursor-pointer hover:underline")}
+                  onClick={onCitationClick ? () => onCitationClick(verification) : undefined}
+                >
                   {verification.citation}
                 </div>
+                {verification.occurrences && verification.occurrences.length > 1 && (
+                  <div className="text-xs text-muted-foreground dark:text-dark-muted-foreground">
+                    Cited {verification.occurrences.length} times ({verification.occurrences.filter(o => o.shortForm).length} short form)
+                  </div>
+                )}
                 
                 {verification.correctedCitation && (
                   <div className="mt-1 text-sm">
@@ -93,6 +92,10 @@ const LegalCitationVerification: React.FC<LegalCitationVerificationProps> = ({
                   </div>
                 )}
                 
+                {verification.status === 'not_found' && !verification.error && (
+                  <div className="mt-1 text-xs text-destructive">No matching authority found</div>
+                )}
+
                 {verification.error && !verification.verified && !verification.correctedCitation && (
                   <div className="mt-1 text-xs">
                     <span className="text-muted-foreground dark:text-dark-muted-foreground">Could not verify: </span>
@@ -1,14 +1,19 @@
 import React from 'react';
-import { BookOpen, ExternalLink } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { BookOpen, ExternalLink, FileSearch } from 'lucide-react';
+import { DocumentCitationSource, isDocumentCitation } from '@/types/sources';
 
 // Source info interface
-export interface SourceInfo {
+export interface WebSourceInfo {
   title: string;
   url: string;
   date?: string;
   snippet?: string;
 }
 
+// Web results, or passages from the case's own documents (case-scoped /research)
+export type SourceInfo = WebSourceInfo | DocumentCitationSource;
+
 interface LegalSourcesDisplayProps {
   sources: SourceInfo[];
 }
@@ -26,7 +31,23 @@ const LegalSourcesDisplay: React.FC<LegalSourcesDisplayProps> = ({ sources }) =>
         Sources Referenced
       </h4>
       <ul className="text-xs space-y-1.5">
-        {sources.map((source, idx) => (
+        {sources.map((source, idx) => isDocumentCitation(source) ? (
+          <li key={idx} className="flex items-start text-card-foreground dark:text-dark-card-foreground">
+            <span className="inline-block mr-1.5">•</span>
+            <div className="flex-1">
+              <strong className="font-medium">{source.filename}</strong>
+              <span className="text-muted-foreground dark:text-dark-muted-foreground ml-1">(offset {source.start})</span>
+              <p className="text-muted-foreground dark:text-dark-muted-foreground mt-1 truncate max-w-md">{source.snippet}</p>
+              <Link
+                to={source.url}
+                className="mt-1 text-primary dark:text-dark-primary hover:underline flex items-center"
+              >
+                <FileSearch className="h-3 w-3 mr-1" />
+                Jump to Passage
+              </Link>
+            </div>
+          </li>
+        ) : (
           <li key={idx} className="flex items-start text-card-foreground dark:text-dark-card-foreground">
             <span className="inline-block mr-1.5">•</span>
             <div className="flex-1">
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import NewTiptapEditor from '@/components/editor/NewTiptapEditor';
+import OrganizationShareSelect from '@/components/organization/OrganizationShareSelect';
+import { ClauseApprovalStatus, LibraryClause } from '@/types/clauseLibrary';
+import { LibraryClauseInput, saveClause } from '@/services/clauseLibraryService';
+import { clauseVariables, parseTags } from '@/utils/clauseLibrary';
+
+interface ClauseFormProps {
+  clause: LibraryClause | null; // null to create a new clause
+  initialContent?: string; // Editor HTML for a new clause, e.g. text selected in a document
+  onSaved: (clause: LibraryClause) => void;
+  onCancel?: () => void;
+  onDelete?: () => void;
+}
+
+const approvalStatuses: { value: ClauseApprovalStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'deprecated', label: 'Deprecated' },
+];
+
+/**
+ * Form for a library clause: its details, tags, approval status and wording, where `{{name}}`
+ * typed in the text becomes a placeholder.
+ */
+const ClauseForm: React.FC<ClauseFormProps> = ({ clause, initialContent, onSaved, onCancel, onDelete }) => {
+  const [draft, setDraft] = useState<LibraryClauseInput>(() => ({
+    title: clause?.title ?? '',
+    category: clause?.category ?? '',
+    jurisdiction: clause?.jurisdiction ?? '',
+    content: clause?.content ?? initialContent ?? '',
+    tags: clause?.tags ?? [],
+    approvalStatus: clause?.approvalStatus ?? 'draft',
+    organizationId: clause?.organizationId ?? null,
+  }));
+  // Kept as typed so a trailing comma survives until the clause is saved
+  const [tagsText, setTagsText] = useState((clause?.tags ?? []).join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+  const variables = clauseVariables(draft.content);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { data, error } = await saveClause({ ...draft, tags: parseTags(tagsText) }, clause?.id);
+    setIsSaving(false);
+    if (error || !data) {
+      toast.error(`Failed to save clause: ${error?.message || 'Unknown error'}`);
+      return;
+    }
+    toast.success(`Clause "${data.title}" saved to the library.`);
+    onSaved(data);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label>Title</Label>
+        <Input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} placeholder="e.g. Mutual confidentiality" />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label>Category</Label>
+          <Input value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })} placeholder="e.g. Confidentiality" />
+        </div>
+        <div className="space-y-1">
+          <Label>Jurisdiction</Label>
+          <Input value={draft.jurisdiction} onChange={e => setDraft({ ...draft, jurisdiction: e.target.value })} placeholder="Any" />
+        </div>
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={draft.approvalStatus} onValueChange={value => setDraft({ ...draft, approvalStatus: value as ClauseApprovalStatus })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {approvalStatuses.map(status => <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label>Tags (comma separated)</Label>
+        <Input value={tagsText} onChange={e => setTagsText(e.target.value)} placeholder="e.g. nda, mutual" />
+      </div>
+      <OrganizationShareSelect value={draft.organizationId ?? null} onChange={organizationId => setDraft({ ...draft, organizationId })} />
+      <div className="space-y-1">
+        <Label>Text</Label>
+        <div className="border rounded-md min-h-[12rem] dark:border-slate-700">
+          <NewTiptapEditor
+            content={draft.content}
+            editable
+            onChangeHtml={content => setDraft(prev => ({ ...prev, content }))}
+            placeholder="The clause's wording. Type {{Party name}} for a placeholder."
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          {variables.length === 0 ? 'No placeholders.' : <>Placeholders: {variables.map(name => <Badge key={name} variant="info" size="xs">{name}</Badge>)}</>}
+        </div>
+      </div>
+
+      <div className="flex justify-between pt-2 border-t dark:border-slate-700">
+        {onDelete ? (
+          <Button variant="destructive" size="sm" onClick={onDelete}>
+            <Trash2 className="h-4 w-4 mr-1.5" /> Delete clause
+          </Button>
+        ) : <span />}
+        <div className="flex gap-2">
+          {onCancel && <Button variant="outline" onClick={onCancel}>Cancel</Button>}
+          <Button onClick={handleSave} disabled={isSaving || !draft.title.trim()}>
+            <Save className="h-4 w-4 mr-1.5" /> {isSaving ? 'Saving...' : 'Save clause'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClauseForm;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import ClauseForm from './ClauseForm';
+import { LibraryClause } from '@/types/clauseLibrary';
+
+interface SaveClauseModalProps {
+  content: string | null; // Editor HTML of the selection to save; the modal is closed while null
+  onClose: () => void;
+  onSaved?: (clause: LibraryClause) => void;
+}
+
+/** Saves text selected in a document to the clause library as a new draft clause. */
+const SaveClauseModal: React.FC<SaveClauseModalProps> = ({ content, onClose, onSaved }) => (
+  <Dialog open={content !== null} onOpenChange={open => !open && onClose()}>
+    <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto bg-background dark:bg-dark-secondary">
+      <DialogHeader>
+        <DialogTitle>Save Selection as Clause</DialogTitle>
+      </DialogHeader>
+      {content !== null && (
+        <ClauseForm
+          clause={null}
+          initialContent={content}
+          onSaved={clause => { onSaved?.(clause); onClose(); }}
+          onCancel={onClose}
+        />
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default SaveClauseModal;
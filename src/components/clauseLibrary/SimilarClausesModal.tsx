@@ -0,0 +1,81 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Replace } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Spinner } from '@/components/ui/Spinner';
+import { LibraryClause, SimilarClauseMatch } from '@/types/clauseLibrary';
+
+interface SimilarClausesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clauseTitle: string; // The document clause being matched
+  matches: SimilarClauseMatch[] | null;
+  isLoading: boolean;
+  error: string | null;
+  onUseClause?: (clause: LibraryClause) => void; // Absent while the document isn't editable
+}
+
+const matchStyles: Record<SimilarClauseMatch['match'], { label: string; variant: 'success' | 'info' | 'warning' }> = {
+  equivalent: { label: 'Equivalent', variant: 'success' },
+  close: { label: 'Close', variant: 'info' },
+  partial: { label: 'Partial', variant: 'warning' },
+};
+
+/**
+ * Library clauses that cover the same ground as a clause found by the clauses analysis, each
+ * with how the document's wording differs and, while editing, the option to use the library's.
+ */
+const SimilarClausesModal: React.FC<SimilarClausesModalProps> = ({ isOpen, onClose, clauseTitle, matches, isLoading, error, onUseClause }) => (
+  <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+    <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto bg-background dark:bg-dark-secondary">
+      <DialogHeader>
+        <DialogTitle>Library clauses like "{clauseTitle}"</DialogTitle>
+      </DialogHeader>
+      {isLoading && (
+        <div className="flex items-center gap-2 py-6 justify-center text-sm text-muted-foreground">
+          <Spinner /> Comparing with your clause library...
+        </div>
+      )}
+      {!isLoading && error && <p className="text-sm text-red-500">Error: {error}</p>}
+      {!isLoading && !error && matches && matches.length === 0 && (
+        <p className="text-sm text-muted-foreground py-4">
+          Nothing in your library covers this clause. <Link to="/app/clauses" className="underline">Open the clause library</Link>
+        </p>
+      )}
+      {!isLoading && !error && matches && matches.length > 0 && (
+        <div className="space-y-3">
+          {matches.map(({ clause, match, differences }) => (
+            <div key={clause.id} className="border rounded-md p-3 space-y-2 dark:border-slate-700">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm truncate">{clause.title}</p>
+                  <p className="text-xs text-muted-foreground">{[clause.category, clause.jurisdiction].filter(Boolean).join(' · ')}</p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {clause.approvalStatus === 'draft' && <Badge variant="secondary" size="xs">draft</Badge>}
+                  <Badge variant={matchStyles[match].variant} size="xs">{matchStyles[match].label}</Badge>
+                </div>
+              </div>
+              {differences && <p className="text-xs"><span className="font-medium">Differences: </span>{differences}</p>}
+              <div
+                className="prose prose-sm dark:prose-invert max-w-none text-xs p-2 rounded bg-muted/40 max-h-40 overflow-y-auto"
+                dangerouslySetInnerHTML={{ __html: clause.content }}
+              />
+              {onUseClause && (
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={() => onUseClause(clause)}>
+                    <Replace className="h-4 w-4 mr-1.5" /> Use library wording
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </DialogContent>
+  </Dialog>
+);
+
+export default SimilarClausesModal;
@@ -14,7 +14,7 @@ import {
     chatDocumentContextIdsAtom
 } from '@/atoms/appAtoms';
 import { cn } from "@/lib/utils";
-import { Folder, FileText, LayoutGrid, List, Plus, Upload, FolderPlus, FilePlus, Sparkles, Edit, FileUp, Play } from 'lucide-react';
+import { Folder, FileText, LayoutGrid, List, Plus, Upload, FolderPlus, FilePlus, Sparkles, Edit, FileUp, Play, ShieldCheck } from 'lucide-react';
 import { Button, buttonVariants } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -60,6 +60,8 @@ import CaseManagementModal from '../cases/CaseManagementModal';
 import UploadModal from '@/components/documents/UploadModal';
 import NewAITemplateDraftModal from '../templates/NewAITemplateDraftModal';
 import NewAIDocumentDraftModal from '../documents/NewAIDocumentDraftModal';
+import CreateProductionModal from '../documents/CreateProductionModal';
+import PrivilegeLogModal from '../documents/PrivilegeLogModal';
 import { useTemplate } from '@/lib/templateUtils';
 import CaseRequiredDialog from '@/components/common/CaseRequiredDialog';
 
@@ -203,6 +205,8 @@ const FileManager: React.FC<FileManagerProps> = () => {
     const [viewMode, setViewMode] = useState<ViewMode>('list');
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedItems, setSelectedItems] = useState<string[]>([]); // For multi-selection
+    const [isProductionModalOpen, setIsProductionModalOpen] = useState(false);
+    const [isPrivilegeLogOpen, setIsPrivilegeLogOpen] = useState(false);
 
     // State for managing actions (rename/delete modals)
     const [actionState, setActionState] = useState<ActionState>({ actionType: null, itemId: null, itemType: null });
@@ -1137,6 +1141,16 @@ const FileManager: React.FC<FileManagerProps> = () => {
 
                     {/* Right side */}
                     <div className="flex items-center gap-2">
+                        {selectedItems.length > 0 && selectedItemType === 'case' && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8"
+                                onClick={() => setIsProductionModalOpen(true)}
+                            >
+                                Create Production ({selectedItems.length})
+                            </Button>
+                        )}
                         {selectedItems.length > 0 && (
                             <Button 
                                 variant="destructive" 
@@ -1195,6 +1209,18 @@ const FileManager: React.FC<FileManagerProps> = () => {
                             Upload
                         </Button>
                         
+                        {selectedItemType === 'case' && selectedItemId && (
+                            <Button 
+                                variant="outline"
+                                size="sm"
+                                className="h-8"
+                                onClick={() => setIsPrivilegeLogOpen(true)}
+                            >
+                                <ShieldCheck className="h-4 w-4 mr-2" />
+                                Privilege Log
+                            </Button>
+                        )}
+
                          {/* Create Blank Document/Template Buttons */} 
                          {selectedItemType === 'case' && selectedItemId && (
                             <Button 
@@ -1351,6 +1377,26 @@ const FileManager: React.FC<FileManagerProps> = () => {
                     navigate(`/review/document/${newDocId}`);
                 }}
             />
+            {activeCaseId && (
+                <CreateProductionModal
+                    isOpen={isProductionModalOpen}
+                    onClose={(created) => {
+                        setIsProductionModalOpen(false);
+                        if (created) setSelectedItems([]);
+                    }}
+                    caseId={activeCaseId}
+                    // Produce in the order the documents are listed, not the order they were clicked
+                    documentIds={documents.filter(doc => selectedItems.includes(doc.id)).map(doc => doc.id)}
+                />
+            )}
+            {activeCaseId && (
+                <PrivilegeLogModal
+                    isOpen={isPrivilegeLogOpen}
+                    onClose={() => setIsPrivilegeLogOpen(false)}
+                    caseId={activeCaseId}
+                    caseName={activeCase?.name}
+                />
+            )}
             <CaseRequiredDialog
                 isOpen={isCaseRequiredDialogOpen}
                 onClose={handleCaseRequiredDialogClose}
@@ -44,15 +44,19 @@ import useDebounce from '@/hooks/useDebounce';
 import * as caseService from '@/services/caseService';
 import * as documentService from '@/services/documentService';
 import * as templateService from '@/services/templateService';
+import { resolveBatesNumber } from '@/services/productionService';
+import { BatesLocation } from '@/types/production';
 import { Case } from '@/types/case';
 import { DocumentMetadata } from '@/types/document';
 import { DocumentTemplate } from '@/types/template';
+import { documentReviewUrl } from '@/types/sources';
 import { Spinner } from '@/components/ui/Spinner';
 import { cn } from '@/lib/utils';
 import { DialogTitle } from "@/components/ui/dialog";
 import * as VisuallyHidden from '@radix-ui/react-visually-hidden';
 import { supabase } from '@/lib/supabaseClient';
 import { toast } from 'sonner';
+import { Task, taskToCommand } from '@/lib/commandParser';
 
 import { SemanticSearchResultItem } from '@/services/documentService';
 
@@ -62,6 +66,7 @@ interface SearchResults {
     documents: DocumentMetadata[];
     templates: DocumentTemplate[];
     semanticHits: SemanticSearchResultItem[];
+    batesHit: BatesLocation | null; // The query is a Bates number from one of the case's productions
 }
 
 interface CommandAction {
@@ -74,12 +79,26 @@ interface CommandAction {
     disabledTooltip?: string;
 }
 
+// Returned by the interpret-search-intent function; run_task intents carry the Task
 interface IntentResponse {
     intent: string;
     params?: Record<string, any>;
     message?: string;
+    task?: Task;
+    confidence?: number;
+    source?: 'rules' | 'model';
 }
 
+// Reviewer analyses that document tasks open with
+const taskAnalysis: Record<string, string> = {
+    summarize: 'summary',
+    key_clauses: 'clauses',
+    find_clause: 'clauses',
+    risk_analysis: 'risks',
+    generate_timeline: 'timeline',
+    flag_privileged_terms: 'privilegedTerms',
+};
+
 interface GlobalCommandPaletteProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -148,11 +167,45 @@ const GlobalCommandPalette: React.FC<GlobalCommandPaletteProps> = ({ open, onOpe
         case 'general_search':
             toast.info(message || `Searching broadly for: ${params?.original_query}`);
             break;
+        case 'run_task': {
+            const task = intent.task;
+            if (!task) break;
+            // Document tasks open the document in the reviewer with the matching analysis selected
+            const docAnalysis = task.type === 'analyze_document'
+                ? { docId: task.docId, analysis: task.analysisType }
+                : task.type === 'agent' && 'docId' in task && task.docId && taskAnalysis[task.agent]
+                    ? { docId: task.docId, analysis: taskAnalysis[task.agent] }
+                    : null;
+            if (docAnalysis) {
+                runCommand(() => navigate(`/app/review/document/${docAnalysis.docId}?analysis=${docAnalysis.analysis}`));
+            } else if (task.type === 'use_template' && params?.templateId) {
+                runCommand(() => navigate(`/app/ai/templates/${params.templateId}/fill`));
+            } else if (task.type === 'agent' && task.agent === 'compare') {
+                if (!activeCaseId) {
+                    toast.info('Please select an active matter to compare documents.');
+                    return;
+                }
+                runCommand(() => navigate(`/app/cases/${activeCaseId}/compare?docs=${task.docIds.join(',')}`));
+            } else if (task.type === 'case_search') {
+                setSearch(task.query);
+            } else {
+                // Everything else runs in the chat: hand over the equivalent command
+                const command = taskToCommand(task);
+                if (!command) {
+                    toast.error('Sorry, that can only be done from the chat.');
+                    return;
+                }
+                navigator.clipboard.writeText(command);
+                onOpenChange(false);
+                toast.success(`Copied "${command}". Paste it into the chat to run it.`);
+            }
+            break;
+        }
         default:
             console.warn('Unknown intent type:', type);
             toast.error('Sorry, I could not understand that command.');
     }
-  }, [activeCaseId, runCommand, navigate, setIsUploadModalOpen, setIsNewAITemplateModalOpen, setIsNewAIDocumentDraftModalOpen]);
+  }, [activeCaseId, runCommand, navigate, onOpenChange, setIsUploadModalOpen, setIsNewAITemplateModalOpen, setIsNewAIDocumentDraftModalOpen]);
 
   const predefinedCommands = useMemo((): CommandAction[] => {
     const caseRequiredTooltip = "Requires an active matter to be selected.";
@@ -196,7 +249,7 @@ const GlobalCommandPalette: React.FC<GlobalCommandPaletteProps> = ({ open, onOpe
     if (debouncedIntentSearch.trim()) {
         setIntentLoading(true);
         supabase.functions.invoke('interpret-search-intent', {
-            body: { query: debouncedIntentSearch.trim() }
+            body: { query: debouncedIntentSearch.trim(), caseId: activeCaseId }
         }).then(({ data, error }) => {
             if (error) {
                 console.error("Intent error:", error);
@@ -218,6 +271,7 @@ const GlobalCommandPalette: React.FC<GlobalCommandPaletteProps> = ({ open, onOpe
           documents: [],
           templates: [],
           semanticHits: [],
+          batesHit: null,
         });
         setLoading(false);
         return;
@@ -228,28 +282,31 @@ const GlobalCommandPalette: React.FC<GlobalCommandPaletteProps> = ({ open, onOpe
         const filteredCommands = predefinedCommands.filter(cmd =>
           cmd.label.toLowerCase().includes(query)
         );
-        const [caseResults, docResults, templateResults, semanticResults] = await Promise.all([
+        const [caseResults, docResults, templateResults, semanticResults, batesResult] = await Promise.all([
           caseService.searchCasesByName(query, 5),
           documentService.searchDocumentsByName(query, activeCaseId, 5),
           templateService.searchTemplatesByName(query, 5),
-          documentService.semanticSearchDocuments(query, 5, activeCaseId)
+          documentService.semanticSearchDocuments(query, activeCaseId, 5),
+          activeCaseId && /\d/.test(query) ? resolveBatesNumber(debouncedSearch, activeCaseId) : Promise.resolve({ data: null, error: null })
         ]);
 
         if (caseResults.error) console.error("Case search error:", caseResults.error);
         if (docResults.error) console.error("Document search error:", docResults.error);
         if (templateResults.error) console.error("Template search error:", templateResults.error);
         if (semanticResults.error) console.error("Semantic search error:", semanticResults.error);
+        if (batesResult.error) console.error("Bates lookup error:", batesResult.error);
 
         setResults({
           commands: filteredCommands,
           cases: caseResults.data || [],
           documents: docResults.data || [],
           templates: templateResults.data || [],
-          semanticHits: semanticResults.data || []
+          semanticHits: semanticResults.data || [],
+          batesHit: batesResult.data
         });
       } catch (error) {
         console.error("Error fetching command palette results:", error);
-        setResults({ commands: [], cases: [], documents: [], templates: [], semanticHits: [] });
+        setResults({ commands: [], cases: [], documents: [], templates: [], semanticHits: [], batesHit: null });
       } finally {
         setLoading(false);
       }
@@ -262,7 +319,8 @@ const GlobalCommandPalette: React.FC<GlobalCommandPaletteProps> = ({ open, onOpe
     results.cases.length > 0 ||
     results.documents.length > 0 ||
     results.templates.length > 0 ||
-    results.semanticHits.length > 0
+    results.semanticHits.length > 0 ||
+    results.batesHit !== null
   );
 
   return (
@@ -309,6 +367,24 @@ const GlobalCommandPalette: React.FC<GlobalCommandPaletteProps> = ({ open, onOpe
 
         {results && !loading && (
           <>
+            {results.batesHit && (() => {
+              const hit = results.batesHit;
+              return (
+                <CommandGroup heading="Bates Number">
+                  <CommandItem
+                    key={`bates-${hit.label}`}
+                    value={`bates ${hit.label}`}
+                    onSelect={() => runCommand(() => navigate(documentReviewUrl(hit.documentId, hit.passage ?? undefined)))}
+                    className="cursor-pointer"
+                  >
+                    <FileTextIcon className="mr-2 h-4 w-4 text-muted-foreground dark:text-dark-muted-foreground" />
+                    <span className="font-mono mr-2">{hit.label}</span>
+                    <span className="truncate">{hit.filename}, page {hit.page}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">{hit.withheld ? 'Withheld' : hit.productionName}</span>
+                  </CommandItem>
+                </CommandGroup>
+              );
+            })()}
             {results.cases.length > 0 && (
               <CommandGroup heading="Matters">
                 {results.cases.map((c) => (
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { diffWords } from 'diff';
+import { ArrowRightLeft, Hash } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { ClauseChangeKind, ClauseComparison, clauseLabel } from '@/utils/clauseComparison';
+import type { ClauseEffect } from '@/services/clauseComparisonService';
+
+interface ClauseComparisonTableProps {
+  comparisons: ClauseComparison[];
+  effects: ClauseEffect[];
+  className?: string;
+}
+
+const kindBadges: Record<ClauseChangeKind, { label: string; variant: 'secondary' | 'info' | 'warning' | 'success' | 'danger' }> = {
+  unchanged: { label: 'Unchanged', variant: 'secondary' },
+  reworded: { label: 'Reworded', variant: 'info' },
+  substantive: { label: 'Substantive', variant: 'warning' },
+  added: { label: 'Added', variant: 'success' },
+  removed: { label: 'Removed', variant: 'danger' },
+};
+
+const severityBadges: Record<ClauseEffect['severity'], 'secondary' | 'warning' | 'danger'> = {
+  minor: 'secondary',
+  moderate: 'warning',
+  major: 'danger',
+};
+
+export const ClauseChangeBadge: React.FC<{ kind: ClauseChangeKind }> = ({ kind }) => (
+  <Badge variant={kindBadges[kind].variant} size="xs">{kindBadges[kind].label}</Badge>
+);
+
+// The revised clause with the words it gained and lost marked
+export const WordDiff: React.FC<{ original: string; revised: string }> = ({ original, revised }) => (
+  <>
+    {diffWords(original, revised).map((part, index) => (
+      part.added ? <ins key={index} className="bg-green-500/15 text-green-800 dark:text-green-300 no-underline">{part.value}</ins>
+        : part.removed ? <del key={index} className="bg-red-500/10 text-red-700 dark:text-red-400">{part.value}</del>
+        : <span key={index}>{part.value}</span>
+    ))}
+  </>
+);
+
+/**
+ * Clause-by-clause table of a comparison: each aligned pair with its classification, moved and
+ * renumbered flags, the wording change and, once summarised, the legal effect. Unchanged clauses
+ * are hidden unless asked for.
+ */
+const ClauseComparisonTable: React.FC<ClauseComparisonTableProps> = ({ comparisons, effects, className }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const effectsById = useMemo(() => new Map(effects.map(effect => [effect.id, effect])), [effects]);
+  const unchangedCount = comparisons.filter(comparison => comparison.kind === 'unchanged' && !comparison.moved).length;
+  const visible = comparisons.filter(comparison => showUnchanged || comparison.kind !== 'unchanged' || comparison.moved);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        {(Object.keys(kindBadges) as ClauseChangeKind[]).map(kind => {
+          const count = comparisons.filter(comparison => comparison.kind === kind).length;
+          return count > 0 && <Badge key={kind} variant={kindBadges[kind].variant} size="xs">{kindBadges[kind].label}: {count}</Badge>;
+        })}
+        {unchangedCount > 0 && (
+          <Button variant="link" size="sm" className="ml-auto px-0" onClick={() => setShowUnchanged(!showUnchanged)}>
+            {showUnchanged ? 'Hide unchanged clauses' : `Show unchanged clauses (${unchangedCount})`}
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto border rounded-md dark:border-slate-700">
+        <table className="w-full text-xs align-top">
+          <thead className="bg-muted/50 dark:bg-slate-700/30 text-left">
+            <tr>
+              <th className="p-2 w-44 font-semibold">Clause</th>
+              <th className="p-2 w-28 font-semibold">Change</th>
+              <th className="p-2 font-semibold">Wording</th>
+              <th className="p-2 w-72 font-semibold">Legal effect</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={4} className="p-4 text-center text-muted-foreground">No clause changes found.</td>
+              </tr>
+            )}
+            {visible.map(comparison => {
+              const { original, revised } = comparison;
+              const effect = effectsById.get(comparison.id);
+              return (
+                <tr key={comparison.id} className="border-t dark:border-slate-700 align-top">
+                  <td className="p-2">
+                    <p className="font-medium">{clauseLabel((revised ?? original)!)}</p>
+                    {comparison.renumbered && original?.number && (
+                      <p className="text-muted-foreground flex items-center mt-0.5"><Hash className="h-3 w-3 mr-1" /> was {original.number}</p>
+                    )}
+                    {comparison.moved && (
+                      <p className="text-muted-foreground flex items-center mt-0.5"><ArrowRightLeft className="h-3 w-3 mr-1" /> moved</p>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <ClauseChangeBadge kind={comparison.kind} />
+                  </td>
+                  <td className="p-2 whitespace-pre-wrap leading-relaxed">
+                    {original && revised
+                      ? (comparison.kind === 'unchanged' ? revised.text : <WordDiff original={original.text} revised={revised.text} />)
+                      : revised
+                        ? <ins className="bg-green-500/15 text-green-800 dark:text-green-300 no-underline">{revised.text}</ins>
+                        : <del className="bg-red-500/10 text-red-700 dark:text-red-400">{original!.text}</del>}
+                  </td>
+                  <td className="p-2">
+                    {effect ? (
+                      <div className="space-y-1">
+                        <Badge variant={severityBadges[effect.severity]} size="xs">{effect.severity}</Badge>
+                        <p>{effect.effect}</p>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground italic">
+                        {comparison.kind === 'unchanged' || comparison.kind === 'reworded' ? 'No change in effect expected' : 'Not yet summarised'}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ClauseComparisonTable;
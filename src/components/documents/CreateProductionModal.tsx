@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Checkbox } from '@/components/ui/Checkbox';
+import { Spinner } from '@/components/ui/Spinner';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { createProduction, getCaseProductions } from '@/services/productionService';
+import { formatBatesNumber } from '@/utils/bates';
+
+interface CreateProductionModalProps {
+  isOpen: boolean;
+  onClose: (created?: boolean) => void;
+  caseId: string;
+  documentIds: string[]; // In production order
+}
+
+const DEFAULT_DIGITS = 6;
+
+const CreateProductionModal: React.FC<CreateProductionModalProps> = ({ isOpen, onClose, caseId, documentIds }) => {
+  const [name, setName] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [startNumber, setStartNumber] = useState('');
+  const [digits, setDigits] = useState(String(DEFAULT_DIGITS));
+  const [withholdPrivileged, setWithholdPrivileged] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUsed, setLastUsed] = useState<Record<string, number>>({}); // Highest Bates number per prefix
+
+  // Suggest continuing the case's most recent numbering
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setStartNumber('');
+    getCaseProductions(caseId).then(({ data }) => {
+      const productions = data || [];
+      const highest: Record<string, number> = {};
+      productions.forEach(p => { highest[p.batesPrefix] = Math.max(highest[p.batesPrefix] ?? 0, p.batesEnd); });
+      setLastUsed(highest);
+      if (productions.length > 0) {
+        setPrefix(current => current || productions[0].batesPrefix);
+        setDigits(String(productions[0].batesDigits));
+      }
+      setName(`Production ${String(productions.length + 1).padStart(3, '0')}`);
+    });
+  }, [isOpen, caseId]);
+
+  const digitCount = Number(digits) || DEFAULT_DIGITS;
+  const nextNumber = startNumber ? Number(startNumber) : (lastUsed[prefix.trim()] ?? 0) + 1;
+  const preview = prefix.trim() && Number.isInteger(nextNumber) && nextNumber > 0
+    ? formatBatesNumber(prefix.trim(), digitCount, nextNumber)
+    : null;
+
+  const handleCreate = async () => {
+    if (!prefix.trim()) {
+      setError('Enter a Bates prefix, e.g. your client or party abbreviation.');
+      return;
+    }
+    if (startNumber && !(Number.isInteger(Number(startNumber)) && Number(startNumber) > 0)) {
+      setError('Start number must be a positive whole number.');
+      return;
+    }
+    setIsCreating(true);
+    setError(null);
+    const { data, error: createError } = await createProduction({
+      caseId,
+      documentIds,
+      name: name.trim() || undefined,
+      prefix: prefix.trim(),
+      startNumber: startNumber ? Number(startNumber) : null,
+      digits: digitCount,
+      withholdPrivileged,
+    });
+    setIsCreating(false);
+
+    if (createError || !data) {
+      setError(createError?.message || 'Production could not be created.');
+      return;
+    }
+
+    const { production } = data;
+    const a = document.createElement('a');
+    a.href = data.downloadUrl;
+    a.download = data.fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    toast.success(`${production.name}: ${formatBatesNumber(production.batesPrefix, production.batesDigits, production.batesStart)}-${formatBatesNumber(production.batesPrefix, production.batesDigits, production.batesEnd)} (${production.documentCount} documents, ${production.pageCount} pages)`);
+    onClose(true);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isCreating && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create Production</DialogTitle>
+          <DialogDescription>
+            Bates-number {documentIds.length} selected document(s) and download the stamped PDFs, natives and production log as a ZIP.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-1.5">
+            <Label>Production name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} disabled={isCreating} />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="grid gap-1.5">
+              <Label>Bates prefix</Label>
+              <Input value={prefix} onChange={(e) => setPrefix(e.target.value)} placeholder="ACME" maxLength={20} disabled={isCreating} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Start number</Label>
+              <Input
+                type="number"
+                min={1}
+                value={startNumber}
+                onChange={(e) => setStartNumber(e.target.value)}
+                placeholder={String((lastUsed[prefix.trim()] ?? 0) + 1)}
+                disabled={isCreating}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Digits</Label>
+              <Input type="number" min={3} max={10} value={digits} onChange={(e) => setDigits(e.target.value)} disabled={isCreating} />
+            </div>
+          </div>
+          {preview && (
+            <p className="text-xs text-muted-foreground">First page will be stamped <span className="font-mono text-foreground">{preview}</span></p>
+          )}
+          <div className="flex items-start gap-2">
+            <Checkbox
+              checked={withholdPrivileged}
+              onCheckedChange={(checked) => setWithholdPrivileged(checked === true)}
+              disabled={isCreating}
+              className="mt-0.5"
+            />
+            <div className="grid gap-1">
+              <Label>Withhold documents flagged as privileged</Label>
+              <span className="text-xs text-muted-foreground">Documents with privileged terms flagged by analysis are replaced by a numbered slip sheet.</span>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onClose()} disabled={isCreating}>Cancel</Button>
+          <Button onClick={handleCreate} disabled={isCreating || documentIds.length === 0}>
+            {isCreating && <Spinner size="xs" className="mr-2" />}
+            {isCreating ? 'Creating...' : 'Create Production'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateProductionModal;
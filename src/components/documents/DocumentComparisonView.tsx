@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/Alert";
-import { AlertTriangle, Sparkles, Info, FileText, SearchCheck, Bot, ListChecks, Columns } from 'lucide-react';
+import { AlertTriangle, Sparkles, Info, FileText, SearchCheck, Bot, ListChecks, Columns, Scale, FileDown } from 'lucide-react';
 import { Spinner } from '@/components/ui/Spinner';
 import { getDocumentById } from '@/services/documentService';
 import type { DocumentMetadata } from '@/services/documentService';
@@ -11,6 +11,9 @@ import { Label } from '@/components/ui/Label';
 import { Button } from '@/components/ui/Button';
 import ReactMarkdown from 'react-markdown';
 import DiffViewer from './DiffViewer'; // Assuming DiffViewer is in the same directory
+import ClauseComparisonTable from './ClauseComparisonTable';
+import { compareClauses } from '@/utils/clauseComparison';
+import { ClauseEffect, exportClauseRedlineDocx, summarizeClauseEffects } from '@/services/clauseComparisonService';
 
 interface DocumentComparisonViewProps {
   doc1Id: string;
@@ -49,6 +52,18 @@ const DocumentComparisonView: React.FC<DocumentComparisonViewProps> = ({
   const [isAiAnalysisLoading, setIsAiAnalysisLoading] = useState<boolean>(false);
   const [aiAnalysisError, setAiAnalysisError] = useState<string | null>(null);
 
+  // Clause-by-clause comparison; the AI's legal effects are fetched on request
+  const [clauseEffects, setClauseEffects] = useState<ClauseEffect[]>([]);
+  const [isSummarizingClauses, setIsSummarizingClauses] = useState<boolean>(false);
+  const [isExportingRedline, setIsExportingRedline] = useState<boolean>(false);
+  const [clauseError, setClauseError] = useState<string | null>(null);
+
+  const clauseComparisons = useMemo(
+    () => (doc1Content !== null && doc2Content !== null ? compareClauses(doc1Content, doc2Content) : []),
+    [doc1Content, doc2Content]
+  );
+  const changedClauseCount = clauseComparisons.filter(comparison => comparison.kind !== 'unchanged').length;
+
   const commonGoals = [
     "Identify changes in payment terms or financial amounts.",
     "Highlight discrepancies in dates or timelines.",
@@ -75,6 +90,8 @@ const DocumentComparisonView: React.FC<DocumentComparisonViewProps> = ({
       setAiAnalysis(null);
       setAiAnalysisError(null);
       setIsAiAnalysisLoading(false);
+      setClauseEffects([]);
+      setClauseError(null);
       // Don't reset comparisonGoal, user might want to use the same goal for new docs
 
       try {
@@ -124,11 +141,10 @@ const DocumentComparisonView: React.FC<DocumentComparisonViewProps> = ({
         if (authError || !user) {
           throw new Error('User not authenticated');
         }
-        const userId = user.id;
 
         console.log('Invoking compare-documents-ai function with goal:', submittedGoal);
         const { data, error: functionError } = await supabase.functions.invoke('compare-documents-ai', {
-          body: { text1: doc1Content, text2: doc2Content, goal: submittedGoal, userId },
+          body: { text1: doc1Content, text2: doc2Content, goal: submittedGoal },
         });
 
         if (functionError) {
@@ -182,6 +198,38 @@ const DocumentComparisonView: React.FC<DocumentComparisonViewProps> = ({
     setSubmittedGoal(comparisonGoal);
   };
 
+  const handleSummarizeClauses = async () => {
+    setIsSummarizingClauses(true);
+    setClauseError(null);
+    const { data, error } = await summarizeClauseEffects(clauseComparisons, comparisonGoal);
+    setIsSummarizingClauses(false);
+    if (error || !data) {
+      setClauseError(error?.message || 'Failed to summarise the clause changes.');
+      return;
+    }
+    setClauseEffects(data);
+  };
+
+  const handleExportRedline = async () => {
+    setIsExportingRedline(true);
+    setClauseError(null);
+    const { data, error } = await exportClauseRedlineDocx(clauseComparisons, clauseEffects, {
+      original: doc1Meta?.filename || 'Document 1',
+      revised: doc2Meta?.filename || 'Document 2',
+    });
+    setIsExportingRedline(false);
+    if (error || !data) {
+      setClauseError(error?.message || 'Failed to export the redline.');
+      return;
+    }
+    const a = document.createElement('a');
+    a.href = data.downloadUrl;
+    a.download = data.fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  };
+
   if (isLoadingContent) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-8">
@@ -357,6 +405,38 @@ const DocumentComparisonView: React.FC<DocumentComparisonViewProps> = ({
         </Card>
       )}
 
+      <Card className="shadow-lg dark:bg-slate-800/70 border dark:border-slate-700/50">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Scale className="h-6 w-6 text-primary" />
+              <CardTitle className="text-xl">Clause-by-Clause Comparison</CardTitle>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleSummarizeClauses} disabled={isSummarizingClauses || changedClauseCount === 0}>
+                {isSummarizingClauses ? <><Spinner size="sm" className="mr-2" /> Summarising...</> : <><Bot className="mr-2 h-4 w-4" /> Summarise legal effect</>}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportRedline} disabled={isExportingRedline || changedClauseCount === 0}>
+                {isExportingRedline ? <><Spinner size="sm" className="mr-2" /> Exporting...</> : <><FileDown className="mr-2 h-4 w-4" /> Export redline</>}
+              </Button>
+            </div>
+          </div>
+          <CardDescription>
+            Clauses and sections matched between the documents, including moved and renumbered ones. The legal effect summary uses the comparison goal above when one is entered; the redline exports to Word with the changes as tracked revisions and the effects as comments.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {clauseError && (
+            <Alert variant="destructive" className="text-xs">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Clause Comparison Error</AlertTitle>
+              <AlertDescription>{clauseError}</AlertDescription>
+            </Alert>
+          )}
+          <ClauseComparisonTable comparisons={clauseComparisons} effects={clauseEffects} />
+        </CardContent>
+      </Card>
+
       <Card className="shadow-lg dark:bg-slate-800/70 border dark:border-slate-700/50">
         <CardHeader>
            <div className="flex items-center gap-2">
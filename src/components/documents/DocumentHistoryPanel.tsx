@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { GitCompare, History, Pencil, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { getDocumentVersions, restoreDocumentVersion, updateDocumentVersionLabel } from '@/services/documentVersionService';
+import { DOCUMENT_CHANGED_MESSAGE } from '@/services/documentService';
+import { DocumentVersion } from '@/types/documentVersion';
+import { htmlToDiffText } from '@/utils/documentVersions';
+import DiffViewer from './DiffViewer';
+
+interface DocumentHistoryPanelProps {
+  documentId: string;
+  refreshKey?: number; // Change to reload, e.g. after a save
+  hasUnsavedChanges?: boolean; // Restoring discards them, so the confirmation says so
+  onRestored: (content: string, version: number) => void;
+  className?: string;
+}
+
+const versionTitle = (version: DocumentVersion) =>
+  `Version ${version.versionNumber}${version.id === null ? ' (current)' : ''}${version.label ? ` – ${version.label}` : ''}`;
+
+const describeSave = (version: DocumentVersion) => {
+  if (!version.savedAt) return 'Original';
+  const date = new Date(version.savedAt);
+  const age = isNaN(date.getTime()) ? '' : formatDistanceToNow(date, { addSuffix: true });
+  return `${version.authorName || 'Unknown'} · ${age}`;
+};
+
+/**
+ * The versions of a document, newest first, with editable labels, a side-by-side comparison of
+ * any two versions and restore. Restoring keeps the content it replaces as a new version.
+ */
+const DocumentHistoryPanel: React.FC<DocumentHistoryPanelProps> = ({
+  documentId,
+  refreshKey,
+  hasUnsavedChanges,
+  onRestored,
+  className,
+}) => {
+  const { user, userProfile } = useAuth();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>('');
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Versions are picked by number: snapshots have ids, the current content doesn't
+  const byNumber = useMemo(() => new Map(versions.map(version => [String(version.versionNumber), version])), [versions]);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await getDocumentVersions(documentId);
+    setIsLoading(false);
+    if (error || !data) {
+      toast.error('Failed to load version history.');
+      return;
+    }
+    setVersions(data);
+    // By default compare the latest two versions
+    setCompareTo(data[0] ? String(data[0].versionNumber) : '');
+    setCompareFrom(data[1] ? String(data[1].versionNumber) : '');
+  }, [documentId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, refreshKey]);
+
+  const saveLabel = async (version: DocumentVersion) => {
+    if (!version.id) return;
+    const { error } = await updateDocumentVersionLabel(version.id, labelDraft);
+    if (error) {
+      toast.error('Failed to save the label.');
+      return;
+    }
+    setVersions(prev => prev.map(v => v.id === version.id ? { ...v, label: labelDraft.trim() || null } : v));
+    setEditingLabelId(null);
+  };
+
+  const restore = async (version: DocumentVersion) => {
+    if (!user) {
+      toast.error('You must be signed in to restore a version.');
+      return;
+    }
+    const current = versions.find(v => v.id === null);
+    if (!current) return;
+    setIsRestoring(true);
+    const { data, error } = await restoreDocumentVersion(version, { id: user.id, name: userProfile?.full_name || user.email || 'Unknown' }, current.versionNumber);
+    setIsRestoring(false);
+    setConfirmRestoreId(null);
+    if (error || !data) {
+      toast.error(error?.message === DOCUMENT_CHANGED_MESSAGE ? error.message : 'Failed to restore the version.');
+      return;
+    }
+    toast.success(`Restored version ${version.versionNumber}.`);
+    onRestored(version.content, data.version);
+    loadVersions();
+  };
+
+  const from = byNumber.get(compareFrom);
+  const to = byNumber.get(compareTo);
+
+  return (
+    <div className={cn("flex flex-col", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-semibold flex items-center"><History className="h-4 w-4 mr-1.5" /> Version History</h3>
+      </div>
+
+      {versions.length > 1 && (
+        <div className="mb-3 space-y-1">
+          <div className="flex items-center gap-1">
+            <Select value={compareFrom} onValueChange={setCompareFrom}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="From" /></SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.versionNumber} value={String(version.versionNumber)}>{versionTitle(version)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-gray-500">to</span>
+            <Select value={compareTo} onValueChange={setCompareTo}>
+              <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="To" /></SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.versionNumber} value={String(version.versionNumber)}>{versionTitle(version)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full flex items-center justify-center"
+            disabled={!from || !to || from === to}
+            onClick={() => setIsDiffOpen(true)}
+          >
+            <GitCompare className="h-4 w-4 mr-1.5" /> Compare versions
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-grow overflow-y-auto space-y-2">
+        {isLoading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading versions...</p>}
+        {!isLoading && versions.length <= 1 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Each save keeps the content it replaces here.</p>
+        )}
+        {versions.map(version => (
+          <div key={version.versionNumber} className="p-2 rounded border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between gap-1">
+              <span className="text-sm font-medium">Version {version.versionNumber}</span>
+              {version.id === null && <Badge variant="primary" size="xs">Current</Badge>}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{describeSave(version)}</p>
+
+            {version.id && editingLabelId === version.id ? (
+              <Input
+                value={labelDraft}
+                onChange={(event) => setLabelDraft(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') saveLabel(version);
+                  if (event.key === 'Escape') setEditingLabelId(null);
+                }}
+                onBlur={() => saveLabel(version)}
+                placeholder="e.g. Sent to client"
+                className="h-7 text-xs mt-1"
+                autoFocus
+              />
+            ) : version.id && (
+              <button
+                type="button"
+                className="text-xs mt-1 flex items-center text-left hover:underline"
+                onClick={() => {
+                  setEditingLabelId(version.id);
+                  setLabelDraft(version.label || '');
+                }}
+              >
+                <Pencil className="h-3 w-3 mr-1 shrink-0" />
+                {version.label || <span className="italic text-gray-500 dark:text-gray-400">Add label</span>}
+              </button>
+            )}
+
+            {version.id && (
+              confirmRestoreId === version.id ? (
+                <div className="mt-2 text-xs space-y-1">
+                  <p>
+                    Make version {version.versionNumber} current?
+                    {hasUnsavedChanges && ' Unsaved changes in the editor will be lost.'}
+                  </p>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="destructive" onClick={() => restore(version)} disabled={isRestoring}>
+                      {isRestoring ? 'Restoring...' : 'Restore'}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setConfirmRestoreId(null)} disabled={isRestoring}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button variant="ghost" size="sm" className="mt-1 px-1 flex items-center" onClick={() => setConfirmRestoreId(version.id)}>
+                  <RotateCcw className="h-3.5 w-3.5 mr-1" /> Restore
+                </Button>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={isDiffOpen} onOpenChange={setIsDiffOpen}>
+        <DialogContent className="sm:max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Compare versions</DialogTitle>
+            <DialogDescription>
+              {from && to ? `${versionTitle(from)} → ${versionTitle(to)}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {from && to && (
+            <DiffViewer
+              originalContent={htmlToDiffText(from.content)}
+              newContent={htmlToDiffText(to.content)}
+              originalTitle={versionTitle(from)}
+              newTitle={versionTitle(to)}
+              viewType="split"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DocumentHistoryPanel;
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { Checkbox } from '@/components/ui/Checkbox';
+import { Spinner } from '@/components/ui/Spinner';
+import { Badge } from '@/components/ui/Badge';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Download, FileText, Save } from 'lucide-react';
+import { PrivilegeBasis, PrivilegeLogEntry } from '@/types/privilegeLog';
+import { exportPrivilegeLogDocx, getPrivilegeLog, savePrivilegeLogEntry } from '@/services/privilegeLogService';
+import { PRIVILEGE_BASIS_LABELS, privilegeLogToCsv } from '@/utils/privilegeLog';
+import { cn } from '@/lib/utils';
+
+interface PrivilegeLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  caseId: string;
+  caseName?: string;
+}
+
+const BASES = Object.keys(PRIVILEGE_BASIS_LABELS) as PrivilegeBasis[];
+
+const PrivilegeLogModal: React.FC<PrivilegeLogModalProps> = ({ isOpen, onClose, caseId, caseName }) => {
+  const [entries, setEntries] = useState<PrivilegeLogEntry[]>([]);
+  const [dirty, setDirty] = useState<Set<string>>(new Set()); // Document ids with unsaved edits
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const title = caseName ? `Privilege Log - ${caseName}` : 'Privilege Log';
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    setDirty(new Set());
+    getPrivilegeLog(caseId).then(({ data, error: loadError }) => {
+      setIsLoading(false);
+      if (loadError) {
+        setError(loadError.message);
+        return;
+      }
+      setEntries(data || []);
+    });
+  }, [isOpen, caseId]);
+
+  const updateEntry = (documentId: string, changes: Partial<PrivilegeLogEntry>) => {
+    setEntries(current => current.map(entry => entry.documentId === documentId ? { ...entry, ...changes } : entry));
+    setDirty(current => new Set(current).add(documentId));
+  };
+
+  const toggleBasis = (entry: PrivilegeLogEntry, basis: PrivilegeBasis) => {
+    const bases = entry.bases.includes(basis) ? entry.bases.filter(b => b !== basis) : [...entry.bases, basis];
+    updateEntry(entry.documentId, { bases: BASES.filter(b => bases.includes(b)) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const changed = entries.filter(entry => dirty.has(entry.documentId));
+    const results = await Promise.all(changed.map(entry => savePrivilegeLogEntry(caseId, entry)));
+    setIsSaving(false);
+    const failed = changed.filter((_, i) => results[i].error);
+    setDirty(new Set(failed.map(entry => entry.documentId)));
+    if (failed.length > 0) {
+      toast.error(`${failed.length} row(s) could not be saved.`);
+      return;
+    }
+    setEntries(current => current.map(entry => changed.some(c => c.documentId === entry.documentId) ? { ...entry, edited: true } : entry));
+    toast.success('Privilege log saved.');
+  };
+
+  const download = (url: string, fileName: string) => {
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  };
+
+  const handleExportCsv = () => {
+    const url = URL.createObjectURL(new Blob([privilegeLogToCsv(entries)], { type: 'text/csv' }));
+    download(url, `${title}.csv`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportDocx = async () => {
+    setIsExporting(true);
+    const { data, error: exportError } = await exportPrivilegeLogDocx(entries, title);
+    setIsExporting(false);
+    if (exportError || !data) {
+      toast.error(exportError?.message || 'Privilege log could not be exported.');
+      return;
+    }
+    download(data.downloadUrl, data.fileName);
+  };
+
+  const included = entries.filter(entry => !entry.excluded);
+  const missingBasis = included.filter(entry => entry.bases.length === 0).length;
+  const busy = isSaving || isExporting;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Documents flagged by the privileged terms analysis, pre-filled from their email headers. Review each row before exporting; descriptions must not reveal privileged content.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {missingBasis > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{missingBasis} row(s) have no privilege basis. Select one or remove the row from the log.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-10"><Spinner size="lg" /></div>
+          ) : entries.length === 0 && !error ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              No documents in this case have been flagged. Run the privileged terms analysis on documents to build the log.
+            </p>
+          ) : (
+            <table className="w-full text-sm border-collapse">
+              <thead className="sticky top-0 bg-background dark:bg-dark-background">
+                <tr className="text-left text-xs text-muted-foreground border-b border-border dark:border-dark-border">
+                  <th className="p-2 w-8">Log</th>
+                  <th className="p-2 w-44">Document</th>
+                  <th className="p-2 w-36">Date</th>
+                  <th className="p-2">Author</th>
+                  <th className="p-2">Recipients</th>
+                  <th className="p-2 w-40">Basis</th>
+                  <th className="p-2 w-72">Description</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr
+                    key={entry.documentId}
+                    className={cn('align-top border-b border-border dark:border-dark-border', entry.excluded && 'opacity-50')}
+                  >
+                    <td className="p-2">
+                      <Checkbox
+                        checked={!entry.excluded}
+                        onCheckedChange={(checked) => updateEntry(entry.documentId, { excluded: checked !== true })}
+                        disabled={busy}
+                        title="Include in the log"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <div className="font-medium break-all">{entry.filename}</div>
+                      {entry.batesNumber && <div className="font-mono text-xs text-muted-foreground">{entry.batesNumber}</div>}
+                      {entry.edited && <div className="text-xs text-muted-foreground">Reviewed</div>}
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {entry.flaggedCategories.map(category => (
+                          <Badge key={category} variant="warning" size="xs">{category}</Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="date"
+                        value={entry.date ?? ''}
+                        onChange={(e) => updateEntry(entry.documentId, { date: e.target.value || null })}
+                        disabled={busy || entry.excluded}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        value={entry.author}
+                        onChange={(e) => updateEntry(entry.documentId, { author: e.target.value })}
+                        disabled={busy || entry.excluded}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Textarea
+                        value={entry.recipients}
+                        onChange={(e) => updateEntry(entry.documentId, { recipients: e.target.value })}
+                        className="min-h-[60px]"
+                        disabled={busy || entry.excluded}
+                      />
+                    </td>
+                    <td className="p-2 space-y-1.5">
+                      {BASES.map(basis => (
+                        <label key={basis} className="flex items-center gap-2 text-xs">
+                          <Checkbox
+                            checked={entry.bases.includes(basis)}
+                            onCheckedChange={() => toggleBasis(entry, basis)}
+                            disabled={busy || entry.excluded}
+                          />
+                          {PRIVILEGE_BASIS_LABELS[basis]}
+                        </label>
+                      ))}
+                    </td>
+                    <td className="p-2">
+                      <Textarea
+                        value={entry.description}
+                        onChange={(e) => updateEntry(entry.documentId, { description: e.target.value })}
+                        className="min-h-[60px]"
+                        disabled={busy || entry.excluded}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <span className="text-xs text-muted-foreground self-center">
+            {included.length} of {entries.length} flagged document(s) in the log
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExportCsv} disabled={busy || included.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" onClick={handleExportDocx} disabled={busy || included.length === 0}>
+              {isExporting ? <Spinner size="xs" className="mr-2" /> : <FileText className="h-4 w-4 mr-2" />}
+              DOCX
+            </Button>
+            <Button onClick={handleSave} disabled={busy || dirty.size === 0}>
+              {isSaving ? <Spinner size="xs" className="mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrivilegeLogModal;
@@ -42,6 +42,7 @@ interface UploadFileStatus {
     taskId?: string;
     error?: string;
     progress?: number; // Add progress field
+    messageCount?: number; // Messages uploaded so far, for mbox mailboxes
 }
 
 const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
@@ -168,7 +169,16 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
             );
             updateTask({ id: taskId, delta: { progress: 10 } }); // Update global task too
 
-            const { data: uploadResult, error: uploadError } = await uploadAndProcessDocument(currentFileStatus.file, activeCaseId);
+            // Mailboxes are split and uploaded message by message; report progress through the file
+            const { data: uploadResult, error: uploadError } = await uploadAndProcessDocument(currentFileStatus.file, activeCaseId, ({ bytesRead, totalBytes, messageCount }) => {
+                const progress = 10 + Math.round((bytesRead / Math.max(totalBytes, 1)) * 85);
+                setFilesToUpload(prev =>
+                    prev.map((f, idx) =>
+                        idx === currentIndex ? { ...f, progress, messageCount } : f
+                    )
+                );
+                updateTask({ id: taskId, progress, description: `${messageCount} messages uploaded` });
+            });
             
             if (uploadError || !uploadResult?.id) { // Check for uploadResult.id
                 throw uploadError || new Error('Upload initiation failed or did not return an ID.');
@@ -181,8 +191,11 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
                 console.log(`UploadModal: Set active editor item to first uploaded doc: ${uploadResult.id}`);
             }
 
-            // Add uploaded document to chat context (if not already present)
-            setChatDocumentContextIds(prev => prev.includes(uploadResult.id) ? prev : [...prev, uploadResult.id]);
+            // Add uploaded document to chat context (if not already present); a mailbox's messages
+            // are left out, there are usually far too many to chat with at once
+            if (uploadResult.messageCount === undefined) {
+                setChatDocumentContextIds(prev => prev.includes(uploadResult.id) ? prev : [...prev, uploadResult.id]);
+            }
 
             // Update task status upon successful initiation (backend handles rest)
             updateTask({ 
@@ -203,7 +216,9 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
             // Updated toast message
             toast({
                 title: "Upload Successful",
-                description: `Document "${currentFileStatus.file.name}" is processing.`,
+                description: uploadResult.messageCount !== undefined
+                    ? `Mailbox "${currentFileStatus.file.name}" was split into ${uploadResult.messageCount} messages, which are processing.${uploadResult.failedMessageCount ? ` ${uploadResult.failedMessageCount} could not be uploaded.` : ''}`
+                    : `Document "${currentFileStatus.file.name}" is processing.`,
             });
 
             // Auto-remove task from status bar after a delay
@@ -340,7 +355,7 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
                 multiple 
                 onChange={handleFileChange}
                 className="hidden"
-                accept=".pdf,.doc,.docx,.txt,.md,.json"
+                accept=".pdf,.doc,.docx,.rtf,.eml,.msg,.mbox,.xlsx,.txt,.md,.json,.png,.jpg,.jpeg,.tif,.tiff"
                 disabled={isUploading || !activeCaseId}
             />
             <Label 
@@ -350,7 +365,7 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
                  <Icons.Upload className="h-12 w-12 text-muted-foreground mb-2" />
                  <span className="font-semibold text-primary">Click to select files</span>
                  <span className="text-muted-foreground mt-1">or drag and drop</span>
-                 <p className="text-xs text-muted-foreground mt-2">Supported: PDF, DOCX, TXT, MD, JSON</p>
+                 <p className="text-xs text-muted-foreground mt-2">Supported: PDF (including scans), DOC, DOCX, RTF, EML, MSG, MBOX, XLSX, TXT, MD, JSON, images</p>
             </Label>
         </div>
 
@@ -378,7 +393,7 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose }) => {
                                             <TooltipContent side="bottom"><p>{fileStatus.error || 'Unknown error'}</p></TooltipContent>
                                         </Tooltip>
                                     ) : fileStatus.status === 'uploading' ? (
-                                        `Uploading... ${fileStatus.progress !== undefined ? fileStatus.progress + '%' : ''}`
+                                        `Uploading... ${fileStatus.progress !== undefined ? fileStatus.progress + '%' : ''}${fileStatus.messageCount !== undefined ? ` (${fileStatus.messageCount} messages)` : ''}`
                                     ) : fileStatus.status === 'processing_started' ? (
                                         `Processing...`
                                     ) : fileStatus.status === 'complete' ? (
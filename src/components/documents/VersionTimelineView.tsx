@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRightLeft, ChevronDown, ChevronRight, GitBranch, Hash } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Spinner } from '@/components/ui/Spinner';
+import { getDocumentById } from '@/services/documentService';
+import { buildClauseTimelines, draftAuthor, type Draft } from '@/utils/versionTimeline';
+import { ClauseChangeBadge, WordDiff } from './ClauseComparisonTable';
+
+export interface DraftSelection {
+  docId: string;
+  author: string; // Who produced the draft; may be blank
+}
+
+interface VersionTimelineViewProps {
+  drafts: DraftSelection[]; // Oldest first
+}
+
+/**
+ * N-way comparison of successive drafts: a row per clause and a column per draft showing where
+ * the clause changed and who introduced the change, with the clause's wording through the drafts
+ * on expanding a row.
+ */
+const VersionTimelineView: React.FC<VersionTimelineViewProps> = ({ drafts: draftSelections }) => {
+  const [drafts, setDrafts] = useState<Draft[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Reload only when the documents or their authors change, not on every parent render
+  const selectionKey = JSON.stringify(draftSelections);
+  const selections = useMemo(() => JSON.parse(selectionKey) as DraftSelection[], [selectionKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const results = await Promise.all(selections.map(selection => getDocumentById(selection.docId)));
+        const loaded = results.map((result, index) => {
+          if (result.error || !result.data) throw new Error(`Failed to load draft ${index + 1}: ${result.error?.message || 'not found'}`);
+          return {
+            id: result.data.id,
+            label: result.data.filename,
+            author: selections[index].author,
+            content: result.data.editedContent ?? result.data.extractedText ?? '',
+          };
+        });
+        if (!cancelled) setDrafts(loaded);
+      } catch (err: unknown) {
+        console.error('Error loading drafts for comparison:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the drafts.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [selections]);
+
+  const timelines = useMemo(() => (drafts ? buildClauseTimelines(drafts) : []), [drafts]);
+  const unchangedCount = timelines.filter(t => t.changedIn.length === 0).length;
+  const visible = timelines.filter(t => showUnchanged || t.changedIn.length > 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8">
+        <Spinner size="lg" />
+        <p className="mt-4 text-muted-foreground">Loading drafts...</p>
+      </div>
+    );
+  }
+
+  if (error || !drafts) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-5 w-5" />
+        <AlertTitle>Error Loading Drafts</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg dark:bg-slate-800/70 border dark:border-slate-700/50">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-6 w-6 text-primary" />
+          <CardTitle className="text-xl">Clause Timeline Across {drafts.length} Drafts</CardTitle>
+        </div>
+        <CardDescription>
+          Each row follows one clause through the drafts, including when it was moved or renumbered. Expand a row to see how its wording evolved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {unchangedCount > 0 && (
+          <div className="flex justify-end">
+            <Button variant="link" size="sm" className="px-0" onClick={() => setShowUnchanged(!showUnchanged)}>
+              {showUnchanged ? 'Hide unchanged clauses' : `Show unchanged clauses (${unchangedCount})`}
+            </Button>
+          </div>
+        )}
+        <div className="overflow-x-auto border rounded-md dark:border-slate-700">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/50 dark:bg-slate-700/30 text-left">
+              <tr>
+                <th className="p-2 w-48 font-semibold">Clause</th>
+                {drafts.map((draft, index) => (
+                  <th key={draft.id} className="p-2 font-semibold">
+                    Draft {index + 1}
+                    <span className="block font-normal text-muted-foreground truncate max-w-[10rem]" title={draft.label}>{draftAuthor(draft)}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={drafts.length + 1} className="p-4 text-center text-muted-foreground">No clause changed across the drafts.</td>
+                </tr>
+              )}
+              {visible.map(t => {
+                const isExpanded = expandedId === t.id;
+                return (
+                  <React.Fragment key={t.id}>
+                    <tr className="border-t dark:border-slate-700 cursor-pointer hover:bg-muted/30" onClick={() => setExpandedId(isExpanded ? null : t.id)}>
+                      <td className="p-2 font-medium">
+                        <span className="flex items-center">
+                          {isExpanded ? <ChevronDown className="h-3.5 w-3.5 mr-1 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 mr-1 shrink-0" />}
+                          {t.label}
+                        </span>
+                      </td>
+                      {t.revisions.map((revision, index) => (
+                        <td key={index} className="p-2 align-top">
+                          {index === 0
+                            ? (revision.clause ? <span className="text-muted-foreground">Original</span> : <span className="text-muted-foreground">—</span>)
+                            : revision.change && revision.change !== 'unchanged'
+                              ? (
+                                <div className="space-y-0.5">
+                                  <ClauseChangeBadge kind={revision.change} />
+                                  <p className="text-muted-foreground">by {draftAuthor(drafts[index])}</p>
+                                </div>
+                              )
+                              : <span className="text-muted-foreground">{revision.clause ? 'Unchanged' : '—'}</span>}
+                          {revision.renumbered && <Hash className="inline h-3 w-3 ml-1 text-muted-foreground" aria-label="Renumbered" />}
+                          {revision.moved && <ArrowRightLeft className="inline h-3 w-3 ml-1 text-muted-foreground" aria-label="Moved" />}
+                        </td>
+                      ))}
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-muted/20 dark:bg-slate-800/50">
+                        <td colSpan={drafts.length + 1} className="p-3">
+                          <ol className="space-y-2">
+                            {t.revisions.map((revision, index) => {
+                              const previous = index > 0 ? t.revisions[index - 1].clause : null;
+                              if (!revision.clause && !previous) return null;
+                              return (
+                                <li key={index}>
+                                  <p className="font-semibold mb-0.5">
+                                    Draft {index + 1} – {draftAuthor(drafts[index])}
+                                  </p>
+                                  <p className="whitespace-pre-wrap leading-relaxed">
+                                    {!revision.clause
+                                      ? <span className="italic text-red-700 dark:text-red-400">Removed</span>
+                                      : previous && revision.change !== 'unchanged'
+                                        ? <WordDiff original={previous.text} revised={revision.clause.text} />
+                                        : revision.change === 'unchanged' ? <span className="text-muted-foreground">Unchanged</span> : revision.clause.text}
+                                  </p>
+                                </li>
+                              );
+                            })}
+                          </ol>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VersionTimelineView;
@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import { Checkbox } from '@/components/ui/Checkbox';
+import { Spinner } from '@/components/ui/Spinner';
+import { Alert, AlertDescription } from '@/components/ui/Alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { DocxExportOptions } from '@/types/docxExport';
+
+interface WordExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: DocxExportOptions) => void;
+  isExporting: boolean;
+  documentTitle?: string; // Pre-fills the caption title
+}
+
+const FONTS = ['Times New Roman', 'Arial', 'Calibri', 'Courier New', 'Century Schoolbook'];
+const FONT_SIZES = ['10', '11', '12', '13', '14'];
+const LINE_SPACINGS = [
+  { value: '1', label: 'Single' },
+  { value: '1.5', label: '1.5 lines' },
+  { value: '2', label: 'Double' },
+];
+const MARGIN_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+type MarginSide = typeof MARGIN_SIDES[number];
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const WordExportModal: React.FC<WordExportModalProps> = ({ isOpen, onClose, onExport, isExporting, documentTitle }) => {
+  const [fontFamily, setFontFamily] = useState(FONTS[0]);
+  const [fontSize, setFontSize] = useState('12');
+  const [lineSpacing, setLineSpacing] = useState('1');
+  const [margins, setMargins] = useState<Record<MarginSide, string>>({ top: '1', right: '1', bottom: '1', left: '1' });
+  const [header, setHeader] = useState('');
+  const [footer, setFooter] = useState('');
+  const [pageNumbers, setPageNumbers] = useState(true);
+  const [pleadingPaper, setPleadingPaper] = useState(false);
+  const [includeCaption, setIncludeCaption] = useState(false);
+  const [attorneyLines, setAttorneyLines] = useState('');
+  const [court, setCourt] = useState('');
+  const [plaintiffs, setPlaintiffs] = useState('');
+  const [defendants, setDefendants] = useState('');
+  const [caseNumber, setCaseNumber] = useState('');
+  const [captionTitle, setCaptionTitle] = useState('');
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setCaptionTitle(current => current || (documentTitle || '').toUpperCase());
+  }, [isOpen, documentTitle]);
+
+  // Pleading paper sets its own margins so the text lines up with the line numbers
+  const handlePleadingChange = (checked: boolean) => {
+    setPleadingPaper(checked);
+    setMargins(checked ? { top: '1', right: '0.5', bottom: '', left: '1.5' } : { top: '1', right: '1', bottom: '1', left: '1' });
+    if (checked) setIncludeCaption(true);
+  };
+
+  const handleExport = () => {
+    const parsedMargins: DocxExportOptions['margins'] = {};
+    for (const side of MARGIN_SIDES) {
+      if (!margins[side].trim()) continue;
+      const inches = Number(margins[side]);
+      if (!(inches > 0 && inches < 4)) {
+        setError(`The ${side} margin must be a number of inches between 0 and 4.`);
+        return;
+      }
+      parsedMargins[side] = inches;
+    }
+    if (includeCaption && !court.trim()) {
+      setError('Enter the court name for the caption.');
+      return;
+    }
+    setError(null);
+    onExport({
+      fontFamily,
+      fontSize: Number(fontSize),
+      lineSpacing: Number(lineSpacing),
+      margins: parsedMargins,
+      header: header.trim() || undefined,
+      footer: footer.trim() || undefined,
+      pageNumbers,
+      pleadingPaper,
+      caption: includeCaption
+        ? {
+            attorneyLines: splitLines(attorneyLines),
+            court: court.trim(),
+            plaintiffs: plaintiffs.trim(),
+            defendants: defendants.trim(),
+            caseNumber: caseNumber.trim(),
+            documentTitle: captionTitle.trim(),
+            details: splitLines(details),
+          }
+        : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isExporting && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export as DOCX</DialogTitle>
+          <DialogDescription>
+            Choose the page setup for the Word document. Pleading paper adds 28 numbered lines per page for court filings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="grid gap-1.5">
+              <Label>Font</Label>
+              <Select value={fontFamily} onValueChange={setFontFamily} disabled={isExporting}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {FONTS.map(font => <SelectItem key={font} value={font}>{font}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Size (pt)</Label>
+              <Select value={fontSize} onValueChange={setFontSize} disabled={isExporting}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {FONT_SIZES.map(size => <SelectItem key={size} value={size}>{size}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Line spacing</Label>
+              <Select value={pleadingPaper ? '2' : lineSpacing} onValueChange={setLineSpacing} disabled={isExporting || pleadingPaper}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LINE_SPACINGS.map(spacing => <SelectItem key={spacing.value} value={spacing.value}>{spacing.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            {MARGIN_SIDES.map(side => (
+              <div key={side} className="grid gap-1.5">
+                <Label className="capitalize">{side} margin (in)</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={margins[side]}
+                  onChange={(e) => setMargins(current => ({ ...current, [side]: e.target.value }))}
+                  placeholder={pleadingPaper && side === 'bottom' ? 'Auto' : undefined}
+                  disabled={isExporting || (pleadingPaper && side === 'bottom')}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label>Header</Label>
+              <Input value={header} onChange={(e) => setHeader(e.target.value)} placeholder="Optional" disabled={isExporting} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Footer</Label>
+              <Input value={footer} onChange={(e) => setFooter(e.target.value)} placeholder="e.g. MOTION TO COMPEL" disabled={isExporting} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <div className="flex items-center gap-2">
+              <Checkbox checked={pageNumbers} onCheckedChange={(checked) => setPageNumbers(checked === true)} disabled={isExporting} />
+              <Label>Page numbers</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox checked={pleadingPaper} onCheckedChange={(checked) => handlePleadingChange(checked === true)} disabled={isExporting} />
+              <Label>Pleading paper</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox checked={includeCaption} onCheckedChange={(checked) => setIncludeCaption(checked === true)} disabled={isExporting} />
+              <Label>Caption block</Label>
+            </div>
+          </div>
+
+          {includeCaption && (
+            <div className="grid gap-3 rounded-md border border-border p-3">
+              <div className="grid gap-1.5">
+                <Label>Attorney block (one line each)</Label>
+                <Textarea
+                  rows={4}
+                  value={attorneyLines}
+                  onChange={(e) => setAttorneyLines(e.target.value)}
+                  placeholder={'Name (SBN 000000)\nFirm\nAddress\nTelephone / Email\nAttorneys for Plaintiff'}
+                  disabled={isExporting}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label>Court</Label>
+                <Textarea
+                  rows={2}
+                  value={court}
+                  onChange={(e) => setCourt(e.target.value)}
+                  placeholder={'SUPERIOR COURT OF THE STATE OF CALIFORNIA\nCOUNTY OF LOS ANGELES'}
+                  disabled={isExporting}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-1.5">
+                  <Label>Plaintiffs</Label>
+                  <Textarea rows={3} value={plaintiffs} onChange={(e) => setPlaintiffs(e.target.value)} placeholder={'JANE DOE,\nPlaintiff,'} disabled={isExporting} />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label>Defendants</Label>
+                  <Textarea rows={3} value={defendants} onChange={(e) => setDefendants(e.target.value)} placeholder={'ACME CORP.,\nDefendant.'} disabled={isExporting} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-1.5">
+                  <Label>Case number</Label>
+                  <Input value={caseNumber} onChange={(e) => setCaseNumber(e.target.value)} disabled={isExporting} />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label>Document title</Label>
+                  <Input value={captionTitle} onChange={(e) => setCaptionTitle(e.target.value)} disabled={isExporting} />
+                </div>
+              </div>
+              <div className="grid gap-1.5">
+                <Label>Details under the title (one line each)</Label>
+                <Textarea
+                  rows={2}
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  placeholder={'Judge: Hon. ...\nDate: ...  Dept: ...'}
+                  disabled={isExporting}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isExporting}>Cancel</Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Spinner size="xs" className="mr-2" />}
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WordExportModal;
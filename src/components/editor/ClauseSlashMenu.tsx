@@ -0,0 +1,77 @@
+import { forwardRef, useEffect, useImperativeHandle, useState } from 'react';
+import { Library } from 'lucide-react';
+import type { SuggestionProps } from '@tiptap/suggestion';
+import { Badge } from '@/components/ui/Badge';
+import { LibraryClause } from '@/types/clauseLibrary';
+import { clauseVariables } from '@/utils/clauseLibrary';
+import { cn } from '@/lib/utils';
+
+export interface ClauseSlashMenuRef {
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+/**
+ * The clause library's "/" menu, shown under the typed query. Arrow keys move through the
+ * matches and Enter inserts the highlighted clause.
+ */
+const ClauseSlashMenu = forwardRef<ClauseSlashMenuRef, SuggestionProps<LibraryClause, LibraryClause>>(({ items, query, command, clientRect }, ref) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useEffect(() => setSelectedIndex(0), [items]);
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: (event: KeyboardEvent) => {
+      if (items.length === 0) return false;
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        const offset = event.key === 'ArrowDown' ? 1 : -1;
+        setSelectedIndex(index => (index + offset + items.length) % items.length);
+        return true;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        command(items[selectedIndex]);
+        return true;
+      }
+      return false;
+    },
+  }), [items, selectedIndex, command]);
+
+  const rect = clientRect?.();
+  if (!rect) return null;
+
+  return (
+    <div
+      className="fixed z-50 w-80 max-h-72 overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow-lg dark:border-slate-700 p-1"
+      style={{ top: rect.bottom + 4, left: rect.left }}
+    >
+      <p className="flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-muted-foreground">
+        <Library className="h-3.5 w-3.5" /> Clause library
+      </p>
+      {items.length === 0 ? (
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">{query ? `No clauses match "${query}".` : 'Type to search your clauses.'}</p>
+      ) : items.map((clause, index) => {
+        const variables = clauseVariables(clause.content);
+        return (
+          <button
+            key={clause.id}
+            type="button"
+            // Keep the editor's selection while clicking
+            onMouseDown={e => e.preventDefault()}
+            onClick={() => command(clause)}
+            onMouseEnter={() => setSelectedIndex(index)}
+            className={cn('w-full text-left rounded px-2 py-1.5', index === selectedIndex && 'bg-muted dark:bg-slate-700/50')}
+          >
+            <span className="flex items-center gap-1.5">
+              <span className="text-sm font-medium truncate">{clause.title}</span>
+              {clause.approvalStatus === 'draft' && <Badge variant="warning" size="xs">draft</Badge>}
+            </span>
+            <span className="block text-xs text-muted-foreground truncate">
+              {[clause.category, clause.jurisdiction, variables.length > 0 && `${variables.length} placeholder${variables.length === 1 ? '' : 's'}`].filter(Boolean).join(' · ')}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+});
+
+export default ClauseSlashMenu;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, MessageSquarePlus, RotateCcw, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Textarea } from '@/components/ui/Textarea';
+import { cn } from '@/lib/utils';
+import { DocumentCommentThread } from '@/services/documents';
+
+interface CommentsRailProps {
+  threads: DocumentCommentThread[];
+  activeThreadId: string | null;
+  draftQuote: string | null; // Text a new comment is being written on, if any
+  isLoading?: boolean;
+  onStartThread: () => void;
+  onCreateThread: (text: string) => Promise<boolean>;
+  onCancelThread: () => void;
+  onReply: (threadId: string, text: string) => Promise<boolean>;
+  onResolve: (threadId: string) => void;
+  onReopen: (threadId: string) => void;
+  onSelectThread: (threadId: string) => void;
+  onAskAI: (thread: DocumentCommentThread) => void;
+  className?: string;
+}
+
+const age = (date: string) => {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? '' : formatDistanceToNow(parsed, { addSuffix: true });
+};
+
+// A textarea with a submit button; clears itself once the submission succeeds
+const CommentInput: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}> = ({ placeholder, submitLabel, onSubmit, onCancel, autoFocus }) => {
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    if (!text.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    const submitted = await onSubmit(text);
+    setIsSubmitting(false);
+    if (submitted) setText('');
+  };
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={(event) => {
+          // Ctrl/Cmd+Enter posts
+          if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            submit();
+          }
+        }}
+        placeholder={placeholder}
+        rows={2}
+        autoFocus={autoFocus}
+        className="text-sm"
+      />
+      <div className="flex justify-end space-x-1">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={!text.trim() || isSubmitting}>
+          {isSubmitting ? 'Posting...' : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Side rail with the document's comment threads: the quoted text, the conversation, a reply box
+ * for the active thread, and resolve/reopen and "Ask AI" actions. Resolved threads are hidden
+ * unless asked for.
+ */
+const CommentsRail: React.FC<CommentsRailProps> = ({
+  threads,
+  activeThreadId,
+  draftQuote,
+  isLoading,
+  onStartThread,
+  onCreateThread,
+  onCancelThread,
+  onReply,
+  onResolve,
+  onReopen,
+  onSelectThread,
+  onAskAI,
+  className,
+}) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const resolvedCount = threads.filter(thread => thread.resolved).length;
+  const visible = threads.filter(thread => showResolved || !thread.resolved);
+
+  return (
+    <div className={cn("flex flex-col", className)}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-semibold">Comments</h3>
+        <Button variant="outline" size="sm" onClick={onStartThread} disabled={!!draftQuote} title="Comment on the selected text" className="flex items-center">
+          <MessageSquarePlus className="h-4 w-4 mr-1.5" /> Comment
+        </Button>
+      </div>
+
+      {draftQuote && (
+        <div className="mb-2 p-2 rounded border border-primary dark:border-dark-primary">
+          <p className="text-xs italic text-gray-500 dark:text-gray-400 line-clamp-2 mb-1">"{draftQuote}"</p>
+          <CommentInput placeholder="Add a comment..." submitLabel="Comment" onSubmit={onCreateThread} onCancel={onCancelThread} autoFocus />
+        </div>
+      )}
+
+      <div className="flex-grow overflow-y-auto space-y-2">
+        {isLoading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading comments...</p>}
+        {!isLoading && visible.length === 0 && !draftQuote && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Select text in the document and click Comment to start a thread.</p>
+        )}
+        {visible.map(thread => {
+          const isActive = thread.thread_id === activeThreadId;
+          return (
+            <div
+              key={thread.thread_id}
+              className={cn(
+                "p-2 rounded border cursor-pointer",
+                isActive ? 'border-primary dark:border-dark-primary shadow-sm' : 'border-gray-200 dark:border-gray-700',
+                thread.resolved && 'opacity-60',
+              )}
+              onClick={() => onSelectThread(thread.thread_id)}
+            >
+              {thread.position?.quote && (
+                <p className="text-xs italic text-gray-500 dark:text-gray-400 line-clamp-2 mb-1 border-l-2 border-yellow-400 pl-1.5">
+                  "{thread.position.quote}"
+                </p>
+              )}
+              <ul className="space-y-1.5">
+                {thread.document_comment_entries.map(entry => (
+                  <li key={entry.id}>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      <span className="font-medium text-foreground dark:text-dark-foreground">{entry.user_name}</span> {age(entry.created_at)}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap">{entry.text}</p>
+                  </li>
+                ))}
+              </ul>
+              {isActive && (
+                <div className="mt-2 space-y-1" onClick={(event) => event.stopPropagation()}>
+                  {!thread.resolved && (
+                    <CommentInput placeholder="Reply..." submitLabel="Reply" onSubmit={(text) => onReply(thread.thread_id, text)} />
+                  )}
+                  <div className="flex justify-between">
+                    <Button variant="ghost" size="sm" onClick={() => onAskAI(thread)} className="flex items-center" title="Add this comment and its text to the chat">
+                      <Sparkles className="h-4 w-4 mr-1.5" /> Ask AI
+                    </Button>
+                    {thread.resolved ? (
+                      <Button variant="ghost" size="sm" onClick={() => onReopen(thread.thread_id)} className="flex items-center">
+                        <RotateCcw className="h-4 w-4 mr-1.5" /> Reopen
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => onResolve(thread.thread_id)} className="flex items-center">
+                        <CheckCircle2 className="h-4 w-4 mr-1.5" /> Resolve
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {resolvedCount > 0 && (
+        <Button variant="link" size="sm" onClick={() => setShowResolved(!showResolved)} className="self-start mt-1 px-0">
+          {showResolved ? 'Hide resolved' : `Show resolved (${resolvedCount})`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default CommentsRail;
@@ -1,11 +1,29 @@
-import React, { forwardRef, useImperativeHandle } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { useEditor, EditorContent, Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import Underline from '@tiptap/extension-underline';
 import Highlight from '@tiptap/extension-highlight';
 import Link from '@tiptap/extension-link';
+import TextAlign from '@tiptap/extension-text-align';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import Superscript from '@tiptap/extension-superscript';
+import Subscript from '@tiptap/extension-subscript';
+import { TrackChanges } from '@/lib/editor/extensions/TrackChanges';
+import { CommentAnchors } from '@/lib/editor/extensions/CommentAnchors';
+import { VariableMark } from '@/lib/editor/extensions/VariableMark';
+import { ClauseSlashCommand } from '@/lib/editor/extensions/ClauseSlashCommand';
+import type { SuggestionProps } from '@tiptap/suggestion';
+import { searchClauses } from '@/services/clauseLibraryService';
+import { LibraryClause } from '@/types/clauseLibrary';
 import EditorToolbar from './toolbars/EditorToolbar';
+import ClauseSlashMenu, { ClauseSlashMenuRef } from './ClauseSlashMenu';
+
+// Clauses offered by the "/" menu at a time
+const CLAUSE_MENU_LIMIT = 8;
 
 interface NewTiptapEditorProps {
   content: string | object;
@@ -17,9 +35,12 @@ interface NewTiptapEditorProps {
   onSummarize?: () => void;
   onRewrite?: (mode: string) => void;
   onGenerate?: () => void;
+  trackChangesAuthor?: string; // Name recorded on changes made in suggest mode
+  onEditorReady?: (editor: Editor | null) => void;
 }
 
 export interface NewTiptapEditorRef {
+  editor: Editor | null;
   getHTML: () => string;
   getJSON: () => object;
   setContent: (content: string | object, emitUpdate?: boolean) => void;
@@ -43,10 +64,16 @@ const NewTiptapEditor = forwardRef<NewTiptapEditorRef, NewTiptapEditorProps>((
     placeholder = 'Start typing...',
     onSummarize,
     onRewrite,
-    onGenerate
+    onGenerate,
+    trackChangesAuthor = 'Reviewer',
+    onEditorReady
   },
   ref
 ) => {
+  // The open "/" clause menu, fed by the suggestion plugin
+  const [clauseMenu, setClauseMenu] = useState<SuggestionProps<LibraryClause, LibraryClause> | null>(null);
+  const clauseMenuRef = useRef<ClauseSlashMenuRef>(null);
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({}),
@@ -56,6 +83,37 @@ const NewTiptapEditor = forwardRef<NewTiptapEditorRef, NewTiptapEditorProps>((
       Underline,
       Highlight.configure({ multicolor: true }),
       Link.configure({ openOnClick: true, autolink: true, defaultProtocol: 'https' }),
+      // Structure carried over from imported Word documents (extract-text's DOCX conversion)
+      TextAlign.configure({ types: ['heading', 'paragraph'] }),
+      Table.configure({ resizable: false }),
+      TableRow,
+      TableHeader,
+      TableCell,
+      Superscript,
+      Subscript,
+      TrackChanges.configure({ author: trackChangesAuthor }),
+      CommentAnchors,
+      VariableMark,
+      ClauseSlashCommand.configure({
+        suggestion: {
+          items: async ({ query }) => {
+            const { data } = await searchClauses({ query, limit: CLAUSE_MENU_LIMIT });
+            return (data || []).filter(clause => clause.approvalStatus !== 'deprecated');
+          },
+          render: () => ({
+            onStart: props => setClauseMenu(props),
+            onUpdate: props => setClauseMenu(props),
+            onKeyDown: ({ event }) => {
+              if (event.key === 'Escape') {
+                setClauseMenu(null);
+                return true;
+              }
+              return clauseMenuRef.current?.onKeyDown(event) ?? false;
+            },
+            onExit: () => setClauseMenu(null),
+          }),
+        },
+      }),
     ],
     content: typeof content === 'string' ? content : JSON.stringify(content),
     editable,
@@ -72,6 +130,14 @@ const NewTiptapEditor = forwardRef<NewTiptapEditorRef, NewTiptapEditorProps>((
     },
   });
 
+  useEffect(() => {
+    editor?.commands.setTrackChangesAuthor(trackChangesAuthor);
+  }, [editor, trackChangesAuthor]);
+
+  useEffect(() => {
+    onEditorReady?.(editor);
+  }, [editor, onEditorReady]);
+
   useImperativeHandle(ref, () => ({
     editor,
     getHTML: () => editor?.getHTML() || '',
@@ -137,6 +203,7 @@ const NewTiptapEditor = forwardRef<NewTiptapEditorRef, NewTiptapEditorProps>((
       <div className="prose dark:prose-invert max-w-none w-full flex-grow focus:outline-none p-4 overflow-y-auto">
         <EditorContent editor={editor} />
       </div>
+      {clauseMenu && <ClauseSlashMenu ref={clauseMenuRef} {...clauseMenu} />}
     </div>
   );
 });
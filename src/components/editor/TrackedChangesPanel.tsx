@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import { Editor } from '@tiptap/react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { collectChanges, TrackedChange } from '@/lib/editor/trackChanges';
+
+interface TrackedChangesPanelProps {
+  editor: Editor | null;
+  className?: string;
+}
+
+const describeDate = (date: string | null) => {
+  if (!date) return '';
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? '' : formatDistanceToNow(parsed, { addSuffix: true });
+};
+
+/**
+ * The document's tracked changes in reading order, each with its author and age and buttons to
+ * accept or reject it. Clicking a change selects it in the editor.
+ */
+export const TrackedChangesPanel: React.FC<TrackedChangesPanelProps> = ({ editor, className }) => {
+  const [changes, setChanges] = useState<TrackedChange[]>([]);
+
+  useEffect(() => {
+    if (!editor) return;
+    const refresh = () => setChanges(collectChanges(editor.state.doc));
+    editor.on('update', refresh);
+    refresh();
+    return () => {
+      editor.off('update', refresh);
+    };
+  }, [editor]);
+
+  if (!editor || changes.length === 0) {
+    return null;
+  }
+
+  const select = (change: TrackedChange) => {
+    editor.chain().focus().setTextSelection({ from: change.from, to: change.to }).scrollIntoView().run();
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-md font-semibold">Tracked Changes ({changes.length})</h3>
+        <div className="flex space-x-1">
+          <Button variant="ghost" size="sm" onClick={() => editor.chain().focus().acceptAllChanges().run()} title="Accept all changes">
+            Accept all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => editor.chain().focus().rejectAllChanges().run()} title="Reject all changes">
+            Reject all
+          </Button>
+        </div>
+      </div>
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {changes.map(change => (
+          <li
+            key={`${change.kind}-${change.changeId}-${change.from}`}
+            className="flex items-start gap-2 p-2 rounded border border-gray-200 dark:border-gray-700 hover:bg-muted dark:hover:bg-dark-muted cursor-pointer"
+            onClick={() => select(change)}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                <span className="font-medium">{change.author || 'Unknown'}</span>
+                {change.kind === 'insertion' ? ' inserted' : ' deleted'}
+                {change.date && ` ${describeDate(change.date)}`}
+              </p>
+              <p className={change.kind === 'insertion' ? 'text-sm truncate tracked-insertion' : 'text-sm truncate tracked-deletion'}>
+                {change.text.trim() || '(formatting)'}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="p-1 h-7 w-7"
+              title="Accept"
+              onClick={(event) => {
+                event.stopPropagation();
+                editor.commands.acceptChange(change.changeId);
+              }}
+            >
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="p-1 h-7 w-7"
+              title="Reject"
+              onClick={(event) => {
+                event.stopPropagation();
+                editor.commands.rejectChange(change.changeId);
+              }}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TrackedChangesPanel;
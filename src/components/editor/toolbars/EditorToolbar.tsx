@@ -1,8 +1,10 @@
 import React from 'react';
 import { Editor } from '@tiptap/react';
-import { Bold, Italic, Underline, List, ListOrdered, Heading2, Minus, MessageSquare, Sparkles, TextCursorInput } from 'lucide-react';
+import { Bold, Italic, Underline, List, ListOrdered, Heading2, Minus, MessageSquare, Sparkles, TextCursorInput, FilePen, CheckCheck, X } from 'lucide-react';
 import { Button } from '../../ui/Button'; // Assuming Button component path
 import { cn } from '../../../lib/utils'; // Assuming cn utility path
+import { collectChanges } from '../../../lib/editor/trackChanges';
+import type { TrackChangesStorage } from '../../../lib/editor/extensions/TrackChanges';
 
 interface EditorToolbarProps {
   editor: Editor | null;
@@ -23,6 +25,8 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
   }
 
   const aiFeaturesEnabled = true; // For now, always true. Later can be a prop or config.
+  const trackChanges = editor.storage.trackChanges as TrackChangesStorage | undefined;
+  const hasChanges = !!trackChanges && collectChanges(editor.state.doc).length > 0;
 
   return (
     <div className="flex flex-wrap items-center gap-1 p-2 border-b border-border dark:border-dark-border bg-background dark:bg-dark-background sticky top-0 z-10">
@@ -98,6 +102,43 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
         <Minus className="h-4 w-4" />
       </Button>
 
+      {/* Suggest mode (tracked changes) */}
+      {trackChanges && (
+        <>
+          <div className="h-6 border-l border-border dark:border-dark-border mx-1"></div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => editor.chain().focus().setTrackChanges(!trackChanges.enabled).run()}
+            className={cn("p-2 flex items-center", trackChanges.enabled ? 'bg-accent text-accent-foreground dark:bg-dark-accent dark:text-dark-accent-foreground' : 'hover:bg-muted dark:hover:bg-dark-muted')}
+            title={trackChanges.enabled ? 'Suggesting: edits are recorded as tracked changes' : 'Editing: turn on to suggest changes'}
+            aria-pressed={trackChanges.enabled}
+          >
+            <FilePen className="h-4 w-4 mr-1.5" /> Suggest
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => editor.chain().focus().acceptAllChanges().run()}
+            disabled={!hasChanges}
+            className="p-2 hover:bg-muted dark:hover:bg-dark-muted"
+            title="Accept all changes"
+          >
+            <CheckCheck className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => editor.chain().focus().rejectAllChanges().run()}
+            disabled={!hasChanges}
+            className="p-2 hover:bg-muted dark:hover:bg-dark-muted"
+            title="Reject all changes"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+
       {/* AI Feature Buttons */}
       {aiFeaturesEnabled && (
         <>
@@ -18,7 +18,7 @@ import { TooltipProvider } from "@/components/ui/Tooltip";
 import UploadModal from '@/components/documents/UploadModal';
 import TaskStatusBar from '@/components/common/TaskStatusBar';
 import GlobalCommandPalette from '@/components/common/GlobalCommandPalette';
-import { Home, Files, LogOut, Settings, UploadCloud, Moon, Sun, Brain } from 'lucide-react';
+import { Home, Files, LogOut, Settings, UploadCloud, Moon, Sun, Brain, BookCheck, Library } from 'lucide-react';
 import CaseSelector from './CaseSelector';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
@@ -129,6 +129,16 @@ const LayoutContent: React.FC<LayoutContentProps> = ({ isSidebarOpen, setIsSideb
       href: "/app/files",
       icon: <Files className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />
     },
+    {
+      label: "Playbooks",
+      href: "/app/playbooks",
+      icon: <BookCheck className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />
+    },
+    {
+      label: "Clause Library",
+      href: "/app/clauses",
+      icon: <Library className="text-neutral-700 dark:text-neutral-200 h-5 w-5 flex-shrink-0" />
+    },
     // Example of re-adding a previously removed link, if desired.
     // {
     //   label: "Legal Assistant",
@@ -2,8 +2,7 @@ import React from 'react';
 import { useAuth } from '@/hooks/useAuth'; // Assuming useAuth hook is in @/hooks/useAuth
 import { Button } from '@/components/ui/Button'; // Assuming Button component is in @/components/ui/Button
 import { useNavigate } from 'react-router-dom';
-import { TRIAL_AI_CALL_LIMIT } from '@/config/constants';
-import { isTrialValid } from '@/utils/subscription';
+import { getAiQuotaStatus, isTrialValid } from '@/utils/subscription';
 
 export const TrialStatusDisplay: React.FC = () => {
   const { userProfile } = useAuth();
@@ -27,8 +26,7 @@ export const TrialStatusDisplay: React.FC = () => {
   
   daysLeft = Math.max(0, daysLeft); // Ensure it's not negative
 
-  const callsUsed = userProfile.trial_ai_calls_used || 0;
-  const callsRemaining = Math.max(0, TRIAL_AI_CALL_LIMIT - callsUsed); // Ensure not negative
+  const { callsRemaining, callLimit } = getAiQuotaStatus(userProfile);
 
   if (!trialValid) {
     return (
@@ -44,7 +42,7 @@ export const TrialStatusDisplay: React.FC = () => {
   return (
     <div className="text-sm text-blue-700 dark:text-blue-300 p-3 bg-blue-100 dark:bg-blue-800 border border-blue-300 dark:border-blue-600 rounded-md shadow-sm flex items-center justify-between">
       <span>
-        Trial: <strong>{daysLeft} days left</strong> | <strong>{callsRemaining}/{TRIAL_AI_CALL_LIMIT}</strong> AI calls remaining.
+        Trial: <strong>{daysLeft} days left</strong> | <strong>{callsRemaining}/{callLimit}</strong> AI calls remaining.
       </span>
       <Button variant="outline" size="sm" onClick={() => navigate('/settings/subscription')}>
         Upgrade Plan
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, MailPlus, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Spinner } from '@/components/ui/Spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { Organization, OrganizationMember, OrganizationRole } from '@/types/membership';
+import {
+  createOrganization, getMyOrganizations, getOrganizationMembers, inviteOrganizationMember, removeOrganizationMember,
+} from '@/services/membershipService';
+import PendingInvitations from '@/components/cases/PendingInvitations';
+
+const OrganizationMembers: React.FC<{ organization: Organization }> = ({ organization }) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<OrganizationMember[] | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('member');
+  const isAdmin = organization.role === 'admin';
+
+  useEffect(() => {
+    getOrganizationMembers(organization.id).then(({ data, error }) => {
+      if (error) toast.error(`Failed to load members: ${error.message}`);
+      setMembers(data || []);
+    });
+  }, [organization.id]);
+
+  const handleInvite = async () => {
+    const { data, error } = await inviteOrganizationMember(organization.id, email, role);
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to send the invitation');
+      return;
+    }
+    setEmail('');
+    toast.success(`Invited ${data.email} to ${organization.name}.`);
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!window.confirm(`Remove ${member.name || member.email} from ${organization.name}?`)) return;
+    const { error } = await removeOrganizationMember(organization.id, member.userId);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setMembers(prev => prev?.filter(existing => existing.userId !== member.userId) ?? null);
+  };
+
+  if (!members) return <Spinner size="sm" />;
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {members.map(member => (
+          <li key={member.userId} className="flex items-center gap-2 text-sm">
+            <span className="flex-1 truncate">{member.name || member.email}{member.userId === user?.id && ' (you)'}</span>
+            <Badge variant={member.role === 'admin' ? 'primary' : 'secondary'} size="xs">{member.role}</Badge>
+            {isAdmin && member.userId !== user?.id && (
+              <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={() => handleRemove(member)} title="Remove member">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {isAdmin && (
+        <div className="flex items-center gap-2">
+          <Input type="email" placeholder="Invite a colleague by email..." value={email} onChange={e => setEmail(e.target.value)} className="h-8 text-sm" />
+          <Select value={role} onValueChange={value => setRole(value as OrganizationRole)}>
+            <SelectTrigger className="w-28 h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="member">Member</SelectItem>
+              <SelectItem value="admin">Admin</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={handleInvite} disabled={!email.trim()}><MailPlus className="h-4 w-4" /></Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The user's firms: create one, see who is in it and, as an admin, invite colleagues. Playbooks,
+ * clauses and matters can be shared with a firm's members.
+ */
+const OrganizationSettings: React.FC = () => {
+  const [organizations, setOrganizations] = useState<Organization[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const load = async () => {
+    const { data, error } = await getMyOrganizations();
+    if (error) toast.error(`Failed to load organisations: ${error.message}`);
+    setOrganizations(data || []);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const { data, error } = await createOrganization(newName);
+    setIsCreating(false);
+    if (error || !data) {
+      toast.error(error?.message || 'Failed to create organisation');
+      return;
+    }
+    setOrganizations(prev => [...(prev || []), data].sort((a, b) => a.name.localeCompare(b.name)));
+    setNewName('');
+    toast.success(`Created ${data.name}.`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <PendingInvitations onAccepted={invitation => invitation.organizationId && load()} />
+      {!organizations ? <Spinner /> : organizations.map(organization => (
+        <div key={organization.id} className="rounded-md border p-3 space-y-2 dark:border-slate-700">
+          <h4 className="flex items-center font-medium"><Building2 className="h-4 w-4 mr-1.5 text-muted-foreground" /> {organization.name}</h4>
+          <OrganizationMembers organization={organization} />
+        </div>
+      ))}
+      {organizations?.length === 0 && <p className="text-sm text-muted-foreground">You aren't part of an organisation yet.</p>}
+      <div className="flex items-center gap-2">
+        <Input placeholder="New organisation name..." value={newName} onChange={e => setNewName(e.target.value)} disabled={isCreating} />
+        <Button onClick={handleCreate} disabled={!newName.trim() || isCreating}>
+          <Plus className="h-4 w-4 mr-1.5" /> Create
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default OrganizationSettings;
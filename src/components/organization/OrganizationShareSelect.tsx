@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/Label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Organization } from '@/types/membership';
+import { getMyOrganizations } from '@/services/membershipService';
+
+interface OrganizationShareSelectProps {
+  value: string | null; // Organisation id, or null for private to the user
+  onChange: (organizationId: string | null) => void;
+}
+
+const PERSONAL = 'personal'; // Radix Select items can't use an empty value
+
+/** "Shared with" picker for library items; renders nothing for users outside any organisation. */
+const OrganizationShareSelect: React.FC<OrganizationShareSelectProps> = ({ value, onChange }) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+
+  useEffect(() => {
+    getMyOrganizations().then(({ data }) => setOrganizations(data || []));
+  }, []);
+
+  if (organizations.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <Label>Shared with</Label>
+      <Select value={value ?? PERSONAL} onValueChange={selected => onChange(selected === PERSONAL ? null : selected)}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL}>Only me</SelectItem>
+          {organizations.map(organization => <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default OrganizationShareSelect;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Checkbox } from '@/components/ui/Checkbox';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Textarea } from '@/components/ui/Textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import OrganizationShareSelect from '@/components/organization/OrganizationShareSelect';
+import { Playbook, PlaybookRule, PlaybookSeverity } from '@/types/playbook';
+import { PlaybookInput, savePlaybook } from '@/services/playbookService';
+import { createPlaybookRule } from '@/utils/playbook';
+
+interface PlaybookEditorProps {
+  playbook: Playbook | null; // null to create a new playbook
+  onSaved: (playbook: Playbook) => void;
+  onDelete?: () => void;
+}
+
+const severities: PlaybookSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Fallback positions and unacceptable terms are edited one per line
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const RuleEditor: React.FC<{
+  rule: PlaybookRule;
+  index: number;
+  count: number;
+  onChange: (rule: PlaybookRule) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}> = ({ rule, index, count, onChange, onMove, onRemove }) => {
+  // Kept as typed so blank lines survive until the rule is saved
+  const [fallbackText, setFallbackText] = useState(toLines(rule.fallbackPositions));
+  const [unacceptableText, setUnacceptableText] = useState(toLines(rule.unacceptableTerms));
+
+  return (
+    <div className="border rounded-md p-3 space-y-2 dark:border-slate-700">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-semibold text-muted-foreground w-6">{index + 1}.</span>
+        <Input value={rule.title} onChange={e => onChange({ ...rule, title: e.target.value })} placeholder="Topic, e.g. Limitation of liability" className="flex-1" />
+        <Select value={rule.severity} onValueChange={value => onChange({ ...rule, severity: value as PlaybookSeverity })}>
+          <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {severities.map(severity => <SelectItem key={severity} value={severity}>{severity}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={() => onMove(-1)} disabled={index === 0} title="Move up"><ArrowUp className="h-4 w-4" /></Button>
+        <Button variant="ghost" size="sm" onClick={() => onMove(1)} disabled={index === count - 1} title="Move down"><ArrowDown className="h-4 w-4" /></Button>
+        <Button variant="ghost" size="sm" onClick={onRemove} title="Remove rule"><Trash2 className="h-4 w-4" /></Button>
+      </div>
+      <label className="flex items-center gap-2 ml-8 text-xs font-medium">
+        <Checkbox checked={rule.required} onCheckedChange={checked => onChange({ ...rule, required: checked === true })} />
+        The contract must contain this clause
+      </label>
+      <div className="ml-8 grid gap-2">
+        <Label className="text-xs">Preferred language</Label>
+        <Textarea rows={3} value={rule.preferredLanguage} onChange={e => onChange({ ...rule, preferredLanguage: e.target.value })} placeholder="The firm's standard wording" />
+        <Label className="text-xs">Fallback positions (one per line, most preferred first)</Label>
+        <Textarea
+          rows={2}
+          value={fallbackText}
+          onChange={e => { setFallbackText(e.target.value); onChange({ ...rule, fallbackPositions: fromLines(e.target.value) }); }}
+        />
+        <Label className="text-xs">Unacceptable terms (one per line)</Label>
+        <Textarea
+          rows={2}
+          value={unacceptableText}
+          onChange={e => { setUnacceptableText(e.target.value); onChange({ ...rule, unacceptableTerms: fromLines(e.target.value) }); }}
+        />
+        <Label className="text-xs">Guidance for reviewers</Label>
+        <Input value={rule.guidance} onChange={e => onChange({ ...rule, guidance: e.target.value })} placeholder="Optional" />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Form for a playbook's details and its rules: for each topic, whether the clause is required,
+ * the preferred language, fallback positions, unacceptable terms and how much a deviation matters.
+ */
+const PlaybookEditor: React.FC<PlaybookEditorProps> = ({ playbook, onSaved, onDelete }) => {
+  const [draft, setDraft] = useState<PlaybookInput>(() => ({
+    name: playbook?.name ?? '',
+    contractType: playbook?.contractType ?? '',
+    description: playbook?.description ?? '',
+    rules: playbook?.rules ?? [createPlaybookRule()],
+    organizationId: playbook?.organizationId ?? null,
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRule = (index: number, rule: PlaybookRule) =>
+    setDraft(prev => ({ ...prev, rules: prev.rules.map((existing, i) => (i === index ? rule : existing)) }));
+
+  const moveRule = (index: number, offset: -1 | 1) =>
+    setDraft(prev => {
+      const rules = [...prev.rules];
+      [rules[index], rules[index + offset]] = [rules[index + offset], rules[index]];
+      return { ...prev, rules };
+    });
+
+  const handleSave = async () => {
+    const rules = draft.rules.filter(rule => rule.title.trim());
+    if (rules.length === 0) {
+      toast.error('Add at least one rule with a topic.');
+      return;
+    }
+    setIsSaving(true);
+    const { data, error } = await savePlaybook({ ...draft, rules }, playbook?.id);
+    setIsSaving(false);
+    if (error || !data) {
+      toast.error(`Failed to save playbook: ${error?.message || 'Unknown error'}`);
+      return;
+    }
+    toast.success(`Playbook "${data.name}" saved.`);
+    onSaved(data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{playbook ? `Edit ${playbook.name}` : 'New Playbook'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Name</Label>
+            <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Standard NDA positions" />
+          </div>
+          <div className="space-y-1">
+            <Label>Contract type</Label>
+            <Input value={draft.contractType} onChange={e => setDraft({ ...draft, contractType: e.target.value })} placeholder="e.g. NDA" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Description</Label>
+          <Textarea rows={2} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+        </div>
+        <OrganizationShareSelect value={draft.organizationId ?? null} onChange={organizationId => setDraft({ ...draft, organizationId })} />
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Rules ({draft.rules.length})</h3>
+          {draft.rules.map((rule, index) => (
+            <RuleEditor
+              key={rule.id}
+              rule={rule}
+              index={index}
+              count={draft.rules.length}
+              onChange={updated => updateRule(index, updated)}
+              onMove={offset => moveRule(index, offset)}
+              onRemove={() => setDraft(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))}
+            />
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setDraft(prev => ({ ...prev, rules: [...prev.rules, createPlaybookRule()] }))}>
+            <Plus className="h-4 w-4 mr-1.5" /> Add rule
+          </Button>
+        </div>
+
+        <div className="flex justify-between pt-2 border-t dark:border-slate-700">
+          {onDelete ? (
+            <Button variant="destructive" size="sm" onClick={onDelete}>
+              <Trash2 className="h-4 w-4 mr-1.5" /> Delete playbook
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={isSaving || !draft.name.trim() || !draft.contractType.trim()}>
+            <Save className="h-4 w-4 mr-1.5" /> {isSaving ? 'Saving...' : 'Save playbook'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlaybookEditor;
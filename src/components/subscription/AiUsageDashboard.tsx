@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Progress } from '@/components/ui/progress';
+import { Spinner } from '@/components/ui/Spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { getAiUsage } from '@/services/usageService';
+import { AiUsageBreakdownRow, AiUsageRecord } from '@/types/usage';
+import { aiUsageByCaseToCsv, summarizeAiUsage } from '@/utils/aiUsage';
+import { getAiQuotaStatus } from '@/utils/subscription';
+
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const BreakdownTable: React.FC<{ title: string; rows: AiUsageBreakdownRow[] }> = ({ title, rows }) => (
+  <div className="overflow-x-auto border rounded-md dark:border-slate-700">
+    <table className="w-full text-xs">
+      <thead className="bg-muted/50 dark:bg-slate-700/30 text-left">
+        <tr>
+          <th className="p-2 font-semibold">{title}</th>
+          <th className="p-2 font-semibold text-right">Calls</th>
+          <th className="p-2 font-semibold text-right">Failed</th>
+          <th className="p-2 font-semibold text-right">Input tokens</th>
+          <th className="p-2 font-semibold text-right">Output tokens</th>
+          <th className="p-2 font-semibold text-right">Avg. latency</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-t dark:border-slate-700">
+            <td className="p-2 font-medium">{row.label}</td>
+            <td className="p-2 text-right">{formatNumber(row.calls)}</td>
+            <td className="p-2 text-right text-muted-foreground">{row.failedCalls > 0 ? formatNumber(row.failedCalls) : '—'}</td>
+            <td className="p-2 text-right">{formatNumber(row.inputTokens)}</td>
+            <td className="p-2 text-right">{formatNumber(row.outputTokens)}</td>
+            <td className="p-2 text-right text-muted-foreground">{row.averageLatencyMs !== null ? `${(row.averageLatencyMs / 1000).toFixed(1)} s` : '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/**
+ * The user's AI calls over a period, from the ai_usage ledger: quota left on the plan, totals,
+ * calls per day and breakdowns by feature and by case. The per-case breakdown exports to CSV for
+ * billing AI usage back to clients.
+ */
+export const AiUsageDashboard: React.FC = () => {
+  const { userProfile } = useAuth();
+  const [days, setDays] = useState(30);
+  const [records, setRecords] = useState<AiUsageRecord[] | null>(null);
+  const [since, setSince] = useState(() => new Date());
+
+  useEffect(() => {
+    const start = new Date(Date.now() - days * 86400000);
+    setSince(start);
+    setRecords(null);
+    const load = async () => {
+      const { data, error } = await getAiUsage(start);
+      if (error) toast.error(`Failed to load AI usage: ${error.message}`);
+      setRecords(data || []);
+    };
+    load();
+  }, [days]);
+
+  const summary = useMemo(() => (records ? summarizeAiUsage(records, since) : null), [records, since]);
+  const quota = getAiQuotaStatus(userProfile);
+  const busiestDay = summary ? Math.max(1, ...summary.byDay.map(day => day.calls)) : 1;
+
+  const handleExportCsv = () => {
+    if (!records) return;
+    const url = URL.createObjectURL(new Blob([aiUsageByCaseToCsv(records)], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ai-usage-by-case-${since.toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="text-xl">AI Usage</CardTitle>
+          <CardDescription>Every AI call made from your account, by feature and by case.</CardDescription>
+        </div>
+        <Select value={String(days)} onValueChange={value => setDays(Number(value))}>
+          <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(period => <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {quota.callLimit !== null && (
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>Trial AI calls</span>
+              <span className="text-muted-foreground">{quota.callsUsed} of {quota.callLimit} used</span>
+            </div>
+            <Progress value={Math.min(100, (quota.callsUsed / quota.callLimit) * 100)} />
+          </div>
+        )}
+
+        {!summary ? (
+          <div className="flex justify-center p-6"><Spinner /></div>
+        ) : summary.totals.calls === 0 ? (
+          <p className="text-sm text-center text-muted-foreground py-6">No AI calls in this period.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {[
+                { label: 'Calls', value: formatNumber(summary.totals.calls) },
+                { label: 'Failed', value: formatNumber(summary.totals.failedCalls) },
+                { label: 'Input tokens', value: formatNumber(summary.totals.inputTokens) },
+                { label: 'Output tokens', value: formatNumber(summary.totals.outputTokens) },
+              ].map(stat => (
+                <div key={stat.label} className="rounded-md border p-3 dark:border-slate-700">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className="text-lg font-semibold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Calls per day</p>
+              <div className="flex items-end gap-px h-20" role="img" aria-label="Calls per day">
+                {summary.byDay.map(day => (
+                  <div
+                    key={day.date}
+                    className="flex-1 bg-primary/70 rounded-t-sm min-h-px"
+                    style={{ height: `${(day.calls / busiestDay) * 100}%` }}
+                    title={`${day.date}: ${day.calls} call${day.calls === 1 ? '' : 's'}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <BreakdownTable title="Feature" rows={summary.byFeature} />
+
+            <div className="space-y-2">
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" onClick={handleExportCsv}>
+                  <Download className="h-4 w-4 mr-1.5" /> Export by case (CSV)
+                </Button>
+              </div>
+              <BreakdownTable title="Case" rows={summary.byCase} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -8,7 +8,8 @@ import { toast } from 'sonner'; // Assuming you use sonner for toasts
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Loader2 } from 'lucide-react';
 import { TRIAL_AI_CALL_LIMIT } from '@/config/constants';
-import { isSubscriptionActive, isTrialValid } from '@/utils/subscription';
+import { getAiQuotaStatus, isSubscriptionActive, isTrialValid } from '@/utils/subscription';
+import { AiUsageDashboard } from './AiUsageDashboard';
 
 // Replace with your actual Price IDs from Stripe Dashboard
 const MONTHLY_PRICE_ID = import.meta.env.VITE_STRIPE_MONTHLY_PRICE_ID || 'price_xxxxxxxxxxxxxx_monthly';
@@ -59,9 +60,7 @@ export const SubscriptionManagement: React.FC = () => {
     setMessage('');
 
     try {
-      const { data, error: functionError } = await supabase.functions.invoke('start-user-trial', {
-        body: { userId: auth.user.id },
-      });
+      const { data, error: functionError } = await supabase.functions.invoke('start-user-trial');
 
       if (functionError) {
         console.error('Supabase function error (start-user-trial):', functionError);
@@ -195,9 +194,9 @@ export const SubscriptionManagement: React.FC = () => {
   const isActiveSub = isSubscriptionActive(userProfile);
   const isTrialing = userProfile?.subscription_status === 'trialing';
   const trialEndsAt = userProfile?.trial_ends_at ? new Date(userProfile.trial_ends_at) : null;
-  const trialCallsUsed = userProfile?.trial_ai_calls_used || 0;
-  const isTrialExpired = isTrialing && trialEndsAt && trialEndsAt.getTime() < Date.now();
-  const trialCallLimitReached = trialCallsUsed >= TRIAL_AI_CALL_LIMIT;
+  const quota = getAiQuotaStatus(userProfile);
+  const isTrialExpired = isTrialing && trialEndsAt && quota.refusal === 'trial_expired';
+  const trialCallLimitReached = quota.refusal === 'trial_limit';
   const isCurrentlyValidTrial = isTrialValid(userProfile);
 
   // Condition to show "Start Trial" button:
@@ -319,6 +318,8 @@ export const SubscriptionManagement: React.FC = () => {
             </CardFooter>
         )}
       </Card>
+
+      {user && (isActiveSub || isTrialing) && <AiUsageDashboard />}
     </div>
   );
 }; 
\ No newline at end of file
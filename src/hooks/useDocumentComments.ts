@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  createDocumentCommentEntry,
+  createDocumentCommentThread,
+  getDocumentComments,
+  reopenDocumentCommentThread,
+  resolveDocumentCommentThread,
+  updateDocumentCommentPositions,
+  DocumentCommentPosition,
+  DocumentCommentThread,
+} from '@/services/documents';
+import { getCommentAnchors, threadAt, CommentAnchor } from '@/lib/editor/commentAnchors';
+import { getHTMLWithCommentRanges } from '@/lib/editor/extensions/CommentAnchors';
+import { DocxComment } from '@/types/docxExport';
+
+// Anchor id for the selection a new comment is being written on
+const DRAFT_THREAD_ID = 'new-comment';
+
+const toAnchor = (thread: DocumentCommentThread): CommentAnchor => ({
+  threadId: thread.thread_id,
+  from: thread.position?.from ?? 0,
+  to: thread.position?.to ?? 0,
+  quote: thread.position?.quote ?? '',
+  resolved: !!thread.resolved,
+});
+
+/**
+ * Comment threads for a document open in the editor: loads them and anchors them in the editor,
+ * creates, answers, resolves and reopens threads, and keeps the active thread in step with the
+ * cursor. Anchors move with edits; savePositions stores them once the content is saved.
+ */
+export function useDocumentComments(documentId: string | undefined, editor: Editor | null) {
+  const { user, userProfile } = useAuth();
+  const userName = userProfile?.full_name || user?.email || 'Reviewer';
+  const [threads, setThreads] = useState<DocumentCommentThread[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [draftQuote, setDraftQuote] = useState<string | null>(null);
+
+  const activate = useCallback((threadId: string | null) => {
+    setActiveThreadId(threadId);
+    editor?.commands.setActiveCommentThread(threadId);
+  }, [editor]);
+
+  useEffect(() => {
+    if (!documentId || !editor) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getDocumentComments(documentId)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) throw error;
+        // Entries come back in no particular order
+        const loaded = ((data ?? []) as DocumentCommentThread[]).map(thread => ({
+          ...thread,
+          document_comment_entries: [...(thread.document_comment_entries ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+        }));
+        setThreads(loaded);
+        editor.commands.setCommentAnchors(loaded.map(toAnchor));
+      })
+      .catch(error => {
+        console.error('Failed to load document comments:', error);
+        toast.error('Failed to load comments.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, editor]);
+
+  // Putting the cursor in commented text opens its thread
+  useEffect(() => {
+    if (!editor) return;
+    const follow = () => {
+      const threadId = threadAt(editor.state, editor.state.selection.head);
+      if (threadId && threadId !== DRAFT_THREAD_ID) activate(threadId);
+    };
+    editor.on('selectionUpdate', follow);
+    return () => {
+      editor.off('selectionUpdate', follow);
+    };
+  }, [editor, activate]);
+
+  const anchorOf = useCallback((threadId: string) => (
+    editor ? getCommentAnchors(editor.state).find(anchor => anchor.threadId === threadId) : undefined
+  ), [editor]);
+
+  /** Starts a comment on the selected text, which stays highlighted while the comment is written. */
+  const startThread = useCallback(() => {
+    if (!editor) return;
+    const { from, to, empty } = editor.state.selection;
+    if (empty) {
+      toast.error('Select the text you want to comment on.');
+      return;
+    }
+    const quote = editor.state.doc.textBetween(from, to, ' ', ' ');
+    editor.commands.upsertCommentAnchor({ threadId: DRAFT_THREAD_ID, from, to, quote });
+    activate(DRAFT_THREAD_ID);
+    setDraftQuote(quote);
+  }, [editor, activate]);
+
+  const cancelThread = useCallback(() => {
+    editor?.commands.removeCommentAnchor(DRAFT_THREAD_ID);
+    activate(null);
+    setDraftQuote(null);
+  }, [editor, activate]);
+
+  const createThread = useCallback(async (text: string): Promise<boolean> => {
+    const draft = anchorOf(DRAFT_THREAD_ID);
+    if (!documentId || !editor || !user || !draft || !text.trim()) return false;
+    const threadId = uuidv4();
+    const position: DocumentCommentPosition = { from: draft.from, to: draft.to, quote: draft.quote };
+    try {
+      const { data: thread, error } = await createDocumentCommentThread(documentId, threadId, position, user.id);
+      if (error || !thread) throw error || new Error('No thread returned.');
+      const { data: entry, error: entryError } = await createDocumentCommentEntry(documentId, threadId, thread.id, text.trim(), user.id, userName);
+      if (entryError || !entry) throw entryError || new Error('No comment returned.');
+      setThreads(prev => [...prev, { ...thread, document_comment_entries: [entry] }]);
+      editor.commands.removeCommentAnchor(DRAFT_THREAD_ID);
+      editor.commands.upsertCommentAnchor({ ...draft, threadId });
+      activate(threadId);
+      setDraftQuote(null);
+      return true;
+    } catch (error) {
+      console.error('Failed to create comment thread:', error);
+      toast.error('Failed to add comment.');
+      return false;
+    }
+  }, [documentId, editor, user, userName, anchorOf, activate]);
+
+  const reply = useCallback(async (threadId: string, text: string): Promise<boolean> => {
+    const thread = threads.find(t => t.thread_id === threadId);
+    if (!documentId || !user || !thread || !text.trim()) return false;
+    const { data: entry, error } = await createDocumentCommentEntry(documentId, threadId, thread.id, text.trim(), user.id, userName);
+    if (error || !entry) {
+      console.error('Failed to reply to comment thread:', error);
+      toast.error('Failed to post reply.');
+      return false;
+    }
+    setThreads(prev => prev.map(t => t.thread_id === threadId ? { ...t, document_comment_entries: [...t.document_comment_entries, entry] } : t));
+    return true;
+  }, [documentId, user, userName, threads]);
+
+  const setResolved = useCallback(async (threadId: string, resolved: boolean) => {
+    if (!documentId || !user) return;
+    const { data, error } = resolved
+      ? await resolveDocumentCommentThread(documentId, threadId, user.id)
+      : await reopenDocumentCommentThread(documentId, threadId);
+    if (error || !data) {
+      console.error('Failed to update comment thread:', error);
+      toast.error(resolved ? 'Failed to resolve comment.' : 'Failed to reopen comment.');
+      return;
+    }
+    setThreads(prev => prev.map(t => t.thread_id === threadId ? { ...t, ...data, document_comment_entries: t.document_comment_entries } : t));
+    const anchor = anchorOf(threadId);
+    if (anchor) editor?.commands.upsertCommentAnchor({ ...anchor, resolved });
+    if (resolved && activeThreadId === threadId) activate(null);
+  }, [documentId, user, editor, anchorOf, activeThreadId, activate]);
+
+  /** Selects a thread and scrolls the editor to its text. */
+  const focusThread = useCallback((threadId: string) => {
+    const anchor = anchorOf(threadId);
+    if (editor && anchor) editor.chain().setTextSelection(anchor.from).scrollIntoView().run();
+    activate(threadId);
+  }, [editor, anchorOf, activate]);
+
+  /** Stores the anchors as they are in the editor; call after saving the document's content. */
+  const savePositions = useCallback(async () => {
+    if (!documentId || !editor) return;
+    const positions = getCommentAnchors(editor.state)
+      .filter(anchor => anchor.threadId !== DRAFT_THREAD_ID)
+      .map(({ threadId, from, to, quote }) => ({ threadId, position: { from, to, quote } }));
+    if (positions.length === 0) return;
+    const { error } = await updateDocumentCommentPositions(documentId, positions);
+    if (error) {
+      console.error('Failed to save comment positions:', error);
+      return;
+    }
+    setThreads(prev => prev.map(t => ({ ...t, position: positions.find(p => p.threadId === t.thread_id)?.position ?? t.position })));
+  }, [documentId, editor]);
+
+  /** The editor's HTML with open threads' text marked, and those threads as Word comments. */
+  const exportOpenComments = useCallback((): { htmlContent: string; comments: DocxComment[] } => {
+    const open = threads.filter(t => !t.resolved && t.document_comment_entries.length > 0);
+    return {
+      htmlContent: editor ? getHTMLWithCommentRanges(editor, open.map(t => t.thread_id)) : '',
+      comments: open.map(t => ({
+        id: t.thread_id,
+        entries: t.document_comment_entries.map(entry => ({ author: entry.user_name, date: entry.created_at, text: entry.text })),
+      })),
+    };
+  }, [editor, threads]);
+
+  return {
+    threads,
+    isLoading,
+    activeThreadId,
+    draftQuote,
+    startThread,
+    cancelThread,
+    createThread,
+    reply,
+    resolveThread: (threadId: string) => setResolved(threadId, true),
+    reopenThread: (threadId: string) => setResolved(threadId, false),
+    focusThread,
+    savePositions,
+    exportOpenComments,
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { parseCommand, Task, taskToCommand } from './commandParser';
+
+describe('taskToCommand', () => {
+  test('writes commands that parse back to the same task', () => {
+    const tasks: Task[] = [
+      { type: 'research', query: 'limitation periods for breach of contract' },
+      { type: 'use_template', templateName: 'Mutual NDA' },
+      { type: 'case_search', query: 'termination notice' },
+      { type: 'analyze_document', docId: 'doc-1', analysisType: 'risks' },
+      { type: 'agent', agent: 'find_clause', clauseType: 'governing law', docId: 'doc-1' },
+      { type: 'agent', agent: 'key_clauses', docId: 'doc-1' },
+      { type: 'agent', agent: 'summarize', docId: 'doc-1' },
+      { type: 'agent', agent: 'explain_term', term: 'force majeure' },
+      { type: 'agent', agent: 'compare', docIds: ['doc-1', 'doc-2', 'doc-3'] },
+    ];
+    for (const task of tasks) {
+      expect(parseCommand(taskToCommand(task)!)).toEqual(task);
+    }
+  });
+
+  test('has no command for tasks without one', () => {
+    expect(taskToCommand({ type: 'agent', agent: 'generate_timeline', docId: 'doc-1' })).toBeNull();
+    expect(taskToCommand({ type: 'agent', agent: 'summarize' })).toBeNull();
+    expect(taskToCommand(null)).toBeNull();
+  });
+});
@@ -15,7 +15,7 @@ export interface KeyClausesTask { type: 'agent'; agent: 'key_clauses'; docId: st
 export interface SummarizeDocTask { type: 'agent'; agent: 'summarize'; docId?: string } // Optional docId
 export interface ExplainTermTask { type: 'agent'; agent: 'explain_term'; term: string; docId?: string } // Optional docId
 export interface PerplexityTask { type: 'agent'; agent: 'perplexity'; query: string }
-export interface AgentCompareTask { type: 'agent'; agent: 'compare'; docId1: string; docId2: string } // Requires two docIds
+export interface AgentCompareTask { type: 'agent'; agent: 'compare'; docIds: string[] } // Two or more docIds, oldest draft first
 export interface RewriteTask { type: 'agent'; agent: 'rewrite'; instructions: string; docId?: string } // Added RewriteTask
 export interface UseTemplateTask { type: 'use_template'; templateName: string }
 export interface CaseSearchTask { type: 'case_search'; query: string }
@@ -105,13 +105,12 @@ export function parseCommand(inputText: string): Task {
       return { type: 'agent', agent: 'perplexity', query };
     }
   }
-  // /agent compare [docA_id] [docB_id]
-  const compareMatch = trimmed.match(/^\/agent compare\s+(\S+)\s+(\S+)$/i);
+  // /agent compare [docA_id] [docB_id] [docC_id ...]
+  const compareMatch = trimmed.match(/^\/agent compare\s+(\S+(?:\s+\S+)+)$/i);
   if (compareMatch) {
-    const docIdA = compareMatch[1].trim();
-    const docIdB = compareMatch[2].trim();
-    if (docIdA && docIdB) {
-      return { type: 'agent', agent: 'compare', docId1: docIdA, docId2: docIdB };
+    const docIds = compareMatch[1].split(/\s+/);
+    if (docIds.length >= 2) {
+      return { type: 'agent', agent: 'compare', docIds };
     }
   }
   // /use template "Template Name" OR /use template TemplateName
@@ -156,4 +155,34 @@ export function parseCommand(inputText: string): Task {
     return { type: 'unknown', originalInput: trimmed };
   }
   return null; // Not a command
-} 
\ No newline at end of file
+} 
+/**
+ * The chat command that parseCommand reads back as this task, for tasks typed some other way
+ * (e.g. interpreted from the command palette). Null for tasks with no command syntax.
+ */
+export function taskToCommand(task: Task): string | null {
+  if (!task) return null;
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+  switch (task.type) {
+    case 'help': return '/agent help';
+    case 'research': return `/research ${task.query}`;
+    case 'case_search': return `/search ${quote(task.query)}`;
+    case 'use_template': return `/use template ${quote(task.templateName)}`;
+    case 'analyze_document': return `/analyze ${task.analysisType} in ${task.docId}`;
+    case 'unknown': return null;
+    case 'agent':
+      switch (task.agent) {
+        case 'draft': return `/agent draft ${task.instructions}`;
+        case 'find_clause': return `/agent find_clause ${quote(task.clauseType)} in ${task.docId}`;
+        case 'flag_privileged_terms':
+        case 'risk_analysis':
+        case 'key_clauses':
+          return `/agent ${task.agent} in ${task.docId}`;
+        case 'summarize': return task.docId ? `/agent summarize in ${task.docId}` : null;
+        case 'explain_term': return `/agent explain_term ${quote(task.term)}`;
+        case 'perplexity': return `/agent perplexity ${task.query}`;
+        case 'compare': return `/agent compare ${task.docIds.join(' ')}`;
+        default: return null; // generate_timeline and rewrite have no command
+      }
+  }
+}
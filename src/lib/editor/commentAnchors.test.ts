@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest';
+import { Schema } from '@tiptap/pm/model';
+import { EditorState, type Transaction } from '@tiptap/pm/state';
+import { commentAnchorsKey, commentAnchorsPlugin, getCommentAnchors, restoreAnchor, threadAt, type CommentAnchor } from './commentAnchors';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'paragraph+' },
+    paragraph: { content: 'text*', toDOM: () => ['p', 0] },
+    text: {},
+  },
+});
+
+const docOf = (...paragraphs: string[]) =>
+  schema.node('doc', null, paragraphs.map(text => schema.node('paragraph', null, text ? [schema.text(text)] : [])));
+
+// "The fee is due": "fee" is 5..8
+const fee: CommentAnchor = { threadId: 't1', from: 5, to: 8, quote: 'fee' };
+
+function withAnchors(anchors: CommentAnchor[], ...paragraphs: string[]): EditorState {
+  const state = EditorState.create({ schema, doc: docOf(...paragraphs), plugins: [commentAnchorsPlugin()] });
+  return state.apply(state.tr.setMeta(commentAnchorsKey, { type: 'set', anchors }));
+}
+
+const edit = (state: EditorState, build: (tr: Transaction) => Transaction) => state.apply(build(state.tr));
+const anchored = (state: EditorState) => getCommentAnchors(state).map(a => [a.threadId, state.doc.textBetween(a.from, a.to), a.quote]);
+
+describe('comment anchors', () => {
+  test('follow their text through edits before and inside it, but not at its edges', () => {
+    let state = withAnchors([{ threadId: 't1', from: 5, to: 11, quote: 'fee is' }], 'The fee is due');
+    state = edit(state, tr => tr.insertText('Now ', 1));
+    state = edit(state, tr => tr.insertText('still ', 13));
+    expect(anchored(state)).toEqual([['t1', 'fee still is', 'fee still is']]);
+    state = edit(state, tr => tr.insertText('late ', 9));
+    state = edit(state, tr => tr.insertText('!', 26));
+    expect(anchored(state)).toEqual([['t1', 'fee still is', 'fee still is']]);
+    expect(state.doc.textContent).toBe('Now The late fee still is! due');
+  });
+
+  test('collapse when their text is deleted and keep the last quote', () => {
+    const state = edit(withAnchors([fee], 'The fee is due'), tr => tr.delete(4, 9));
+    expect(anchored(state)).toEqual([['t1', '', 'fee']]);
+    expect(threadAt(state, 4)).toBeNull();
+  });
+
+  test('are found again by their quote when positions no longer fit', () => {
+    const doc = docOf('Recitals', 'The fee is due');
+    expect(restoreAnchor(doc, fee)).toMatchObject({ from: 15, to: 18 });
+    expect(restoreAnchor(doc, { ...fee, quote: 'missing', from: 90, to: 95 })).toMatchObject({ from: 26, to: 26 });
+
+    // Loading new content places anchors by their quotes
+    let state = withAnchors([fee], 'The fee is due');
+    state = edit(state, tr => tr.replaceWith(0, tr.doc.content.size, docOf('Recitals', 'The fee is due').content));
+    expect(getCommentAnchors(state)[0]).toMatchObject({ from: 15, to: 18 });
+  });
+
+  test('finds the innermost open thread at a position', () => {
+    const state = withAnchors([
+      { threadId: 'outer', from: 1, to: 15, quote: 'The fee is due' },
+      fee,
+      { threadId: 'done', from: 5, to: 6, quote: 'f', resolved: true },
+    ], 'The fee is due');
+    expect(threadAt(state, 6)).toBe('t1');
+    expect(threadAt(state, 12)).toBe('outer');
+  });
+});
@@ -0,0 +1,124 @@
+import { Node as PMNode } from '@tiptap/pm/model';
+import { EditorState, Plugin, PluginKey, Transaction } from '@tiptap/pm/state';
+import { ReplaceStep } from '@tiptap/pm/transform';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+// Comment threads are anchored to document positions rather than marks, so comments never end up
+// in the saved HTML. The plugin maps every anchor through each transaction; the stored position
+// keeps the quoted text too, to find the anchor again when positions no longer fit the content.
+
+export interface CommentAnchor {
+  threadId: string;
+  from: number;
+  to: number;
+  quote: string; // The anchored text when the anchor was last mapped
+  resolved?: boolean; // Resolved threads keep their anchor (for reopening) but aren't highlighted
+}
+
+interface CommentAnchorsState {
+  anchors: CommentAnchor[];
+  activeThreadId: string | null;
+  decorations: DecorationSet;
+}
+
+// Transaction meta, under commentAnchorsKey
+export type CommentAnchorsMeta =
+  | { type: 'set'; anchors: CommentAnchor[] }
+  | { type: 'upsert'; anchor: CommentAnchor }
+  | { type: 'remove'; threadId: string }
+  | { type: 'activate'; threadId: string | null };
+
+export const commentAnchorsKey = new PluginKey<CommentAnchorsState>('commentAnchors');
+
+const quoteAt = (doc: PMNode, from: number, to: number) => doc.textBetween(from, to, ' ', ' ');
+
+// Finds `quote` in a single textblock. Inline leaves (hard breaks) read as one space, as in quoteAt,
+// so offsets in the block's text are offsets from the block's start.
+function findQuote(doc: PMNode, quote: string): { from: number; to: number } | null {
+  let found: { from: number; to: number } | null = null;
+  doc.descendants((node, pos) => {
+    if (found) return false;
+    if (!node.isTextblock) return true;
+    const index = node.textBetween(0, node.content.size, undefined, ' ').indexOf(quote);
+    if (index >= 0) found = { from: pos + 1 + index, to: pos + 1 + index + quote.length };
+    return false;
+  });
+  return found;
+}
+
+/**
+ * Places an anchor in `doc`: at its positions when they still hold the quoted text, otherwise at
+ * the first occurrence of the quote, otherwise at its positions clamped to the document.
+ */
+export function restoreAnchor(doc: PMNode, anchor: CommentAnchor): CommentAnchor {
+  const size = doc.content.size;
+  const from = Math.min(Math.max(anchor.from, 0), size);
+  const to = Math.min(Math.max(anchor.to, from), size);
+  if (!anchor.quote || quoteAt(doc, from, to) === anchor.quote) return { ...anchor, from, to };
+  const found = findQuote(doc, anchor.quote);
+  return found ? { ...anchor, ...found } : { ...anchor, from, to, quote: quoteAt(doc, from, to) };
+}
+
+/**
+ * Maps anchors through a transaction. Text typed at either edge stays outside the anchor; an anchor
+ * whose text is deleted collapses to where it was. Replacing the whole document (loading content)
+ * places the anchors again by their quotes.
+ */
+export function mapAnchors(anchors: CommentAnchor[], tr: Transaction): CommentAnchor[] {
+  if (!tr.docChanged) return anchors;
+  const reloaded = tr.steps.some((step, i) =>
+    step instanceof ReplaceStep && step.from === 0 && step.to === tr.docs[i].content.size);
+  if (reloaded) return anchors.map(anchor => restoreAnchor(tr.doc, anchor));
+
+  return anchors.map(anchor => {
+    const from = tr.mapping.map(anchor.from, 1);
+    const to = Math.max(from, tr.mapping.map(anchor.to, -1));
+    return { ...anchor, from, to, quote: to > from ? quoteAt(tr.doc, from, to) : anchor.quote };
+  });
+}
+
+function decorate(doc: PMNode, anchors: CommentAnchor[], activeThreadId: string | null): DecorationSet {
+  return DecorationSet.create(doc, anchors
+    .filter(anchor => !anchor.resolved && anchor.to > anchor.from)
+    .map(anchor => Decoration.inline(anchor.from, anchor.to, {
+      class: anchor.threadId === activeThreadId ? 'comment-anchor comment-anchor-active' : 'comment-anchor',
+      'data-thread-id': anchor.threadId,
+    })));
+}
+
+/** The plugin holding the anchors and highlighting the open threads' text. */
+export function commentAnchorsPlugin(): Plugin<CommentAnchorsState> {
+  return new Plugin<CommentAnchorsState>({
+    key: commentAnchorsKey,
+    state: {
+      init: (_, state) => ({ anchors: [], activeThreadId: null, decorations: DecorationSet.create(state.doc, []) }),
+      apply: (tr, value) => {
+        const meta = tr.getMeta(commentAnchorsKey) as CommentAnchorsMeta | undefined;
+        let anchors = mapAnchors(value.anchors, tr);
+        let activeThreadId = value.activeThreadId;
+        if (meta?.type === 'set') anchors = meta.anchors.map(anchor => restoreAnchor(tr.doc, anchor));
+        if (meta?.type === 'upsert') {
+          const anchor = restoreAnchor(tr.doc, meta.anchor);
+          anchors = [...anchors.filter(a => a.threadId !== anchor.threadId), anchor];
+        }
+        if (meta?.type === 'remove') anchors = anchors.filter(a => a.threadId !== meta.threadId);
+        if (meta?.type === 'activate') activeThreadId = meta.threadId;
+        if (!meta && anchors === value.anchors) return value;
+        return { anchors, activeThreadId, decorations: decorate(tr.doc, anchors, activeThreadId) };
+      },
+    },
+    props: {
+      decorations: state => commentAnchorsKey.getState(state)?.decorations,
+    },
+  });
+}
+
+export const getCommentAnchors = (state: EditorState): CommentAnchor[] => commentAnchorsKey.getState(state)?.anchors ?? [];
+
+/** The open thread whose text contains `pos` (the innermost one when anchors overlap). */
+export function threadAt(state: EditorState, pos: number): string | null {
+  const hit = getCommentAnchors(state)
+    .filter(anchor => !anchor.resolved && anchor.to > anchor.from && anchor.from <= pos && pos <= anchor.to)
+    .sort((a, b) => (a.to - a.from) - (b.to - b.from))[0];
+  return hit?.threadId ?? null;
+}
@@ -0,0 +1,41 @@
+import { Extension } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import { Suggestion, SuggestionOptions } from '@tiptap/suggestion';
+import type { LibraryClause } from '@/types/clauseLibrary';
+
+export interface ClauseSlashCommandOptions {
+  // Where the clauses come from and how the menu is shown; the editor component supplies both
+  suggestion: Omit<SuggestionOptions<LibraryClause, LibraryClause>, 'editor'>;
+}
+
+export const clauseSlashCommandKey = new PluginKey('clauseSlashCommand');
+
+/**
+ * Typing "/" followed by a word searches the clause library; picking a clause replaces the
+ * "/query" with the clause's content, its variable marks intact.
+ */
+export const ClauseSlashCommand = Extension.create<ClauseSlashCommandOptions>({
+  name: 'clauseSlashCommand',
+
+  addOptions() {
+    return {
+      suggestion: {
+        char: '/',
+        pluginKey: clauseSlashCommandKey,
+        allow: ({ editor }) => editor.isEditable,
+        command: ({ editor, range, props: clause }) => {
+          editor.chain().focus().deleteRange(range).insertContent(clause.content).run();
+        },
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+      }),
+    ];
+  },
+});
@@ -0,0 +1,95 @@
+import { Editor, Extension, Mark, getHTMLFromFragment, mergeAttributes } from '@tiptap/core';
+import type { Transaction } from '@tiptap/pm/state';
+import {
+  commentAnchorsKey,
+  commentAnchorsPlugin,
+  getCommentAnchors,
+  type CommentAnchor,
+  type CommentAnchorsMeta,
+} from '../commentAnchors';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    commentAnchors: {
+      /**
+       * Replace all anchors, e.g. with the threads loaded for the document
+       */
+      setCommentAnchors: (anchors: CommentAnchor[]) => ReturnType;
+      /**
+       * Add an anchor, or update the one for its thread
+       */
+      upsertCommentAnchor: (anchor: CommentAnchor) => ReturnType;
+      removeCommentAnchor: (threadId: string) => ReturnType;
+      /**
+       * Emphasise one thread's anchor, or none
+       */
+      setActiveCommentThread: (threadId: string | null) => ReturnType;
+    };
+  }
+}
+
+// Only used to write anchors into exported HTML (see getHTMLWithCommentRanges). It isn't parsed,
+// so comment spans never come back into the editor's content.
+export const CommentRange = Mark.create({
+  name: 'commentRange',
+  excludes: '', // Overlapping comments each keep their own span
+  inclusive: false,
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        renderHTML: (attributes: Record<string, unknown>) => ({ 'data-comment-thread': attributes.threadId }),
+      },
+    };
+  },
+  parseHTML() {
+    return [];
+  },
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes), 0];
+  },
+});
+
+/**
+ * Comment anchors for the editor: positions kept in plugin state and mapped through every edit,
+ * highlighted unless their thread is resolved.
+ */
+export const CommentAnchors = Extension.create({
+  name: 'commentAnchors',
+
+  addExtensions() {
+    return [CommentRange];
+  },
+
+  addCommands() {
+    // Anchor changes aren't edits: they don't mark the document changed or go on the undo stack
+    const withMeta = (meta: CommentAnchorsMeta) => ({ tr, dispatch }: { tr: Transaction; dispatch?: unknown }) => {
+      if (dispatch) tr.setMeta(commentAnchorsKey, meta).setMeta('addToHistory', false);
+      return true;
+    };
+    return {
+      setCommentAnchors: (anchors) => withMeta({ type: 'set', anchors }),
+      upsertCommentAnchor: (anchor) => withMeta({ type: 'upsert', anchor }),
+      removeCommentAnchor: (threadId) => withMeta({ type: 'remove', threadId }),
+      setActiveCommentThread: (threadId) => withMeta({ type: 'activate', threadId }),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [commentAnchorsPlugin()];
+  },
+});
+
+/**
+ * The editor's HTML with the given threads' anchored text wrapped in
+ * <span data-comment-thread="id">, for exports that carry comments.
+ */
+export function getHTMLWithCommentRanges(editor: Editor, threadIds: string[]): string {
+  const type = editor.schema.marks.commentRange;
+  if (!type) return editor.getHTML();
+  const tr = editor.state.tr;
+  getCommentAnchors(editor.state)
+    .filter(anchor => threadIds.includes(anchor.threadId) && anchor.to > anchor.from)
+    .forEach(anchor => tr.addMark(anchor.from, anchor.to, type.create({ threadId: anchor.threadId })));
+  return getHTMLFromFragment(tr.doc.content, editor.schema);
+}
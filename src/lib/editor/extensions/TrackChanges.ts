@@ -0,0 +1,152 @@
+import { Extension, Mark, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey, type Transaction } from '@tiptap/pm/state';
+import {
+  DELETION_MARK,
+  INSERTION_MARK,
+  newChangeId,
+  resolveChanges,
+  trackTransactions,
+  trackChangesMetaKey,
+  type TrackChangesMeta,
+} from '../trackChanges';
+
+export interface TrackChangesOptions {
+  enabled: boolean;
+  author: string;
+}
+
+export interface TrackChangesStorage {
+  enabled: boolean;
+  author: string;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    trackChanges: {
+      /**
+       * Turn suggest mode on or off
+       */
+      setTrackChanges: (enabled: boolean) => ReturnType;
+      /**
+       * Set the author recorded on new changes
+       */
+      setTrackChangesAuthor: (author: string) => ReturnType;
+      /**
+       * Accept or reject one change by id
+       */
+      acceptChange: (changeId: string) => ReturnType;
+      rejectChange: (changeId: string) => ReturnType;
+      /**
+       * Accept or reject every change in the document
+       */
+      acceptAllChanges: () => ReturnType;
+      rejectAllChanges: () => ReturnType;
+    };
+  }
+}
+
+// Shared by both marks: who made the change and when, kept in the HTML so saved documents and
+// DOCX exports carry them
+const changeAttributes = () => ({
+  changeId: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-change-id') || newChangeId(),
+    renderHTML: (attributes: Record<string, unknown>) => ({ 'data-change-id': attributes.changeId }),
+  },
+  author: {
+    default: '',
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-author') || '',
+    renderHTML: (attributes: Record<string, unknown>) => ({ 'data-author': attributes.author }),
+  },
+  date: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-date'),
+    renderHTML: (attributes: Record<string, unknown>) => (attributes.date ? { 'data-date': attributes.date } : {}),
+  },
+});
+
+const changeTitle = (verb: string, attributes: Record<string, unknown>) =>
+  `${verb} by ${attributes.author || 'unknown'}${attributes.date ? ` on ${new Date(String(attributes.date)).toLocaleString()}` : ''}`;
+
+export const Insertion = Mark.create({
+  name: INSERTION_MARK,
+  inclusive: false,
+  addAttributes: changeAttributes,
+  parseHTML() {
+    return [{ tag: 'ins' }];
+  },
+  renderHTML({ HTMLAttributes, mark }) {
+    return ['ins', mergeAttributes(HTMLAttributes, { class: 'tracked-insertion', title: changeTitle('Inserted', mark.attrs) }), 0];
+  },
+});
+
+export const Deletion = Mark.create({
+  name: DELETION_MARK,
+  inclusive: false,
+  addAttributes: changeAttributes,
+  parseHTML() {
+    return [{ tag: 'del' }];
+  },
+  renderHTML({ HTMLAttributes, mark }) {
+    return ['del', mergeAttributes(HTMLAttributes, { class: 'tracked-deletion', title: changeTitle('Deleted', mark.attrs) }), 0];
+  },
+});
+
+const trackChangesPluginKey = new PluginKey('trackChanges');
+
+/**
+ * Suggest mode for the editor. While enabled, typing and deleting are recorded as insertion and
+ * deletion marks for the current author instead of changing the text; transactions carrying
+ * { author } under the trackChanges meta are recorded regardless (AI rewrites).
+ */
+export const TrackChanges = Extension.create<TrackChangesOptions, TrackChangesStorage>({
+  name: 'trackChanges',
+
+  addOptions() {
+    return { enabled: false, author: 'Reviewer' };
+  },
+
+  addStorage() {
+    return { enabled: this.options.enabled, author: this.options.author };
+  },
+
+  addExtensions() {
+    return [Insertion, Deletion];
+  },
+
+  addCommands() {
+    const resolve = (accept: boolean, changeIds?: string[]) => ({ tr }: { tr: Transaction }) => {
+      resolveChanges(tr, accept, changeIds);
+      return tr.docChanged;
+    };
+    return {
+      // The transaction changes nothing, but dispatching it re-renders the toolbar
+      setTrackChanges: (enabled) => ({ tr, dispatch }) => {
+        if (dispatch) {
+          this.storage.enabled = enabled;
+          tr.setMeta(trackChangesMetaKey, { skip: true } satisfies TrackChangesMeta);
+        }
+        return true;
+      },
+      setTrackChangesAuthor: (author) => ({ dispatch }) => {
+        if (dispatch) this.storage.author = author;
+        return true;
+      },
+      acceptChange: (changeId) => resolve(true, [changeId]),
+      rejectChange: (changeId) => resolve(false, [changeId]),
+      acceptAllChanges: () => resolve(true),
+      rejectAllChanges: () => resolve(false),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    return [
+      new Plugin({
+        key: trackChangesPluginKey,
+        appendTransaction: (transactions, oldState, newState) =>
+          trackTransactions(transactions, oldState, newState, { enabled: storage.enabled, author: storage.author }),
+      }),
+    ];
+  },
+});
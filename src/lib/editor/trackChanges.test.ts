@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'vitest';
+import { Schema } from '@tiptap/pm/model';
+import { EditorState, TextSelection, type Transaction } from '@tiptap/pm/state';
+import { collectChanges, resolveChanges, trackChangesMetaKey, trackTransactions } from './trackChanges';
+
+const changeMark = (tag: string) => ({
+  attrs: { changeId: { default: null }, author: { default: '' }, date: { default: null } },
+  inclusive: false,
+  toDOM: () => [tag, 0] as const,
+});
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'paragraph+' },
+    paragraph: { content: 'text*', toDOM: () => ['p', 0] },
+    text: {},
+  },
+  marks: { insertion: changeMark('ins'), deletion: changeMark('del') },
+});
+
+const docOf = (...paragraphs: string[]) =>
+  schema.node('doc', null, paragraphs.map(text => schema.node('paragraph', null, text ? [schema.text(text)] : [])));
+
+// Applies an edit the way the editor does: the transaction, then whatever the plugin appends
+function edit(state: EditorState, build: (tr: Transaction) => Transaction, options = { enabled: true, author: 'Dana' }): EditorState {
+  const tr = build(state.tr);
+  const next = state.apply(tr);
+  const appended = trackTransactions([tr], state, next, options);
+  return appended ? next.apply(appended) : next;
+}
+
+// Paragraph text with changes shown as [+inserted+] and [-deleted-]
+function render(state: EditorState): string {
+  const paragraphs: string[] = [];
+  state.doc.forEach(paragraph => {
+    let text = '';
+    paragraph.forEach(node => {
+      const marks = node.marks.map(mark => mark.type.name);
+      text += marks.includes('deletion') ? `[-${node.text}-]` : marks.includes('insertion') ? `[+${node.text}+]` : node.text;
+    });
+    paragraphs.push(text);
+  });
+  return paragraphs.join(' | ');
+}
+
+describe('tracked changes', () => {
+  const start = () => EditorState.create({ schema, doc: docOf('The fee is due') });
+
+  test('records typing as one insertion per author and keeps deleted text marked', () => {
+    let state = start();
+    state = edit(state, tr => tr.insertText(' n', 15));
+    state = edit(state, tr => tr.insertText('ow', 17));
+    state = edit(state, tr => tr.delete(5, 9));
+    expect(render(state)).toBe('The [-fee -]is due[+ now+]');
+    const changes = collectChanges(state.doc);
+    expect(changes.map(c => [c.kind, c.text, c.author])).toEqual([['deletion', 'fee ', 'Dana'], ['insertion', ' now', 'Dana']]);
+  });
+
+  test('backspacing moves over deleted text and really removes your own insertions', () => {
+    let state = start();
+    state = edit(state, tr => tr.insertText('!', 15));
+    state = edit(state, tr => tr.setSelection(TextSelection.create(tr.doc, 16)));
+    state = edit(state, tr => tr.delete(15, 16));
+    expect(render(state)).toBe('The fee is due');
+
+    state = edit(state, tr => tr.delete(14, 15));
+    expect(state.selection.head).toBe(14);
+    state = edit(state, tr => tr.delete(13, 14));
+    expect(render(state)).toBe('The fee is d[-ue-]');
+    expect(collectChanges(state.doc)).toHaveLength(1);
+  });
+
+  test('puts replaced text before its replacement', () => {
+    // Typing over a selection
+    const state = edit(start(), tr => tr.setSelection(TextSelection.create(tr.doc, 12, 15)).insertText('payable'));
+    expect(render(state)).toBe('The fee is [-due-][+payable+]');
+    expect(state.selection.head).toBe(state.doc.content.size - 1);
+  });
+
+  test('only tracks when suggest mode is on or the edit names an author', () => {
+    const off = { enabled: false, author: 'Dana' };
+    expect(render(edit(start(), tr => tr.insertText(' now', 15), off))).toBe('The fee is due now');
+    const rewritten = edit(start(), tr => tr.insertText('owed', 12, 15).setMeta(trackChangesMetaKey, { author: 'Assistant' }), off);
+    expect(render(rewritten)).toBe('The fee is [-due-][+owed+]');
+    expect(new Set(collectChanges(rewritten.doc).map(c => c.author))).toEqual(new Set(['Assistant']));
+    expect(render(edit(start(), tr => tr.insertText(' now', 15).setMeta(trackChangesMetaKey, { skip: true })))).toBe('The fee is due now');
+  });
+
+  test('accepts and rejects changes one at a time or all together', () => {
+    let state = edit(start(), tr => tr.insertText('payable', 12, 15));
+    state = edit(state, tr => tr.insertText('Our ', 1));
+    const [ours, deleted] = collectChanges(state.doc);
+    expect(ours.text).toBe('Our ');
+
+    const rejectedOne = state.apply(resolveChanges(state.tr, false, [ours.changeId]));
+    expect(render(rejectedOne)).toBe('The fee is [-due-][+payable+]');
+    const acceptedOne = state.apply(resolveChanges(state.tr, true, [deleted.changeId]));
+    expect(render(acceptedOne)).toBe('[+Our +]The fee is [+payable+]');
+    expect(render(state.apply(resolveChanges(state.tr, true)))).toBe('Our The fee is payable');
+    expect(render(state.apply(resolveChanges(state.tr, false)))).toBe('The fee is due');
+  });
+
+  test('restores paragraphs when a deletion spans them', () => {
+    const state = edit(EditorState.create({ schema, doc: docOf('First clause', 'Second clause') }), tr => tr.delete(7, 22));
+    expect(render(state)).toBe('First [-clause-] | [-Second -]clause');
+  });
+});
@@ -0,0 +1,208 @@
+import { Fragment, Mark, MarkType, Node as PMNode, Schema, Slice } from '@tiptap/pm/model';
+import { EditorState, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Mapping, ReplaceStep } from '@tiptap/pm/transform';
+
+// Suggest mode: instead of changing the document, edits are recorded as insertion and deletion
+// marks (rendered as <ins>/<del> with data-change-id, data-author and data-date) that can be
+// accepted or rejected later, and that generate-docx exports as Word revisions.
+
+export const INSERTION_MARK = 'insertion';
+export const DELETION_MARK = 'deletion';
+export const ASSISTANT_AUTHOR = 'Benchwise Assistant';
+
+// Transaction meta, under trackChangesMetaKey
+export const trackChangesMetaKey = 'trackChanges';
+export interface TrackChangesMeta {
+  skip?: boolean; // Apply as a plain edit (loading content, accepting/rejecting changes)
+  author?: string; // Record under this author even when suggest mode is off, e.g. AI rewrites
+}
+
+export type ChangeKind = 'insertion' | 'deletion';
+
+export interface ChangeAttributes {
+  changeId: string;
+  author: string;
+  date: string; // ISO 8601
+}
+
+export interface TrackedChange extends ChangeAttributes {
+  kind: ChangeKind;
+  from: number;
+  to: number;
+  text: string;
+}
+
+export const newChangeId = () => `change-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const markTypes = (schema: Schema) => ({
+  insertion: schema.marks[INSERTION_MARK] as MarkType | undefined,
+  deletion: schema.marks[DELETION_MARK] as MarkType | undefined,
+});
+
+// A change by the same author and of the same kind right next to a position, so that typing or
+// backspacing a word extends one change rather than recording one per keystroke
+function adjacentChange(doc: PMNode, pos: number, side: 'before' | 'after', type: MarkType, author: string): ChangeAttributes | null {
+  const $pos = doc.resolve(pos);
+  const node = side === 'before' ? $pos.nodeBefore : $pos.nodeAfter;
+  const mark = node?.marks.find(m => m.type === type && m.attrs.author === author);
+  return mark ? (mark.attrs as ChangeAttributes) : null;
+}
+
+// Marks deleted content as deleted. Text the same author inserted is simply dropped (retyping
+// your own suggestion isn't a change); text already marked deleted stays as it is.
+function markDeleted(fragment: Fragment, deletion: Mark, insertion: MarkType): Fragment {
+  const nodes: PMNode[] = [];
+  fragment.forEach(node => {
+    if (node.isInline) {
+      const inserted = node.marks.find(m => m.type === insertion);
+      if (inserted && inserted.attrs.author === deletion.attrs.author) return;
+      nodes.push(deletion.type.isInSet(node.marks) ? node : node.mark(deletion.addToSet(node.marks)));
+    } else {
+      nodes.push(node.copy(markDeleted(node.content, deletion, insertion)));
+    }
+  });
+  return Fragment.fromArray(nodes);
+}
+
+const hasText = (fragment: Fragment) => {
+  let found = false;
+  fragment.descendants(node => {
+    if (node.isInline) found = true;
+    return !found;
+  });
+  return found;
+};
+
+interface PendingChange {
+  from: number; // Start of the inserted content in the new document (where deleted content goes back)
+  to: number; // End of the inserted content
+  deleted: Slice | null;
+  author: string;
+  backspace: boolean; // Cursor goes before re-inserted deleted text rather than after it
+}
+
+/**
+ * The follow-up transaction (for appendTransaction) that turns the edits in `transactions` into
+ * tracked changes: inserted content gets an insertion mark and deleted content is put back with
+ * a deletion mark. Returns null when nothing needs recording.
+ */
+export function trackTransactions(
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  options: { enabled: boolean; author: string },
+): Transaction | null {
+  const { insertion, deletion } = markTypes(newState.schema);
+  if (!insertion || !deletion) return null;
+
+  const pending: PendingChange[] = [];
+  transactions.forEach((transaction, t) => {
+    const meta = transaction.getMeta(trackChangesMetaKey) as TrackChangesMeta | undefined;
+    // Undo and redo (prosemirror-history's meta) restore earlier states exactly
+    if (!transaction.docChanged || meta?.skip || transaction.getMeta('history$')) return;
+    if (!options.enabled && !meta?.author) return;
+    const author = meta?.author ?? options.author;
+
+    // Positions are mapped through everything that happened after each step
+    const later = transactions.slice(t + 1).flatMap(next => next.mapping.maps);
+    transaction.steps.forEach((step, i) => {
+      if (!(step instanceof ReplaceStep)) return; // Mark and structure-only steps aren't tracked
+      const before = transaction.docs[i];
+      const { from, to, slice } = step;
+      // Replacing the whole document is loading content, not editing it
+      if (from === 0 && to === before.content.size) return;
+
+      const rest = new Mapping([...transaction.mapping.maps.slice(i + 1), ...later]);
+      pending.push({
+        from: rest.map(from, 1),
+        to: Math.max(rest.map(from, 1), rest.map(from + slice.size, -1)),
+        deleted: to > from ? before.slice(from, to) : null,
+        author,
+        backspace: slice.size === 0 && oldState.selection.head > from,
+      });
+    });
+  });
+  if (pending.length === 0) return null;
+
+  const tr = newState.tr;
+  const date = new Date().toISOString();
+  let cursor: number | null = null;
+  for (const change of pending) {
+    const from = tr.mapping.map(change.from, 1);
+    const to = Math.max(from, tr.mapping.map(change.to, -1));
+
+    if (to > from) {
+      const attributes = adjacentChange(tr.doc, from, 'before', insertion, change.author)
+        ?? adjacentChange(tr.doc, to, 'after', insertion, change.author)
+        ?? { changeId: newChangeId(), author: change.author, date };
+      tr.removeMark(from, to, deletion);
+      tr.addMark(from, to, insertion.create(attributes));
+    }
+
+    if (change.deleted) {
+      const attributes = adjacentChange(tr.doc, from, 'before', deletion, change.author)
+        ?? adjacentChange(tr.doc, from, 'after', deletion, change.author)
+        ?? { changeId: newChangeId(), author: change.author, date };
+      const content = markDeleted(change.deleted.content, deletion.create(attributes), insertion);
+      if (hasText(content)) {
+        const restored = new Slice(content, change.deleted.openStart, change.deleted.openEnd);
+        const size = tr.doc.content.size;
+        tr.replace(from, from, restored);
+        // A pure deletion leaves the cursor where the user expects it; replacements end after the new text
+        if (to === from) cursor = change.backspace ? from : from + (tr.doc.content.size - size);
+      }
+    }
+  }
+  if (!tr.docChanged) return null;
+
+  if (cursor !== null && pending.length === 1) {
+    tr.setSelection(TextSelection.near(tr.doc.resolve(Math.min(cursor, tr.doc.content.size))));
+  }
+  return tr.setMeta(trackChangesMetaKey, { skip: true } satisfies TrackChangesMeta);
+}
+
+/** Every tracked change in the document, in order, with consecutive runs of one change merged. */
+export function collectChanges(doc: PMNode): TrackedChange[] {
+  const changes: TrackedChange[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return true;
+    for (const mark of node.marks) {
+      if (mark.type.name !== INSERTION_MARK && mark.type.name !== DELETION_MARK) continue;
+      const kind = mark.type.name as ChangeKind;
+      const text = node.isText ? node.text ?? '' : ' ';
+      const previous = changes.find(change => change.kind === kind && change.changeId === mark.attrs.changeId && change.to === pos);
+      if (previous) {
+        previous.to = pos + node.nodeSize;
+        previous.text += text;
+      } else {
+        changes.push({ kind, changeId: mark.attrs.changeId, author: mark.attrs.author, date: mark.attrs.date, from: pos, to: pos + node.nodeSize, text });
+      }
+    }
+    return false;
+  });
+  return changes.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Adds to `tr` the steps that accept or reject changes (all of them, or those with the given
+ * ids). Accepting keeps insertions and removes deletions; rejecting does the opposite.
+ */
+export function resolveChanges(tr: Transaction, accept: boolean, changeIds?: string[]): Transaction {
+  const { insertion, deletion } = markTypes(tr.doc.type.schema);
+  tr.setMeta(trackChangesMetaKey, { skip: true } satisfies TrackChangesMeta);
+  const selected = collectChanges(tr.doc).filter(change => !changeIds || changeIds.includes(change.changeId));
+  const removals: { from: number; to: number }[] = [];
+
+  for (const change of selected) {
+    const keep = (change.kind === 'insertion') === accept;
+    if (keep) {
+      const type = change.kind === 'insertion' ? insertion : deletion;
+      if (type) tr.removeMark(change.from, change.to, type);
+    } else {
+      removals.push(change);
+    }
+  }
+  // Removing from the end keeps the earlier positions valid
+  removals.sort((a, b) => b.from - a.from).forEach(({ from, to }) => tr.delete(from, to));
+  return tr;
+}
@@ -1,5 +1,6 @@
 import { supabase, isAuthenticated } from './supabaseClient';
 import { Case } from '@/types/case'; // Import the Case type
+import { CaseRole } from '@/types/membership';
 
 /**
  * SecureDataClient provides utilities for safely accessing data 
@@ -50,6 +51,7 @@ interface RawCaseData {
   created_at: string;
   updated_at: string;
   owner_id: string;
+  organization_id: string | null;
   // Added back columns confirmed to exist in DB
   client_name: string | null;
   opposing_party: string | null;
@@ -63,7 +65,8 @@ interface RawCaseData {
  */
 // Helper function to format case data
 // Return full Case[] and map all fields
-function formatCases(cases: RawCaseData[]): Case[] { 
+// memberRoles holds the user's role on cases they were invited to; cases.owner_id marks the ones they own
+function formatCases(cases: RawCaseData[], userId: string, memberRoles: Map<string, CaseRole> = new Map()): Case[] { 
   return cases.map(caseData => ({
     id: caseData.id,
     name: caseData.name, // Use name directly
@@ -77,6 +80,8 @@ function formatCases(cases: RawCaseData[]): Case[] {
     case_number: caseData.case_number, 
     court: caseData.court,
     documentCount: 0, // Initialize count, actual count needs separate query if desired
+    organizationId: caseData.organization_id,
+    role: caseData.owner_id === userId ? 'owner' : memberRoles.get(caseData.id) ?? 'client',
   }));
 }
 
@@ -107,6 +112,23 @@ export const fetchCasesSafely = async (): Promise<{ data: Case[], error: Error |
     }
     */
     
+    // Cases the user was invited to, besides the ones they own
+    const { data: memberships, error: membershipError } = await supabase
+      .from('case_collaborators')
+      .select('case_id, role')
+      .eq('user_id', user.id)
+      .or('role.is.null,role.neq.owner');
+    if (membershipError) {
+      console.error('Error fetching case memberships:', membershipError);
+    }
+    const memberRoles = new Map<string, CaseRole>(
+      // Rows from before roles were introduced get the least-privileged role
+      (memberships || []).map(m => [m.case_id as string, (m.role ?? 'client') as CaseRole])
+    );
+    const ownerOrMember = memberRoles.size > 0
+      ? `owner_id.eq.${user.id},id.in.(${[...memberRoles.keys()].join(',')})`
+      : `owner_id.eq.${user.id}`;
+
     // Query specifically for the fields needed by RawCaseData/Case
     console.log('Executing query to cases table for user cases');
     try {
@@ -114,8 +136,8 @@ export const fetchCasesSafely = async (): Promise<{ data: Case[], error: Error |
         .from('cases')
         // Corrected select syntax: provide columns as a comma-separated string
         // Added back columns confirmed to exist in DB
-        .select<string, RawCaseData>('id, name, description, status, created_at, updated_at, owner_id, client_name, opposing_party, case_number, court')
-        .eq('owner_id', user.id); // Filter by owner_id directly in the query
+        .select<string, RawCaseData>('id, name, description, status, created_at, updated_at, owner_id, organization_id, client_name, opposing_party, case_number, court')
+        .or(ownerOrMember);
 
       console.log('Query executed, result:', JSON.stringify({ data: data?.length || 0, error }));
 
@@ -131,13 +153,13 @@ export const fetchCasesSafely = async (): Promise<{ data: Case[], error: Error |
         return { data: [], error: null };
       }
       
-      // No longer need client-side filtering as owner_id is in the query
+      // No longer need client-side filtering as owner_id and membership are in the query
       // console.log('Filtering cases for user:', user.id);
       // const userCases = data.filter(c => String(c.owner_id) === String(user.id));
       // console.log('User cases found:', userCases.length);
       
       return {
-        data: formatCases(data), // Pass the directly fetched data
+        data: formatCases(data, user.id, memberRoles), // Pass the directly fetched data
         error: null
       };
     } catch (error) {
@@ -16,7 +16,7 @@ import * as templateService from '../services/templateService';
 import { NavigateFunction } from 'react-router-dom';
 import type { BackgroundTask } from '@/atoms/appAtoms';
 import { TaskStatus } from '@/atoms/appAtoms';
-import { PerplexitySource } from '@/types/sources'; 
+import { PerplexitySource, DocumentCitationSource } from '@/types/sources'; 
 import { v4 as uuidv4 } from 'uuid'; 
 
 // Define type for the params object including new fields
@@ -36,7 +36,7 @@ export type DispatcherResponse = {
   action?: 'show_template_modal'; 
   templateId?: string; 
   newConversationId?: string; 
-  sources?: PerplexitySource[]; 
+  sources?: (PerplexitySource | DocumentCitationSource)[]; 
   // Add other potential action types and data as needed
 };
 
@@ -131,9 +131,9 @@ export async function handleUserTurn({
 
     // Handle /research command
     if (task?.type === 'research') {
-      // Route to RAG handler (pass caseId if relevant later)
+      // Route to RAG handler; with an active case the answer is grounded in that case's documents
       try {
-        return await handleResearchQueryStream(task.query, onChunk);
+        return await handleResearchQueryStream(task.query, onChunk, caseId);
       } catch (error) {
         onChunk(`Error during research: ${error instanceof Error ? error.message : 'Unknown error'}`);
         return { success: false, error: error instanceof Error ? error : new Error('Research failed') };
@@ -256,45 +256,16 @@ export async function handleUserTurn({
              return { success: false, error: new Error('At least two document IDs are required for /agent compare.') };
           }
           const docIdsToCompare = task.docIds;
-          
-          // Fetch contexts for all documents
-          const documentContextPromises = docIdsToCompare.map(docId => 
-            analyzeDocument({ 
-              documentId: docId, 
-              analysisType: 'document_context', 
-              addTask,
-              updateTask,
-              removeTask
-            }).catch(e => {
-              console.warn(`Could not get context for doc ${docId} in comparison:`, e);
-              return null; // Or handle error appropriately
-            })
-          );
-          
-          const documentContextResults = await Promise.all(documentContextPromises);
-          
-          // Extract context strings from results and filter out nulls
-          const validContexts = documentContextResults
-            .map(result => {
-              if (!result) return null;
-              return typeof result === 'string' ? result : result.data?.context;
-            })
-            .filter((ctx): ctx is string => ctx !== null);
-            
-          if (validContexts.length < 2) {
-             onChunk('Error: Could not load context for at least two documents.');
-             return { success: false, error: new Error('Could not load context for at least two documents.') };
-          }
 
           if (taskId) {
-            addTask({ id: taskId, status: 'running', description: `Comparing ${docIdsToCompare.length} documents...` });
+            addTask({ id: taskId, status: 'running', description: `Comparing ${docIdsToCompare.length} drafts...` });
           }
-          
+
+          // The IDs go in draft order, oldest first, so the comparison can follow each clause across drafts
           return await handleAgentCompareStream(
-            docIdsToCompare, // Pass the original IDs
-            onChunk, // Pass onChunk function correctly
+            onChunk,
             caseId,
-            validContexts.join('\n\n---\n\n'), // Concatenate contexts
+            docIdsToCompare,
             docAnalysisContext, // Pass analysisContext from the current document
             taskId,
             updateTask,
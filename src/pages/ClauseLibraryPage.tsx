@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Library, Plus, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { Spinner } from '@/components/ui/Spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ClauseForm from '@/components/clauseLibrary/ClauseForm';
+import useDebounce from '@/hooks/useDebounce';
+import { deleteClause, searchClauses } from '@/services/clauseLibraryService';
+import { ClauseApprovalStatus, LibraryClause } from '@/types/clauseLibrary';
+import { cn } from '@/lib/utils';
+
+const ALL = 'all';
+
+const statusVariants: Record<ClauseApprovalStatus, 'success' | 'warning' | 'secondary'> = {
+  approved: 'success',
+  draft: 'warning',
+  deprecated: 'secondary',
+};
+
+const distinct = (values: string[]) => [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * The clause library: reusable clauses, searchable by wording and filtered by category,
+ * jurisdiction and approval status. Clauses are inserted into documents with the editor's "/" menu.
+ */
+const ClauseLibraryPage: React.FC = () => {
+  const [clauses, setClauses] = useState<LibraryClause[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState(ALL);
+  const [jurisdiction, setJurisdiction] = useState(ALL);
+  const [status, setStatus] = useState<ClauseApprovalStatus | typeof ALL>(ALL);
+  // Categories and jurisdictions offered as filters, from the whole library
+  const [facets, setFacets] = useState<{ categories: string[]; jurisdictions: string[] }>({ categories: [], jurisdictions: [] });
+  // The clause being edited: an id, 'new', or null for none
+  const [selected, setSelected] = useState<string | null>(null);
+  const debouncedQuery = useDebounce(query, 300);
+
+  useEffect(() => {
+    const loadFacets = async () => {
+      const { data } = await searchClauses({ limit: 500 });
+      setFacets({
+        categories: distinct((data || []).map(clause => clause.category)),
+        jurisdictions: distinct((data || []).map(clause => clause.jurisdiction)),
+      });
+    };
+    loadFacets();
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const { data, error } = await searchClauses({
+        query: debouncedQuery,
+        category: category === ALL ? undefined : category,
+        jurisdiction: jurisdiction === ALL ? undefined : jurisdiction,
+        approvalStatus: status === ALL ? undefined : status,
+      });
+      if (error) toast.error(`Failed to load clauses: ${error.message}`);
+      setClauses(data || []);
+      setIsLoading(false);
+    };
+    load();
+  }, [debouncedQuery, category, jurisdiction, status]);
+
+  const selectedClause = useMemo(() => clauses.find(clause => clause.id === selected) ?? null, [clauses, selected]);
+
+  const handleSaved = (saved: LibraryClause) => {
+    setClauses(prev => [saved, ...prev.filter(clause => clause.id !== saved.id)]);
+    setFacets(prev => ({
+      categories: distinct([...prev.categories, saved.category]),
+      jurisdictions: distinct([...prev.jurisdictions, saved.jurisdiction]),
+    }));
+    setSelected(saved.id);
+  };
+
+  const handleDelete = async (clause: LibraryClause) => {
+    if (!window.confirm(`Delete the clause "${clause.title}" from the library?`)) return;
+    const { error } = await deleteClause(clause.id);
+    if (error) {
+      toast.error(`Failed to delete clause: ${error.message}`);
+      return;
+    }
+    setClauses(prev => prev.filter(existing => existing.id !== clause.id));
+    setSelected(null);
+    toast.success('Clause deleted.');
+  };
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center"><Library className="h-6 w-6 mr-2 text-primary" /> Clause Library</h1>
+          <p className="text-sm text-muted-foreground">Reusable clauses. Type "/" in a document to insert one.</p>
+        </div>
+        <Button onClick={() => setSelected('new')}>
+          <Plus className="h-4 w-4 mr-1.5" /> New clause
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <div className="relative flex-1 min-w-[16rem]">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search titles, wording and tags" className="pl-8" />
+        </div>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {facets.categories.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={jurisdiction} onValueChange={setJurisdiction}>
+          <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All jurisdictions</SelectItem>
+            {facets.jurisdictions.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={value => setStatus(value as ClauseApprovalStatus | typeof ALL)}>
+          <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any status</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="draft">Draft</SelectItem>
+            <SelectItem value="deprecated">Deprecated</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          {isLoading && <Spinner />}
+          {!isLoading && clauses.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {debouncedQuery || category !== ALL || jurisdiction !== ALL || status !== ALL
+                ? 'No clauses match.'
+                : 'No clauses yet. Create one here, or save a selection from the document reviewer.'}
+            </p>
+          )}
+          {!isLoading && clauses.map(clause => (
+            <button
+              key={clause.id}
+              onClick={() => setSelected(clause.id)}
+              className={cn(
+                'w-full text-left p-3 rounded-md border dark:border-slate-700 hover:bg-muted/50',
+                selected === clause.id && 'bg-muted dark:bg-slate-700/50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium text-sm truncate">{clause.title}</p>
+                <Badge variant={statusVariants[clause.approvalStatus]} size="xs">{clause.approvalStatus}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">{[clause.category, clause.jurisdiction].filter(Boolean).join(' · ') || 'Uncategorised'}</p>
+              {clause.tags.length > 0 && <p className="text-xs text-muted-foreground truncate">#{clause.tags.join(' #')}</p>}
+            </button>
+          ))}
+        </div>
+        <div className="md:col-span-2">
+          {selected ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{selectedClause ? `Edit ${selectedClause.title}` : 'New Clause'}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ClauseForm
+                  key={selected}
+                  clause={selectedClause}
+                  onSaved={handleSaved}
+                  onDelete={selectedClause ? () => handleDelete(selectedClause) : undefined}
+                />
+              </CardContent>
+            </Card>
+          ) : (
+            <p className="text-sm text-muted-foreground p-4">Select a clause to edit it, or create a new one.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClauseLibraryPage;
@@ -1,25 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { useAtomValue } from 'jotai';
 import { activeCaseIdAtom } from '@/atoms/appAtoms'; // Removed currentCaseDocumentsAtom as it's not used
 import { Document } from '@/types/document';
 import { Button } from '@/components/ui/Button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
-import { ArrowLeft, Columns, Info, FileText, RotateCcw } from 'lucide-react';
+import { ArrowLeft, ArrowDown, ArrowUp, Columns, Info, FileText, Plus, RotateCcw, X } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
 import DocumentComparisonView from '@/components/documents/DocumentComparisonView'; // Import the view component
+import VersionTimelineView from '@/components/documents/VersionTimelineView';
 import { Spinner } from '@/components/ui/Spinner';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/Alert";
 import { AlertTriangle } from 'lucide-react';
 import * as documentService from '@/services/documentService';
 
+interface DraftRow {
+  docId: string | null;
+  author: string;
+}
+
+const emptyDrafts = (): DraftRow[] => [{ docId: null, author: '' }, { docId: null, author: '' }];
+
 const DocumentComparisonPage: React.FC = () => {
   const { caseId } = useParams<{ caseId: string }>();
   // activeCaseIdAtom is read from Jotai but not directly used in this component's logic after useParams. Consider if needed.
   // const activeCaseAtomValue = useAtomValue(activeCaseIdAtom); 
   const [documents, setDocuments] = useState<documentService.DocumentMetadata[]>([]);
-  const [doc1Id, setDoc1Id] = useState<string | null>(null);
-  const [doc2Id, setDoc2Id] = useState<string | null>(null);
+  // Drafts to compare, oldest first; two are compared side by side, more as a clause timeline
+  // ?docs=a,b preselects drafts, e.g. from a command palette comparison
+  const [searchParams] = useSearchParams();
+  const [drafts, setDrafts] = useState<DraftRow[]>(() => {
+    const docIds = (searchParams.get('docs') || '').split(',').filter(Boolean);
+    return docIds.length >= 2 ? docIds.map(docId => ({ docId, author: '' })) : emptyDrafts();
+  });
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -49,17 +63,25 @@ const DocumentComparisonPage: React.FC = () => {
   }, [caseId]);
 
   const handleReset = () => {
-    setDoc1Id(null);
-    setDoc2Id(null);
+    setDrafts(emptyDrafts());
     setError(null); // Clear any existing errors as well
-    // The DocumentComparisonView component will unmount or its internal state will reset via its own useEffects
+    // The comparison views will unmount or their internal state will reset via their own useEffects
   };
 
-  const canCompare = doc1Id && doc2Id && doc1Id !== doc2Id;
+  const updateDraft = (index: number, update: Partial<DraftRow>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...update } : draft)));
+
+  const moveDraft = (index: number, offset: number) =>
+    setDrafts(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
 
-  console.log('[DocumentComparisonPage] doc1Id:', doc1Id);
-  console.log('[DocumentComparisonPage] doc2Id:', doc2Id);
-  console.log('[DocumentComparisonPage] canCompare:', canCompare);
+  const selectedIds = drafts.map(draft => draft.docId).filter((id): id is string => !!id);
+  const canCompare = selectedIds.length === drafts.length && new Set(selectedIds).size === drafts.length;
+
+  console.log('[DocumentComparisonPage] drafts:', drafts);
   console.log('[DocumentComparisonPage] caseId from params:', caseId);
   console.log('[DocumentComparisonPage] documents state:', documents);
 
@@ -84,7 +106,7 @@ const DocumentComparisonPage: React.FC = () => {
 
       <Card className="mb-6">
         <CardHeader>
-          <CardTitle>Select Documents to Compare</CardTitle>
+          <CardTitle>Select Drafts to Compare</CardTitle>
         </CardHeader>
         <CardContent>
           {isLoading && <div className="text-center p-4"><Spinner /> <p>Loading documents...</p></div>}
@@ -99,46 +121,58 @@ const DocumentComparisonPage: React.FC = () => {
              <p className="text-muted-foreground text-center p-4">No documents found for this case, or case ID is missing.</p>
           )}
           {!isLoading && !error && documents.length > 0 && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
-              <div>
-                <label htmlFor="doc1-select" className="block text-sm font-medium text-muted-foreground mb-1">Document 1</label>
-                <Select onValueChange={(value) => setDoc1Id(value === '__none__' ? null : value)} value={doc1Id ?? '__none__'}>
-                  <SelectTrigger id="doc1-select">
-                    <SelectValue placeholder="Select document 1..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="__none__" disabled>Select document 1...</SelectItem>
-                    {documents.map((doc) => (
-                      <SelectItem key={`doc1-${doc.id}`} value={doc.id} disabled={doc.id === doc2Id}>
-                        <div className="flex items-center">
-                          <FileText className="h-4 w-4 mr-2 opacity-60 flex-shrink-0" />
-                          <span className="truncate flex-grow">{doc.filename}</span>
-                          {doc.fileType && <span className="text-xs text-muted-foreground ml-2 opacity-80">{doc.fileType.toUpperCase()}</span>}
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <label htmlFor="doc2-select" className="block text-sm font-medium text-muted-foreground mb-1">Document 2</label>
-                <Select onValueChange={(value) => setDoc2Id(value === '__none__' ? null : value)} value={doc2Id ?? '__none__'}>
-                  <SelectTrigger id="doc2-select">
-                    <SelectValue placeholder="Select document 2..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                     <SelectItem value="__none__" disabled>Select document 2...</SelectItem>
-                    {documents.map((doc) => (
-                      <SelectItem key={`doc2-${doc.id}`} value={doc.id} disabled={doc.id === doc1Id}>
-                        <div className="flex items-center">
-                          <FileText className="h-4 w-4 mr-2 opacity-60 flex-shrink-0" />
-                          <span className="truncate flex-grow">{doc.filename}</span>
-                          {doc.fileType && <span className="text-xs text-muted-foreground ml-2 opacity-80">{doc.fileType.toUpperCase()}</span>}
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+            <div className="space-y-3">
+              {drafts.map((draft, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[6rem_1fr_14rem_auto] gap-2 items-center">
+                  <label htmlFor={`draft-${index}-select`} className="text-sm font-medium text-muted-foreground">
+                    {drafts.length === 2 ? `Document ${index + 1}` : `Draft ${index + 1}`}
+                  </label>
+                  <Select onValueChange={(value) => updateDraft(index, { docId: value === '__none__' ? null : value })} value={draft.docId ?? '__none__'}>
+                    <SelectTrigger id={`draft-${index}-select`}>
+                      <SelectValue placeholder={`Select draft ${index + 1}...`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__none__" disabled>Select draft {index + 1}...</SelectItem>
+                      {documents.map((doc) => (
+                        <SelectItem key={`draft-${index}-${doc.id}`} value={doc.id} disabled={doc.id !== draft.docId && selectedIds.includes(doc.id)}>
+                          <div className="flex items-center">
+                            <FileText className="h-4 w-4 mr-2 opacity-60 flex-shrink-0" />
+                            <span className="truncate flex-grow">{doc.filename}</span>
+                            {doc.fileType && <span className="text-xs text-muted-foreground ml-2 opacity-80">{doc.fileType.toUpperCase()}</span>}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={draft.author}
+                    onChange={(event) => updateDraft(index, { author: event.target.value })}
+                    placeholder="From (e.g. Counterparty)"
+                    aria-label={`Who produced draft ${index + 1}`}
+                  />
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => moveDraft(index, -1)} disabled={index === 0} title="Earlier draft">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => moveDraft(index, 1)} disabled={index === drafts.length - 1} title="Later draft">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))} disabled={drafts.length <= 2} title="Remove draft">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">List drafts oldest first. Three or more are compared as a clause-by-clause timeline.</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setDrafts(prev => [...prev, { docId: null, author: '' }])}
+                  disabled={drafts.length >= documents.length}
+                >
+                  <Plus className="mr-2 h-4 w-4" /> Add draft
+                </Button>
               </div>
             </div>
            )}
@@ -147,12 +181,14 @@ const DocumentComparisonPage: React.FC = () => {
 
       <div> 
         {canCompare && caseId ? (
-          <DocumentComparisonView doc1Id={doc1Id!} doc2Id={doc2Id!} caseId={caseId} />
+          drafts.length === 2
+            ? <DocumentComparisonView doc1Id={selectedIds[0]} doc2Id={selectedIds[1]} caseId={caseId} />
+            : <VersionTimelineView drafts={drafts.map(draft => ({ docId: draft.docId!, author: draft.author }))} />
         ) : (
           <div className="flex flex-col items-center justify-center h-full bg-muted/30 rounded-lg border border-dashed border-border p-6 text-center">
             <Info className="h-10 w-10 text-muted-foreground mb-3" />
-            <p className="text-lg font-semibold text-muted-foreground">Select Two Different Documents</p>
-            <p className="text-sm text-muted-foreground/80">Please use the dropdowns above to select two distinct documents from the case to begin the comparison.</p>
+            <p className="text-lg font-semibold text-muted-foreground">Select Different Documents</p>
+            <p className="text-sm text-muted-foreground/80">Please use the dropdowns above to select a distinct document for each draft to begin the comparison.</p>
             {!caseId && <p className="text-red-500 mt-2">Error: Case ID is missing from the URL.</p>}
           </div>
         )}
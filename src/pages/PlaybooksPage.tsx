@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { BookCheck, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Spinner } from '@/components/ui/Spinner';
+import PlaybookEditor from '@/components/playbooks/PlaybookEditor';
+import { deletePlaybook, getPlaybooks } from '@/services/playbookService';
+import { Playbook } from '@/types/playbook';
+import { cn } from '@/lib/utils';
+
+/**
+ * The firm's contract review playbooks: standard positions per contract type that documents are
+ * checked against from the reviewer's "Playbook Review" analysis.
+ */
+const PlaybooksPage: React.FC = () => {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  // The playbook being edited: an id, 'new', or null for none
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await getPlaybooks();
+      if (error) toast.error(`Failed to load playbooks: ${error.message}`);
+      setPlaybooks(data || []);
+      setIsLoading(false);
+    };
+    load();
+  }, []);
+
+  const selectedPlaybook = playbooks.find(playbook => playbook.id === selected) ?? null;
+
+  const handleSaved = (saved: Playbook) => {
+    setPlaybooks(prev => [...prev.filter(playbook => playbook.id !== saved.id), saved]
+      .sort((a, b) => a.contractType.localeCompare(b.contractType) || a.name.localeCompare(b.name)));
+    setSelected(saved.id);
+  };
+
+  const handleDelete = async (playbook: Playbook) => {
+    if (!window.confirm(`Delete the playbook "${playbook.name}"?`)) return;
+    const { error } = await deletePlaybook(playbook.id);
+    if (error) {
+      toast.error(`Failed to delete playbook: ${error.message}`);
+      return;
+    }
+    setPlaybooks(prev => prev.filter(existing => existing.id !== playbook.id));
+    setSelected(null);
+    toast.success('Playbook deleted.');
+  };
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 lg:p-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold flex items-center"><BookCheck className="h-6 w-6 mr-2 text-primary" /> Playbooks</h1>
+          <p className="text-sm text-muted-foreground">The firm's standard positions, used to review contracts clause by clause.</p>
+        </div>
+        <Button onClick={() => setSelected('new')}>
+          <Plus className="h-4 w-4 mr-1.5" /> New playbook
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          {isLoading && <Spinner />}
+          {!isLoading && playbooks.length === 0 && (
+            <p className="text-sm text-muted-foreground">No playbooks yet. Create one for each contract type you review.</p>
+          )}
+          {playbooks.map(playbook => (
+            <button
+              key={playbook.id}
+              onClick={() => setSelected(playbook.id)}
+              className={cn(
+                'w-full text-left p-3 rounded-md border dark:border-slate-700 hover:bg-muted/50',
+                selected === playbook.id && 'bg-muted dark:bg-slate-700/50'
+              )}
+            >
+              <p className="font-medium text-sm">{playbook.name}</p>
+              <p className="text-xs text-muted-foreground">{playbook.contractType} · {playbook.rules.length} rule{playbook.rules.length === 1 ? '' : 's'}</p>
+            </button>
+          ))}
+        </div>
+        <div className="md:col-span-2">
+          {selected ? (
+            <PlaybookEditor
+              key={selected}
+              playbook={selectedPlaybook}
+              onSaved={handleSaved}
+              onDelete={selectedPlaybook ? () => handleDelete(selectedPlaybook) : undefined}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground p-4">Select a playbook to edit it, or create a new one.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybooksPage;
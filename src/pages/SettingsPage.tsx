@@ -20,6 +20,7 @@ import {
 import { toast } from 'sonner';
 import { useNavigate, useLocation } from 'react-router-dom'; // Import useNavigate and useLocation
 import { SubscriptionManagement } from '@/components/subscription/SubscriptionManagement'; // Import SubscriptionManagement
+import OrganizationSettings from '@/components/organization/OrganizationSettings';
 
 const SettingsPage: React.FC = () => {
   const { user, signOut, userProfile } = useAuth(); // Get user, signOut, and userProfile
@@ -137,6 +138,19 @@ const SettingsPage: React.FC = () => {
         </CardContent>
       </Card>
       
+      {/* Organisation Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Organisation</CardTitle>
+          <CardDescription>
+            Your firm and its members. Matters, playbooks and library clauses can be shared with them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OrganizationSettings />
+        </CardContent>
+      </Card>
+
       <Separator className="my-8" />
 
       <h2 className="text-xl md:text-2xl font-semibold text-foreground pt-4">Account Details</h2>
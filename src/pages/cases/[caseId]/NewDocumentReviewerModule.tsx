@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { useSetAtom, useAtom } from 'jotai';
 import {
   activeEditorItemAtom,
@@ -11,7 +11,8 @@ import {
   chatDocumentContextIdsAtom
 } from '../../../atoms/appAtoms'; // Adjusted path based on NewDocumentReviewerModule location
 import NewTiptapEditor, { NewTiptapEditorRef } from '../../../components/editor/NewTiptapEditor';
-import { getDocumentById, updateDocument, DocumentMetadata } from '../../../services/documentService'; // Adjusted path
+import { getDocumentById, DocumentMetadata } from '../../../services/documentService'; // Adjusted path
+import { saveDocumentVersion } from '../../../services/documentVersionService';
 import { toast } from 'sonner';
 import { supabase } from '../../../lib/supabaseClient'; // Import Supabase client
 import { 
@@ -25,15 +26,40 @@ import {
   generateInlineTextService, // Import the new service
   GenerateInlineTextPayload,
   PositionalItem, // Ensured PositionalItem is available from this import block
+  AnalysisCoverage,
+  Clause,
   type AnalysisType as ServiceAnalysisType
 } from '../../../services/documentAnalysisService';
 import AnalysisResultRenderer from '../../../components/ai/analysisResultDisplay/AnalysisResultRenderer'; // Removed PositionalItem from here
+import AnalysisCoverageBar from '../../../components/ai/analysisResultDisplay/AnalysisCoverageBar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/select';
 import { Button } from '../../../components/ui/Button';
 import SummaryModal from '../../../components/editor/modals/SummaryModal'; // Import the modal
 import RewriteSuggestionBar from '../../../components/editor/toolbars/RewriteSuggestionBar'; // Import the suggestion bar
 import GeneratePromptModal from '../../../components/editor/modals/GeneratePromptModal'; // Import the modal
-import { Sparkles, Save, FileText, FileBarChart2 } from 'lucide-react'; // Removed unused Download
+import { Sparkles, Save, FileText, FileBarChart2, Gavel, MessageSquare, History, BookmarkPlus } from 'lucide-react'; // Removed unused Download
+import LegalCitationVerification from '../../../components/claude/LegalCitationVerification';
+import { verifyCitations } from '../../../services/citationService';
+import { VerifiedCitation } from '../../../types/citation';
+import WordExportModal from '../../../components/documents/WordExportModal';
+import { DocxExportOptions } from '../../../types/docxExport';
+import { exportHtmlToPdf } from '../../../services/documentExportService';
+import { Editor } from '@tiptap/react';
+import { getHTMLFromFragment } from '@tiptap/core';
+import TrackedChangesPanel from '../../../components/editor/TrackedChangesPanel';
+import CommentsRail from '../../../components/editor/CommentsRail';
+import DocumentHistoryPanel from '../../../components/documents/DocumentHistoryPanel';
+import { useDocumentComments } from '../../../hooks/useDocumentComments';
+import { DocumentCommentThread } from '../../../services/documents';
+import { ASSISTANT_AUTHOR, trackChangesMetaKey, TrackChangesMeta } from '../../../lib/editor/trackChanges';
+import { useAuth } from '../../../hooks/useAuth';
+import { getPlaybooks } from '../../../services/playbookService';
+import { Playbook, PlaybookFinding, PlaybookRule } from '../../../types/playbook';
+import { redlineInstructions } from '../../../utils/playbook';
+import SaveClauseModal from '../../../components/clauseLibrary/SaveClauseModal';
+import SimilarClausesModal from '../../../components/clauseLibrary/SimilarClausesModal';
+import { findSimilarClauses } from '../../../services/clauseLibraryService';
+import { LibraryClause, SimilarClauseMatch } from '../../../types/clauseLibrary';
 
 // Analysis options for the dropdown (can be moved to a constants file)
 const analysisOptions: { value: AnalysisType; label: string }[] = [
@@ -43,6 +69,7 @@ const analysisOptions: { value: AnalysisType; label: string }[] = [
   { value: 'risks', label: 'Risk Analysis' },
   { value: 'timeline', label: 'Timeline' },
   { value: 'privilegedTerms', label: 'Privileged Terms' },
+  { value: 'playbook', label: 'Playbook Review' },
 ];
 
 // State for active highlights
@@ -64,6 +91,9 @@ const CLICK_HIGHLIGHT_COLOR = '#FFECB3'; // A distinct, perhaps slightly darker
 
 const NewDocumentReviewerModule: React.FC = () => {
   const { caseId, id: documentIdFromParams } = useParams<{ caseId?: string; id: string }>(); // Renamed documentId to avoid conflict
+  // Set by jump-to-passage links from /research citations and by command palette tasks
+  const [searchParams] = useSearchParams();
+  const appliedPassageRef = useRef<string | null>(null);
   
   const [documentMetadata, setDocumentMetadata] = useState<DocumentMetadata | null>(null);
   const [documentContent, setDocumentContent] = useState<string | object>('');
@@ -78,9 +108,32 @@ const NewDocumentReviewerModule: React.FC = () => {
 
   // State for exports
   const [isExportingWord, setIsExportingWord] = useState<boolean>(false);
+  const [isWordExportModalOpen, setIsWordExportModalOpen] = useState<boolean>(false);
   const [isExportingPdf, setIsExportingPdf] = useState<boolean>(false);
 
+  // State for citation checking
+  const [citationResults, setCitationResults] = useState<VerifiedCitation[] | null>(null);
+  const [isVerifyingCitations, setIsVerifyingCitations] = useState<boolean>(false);
+
+  // State for the clause library: a selection being saved as a clause, and the library clauses
+  // found to be like a clause from the clauses analysis
+  const [clauseToSave, setClauseToSave] = useState<string | null>(null);
+  const [similarClauses, setSimilarClauses] = useState<{
+    clause: Clause;
+    matches: SimilarClauseMatch[] | null;
+    isLoading: boolean;
+    error: string | null;
+  } | null>(null);
+
   const editorRef = useRef<NewTiptapEditorRef>(null);
+  // The editor instance itself, for panels that follow its changes
+  const [editorInstance, setEditorInstance] = useState<Editor | null>(null);
+  const { user, userProfile } = useAuth();
+  const trackChangesAuthor = userProfile?.full_name || user?.email || 'Reviewer';
+  const comments = useDocumentComments(documentMetadata?.id, editorInstance);
+  // Comments and version history share the rail beside the editor
+  const [sidePanel, setSidePanel] = useState<'comments' | 'history' | null>('comments');
+  const [historyRefreshKey, setHistoryRefreshKey] = useState<number>(0);
   const setActiveEditorItem = useSetAtom(activeEditorItemAtom);
   const [currentActiveCaseId, setCurrentActiveCaseId] = useAtom(activeCaseIdAtom);
 
@@ -93,8 +146,18 @@ const NewDocumentReviewerModule: React.FC = () => {
 
   // State for analysis
   const [selectedAnalysisType, setSelectedAnalysisType] = useState<AnalysisType | null>(null);
+  // Playbooks a 'playbook' analysis can check the document against
+  const [playbooks, setPlaybooks] = useState<Playbook[] | null>(null);
+  const [selectedPlaybookId, setSelectedPlaybookId] = useState<string | null>(null);
+  const selectedPlaybook = playbooks?.find(playbook => playbook.id === selectedPlaybookId) ?? null;
+  // Playbook reviews are cached per playbook
+  const analysisCacheKey = selectedAnalysisType === 'playbook'
+    ? (selectedPlaybookId ? `playbook:${selectedPlaybookId}` : null)
+    : selectedAnalysisType;
   // Cache for analysis results: Key is AnalysisType, Value is StructuredAnalysisResult
   const [analysisResultsCache, setAnalysisResultsCache] = useState<Record<string, StructuredAnalysisResult>>({});
+  // Which sections of the document each cached analysis covered (long documents are chunked)
+  const [analysisCoverageCache, setAnalysisCoverageCache] = useState<Record<string, AnalysisCoverage>>({});
   // State to hold the currently displayed analysis result
   const [displayedAnalysisResult, setDisplayedAnalysisResult] = useState<StructuredAnalysisResult | null>(null);
   const [isAnalysisLoading, setIsAnalysisLoading] = useState<boolean>(false);
@@ -228,9 +291,9 @@ const NewDocumentReviewerModule: React.FC = () => {
   }, [documentContent, isLoading]); 
 
   useEffect(() => {
-    // When selectedAnalysisType changes, try to load from cache
-    if (selectedAnalysisType && analysisResultsCache[selectedAnalysisType]) {
-      setDisplayedAnalysisResult(analysisResultsCache[selectedAnalysisType]);
+    // When selectedAnalysisType (or the playbook) changes, try to load from cache
+    if (analysisCacheKey && analysisResultsCache[analysisCacheKey]) {
+      setDisplayedAnalysisResult(analysisResultsCache[analysisCacheKey]);
       setAnalysisError(null); // Clear any previous error for this type if displaying cached result
       setIsAnalysisLoading(false); // Ensure loading is false if we are showing cached data
     } else if (selectedAnalysisType) {
@@ -243,7 +306,24 @@ const NewDocumentReviewerModule: React.FC = () => {
       setDisplayedAnalysisResult(null);
       setAnalysisError(null);
     }
-  }, [selectedAnalysisType, analysisResultsCache]);
+  }, [selectedAnalysisType, analysisCacheKey, analysisResultsCache]);
+
+  useEffect(() => {
+    // Preselect the analysis a command palette task asked for, e.g. ?analysis=risks
+    const requested = searchParams.get('analysis');
+    const option = analysisOptions.find(({ value }) => value === requested);
+    if (option) setSelectedAnalysisType(option.value);
+  }, [searchParams]);
+
+  useEffect(() => {
+    // Playbooks are loaded the first time a playbook review is chosen
+    if (selectedAnalysisType !== 'playbook' || playbooks) return;
+    getPlaybooks().then(({ data, error: playbooksError }) => {
+      if (playbooksError) toast.error(`Failed to load playbooks: ${playbooksError.message}`);
+      setPlaybooks(data || []);
+      if (data?.length === 1) setSelectedPlaybookId(data[0].id);
+    });
+  }, [selectedAnalysisType, playbooks]);
 
   const toggleEditMode = () => {
     if (isEditable && hasUnsavedChanges) {
@@ -269,10 +349,14 @@ const NewDocumentReviewerModule: React.FC = () => {
       toast.error('Please select an analysis type and ensure document has text.');
       return;
     }
+    if (!analysisCacheKey || (selectedAnalysisType === 'playbook' && !selectedPlaybook)) {
+      toast.error('Please select a playbook to review the document against.');
+      return;
+    }
 
     // Check cache first before initiating loading state or API call
-    if (analysisResultsCache[selectedAnalysisType]) {
-      setDisplayedAnalysisResult(analysisResultsCache[selectedAnalysisType]);
+    if (analysisResultsCache[analysisCacheKey]) {
+      setDisplayedAnalysisResult(analysisResultsCache[analysisCacheKey]);
       setIsAnalysisLoading(false); // Not loading as it's from cache
       setAnalysisError(null); // Clear any previous errors
       // toast.info(`Loaded cached ${selectedAnalysisType} analysis.`); // Optional: user feedback
@@ -284,9 +368,10 @@ const NewDocumentReviewerModule: React.FC = () => {
     setDisplayedAnalysisResult(null); // Clear previous/cached result for other types while loading new one
 
     try {
-      const { data: analysisResultData, error: analysisServiceError, analysisId } = await analyzeDocumentServiceCall({
+      const { data: analysisResultData, error: analysisServiceError, analysisId, coverage } = await analyzeDocumentServiceCall({
         documentId: documentMetadata.id,
         analysisType: selectedAnalysisType,
+        playbook: selectedAnalysisType === 'playbook' ? selectedPlaybook ?? undefined : undefined,
         addTask,
         updateTask,
         removeTask,
@@ -299,9 +384,12 @@ const NewDocumentReviewerModule: React.FC = () => {
       if (analysisResultData) {
         setAnalysisResultsCache(prevCache => ({
           ...prevCache,
-          [selectedAnalysisType]: analysisResultData, // Cache the new result
+          [analysisCacheKey]: analysisResultData, // Cache the new result
         }));
         setDisplayedAnalysisResult(analysisResultData); // Display the new result
+        if (coverage) {
+          setAnalysisCoverageCache(prevCache => ({ ...prevCache, [analysisCacheKey]: coverage }));
+        }
       } else {
         // This case might indicate an issue with the service or data structure returned
         console.warn("Analysis service returned no data for type:", selectedAnalysisType);
@@ -358,6 +446,24 @@ const NewDocumentReviewerModule: React.FC = () => {
     console.log(`Updated chatDocumentContextIds to include: ${currentDocumentId}`);
   };
 
+  // Puts a comment thread and the text it's on into the chat context
+  const handleAskAIAboutComment = (thread: DocumentCommentThread) => {
+    if (!documentMetadata?.id) {
+      toast.error("Cannot add to chat: document information is missing.");
+      return;
+    }
+    const currentDocumentId = documentMetadata.id;
+    setChatDocumentContextIds(prevIds => prevIds.includes(currentDocumentId) ? prevIds : [...prevIds, currentDocumentId]);
+
+    const conversation = thread.document_comment_entries.map(entry => `${entry.user_name}: ${entry.text}`).join('\n');
+    setChatPreloadContext({
+      analysisItem: `Comment on "${thread.position?.quote ?? ''}"\n${conversation}`,
+      analysisType: 'document_context',
+      documentText: documentMetadata.extractedText || editorRef.current?.getFullText() || '',
+    });
+    toast.success('Comment and its text added to chat context.');
+  };
+
   const clearEditorHighlight = (highlight: ActiveHighlight | null) => {
     if (editorRef.current && highlight) {
       // Assuming 'highlight' is the markType used by Highlight.configure
@@ -439,6 +545,20 @@ const NewDocumentReviewerModule: React.FC = () => {
     });
   };
 
+  useEffect(() => {
+    // Highlight and scroll to a cited passage once the document has loaded into the editor
+    const passageStart = Number(searchParams.get('passageStart'));
+    const passageEnd = Number(searchParams.get('passageEnd'));
+    if (isLoading || !editorRef.current || !searchParams.has('passageStart') || !(passageEnd > passageStart)) {
+      return;
+    }
+    const passageKey = `${documentIdFromParams}:${passageStart}-${passageEnd}`;
+    if (appliedPassageRef.current === passageKey) return;
+    appliedPassageRef.current = passageKey;
+    handleItemClick({ start: passageStart, end: passageEnd });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, documentContent, searchParams, documentIdFromParams]);
+
   const handleSummarize = useCallback(async () => {
     if (!editorRef.current) {
       toast.error('Editor is not available.');
@@ -542,15 +662,17 @@ const NewDocumentReviewerModule: React.FC = () => {
     editorRef.current.focus(null, { scrollIntoView: true }); // Focus editor
     // Replace the original selected text with the suggestion
     const isHtml = /<([A-Za-z][A-Za-z0-9]*)\b[^>]*>(.*?)<\/\1>/.test(rewriteSuggestion);
+    // Recorded as a tracked change by the assistant, so the reviewer can accept or reject it
     const chain = editorRef.current.editor.chain().setTextSelection(originalSelectionForRewrite);
     chain.insertContent(rewriteSuggestion); // Tiptap parses HTML if present
+    chain.setMeta(trackChangesMetaKey, { author: ASSISTANT_AUTHOR } satisfies TrackChangesMeta);
     chain.run();
 
     setIsRewriteBarVisible(false);
     setRewriteSuggestion('');
     setOriginalSelectionForRewrite(null);
     setRewriteError(null);
-    toast.success('Rewrite applied!');
+    toast.success('Rewrite added as a tracked change.');
   }
 
   const handleDeclineRewrite = useCallback(() => {
@@ -560,6 +682,55 @@ const NewDocumentReviewerModule: React.FC = () => {
     setRewriteError(null);
   }, []);
 
+  // Selects the clause a playbook finding is anchored to and asks for a rewrite to the firm's
+  // preferred language, which the suggestion bar then offers as a tracked change
+  const handleRedlineFinding = (rule: PlaybookRule, finding: PlaybookFinding) => {
+    const editor = editorRef.current?.editor;
+    if (!editor || typeof finding.start !== 'number' || typeof finding.end !== 'number') {
+      toast.error('Editor is not available.');
+      return;
+    }
+    editor.chain().focus().setTextSelection({ from: finding.start, to: finding.end }).run();
+    handleRewrite('custom', redlineInstructions(rule));
+  };
+
+  const handleSaveSelectionAsClause = () => {
+    const editor = editorRef.current?.editor;
+    if (!editor) {
+      toast.error('Editor is not available.');
+      return;
+    }
+    const { from, to, empty } = editor.state.selection;
+    if (empty) {
+      toast.error('Select the text to save as a clause.');
+      return;
+    }
+    // As HTML, so formatting and variable marks are kept
+    setClauseToSave(getHTMLFromFragment(editor.state.doc.slice(from, to).content, editor.schema));
+  };
+
+  const handleFindSimilarClause = async (clause: Clause) => {
+    setSimilarClauses({ clause, matches: null, isLoading: true, error: null });
+    const { data, error } = await findSimilarClauses({ title: clause.title, text: clause.text });
+    // Ignore the answer if another clause was looked up meanwhile
+    setSimilarClauses(prev => (prev?.clause === clause
+      ? { clause, matches: data, isLoading: false, error: error ? error.message : null }
+      : prev));
+  };
+
+  // Replaces the analysed clause with the library's wording; in suggest mode it's tracked like any edit
+  const handleUseLibraryClause = (libraryClause: LibraryClause) => {
+    const editor = editorRef.current?.editor;
+    const clause = similarClauses?.clause;
+    if (!editor || !clause) {
+      toast.error('Editor is not available.');
+      return;
+    }
+    editor.chain().focus().setTextSelection({ from: clause.start, to: clause.end }).insertContent(libraryClause.content).run();
+    setSimilarClauses(null);
+    toast.success(`Replaced with "${libraryClause.title}" from the library.`);
+  };
+
   const handleOpenGeneratePrompt = () => {
     if (!editorRef.current) {
       toast.error('Editor is not available.');
@@ -569,7 +740,7 @@ const NewDocumentReviewerModule: React.FC = () => {
   };
 
   const handleSubmitGeneratePrompt = async (prompt: string) => {
-    if (!editorRef.current || !prompt.trim()) {
+    if (!editorRef.current?.editor || !prompt.trim()) {
       toast.error('Editor is not available or prompt is empty.');
       setIsGenerateModalOpen(false);
       return;
@@ -580,13 +751,16 @@ const NewDocumentReviewerModule: React.FC = () => {
     toast.info('AI is generating text...', { icon: <Sparkles className="h-4 w-4" /> });
 
     const editor = editorRef.current.editor;
+    // Generated text goes in as the assistant's tracked changes
+    const assistantChange: TrackChangesMeta = { author: ASSISTANT_AUTHOR };
     const currentSelection = editorRef.current.getSelectionRange();
     const selectedText = currentSelection.isEmpty ? undefined : editorRef.current.getSelectedText();
     
     let insertPos = currentSelection.from;
     if (!currentSelection.isEmpty) {
-      editor.chain().focus().setTextSelection({ from: currentSelection.from, to: currentSelection.to }).deleteSelection().run();
-      // After deleting selection, selection.from is the cursor position
+      editor.chain().focus().setTextSelection({ from: currentSelection.from, to: currentSelection.to }).deleteSelection()
+        .setMeta(trackChangesMetaKey, assistantChange).run();
+      // After deleting selection, selection.from is the cursor position (before the text now marked deleted)
       insertPos = editor.state.selection.from; 
     }
     editor.chain().focus().setTextSelection(insertPos).run(); 
@@ -626,7 +800,7 @@ const NewDocumentReviewerModule: React.FC = () => {
             try {
               const contentChunk = JSON.parse(jsonData) as string;
               if (contentChunk) {
-                editor.chain().insertContentAt(currentStreamInsertPosition, contentChunk).run();
+                editor.chain().insertContentAt(currentStreamInsertPosition, contentChunk).setMeta(trackChangesMetaKey, assistantChange).run();
                 currentStreamInsertPosition += contentChunk.length;
                 editor.chain().focus().setTextSelection(currentStreamInsertPosition).run(); 
               }
@@ -657,33 +831,29 @@ const NewDocumentReviewerModule: React.FC = () => {
       return;
     }
 
+    if (!user) {
+      toast.error('You must be signed in to save the document.');
+      return;
+    }
+
     setIsSaving(true);
     try {
-      const htmlContent = editorRef.current.getHTML();
-      // Backend expects htmlContent. Add other fields if your updateDocument service needs them.
-      // e.g. jsonContent: editorRef.current.getJSON()
-      const payload: Partial<DocumentMetadata> & { htmlContent: string } = { 
-        htmlContent,
-        // extractedText might need to be regenerated on backend if htmlContent changes significantly
-      };
-
-      const { data: updatedDoc, error: saveError } = await updateDocument(documentMetadata.id, payload);
+      // The content being replaced is kept in the document's version history
+      const { data: saved, error: saveError } = await saveDocumentVersion(
+        documentMetadata.id,
+        editorRef.current.getHTML(),
+        { id: user.id, name: trackChangesAuthor },
+        documentMetadata.version ?? 1 // The version the editor loaded; a save made since then isn't overwritten
+      );
 
-      if (saveError) throw saveError;
+      if (saveError || !saved) throw saveError || new Error('Failed to save document.');
 
       toast.success('Document saved successfully!');
       setHasUnsavedChanges(false);
-      if (updatedDoc) {
-        // Optionally update local metadata if the save returns the full updated document
-        // For instance, if 'updated_at' or 'version' changes
-        // Since updateDocument doesn't return the full doc, we might need to refetch or be optimistic
-        // For now, let's assume success means our current data is mostly fine, or refetch if needed.
-        // If specific fields like a version or updated_at were returned, we could do:
-        // setDocumentMetadata(prev => ({ ...prev, ...updatedDoc.data })); // Original problematic line
-        // Correct approach: updateDocument returns { success, error }.
-        // If you need the updated document, updateDocument service should return it, or you refetch.
-        // For now, if saveError is not thrown, we assume success.
-      }
+      setDocumentMetadata(prev => prev ? { ...prev, version: saved.version } : prev);
+      setHistoryRefreshKey(key => key + 1);
+      // Comment anchors now point into the saved content
+      await comments.savePositions();
     } catch (err: any) {
       console.error('Failed to save document:', err);
       toast.error(err.message || 'Failed to save document.');
@@ -692,13 +862,23 @@ const NewDocumentReviewerModule: React.FC = () => {
     }
   };
 
-  const handleExportToWord = async () => {
+  const handleVersionRestored = async (content: string, version: number) => {
+    editorRef.current?.setContent(content, false);
+    setDocumentContent(content);
+    setHasUnsavedChanges(false);
+    setDocumentMetadata(prev => prev ? { ...prev, editedContent: content, version } : prev);
+    // Anchors were re-placed in the restored text by their quotes
+    await comments.savePositions();
+  };
+
+  const handleExportToWord = async (options: DocxExportOptions) => {
     if (!editorRef.current || !documentMetadata) {
       toast.error('Editor is not ready or document data is missing.');
       return;
     }
     
-    const htmlContent = editorRef.current.getHTML();
+    // Open comment threads go out as Word comments
+    const { htmlContent, comments: docxComments } = comments.exportOpenComments();
 
     // Determine the base name for the file
     let baseName = "Benchwise_Word_Document"; // Generic fallback
@@ -720,7 +900,7 @@ const NewDocumentReviewerModule: React.FC = () => {
 
     try {
       const { data, error } = await supabase.functions.invoke('generate-docx', {
-        body: { htmlContent, fileName: finalFileNameForExport }, // Pass the determined filename
+        body: { htmlContent: htmlContent || editorRef.current.getHTML(), fileName: finalFileNameForExport, options, comments: docxComments }, // Pass the determined filename and page setup
       });
 
       if (error) throw error;
@@ -735,6 +915,7 @@ const NewDocumentReviewerModule: React.FC = () => {
         // No need for window.URL.revokeObjectURL as we are not using a blob URL
         a.remove();
         toast.success('Document export to Word initiated successfully!');
+        setIsWordExportModalOpen(false);
       } else {
         console.error('Unexpected response from generate-docx function:', data);
         const errorMessage = data?.error || 'Unexpected response format from Word export function.';
@@ -768,22 +949,17 @@ const NewDocumentReviewerModule: React.FC = () => {
     toast.info(`Exporting ${finalFileNameForExport} to PDF...`);
 
     try {
-      const { data } = await supabase.functions.invoke('generate-pdf-from-html', {
-        body: { htmlContent, fileName: finalFileNameForExport },
-      });
-
-      if (data && data.downloadUrl) {
-        const a = document.createElement('a');
-        a.href = data.downloadUrl;
-        a.target = '_blank'; // Open in new tab
-        // Do NOT set a.download, so browser opens the PDF in a new tab
-        document.body.appendChild(a);
-        a.click();
-        a.remove();
-        toast.success('PDF opened in new tab!');
-      } else {
-        throw new Error('PDF export failed: No download URL returned.');
-      }
+      const { data, error } = await exportHtmlToPdf(htmlContent, finalFileNameForExport, { title: baseName });
+      if (error || !data) throw error || new Error('PDF export failed: No download URL returned.');
+
+      const a = document.createElement('a');
+      a.href = data.downloadUrl;
+      a.target = '_blank'; // Open in new tab
+      // Do NOT set a.download, so browser opens the PDF in a new tab
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      toast.success('PDF opened in new tab!');
     } catch (err: any) {
       toast.error(`PDF export failed: ${err.message}`);
     } finally {
@@ -791,6 +967,40 @@ const NewDocumentReviewerModule: React.FC = () => {
     }
   };
 
+  const handleVerifyCitations = async () => {
+    if (!editorRef.current) {
+      toast.error('Editor is not ready.');
+      return;
+    }
+    // Check the text as currently shown, so unsaved edits are included
+    const text = editorRef.current.getFullText();
+    if (!text.trim()) {
+      toast.error('The document is empty.');
+      return;
+    }
+
+    setIsVerifyingCitations(true);
+    const { data, error: verifyError } = await verifyCitations({ text });
+    setIsVerifyingCitations(false);
+    if (verifyError || !data) {
+      toast.error(`Citation check failed: ${verifyError?.message || 'Unknown error'}`);
+      return;
+    }
+
+    setCitationResults(data.citations);
+    if (data.citations.length === 0) {
+      toast.info('No citations found in this document.');
+    } else {
+      const verifiedCount = data.citations.filter(c => c.verified).length;
+      toast.success(`${verifiedCount} of ${data.citations.length} citations verified${data.truncated ? ' (only the first citations were checked)' : ''}.`);
+    }
+  };
+
+  const handleCitationClick = (verification: VerifiedCitation) => {
+    const [first] = verification.occurrences || [];
+    if (first) handleItemClick({ start: first.start, end: first.end });
+  };
+
   if (isLoading && !error) {
     // console.log('[NewDocumentReviewerModule] RENDER: isLoading is true, showing loading message.');
     return (
@@ -863,6 +1073,36 @@ const NewDocumentReviewerModule: React.FC = () => {
                     {isSaving ? 'Saving...' : (hasUnsavedChanges ? 'Save Changes' : 'Saved')}
                   </Button>
                 )}
+                <Button
+                  onClick={() => setSidePanel(sidePanel === 'comments' ? null : 'comments')}
+                  variant={sidePanel === 'comments' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="flex items-center"
+                  title={sidePanel === 'comments' ? 'Hide comments' : 'Show comments'}
+                >
+                  <MessageSquare className="h-4 w-4 mr-1.5" />
+                  Comments ({comments.threads.filter(thread => !thread.resolved).length})
+                </Button>
+                <Button
+                  onClick={() => setSidePanel(sidePanel === 'history' ? null : 'history')}
+                  variant={sidePanel === 'history' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="flex items-center"
+                  title={sidePanel === 'history' ? 'Hide version history' : 'Show version history'}
+                >
+                  <History className="h-4 w-4 mr-1.5" />
+                  History
+                </Button>
+                <Button
+                  onClick={handleSaveSelectionAsClause}
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center"
+                  title="Save the selected text to the clause library"
+                >
+                  <BookmarkPlus className="h-4 w-4 mr-1.5" />
+                  Save as Clause
+                </Button>
               </div>
             </div>
             {/* Editor itself with its own toolbar */}
@@ -879,11 +1119,44 @@ const NewDocumentReviewerModule: React.FC = () => {
                   onContentUpdate={handleContentUpdate}
                   onChangeHtml={(html) => { /* console.log('HTML changed:', html); */ }}
                   onChangeJson={(json) => { /* console.log('JSON changed:', json); */ }}
+                  trackChangesAuthor={trackChangesAuthor}
+                  onEditorReady={setEditorInstance}
                 />
               )}
             </div>
           </div>
 
+          {/* Comments or version history rail, beside the text it refers to */}
+          {sidePanel && documentMetadata && (
+            <div className="w-72 flex flex-col border border-gray-300 dark:border-gray-700 rounded-lg shadow-sm bg-background dark:bg-dark-background m-1 p-3">
+              {sidePanel === 'history' ? (
+                <DocumentHistoryPanel
+                  documentId={documentMetadata.id}
+                  refreshKey={historyRefreshKey}
+                  hasUnsavedChanges={hasUnsavedChanges}
+                  onRestored={handleVersionRestored}
+                  className="h-full"
+                />
+              ) : (
+                <CommentsRail
+                  threads={comments.threads}
+                  activeThreadId={comments.activeThreadId}
+                  draftQuote={comments.draftQuote}
+                  isLoading={comments.isLoading}
+                  onStartThread={comments.startThread}
+                  onCreateThread={comments.createThread}
+                  onCancelThread={comments.cancelThread}
+                  onReply={comments.reply}
+                  onResolve={comments.resolveThread}
+                  onReopen={comments.reopenThread}
+                  onSelectThread={comments.focusThread}
+                  onAskAI={handleAskAIAboutComment}
+                  className="h-full"
+                />
+              )}
+            </div>
+          )}
+
           {/* Right Column: Analysis/Tools Panel - This remains side-by-side with editor area */}
           <div className="w-1/3 flex flex-col border border-gray-300 dark:border-gray-700 rounded-lg shadow-sm bg-background dark:bg-dark-secondary m-1 p-4">
             <h2 className="text-xl font-semibold mb-4 pb-2 border-b border-gray-200 dark:border-gray-700">Analysis & Tools</h2>
@@ -898,14 +1171,34 @@ const NewDocumentReviewerModule: React.FC = () => {
                   ))}
                 </SelectContent>
               </Select>
-              <Button onClick={handleRunAnalysis} disabled={isAnalysisLoading || !selectedAnalysisType || !documentMetadata?.extractedText}>
+              <Button onClick={handleRunAnalysis} disabled={isAnalysisLoading || !analysisCacheKey || !documentMetadata?.extractedText}>
                 {isAnalysisLoading ? 'Analyzing...' : 'Run Analysis'}
               </Button>
             </div>
+            {selectedAnalysisType === 'playbook' && (
+              <div className="flex items-center space-x-2 mb-4">
+                <Select onValueChange={setSelectedPlaybookId} value={selectedPlaybookId || undefined} disabled={!playbooks || playbooks.length === 0}>
+                  <SelectTrigger className="flex-grow">
+                    <SelectValue placeholder={playbooks && playbooks.length === 0 ? 'No playbooks yet' : 'Select Playbook'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(playbooks || []).map(playbook => (
+                      <SelectItem key={playbook.id} value={playbook.id}>{playbook.name} ({playbook.contractType})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="link" size="sm" asChild>
+                  <Link to="/app/playbooks">Manage</Link>
+                </Button>
+              </div>
+            )}
 
             <div className="flex-grow overflow-y-auto p-1 mb-4 border-b border-gray-200 dark:border-gray-700">
               {isAnalysisLoading && <p>Loading analysis results...</p>}
               {analysisError && <p className="text-red-500">Error: {analysisError}</p>}
+              {!isAnalysisLoading && !analysisError && displayedAnalysisResult && analysisCacheKey && analysisCoverageCache[analysisCacheKey] && (
+                <AnalysisCoverageBar coverage={analysisCoverageCache[analysisCacheKey]} />
+              )}
               {!isAnalysisLoading && !analysisError && displayedAnalysisResult && selectedAnalysisType && (
                 <AnalysisResultRenderer
                   analysisType={selectedAnalysisType}
@@ -914,6 +1207,10 @@ const NewDocumentReviewerModule: React.FC = () => {
                   onAddItemToChatContext={handleAddItemToChatContext}
                   onItemHover={handleItemHover}
                   onItemClick={handleItemClick}
+                  pageMap={documentMetadata?.pageMap}
+                  playbook={selectedPlaybook}
+                  onRedlineFinding={isEditable ? handleRedlineFinding : undefined}
+                  onFindSimilarClause={handleFindSimilarClause}
                 />
               )}
               {!isAnalysisLoading && !analysisError && !displayedAnalysisResult && (
@@ -925,11 +1222,39 @@ const NewDocumentReviewerModule: React.FC = () => {
               )}
             </div>
 
+            <TrackedChangesPanel editor={editorInstance} className="flex flex-col mb-4" />
+
+            {/* Citation Check */}
+            <div className="flex flex-col space-y-2 mb-4">
+              <h3 className="text-md font-semibold">Citations</h3>
+              <Button
+                onClick={handleVerifyCitations}
+                variant="outline"
+                size="sm"
+                className="w-full flex items-center justify-center"
+                disabled={isVerifyingCitations}
+              >
+                {isVerifyingCitations ? (
+                  <Sparkles className="animate-spin h-4 w-4 mr-1.5" />
+                ) : (
+                  <Gavel className="h-4 w-4 mr-1.5" />
+                )}
+                {isVerifyingCitations ? 'Verifying Citations...' : 'Verify Citations'}
+              </Button>
+              {citationResults && citationResults.length > 0 && (
+                <LegalCitationVerification
+                  verifications={citationResults}
+                  onCitationClick={handleCitationClick}
+                  className="mt-0 max-h-64 overflow-y-auto"
+                />
+              )}
+            </div>
+
             {/* Export Controls */}
             <div className="flex flex-col space-y-2">
               <h3 className="text-md font-semibold">Export Document</h3>
               <Button 
-                onClick={handleExportToWord} 
+                onClick={() => setIsWordExportModalOpen(true)}
                 variant="outline" 
                 size="sm" 
                 className="w-full flex items-center justify-center"
@@ -962,6 +1287,14 @@ const NewDocumentReviewerModule: React.FC = () => {
         </div>
       </div>
       
+      <WordExportModal
+        isOpen={isWordExportModalOpen}
+        onClose={() => setIsWordExportModalOpen(false)}
+        onExport={handleExportToWord}
+        isExporting={isExportingWord}
+        documentTitle={documentMetadata?.title || documentMetadata?.filename?.replace(/\.[^/.]+$/, '')}
+      />
+
       <SummaryModal 
         isOpen={isSummaryModalOpen} 
         onClose={() => setIsSummaryModalOpen(false)} 
@@ -974,6 +1307,16 @@ const NewDocumentReviewerModule: React.FC = () => {
         onSubmit={handleSubmitGeneratePrompt}
         isLoading={isGeneratingText}
       />
+      <SaveClauseModal content={clauseToSave} onClose={() => setClauseToSave(null)} />
+      <SimilarClausesModal
+        isOpen={similarClauses !== null}
+        onClose={() => setSimilarClauses(null)}
+        clauseTitle={similarClauses?.clause.title || 'this clause'}
+        matches={similarClauses?.matches ?? null}
+        isLoading={similarClauses?.isLoading ?? false}
+        error={similarClauses?.error ?? null}
+        onUseClause={isEditable && typeof similarClauses?.clause.start === 'number' ? handleUseLibraryClause : undefined}
+      />
     </div>
   );
 };
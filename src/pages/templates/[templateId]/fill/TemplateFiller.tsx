@@ -5,6 +5,7 @@ import { activeCaseIdAtom } from '@/atoms/appAtoms'; // Adjusted path
 import * as templateService from '@/services/templateService';
 import { DocumentTemplate } from '@/services/templateService';
 import * as documentService from '@/services/documentService';
+import { exportHtmlToPdf } from '@/services/documentExportService';
 import { supabase } from '@/lib/supabaseClient'; // Adjusted path
 import NewTiptapEditor, { NewTiptapEditorRef } from '@/components/editor/NewTiptapEditor'; // Adjusted path
 import { Button } from '@/components/ui/Button';
@@ -184,7 +185,7 @@ const TemplateFiller: React.FC = () => {
       const { data, error } = await supabase.functions.invoke(
         'generate-field-suggestion',
         { body: { prompt: fullPrompt } } 
-        // Optionally add model: 'claude-3-opus-20240229' for higher quality but slower/pricier suggestions
+        // The model comes from the function's LLM_MODELS_GENERATE_FIELD_SUGGESTION setting, not the request
       );
 
       if (error) throw error;
@@ -286,20 +287,15 @@ const TemplateFiller: React.FC = () => {
     toast.info('Initiating PDF export...');
      try {
         const fileName = (template.name ? template.name.replace(/\.[^/.]+$/, "") : "filled_template") + ".pdf";
-        const { data } = await supabase.functions.invoke('generate-pdf-from-html', {
-            body: { htmlContent: previewHtml, fileName },
-        });
-        if (data && data.downloadUrl) {
-            const a = document.createElement('a');
-            a.href = data.downloadUrl;
-            a.target = '_blank'; // Open PDF in new tab
-            document.body.appendChild(a);
-            a.click();
-            a.remove();
-            toast.success('PDF opened in new tab!');
-        } else {
-             throw new Error('PDF export failed: No download URL returned.');
-        }
+        const { data, error } = await exportHtmlToPdf(previewHtml, fileName, { title: template.name });
+        if (error || !data) throw error || new Error('PDF export failed: No download URL returned.');
+        const a = document.createElement('a');
+        a.href = data.downloadUrl;
+        a.target = '_blank'; // Open PDF in new tab
+        document.body.appendChild(a);
+        a.click();
+        a.remove();
+        toast.success('PDF opened in new tab!');
     } catch (err: any) {
         toast.error(`PDF export failed: ${err.message}`);
     } finally {
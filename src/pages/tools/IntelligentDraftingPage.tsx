@@ -122,7 +122,6 @@ const IntelligentDraftingPage: React.FC = () => {
         document_context: documentContext.trim() || undefined,
         tone: toneOptions[toneIndex].value,
         length_preference: lengthOptions[lengthIndex].value,
-        userId: user.id,
       };
 
       const { data, error: funcError } = await supabase.functions.invoke(
@@ -25,6 +25,8 @@ import ClaudeChatInterface from './components/claude/ClaudeChatInterface'; // Im
 import DocumentComparisonPage from './pages/DocumentComparisonPage';
 import LegalConceptExplainerPage from './pages/explain-concept'; // Import the page
 import QuickScanPage from './pages/QuickScanPage'; // Assuming QuickScanPage is also needed
+import PlaybooksPage from './pages/PlaybooksPage';
+import ClauseLibraryPage from './pages/ClauseLibraryPage';
 
 // Import the new modules
 import NewDocumentReviewerModule from './pages/cases/[caseId]/NewDocumentReviewerModule'; // Updated import path
@@ -183,6 +185,16 @@ const router = createBrowserRouter([
             path: 'cases/:caseId/compare',
             element: <DocumentComparisonPage />,
           },
+          {
+            // The firm's standard positions that contracts are reviewed against
+            path: 'playbooks',
+            element: <PlaybooksPage />,
+          },
+          {
+            // Reusable clause snippets, inserted into documents with the editor's "/" command
+            path: 'clauses',
+            element: <ClauseLibraryPage />,
+          },
 
            // --- Redirect old view routes to new review/fill routes ---
           {
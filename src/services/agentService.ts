@@ -21,7 +21,6 @@ interface AgentDraftPayload {
   caseId?: string;
   documentContext?: string;
   analysisContext?: string;
-  userId?: string;
 }
 
 interface FindClausePayload {
@@ -38,7 +37,7 @@ interface ExplainTermPayload {
 
 interface AgentComparePayload {
   caseId: string;
-  documentContexts: string[];
+  documentContexts: string[]; // Document IDs in draft order, oldest first
   analysisContext?: string;
   userId?: string;
 }
@@ -73,19 +72,23 @@ interface GenericChatPayload {
 // --- Agent/Tool Functions (Moved from chatService.ts) ---
 
 /**
- * Handle a /research query using the courtlistener-rag Supabase Edge Function
+ * Handle a /research query. With an active case, answers from that case's documents via the
+ * case-research-rag Edge Function (sources are DocumentCitationSource passages); otherwise
+ * falls back to the courtlistener-rag Edge Function.
  */
 export const handleResearchQueryStream = async (
   researchQuery: string,
-  onChunk: (chunk: string) => void
+  onChunk: (chunk: string) => void,
+  caseId?: string
 ): Promise<DispatcherResponse> => {
-  console.log(`Handling Research Query (via Streaming Edge Function): "${researchQuery}"`);
+  const functionName = caseId ? 'case-research-rag' : 'courtlistener-rag';
+  console.log(`Handling Research Query (via Streaming Edge Function ${functionName}): "${researchQuery}"`);
   let sources: SourceInfo[] | undefined;
 
   // Use the imported processSupabaseStream helper
   const streamResult = await processSupabaseStream(
-      'courtlistener-rag',
-      { query: researchQuery },
+      functionName,
+      caseId ? { query: researchQuery, caseId } : { query: researchQuery },
       onChunk,
       (receivedSnippets: SourceInfo[]) => {
           console.log('Received snippets:', receivedSnippets);
@@ -94,7 +97,7 @@ export const handleResearchQueryStream = async (
       (errorMessage) => {
           onChunk(`\n--- Stream Error: ${errorMessage} ---`);
       },
-      parseGenericStreamChunks // Use default parser, courtlistener-rag likely sends plain text or simple events
+      parseGenericStreamChunks // Both functions send JSON-encoded text chunks plus a snippets event
   );
 
   return {
@@ -137,7 +140,6 @@ export const handleAgentDraftStream = async (
       caseId,
       documentContext,
       analysisContext,
-      userId,
     };
 
     // Use processSupabaseStream to get the full response
@@ -259,7 +261,8 @@ export const handleExplainTermStream = async (
 };
 
 /**
- * Handle a /agent compare query using the 'compare-documents' Supabase Edge function
+ * Handle a /agent compare query using the 'compare-documents' Supabase Edge function. The documents
+ * are successive drafts, oldest first; the comparison follows each clause through them.
  */
 export const handleAgentCompareStream = async (
   onChunk: (chunk: string) => void,
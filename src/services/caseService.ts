@@ -2,6 +2,8 @@ import { supabase } from '../lib/supabaseClient';
 import { fetchCasesSafely } from '../lib/secureDataClient';
 import { v4 as uuidv4 } from 'uuid';
 import { Case } from '@/types/case';
+import { addCaseOwner, getMemberCaseIds, requireCaseAccess } from './membershipService';
+import { reindexDocument } from './documentService';
 
 /**
  * Interface for a case
@@ -31,6 +33,7 @@ interface CaseCreateData {
   case_number?: string | null;
   court?: string | null;
   status?: 'active' | 'archived' | 'closed';
+  organization_id?: string | null; // The firm the case belongs to
 }
 
 /**
@@ -78,6 +81,7 @@ export const createCase = async (
       case_number: caseInputData.case_number || null,
       court: caseInputData.court || null,
       status: caseInputData.status || 'active',
+      organization_id: caseInputData.organization_id || null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
@@ -100,20 +104,11 @@ export const createCase = async (
     
     const data = insertResult.data;
 
-    // Now add the user as a collaborator to ensure they can see the case
-    console.log('Adding user as collaborator for case:', caseId);
-    const collaboratorResult = await supabase
-      .from('case_collaborators')
-      .insert({
-        user_id: user.id,
-        case_id: caseId,
-        created_at: new Date().toISOString()
-      });
-    
-    console.log('Collaborator insert result:', JSON.stringify(collaboratorResult));
-    
-    if (collaboratorResult.error) {
-      console.error('Error adding collaborator record:', collaboratorResult.error);
+    // Now add the user as the case's owner member so they appear in its members list
+    console.log('Adding user as owner member of case:', caseId);
+    const { error: ownerError } = await addCaseOwner(caseId);
+    if (ownerError) {
+      console.error('Error adding owner membership record:', ownerError);
     }
 
     console.log('Case creation successful, returning data.');
@@ -130,6 +125,8 @@ export const createCase = async (
         case_number: data.case_number,
         court: data.court,
         documentCount: 0,
+        organizationId: data.organization_id,
+        role: 'owner',
       },
       error: null,
     };
@@ -146,6 +143,7 @@ export const getCaseById = async (
   caseId: string
 ): Promise<{ data: Case | null; error: Error | null }> => {
   try {
+    const role = await requireCaseAccess(caseId, 'view');
     const { data, error } = await supabase
       .from('cases')
       .select('*, client_name, opposing_party, case_number, court, documents(count)')
@@ -174,6 +172,8 @@ export const getCaseById = async (
         opposing_party: data.opposing_party,
         case_number: data.case_number,
         court: data.court,
+        organizationId: data.organization_id,
+        role,
       },
       error: null,
     };
@@ -226,6 +226,7 @@ export const updateCase = async (
   updates: Partial<CaseCreateData> 
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
+    await requireCaseAccess(caseId, 'edit');
     // Add updated_at timestamp
     const updatesWithTimestamp = {
         ...updates,
@@ -257,6 +258,7 @@ export const deleteCase = async (
   caseId: string
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
+    await requireCaseAccess(caseId, 'delete');
     // Check if case has documents
     const { data: documents, error: docError } = await supabase
       .from('documents')
@@ -297,14 +299,19 @@ export const addDocumentToCase = async (
   caseId: string
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
-    const { error } = await supabase
+    await requireCaseAccess(caseId, 'edit');
+    const { data: moved, error } = await supabase
       .from('documents')
       .update({ case_id: caseId })
-      .eq('id', documentId);
+      .eq('id', documentId)
+      .select('processing_status')
+      .maybeSingle();
 
     if (error) {
       throw error;
     }
+    // Its search chunks still carry the previous case
+    if (moved?.processing_status === 'completed') reindexDocument(documentId);
 
     return { success: true, error: null };
   } catch (error) {
@@ -336,7 +343,7 @@ export const removeDocumentFromCase = async (
 };
 
 /**
- * Search cases by name for the current user.
+ * Search cases the current user owns or is a member of by name.
  */
 export const searchCasesByName = async (
   query: string,
@@ -348,10 +355,16 @@ export const searchCasesByName = async (
       throw authError || new Error('User not authenticated');
     }
 
+    const { data: memberCaseIds, error: membershipError } = await getMemberCaseIds();
+    if (membershipError) throw membershipError;
+    const ownerOrMember = memberCaseIds && memberCaseIds.length > 0
+      ? `owner_id.eq.${user.id},id.in.(${memberCaseIds.join(',')})`
+      : `owner_id.eq.${user.id}`;
+
     const { data, error } = await supabase
       .from('cases')
       .select('*, documents(count)') // Select necessary fields
-      .eq('owner_id', user.id) // Filter by owner 
+      .or(ownerOrMember) // Filter by owner or membership
       .ilike('name', `%${query}%`) // Case-insensitive search on name
       .limit(limit) // Apply limit
       .order('updated_at', { ascending: false }); // Optional: order by relevance or date
@@ -373,6 +386,7 @@ export const searchCasesByName = async (
         opposing_party: c.opposing_party,
         case_number: c.case_number,
         court: c.court,
+        organizationId: c.organization_id,
     }));
 
     return { data: formattedCases, error: null };
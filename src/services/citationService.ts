@@ -0,0 +1,43 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { VerifiedCitation } from '@/types/citation';
+
+export interface CitationCheckResult {
+  citations: VerifiedCitation[];
+  resolver: string; // Which resolver checked them, e.g. "courtlistener+perplexity"
+  truncated: boolean; // Only the first few hundred citations are checked
+}
+
+/**
+ * Extracts and verifies every citation in a draft (`text`) or a stored document (`documentId`)
+ * via the verify-citations function. Occurrence offsets refer to the text that was checked.
+ */
+export const verifyCitations = async (
+  source: { text: string } | { documentId: string }
+): Promise<{ data: CitationCheckResult | null; error: Error | null }> => {
+  try {
+    const { data, error: functionError } = await supabase.functions.invoke<{
+      success: boolean;
+      citations?: VerifiedCitation[];
+      resolver?: string;
+      truncated?: boolean;
+      error?: string;
+    }>('verify-citations', { body: source });
+
+    if (functionError) {
+      // Configuration and size problems come back as non-2xx responses
+      const detail = functionError instanceof FunctionsHttpError
+        ? (await functionError.context.json().catch(() => null))?.error
+        : null;
+      throw new Error(detail || `Function invocation failed: ${functionError.message}`);
+    }
+    if (!data?.success || !data.citations) {
+      throw new Error(data?.error || 'Citations could not be verified.');
+    }
+    return { data: { citations: data.citations, resolver: data.resolver || '', truncated: !!data.truncated }, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error verifying citations';
+    console.error('Error in verifyCitations:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
@@ -0,0 +1,88 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { ExportedFile } from '@/services/documentExportService';
+import { ClauseComparison, clauseLabel, clauseRedlineHtml, redlineComments } from '@/utils/clauseComparison';
+import { ASSISTANT_AUTHOR } from '@/lib/editor/trackChanges';
+
+export interface ClauseEffect {
+  id: string; // The ClauseComparison's id
+  effect: string;
+  severity: 'minor' | 'moderate' | 'major';
+}
+
+const functionErrorMessage = async (functionError: Error) => {
+  const detail = functionError instanceof FunctionsHttpError
+    ? (await functionError.context.json().catch(() => null))?.error
+    : null;
+  return detail || `Function invocation failed: ${functionError.message}`;
+};
+
+/**
+ * Asks compare-documents-ai for the legal effect of each substantive, added or removed clause.
+ * Unchanged and merely reworded clauses aren't sent.
+ */
+export const summarizeClauseEffects = async (
+  comparisons: ClauseComparison[],
+  goal?: string
+): Promise<{ data: ClauseEffect[] | null; error: Error | null }> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const changes = comparisons
+      .filter(comparison => comparison.kind === 'substantive' || comparison.kind === 'added' || comparison.kind === 'removed')
+      .map(comparison => ({
+        id: comparison.id,
+        label: clauseLabel((comparison.revised ?? comparison.original)!),
+        original: comparison.original?.text ?? '',
+        revised: comparison.revised?.text ?? '',
+      }));
+    if (changes.length === 0) return { data: [], error: null };
+
+    const { data, error: functionError } = await supabase.functions.invoke<{ effects?: ClauseEffect[]; error?: string }>(
+      'compare-documents-ai',
+      { body: { mode: 'clauses', changes, goal: goal?.trim() || undefined } }
+    );
+    if (functionError) throw new Error(await functionErrorMessage(functionError));
+    if (!data?.effects) throw new Error(data?.error || 'AI analysis returned no clause effects.');
+    return { data: data.effects, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error summarizing clause changes';
+    console.error('Error in summarizeClauseEffects:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
+
+/**
+ * Exports the revised document as a Word redline against the original via generate-docx: changes
+ * are tracked revisions attributed to the revised draft, and legal effects are comments.
+ */
+export const exportClauseRedlineDocx = async (
+  comparisons: ClauseComparison[],
+  effects: ClauseEffect[],
+  titles: { original: string; revised: string }
+): Promise<{ data: ExportedFile | null; error: Error | null }> => {
+  try {
+    const title = `Redline – ${titles.original} vs ${titles.revised}`;
+    const effectsById = Object.fromEntries(effects.map(effect => [effect.id, effect.effect]));
+    const htmlContent = clauseRedlineHtml(comparisons, { title, author: titles.revised, effects: effectsById });
+    const fileName = `${title.replace(/[<>:"/\\|?*]+/g, '_').substring(0, 200)}.docx`;
+
+    const { data, error: functionError } = await supabase.functions.invoke<{
+      success?: boolean;
+      downloadUrl?: string;
+      fileName?: string;
+      error?: string;
+    }>('generate-docx', { body: { htmlContent, fileName, comments: redlineComments(effectsById, ASSISTANT_AUTHOR) } });
+
+    if (functionError) throw new Error(await functionErrorMessage(functionError));
+    if (!data?.success || !data.downloadUrl) {
+      throw new Error(data?.error || 'Redline could not be exported.');
+    }
+    return { data: { downloadUrl: data.downloadUrl, fileName: data.fileName || fileName }, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error exporting redline';
+    console.error('Error in exportClauseRedlineDocx:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
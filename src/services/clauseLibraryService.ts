@@ -0,0 +1,169 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { ClauseApprovalStatus, ClauseSearchFilters, LibraryClause, SimilarClauseMatch } from '@/types/clauseLibrary';
+import { rankSimilarClauses } from '@/utils/clauseLibrary';
+import { htmlToDiffText } from '@/utils/documentVersions';
+
+// Row shape of the clause_library table
+interface LibraryClauseRow {
+  id: string;
+  title: string;
+  category: string | null;
+  jurisdiction: string | null;
+  content: string;
+  tags: string[] | null;
+  approval_status: ClauseApprovalStatus;
+  owner_id: string;
+  organization_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LibraryClauseInput = Pick<LibraryClause, 'title' | 'category' | 'jurisdiction' | 'content' | 'tags' | 'approvalStatus' | 'organizationId'>;
+
+// Library clauses shortlisted by word overlap and sent to the AI for comparison
+const SIMILAR_CANDIDATES = 8;
+// Clauses loaded to shortlist from
+const SIMILAR_SEARCH_LIMIT = 200;
+// find-similar-clause's limit on each clause's text
+const MAX_CLAUSE_LENGTH = 8000;
+
+const toLibraryClause = (row: LibraryClauseRow): LibraryClause => ({
+  id: row.id,
+  title: row.title,
+  category: row.category ?? '',
+  jurisdiction: row.jurisdiction ?? '',
+  content: row.content,
+  tags: Array.isArray(row.tags) ? row.tags : [],
+  approvalStatus: row.approval_status,
+  ownerId: row.owner_id,
+  organizationId: row.organization_id,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (input: LibraryClauseInput) => ({
+  title: input.title.trim(),
+  category: input.category.trim() || null,
+  jurisdiction: input.jurisdiction.trim() || null,
+  content: input.content,
+  tags: input.tags,
+  approval_status: input.approvalStatus,
+  organization_id: input.organizationId,
+});
+
+const functionErrorMessage = async (functionError: Error) => {
+  const detail = functionError instanceof FunctionsHttpError
+    ? (await functionError.context.json().catch(() => null))?.error
+    : null;
+  return detail || `Function invocation failed: ${functionError.message}`;
+};
+
+/**
+ * Library clauses the user can see (their own and their organisation's; row level security
+ * decides which), most recently updated first. The query matches title, content or a tag.
+ */
+export const searchClauses = async (
+  filters: ClauseSearchFilters = {}
+): Promise<{ data: LibraryClause[] | null; error: Error | null }> => {
+  try {
+    let request = supabase.from('clause_library').select('*');
+    // Characters that would break out of the PostgREST or() filter are dropped
+    const query = filters.query?.replace(/[,()%*{}"\\]/g, ' ').trim();
+    if (query) {
+      request = request.or(`title.ilike.%${query}%,content.ilike.%${query}%,tags.cs.{"${query.toLowerCase()}"}`);
+    }
+    if (filters.category) request = request.eq('category', filters.category);
+    if (filters.jurisdiction) request = request.eq('jurisdiction', filters.jurisdiction);
+    if (filters.approvalStatus) request = request.eq('approval_status', filters.approvalStatus);
+
+    const { data, error } = await request
+      .order('updated_at', { ascending: false })
+      .limit(filters.limit ?? 50);
+    if (error) throw error;
+    return { data: ((data || []) as LibraryClauseRow[]).map(toLibraryClause), error: null };
+  } catch (error) {
+    console.error('Error searching the clause library:', error);
+    return { data: null, error: error instanceof Error ? error : new Error('Failed to search the clause library') };
+  }
+};
+
+/** Creates a library clause owned by the current user, or updates it when an id is given. */
+export const saveClause = async (
+  input: LibraryClauseInput,
+  clauseId?: string
+): Promise<{ data: LibraryClause | null; error: Error | null }> => {
+  try {
+    if (!input.title.trim()) throw new Error('A clause needs a title.');
+    if (!htmlToDiffText(input.content)) throw new Error('A clause needs some text.');
+
+    let ownerId: string | undefined;
+    if (!clauseId) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      ownerId = user.id;
+    }
+
+    const { data, error } = clauseId
+      ? await supabase.from('clause_library').update({ ...toRow(input), updated_at: new Date().toISOString() }).eq('id', clauseId).select('*').single()
+      : await supabase.from('clause_library').insert({ ...toRow(input), owner_id: ownerId }).select('*').single();
+    if (error) throw error;
+    return { data: toLibraryClause(data as LibraryClauseRow), error: null };
+  } catch (error) {
+    console.error(`Error saving library clause${clauseId ? ` ${clauseId}` : ''}:`, error);
+    return { data: null, error: error instanceof Error ? error : new Error('Failed to save clause') };
+  }
+};
+
+export const deleteClause = async (clauseId: string): Promise<{ error: Error | null }> => {
+  const { error } = await supabase.from('clause_library').delete().eq('id', clauseId);
+  if (error) console.error(`Error deleting library clause ${clauseId}:`, error);
+  return { error: error ?? null };
+};
+
+/**
+ * Library clauses that cover the same ground as a clause found in a document. The library is
+ * shortlisted by word overlap, then find-similar-clause judges how close each candidate is and
+ * what the document's clause does differently. An empty list means nothing in the library fits.
+ */
+export const findSimilarClauses = async (
+  clause: { title?: string; text: string }
+): Promise<{ data: SimilarClauseMatch[] | null; error: Error | null }> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: library, error: searchError } = await searchClauses({ limit: SIMILAR_SEARCH_LIMIT });
+    if (searchError) throw searchError;
+    const candidates = rankSimilarClauses(clause.text, library || [], SIMILAR_CANDIDATES).map(({ clause }) => clause);
+    if (candidates.length === 0) return { data: [], error: null };
+
+    const { data, error: functionError } = await supabase.functions.invoke<{
+      matches?: { id: string; match: SimilarClauseMatch['match']; differences: string }[];
+      error?: string;
+    }>('find-similar-clause', {
+      body: {
+        clause: { title: clause.title ?? '', text: clause.text.slice(0, MAX_CLAUSE_LENGTH) },
+        candidates: candidates.map(candidate => ({
+          id: candidate.id,
+          title: candidate.title,
+          text: htmlToDiffText(candidate.content).slice(0, MAX_CLAUSE_LENGTH),
+        })),
+      },
+    });
+    if (functionError) throw new Error(await functionErrorMessage(functionError));
+    if (!data?.matches) throw new Error(data?.error || 'AI comparison returned no matches.');
+
+    const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+    return {
+      data: data.matches
+        .filter(match => byId.has(match.id))
+        .map(match => ({ clause: byId.get(match.id)!, match: match.match, differences: match.differences })),
+      error: null,
+    };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error finding similar clauses';
+    console.error('Error in findSimilarClauses:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
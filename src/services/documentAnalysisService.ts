@@ -5,6 +5,7 @@ import { v4 as uuidv4 } from 'uuid'; // Import uuid
 // Remove OPENAI_CONFIG import as it's no longer used client-side
 // import { OPENAI_CONFIG } from '../config/apiConfig'; 
 import { type Case } from '../types'; // Ensure this path is correct if used
+import { Playbook } from '@/types/playbook';
 
 // --- Structured Result Types ---
 
@@ -69,12 +70,30 @@ export type StructuredAnalysisResult =
     | AnalysisErrorResult // Include error type
     | any; // Fallback for custom or unparsed results
 
+// Long documents are analyzed in overlapping chunks; coverage reports which parts were analyzed.
+export interface AnalysisChunkCoverage {
+    index: number;
+    start: number; // Character offsets into the full extracted text
+    end: number;
+    status: 'analyzed' | 'failed' | 'skipped';
+    error?: string;
+}
+
+export interface AnalysisCoverage {
+    documentLength: number;
+    totalChunks: number;
+    analyzedChunks: number;
+    complete: boolean;
+    chunks: AnalysisChunkCoverage[];
+}
+
 // Define the type for analysis results returned by the backend function
 // This should match the structure returned by the analyze-document function
 export interface BackendAnalysisResponse {
   success: boolean;
   analysisId: string; 
   result: StructuredAnalysisResult; // Use the more specific type
+  coverage?: AnalysisCoverage;
 }
 
 /**
@@ -83,13 +102,13 @@ export interface BackendAnalysisResponse {
 export interface DocumentAnalysisResult {
   id: string;
   documentId: string;
-  analysisType: 'summary' | 'entities' | 'clauses' | 'risks' | 'timeline' | 'custom' | 'privilegedTerms' | 'document_context';
+  analysisType: 'summary' | 'entities' | 'clauses' | 'risks' | 'timeline' | 'custom' | 'privilegedTerms' | 'document_context' | 'playbook';
   result: StructuredAnalysisResult; // Use the more specific type
   createdAt: string;
 }
 
 // Define analysis types for function parameters
-export type AnalysisType = 'summary' | 'entities' | 'clauses' | 'risks' | 'timeline' | 'custom' | 'privilegedTerms' | 'document_context';
+export type AnalysisType = 'summary' | 'entities' | 'clauses' | 'risks' | 'timeline' | 'custom' | 'privilegedTerms' | 'document_context' | 'playbook';
 
 // REMOVED: Client-side interfaces like DocumentEntity, LegalClause, etc., 
 // as the backend function handles the primary analysis.
@@ -112,6 +131,7 @@ export const analyzeDocument = async ({
   documentId,
   analysisType,
   customPrompt,
+  playbook,
   addTask,
   updateTask,
   removeTask,
@@ -119,10 +139,11 @@ export const analyzeDocument = async ({
   documentId: string;
   analysisType: AnalysisType;
   customPrompt?: string;
+  playbook?: Playbook; // The standard positions a 'playbook' analysis checks against
   addTask: (task: Omit<BackgroundTask, 'createdAt'>) => void;
   updateTask: (update: { id: string; status?: TaskStatus; progress?: number; description?: string }) => void;
   removeTask: (taskId: string) => void;
-}): Promise<{ data: StructuredAnalysisResult | null; error: Error | null; analysisId?: string }> => {
+}): Promise<{ data: StructuredAnalysisResult | null; error: Error | null; analysisId?: string; coverage?: AnalysisCoverage }> => {
   const taskId = uuidv4();
   const taskDescription = `Analyzing ${analysisType} for document...`;
 
@@ -133,8 +154,6 @@ export const analyzeDocument = async ({
       setTimeout(() => removeTask(taskId), 15000);
       return { data: null, error: new Error('User not authenticated'), analysisId: undefined };
     }
-    const userId = user.id;
-
     console.log(`[SVC] Invoking analyze-document function for Doc ID: ${documentId}, Type: ${analysisType}`);
     
     addTask({ 
@@ -172,7 +191,7 @@ export const analyzeDocument = async ({
         analysisType,
         customPrompt,
         documentText: docData.extracted_text,
-        userId,
+        playbook: playbook && { name: playbook.name, contractType: playbook.contractType, rules: playbook.rules },
       },
     });
 
@@ -204,10 +223,14 @@ export const analyzeDocument = async ({
     }
 
     console.log(`[SVC] Analysis successful. Returning result:`, invokeData.result);
-    updateTask({ id: taskId, status: 'success', progress: 100, description: `Analysis complete for ${analysisType}` });
+    const coverage = invokeData.coverage;
+    const coverageNote = coverage && !coverage.complete
+      ? ` (${coverage.analyzedChunks} of ${coverage.totalChunks} sections analyzed)`
+      : '';
+    updateTask({ id: taskId, status: 'success', progress: 100, description: `Analysis complete for ${analysisType}${coverageNote}` });
     setTimeout(() => removeTask(taskId), 5000); 
 
-    return { data: invokeData.result, error: null, analysisId: invokeData.analysisId };
+    return { data: invokeData.result, error: null, analysisId: invokeData.analysisId, coverage };
 
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : 'Unknown error during document analysis request';
@@ -354,7 +377,7 @@ export const generateInlineTextService = async (
 
     // Invoke the function. The Supabase client handles the stream.
     const { data, error: invokeError } = await supabase.functions.invoke('generate-inline-text', {
-      body: { ...payload, stream: true, userId: user.id },
+      body: { ...payload, stream: true },
     });
 
     if (invokeError) {
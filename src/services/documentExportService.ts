@@ -0,0 +1,42 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { PdfExportOptions } from '@/types/pdfExport';
+
+export interface ExportedFile {
+  downloadUrl: string; // Signed, valid for an hour
+  fileName: string;
+}
+
+/**
+ * Renders HTML (editor content or a filled template) to PDF via the generate-pdf-from-html
+ * function, which stores it and returns a signed download link.
+ */
+export const exportHtmlToPdf = async (
+  htmlContent: string,
+  fileName: string,
+  options?: PdfExportOptions
+): Promise<{ data: ExportedFile | null; error: Error | null }> => {
+  try {
+    const { data, error: functionError } = await supabase.functions.invoke<{
+      success: boolean;
+      downloadUrl?: string;
+      fileName?: string;
+      error?: string;
+    }>('generate-pdf-from-html', { body: { htmlContent, fileName, options } });
+
+    if (functionError) {
+      const detail = functionError instanceof FunctionsHttpError
+        ? (await functionError.context.json().catch(() => null))?.error
+        : null;
+      throw new Error(detail || `Function invocation failed: ${functionError.message}`);
+    }
+    if (!data?.success || !data.downloadUrl) {
+      throw new Error(data?.error || 'PDF export failed: No download URL returned.');
+    }
+    return { data: { downloadUrl: data.downloadUrl, fileName: data.fileName || fileName }, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error exporting PDF';
+    console.error('Error in exportHtmlToPdf:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
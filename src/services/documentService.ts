@@ -1,7 +1,11 @@
 import { supabase } from '@/lib/supabaseClient';
 import { v4 as uuidv4 } from 'uuid';
 import { PostgrestError } from '@supabase/supabase-js';
-import { DocumentMetadata, ProcessingStatus } from '@/types/document';
+import { DocumentMetadata, ProcessingStatus, PageMapEntry, EmailMetadata } from '@/types/document';
+import { isMboxFile, mboxMessageFilename, splitMbox } from '@/utils/mbox';
+import { remapPageMap } from '@/utils/pageMap';
+import { CaseAction } from '@/types/membership';
+import { requireCaseAccess } from './membershipService';
 
 /**
  * Interface for document metadata reflecting schema recommendations
@@ -17,6 +21,9 @@ export interface DocumentMetadata {
   storagePath: string | null;
   processingStatus: ProcessingStatus;
   extractedText?: string | null; // Allow null
+  pageMap?: PageMapEntry[] | null; // Page boundaries within extractedText
+  parentDocumentId?: string | null; // Email this document was attached to
+  emailMetadata?: EmailMetadata | null; // Headers of email documents
   editedContent?: string | null; // New field for user edits
   errorMessage?: string | null; // Existing field for errors
   lastAccessedAt?: string | null; // New metadata field
@@ -27,9 +34,14 @@ export interface DocumentMetadata {
   // is_fallback_content: boolean; // Add if confirmed needed by backend logic
 }
 
+// Why a save based on an outdated version of a document is refused
+export const DOCUMENT_CHANGED_MESSAGE = 'The document was changed by someone else. Reload it and save again.';
+
 // Helper function to convert HTML to plain text (client-side)
 function htmlToPlainText(html: string | null | undefined): string {
   if (!html) return '';
+  // Text reads as if pending tracked changes were accepted, like the text extracted from a DOCX
+  html = html.replace(/<del\b[^>]*>[\s\S]*?<\/del>/gi, '');
   if (typeof DOMParser === 'undefined') {
     console.warn('DOMParser not available. Using regex for HTML to text conversion (basic).');
     return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
@@ -85,6 +97,46 @@ const ensureBucketExists = async (bucketName: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Throws unless the current user may perform the action on the document: documents in a case
+ * follow the user's role on the case, documents outside any case are their owner's alone.
+ */
+const requireDocumentAccess = async (
+  document: { owner_id: string; case_id: string | null },
+  action: CaseAction
+): Promise<void> => {
+  if (document.case_id) {
+    await requireCaseAccess(document.case_id, action);
+    return;
+  }
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || document.owner_id !== user.id) throw new Error('Document not found or access denied.');
+};
+
+const loadDocumentAccessFields = async (documentId: string) => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('owner_id, case_id, processing_status')
+    .eq('id', documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('Document not found.');
+  return data as { owner_id: string; case_id: string | null; processing_status: ProcessingStatus | null };
+};
+
+/**
+ * Rebuilds a document's search chunks in the background. Chunks copy the document's text and
+ * case when embedded, so this runs after an edit, or after a move of a document already embedded.
+ * Failures are only logged; search checks each match against the document's current case anyway.
+ */
+export const reindexDocument = (documentId: string): void => {
+  supabase.functions.invoke('embed-document', { body: { documentId } })
+    .then(({ error }) => {
+      if (error) console.error(`Error re-embedding document ${documentId}:`, error);
+    })
+    .catch(error => console.error(`Error re-embedding document ${documentId}:`, error));
+};
+
 /**
  * Uploads a document to Supabase storage and inserts a record in the documents table
  */
@@ -180,7 +232,7 @@ export const uploadDocument = async (
 };
 
 /**
- * Get all documents for the current user
+ * Get the current user's documents, or every document in a case they are a member of
  */
 export const getUserDocuments = async (
   caseId?: string
@@ -196,12 +248,15 @@ export const getUserDocuments = async (
     let query = supabase
       .from('documents')
       .select('*')
-      .eq('owner_id', userIdAuth)
       .eq('is_deleted', false)
       .order('uploaded_at', { ascending: false });
 
+    // A case's documents are shared by its members; otherwise only the user's own are listed
     if (caseId) {
+      await requireCaseAccess(caseId, 'view');
       query = query.eq('case_id', caseId);
+    } else {
+      query = query.eq('owner_id', userIdAuth);
     }
 
     const { data, error } = await query;
@@ -224,6 +279,9 @@ export const getUserDocuments = async (
         contentType: dbDoc.content_type || 'unknown',
         processingStatus: dbDoc.processing_status as ProcessingStatus || 'uploaded',
         extractedText: dbDoc.extracted_text || null,
+        pageMap: dbDoc.page_map || null,
+        parentDocumentId: dbDoc.parent_document_id || null,
+        emailMetadata: dbDoc.email_metadata || null,
         editedContent: dbDoc.edited_content || null,
         summary: dbDoc.summary || null, // Assuming summary might be a direct DB field
         tags: dbDoc.tags || [], // Assuming tags might be a direct DB field
@@ -261,6 +319,7 @@ export const getDocumentById = async (
     if (!dbDoc) {
         return { data: null, error: null }; // Not found or other error already handled
     }
+    await requireDocumentAccess(dbDoc, 'view');
 
     const document: DocumentMetadata = {
       id: dbDoc.id,
@@ -274,6 +333,9 @@ export const getDocumentById = async (
       contentType: dbDoc.content_type || 'unknown',
       processingStatus: dbDoc.processing_status as ProcessingStatus || 'uploaded',
       extractedText: dbDoc.extracted_text || null,
+      pageMap: dbDoc.page_map || null,
+      parentDocumentId: dbDoc.parent_document_id || null,
+      emailMetadata: dbDoc.email_metadata || null,
       editedContent: dbDoc.edited_content || null,
       summary: dbDoc.summary || null,
       tags: dbDoc.tags || [],
@@ -324,6 +386,7 @@ export const deleteDocument = async (
   documentId: string
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
+    await requireDocumentAccess(await loadDocumentAccessFields(documentId), 'edit');
     // Soft delete - just mark as deleted
     const { error } = await supabase
       .from('documents')
@@ -376,19 +439,38 @@ export const processAndAnalyzeDocument = async (
 };
 
 /**
- * Update a document record in the database.
+ * Update a document record in the database. With expectedVersion, the update only applies if
+ * the stored version is still that one (null for documents never versioned), and fails otherwise.
  */
 export const updateDocument = async (
   documentId: string,
-  updates: Partial<Pick<DocumentMetadata, 'extractedText' | 'editedContent' | 'filename' | 'processingStatus' | 'errorMessage' | 'lastAccessedAt' | 'version' | 'caseId'>>
+  updates: Partial<Pick<DocumentMetadata, 'extractedText' | 'editedContent' | 'filename' | 'processingStatus' | 'errorMessage' | 'lastAccessedAt' | 'version' | 'caseId'>>,
+  options: { expectedVersion?: number | null } = {}
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
+    const stored = await loadDocumentAccessFields(documentId);
+    await requireDocumentAccess(stored, 'edit');
+    // Moving a document into a case needs edit rights there too
+    if (updates.caseId) await requireCaseAccess(updates.caseId, 'edit');
     const updatePayload: Record<string, any> = { ...updates };
+    const moved = updates.caseId !== undefined && (updates.caseId || null) !== stored.case_id;
+    let textChanged = updates.extractedText !== undefined;
 
     // If editedContent is being updated, also update extractedText and processingStatus
     if (updates.editedContent !== undefined) { // Check specifically for editedContent updates
       const plainText = htmlToPlainText(updates.editedContent);
       updatePayload.extracted_text = plainText;
+      // Page boundaries are offsets into extracted_text; carry them across the edit
+      const { data: current, error: currentError } = await supabase
+        .from('documents')
+        .select('extracted_text, page_map')
+        .eq('id', documentId)
+        .maybeSingle();
+      if (currentError) throw currentError;
+      textChanged = current?.extracted_text !== plainText;
+      if (current?.page_map && textChanged) {
+        updatePayload.page_map = remapPageMap(current.page_map as PageMapEntry[], current.extracted_text || '', plainText);
+      }
       // Only update status if it's not already in a final or failed state from backend processing
       // and if there's no storage_path that implies backend processing is pending/active.
       // This logic might need refinement based on how storagePath is used for non-uploaded docs.
@@ -429,14 +511,24 @@ export const updateDocument = async (
         delete updatePayload.caseId;
     }
 
-    const { error } = await supabase
+    let query = supabase
       .from('documents')
       .update(updatePayload)
       .eq('id', documentId);
+    const { expectedVersion } = options;
+    if (expectedVersion !== undefined) {
+      query = expectedVersion === null ? query.is('version', null) : query.eq('version', expectedVersion);
+    }
+    const { data: updated, error } = await query.select('id');
 
     if (error) {
       throw error;
     }
+    if (expectedVersion !== undefined && !updated?.length) {
+      throw new Error(DOCUMENT_CHANGED_MESSAGE);
+    }
+    // Documents not embedded yet pick up the new case when extract-text hands them to embed-document
+    if (textChanged || (moved && stored.processing_status === 'completed')) reindexDocument(documentId);
     return { success: true, error: null };
   } catch (error) {
     return handleError<never>(error, `updating document ${documentId}`);
@@ -446,17 +538,24 @@ export const updateDocument = async (
 /**
  * Uploads a file, creates the initial document record, and relies on backend
  * functions (triggered by DB webhooks) for text extraction and processing.
+ * An mbox mailbox is split into one .eml document per message (see uploadMailbox).
  */
 export const uploadAndProcessDocument = async (
   file: File,
   caseId: string | null,
-): Promise<{ data: Pick<DocumentMetadata, 'id' | 'filename'> | null; error: Error | null }> => {
+  onProgress?: (progress: MailboxUploadProgress) => void,
+): Promise<{ data: UploadResult | null; error: Error | null }> => {
   console.log(`Starting upload for ${file.name}...`);
   try {
     // Get userId first
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError) throw new Error(`Authentication Error: ${authError.message}`);
     if (!user) throw new Error('User not authenticated');
+    if (caseId) await requireCaseAccess(caseId, 'edit');
+
+    if (isMboxFile(file)) {
+      return { data: await uploadMailbox(file, user.id, caseId, onProgress), error: null };
+    }
 
     // Step 1: Upload the document and create the initial record with 'uploaded' status
     const { id: documentId, url } = await uploadDocument(file, user.id, caseId || undefined);
@@ -478,6 +577,56 @@ export const uploadAndProcessDocument = async (
   }
 };
 
+export type UploadResult = Pick<DocumentMetadata, 'id' | 'filename'> & {
+  messageCount?: number; // Set for mailboxes: documents created, one per message
+  failedMessageCount?: number;
+};
+
+export interface MailboxUploadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  messageCount: number;
+}
+
+/**
+ * Streams an mbox file and uploads each message as its own .eml document in the case.
+ * extract-text then parses every message and stores its headers as email_metadata.
+ * A failed message is logged and skipped so one bad upload doesn't lose the rest.
+ */
+const uploadMailbox = async (
+  file: File,
+  userId: string,
+  caseId: string | null,
+  onProgress?: (progress: MailboxUploadProgress) => void,
+): Promise<UploadResult> => {
+  let first: Pick<DocumentMetadata, 'id' | 'filename'> | null = null;
+  let messageCount = 0;
+  let failedMessageCount = 0;
+  let bytesRead = 0;
+
+  for await (const message of splitMbox(file, read => { bytesRead = read; })) {
+    const filename = mboxMessageFilename(message);
+    try {
+      const messageFile = new File([message.data], filename, { type: 'message/rfc822' });
+      const { id } = await uploadDocument(messageFile, userId, caseId || undefined);
+      first ??= { id, filename };
+      messageCount++;
+    } catch (error) {
+      console.error(`Failed to upload message ${message.index + 1} of ${file.name}:`, error instanceof Error ? error.message : error);
+      failedMessageCount++;
+    }
+    onProgress?.({ bytesRead, totalBytes: file.size, messageCount });
+  }
+
+  if (!first) {
+    throw new Error(failedMessageCount > 0
+      ? `None of the ${failedMessageCount} messages in ${file.name} could be uploaded`
+      : `${file.name} contains no email messages`);
+  }
+  console.log(`Uploaded ${messageCount} messages from ${file.name} (${failedMessageCount} failed)`);
+  return { ...first, messageCount, failedMessageCount };
+};
+
 /**
  * Creates a new document record in the database, typically for manually created documents.
  */
@@ -510,6 +659,8 @@ Passed to createDocument for owner_id: ${docData.userId}
 Current auth.uid() from supabase.auth.getUser(): ${authUser?.id}`);
     }
 
+    if (docData.caseId) await requireCaseAccess(docData.caseId, 'edit');
+
     const { 
       userId, 
       caseId, 
@@ -579,7 +730,7 @@ Current auth.uid() from supabase.auth.getUser(): ${authUser?.id}`);
 };
 
 /**
- * Search documents by filename for the current user.
+ * Search documents by filename: the current user's own, or a case's when a case is given.
  */
 export const searchDocumentsByName = async (
   query: string,
@@ -595,14 +746,16 @@ export const searchDocumentsByName = async (
     let request = supabase
       .from('documents')
       .select('*')
-      .eq('owner_id', user.id)
       .eq('is_deleted', false)
       .ilike('filename', `%${query}%`)
       .limit(limit)
       .order('uploaded_at', { ascending: false, nullsFirst: false });
 
     if (caseId) {
+        await requireCaseAccess(caseId, 'view');
         request = request.eq('case_id', caseId);
+    } else {
+        request = request.eq('owner_id', user.id);
     }
 
     const { data, error } = await request;
@@ -623,6 +776,9 @@ export const searchDocumentsByName = async (
         storagePath: doc.storage_path,
         processingStatus: doc.processing_status as ProcessingStatus,
         extractedText: doc.extracted_text,
+        pageMap: doc.page_map,
+        parentDocumentId: doc.parent_document_id,
+        emailMetadata: doc.email_metadata,
         editedContent: doc.edited_content,
         errorMessage: doc.error_message,
         version: doc.version,
@@ -644,6 +800,8 @@ export const searchDocumentsByName = async (
 export interface SemanticMatch {
   chunkText: string;
   similarity: number;
+  start?: number; // Offsets of the chunk within the document's extracted text
+  end?: number;
 }
 
 export interface SemanticSearchResultItem {
@@ -655,11 +813,13 @@ export interface SemanticSearchResultItem {
 
 /**
  * Perform semantic search across document contents using embeddings.
+ * Results are limited to the caller's cases, or to a single case when caseId is given.
  */
 export const semanticSearchDocuments = async (
   query: string,
+  caseId?: string | null,
   limit: number = 5,
-  threshold: number = 0.75 // Optional: pass threshold if backend supports it
+  threshold: number = 0.75
 ): Promise<{ data: SemanticSearchResultItem[] | null; error: Error | null }> => {
   try {
     console.log(`Invoking semantic-search-documents function for query: "${query}"`);
@@ -670,6 +830,7 @@ export const semanticSearchDocuments = async (
           query,
           match_count: limit,
           match_threshold: threshold,
+          caseId: caseId || null,
         },
       }
     );
@@ -736,6 +897,9 @@ export const getDocumentsMetadataByIds = async (
         contentType: dbDoc.content_type || 'unknown',
         processingStatus: dbDoc.processing_status as ProcessingStatus || 'uploaded',
         extractedText: dbDoc.extracted_text || null,
+        pageMap: dbDoc.page_map || null,
+        parentDocumentId: dbDoc.parent_document_id || null,
+        emailMetadata: dbDoc.email_metadata || null,
         editedContent: dbDoc.edited_content || null,
         summary: dbDoc.summary || null,
         tags: dbDoc.tags || [],
@@ -753,4 +917,4 @@ export const getDocumentsMetadataByIds = async (
   }
 };
 
-// --- Utility Functions (if any) ---
\ No newline at end of file
+// --- Utility Functions (if any) ---
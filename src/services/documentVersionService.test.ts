@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+// The stored document and its snapshots, behind just enough of the query builder for a save
+const db = vi.hoisted(() => ({
+  document: { edited_content: '<p>v1</p>' as string | null, extracted_text: null as string | null, version: 1 as number | null },
+  snapshots: [] as { id: string; version_number: number; content: string }[],
+}));
+
+vi.mock('@/lib/supabaseClient', () => ({
+  supabase: {
+    from: (table: string) => {
+      if (table === 'documents') {
+        const builder = { select: () => builder, eq: () => builder, single: async () => ({ data: { ...db.document }, error: null }) };
+        return builder;
+      }
+      return {
+        insert: (row: { version_number: number; content: string }) => ({
+          select: () => ({
+            single: async () => {
+              const snapshot = { id: `snapshot-${db.snapshots.length + 1}`, ...row };
+              db.snapshots.push(snapshot);
+              return { data: { id: snapshot.id }, error: null };
+            },
+          }),
+        }),
+        delete: () => ({
+          eq: async (_column: string, id: string) => {
+            db.snapshots = db.snapshots.filter(snapshot => snapshot.id !== id);
+            return { error: null };
+          },
+        }),
+      };
+    },
+  },
+}));
+
+// Applies the update only if the stored version is still the expected one, like the conditional UPDATE
+vi.mock('@/services/documentService', () => ({
+  DOCUMENT_CHANGED_MESSAGE: 'The document was changed by someone else. Reload it and save again.',
+  updateDocument: vi.fn(async (_id: string, updates: { editedContent: string; version: number }, { expectedVersion }: { expectedVersion?: number | null }) => {
+    if (expectedVersion !== undefined && db.document.version !== expectedVersion) {
+      return { success: false, error: new Error('The document was changed by someone else. Reload it and save again.') };
+    }
+    db.document = { ...db.document, edited_content: updates.editedContent, version: updates.version };
+    return { success: true, error: null };
+  }),
+}));
+
+import { saveDocumentVersion } from './documentVersionService';
+
+const olivia = { id: 'olivia', name: 'Olivia Owner' };
+const paul = { id: 'paul', name: 'Paul Paralegal' };
+
+beforeEach(() => {
+  db.document = { edited_content: '<p>v1</p>', extracted_text: null, version: 1 };
+  db.snapshots = [];
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('saveDocumentVersion', () => {
+  test('snapshot the replaced content and bump the version', async () => {
+    expect(await saveDocumentVersion('doc-1', '<p>v2</p>', olivia, 1)).toEqual({ data: { version: 2 }, error: null });
+    expect(db.document).toMatchObject({ edited_content: '<p>v2</p>', version: 2 });
+    expect(db.snapshots).toEqual([expect.objectContaining({ version_number: 1, content: '<p>v1</p>' })]);
+  });
+
+  test('refuse a save based on a version someone else has since replaced, without a snapshot', async () => {
+    // Both editors opened version 1; Paul saved first
+    await saveDocumentVersion('doc-1', '<p>Paul\'s edit</p>', paul, 1);
+    const { data, error } = await saveDocumentVersion('doc-1', '<p>Olivia\'s edit</p>', olivia, 1);
+
+    expect(data).toBeNull();
+    expect(error?.message).toBe('The document was changed by someone else. Reload it and save again.');
+    expect(db.document).toMatchObject({ edited_content: '<p>Paul\'s edit</p>', version: 2 });
+    expect(db.snapshots.map(snapshot => snapshot.version_number)).toEqual([1]);
+  });
+
+  test('remove the snapshot when a concurrent save lands between the check and the update', async () => {
+    const { updateDocument } = await import('@/services/documentService');
+    vi.mocked(updateDocument).mockImplementationOnce(async () => {
+      db.document = { ...db.document, edited_content: '<p>Paul\'s edit</p>', version: 2 };
+      return { success: false, error: new Error('The document was changed by someone else. Reload it and save again.') };
+    });
+    const { error } = await saveDocumentVersion('doc-1', '<p>Olivia\'s edit</p>', olivia, 1);
+
+    expect(error).not.toBeNull();
+    expect(db.snapshots).toEqual([]);
+  });
+
+  test('treat documents never versioned as version 1', async () => {
+    db.document = { edited_content: null, extracted_text: 'Extracted text', version: null };
+    const { updateDocument } = await import('@/services/documentService');
+    expect(await saveDocumentVersion('doc-1', '<p>First edit</p>', olivia, 1)).toEqual({ data: { version: 2 }, error: null });
+    expect(vi.mocked(updateDocument)).toHaveBeenLastCalledWith('doc-1', { editedContent: '<p>First edit</p>', version: 2 }, { expectedVersion: null });
+  });
+});
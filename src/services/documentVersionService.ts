@@ -0,0 +1,150 @@
+import { supabase } from '@/lib/supabaseClient';
+import { DOCUMENT_CHANGED_MESSAGE, updateDocument } from '@/services/documentService';
+import { DocumentVersion } from '@/types/documentVersion';
+import { textToHtml } from '@/utils/documentVersions';
+
+// Row shape of the document_versions table: the content a save replaced, and who made that save
+interface DocumentVersionRow {
+  id: string;
+  document_id: string;
+  version_number: number;
+  content: string;
+  label: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+interface VersionAuthor {
+  id: string;
+  name: string;
+}
+
+const loadCurrent = async (documentId: string) => {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('edited_content, extracted_text, version')
+    .eq('id', documentId)
+    .single();
+  if (error) throw error;
+  return {
+    // Documents that were never edited only have their extracted text
+    content: (data.edited_content as string | null) ?? textToHtml((data.extracted_text as string | null) ?? ''),
+    version: (data.version as number | null) ?? 1,
+    storedVersion: data.version as number | null, // What a save must find unchanged to go through
+  };
+};
+
+/**
+ * Every version of a document, newest first, starting with its current content. A snapshot row
+ * records who replaced the content, so each version's author is whoever made the save before it.
+ */
+export const getDocumentVersions = async (
+  documentId: string
+): Promise<{ data: DocumentVersion[] | null; error: Error | null }> => {
+  try {
+    const current = await loadCurrent(documentId);
+    const { data, error } = await supabase
+      .from('document_versions')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('version_number', { ascending: true });
+    if (error) throw error;
+
+    const rows = (data || []) as DocumentVersionRow[];
+    const replacedBy = new Map(rows.map(row => [row.version_number, row]));
+    const savedBy = (versionNumber: number) => replacedBy.get(versionNumber - 1);
+    const versions: DocumentVersion[] = rows.map(row => ({
+      id: row.id,
+      documentId,
+      versionNumber: row.version_number,
+      content: row.content,
+      label: row.label,
+      authorName: savedBy(row.version_number)?.created_by_name ?? null,
+      savedAt: savedBy(row.version_number)?.created_at ?? null,
+    }));
+    versions.push({
+      id: null,
+      documentId,
+      versionNumber: current.version,
+      content: current.content,
+      label: null,
+      authorName: savedBy(current.version)?.created_by_name ?? null,
+      savedAt: savedBy(current.version)?.created_at ?? null,
+    });
+    return { data: versions.reverse(), error: null };
+  } catch (error) {
+    console.error(`Error loading versions of document ${documentId}:`, error);
+    return { data: null, error: error instanceof Error ? error : new Error('Failed to load document versions') };
+  }
+};
+
+/**
+ * Saves new editor content, first snapshotting the content it replaces (with an optional label)
+ * and bumping the document's version. Saving unchanged content does neither. The save fails,
+ * and its snapshot is removed, if the document is no longer at expectedVersion: the version the
+ * caller's content was based on, so a save never overwrites one made since the editor loaded.
+ */
+export const saveDocumentVersion = async (
+  documentId: string,
+  editedContent: string,
+  author: VersionAuthor,
+  expectedVersion: number,
+  label?: string
+): Promise<{ data: { version: number } | null; error: Error | null }> => {
+  try {
+    const current = await loadCurrent(documentId);
+    if (current.version !== expectedVersion) throw new Error(DOCUMENT_CHANGED_MESSAGE);
+    if (current.content === editedContent) return { data: { version: current.version }, error: null };
+
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('document_versions')
+      .insert({
+        document_id: documentId,
+        version_number: current.version,
+        content: current.content,
+        label: label?.trim() || null,
+        created_by: author.id,
+        created_by_name: author.name,
+      })
+      .select('id')
+      .single();
+    if (snapshotError) throw snapshotError;
+
+    const version = current.version + 1;
+    const { error } = await updateDocument(documentId, { editedContent, version }, { expectedVersion: current.storedVersion });
+    if (error) {
+      const { error: cleanupError } = await supabase.from('document_versions').delete().eq('id', snapshot.id);
+      if (cleanupError) console.error(`Error removing the snapshot of a failed save of document ${documentId}:`, cleanupError);
+      throw error;
+    }
+    return { data: { version }, error: null };
+  } catch (error) {
+    console.error(`Error saving a version of document ${documentId}:`, error);
+    return { data: null, error: error instanceof Error ? error : new Error('Failed to save document') };
+  }
+};
+
+/**
+ * Makes an earlier version current again; what it replaces is kept as a version like any save.
+ * currentVersion is the version the caller listed as current.
+ */
+export const restoreDocumentVersion = async (
+  version: DocumentVersion,
+  author: VersionAuthor,
+  currentVersion: number
+): Promise<{ data: { version: number } | null; error: Error | null }> => {
+  return saveDocumentVersion(version.documentId, version.content, author, currentVersion, `Before restoring version ${version.versionNumber}`);
+};
+
+export const updateDocumentVersionLabel = async (
+  versionId: string,
+  label: string
+): Promise<{ error: Error | null }> => {
+  const { error } = await supabase
+    .from('document_versions')
+    .update({ label: label.trim() || null })
+    .eq('id', versionId);
+  if (error) console.error(`Error labelling document version ${versionId}:`, error);
+  return { error: error ?? null };
+};
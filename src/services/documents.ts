@@ -20,6 +20,38 @@ export interface Document {
   metadata?: Record<string, any>;
 }
 
+// Where a comment thread is anchored: editor (ProseMirror) positions in the saved content, and the
+// text they covered so the anchor can be found again if the content changed elsewhere
+export interface DocumentCommentPosition {
+  from: number;
+  to: number;
+  quote: string;
+}
+
+export interface DocumentCommentEntry {
+  id: string;
+  document_id: string;
+  thread_id: string;
+  comment_id: string;
+  text: string;
+  user_id: string;
+  user_name: string;
+  created_at: string;
+}
+
+export interface DocumentCommentThread {
+  id: string;
+  document_id: string;
+  thread_id: string;
+  position: DocumentCommentPosition;
+  created_by: string;
+  created_at: string;
+  resolved?: boolean;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  document_comment_entries: DocumentCommentEntry[];
+}
+
 // Get all documents
 export const getDocuments = async (caseId?: string) => {
   let query = supabase
@@ -138,7 +170,7 @@ export const getDocumentComments = async (documentId: string) => {
 export const createDocumentCommentThread = async (
   documentId: string,
   threadId: string,
-  position: any,
+  position: DocumentCommentPosition,
   userId: string
 ) => {
   return await supabase
@@ -194,3 +226,36 @@ export const resolveDocumentCommentThread = async (
     .select()
     .single();
 };
+
+// Reopen a resolved document comment thread
+export const reopenDocumentCommentThread = async (
+  documentId: string,
+  threadId: string
+) => {
+  return await supabase
+    .from('document_comments')
+    .update({
+      resolved: false,
+      resolved_by: null,
+      resolved_at: null
+    })
+    .eq('document_id', documentId)
+    .eq('thread_id', threadId)
+    .select()
+    .single();
+};
+
+// Update where document comment threads are anchored (after the content they point into is saved)
+export const updateDocumentCommentPositions = async (
+  documentId: string,
+  positions: { threadId: string; position: DocumentCommentPosition }[]
+) => {
+  const results = await Promise.all(positions.map(({ threadId, position }) =>
+    supabase
+      .from('document_comments')
+      .update({ position })
+      .eq('document_id', documentId)
+      .eq('thread_id', threadId)
+  ));
+  return { error: results.find(result => result.error)?.error ?? null };
+};
@@ -0,0 +1,487 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import {
+  CaseAction, CaseMember, CaseRole, Invitation, Organization, OrganizationMember, OrganizationRole,
+} from '@/types/membership';
+import { assignableRoles, canManageMember, canPerform, isValidEmail, normalizeEmail } from '@/utils/casePermissions';
+
+// Row shape of the case_collaborators table
+interface CaseCollaboratorRow {
+  case_id: string;
+  user_id: string;
+  role: CaseRole | null; // Rows from before roles were introduced; read as the least-privileged role
+  user_email: string | null;
+  user_name: string | null;
+  created_at: string;
+}
+
+// Row shape of the organization_members table
+interface OrganizationMemberRow {
+  organization_id: string;
+  user_id: string;
+  role: OrganizationRole;
+  user_email: string | null;
+  user_name: string | null;
+  joined_at: string;
+  organizations?: { name: string; created_at: string } | null;
+}
+
+// Row shape of the invitations table, with the invited-to case or organisation's name
+interface InvitationRow {
+  id: string;
+  email: string;
+  case_id: string | null;
+  organization_id: string | null;
+  role: CaseRole | OrganizationRole;
+  invited_by: string;
+  invited_by_name: string | null;
+  created_at: string;
+  cases?: { name: string } | null;
+  organizations?: { name: string } | null;
+}
+
+const INVITATION_SELECT = '*, cases(name), organizations(name)';
+
+const actionDescriptions: Record<CaseAction, string> = {
+  view: 'view',
+  edit: 'make changes to',
+  use_ai: 'run AI tools on',
+  manage_members: 'manage the members of',
+  delete: 'delete',
+};
+
+// The case's owner is cases.owner_id, even when their row predates roles
+const toCaseMember = (row: CaseCollaboratorRow, ownerId: string | null): CaseMember => ({
+  caseId: row.case_id,
+  userId: row.user_id,
+  role: row.user_id === ownerId ? 'owner' : row.role ?? 'client',
+  email: row.user_email,
+  name: row.user_name,
+  addedAt: row.created_at,
+});
+
+const toOrganizationMember = (row: OrganizationMemberRow): OrganizationMember => ({
+  organizationId: row.organization_id,
+  userId: row.user_id,
+  role: row.role,
+  email: row.user_email,
+  name: row.user_name,
+  joinedAt: row.joined_at,
+});
+
+const toInvitation = (row: InvitationRow): Invitation => ({
+  id: row.id,
+  email: row.email,
+  caseId: row.case_id,
+  caseName: row.cases?.name ?? null,
+  organizationId: row.organization_id,
+  organizationName: row.organizations?.name ?? null,
+  role: row.role,
+  invitedBy: row.invited_by,
+  invitedByName: row.invited_by_name,
+  createdAt: row.created_at,
+});
+
+const toError = (error: unknown, fallback: string) => (error instanceof Error ? error : new Error(fallback));
+
+const requireUser = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  return user;
+};
+
+// How the current user appears to the people they invite and work with
+const currentUserIdentity = async () => {
+  const user = await requireUser();
+  const { data: profile } = await supabase.from('profiles').select('full_name').eq('id', user.id).maybeSingle();
+  return { id: user.id, email: user.email ? normalizeEmail(user.email) : null, name: profile?.full_name || user.email || null };
+};
+
+// ---- Case membership ----
+
+/**
+ * The current user's role on a case: 'owner' for the case's owner, their case_collaborators role
+ * for invited members, and null when they aren't a member.
+ */
+export const getCaseRole = async (caseId: string): Promise<{ data: CaseRole | null; error: Error | null }> => {
+  try {
+    const user = await requireUser();
+    const { data: caseRow, error: caseError } = await supabase
+      .from('cases')
+      .select('owner_id')
+      .eq('id', caseId)
+      .maybeSingle();
+    if (caseError) throw caseError;
+    if (!caseRow) return { data: null, error: null };
+    if (caseRow.owner_id === user.id) return { data: 'owner', error: null };
+
+    const { data: membership, error } = await supabase
+      .from('case_collaborators')
+      .select('role')
+      .eq('case_id', caseId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (error) throw error;
+    return { data: membership ? (membership.role ?? 'client') as CaseRole : null, error: null };
+  } catch (error) {
+    console.error(`Error loading role on case ${caseId}:`, error);
+    return { data: null, error: toError(error, 'Failed to load your role on the case') };
+  }
+};
+
+/**
+ * Throws unless the current user's role on the case allows the action; returns the role. Services
+ * call this before touching case data, mirroring the row level security policies.
+ */
+export const requireCaseAccess = async (caseId: string, action: CaseAction): Promise<CaseRole> => {
+  const { data: role, error } = await getCaseRole(caseId);
+  if (error) throw error;
+  if (!role) throw new Error('Matter not found or you are not a member of it.');
+  if (!canPerform(role, action)) {
+    throw new Error(`Your role on this matter does not allow you to ${actionDescriptions[action]} it.`);
+  }
+  return role;
+};
+
+/** Ids of the cases the current user is an invited member of (cases they own aren't included). */
+export const getMemberCaseIds = async (): Promise<{ data: string[] | null; error: Error | null }> => {
+  try {
+    const user = await requireUser();
+    const { data, error } = await supabase.from('case_collaborators').select('case_id').eq('user_id', user.id);
+    if (error) throw error;
+    return { data: (data || []).map(row => row.case_id as string), error: null };
+  } catch (error) {
+    console.error('Error loading case memberships:', error);
+    return { data: null, error: toError(error, 'Failed to load case memberships') };
+  }
+};
+
+/** The case's members, owner first. */
+export const getCaseMembers = async (caseId: string): Promise<{ data: CaseMember[] | null; error: Error | null }> => {
+  try {
+    await requireCaseAccess(caseId, 'view');
+    const [{ data: caseRow, error: caseError }, { data, error }] = await Promise.all([
+      supabase.from('cases').select('owner_id').eq('id', caseId).maybeSingle(),
+      supabase
+        .from('case_collaborators')
+        .select('*')
+        .eq('case_id', caseId)
+        .order('created_at', { ascending: true }),
+    ]);
+    if (caseError) throw caseError;
+    if (error) throw error;
+    const members = ((data || []) as CaseCollaboratorRow[]).map(row => toCaseMember(row, caseRow?.owner_id ?? null));
+    return { data: [...members.filter(member => member.role === 'owner'), ...members.filter(member => member.role !== 'owner')], error: null };
+  } catch (error) {
+    console.error(`Error loading members of case ${caseId}:`, error);
+    return { data: null, error: toError(error, 'Failed to load members') };
+  }
+};
+
+/** Adds the current user to a case they have just created as its owner. */
+export const addCaseOwner = async (caseId: string): Promise<{ error: Error | null }> => {
+  try {
+    const me = await currentUserIdentity();
+    const { error } = await supabase.from('case_collaborators').insert({
+      case_id: caseId,
+      user_id: me.id,
+      role: 'owner',
+      user_email: me.email,
+      user_name: me.name,
+      created_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error(`Error adding the owner of case ${caseId}:`, error);
+    return { error: toError(error, 'Failed to add the case owner') };
+  }
+};
+
+/** Invites someone by email to a case, as a role the current user is allowed to assign. */
+export const inviteCaseMember = async (
+  caseId: string,
+  email: string,
+  role: CaseRole
+): Promise<{ data: Invitation | null; error: Error | null }> => {
+  try {
+    const myRole = await requireCaseAccess(caseId, 'manage_members');
+    if (!assignableRoles(myRole).includes(role)) throw new Error(`You cannot invite people as ${role}.`);
+    if (!isValidEmail(email)) throw new Error('Enter a valid email address.');
+    const invitee = normalizeEmail(email);
+
+    const { data: existing, error: existingError } = await supabase
+      .from('case_collaborators')
+      .select('user_id')
+      .eq('case_id', caseId)
+      .eq('user_email', invitee)
+      .maybeSingle();
+    if (existingError) throw existingError;
+    if (existing) throw new Error(`${invitee} is already a member of this matter.`);
+
+    const me = await currentUserIdentity();
+    // Re-inviting replaces the pending invitation, e.g. to change its role
+    await supabase.from('invitations').delete().eq('case_id', caseId).eq('email', invitee).is('accepted_at', null);
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({ email: invitee, case_id: caseId, role, invited_by: me.id, invited_by_name: me.name })
+      .select(INVITATION_SELECT)
+      .single();
+    if (error) throw error;
+    return { data: toInvitation(data as InvitationRow), error: null };
+  } catch (error) {
+    console.error(`Error inviting ${email} to case ${caseId}:`, error);
+    return { data: null, error: toError(error, 'Failed to send the invitation') };
+  }
+};
+
+/** Changes a member's role, if the current user may manage both their current and new role. */
+export const updateCaseMemberRole = async (
+  caseId: string,
+  member: CaseMember,
+  role: CaseRole
+): Promise<{ error: Error | null }> => {
+  try {
+    const myRole = await requireCaseAccess(caseId, 'manage_members');
+    if (!canManageMember(myRole, member.role) || !assignableRoles(myRole).includes(role)) {
+      throw new Error('You cannot change this member to that role.');
+    }
+    const { error } = await supabase
+      .from('case_collaborators')
+      .update({ role })
+      .eq('case_id', caseId)
+      .eq('user_id', member.userId);
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error(`Error changing the role of ${member.userId} on case ${caseId}:`, error);
+    return { error: toError(error, 'Failed to change the role') };
+  }
+};
+
+/** Removes a member from a case. Members other than the owner can also remove themselves. */
+export const removeCaseMember = async (caseId: string, member: CaseMember): Promise<{ error: Error | null }> => {
+  try {
+    const user = await requireUser();
+    const isLeaving = member.userId === user.id && member.role !== 'owner';
+    if (!isLeaving) {
+      const myRole = await requireCaseAccess(caseId, 'manage_members');
+      if (!canManageMember(myRole, member.role)) throw new Error('You cannot remove this member.');
+    }
+    const { error } = await supabase
+      .from('case_collaborators')
+      .delete()
+      .eq('case_id', caseId)
+      .eq('user_id', member.userId);
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error(`Error removing ${member.userId} from case ${caseId}:`, error);
+    return { error: toError(error, 'Failed to remove the member') };
+  }
+};
+
+// ---- Organisations ----
+
+/** The organisations the current user belongs to, with their role in each. */
+export const getMyOrganizations = async (): Promise<{ data: Organization[] | null; error: Error | null }> => {
+  try {
+    const user = await requireUser();
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*, organizations(name, created_at)')
+      .eq('user_id', user.id);
+    if (error) throw error;
+    const organizations = ((data || []) as OrganizationMemberRow[])
+      .filter(row => row.organizations)
+      .map(row => ({
+        id: row.organization_id,
+        name: row.organizations!.name,
+        role: row.role,
+        createdAt: row.organizations!.created_at,
+      }));
+    return { data: organizations.sort((a, b) => a.name.localeCompare(b.name)), error: null };
+  } catch (error) {
+    console.error('Error loading organisations:', error);
+    return { data: null, error: toError(error, 'Failed to load organisations') };
+  }
+};
+
+/** Creates an organisation with the current user as its admin. */
+export const createOrganization = async (name: string): Promise<{ data: Organization | null; error: Error | null }> => {
+  try {
+    if (!name.trim()) throw new Error('An organisation needs a name.');
+    const me = await currentUserIdentity();
+    const { data, error } = await supabase
+      .from('organizations')
+      .insert({ name: name.trim(), created_by: me.id })
+      .select('*')
+      .single();
+    if (error) throw error;
+    const { error: memberError } = await supabase.from('organization_members').insert({
+      organization_id: data.id,
+      user_id: me.id,
+      role: 'admin',
+      user_email: me.email,
+      user_name: me.name,
+    });
+    if (memberError) throw memberError;
+    return { data: { id: data.id, name: data.name, role: 'admin', createdAt: data.created_at }, error: null };
+  } catch (error) {
+    console.error('Error creating organisation:', error);
+    return { data: null, error: toError(error, 'Failed to create organisation') };
+  }
+};
+
+export const getOrganizationMembers = async (
+  organizationId: string
+): Promise<{ data: OrganizationMember[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('joined_at', { ascending: true });
+    if (error) throw error;
+    return { data: ((data || []) as OrganizationMemberRow[]).map(toOrganizationMember), error: null };
+  } catch (error) {
+    console.error(`Error loading members of organisation ${organizationId}:`, error);
+    return { data: null, error: toError(error, 'Failed to load organisation members') };
+  }
+};
+
+const requireOrganizationAdmin = async (organizationId: string) => {
+  const user = await requireUser();
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (data?.role !== 'admin') throw new Error('Only organisation admins can manage its members.');
+};
+
+export const inviteOrganizationMember = async (
+  organizationId: string,
+  email: string,
+  role: OrganizationRole
+): Promise<{ data: Invitation | null; error: Error | null }> => {
+  try {
+    await requireOrganizationAdmin(organizationId);
+    if (!isValidEmail(email)) throw new Error('Enter a valid email address.');
+    const invitee = normalizeEmail(email);
+    const me = await currentUserIdentity();
+    await supabase.from('invitations').delete().eq('organization_id', organizationId).eq('email', invitee).is('accepted_at', null);
+    const { data, error } = await supabase
+      .from('invitations')
+      .insert({ email: invitee, organization_id: organizationId, role, invited_by: me.id, invited_by_name: me.name })
+      .select(INVITATION_SELECT)
+      .single();
+    if (error) throw error;
+    return { data: toInvitation(data as InvitationRow), error: null };
+  } catch (error) {
+    console.error(`Error inviting ${email} to organisation ${organizationId}:`, error);
+    return { data: null, error: toError(error, 'Failed to send the invitation') };
+  }
+};
+
+export const removeOrganizationMember = async (
+  organizationId: string,
+  userId: string
+): Promise<{ error: Error | null }> => {
+  try {
+    const user = await requireUser();
+    if (userId !== user.id) await requireOrganizationAdmin(organizationId);
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId);
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error(`Error removing ${userId} from organisation ${organizationId}:`, error);
+    return { error: toError(error, 'Failed to remove the member') };
+  }
+};
+
+// ---- Invitations ----
+
+/** Pending invitations sent from a case or organisation. */
+export const getPendingInvitations = async (
+  target: { caseId: string } | { organizationId: string }
+): Promise<{ data: Invitation[] | null; error: Error | null }> => {
+  try {
+    let request = supabase.from('invitations').select(INVITATION_SELECT).is('accepted_at', null);
+    request = 'caseId' in target
+      ? request.eq('case_id', target.caseId)
+      : request.eq('organization_id', target.organizationId);
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw error;
+    return { data: ((data || []) as InvitationRow[]).map(toInvitation), error: null };
+  } catch (error) {
+    console.error('Error loading pending invitations:', error);
+    return { data: null, error: toError(error, 'Failed to load invitations') };
+  }
+};
+
+/** Pending invitations addressed to the current user's email. */
+export const getMyInvitations = async (): Promise<{ data: Invitation[] | null; error: Error | null }> => {
+  try {
+    const user = await requireUser();
+    if (!user.email) return { data: [], error: null };
+    const { data, error } = await supabase
+      .from('invitations')
+      .select(INVITATION_SELECT)
+      .eq('email', normalizeEmail(user.email))
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return { data: ((data || []) as InvitationRow[]).map(toInvitation), error: null };
+  } catch (error) {
+    console.error('Error loading your invitations:', error);
+    return { data: null, error: toError(error, 'Failed to load your invitations') };
+  }
+};
+
+/** Withdraws a pending invitation. */
+export const revokeInvitation = async (invitation: Invitation): Promise<{ error: Error | null }> => {
+  try {
+    if (invitation.caseId) await requireCaseAccess(invitation.caseId, 'manage_members');
+    else if (invitation.organizationId) await requireOrganizationAdmin(invitation.organizationId);
+    const { error } = await supabase.from('invitations').delete().eq('id', invitation.id);
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error(`Error revoking invitation ${invitation.id}:`, error);
+    return { error: toError(error, 'Failed to revoke the invitation') };
+  }
+};
+
+/**
+ * Accepts or declines an invitation addressed to the current user. Membership is granted by the
+ * accept-invitation function, which checks the invitation was sent to the signed-in email by
+ * someone who may still grant its role.
+ */
+export const respondToInvitation = async (
+  invitationId: string,
+  accept: boolean
+): Promise<{ error: Error | null }> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('accept-invitation', {
+      body: { invitationId, decline: !accept },
+    });
+    if (error) {
+      const detail = error instanceof FunctionsHttpError
+        ? (await error.context.json().catch(() => null))?.error
+        : null;
+      throw new Error(detail || `Function invocation failed: ${error.message}`);
+    }
+    if (!data?.success) throw new Error(data?.error || 'Failed to respond to the invitation');
+    return { error: null };
+  } catch (error) {
+    console.error(`Error responding to invitation ${invitationId}:`, error);
+    return { error: toError(error, 'Failed to respond to the invitation') };
+  }
+};
@@ -0,0 +1,89 @@
+import { supabase } from '@/lib/supabaseClient';
+import { Playbook, PlaybookRule } from '@/types/playbook';
+
+// Row shape of the playbooks table; the rules are kept together as JSON
+interface PlaybookRow {
+  id: string;
+  name: string;
+  contract_type: string;
+  description: string | null;
+  rules: PlaybookRule[] | null;
+  owner_id: string;
+  organization_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PlaybookInput = Pick<Playbook, 'name' | 'contractType' | 'description' | 'rules' | 'organizationId'>;
+
+const toPlaybook = (row: PlaybookRow): Playbook => ({
+  id: row.id,
+  name: row.name,
+  contractType: row.contract_type,
+  description: row.description ?? '',
+  rules: Array.isArray(row.rules) ? row.rules : [],
+  ownerId: row.owner_id,
+  organizationId: row.organization_id,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toRow = (input: PlaybookInput) => ({
+  name: input.name.trim(),
+  contract_type: input.contractType.trim(),
+  description: input.description.trim() || null,
+  rules: input.rules,
+  organization_id: input.organizationId,
+});
+
+/**
+ * The playbooks the user can review against: their own and their organisation's (row level
+ * security decides which), by contract type and name.
+ */
+export const getPlaybooks = async (): Promise<{ data: Playbook[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('playbooks')
+      .select('*')
+      .order('contract_type', { ascending: true })
+      .order('name', { ascending: true });
+    if (error) throw error;
+    return { data: ((data || []) as PlaybookRow[]).map(toPlaybook), error: null };
+  } catch (error) {
+    console.error('Error loading playbooks:', error);
+    return { data: null, error: error instanceof Error ? error : new Error('Failed to load playbooks') };
+  }
+};
+
+/** Creates a playbook owned by the current user, or updates it when an id is given. */
+export const savePlaybook = async (
+  input: PlaybookInput,
+  playbookId?: string
+): Promise<{ data: Playbook | null; error: Error | null }> => {
+  try {
+    if (!input.name.trim()) throw new Error('A playbook needs a name.');
+    if (!input.contractType.trim()) throw new Error('A playbook needs a contract type.');
+
+    let ownerId: string | undefined;
+    if (!playbookId) {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      ownerId = user.id;
+    }
+
+    const { data, error } = playbookId
+      ? await supabase.from('playbooks').update({ ...toRow(input), updated_at: new Date().toISOString() }).eq('id', playbookId).select('*').single()
+      : await supabase.from('playbooks').insert({ ...toRow(input), owner_id: ownerId }).select('*').single();
+    if (error) throw error;
+    return { data: toPlaybook(data as PlaybookRow), error: null };
+  } catch (error) {
+    console.error(`Error saving playbook${playbookId ? ` ${playbookId}` : ''}:`, error);
+    return { data: null, error: error instanceof Error ? error : new Error('Failed to save playbook') };
+  }
+};
+
+export const deletePlaybook = async (playbookId: string): Promise<{ error: Error | null }> => {
+  const { error } = await supabase.from('playbooks').delete().eq('id', playbookId);
+  if (error) console.error(`Error deleting playbook ${playbookId}:`, error);
+  return { error: error ?? null };
+};
@@ -0,0 +1,191 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { EmailMetadata } from '@/types/document';
+import { PrivilegeBasis, PrivilegeLogEntry } from '@/types/privilegeLog';
+import { formatBatesNumber } from '@/utils/bates';
+import { describePrivilegedDocument, privilegeBasesFromCategories, privilegeLogToHtml } from '@/utils/privilegeLog';
+
+// Row shape of the privilege_log_entries table, which holds the reviewer's edits to a pre-filled row
+interface PrivilegeLogEntryRow {
+  document_id: string;
+  entry_date: string | null;
+  author: string;
+  recipients: string;
+  privilege_basis: PrivilegeBasis[];
+  description: string;
+  excluded: boolean;
+}
+
+interface FlaggedDocumentRow {
+  id: string;
+  filename: string;
+  parent_document_id: string | null;
+  email_metadata: EmailMetadata | null;
+}
+
+// Category of every flagged passage, from each document's latest privilegedTerms analysis
+const loadFlaggedCategories = async (documentIds: string[]): Promise<Map<string, string[]>> => {
+  const { data, error } = await supabase
+    .from('document_analyses')
+    .select('document_id, result, created_at')
+    .in('document_id', documentIds)
+    .eq('analysis_type', 'privilegedTerms')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const flagged = new Map<string, string[]>();
+  const seen = new Set<string>();
+  for (const row of (data || []) as { document_id: string; result: { privilegedTerms?: { category?: string }[] } | null }[]) {
+    if (seen.has(row.document_id)) continue; // Older analysis of the same document
+    seen.add(row.document_id);
+    const terms = Array.isArray(row.result?.privilegedTerms) ? row.result.privilegedTerms : [];
+    if (terms.length > 0) flagged.set(row.document_id, terms.map(term => term.category || '').filter(Boolean));
+  }
+  return flagged;
+};
+
+// Slip sheet Bates number of documents withheld from a production
+const loadWithheldBatesNumbers = async (caseId: string): Promise<Map<string, string>> => {
+  const { data, error } = await supabase
+    .from('production_documents')
+    .select('document_id, bates_prefix, bates_start, productions(bates_digits)')
+    .eq('case_id', caseId)
+    .eq('withheld', true);
+  if (error) throw error;
+
+  const labels = new Map<string, string>();
+  for (const row of data || []) {
+    // The embedded relation comes back as an object (many-to-one), typed loosely by the client
+    const production = row.productions as unknown as { bates_digits: number } | null;
+    labels.set(row.document_id, formatBatesNumber(row.bates_prefix, production?.bates_digits ?? 0, row.bates_start));
+  }
+  return labels;
+};
+
+/**
+ * Builds the privilege log of a case: one row per document flagged by the privilegedTerms
+ * analysis, pre-filled from the email headers and the flagged categories, with the reviewer's
+ * saved edits applied on top.
+ */
+export const getPrivilegeLog = async (
+  caseId: string
+): Promise<{ data: PrivilegeLogEntry[] | null; error: Error | null }> => {
+  try {
+    const { data: documents, error: documentsError } = await supabase
+      .from('documents')
+      .select('id, filename, parent_document_id, email_metadata')
+      .eq('case_id', caseId)
+      .eq('is_deleted', false)
+      .order('uploaded_at', { ascending: true });
+    if (documentsError) throw documentsError;
+    if (!documents || documents.length === 0) return { data: [], error: null };
+
+    const [flagged, batesNumbers, { data: saved, error: savedError }] = await Promise.all([
+      loadFlaggedCategories(documents.map(doc => doc.id)),
+      loadWithheldBatesNumbers(caseId),
+      supabase.from('privilege_log_entries').select('*').eq('case_id', caseId),
+    ]);
+    if (savedError) throw savedError;
+    const edits = new Map((saved as PrivilegeLogEntryRow[] || []).map(row => [row.document_id, row]));
+
+    const entries = (documents as FlaggedDocumentRow[])
+      .filter(doc => flagged.has(doc.id))
+      .map((doc): PrivilegeLogEntry => {
+        const categories = flagged.get(doc.id)!;
+        const bases = privilegeBasesFromCategories(categories);
+        const email = doc.email_metadata;
+        const kind = doc.parent_document_id ? 'attachment' : email ? 'email' : 'document';
+        const edit = edits.get(doc.id);
+        return {
+          documentId: doc.id,
+          filename: doc.filename,
+          batesNumber: batesNumbers.get(doc.id) ?? null,
+          date: edit ? edit.entry_date : email?.sentAt?.slice(0, 10) ?? null,
+          author: edit ? edit.author : email?.from ?? '',
+          recipients: edit ? edit.recipients : [email?.to, email?.cc].filter(Boolean).join(', '),
+          bases: edit ? edit.privilege_basis : bases,
+          description: edit ? edit.description : describePrivilegedDocument(kind, bases),
+          flaggedCategories: Array.from(new Set(categories)),
+          excluded: edit?.excluded ?? false,
+          edited: !!edit,
+        };
+      });
+
+    // Attachments follow their parent email, as they do in productions
+    const byId = new Map(entries.map(entry => [entry.documentId, entry]));
+    const parentOf = new Map((documents as FlaggedDocumentRow[]).map(doc => [doc.id, doc.parent_document_id]));
+    const ordered: PrivilegeLogEntry[] = [];
+    for (const entry of entries) {
+      if (parentOf.get(entry.documentId) && byId.has(parentOf.get(entry.documentId)!)) continue;
+      ordered.push(entry);
+      ordered.push(...entries.filter(child => parentOf.get(child.documentId) === entry.documentId));
+    }
+    return { data: ordered, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error building privilege log';
+    console.error(`Error building privilege log for case ${caseId}:`, message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
+
+/**
+ * Saves the reviewer's version of a privilege log row
+ */
+export const savePrivilegeLogEntry = async (
+  caseId: string,
+  entry: PrivilegeLogEntry
+): Promise<{ error: Error | null }> => {
+  try {
+    const { error } = await supabase
+      .from('privilege_log_entries')
+      .upsert({
+        case_id: caseId,
+        document_id: entry.documentId,
+        entry_date: entry.date || null,
+        author: entry.author,
+        recipients: entry.recipients,
+        privilege_basis: entry.bases,
+        description: entry.description,
+        excluded: entry.excluded,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'case_id,document_id' });
+    if (error) throw error;
+    return { error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error saving privilege log entry';
+    console.error(`Error saving privilege log entry for document ${entry.documentId}:`, message);
+    return { error: error instanceof Error ? error : new Error(message) };
+  }
+};
+
+/**
+ * Renders the privilege log as a Word table via the generate-docx function
+ */
+export const exportPrivilegeLogDocx = async (
+  entries: PrivilegeLogEntry[],
+  title: string
+): Promise<{ data: { downloadUrl: string; fileName: string } | null; error: Error | null }> => {
+  try {
+    const { data, error: functionError } = await supabase.functions.invoke<{
+      success?: boolean;
+      downloadUrl?: string;
+      fileName?: string;
+      error?: string;
+    }>('generate-docx', { body: { htmlContent: privilegeLogToHtml(entries, title), filename: title } });
+
+    if (functionError) {
+      const detail = functionError instanceof FunctionsHttpError
+        ? (await functionError.context.json().catch(() => null))?.error
+        : null;
+      throw new Error(detail || `Function invocation failed: ${functionError.message}`);
+    }
+    if (!data?.success || !data.downloadUrl) {
+      throw new Error(data?.error || 'Privilege log could not be exported.');
+    }
+    return { data: { downloadUrl: data.downloadUrl, fileName: data.fileName || `${title}.docx` }, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error exporting privilege log';
+    console.error('Error in exportPrivilegeLogDocx:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
@@ -0,0 +1,143 @@
+import { supabase } from '@/lib/supabaseClient';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { BatesLocation, CreateProductionOptions, Production } from '@/types/production';
+import { PageMapEntry } from '@/types/document';
+import { formatBatesNumber, parseBatesNumber } from '@/utils/bates';
+
+// Row shape of the productions table
+interface ProductionRow {
+  id: string;
+  case_id: string;
+  name: string;
+  bates_prefix: string;
+  bates_digits: number;
+  bates_start: number;
+  bates_end: number;
+  document_count: number;
+  page_count: number;
+  storage_path: string;
+  created_at: string;
+}
+
+const mapProduction = (row: ProductionRow): Production => ({
+  id: row.id,
+  caseId: row.case_id,
+  name: row.name,
+  batesPrefix: row.bates_prefix,
+  batesDigits: row.bates_digits,
+  batesStart: row.bates_start,
+  batesEnd: row.bates_end,
+  documentCount: row.document_count,
+  pageCount: row.page_count,
+  storagePath: row.storage_path,
+  createdAt: row.created_at,
+});
+
+/**
+ * Bates-numbers the given documents, stamps them and builds the production ZIP (stamped PDFs,
+ * natives and the CSV production log) via the create-production function.
+ */
+export const createProduction = async (
+  options: CreateProductionOptions
+): Promise<{ data: { production: Production; downloadUrl: string; fileName: string } | null; error: Error | null }> => {
+  try {
+    const { data, error: functionError } = await supabase.functions.invoke<{
+      success: boolean;
+      production?: ProductionRow;
+      downloadUrl?: string;
+      fileName?: string;
+      error?: string;
+    }>('create-production', { body: options });
+
+    if (functionError) {
+      // Validation failures (e.g. Bates numbers already used) come back as non-2xx responses
+      const detail = functionError instanceof FunctionsHttpError
+        ? (await functionError.context.json().catch(() => null))?.error
+        : null;
+      throw new Error(detail || `Function invocation failed: ${functionError.message}`);
+    }
+    if (!data?.success || !data.production || !data.downloadUrl) {
+      throw new Error(data?.error || 'Production could not be created.');
+    }
+
+    return {
+      data: { production: mapProduction(data.production), downloadUrl: data.downloadUrl, fileName: data.fileName || `${data.production.name}.zip` },
+      error: null,
+    };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error creating production';
+    console.error('Error in createProduction:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
+
+/**
+ * Productions of a case, newest first
+ */
+export const getCaseProductions = async (
+  caseId: string
+): Promise<{ data: Production[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('productions')
+      .select('*')
+      .eq('case_id', caseId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return { data: (data || []).map(row => mapProduction(row as ProductionRow)), error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error loading productions';
+    console.error(`Error loading productions for case ${caseId}:`, message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
+
+/**
+ * Resolves a Bates number (e.g. "ACME000123") to the produced document and page. Returns
+ * null data when the text isn't a Bates number of any production in the case.
+ */
+export const resolveBatesNumber = async (
+  label: string,
+  caseId: string
+): Promise<{ data: BatesLocation | null; error: Error | null }> => {
+  try {
+    const { data: productions, error: productionsError } = await getCaseProductions(caseId);
+    if (productionsError) throw productionsError;
+    const parsed = parseBatesNumber(label, (productions || []).map(p => p.batesPrefix));
+    if (!parsed) return { data: null, error: null };
+
+    const { data: row, error } = await supabase
+      .from('production_documents')
+      .select('production_id, document_id, bates_start, withheld, rendering, documents(filename, page_map)')
+      .eq('case_id', caseId)
+      .eq('bates_prefix', parsed.prefix)
+      .lte('bates_start', parsed.number)
+      .gte('bates_end', parsed.number)
+      .maybeSingle();
+    if (error) throw error;
+    if (!row) return { data: null, error: null };
+
+    const production = productions!.find(p => p.id === row.production_id);
+    // The embedded relation comes back as an object (many-to-one), typed loosely by the client
+    const document = row.documents as unknown as { filename: string; page_map: PageMapEntry[] | null } | null;
+    const page = parsed.number - row.bates_start + 1;
+    const pageEntry = row.rendering === 'original' ? document?.page_map?.find(entry => entry.page === page) : undefined;
+    return {
+      data: {
+        label: formatBatesNumber(parsed.prefix, production?.batesDigits ?? 0, parsed.number),
+        documentId: row.document_id,
+        filename: document?.filename ?? 'Document',
+        productionId: row.production_id,
+        productionName: production?.name ?? '',
+        page,
+        withheld: row.withheld,
+        passage: pageEntry ? { start: pageEntry.start, end: pageEntry.end } : null,
+      },
+      error: null,
+    };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error resolving Bates number';
+    console.error(`Error resolving Bates number ${label}:`, message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
@@ -2,11 +2,33 @@ import { supabase } from '../lib/supabaseClient'; // Import supabase
 import { openai } from '../lib/openaiClient';
 import { v4 as uuidv4 } from 'uuid';
 import { PostgrestError } from '@supabase/supabase-js';
+import { CaseAction } from '@/types/membership';
+import { requireCaseAccess } from './membershipService';
 
 // Utility to escape RegExp special characters when replacing variables
 const escapeRegExp = (str: string): string =>
   str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
+/**
+ * Throws unless the current user may perform the action on a draft: drafts in a case follow the
+ * user's role on the case, other drafts are their creator's alone.
+ */
+const requireDraftAccess = async (draftId: string, action: CaseAction): Promise<void> => {
+  const { data, error } = await supabase
+    .from('document_drafts')
+    .select('user_id, case_id')
+    .eq('id', draftId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('Draft not found.');
+  if (data.case_id) {
+    await requireCaseAccess(data.case_id, action);
+    return;
+  }
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || data.user_id !== user.id) throw new Error('Draft not found or access denied.');
+};
+
 /**
  * Interface for document template
  */
@@ -435,6 +457,7 @@ export const getCaseVariables = async (
   caseId: string
 ): Promise<{ data: Record<string, string> | null; error: PostgrestError | Error | null }> => {
   try {
+    await requireCaseAccess(caseId, 'view');
     const { data, error } = await supabase
       .from('template_case_variables')
       .select<string, CaseVariable>('variable_name, variable_value') // Specify type
@@ -482,6 +505,7 @@ export const getCaseFields = async (
   caseId: string
 ): Promise<{ data: Record<string, string> | null; error: PostgrestError | Error | null }> => {
   try {
+    await requireCaseAccess(caseId, 'view');
     // Fetch case data from the cases table
     const { data: caseData, error: caseError } = await supabase
       .from('cases')
@@ -546,6 +570,7 @@ export const createDraftFromTemplate = async (
   caseId?: string
 ): Promise<{ data: DocumentDraft | null; error: Error | null }> => {
   try {
+    if (caseId) await requireCaseAccess(caseId, 'edit');
     // Get the template
     const { data: template, error: templateError } = await getTemplateById(templateId);
 
@@ -612,7 +637,7 @@ export const createDraftFromTemplate = async (
 };
 
 /**
- * Get all drafts for the current user
+ * Get the current user's drafts, or every draft in a case they are a member of
  */
 export const getUserDrafts = async (
   caseId?: string
@@ -627,11 +652,13 @@ export const getUserDrafts = async (
     let query = supabase
       .from('document_drafts')
       .select('*')
-      .eq('user_id', user.id)
       .order('updated_at', { ascending: false });
 
     if (caseId) {
+      await requireCaseAccess(caseId, 'view');
       query = query.eq('case_id', caseId);
+    } else {
+      query = query.eq('user_id', user.id);
     }
 
     const { data, error } = await query;
@@ -667,6 +694,7 @@ export const getDraftById = async (
   draftId: string
 ): Promise<{ data: DocumentDraft | null; error: Error | null }> => {
   try {
+    await requireDraftAccess(draftId, 'view');
     const { data, error } = await supabase
       .from('document_drafts')
       .select('*')
@@ -704,6 +732,8 @@ export const updateDraft = async (
   updates: Partial<Omit<DocumentDraft, 'id' | 'createdAt' | 'updatedAt' | 'templateId'>> 
 ): Promise<{ success: boolean; error: PostgrestError | Error | null }> => {
   try {
+    await requireDraftAccess(draftId, 'edit');
+    if (updates.caseId) await requireCaseAccess(updates.caseId, 'edit');
     const dbUpdates: Partial<RawDocumentDraft> = {
         name: updates.name,
         content: updates.content,
@@ -739,6 +769,7 @@ export const deleteDraft = async (
   draftId: string
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
+    await requireDraftAccess(draftId, 'edit');
     const { error } = await supabase
       .from('document_drafts')
       .delete()
@@ -769,6 +800,7 @@ export const createAIDraft = async (
     if (!user) {
       throw new Error('User not authenticated');
     }
+    if (caseId) await requireCaseAccess(caseId, 'edit');
     const draftId = uuidv4();
     const now = new Date().toISOString();
     const { data, error } = await supabase
@@ -828,6 +860,7 @@ export const createBlankDraft = async (
       // Use return instead of throw for consistent error handling
       return { data: null, error: new Error('User not authenticated') };
     }
+    if (caseId) await requireCaseAccess(caseId, 'edit');
 
     const draftId = uuidv4();
     const now = new Date().toISOString();
@@ -1070,7 +1103,6 @@ export const generateAndSaveAITemplate = async (
         body: { 
           instructions,
           category,
-          userId: user.id,
           suggestedName: name, // Pass optional name
           suggestedDescription: description // Pass optional description
         },
@@ -0,0 +1,61 @@
+import { supabase } from '@/lib/supabaseClient';
+import { AiUsageRecord, AiUsageStatus } from '@/types/usage';
+
+// Row shape of the ai_usage ledger, written only by the edge functions (see supabase/functions/_shared/usage.ts)
+interface AiUsageRow {
+  id: string;
+  created_at: string;
+  function_name: string;
+  feature: string | null;
+  model: string | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  latency_ms: number | null;
+  status: AiUsageStatus;
+  error: string | null;
+  counted: boolean;
+  case_id: string | null;
+}
+
+/**
+ * The current user's AI calls since the given time, newest first, with the name of the case each
+ * was made for. RLS limits the ledger to the user's own rows.
+ */
+export const getAiUsage = async (
+  since: Date
+): Promise<{ data: AiUsageRecord[] | null; error: Error | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('ai_usage')
+      .select('id, created_at, function_name, feature, model, input_tokens, output_tokens, latency_ms, status, error, counted, case_id, cases(name)')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+
+    const records = (data || []).map((row): AiUsageRecord => {
+      const usage = row as unknown as AiUsageRow;
+      // The embedded relation comes back as an object (many-to-one), typed loosely by the client
+      const linkedCase = row.cases as unknown as { name: string } | null;
+      return {
+        id: usage.id,
+        createdAt: usage.created_at,
+        functionName: usage.function_name,
+        feature: usage.feature || usage.function_name,
+        model: usage.model,
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        latencyMs: usage.latency_ms,
+        status: usage.status,
+        error: usage.error,
+        counted: usage.counted,
+        caseId: usage.case_id,
+        caseName: linkedCase?.name ?? null,
+      };
+    });
+    return { data: records, error: null };
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error loading AI usage';
+    console.error('Error loading AI usage:', message);
+    return { data: null, error: error instanceof Error ? error : new Error(message) };
+  }
+};
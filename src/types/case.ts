@@ -1,3 +1,5 @@
+import { CaseRole } from './membership';
+
 export interface Case {
   id: string;
   name: string;
@@ -10,6 +12,8 @@ export interface Case {
   opposing_party: string | null;
   court: string | null;
   documentCount?: number;
+  organizationId?: string | null; // The firm the case belongs to
+  role?: CaseRole; // The current user's role on the case
   // Add other relevant case fields here if known
   // e.g., created_at?: string;
   // user_id?: string;
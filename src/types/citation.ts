@@ -0,0 +1,32 @@
+// Citation verification results, as returned by the verify-citations function
+// (mirrors VerifiedCitation in supabase/functions/_shared/citationResolvers.ts)
+
+export type CitationType = 'case' | 'statute' | 'regulation' | 'federalRegister' | 'publicLaw';
+
+export type CitationStatus = 'verified' | 'mismatch' | 'not_found' | 'unverifiable' | 'error';
+
+export interface CitationOccurrence {
+  text: string;
+  start: number; // Offsets into the checked text
+  end: number;
+  pinpoint: string | null;
+  shortForm: boolean; // "Roe, 410 U.S. at 113" or "Id."
+}
+
+export interface VerifiedCitation {
+  citation: string;
+  verified: boolean;
+  correctedCitation?: string;
+  court?: string;
+  date?: string;
+  summary?: string;
+  sources?: {
+    title: string;
+    url: string;
+  }[];
+  error?: string;
+  // Only set by verify-citations; chat verification messages carry the fields above
+  type?: CitationType;
+  status?: CitationStatus;
+  occurrences?: CitationOccurrence[];
+}
@@ -0,0 +1,36 @@
+// Types for the clause library
+
+export type ClauseApprovalStatus = 'draft' | 'approved' | 'deprecated';
+
+/**
+ * A reusable clause snippet. `content` is editor HTML; placeholders are variable marks
+ * (`<span data-variable-name="...">`) so they survive insertion into a document.
+ */
+export interface LibraryClause {
+  id: string;
+  title: string;
+  category: string; // e.g. "Confidentiality", "Limitation of liability"
+  jurisdiction: string; // e.g. "England & Wales"; '' when not jurisdiction-specific
+  content: string;
+  tags: string[];
+  approvalStatus: ClauseApprovalStatus;
+  ownerId: string;
+  organizationId: string | null; // Shared with the organisation's members when set
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClauseSearchFilters {
+  query?: string; // Matched against title, content and tags
+  category?: string;
+  jurisdiction?: string;
+  approvalStatus?: ClauseApprovalStatus;
+  limit?: number;
+}
+
+/** How closely a library clause matches a clause found in a document. */
+export interface SimilarClauseMatch {
+  clause: LibraryClause;
+  match: 'equivalent' | 'close' | 'partial';
+  differences: string; // What the document's clause does differently, in plain words
+}
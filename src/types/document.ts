@@ -56,6 +56,28 @@ export type ProcessingStatus =
   | 'embedding_failed'
   | 'draft';
 
+// Page number -> character range in extractedText, written by extract-text for PDFs, DOCX and OCR'd files
+export interface PageMapEntry {
+  page: number; // 1-based
+  start: number;
+  end: number;
+  lineStarts: number[]; // Offset of each line on the page (line n = lineStarts[n - 1])
+  ocrConfidence?: number | null; // 0-100, only for OCR'd pages
+}
+
+// Headers of an email document (.eml/.msg, including messages split out of an mbox), written by extract-text
+export interface EmailMetadata {
+  from: string;
+  to: string;
+  cc: string;
+  date: string; // Date header as sent
+  subject: string;
+  messageId: string; // Without angle brackets
+  inReplyTo: string;
+  references: string[];
+  sentAt: string | null; // ISO 8601, null when the Date header can't be parsed
+}
+
 export interface DocumentMetadata {
   id: string;
   filename: string;
@@ -63,11 +85,14 @@ export interface DocumentMetadata {
   caseId: string | null; // Allow null, as per service
   userId: string; // Standardized from ownerId
   uploadDate: string; // Renamed from uploadedAt in service, kept from original type
-  fileType: string | null; // Allow null, as per service and original type
+  fileType: string | null; // Upload's file extension until extract-text replaces it with the detected format ('pdf', 'docx', 'doc', 'rtf', 'eml', 'msg', 'xlsx', ...)
   fileSize: number; // Standardized from size
   contentType: string; // Added from service
   processingStatus: ProcessingStatus;
   extractedText?: string | null;
+  pageMap?: PageMapEntry[] | null; // Absent for formats without pages (plain text, HTML)
+  parentDocumentId?: string | null; // Set on attachments extracted from an email (.eml/.msg) document
+  emailMetadata?: EmailMetadata | null; // Only for email documents
   editedContent?: string | null; // HTML content from editor
   summary?: string | null;
   tags?: string[];
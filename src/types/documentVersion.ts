@@ -0,0 +1,15 @@
+// Types for document version history
+
+/**
+ * One version of a document's content: a snapshot taken when a save replaced it, or (with a null
+ * id) the content the document has now.
+ */
+export interface DocumentVersion {
+  id: string | null;
+  documentId: string;
+  versionNumber: number;
+  content: string; // Editor HTML
+  label: string | null; // e.g. "Sent to opposing counsel"
+  authorName: string | null; // Who saved this content; null for the content the document started with
+  savedAt: string | null;
+}
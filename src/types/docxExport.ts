@@ -0,0 +1,30 @@
+// Word export options accepted by the generate-docx function
+// (mirrors DocxExportOptions and DocxComment in supabase/functions/_shared/docxFormatting.ts)
+
+export interface DocxCaption {
+  attorneyLines?: string[];
+  court: string; // One court name line per "\n"
+  plaintiffs: string;
+  defendants: string;
+  caseNumber: string;
+  documentTitle: string;
+  details?: string[]; // Judge, department, hearing date...
+}
+
+export interface DocxExportOptions {
+  fontFamily?: string;
+  fontSize?: number; // Points
+  lineSpacing?: number; // Ignored on pleading paper, which is always double-spaced
+  margins?: { top?: number; right?: number; bottom?: number; left?: number }; // Inches
+  header?: string;
+  footer?: string;
+  pageNumbers?: boolean;
+  pleadingPaper?: boolean; // 28 numbered lines per page
+  caption?: DocxCaption;
+}
+
+// Comment threads to export as Word comments, anchored by <span data-comment-thread="id"> in the HTML
+export interface DocxComment {
+  id: string;
+  entries: { author: string; date?: string; text: string }[]; // The comment, then its replies
+}
@@ -0,0 +1,62 @@
+// Types for organisations, case membership and invitations
+
+/**
+ * A member's role on a case. The case's creator is its owner; attorneys can also invite and manage
+ * members, paralegals work on the case, and clients can only read it.
+ */
+export type CaseRole = 'owner' | 'attorney' | 'paralegal' | 'client';
+
+export type CaseAction =
+  | 'view' // Read the case, its documents and drafts
+  | 'edit' // Upload, edit and delete documents; create drafts
+  | 'use_ai' // Run analyses, chat and research against the case
+  | 'manage_members' // Invite members and change their roles
+  | 'delete'; // Delete the case
+
+export interface CaseMember {
+  caseId: string;
+  userId: string;
+  role: CaseRole;
+  email: string | null;
+  name: string | null;
+  addedAt: string;
+}
+
+export type OrganizationRole = 'admin' | 'member';
+
+/**
+ * A firm. Playbooks and clauses can be shared with its members, and its members are offered when
+ * inviting people to a case.
+ */
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole; // The current user's role in it
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  email: string | null;
+  name: string | null;
+  joinedAt: string;
+}
+
+/**
+ * An invitation, by email, to join either a case or an organisation. It is accepted by the user
+ * signed in with that email through the accept-invitation function.
+ */
+export interface Invitation {
+  id: string;
+  email: string;
+  caseId: string | null;
+  caseName: string | null;
+  organizationId: string | null;
+  organizationName: string | null;
+  role: CaseRole | OrganizationRole;
+  invitedBy: string;
+  invitedByName: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,15 @@
+// PDF export options accepted by the generate-pdf-from-html function
+// (mirrors PdfExportOptions in supabase/functions/generate-pdf-from-html/layout.ts)
+
+export interface PdfExportOptions {
+  pageSize?: 'letter' | 'legal' | 'a4';
+  margins?: { top?: number; right?: number; bottom?: number; left?: number }; // Inches
+  fontFamily?: 'serif' | 'sans' | 'mono';
+  fontSize?: number; // Points
+  header?: string;
+  footer?: string;
+  pageNumbers?: boolean; // "Page X of Y"; on by default
+  tableOfContents?: boolean; // Built from H1-H3
+  highlightVariables?: boolean; // Template variables in orange bold; off by default
+  title?: string;
+}
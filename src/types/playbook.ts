@@ -0,0 +1,49 @@
+// Types for playbook-driven contract review
+
+export type PlaybookSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * The firm's standard position on one topic of a contract type, e.g. "Limitation of liability".
+ */
+export interface PlaybookRule {
+  id: string;
+  title: string;
+  required: boolean; // The contract must contain a clause on this topic
+  preferredLanguage: string; // The firm's standard wording
+  fallbackPositions: string[]; // Acceptable alternatives, most preferred first
+  unacceptableTerms: string[]; // Terms the firm will not accept, e.g. "uncapped indemnity"
+  severity: PlaybookSeverity; // How much a deviation matters
+  guidance: string; // Notes for the reviewer; may be blank
+}
+
+export interface Playbook {
+  id: string;
+  name: string;
+  contractType: string; // e.g. "NDA", "SaaS agreement"
+  description: string;
+  rules: PlaybookRule[];
+  ownerId: string;
+  organizationId: string | null; // Shared with the organisation's members when set
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PlaybookFindingStatus = 'met' | 'deviates' | 'missing';
+
+/**
+ * How the document measures up against one rule, as returned by the playbook analysis. `text` is
+ * the clause the finding is anchored to, with its position in the extracted text when found.
+ */
+export interface PlaybookFinding {
+  ruleId: string;
+  status: PlaybookFindingStatus;
+  text?: string | null; // Absent when the clause is missing
+  explanation: string;
+  matchedPosition: 'preferred' | 'fallback' | 'unacceptable' | null; // Which of the rule's positions the clause takes
+  start: number | null;
+  end: number | null;
+}
+
+export interface PlaybookResult {
+  playbook: PlaybookFinding[];
+}
@@ -0,0 +1,17 @@
+// Types for the case-level privilege log
+
+export type PrivilegeBasis = 'attorney-client' | 'work-product';
+
+export interface PrivilegeLogEntry {
+  documentId: string;
+  filename: string;
+  batesNumber: string | null; // Bates number of the slip sheet when the document was withheld from a production
+  date: string | null; // YYYY-MM-DD
+  author: string;
+  recipients: string;
+  bases: PrivilegeBasis[];
+  description: string;
+  flaggedCategories: string[]; // Categories reported by the privilegedTerms analysis, for reference while editing
+  excluded: boolean; // Removed from the log by the reviewer
+  edited: boolean; // Row has saved reviewer edits rather than the pre-filled values
+}
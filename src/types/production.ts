@@ -0,0 +1,52 @@
+// A Bates-numbered production of case documents, created by the create-production function
+export interface Production {
+  id: string;
+  caseId: string;
+  name: string;
+  batesPrefix: string;
+  batesDigits: number;
+  batesStart: number;
+  batesEnd: number;
+  documentCount: number;
+  pageCount: number;
+  storagePath: string; // ZIP in the generated-documents bucket
+  createdAt: string;
+}
+
+// One document's Bates range within a production (production_documents)
+export interface ProductionDocument {
+  productionId: string;
+  documentId: string;
+  batesPrefix: string;
+  batesStart: number;
+  batesEnd: number;
+  pageCount: number;
+  privileged: boolean; // Flagged by the privilegedTerms analysis
+  withheld: boolean; // Replaced by a slip sheet
+  producedNatively: boolean;
+  rendering: 'original' | 'image' | 'extracted_text' | 'slip_sheet'; // How the stamped PDF was made
+}
+
+export interface CreateProductionOptions {
+  caseId: string;
+  documentIds: string[];
+  name?: string;
+  prefix: string;
+  startNumber?: number | null; // Omit to continue after the prefix's last production in the case
+  digits?: number;
+  withholdPrivileged?: boolean;
+}
+
+// Where a Bates number points: the produced document and the page within it
+export interface BatesLocation {
+  label: string;
+  documentId: string;
+  filename: string;
+  productionId: string;
+  productionName: string;
+  page: number; // 1-based page of the produced document
+  withheld: boolean;
+  // Character range of that page in the document's extracted text, when the produced pages
+  // are the original PDF's pages and a page map exists
+  passage: { start: number; end: number } | null;
+}
@@ -13,7 +13,27 @@ export interface PerplexitySource {
     // Add other fields if the API provides them (e.g., favicon)
 }
 
+// Passage from one of the active case's documents, cited by case-scoped /research answers
+export interface DocumentCitationSource {
+    type: 'document';
+    documentId: string;
+    filename: string;
+    start: number; // Character offsets into the document's extracted text
+    end: number;
+    snippet: string;
+    similarity?: number;
+    title: string; // "<filename>, <start>", the label the answer cites inline
+    url: string; // In-app jump-to-passage link, built by documentReviewUrl
+}
+
 // General Source type (union or common interface if structures align enough)
-export type SourceInfo = CourtListenerSnippet | PerplexitySource; 
+export type SourceInfo = CourtListenerSnippet | PerplexitySource | DocumentCitationSource;
+
+export const isDocumentCitation = (source: unknown): source is DocumentCitationSource =>
+    typeof source === 'object' && source !== null && (source as { type?: unknown }).type === 'document';
+
+// Link to a document in the reviewer (routed under /app), optionally scrolled to and highlighting a passage
+export const documentReviewUrl = (documentId: string, passage?: { start: number; end: number }): string =>
+    `/app/review/document/${documentId}` + (passage ? `?passageStart=${passage.start}&passageEnd=${passage.end}` : '');
 
 // Other shared types can go here... 
\ No newline at end of file
@@ -0,0 +1,36 @@
+// Types for AI usage metering, read from the ai_usage ledger the edge functions write
+
+export type AiUsageStatus = 'success' | 'error';
+
+export interface AiUsageRecord {
+  id: string;
+  createdAt: string;
+  functionName: string;
+  feature: string; // Finer than the function, e.g. 'analysis:risks'; equals functionName when not split
+  model: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  latencyMs: number | null;
+  status: AiUsageStatus;
+  error: string | null;
+  counted: boolean; // Counted toward the plan's quota; failed calls and background indexing aren't
+  caseId: string | null;
+  caseName: string | null;
+}
+
+export interface AiUsageBreakdownRow {
+  key: string; // Feature key or case id ('' for calls made outside a case)
+  label: string;
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number | null; // Of succeeded calls
+}
+
+export interface AiUsageSummary {
+  totals: AiUsageBreakdownRow;
+  byFeature: AiUsageBreakdownRow[]; // Most calls first
+  byCase: AiUsageBreakdownRow[]; // Most calls first, calls outside a case last
+  byDay: { date: string; calls: number }[]; // YYYY-MM-DD, every day of the period including empty ones
+}
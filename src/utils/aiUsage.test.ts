@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { AiUsageRecord } from '@/types/usage';
+import { aiFeatureLabel, aiUsageByCaseToCsv, summarizeAiUsage } from './aiUsage';
+
+const record = (overrides: Partial<AiUsageRecord>): AiUsageRecord => ({
+  id: 'usage-1',
+  createdAt: '2026-03-02T10:00:00Z',
+  functionName: 'summarize-text',
+  feature: 'summarize-text',
+  model: 'gpt-4o',
+  inputTokens: 1000,
+  outputTokens: 200,
+  latencyMs: 1500,
+  status: 'success',
+  error: null,
+  counted: true,
+  caseId: 'case-1',
+  caseName: 'Acme v. Widgets',
+  ...overrides,
+});
+
+const records = [
+  record({ id: 'a' }),
+  record({ id: 'b', feature: 'analysis:privilegedTerms', functionName: 'analyze-document', latencyMs: 2500 }),
+  record({ id: 'c', createdAt: '2026-03-04T09:00:00Z', status: 'error', error: '429', inputTokens: null, outputTokens: null, latencyMs: 300 }),
+  record({ id: 'd', caseId: 'case-2', caseName: 'Estate of Doe', feature: 'claude-router', functionName: 'claude-router' }),
+  record({ id: 'e', caseId: null, caseName: null, feature: 'rewrite:formal', functionName: 'rewrite-text', inputTokens: 50, outputTokens: 40 }),
+];
+
+describe('AI usage', () => {
+  test('labels features, including split and unknown ones', () => {
+    expect(aiFeatureLabel('summarize-text')).toBe('Summarize');
+    expect(aiFeatureLabel('analysis:privilegedTerms')).toBe('Document analysis (privileged terms)');
+    expect(aiFeatureLabel('rewrite:formal')).toBe('Rewrite (formal)');
+    expect(aiFeatureLabel('new-shiny-feature')).toBe('New shiny feature');
+  });
+
+  test('totals calls, failures, tokens and the latency of succeeded calls', () => {
+    const { totals } = summarizeAiUsage(records, new Date('2026-03-01T00:00:00Z'), new Date('2026-03-05T12:00:00Z'));
+    expect(totals).toMatchObject({ calls: 5, failedCalls: 1, inputTokens: 3050, outputTokens: 640, averageLatencyMs: 1750 });
+  });
+
+  test('breaks calls down by feature and by case, calls outside a case last', () => {
+    const summary = summarizeAiUsage(records, new Date('2026-03-01T00:00:00Z'), new Date('2026-03-05T12:00:00Z'));
+    expect(summary.byFeature.map(row => [row.label, row.calls])).toEqual([
+      ['Summarize', 2], ['Assistant', 1], ['Document analysis (privileged terms)', 1], ['Rewrite (formal)', 1],
+    ]);
+    expect(summary.byCase.map(row => [row.key, row.label, row.calls])).toEqual([
+      ['case-1', 'Acme v. Widgets', 3], ['case-2', 'Estate of Doe', 1], ['', 'No case', 1],
+    ]);
+  });
+
+  test('counts calls for every day of the period, including empty days', () => {
+    const { byDay } = summarizeAiUsage(records, new Date('2026-03-01T18:00:00Z'), new Date('2026-03-05T12:00:00Z'));
+    expect(byDay).toEqual([
+      { date: '2026-03-01', calls: 0 },
+      { date: '2026-03-02', calls: 4 },
+      { date: '2026-03-03', calls: 0 },
+      { date: '2026-03-04', calls: 1 },
+      { date: '2026-03-05', calls: 0 },
+    ]);
+  });
+
+  test('exports calls per case and feature for billing', () => {
+    const csv = aiUsageByCaseToCsv([...records, record({ id: 'f', caseName: '=HYPERLINK("x")', caseId: 'case-3' })]);
+    expect(csv.split('\r\n')).toEqual([
+      'Case,Feature,Calls,Failed Calls,Input Tokens,Output Tokens',
+      '"\'=HYPERLINK(""x"")",Summarize,1,0,1000,200',
+      'Acme v. Widgets,Document analysis (privileged terms),1,0,1000,200',
+      'Acme v. Widgets,Summarize,2,1,1000,200',
+      'Estate of Doe,Assistant,1,0,1000,200',
+      'No case,Rewrite (formal),1,0,50,40',
+      '',
+    ]);
+  });
+});
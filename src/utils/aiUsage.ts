@@ -0,0 +1,111 @@
+import { AiUsageBreakdownRow, AiUsageRecord, AiUsageSummary } from '@/types/usage';
+import { csvCell } from '@/utils/privilegeLog';
+
+const FEATURE_LABELS: Record<string, string> = {
+  'agent-draft': 'Agent drafting',
+  'case-research-rag': 'Case research',
+  'claude-router': 'Assistant',
+  'compare:clauses': 'Clause comparison',
+  'compare:documents': 'Document comparison',
+  'create-template-from-ai': 'Template generation',
+  'deep-research-agent': 'Deep research',
+  'embedding': 'Document indexing',
+  'find-similar-clause': 'Similar clause lookup',
+  'generate-field-suggestion': 'Field suggestions',
+  'generate-inline-text': 'Inline text',
+  'generic-chat-agent': 'Chat',
+  'intelligent-drafting': 'Intelligent drafting',
+  'intelligent-translation': 'Translation',
+  'interpret-search-intent': 'Command palette',
+  'summarize-text': 'Summarize',
+};
+
+// Features split by a sub-type, e.g. 'analysis:risks' or 'rewrite:formal'
+const FEATURE_PREFIX_LABELS: Record<string, string> = {
+  analysis: 'Document analysis',
+  rewrite: 'Rewrite',
+};
+
+const NO_CASE_LABEL = 'No case';
+
+const humanize = (key: string) => key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[-_]+/g, ' ').toLowerCase();
+
+/** Readable name of a feature key from the ai_usage ledger; unknown keys are shown humanized. */
+export function aiFeatureLabel(feature: string): string {
+  if (FEATURE_LABELS[feature]) return FEATURE_LABELS[feature];
+  const [prefix, subType] = feature.split(':', 2);
+  if (subType && FEATURE_PREFIX_LABELS[prefix]) return `${FEATURE_PREFIX_LABELS[prefix]} (${humanize(subType)})`;
+  const label = humanize(feature);
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+const breakdown = (key: string, label: string, records: AiUsageRecord[]): AiUsageBreakdownRow => {
+  const latencies = records.filter(r => r.status === 'success' && r.latencyMs !== null).map(r => r.latencyMs!);
+  return {
+    key,
+    label,
+    calls: records.length,
+    failedCalls: records.filter(r => r.status === 'error').length,
+    inputTokens: records.reduce((sum, r) => sum + (r.inputTokens ?? 0), 0),
+    outputTokens: records.reduce((sum, r) => sum + (r.outputTokens ?? 0), 0),
+    averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length) : null,
+  };
+};
+
+const groupBy = (records: AiUsageRecord[], keyOf: (record: AiUsageRecord) => string) => {
+  const groups = new Map<string, AiUsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return groups;
+};
+
+const byCallsDescending = (a: AiUsageBreakdownRow, b: AiUsageBreakdownRow) => b.calls - a.calls || a.label.localeCompare(b.label);
+
+const caseLabel = (records: AiUsageRecord[]) => records[0].caseId ? records[0].caseName || 'Deleted case' : NO_CASE_LABEL;
+
+/**
+ * Totals and per-feature, per-case and per-day breakdowns of the calls made between since and
+ * now. Days are UTC dates, as stored in the ledger.
+ */
+export function summarizeAiUsage(records: AiUsageRecord[], since: Date, now = new Date()): AiUsageSummary {
+  const byFeature = Array.from(groupBy(records, r => r.feature))
+    .map(([feature, group]) => breakdown(feature, aiFeatureLabel(feature), group))
+    .sort(byCallsDescending);
+
+  const caseRows = Array.from(groupBy(records, r => r.caseId ?? ''))
+    .map(([caseId, group]) => breakdown(caseId, caseLabel(group), group));
+  const byCase = [
+    ...caseRows.filter(row => row.key !== '').sort(byCallsDescending),
+    ...caseRows.filter(row => row.key === ''),
+  ];
+
+  const callsPerDay = groupBy(records, r => r.createdAt.slice(0, 10));
+  const byDay: AiUsageSummary['byDay'] = [];
+  const day = new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()));
+  for (; day.getTime() <= now.getTime(); day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    byDay.push({ date, calls: callsPerDay.get(date)?.length ?? 0 });
+  }
+
+  return { totals: breakdown('', 'All calls', records), byFeature, byCase, byDay };
+}
+
+const CSV_HEADER = ['Case', 'Feature', 'Calls', 'Failed Calls', 'Input Tokens', 'Output Tokens'];
+
+/** Calls per case and feature, for billing AI usage back to clients. Calls outside a case come last. */
+export function aiUsageByCaseToCsv(records: AiUsageRecord[]): string {
+  const rows: string[][] = [];
+  const cases = Array.from(groupBy(records, r => r.caseId ?? ''))
+    .sort(([a, aRecords], [b, bRecords]) => (a === '' ? 1 : 0) - (b === '' ? 1 : 0) || caseLabel(aRecords).localeCompare(caseLabel(bRecords)));
+  for (const [, caseRecords] of cases) {
+    const features = Array.from(groupBy(caseRecords, r => r.feature))
+      .map(([feature, group]) => breakdown(feature, aiFeatureLabel(feature), group))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    for (const row of features) {
+      rows.push([caseLabel(caseRecords), row.label, String(row.calls), String(row.failedCalls), String(row.inputTokens), String(row.outputTokens)]);
+    }
+  }
+  return [CSV_HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,22 @@
+import { describe, expect, test } from 'vitest';
+import { formatBatesNumber, parseBatesNumber } from './bates';
+
+describe('Bates numbers', () => {
+  test('formats with zero padding', () => {
+    expect(formatBatesNumber('ACME', 6, 42)).toBe('ACME000042');
+  });
+
+  test('parses numbers for known prefixes regardless of case and spacing', () => {
+    expect(parseBatesNumber('acme000042', ['ACME'])).toEqual({ prefix: 'ACME', number: 42 });
+    expect(parseBatesNumber(' ACME 000042 ', ['ACME'])).toEqual({ prefix: 'ACME', number: 42 });
+  });
+
+  test('prefers the longest matching prefix', () => {
+    expect(parseBatesNumber('ACME1000042', ['ACME', 'ACME1'])).toEqual({ prefix: 'ACME1', number: 42 });
+  });
+
+  test('rejects text that is not a Bates number', () => {
+    expect(parseBatesNumber('ACME contract', ['ACME'])).toBeNull();
+    expect(parseBatesNumber('SMITH000001', ['ACME'])).toBeNull();
+  });
+});
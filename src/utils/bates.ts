@@ -0,0 +1,24 @@
+/**
+ * Bates number formatting and parsing. Mirrors formatBatesNumber in
+ * supabase/functions/create-production/bates.ts, which stamps the numbers.
+ */
+
+export function formatBatesNumber(prefix: string, digits: number, value: number): string {
+  return `${prefix}${String(value).padStart(digits, '0')}`;
+}
+
+/**
+ * Splits a Bates number typed by the user into one of the known prefixes and its number.
+ * Matching ignores case and spaces around the number. When prefixes overlap the longest one
+ * wins, so with both ACME and ACME1 in use "ACME1000042" is number 42 under ACME1.
+ */
+export function parseBatesNumber(label: string, prefixes: string[]): { prefix: string; number: number } | null {
+  const input = label.trim().toUpperCase();
+  const candidates = [...new Set(prefixes)].sort((a, b) => b.length - a.length);
+  for (const prefix of candidates) {
+    if (!input.startsWith(prefix.toUpperCase())) continue;
+    const rest = input.slice(prefix.length).trim();
+    if (/^\d{1,12}$/.test(rest)) return { prefix, number: Number(rest) };
+  }
+  return null;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, test } from 'vitest';
+import { assignableRoles, canManageMember, canPerform, isValidEmail, normalizeEmail } from './casePermissions';
+
+describe('case permissions', () => {
+  test('grant each role its actions and non-members none', () => {
+    expect(canPerform('owner', 'delete')).toBe(true);
+    expect(canPerform('attorney', 'manage_members')).toBe(true);
+    expect(canPerform('attorney', 'delete')).toBe(false);
+    expect(canPerform('paralegal', 'edit')).toBe(true);
+    expect(canPerform('paralegal', 'manage_members')).toBe(false);
+    expect(canPerform('client', 'view')).toBe(true);
+    expect(canPerform('client', 'use_ai')).toBe(false);
+    expect(canPerform(null, 'view')).toBe(false);
+  });
+
+  test('limit who can assign and manage which roles', () => {
+    expect(assignableRoles('owner')).toEqual(['attorney', 'paralegal', 'client']);
+    expect(assignableRoles('attorney')).toEqual(['paralegal', 'client']);
+    expect(assignableRoles('paralegal')).toEqual([]);
+    expect(canManageMember('owner', 'attorney')).toBe(true);
+    expect(canManageMember('attorney', 'attorney')).toBe(false);
+    expect(canManageMember('owner', 'owner')).toBe(false);
+  });
+
+  test('match invitation emails case-insensitively', () => {
+    expect(normalizeEmail('  Jane.Doe@Firm.com ')).toBe('jane.doe@firm.com');
+    expect(isValidEmail('jane@firm.com')).toBe(true);
+    expect(isValidEmail('jane@firm')).toBe(false);
+  });
+});
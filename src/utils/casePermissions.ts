@@ -0,0 +1,47 @@
+import { CaseAction, CaseRole } from '@/types/membership';
+
+// Mirrored in supabase/functions/_shared/caseAccess.ts
+const rolePermissions: Record<CaseRole, CaseAction[]> = {
+  owner: ['view', 'edit', 'use_ai', 'manage_members', 'delete'],
+  attorney: ['view', 'edit', 'use_ai', 'manage_members'],
+  paralegal: ['view', 'edit', 'use_ai'],
+  client: ['view'],
+};
+
+export const caseRoleLabels: Record<CaseRole, string> = {
+  owner: 'Owner',
+  attorney: 'Attorney',
+  paralegal: 'Paralegal',
+  client: 'Client (read-only)',
+};
+
+/**
+ * Whether a member with `role` may perform `action` on the case; non-members (null) may do nothing.
+ */
+export function canPerform(role: CaseRole | null | undefined, action: CaseAction): boolean {
+  return !!role && rolePermissions[role].includes(action);
+}
+
+/**
+ * The roles a member can invite people as or change others to. Ownership isn't transferable, and
+ * attorneys can't make other attorneys. Mirrored in supabase/functions/_shared/caseAccess.ts, where
+ * accept-invitation enforces it.
+ */
+export function assignableRoles(role: CaseRole | null | undefined): CaseRole[] {
+  if (role === 'owner') return ['attorney', 'paralegal', 'client'];
+  if (role === 'attorney') return ['paralegal', 'client'];
+  return [];
+}
+
+/**
+ * Whether `role` may change or remove a member who has `memberRole`: the owner can't be, and
+ * attorneys can only manage the roles they could assign.
+ */
+export function canManageMember(role: CaseRole | null | undefined, memberRole: CaseRole): boolean {
+  return assignableRoles(role).includes(memberRole);
+}
+
+// Invitations are matched to the invitee's account by email
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizeEmail(email));
@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+import { clauseLabel, clauseRedlineHtml, compareClauses, segmentClauses } from './clauseComparison';
+
+const original = [
+  'SERVICES AGREEMENT',
+  'This agreement is made between Acme Ltd and Beta LLC.',
+  '1. Definitions',
+  'Capitalised terms have the meanings given in this clause.',
+  '2. Payment',
+  'The Client shall pay each invoice within 30 days of receipt.',
+  '3. Confidentiality',
+  'Each party shall keep the other party\'s confidential information secret and use it only for this agreement.',
+  '4. Notices',
+  'Notices must be given in writing to the address stated above.',
+  '5. Audit',
+  'The Supplier shall allow the Client to audit its records once a year.',
+].join('\n');
+
+const revised = [
+  'SERVICES AGREEMENT',
+  'This agreement is made between Acme Ltd and Beta LLC.',
+  '1. Definitions',
+  'Capitalised terms have the meaning given to them in this clause.',
+  '2. Confidentiality',
+  'Each party shall keep the other party\'s confidential information secret and use it only for this agreement.',
+  '3. Payment',
+  'The Client shall pay each invoice within 60 days of receipt.',
+  '4. Notices',
+  'Notices must be given in writing to the address stated above.',
+  '5. Limitation of Liability',
+  'Neither party is liable for indirect or consequential loss.',
+].join('\n');
+
+describe('clause comparison', () => {
+  test('splits documents at numbered and capitalised headings', () => {
+    const clauses = segmentClauses('<h1>RECITALS</h1><p>Background.</p><p>Section 4.2 – Term</p><p>Two years.</p><p>The fee is 30 days late.</p><p>IV. Law</p>');
+    expect(clauses.map(clause => [clause.number, clause.title, clause.text])).toEqual([
+      [null, 'RECITALS', 'RECITALS\nBackground.'],
+      ['4.2', 'Term', 'Section 4.2 – Term\nTwo years.\nThe fee is 30 days late.'],
+      ['IV', 'Law', 'IV. Law'],
+    ]);
+    expect(clauseLabel(clauses[1])).toBe('4.2 Term');
+  });
+
+  test('aligns moved and renumbered clauses and classifies each pair', () => {
+    const result = compareClauses(original, revised).map(comparison => [
+      comparison.original && clauseLabel(comparison.original),
+      comparison.revised && clauseLabel(comparison.revised),
+      comparison.kind,
+      comparison.moved,
+      comparison.renumbered,
+    ]);
+    expect(result).toEqual([
+      ['SERVICES AGREEMENT', 'SERVICES AGREEMENT', 'unchanged', false, false],
+      ['1 Definitions', '1 Definitions', 'reworded', false, false],
+      ['3 Confidentiality', '2 Confidentiality', 'unchanged', true, true],
+      ['2 Payment', '3 Payment', 'substantive', false, true],
+      ['4 Notices', '4 Notices', 'unchanged', false, false],
+      ['5 Audit', null, 'removed', false, false],
+      [null, '5 Limitation of Liability', 'added', false, false],
+    ]);
+  });
+
+  test('treats changed figures and obligations as substantive', () => {
+    const kindOf = (a: string, b: string) => compareClauses(`1. Term\n${a}`, `1. Term\n${b}`)[0].kind;
+    expect(kindOf('The Supplier shall deliver the goods promptly.', 'The Supplier may deliver the goods promptly.')).toBe('substantive');
+    expect(kindOf('Fees increase by 3% each year.', 'Fees increase by 5% each year.')).toBe('substantive');
+    expect(kindOf('The Supplier shall deliver all of the goods promptly and carefully.', 'The Supplier shall deliver all of the goods carefully and promptly.')).toBe('reworded');
+  });
+
+  test('builds a redline with attributed insertions and deletions', () => {
+    const comparisons = compareClauses('1. Payment\nPay within 30 days.\n2. Audit\nAnnual audit.', '1. Payment\nPay within 60 days.');
+    const html = clauseRedlineHtml(comparisons, {
+      title: 'Redline',
+      author: 'Draft B',
+      date: '2024-01-01T00:00:00Z',
+      effects: { [comparisons[0].id]: 'Longer payment term.' },
+    });
+    const change = (tag: string, text: string) => `<${tag} data-author="Draft B" data-date="2024-01-01T00:00:00Z">${text}</${tag}>`;
+    expect(html).toBe(
+      `<h1>Redline</h1><p><span data-comment-thread="${comparisons[0].id}">1. Payment</span></p>`
+      + `<p><span data-comment-thread="${comparisons[0].id}">Pay within ${change('del', '30')}${change('ins', '60')} days.</span></p>`
+      + `<p>${change('del', '2. Audit')}</p><p>${change('del', 'Annual audit.')}</p>`,
+    );
+  });
+});
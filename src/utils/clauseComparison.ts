@@ -0,0 +1,298 @@
+/**
+ * Clause-by-clause comparison of two versions of a contract: both are split into numbered or
+ * headed clauses, clauses are paired up even when moved or renumbered, and each pair is classed
+ * as unchanged, reworded or substantively changed. Also builds the redline for Word export.
+ */
+import { diffWords } from 'diff';
+import { htmlToDiffText } from './documentVersions';
+import { DocxComment } from '@/types/docxExport';
+
+export type ClauseChangeKind = 'unchanged' | 'reworded' | 'substantive' | 'added' | 'removed';
+
+export interface Clause {
+  index: number; // Position in its document
+  number: string | null; // "4.2", "IV", or null for unnumbered headings and the preamble
+  title: string; // The heading without its number; '' when the clause has none
+  text: string; // The clause's lines, heading included
+}
+
+export interface ClauseComparison {
+  id: string;
+  kind: ClauseChangeKind;
+  original: Clause | null; // null for added clauses
+  revised: Clause | null; // null for removed clauses
+  similarity: number; // Word overlap of the two texts, 0 to 1
+  moved: boolean; // Out of order relative to the other clauses
+  renumbered: boolean;
+}
+
+export interface RedlineOptions {
+  title: string;
+  author: string; // Shown as the author of the Word revisions
+  date?: string;
+  effects?: Record<string, string>; // Comparison id -> legal effect, exported as a Word comment
+}
+
+// "4.2 Payment", "Section 4.2 Payment", "Article IV – Term", "12) Notices"; a bare number needs
+// a dot or parenthesis after it, or sub-numbering, so "30 days" doesn't start a clause
+const NUMBERED_HEADING = /^(?:(?:section|clause|article|schedule)\s+([0-9]+(?:\.[0-9]+)*|[IVXLC]+)\b[.):]?|([0-9]+(?:\.[0-9]+)+)\.?|([0-9]+|[IVXLC]+)[.)])\s*[-–—:]?\s*(.*)$/i;
+// Short all-capitals lines such as "RECITALS" or "GOVERNING LAW"
+const CAPS_HEADING = /^[^a-z]*[A-Z][^a-z]*$/;
+
+// Words that change what a clause obliges or permits even when little else changes
+const OPERATIVE_WORDS = new Set([
+  'shall', 'must', 'may', 'will', 'not', 'no', 'never', 'only', 'except', 'unless', 'without',
+  'all', 'any', 'none', 'sole', 'solely', 'exclusive', 'including', 'excluding', 'within', 'before', 'after', 'prior',
+]);
+
+// Below this overlap a changed clause counts as substantive even without operative changes
+const REWORDED_SIMILARITY = 0.8;
+// Minimum overlap to pair clauses; clauses with the same heading pair at a lower one
+const MATCH_SIMILARITY = 0.5;
+const TITLE_MATCH_SIMILARITY = 0.2;
+
+function headingOf(line: string): { number: string | null; title: string } | null {
+  const numbered = NUMBERED_HEADING.exec(line);
+  if (numbered) {
+    const [, prefixed, multiLevel, single, rest] = numbered;
+    const number = prefixed ?? multiLevel ?? single;
+    // Roman numerals only count in capitals, so "I. " does but "i." (a list item) doesn't
+    if (/^[IVXLC]+$/i.test(number) && number !== number.toUpperCase()) return null;
+    return { number, title: rest.trim() };
+  }
+  const words = line.split(/\s+/).length;
+  if (CAPS_HEADING.test(line) && words <= 8 && !/[.;,]$/.test(line)) return { number: null, title: line };
+  return null;
+}
+
+/** Text or editor HTML as a line per paragraph. */
+function toLines(content: string): string[] {
+  const text = /<\/?[a-z][^>]*>/i.test(content) ? htmlToDiffText(content) : content;
+  return text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+/**
+ * Splits a document into clauses: each numbered or all-capitals heading starts one, and text
+ * before the first heading is a preamble clause.
+ */
+export function segmentClauses(content: string): Clause[] {
+  const clauses: Clause[] = [];
+  let current: { number: string | null; title: string; lines: string[] } | null = null;
+  const close = () => {
+    if (current) clauses.push({ index: clauses.length, number: current.number, title: current.title, text: current.lines.join('\n') });
+  };
+  for (const line of toLines(content)) {
+    const heading = headingOf(line);
+    if (heading || !current) {
+      close();
+      current = { number: heading?.number ?? null, title: heading?.title ?? '', lines: [] };
+    }
+    current.lines.push(line);
+  }
+  close();
+  return clauses;
+}
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}$%£€]+(?:[.,'][\p{L}\p{N}]+)*/gu) ?? [];
+
+// The clause's words without its number, so renumbering alone isn't a change
+function bodyWords(clause: Clause): string[] {
+  const all = words(clause.text);
+  if (clause.number && ['section', 'clause', 'article', 'schedule'].includes(all[0] ?? '')) all.shift();
+  if (clause.number && all[0] === clause.number.toLowerCase()) all.shift();
+  return all;
+}
+
+const normalized = (clause: Clause) => bodyWords(clause).join(' ');
+const normalizedTitle = (clause: Clause) => words(clause.title).join(' ');
+
+function counts(list: string[]): Map<string, number> {
+  const map = new Map<string, number>();
+  list.forEach(word => map.set(word, (map.get(word) ?? 0) + 1));
+  return map;
+}
+
+/** Dice coefficient of the two clauses' words, counting repeats. */
+export function clauseSimilarity(a: Clause, b: Clause): number {
+  const wordsA = bodyWords(a);
+  const wordsB = bodyWords(b);
+  if (wordsA.length + wordsB.length === 0) return 1;
+  const countsB = counts(wordsB);
+  let shared = 0;
+  for (const [word, count] of counts(wordsA)) shared += Math.min(count, countsB.get(word) ?? 0);
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+const sameMultiset = (a: string[], b: string[]) => a.length === b.length && [...a].sort().join('\u0000') === [...b].sort().join('\u0000');
+
+// Figures (amounts, periods, dates, percentages) or operative words differ
+function changesTerms(a: Clause, b: Clause): boolean {
+  const figures = (list: string[]) => list.filter(word => /\d/.test(word));
+  const operative = (list: string[]) => list.filter(word => OPERATIVE_WORDS.has(word));
+  const wordsA = bodyWords(a);
+  const wordsB = bodyWords(b);
+  return !sameMultiset(figures(wordsA), figures(wordsB)) || !sameMultiset(operative(wordsA), operative(wordsB));
+}
+
+function classify(original: Clause, revised: Clause, similarity: number): ClauseChangeKind {
+  if (normalized(original) === normalized(revised)) return 'unchanged';
+  return similarity < REWORDED_SIMILARITY || changesTerms(original, revised) ? 'substantive' : 'reworded';
+}
+
+// Pairs that aren't part of the longest run kept in order are the ones that moved
+function movedPairs(pairs: [number, number][]): Set<number> {
+  const byOriginal = [...pairs].sort((x, y) => x[0] - y[0]);
+  const lengths: number[] = [];
+  const previous: number[] = [];
+  byOriginal.forEach(([, revised], i) => {
+    lengths[i] = 1;
+    previous[i] = -1;
+    for (let j = 0; j < i; j++) {
+      if (byOriginal[j][1] < revised && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+  const inOrder = new Set<number>();
+  let i = lengths.indexOf(Math.max(0, ...lengths));
+  while (i >= 0) {
+    inOrder.add(byOriginal[i][0]);
+    i = previous[i];
+  }
+  return new Set(byOriginal.filter(([original]) => !inOrder.has(original)).map(([original]) => original));
+}
+
+/**
+ * Pairs the clauses of two versions and classifies each pair, in the revised document's order
+ * with removed clauses after the clause that preceded them. Identical clauses pair first, then
+ * the most similar ones, so moved and renumbered clauses still find each other.
+ */
+export function compareClauses(originalContent: string, revisedContent: string): ClauseComparison[] {
+  const original = segmentClauses(originalContent);
+  const revised = segmentClauses(revisedContent);
+  const revisedFor = new Map<number, number>();
+  const originalFor = new Map<number, number>();
+  const pair = (a: number, b: number) => {
+    revisedFor.set(a, b);
+    originalFor.set(b, a);
+  };
+
+  // Identical text, in order of appearance
+  const unmatchedByText = new Map<string, number[]>();
+  revised.forEach(clause => {
+    const key = normalized(clause);
+    unmatchedByText.set(key, [...(unmatchedByText.get(key) ?? []), clause.index]);
+  });
+  original.forEach(clause => {
+    const candidates = unmatchedByText.get(normalized(clause));
+    if (candidates?.length) pair(clause.index, candidates.shift()!);
+  });
+
+  // Then the most similar remaining pairs
+  const candidates: { a: number; b: number; similarity: number; score: number }[] = [];
+  original.filter(a => !revisedFor.has(a.index)).forEach(a => {
+    revised.filter(b => !originalFor.has(b.index)).forEach(b => {
+      const similarity = clauseSimilarity(a, b);
+      const sameTitle = normalizedTitle(a) !== '' && normalizedTitle(a) === normalizedTitle(b);
+      if (similarity >= MATCH_SIMILARITY || (sameTitle && similarity >= TITLE_MATCH_SIMILARITY)) {
+        candidates.push({ a: a.index, b: b.index, similarity, score: similarity + (sameTitle ? 0.25 : 0) });
+      }
+    });
+  });
+  candidates
+    .sort((x, y) => y.score - x.score || x.a - y.a)
+    .forEach(({ a, b }) => {
+      if (!revisedFor.has(a) && !originalFor.has(b)) pair(a, b);
+    });
+
+  const moved = movedPairs([...revisedFor.entries()]);
+  const placed: { order: [number, number, number]; comparison: ClauseComparison }[] = [];
+
+  revised.forEach(b => {
+    const aIndex = originalFor.get(b.index);
+    const a = aIndex === undefined ? null : original[aIndex];
+    const similarity = a ? clauseSimilarity(a, b) : 0;
+    placed.push({
+      order: [b.index, 0, 0],
+      comparison: {
+        id: `${a?.index ?? 'new'}-${b.index}`,
+        kind: a ? classify(a, b, similarity) : 'added',
+        original: a,
+        revised: b,
+        similarity,
+        moved: a ? moved.has(a.index) : false,
+        renumbered: !!a && !!a.number && !!b.number && a.number !== b.number,
+      },
+    });
+  });
+
+  original.filter(a => !revisedFor.has(a.index)).forEach(a => {
+    // After wherever the nearest earlier clause that survived ended up
+    let anchor = -1;
+    for (let i = a.index - 1; i >= 0; i--) {
+      if (revisedFor.has(i)) {
+        anchor = revisedFor.get(i)!;
+        break;
+      }
+    }
+    placed.push({
+      order: [anchor, 1, a.index],
+      comparison: { id: `${a.index}-gone`, kind: 'removed', original: a, revised: null, similarity: 0, moved: false, renumbered: false },
+    });
+  });
+
+  return placed
+    .sort((x, y) => x.order[0] - y.order[0] || x.order[1] - y.order[1] || x.order[2] - y.order[2])
+    .map(entry => entry.comparison);
+}
+
+/** The clause's label for tables and prompts: its number and heading, or its opening words. */
+export function clauseLabel(clause: Clause): string {
+  const heading = [clause.number, clause.title].filter(Boolean).join(' ');
+  if (heading) return heading;
+  const opening = clause.text.split('\n')[0];
+  return opening.length > 60 ? `${opening.slice(0, 57)}...` : opening;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * The revised document as HTML with every change against the original as <ins>/<del> carrying
+ * an author, which generate-docx exports as Word revisions. Legal effects, when given, become
+ * Word comments on their clause (see redlineComments).
+ */
+export function clauseRedlineHtml(comparisons: ClauseComparison[], options: RedlineOptions): string {
+  const date = options.date ?? new Date().toISOString();
+  const change = (tag: 'ins' | 'del', text: string) =>
+    `<${tag} data-author="${escapeHtml(options.author)}" data-date="${escapeHtml(date)}">${escapeHtml(text)}</${tag}>`;
+
+  const paragraphs = comparisons.flatMap(comparison => {
+    const { original, revised } = comparison;
+    const parts = original && revised
+      ? diffWords(original.text, revised.text).map(part => ({ text: part.value, tag: part.added ? 'ins' as const : part.removed ? 'del' as const : null }))
+      : [{ text: (revised ?? original)!.text, tag: revised ? (original ? null : 'ins' as const) : 'del' as const }];
+
+    // A part can run over line breaks, so each line is wrapped separately
+    const lines: string[] = [''];
+    parts.forEach(({ text, tag }) => {
+      text.split('\n').forEach((segment, i) => {
+        if (i > 0) lines.push('');
+        if (segment) lines[lines.length - 1] += tag ? change(tag, segment) : escapeHtml(segment);
+      });
+    });
+
+    const effect = options.effects?.[comparison.id];
+    return lines
+      .filter(Boolean)
+      .map(line => `<p>${effect ? `<span data-comment-thread="${escapeHtml(comparison.id)}">${line}</span>` : line}</p>`);
+  });
+
+  return `<h1>${escapeHtml(options.title)}</h1>${paragraphs.join('')}`;
+}
+
+/** The legal effects passed to clauseRedlineHtml as the Word comments generate-docx expects. */
+export function redlineComments(effects: Record<string, string>, author: string): DocxComment[] {
+  return Object.entries(effects).map(([id, text]) => ({ id, entries: [{ author, text }] }));
+}
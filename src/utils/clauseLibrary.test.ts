@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'vitest';
+import { LibraryClause } from '@/types/clauseLibrary';
+import { clauseVariables, parseTags, rankSimilarClauses } from './clauseLibrary';
+
+const libraryClause = (id: string, content: string, overrides: Partial<LibraryClause> = {}): LibraryClause => ({
+  id,
+  title: id,
+  category: '',
+  jurisdiction: '',
+  content,
+  tags: [],
+  approvalStatus: 'approved',
+  ownerId: 'user-1',
+  organizationId: null,
+  createdAt: '',
+  updatedAt: '',
+  ...overrides,
+});
+
+describe('clause library', () => {
+  test('read placeholders and tags', () => {
+    const html = '<p><span data-variable-name="Disclosing Party" class="variable-highlight">Disclosing Party</span> shall notify'
+      + ' <span data-variable-name="Recipient">Recipient</span> and <span data-variable-name="Disclosing Party">it</span>.</p>';
+
+    expect(clauseVariables(html)).toEqual(['Disclosing Party', 'Recipient']);
+    expect(parseTags(' NDA, confidentiality,,nda ')).toEqual(['nda', 'confidentiality']);
+  });
+
+  test('shortlist similar clauses, best first, skipping deprecated ones', () => {
+    const library = [
+      libraryClause('payment', '<p>The Customer shall pay each invoice within 30 days of receipt.</p>'),
+      libraryClause('old-confidentiality', '<p>Each party shall keep the other party\'s confidential information secret.</p>', { approvalStatus: 'deprecated' }),
+      libraryClause('confidentiality', '<p>Each party shall keep the confidential information of the other party confidential and shall not disclose it.</p>'),
+      libraryClause('law', '<p>This agreement is governed by the laws of England and Wales.</p>'),
+    ];
+    const ranked = rankSimilarClauses('Each party shall keep confidential all confidential information of the other party.', library, 5);
+
+    expect(ranked.map(({ clause }) => clause.id)).toEqual(['confidentiality', 'payment']);
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Helpers for the clause library: reading a clause's placeholders, tidying tags, and shortlisting
+ * library clauses that resemble a clause found in a document before the AI compares them.
+ */
+import { LibraryClause } from '@/types/clauseLibrary';
+import { clauseSimilarity } from './clauseComparison';
+import { htmlToDiffText } from './documentVersions';
+
+const asClause = (text: string) => ({ index: 0, number: null, title: '', text });
+
+/** The clause's placeholder names, in order of first appearance. */
+export function clauseVariables(html: string): string[] {
+  const names = [...html.matchAll(/data-variable-name="([^"]*)"/g)]
+    .map(match => match[1].replace(/&quot;/g, '"').replace(/&amp;/g, '&').trim())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+/** Tags typed as a comma-separated list: trimmed, lower case and without repeats. */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * The library clauses most like the given clause text by word overlap, best first. Deprecated
+ * clauses are never suggested, and clauses sharing too few words aren't worth asking the AI about.
+ */
+export function rankSimilarClauses(
+  text: string,
+  library: LibraryClause[],
+  limit: number,
+  minSimilarity = 0.2
+): { clause: LibraryClause; similarity: number }[] {
+  const target = asClause(text);
+  return library
+    .filter(clause => clause.approvalStatus !== 'deprecated')
+    .map(clause => ({ clause, similarity: clauseSimilarity(target, asClause(htmlToDiffText(clause.content))) }))
+    .filter(({ similarity }) => similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, test } from 'vitest';
+import { htmlToDiffText, textToHtml } from './documentVersions';
+
+describe('document versions', () => {
+  test('compares editor HTML as one line per block', () => {
+    const html = '<h1>Terms</h1><p>The fee is <strong>due</strong> &amp; payable.</p><ul><li><p>First</p></li><li><p>Second</p></li></ul>'
+      + '<table><tbody><tr><th><p>Party</p></th><th><p>Role</p></th></tr></tbody></table><p>Line one<br>line two</p><p></p>';
+    expect(htmlToDiffText(html)).toBe('Terms\nThe fee is due & payable.\nFirst\nSecond\nParty Role\nLine one\nline two');
+  });
+
+  test('reads tracked changes as accepted', () => {
+    expect(htmlToDiffText('<p>The fee is <del data-author="A">due</del><ins data-author="A">payable</ins>.</p>')).toBe('The fee is payable.');
+  });
+
+  test('turns extracted text into paragraphs', () => {
+    expect(textToHtml('A < B\nC')).toBe('<p>A &lt; B</p><p>C</p>');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Helpers for document version history: the text compared between versions, and the HTML
+ * stored for documents that were never edited (only their extracted text exists).
+ */
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Editor HTML as text with one line per paragraph, heading, list item or table row, for a line
+ * diff. Pending tracked deletions are left out, so a version reads as it would once accepted.
+ */
+export function htmlToDiffText(html: string): string {
+  return decodeEntities(html
+    .replace(/<del\b[^>]*>[\s\S]*?<\/del>/gi, '')
+    // A table row is one line: paragraphs inside a cell are joined, cells separated
+    .replace(/<t([dh])\b[^>]*>([\s\S]*?)<\/t\1>/gi, (_, __, cell: string) => `${cell.replace(/<br\s*\/?>|<\/p>/gi, ' ')}\t`)
+    .replace(/<br\s*\/?>|<\/(p|h[1-6]|li|tr|blockquote|pre|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, ''))
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** Plain extracted text as editor HTML: a paragraph per line. */
+export function textToHtml(text: string): string {
+  const escape = (line: string) => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return text.split(/\r?\n/).map(line => `<p>${escape(line)}</p>`).join('');
+}
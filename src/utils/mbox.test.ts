@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'vitest';
+import { isMboxFile, mboxMessageFilename, splitMbox, type MboxMessage } from './mbox';
+
+const MAILBOX = [
+  'From alice@example.com Tue Mar  5 14:30:00 2024',
+  'From: Alice <alice@example.com>',
+  'Subject: =?UTF-8?Q?Q3_forecast_=E2=80=93_draft?=',
+  'Message-ID: <one@example.com>',
+  '',
+  'Numbers attached.',
+  '>From the CFO: looks fine.',
+  '>>From here on, quoted.',
+  '',
+  'From bob@example.com Tue Mar  5 15:00:00 2024',
+  'From: Bob <bob@example.com>',
+  'Subject: Re: Q3 forecast / final?',
+  'In-Reply-To: <one@example.com>',
+  '',
+  'Agreed.',
+  '',
+].join('\n');
+
+const collect = async (blob: Blob, onProgress?: (bytes: number) => void) => {
+  const messages: MboxMessage[] = [];
+  for await (const message of splitMbox(blob, onProgress)) messages.push(message);
+  return messages;
+};
+const text = (message: MboxMessage) => new TextDecoder().decode(message.data);
+
+describe('mbox splitting', () => {
+  test('splits on postmark lines and drops the separators', async () => {
+    const messages = await collect(new Blob([MAILBOX]));
+    expect(messages.map(m => m.index)).toEqual([0, 1]);
+    expect(text(messages[0]).startsWith('From: Alice <alice@example.com>\n')).toBe(true);
+    expect(text(messages[1])).toBe('From: Bob <bob@example.com>\nSubject: Re: Q3 forecast / final?\nIn-Reply-To: <one@example.com>\n\nAgreed.\n');
+  });
+
+  test('unescapes >From body lines', async () => {
+    const [first] = await collect(new Blob([MAILBOX]));
+    expect(text(first)).toContain('\nFrom the CFO: looks fine.\n>From here on, quoted.\n');
+  });
+
+  test('handles messages split across stream chunks', async () => {
+    const bytes = new TextEncoder().encode(MAILBOX);
+    const parts = Array.from({ length: Math.ceil(bytes.length / 7) }, (_, i) => bytes.subarray(i * 7, i * 7 + 7));
+    const progress: number[] = [];
+    const messages = await collect(new Blob(parts), bytesRead => progress.push(bytesRead));
+    expect(messages.map(text)).toEqual((await collect(new Blob([MAILBOX]))).map(text));
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  });
+
+  test('names messages by position and decoded subject', async () => {
+    const messages = await collect(new Blob([MAILBOX]));
+    expect(messages.map(mboxMessageFilename)).toEqual(['0001 Q3 forecast – draft.eml', '0002 Re Q3 forecast final.eml']);
+  });
+
+  test('recognises mailbox files', () => {
+    expect(isMboxFile(new File([''], 'Inbox.mbox'))).toBe(true);
+    expect(isMboxFile(new File([''], 'export', { type: 'application/mbox' }))).toBe(true);
+    expect(isMboxFile(new File([''], 'message.eml'))).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Splitting of .mbox mailbox exports into individual RFC 822 messages.
+ *
+ * Messages are separated by lines starting with "From " (the postmark line, which is not part
+ * of the message). Body lines that themselves start with "From " are stored as ">From " and
+ * are unescaped again here (mboxrd). The mailbox is streamed, so only one message is held in
+ * memory at a time.
+ */
+
+export interface MboxMessage {
+  index: number; // 0-based position in the mailbox
+  data: Uint8Array; // The message as an .eml file
+  subject: string;
+}
+
+const NEWLINE = 0x0a;
+const POSTMARK = new TextEncoder().encode('From ');
+
+export function isMboxFile(file: File): boolean {
+  return /\.(mbox|mbx)$/i.test(file.name) || file.type === 'application/mbox';
+}
+
+function startsWithBytes(line: Uint8Array, prefix: Uint8Array, offset = 0): boolean {
+  if (line.length < offset + prefix.length) return false;
+  return prefix.every((byte, i) => line[offset + i] === byte);
+}
+
+const isBlank = (line: Uint8Array) => line.length === 0 || (line.length === 1 && line[0] === 0x0d);
+
+function concatLines(lines: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(lines.reduce((size, line) => size + line.length + 1, 0));
+  let offset = 0;
+  for (const line of lines) {
+    out.set(line, offset);
+    out[offset + line.length] = NEWLINE;
+    offset += line.length + 1;
+  }
+  return out;
+}
+
+// Only used to name the per-message files; extract-text does the real header parsing
+export function readSubject(message: Uint8Array): string {
+  const head = new TextDecoder().decode(message.subarray(0, 16384));
+  const headerBlock = head.split(/\r?\n\r?\n/)[0].replace(/\r?\n[ \t]+/g, ' ');
+  const raw = headerBlock.match(/^subject:[ \t]*(.*)$/im)?.[1] ?? '';
+  return raw
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (match, charset: string, encoding: string, text: string) => {
+      try {
+        const binary = encoding.toLowerCase() === 'b'
+          ? atob(text)
+          : text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+        return new TextDecoder(charset).decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+      } catch {
+        return match;
+      }
+    })
+    .trim();
+}
+
+/**
+ * Filename for one message of a mailbox, e.g. "0007 Re Q3 forecast.eml". The index prefix keeps
+ * mailbox order when sorted by name and makes names unique.
+ */
+export function mboxMessageFilename(message: MboxMessage): string {
+  const subject = message.subject.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80);
+  return `${String(message.index + 1).padStart(4, '0')} ${subject || 'No subject'}.eml`;
+}
+
+/**
+ * Yields the messages of an mbox file in order. `onProgress` receives the number of bytes
+ * read so far.
+ */
+export async function* splitMbox(source: Blob, onProgress?: (bytesRead: number) => void): AsyncGenerator<MboxMessage> {
+  const reader = source.stream().getReader();
+  let pending = new Uint8Array(0); // Bytes after the last complete line
+  let lines: Uint8Array[] | null = null; // Lines of the current message; null before the first postmark
+  let index = 0;
+  let bytesRead = 0;
+
+  const finishMessage = (): MboxMessage | null => {
+    if (!lines) return null;
+    // The blank line before the next postmark belongs to the separator, not the message
+    while (lines.length > 0 && isBlank(lines[lines.length - 1])) lines.pop();
+    const data = concatLines(lines);
+    lines = null;
+    if (data.length === 0) return null;
+    return { index: index++, data, subject: readSubject(data) };
+  };
+
+  const takeLine = (line: Uint8Array): MboxMessage | null => {
+    if (startsWithBytes(line, POSTMARK)) {
+      const finished = finishMessage();
+      lines = [];
+      return finished;
+    }
+    if (lines) {
+      // mboxrd: ">From ", ">>From ", ... lose one '>'
+      let quotes = 0;
+      while (line[quotes] === 0x3e) quotes++;
+      lines.push(quotes > 0 && startsWithBytes(line, POSTMARK, quotes) ? line.subarray(1) : line);
+    }
+    return null;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.length;
+
+    const chunk = new Uint8Array(pending.length + value.length);
+    chunk.set(pending);
+    chunk.set(value, pending.length);
+
+    let lineStart = 0;
+    for (let i = chunk.indexOf(NEWLINE); i !== -1; i = chunk.indexOf(NEWLINE, lineStart)) {
+      const message = takeLine(chunk.subarray(lineStart, i));
+      if (message) yield message;
+      lineStart = i + 1;
+    }
+    pending = chunk.slice(lineStart);
+    onProgress?.(bytesRead);
+  }
+
+  if (pending.length > 0) {
+    const message = takeLine(pending);
+    if (message) yield message;
+  }
+  const last = finishMessage();
+  if (last) yield last;
+}
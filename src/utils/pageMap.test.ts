@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'vitest';
+import { PageMapEntry } from '@/types/document';
+import { formatPageCitation, getPageLocation, remapPageMap } from './pageMap';
+
+// Normalized like extracted_text, all on one line: pages 1, 3 and 4 hold two lines each, page 2 is blank
+const text = 'Alpha one Alpha two Beta one Beta two Gamma one Gamma two';
+const pageMap: PageMapEntry[] = [
+  { page: 1, start: 0, end: 20, lineStarts: [0, 10] },
+  { page: 2, start: 20, end: 20, lineStarts: [] },
+  { page: 3, start: 20, end: 38, lineStarts: [20, 29] },
+  { page: 4, start: 38, end: 57, lineStarts: [38, 48] },
+];
+
+describe('page locations', () => {
+  test('finds the page and line at line boundaries', () => {
+    expect(getPageLocation(pageMap, 0)).toEqual({ page: 1, line: 1 });
+    expect(getPageLocation(pageMap, 9)).toEqual({ page: 1, line: 1 });
+    expect(getPageLocation(pageMap, 10)).toEqual({ page: 1, line: 2 });
+    expect(getPageLocation(pageMap, 19)).toEqual({ page: 1, line: 2 });
+    expect(getPageLocation(pageMap, 29)).toEqual({ page: 3, line: 2 });
+    expect(getPageLocation(pageMap, 37)).toEqual({ page: 3, line: 2 });
+    expect(getPageLocation(pageMap, 38)).toEqual({ page: 4, line: 1 });
+    expect(getPageLocation(pageMap, 56)).toEqual({ page: 4, line: 2 });
+  });
+
+  test('skips blank pages at a page boundary', () => {
+    expect(getPageLocation(pageMap, 20)).toEqual({ page: 3, line: 1 });
+  });
+
+  test('returns null outside the text or without a page map', () => {
+    expect(getPageLocation(pageMap, 57)).toBeNull();
+    expect(getPageLocation(pageMap, -1)).toBeNull();
+    expect(getPageLocation([{ page: 1, start: 5, end: 10, lineStarts: [5] }], 2)).toBeNull();
+    expect(getPageLocation(null, 0)).toBeNull();
+    expect(getPageLocation([], 0)).toBeNull();
+  });
+
+  test('has no line for pages without line information', () => {
+    expect(getPageLocation([{ page: 4, start: 0, end: 10, lineStarts: [] }], 5)).toEqual({ page: 4, line: null });
+  });
+
+  test('formats citations with and without lines', () => {
+    expect(formatPageCitation({ page: 14, line: 7 })).toBe('p. 14:7');
+    expect(formatPageCitation({ page: 14, line: 7 }, false)).toBe('p. 14');
+    expect(formatPageCitation({ page: 14, line: null })).toBe('p. 14');
+    expect(formatPageCitation(null)).toBeNull();
+  });
+});
+
+describe('remapping page maps across edits', () => {
+  const citeAfterEdit = (nextText: string, phrase: string) =>
+    formatPageCitation(getPageLocation(remapPageMap(pageMap, text, nextText), nextText.indexOf(phrase)));
+
+  test('keeps citations for text before and after an edit', () => {
+    const nextText = text.replace('Alpha two', 'Alpha two, as revised');
+    expect(citeAfterEdit(nextText, 'Alpha one')).toBe('p. 1:1');
+    expect(citeAfterEdit(nextText, 'as revised')).toBe('p. 1:2');
+    expect(citeAfterEdit(nextText, 'Beta one')).toBe('p. 3:1');
+    expect(citeAfterEdit(nextText, 'Gamma two')).toBe('p. 4:2');
+    expect(remapPageMap(pageMap, text, nextText)[3].end).toBe(nextText.length);
+  });
+
+  test('keeps text inserted at the start of a line on that line', () => {
+    const nextText = text.replace('Beta one', 'New Beta one');
+    expect(remapPageMap(pageMap, text, nextText)[2]).toEqual({ page: 3, start: 20, end: 42, lineStarts: [20, 33] });
+    expect(citeAfterEdit(nextText, 'New Beta')).toBe('p. 3:1');
+  });
+
+  test('collapses deleted lines to where they were', () => {
+    const nextText = text.replace('Alpha two ', '');
+    expect(remapPageMap(pageMap, text, nextText).slice(0, 3)).toEqual([
+      { page: 1, start: 0, end: 10, lineStarts: [0, 10] },
+      { page: 2, start: 10, end: 10, lineStarts: [] },
+      { page: 3, start: 10, end: 28, lineStarts: [10, 19] },
+    ]);
+    expect(citeAfterEdit(nextText, 'Beta one')).toBe('p. 3:1');
+  });
+
+  test('leaves the map unchanged when the text is', () => {
+    expect(remapPageMap(pageMap, text, text)).toEqual(pageMap);
+  });
+
+  test('keeps every page and line between two separate edits', () => {
+    const nextText = text.replace('Alpha one', 'Alpha 1').replace('Gamma two', 'Gamma 2');
+    expect(remapPageMap(pageMap, text, nextText)).toEqual([
+      { page: 1, start: 0, end: 18, lineStarts: [0, 8] },
+      { page: 2, start: 18, end: 18, lineStarts: [] },
+      { page: 3, start: 18, end: 36, lineStarts: [18, 27] },
+      { page: 4, start: 36, end: 53, lineStarts: [36, 46] },
+    ]);
+    expect(citeAfterEdit(nextText, 'Beta one')).toBe('p. 3:1');
+    expect(citeAfterEdit(nextText, 'Gamma 2')).toBe('p. 4:2');
+  });
+
+  test('keeps citations outside a rewrite too large to diff', () => {
+    const previousText = `Intro ${'a '.repeat(1500)}End`;
+    const nextText = `Intro ${'b '.repeat(1500)}End`;
+    const remapped = remapPageMap([
+      { page: 1, start: 0, end: 6, lineStarts: [0] },
+      { page: 2, start: 6, end: 3009, lineStarts: [6, 8, 3006] },
+    ], previousText, nextText);
+    expect(remapped[0]).toEqual({ page: 1, start: 0, end: 6, lineStarts: [0] });
+    expect(remapped[1].lineStarts).toEqual([6, 6, 3006]);
+    expect(getPageLocation(remapped, nextText.indexOf('End'))).toEqual({ page: 2, line: 3 });
+  });
+});
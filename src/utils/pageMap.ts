@@ -0,0 +1,112 @@
+/**
+ * Page citations from documents.page_map (written by extract-text): where a character offset
+ * into extracted_text falls, and keeping the map aligned when the text is edited.
+ */
+import { diffWordsWithSpace, type Change } from 'diff';
+import { PageMapEntry } from '@/types/document';
+
+export interface PageLocation {
+  page: number;
+  line: number | null; // null when the page has no line information
+}
+
+// Rewrites touching more words than this aren't diffed; offsets inside the changed span
+// collapse to where it begins, which still keeps every citation outside it intact.
+const MAX_EDIT_LENGTH = 1000;
+
+/**
+ * Converts a character offset into extractedText (e.g. a PositionalItem.start) to the
+ * page and line it falls on, using the document's page map. Returns null for documents
+ * without a page map or offsets outside the text.
+ */
+export const getPageLocation = (
+  pageMap: PageMapEntry[] | null | undefined,
+  offset: number
+): PageLocation | null => {
+  if (!pageMap || pageMap.length === 0 || offset < 0) return null;
+
+  // Last non-blank page starting at or before the offset (pages are stored in order)
+  let low = 0;
+  let high = pageMap.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pageMap[mid].start <= offset) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  while (found >= 0 && pageMap[found].end === pageMap[found].start) found--;
+  if (found < 0 || offset >= pageMap[pageMap.length - 1].end) return null;
+
+  const entry = pageMap[found];
+  let line: number | null = null;
+  for (let i = 0; i < entry.lineStarts.length && entry.lineStarts[i] <= offset; i++) {
+    line = i + 1;
+  }
+  return { page: entry.page, line: line ?? (entry.lineStarts.length > 0 ? 1 : null) };
+};
+
+/**
+ * Formats a page location the way it is cited in briefs and deposition digests:
+ * "p. 14" or, with lines, "p. 14:7".
+ */
+export const formatPageCitation = (location: PageLocation | null, includeLine = true): string | null => {
+  if (!location) return null;
+  return includeLine && location.line !== null ? `p. ${location.page}:${location.line}` : `p. ${location.page}`;
+};
+
+/**
+ * Moves a page map measured against previousText onto nextText, so page and line citations
+ * survive an edit. Text outside the edit keeps its page and line; deleted text collapses to
+ * where it was, and text inserted at a page or line start belongs to that page or line.
+ * A single edit is located exactly; between several, unchanged words are matched up (the text
+ * is normalized to one line, so there are no lines to match).
+ */
+export const remapPageMap = (pageMap: PageMapEntry[], previousText: string, nextText: string): PageMapEntry[] => {
+  // Only the span between the common prefix and suffix is diffed, a word at a time
+  const maxCommon = Math.min(previousText.length, nextText.length);
+  let prefix = 0;
+  while (prefix < maxCommon && previousText[prefix] === nextText[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < maxCommon - prefix && previousText[previousText.length - 1 - suffix] === nextText[nextText.length - 1 - suffix]) suffix++;
+  const previousEnd = previousText.length - suffix;
+  const shift = nextText.length - previousText.length;
+  const changes: Change[] | undefined = diffWordsWithSpace(
+    previousText.slice(prefix, previousEnd),
+    nextText.slice(prefix, nextText.length - suffix),
+    { maxEditLength: MAX_EDIT_LENGTH }
+  );
+
+  const mapOffset = (offset: number): number => {
+    if (offset <= prefix) return offset;
+    if (offset >= previousEnd) return offset + shift;
+    if (!changes) return prefix;
+    let previousPos = prefix;
+    let nextPos = prefix;
+    let replacing = false; // Added text right after removed text replaces it rather than opening a line or page
+    for (const change of changes) {
+      const length = change.value.length;
+      if (change.added) {
+        if (offset === previousPos && !replacing) return nextPos;
+        nextPos += length;
+      } else if (offset < previousPos + length) {
+        return change.removed ? nextPos : nextPos + offset - previousPos;
+      } else {
+        previousPos += length;
+        if (!change.removed) nextPos += length;
+      }
+      replacing = Boolean(change.removed);
+    }
+    return nextPos;
+  };
+
+  return pageMap.map(entry => ({
+    ...entry,
+    start: mapOffset(entry.start),
+    end: mapOffset(entry.end),
+    lineStarts: entry.lineStarts.map(mapOffset),
+  }));
+};
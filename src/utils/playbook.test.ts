@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest';
+import { PlaybookFinding, PlaybookRule } from '@/types/playbook';
+import { countFindings, createPlaybookRule, needsAttention, pairFindingsWithRules, redlineInstructions } from './playbook';
+
+const rule = (id: string, overrides: Partial<PlaybookRule> = {}): PlaybookRule => ({ ...createPlaybookRule(), id, title: id, ...overrides });
+
+const finding = (ruleId: string, status: PlaybookFinding['status']): PlaybookFinding => ({
+  ruleId, status, text: null, explanation: '', matchedPosition: null, start: null, end: null,
+});
+
+describe('playbook findings', () => {
+  test('pair with the rules in playbook order, with unreported rules missing', () => {
+    const rules = [rule('liability'), rule('law', { required: false }), rule('audit', { required: false })];
+    const pairs = pairFindingsWithRules(rules, [finding('audit', 'met'), finding('liability', 'deviates'), finding('deleted-rule', 'met')]);
+
+    expect(pairs.map(({ rule, finding }) => [rule.id, finding.status])).toEqual([
+      ['liability', 'deviates'],
+      ['law', 'missing'],
+      ['audit', 'met'],
+    ]);
+    expect(countFindings(pairs)).toEqual({ met: 1, deviates: 1, missing: 1 });
+    // An optional clause being absent is fine
+    expect(pairs.map(needsAttention)).toEqual([true, false, false]);
+  });
+
+  test('turn a rule into redline instructions', () => {
+    const instructions = redlineInstructions(rule('liability', {
+      title: 'Limitation of liability',
+      preferredLanguage: 'Liability is capped at the fees paid in the preceding 12 months.',
+      unacceptableTerms: ['uncapped liability', 'indirect loss'],
+    }));
+
+    expect(instructions).toContain('"Limitation of liability"');
+    expect(instructions).toContain('Liability is capped at the fees paid in the preceding 12 months.');
+    expect(instructions).toContain('Remove anything amounting to: uncapped liability; indirect loss.');
+    expect(instructions).not.toContain('Reviewer guidance');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Helpers for playbook review: pairing the analysis findings with the playbook's rules and
+ * turning a rule's preferred position into rewrite instructions for the redline.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { PlaybookFinding, PlaybookFindingStatus, PlaybookRule } from '@/types/playbook';
+
+export interface RuleFinding {
+  rule: PlaybookRule;
+  finding: PlaybookFinding;
+}
+
+export const createPlaybookRule = (): PlaybookRule => ({
+  id: uuidv4(),
+  title: '',
+  required: true,
+  preferredLanguage: '',
+  fallbackPositions: [],
+  unacceptableTerms: [],
+  severity: 'medium',
+  guidance: '',
+});
+
+/**
+ * Each rule of the playbook with its finding, in playbook order. A rule the analysis didn't report
+ * on counts as missing; findings for rules no longer in the playbook are dropped.
+ */
+export function pairFindingsWithRules(rules: PlaybookRule[], findings: PlaybookFinding[]): RuleFinding[] {
+  const byRule = new Map(findings.map(finding => [finding.ruleId, finding]));
+  return rules.map(rule => ({
+    rule,
+    finding: byRule.get(rule.id) ?? {
+      ruleId: rule.id,
+      status: 'missing',
+      text: null,
+      explanation: 'The review did not find a clause addressing this rule.',
+      matchedPosition: null,
+      start: null,
+      end: null,
+    },
+  }));
+}
+
+/** Deviations, and missing clauses the playbook requires, are what the reviewer has to act on. */
+export const needsAttention = ({ rule, finding }: RuleFinding) =>
+  finding.status === 'deviates' || (finding.status === 'missing' && rule.required);
+
+export function countFindings(pairs: RuleFinding[]): Record<PlaybookFindingStatus, number> {
+  const counts: Record<PlaybookFindingStatus, number> = { met: 0, deviates: 0, missing: 0 };
+  pairs.forEach(({ finding }) => counts[finding.status]++);
+  return counts;
+}
+
+/** Instructions for the custom rewrite that redrafts a clause to the rule's preferred language. */
+export function redlineInstructions(rule: PlaybookRule): string {
+  return [
+    `Redraft this clause so it takes the firm's standard position on "${rule.title}".`,
+    `Preferred language:\n${rule.preferredLanguage}`,
+    rule.unacceptableTerms.length > 0 && `Remove anything amounting to: ${rule.unacceptableTerms.join('; ')}.`,
+    rule.guidance.trim() && `Reviewer guidance: ${rule.guidance.trim()}`,
+    'Follow the preferred language as closely as the rest of the contract allows, keeping the clause\'s numbering, defined terms and party names. Return only the redrafted clause.',
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'vitest';
+import { PrivilegeLogEntry } from '@/types/privilegeLog';
+import {
+  describePrivilegedDocument,
+  privilegeBasesFromCategories,
+  privilegeLogToCsv,
+  privilegeLogToHtml,
+} from './privilegeLog';
+
+const entry = (overrides: Partial<PrivilegeLogEntry>): PrivilegeLogEntry => ({
+  documentId: 'doc-1',
+  filename: 'memo.docx',
+  batesNumber: null,
+  date: '2024-03-01',
+  author: 'Jane Counsel <jane@firm.com>',
+  recipients: 'client@acme.com',
+  bases: ['attorney-client'],
+  description: 'Confidential email communication requesting or providing legal advice.',
+  flaggedCategories: ['ATTORNEY_CLIENT'],
+  excluded: false,
+  edited: false,
+  ...overrides,
+});
+
+describe('privilege log', () => {
+  test('maps analysis categories to privilege bases', () => {
+    expect(privilegeBasesFromCategories(['ATTORNEY_CLIENT', 'Work Product'])).toEqual(['attorney-client', 'work-product']);
+    expect(privilegeBasesFromCategories(['attorney-client'])).toEqual(['attorney-client']);
+    expect(privilegeBasesFromCategories(['TRADE_SECRET', 'SETTLEMENT_DETAIL'])).toEqual([]);
+  });
+
+  test('describes documents without revealing their content', () => {
+    expect(describePrivilegedDocument('email', ['attorney-client'])).toBe('Confidential email communication requesting or providing legal advice.');
+    expect(describePrivilegedDocument('attachment', ['attorney-client', 'work-product'])).toBe(
+      'Attachment to confidential communication requesting or providing legal advice and prepared in anticipation of litigation.'
+    );
+  });
+
+  test('exports numbered CSV rows, skipping excluded entries and preferring Bates numbers', () => {
+    const csv = privilegeLogToCsv([
+      entry({ batesNumber: 'ACME000010', recipients: 'a@acme.com, b@acme.com' }),
+      entry({ documentId: 'doc-2', excluded: true }),
+      entry({ documentId: 'doc-3', filename: '=cmd.xlsx', bases: ['work-product'], date: null }),
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'Entry,Bates / Document,Date,Author,Recipients,Privilege Basis,Description',
+      '1,ACME000010,2024-03-01,Jane Counsel <jane@firm.com>,"a@acme.com, b@acme.com",Attorney-Client Privilege,Confidential email communication requesting or providing legal advice.',
+      "2,'=cmd.xlsx,,Jane Counsel <jane@firm.com>,client@acme.com,Work Product,Confidential email communication requesting or providing legal advice.",
+      '',
+    ]);
+  });
+
+  test('escapes cell text in the HTML table', () => {
+    const html = privilegeLogToHtml([entry({})], 'Privilege Log');
+    expect(html).toContain('<td>Jane Counsel &lt;jane@firm.com&gt;</td>');
+    expect(html.match(/<tr>/g)).toHaveLength(2);
+  });
+});
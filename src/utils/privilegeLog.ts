@@ -0,0 +1,82 @@
+import { PrivilegeBasis, PrivilegeLogEntry } from '@/types/privilegeLog';
+
+export const PRIVILEGE_BASIS_LABELS: Record<PrivilegeBasis, string> = {
+  'attorney-client': 'Attorney-Client Privilege',
+  'work-product': 'Work Product',
+};
+
+const HEADER = ['Entry', 'Bates / Document', 'Date', 'Author', 'Recipients', 'Privilege Basis', 'Description'];
+
+/**
+ * Maps the categories of the privilegedTerms analysis ("ATTORNEY_CLIENT", "Work Product", ...)
+ * to privilege bases. Confidentiality-only categories (trade secrets, settlement details) aren't
+ * a basis for withholding, so they map to nothing and the reviewer has to pick one.
+ */
+export function privilegeBasesFromCategories(categories: string[]): PrivilegeBasis[] {
+  const normalized = categories.map(category => category.toUpperCase().replace(/[^A-Z]+/g, '_'));
+  const bases: PrivilegeBasis[] = [];
+  if (normalized.some(category => category.includes('ATTORNEY_CLIENT'))) bases.push('attorney-client');
+  if (normalized.some(category => category.includes('WORK_PRODUCT'))) bases.push('work-product');
+  return bases;
+}
+
+export function formatPrivilegeBases(bases: PrivilegeBasis[]): string {
+  return bases.map(basis => PRIVILEGE_BASIS_LABELS[basis]).join('; ');
+}
+
+/**
+ * A description that identifies the kind of document and why it is privileged without revealing
+ * its content, as required of privilege logs.
+ */
+export function describePrivilegedDocument(kind: 'email' | 'attachment' | 'document', bases: PrivilegeBasis[]): string {
+  const subject = {
+    email: 'Confidential email communication',
+    attachment: 'Attachment to confidential communication',
+    document: 'Confidential document',
+  }[kind];
+  const attorneyClient = bases.includes('attorney-client');
+  const workProduct = bases.includes('work-product');
+  const purpose = attorneyClient && workProduct
+    ? 'requesting or providing legal advice and prepared in anticipation of litigation'
+    : attorneyClient
+      ? 'requesting or providing legal advice'
+      : workProduct
+        ? "prepared in anticipation of litigation, reflecting counsel's mental impressions"
+        : 'containing information flagged as privileged';
+  return `${subject} ${purpose}.`;
+}
+
+// Rows as exported: excluded entries dropped, numbered in order
+function logRows(entries: PrivilegeLogEntry[]): string[][] {
+  return entries
+    .filter(entry => !entry.excluded)
+    .map((entry, i) => [
+      String(i + 1),
+      entry.batesNumber ?? entry.filename,
+      entry.date ?? '',
+      entry.author,
+      entry.recipients,
+      formatPrivilegeBases(entry.bases),
+      entry.description,
+    ]);
+}
+
+export function csvCell(value: string): string {
+  // Spreadsheet apps run cells starting with these as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function privilegeLogToCsv(entries: PrivilegeLogEntry[]): string {
+  return [HEADER, ...logRows(entries)].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** The log as an HTML table, the input format of the generate-docx function. */
+export function privilegeLogToHtml(entries: PrivilegeLogEntry[], title: string): string {
+  const headerRow = `<tr>${HEADER.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr>`;
+  const bodyRows = logRows(entries).map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`);
+  return `<h1>${escapeHtml(title)}</h1><table><thead>${headerRow}</thead><tbody>${bodyRows.join('')}</tbody></table>`;
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { isSubscriptionActive, isTrialValid } from './subscription';
+import { getAiQuotaStatus, isSubscriptionActive, isTrialValid } from './subscription';
 import { TRIAL_AI_CALL_LIMIT } from '@/config/constants';
 import { UserProfile } from '@/context/AuthContext';
 
@@ -40,4 +40,23 @@ describe('subscription utils', () => {
     const overLimit = { ...baseProfile, trial_ai_calls_used: TRIAL_AI_CALL_LIMIT };
     expect(isTrialValid(overLimit)).toBe(false);
   });
+
+  test('getAiQuotaStatus counts the calls left on a trial', () => {
+    const profile = { ...baseProfile, trial_ai_calls_used: 4 };
+    expect(getAiQuotaStatus(profile)).toEqual({
+      refusal: null, callsUsed: 4, callLimit: TRIAL_AI_CALL_LIMIT, callsRemaining: TRIAL_AI_CALL_LIMIT - 4,
+    });
+  });
+
+  test('getAiQuotaStatus leaves active plans unmetered', () => {
+    const profile = { ...baseProfile, subscription_status: 'active', trial_ai_calls_used: TRIAL_AI_CALL_LIMIT + 5 };
+    expect(getAiQuotaStatus(profile)).toMatchObject({ refusal: null, callLimit: null, callsRemaining: null });
+  });
+
+  test('getAiQuotaStatus explains why a call would be refused', () => {
+    expect(getAiQuotaStatus({ ...baseProfile, trial_ends_at: null }).refusal).toBe('trial_expired');
+    expect(getAiQuotaStatus({ ...baseProfile, trial_ai_calls_used: TRIAL_AI_CALL_LIMIT }).refusal).toBe('trial_limit');
+    expect(getAiQuotaStatus({ ...baseProfile, subscription_status: 'canceled' }).refusal).toBe('inactive');
+    expect(getAiQuotaStatus(null).refusal).toBe('no_profile');
+  });
 });
@@ -1,6 +1,24 @@
 import { UserProfile } from '@/context/AuthContext';
 import { TRIAL_AI_CALL_LIMIT } from '@/config/constants';
 
+/**
+ * AI call quota per subscription status; a null callLimit is unmetered. Plans not listed have no
+ * AI access. Mirrors AI_PLAN_QUOTAS in supabase/functions/_shared/usage.ts, which enforces it.
+ */
+export const AI_PLAN_QUOTAS: Record<string, { callLimit: number | null }> = {
+  trialing: { callLimit: TRIAL_AI_CALL_LIMIT },
+  active: { callLimit: null },
+};
+
+export type AiQuotaRefusal = 'no_profile' | 'trial_expired' | 'trial_limit' | 'inactive';
+
+export interface AiQuotaStatus {
+  refusal: AiQuotaRefusal | null; // Why another AI call would be refused, or null when it wouldn't
+  callsUsed: number;
+  callLimit: number | null;
+  callsRemaining: number | null; // null when the plan is unmetered
+}
+
 /**
  * Determine if the user's subscription is active.
  */
@@ -9,16 +27,28 @@ export function isSubscriptionActive(profile: UserProfile | null | undefined): b
 }
 
 /**
- * Determine if the user is currently in a valid trial period.
- * A trial is valid if:
- *  - subscription_status is 'trialing'
- *  - trial_ends_at exists and is in the future
- *  - trial_ai_calls_used is below the TRIAL_AI_CALL_LIMIT
+ * Where the user stands against their plan's AI call quota, checked the same way the edge
+ * functions check it before every call.
+ */
+export function getAiQuotaStatus(profile: UserProfile | null | undefined, now = new Date()): AiQuotaStatus {
+  const callsUsed = profile?.trial_ai_calls_used ?? 0;
+  const plan = profile?.subscription_status ? AI_PLAN_QUOTAS[profile.subscription_status] : undefined;
+  const callLimit = plan?.callLimit ?? null;
+  const callsRemaining = callLimit === null ? null : Math.max(0, callLimit - callsUsed);
+
+  let refusal: AiQuotaRefusal | null = null;
+  if (!profile) refusal = 'no_profile';
+  else if (!plan) refusal = 'inactive';
+  else if (profile.subscription_status === 'trialing' && (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now)) refusal = 'trial_expired';
+  else if (callsRemaining === 0) refusal = 'trial_limit';
+
+  return { refusal, callsUsed, callLimit, callsRemaining };
+}
+
+/**
+ * Determine if the user is currently in a valid trial period: trialing, before trial_ends_at and
+ * with AI calls left.
  */
 export function isTrialValid(profile: UserProfile | null | undefined): boolean {
-  if (!profile || profile.subscription_status !== 'trialing') return false;
-  const end = profile.trial_ends_at ? new Date(profile.trial_ends_at) : null;
-  if (!end) return false;
-  const callsUsed = profile.trial_ai_calls_used ?? 0;
-  return end.getTime() > Date.now() && callsUsed < TRIAL_AI_CALL_LIMIT;
+  return !!profile && profile.subscription_status === 'trialing' && getAiQuotaStatus(profile).refusal === null;
 }
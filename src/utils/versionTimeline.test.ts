@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'vitest';
+import { buildClauseTimelines, draftAuthor, type Draft } from './versionTimeline';
+
+const draft = (id: string, author: string, ...lines: string[]): Draft => ({ id, label: `${id}.docx`, author, content: lines.join('\n') });
+
+const drafts = [
+  draft('v1', 'Us',
+    '1. Payment', 'The Client shall pay within 30 days.',
+    '2. Term', 'This agreement lasts two years.',
+    '3. Audit', 'The Supplier shall permit one audit a year.'),
+  draft('v2', 'Counterparty',
+    '1. Payment', 'The Client shall pay within 60 days.',
+    '2. Term', 'This agreement lasts two years.'),
+  draft('v3', 'Us',
+    '1. Term', 'This agreement lasts two years.',
+    '2. Payment', 'The Client shall pay within 45 days.',
+    '3. Governing Law', 'This agreement is governed by English law.'),
+];
+
+describe('clause timelines', () => {
+  test('follow each clause through the drafts and record which draft changed it', () => {
+    const timelines = buildClauseTimelines(drafts);
+    const summary = timelines.map(t => [
+      t.label,
+      t.revisions.map(revision => revision.change),
+      t.changedIn.map(index => draftAuthor(drafts[index])),
+    ]);
+    expect(summary).toEqual([
+      ['1 Term', [null, 'unchanged', 'unchanged'], []],
+      ['3 Audit', [null, 'removed', null], ['Counterparty']],
+      ['2 Payment', [null, 'substantive', 'substantive'], ['Counterparty', 'Us']],
+      ['3 Governing Law', [null, null, 'added'], ['Us']],
+    ]);
+  });
+
+  test('keep each draft\'s wording and flag moves and renumbering', () => {
+    const payment = buildClauseTimelines(drafts).find(t => t.label === '2 Payment')!;
+    expect(payment.revisions.map(revision => revision.clause?.text.split('\n')[1])).toEqual([
+      'The Client shall pay within 30 days.',
+      'The Client shall pay within 60 days.',
+      'The Client shall pay within 45 days.',
+    ]);
+    expect(payment.revisions[2]).toMatchObject({ renumbered: true });
+    expect(buildClauseTimelines(drafts.slice(0, 1)).map(t => t.revisions.length)).toEqual([1, 1, 1]);
+  });
+});
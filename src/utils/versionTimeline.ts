@@ -0,0 +1,88 @@
+/**
+ * N-way comparison of successive drafts: each clause is followed from draft to draft using the
+ * pairwise clause alignment, giving a timeline of its wording and of which draft (and so whose
+ * turn) introduced each change.
+ */
+import { Clause, ClauseChangeKind, clauseLabel, compareClauses } from './clauseComparison';
+
+export interface Draft {
+  id: string;
+  label: string; // e.g. the filename
+  author?: string | null; // Who produced the draft, e.g. "Counterparty"
+  content: string;
+}
+
+export interface ClauseRevision {
+  clause: Clause | null; // null while the clause isn't in the draft
+  change: ClauseChangeKind | null; // Against the previous draft; null for the first draft or while absent
+  moved: boolean;
+  renumbered: boolean;
+}
+
+export interface ClauseTimeline {
+  id: string;
+  label: string; // As the clause was last headed
+  revisions: ClauseRevision[]; // One per draft, in draft order
+  changedIn: number[]; // Indexes of the drafts that changed, added or removed the clause
+}
+
+const absent: ClauseRevision = { clause: null, change: null, moved: false, renumbered: false };
+
+const isChange = (revision: ClauseRevision) => revision.change !== null && revision.change !== 'unchanged';
+
+/**
+ * Follows every clause through the drafts, in order. Timelines come in the order of the latest
+ * draft a clause appears in, with clauses that were dropped after the clause they followed.
+ */
+export function buildClauseTimelines(drafts: Draft[]): ClauseTimeline[] {
+  if (drafts.length === 0) return [];
+  let created = 0;
+  const timeline = (revisions: ClauseRevision[]): ClauseTimeline => ({ id: `clause-${created++}`, label: '', revisions, changedIn: [] });
+
+  // Timelines of the first draft's clauses, in order
+  let order: ClauseTimeline[] = compareClauses('', drafts[0].content)
+    .filter(comparison => comparison.revised)
+    .map(comparison => timeline([{ ...absent, clause: comparison.revised }]));
+
+  for (let i = 1; i < drafts.length; i++) {
+    // Timelines by the index their clause has in the previous draft
+    const byPreviousIndex = new Map<number, ClauseTimeline>();
+    order.forEach(t => {
+      const clause = t.revisions[i - 1].clause;
+      if (clause) byPreviousIndex.set(clause.index, t);
+    });
+
+    const nextOrder: ClauseTimeline[] = [];
+    compareClauses(drafts[i - 1].content, drafts[i].content).forEach(comparison => {
+      const existing = comparison.original ? byPreviousIndex.get(comparison.original.index) : undefined;
+      const t = existing ?? timeline(Array.from({ length: i }, () => absent));
+      t.revisions.push({ clause: comparison.revised, change: comparison.kind, moved: comparison.moved, renumbered: comparison.renumbered });
+      nextOrder.push(t);
+    });
+
+    // Clauses dropped in an earlier draft stay after the clause they followed
+    const inNext = new Set(nextOrder);
+    let position = -1;
+    order.forEach(t => {
+      if (inNext.has(t)) {
+        position = nextOrder.indexOf(t);
+      } else {
+        t.revisions.push(absent);
+        nextOrder.splice(++position, 0, t);
+      }
+    });
+    order = nextOrder;
+  }
+
+  return order.map(t => {
+    const last = [...t.revisions].reverse().find(revision => revision.clause)?.clause;
+    return {
+      ...t,
+      label: last ? clauseLabel(last) : '',
+      changedIn: t.revisions.flatMap((revision, index) => (isChange(revision) ? [index] : [])),
+    };
+  });
+}
+
+/** Who introduced a draft's changes: its author when known, otherwise the draft's label. */
+export const draftAuthor = (draft: Draft) => draft.author?.trim() || draft.label;
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getBearerToken, isServiceRoleRequest, requireAuth } from './auth';
+
+const SERVICE_ROLE_KEY = 'service-role-key';
+
+// Supabase Auth only knows the listed tokens; the profiles table holds olivia but not newbie
+const fakeClient = (users: Record<string, { id: string; email: string }>, profileError: { message: string } | null = null) => {
+  const profileLookups: { table: string; column: string; value: unknown }[] = [];
+  const supabase = {
+    auth: {
+      getUser: vi.fn(async (token: string) => users[token]
+        ? { data: { user: users[token] }, error: null }
+        : { data: { user: null }, error: { message: 'invalid JWT: signature is invalid' } }),
+    },
+    from: (table: string) => {
+      let id: unknown;
+      const builder = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => { id = value; profileLookups.push({ table, column, value }); return builder; },
+        maybeSingle: async () => ({
+          data: !profileError && id === 'olivia' ? { id, full_name: 'Olivia Owner', subscription_status: 'active', trial_ends_at: null, trial_ai_calls_used: 0 } : null,
+          error: profileError,
+        }),
+      };
+      return builder;
+    },
+  };
+  return Object.assign(supabase as unknown as SupabaseClient, { getUser: supabase.auth.getUser, profileLookups });
+};
+
+const client = fakeClient({
+  'valid-token': { id: 'olivia', email: 'olivia@firm.test' },
+  'newbie-token': { id: 'newbie', email: 'newbie@firm.test' },
+});
+
+const request = (authorization?: string) =>
+  new Request('http://localhost/functions/v1/any', { method: 'POST', headers: authorization ? { Authorization: authorization } : {} });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('requireAuth', () => {
+  test('reject missing, malformed and forged tokens with 401', async () => {
+    for (const authorization of [undefined, 'valid-token', 'Basic dXNlcjpwYXNz', 'Bearer forged.jwt.token']) {
+      const result = await requireAuth(request(authorization), client);
+      expect(result).toBeInstanceOf(Response);
+      expect((result as Response).status).toBe(401);
+    }
+  });
+
+  test('answer rejections with a JSON error the browser can read cross-origin', async () => {
+    const result = await requireAuth(request('Bearer forged.jwt.token'), client) as Response;
+    expect(await result.json()).toEqual({ error: 'Invalid or expired authorization token' });
+    expect(result.headers.get('Content-Type')).toBe('application/json');
+    expect(result.headers.get('Access-Control-Allow-Origin')).not.toBeNull();
+  });
+
+  test('only ask Supabase Auth about well-formed bearer tokens', async () => {
+    const supabase = fakeClient({ 'valid-token': { id: 'olivia', email: 'olivia@firm.test' } });
+    await requireAuth(request('Basic dXNlcjpwYXNz'), supabase);
+    expect(supabase.getUser).not.toHaveBeenCalled();
+    await requireAuth(request('bearer   valid-token'), supabase);
+    expect(supabase.getUser).toHaveBeenCalledWith('valid-token');
+  });
+
+  test('resolve the user and profile from a valid token, ignoring ids in the body', async () => {
+    const req = new Request('http://localhost/functions/v1/any', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer valid-token' },
+      body: JSON.stringify({ userId: 'mallory' }),
+    });
+    const supabase = fakeClient({ 'valid-token': { id: 'olivia', email: 'olivia@firm.test' } });
+    const result = await requireAuth(req, supabase);
+    expect(result).not.toBeInstanceOf(Response);
+    expect(result).toMatchObject({ user: { id: 'olivia' }, profile: { full_name: 'Olivia Owner', subscription_status: 'active' } });
+    expect(supabase.profileLookups).toEqual([{ table: 'profiles', column: 'id', value: 'olivia' }]);
+  });
+
+  test('return a null profile, or 403 when the profile is required', async () => {
+    expect(await requireAuth(request('Bearer newbie-token'), client)).toMatchObject({ user: { id: 'newbie' }, profile: null });
+    const result = await requireAuth(request('Bearer newbie-token'), client, { requireProfile: true });
+    expect((result as Response).status).toBe(403);
+  });
+
+  test('fail loudly when the profile cannot be loaded, rather than treating the caller as profile-less', async () => {
+    const supabase = fakeClient({ 'valid-token': { id: 'olivia', email: 'olivia@firm.test' } }, { message: 'connection reset' });
+    await expect(requireAuth(request('Bearer valid-token'), supabase)).rejects.toThrow('Failed to load profile: connection reset');
+  });
+
+  test('recognise the service-role key only when it matches exactly', () => {
+    vi.stubGlobal('Deno', { env: { get: (name: string) => (name === 'SUPABASE_SERVICE_ROLE_KEY' ? SERVICE_ROLE_KEY : undefined) } });
+    expect(getBearerToken(request(`bearer ${SERVICE_ROLE_KEY}`))).toBe(SERVICE_ROLE_KEY);
+    expect(isServiceRoleRequest(request(`Bearer ${SERVICE_ROLE_KEY}`))).toBe(true);
+    expect(isServiceRoleRequest(request('Bearer valid-token'))).toBe(false);
+    expect(isServiceRoleRequest(request())).toBe(false);
+  });
+
+  test('recognise no service-role requests when the key is not configured', () => {
+    vi.stubGlobal('Deno', { env: { get: () => undefined } });
+    expect(isServiceRoleRequest(request('Bearer undefined'))).toBe(false);
+    expect(isServiceRoleRequest(request())).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+// supabase/functions/_shared/auth.ts
+// Caller identity for edge functions. The user is always the one the bearer token was issued to,
+// verified with Supabase Auth; user ids sent in request bodies are never trusted, since the
+// service-role client would otherwise act (and spend trial quota) on behalf of anyone.
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from './cors.ts';
+
+export interface UserProfile {
+  id: string;
+  full_name: string | null;
+  subscription_status: string | null;
+  trial_ends_at: string | null;
+  trial_ai_calls_used: number | null;
+}
+
+export interface AuthContext {
+  user: User;
+  profile: UserProfile | null; // null when the user has no profiles row yet
+}
+
+interface RequireAuthOptions {
+  requireProfile?: boolean; // Reject callers without a profile with 403 instead of returning profile: null
+}
+
+const PROFILE_COLUMNS = 'id, full_name, subscription_status, trial_ends_at, trial_ai_calls_used';
+
+/** The bearer token from the Authorization header, or null when it is missing or not a bearer token. */
+export function getBearerToken(req: Request): string | null {
+  const match = req.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/** Whether the request carries the service-role key, as when one function invokes another. */
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && getBearerToken(req) === serviceRoleKey;
+}
+
+export const authErrorResponse = (error: string, status: 401 | 403) =>
+  new Response(JSON.stringify({ error }), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+/**
+ * Verifies the request's bearer token and loads the caller's profile. Returns the ready error
+ * response for a missing or invalid token (401) or, with requireProfile, a missing profile (403):
+ *
+ *   const auth = await requireAuth(req, supabaseAdmin);
+ *   if (auth instanceof Response) return auth;
+ */
+export function requireAuth(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  options: { requireProfile: true },
+): Promise<(AuthContext & { profile: UserProfile }) | Response>;
+export function requireAuth(req: Request, supabaseAdmin: SupabaseClient, options?: RequireAuthOptions): Promise<AuthContext | Response>;
+export async function requireAuth(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  { requireProfile = false }: RequireAuthOptions = {},
+): Promise<AuthContext | Response> {
+  const token = getBearerToken(req);
+  if (!token) return authErrorResponse('Missing authorization token', 401);
+
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+  if (userError || !user) return authErrorResponse('Invalid or expired authorization token', 401);
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('id', user.id)
+    .maybeSingle();
+  if (profileError) throw new Error(`Failed to load profile: ${profileError.message}`);
+  if (!profile && requireProfile) return authErrorResponse('User profile not found', 403);
+
+  return { user, profile: (profile as UserProfile | null) ?? null };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { canAccessDocument, canAssignCaseRole, getCaseRole, roleAllows } from './caseAccess';
+
+// Just enough of the query builder for select().eq().maybeSingle() over in-memory rows
+const fakeClient = (tables: Record<string, Record<string, unknown>[]>) => ({
+  from: (table: string) => {
+    const filters: [string, unknown][] = [];
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => { filters.push([column, value]); return builder; },
+      maybeSingle: async () => ({
+        data: (tables[table] || []).find(row => filters.every(([column, value]) => row[column] === value)) ?? null,
+        error: null,
+      }),
+    };
+    return builder;
+  },
+}) as unknown as SupabaseClient;
+
+const client = fakeClient({
+  cases: [{ id: 'case-1', owner_id: 'olivia' }],
+  case_collaborators: [
+    { case_id: 'case-1', user_id: 'olivia', role: 'owner' },
+    { case_id: 'case-1', user_id: 'paul', role: 'paralegal' },
+    { case_id: 'case-1', user_id: 'carla', role: 'client' },
+    { case_id: 'case-1', user_id: 'anna', role: 'attorney' },
+    { case_id: 'case-1', user_id: 'lee', role: null }, // From before roles were introduced
+  ],
+});
+
+describe('case access', () => {
+  test('resolve the owner, members and non-members', async () => {
+    expect(await getCaseRole(client, 'case-1', 'olivia')).toBe('owner');
+    expect(await getCaseRole(client, 'case-1', 'paul')).toBe('paralegal');
+    expect(await getCaseRole(client, 'case-1', 'mallory')).toBeNull();
+    expect(await getCaseRole(client, 'case-2', 'olivia')).toBeNull();
+  });
+
+  test('give members without a role the least-privileged one', async () => {
+    expect(await getCaseRole(client, 'case-1', 'lee')).toBe('client');
+  });
+
+  test('let only members who manage members grant roles below their own, never ownership', async () => {
+    expect(await canAssignCaseRole(client, 'case-1', 'olivia', 'attorney')).toBe(true);
+    expect(await canAssignCaseRole(client, 'case-1', 'olivia', 'owner')).toBe(false);
+    expect(await canAssignCaseRole(client, 'case-1', 'anna', 'paralegal')).toBe(true);
+    expect(await canAssignCaseRole(client, 'case-1', 'anna', 'attorney')).toBe(false);
+    expect(await canAssignCaseRole(client, 'case-1', 'paul', 'client')).toBe(false);
+    expect(await canAssignCaseRole(client, 'case-1', 'mallory', 'client')).toBe(false);
+  });
+
+  test('allow each role only its actions', () => {
+    expect(roleAllows('paralegal', 'use_ai')).toBe(true);
+    expect(roleAllows('client', 'view')).toBe(true);
+    expect(roleAllows('client', 'use_ai')).toBe(false);
+    expect(roleAllows(null, 'view')).toBe(false);
+  });
+
+  test('check documents against their case, or their owner outside one', async () => {
+    expect(await canAccessDocument(client, { owner_id: 'olivia', case_id: 'case-1' }, 'carla', 'view')).toBe(true);
+    expect(await canAccessDocument(client, { owner_id: 'olivia', case_id: 'case-1' }, 'carla', 'edit')).toBe(false);
+    expect(await canAccessDocument(client, { owner_id: 'olivia', case_id: null }, 'paul', 'view')).toBe(false);
+    expect(await canAccessDocument(client, { owner_id: 'paul', case_id: null }, 'paul', 'edit')).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+// supabase/functions/_shared/caseAccess.ts
+// Case membership checks for functions that read or change case data with the service-role
+// client, which bypasses row level security. A case's owner is cases.owner_id; everyone else
+// is a member through case_collaborators with a role.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Mirrors CaseRole and CaseAction in src/types/membership.ts
+export type CaseRole = 'owner' | 'attorney' | 'paralegal' | 'client';
+export type CaseAction = 'view' | 'edit' | 'use_ai' | 'manage_members' | 'delete';
+
+// Mirrors src/utils/casePermissions.ts
+const rolePermissions: Record<CaseRole, CaseAction[]> = {
+  owner: ['view', 'edit', 'use_ai', 'manage_members', 'delete'],
+  attorney: ['view', 'edit', 'use_ai', 'manage_members'],
+  paralegal: ['view', 'edit', 'use_ai'],
+  client: ['view'],
+};
+
+export function roleAllows(role: CaseRole | null, action: CaseAction): boolean {
+  return !!role && rolePermissions[role].includes(action);
+}
+
+/** The roles a member can invite people as. Mirrors assignableRoles in src/utils/casePermissions.ts. */
+export function assignableRoles(role: CaseRole | null): CaseRole[] {
+  if (role === 'owner') return ['attorney', 'paralegal', 'client'];
+  if (role === 'attorney') return ['paralegal', 'client'];
+  return [];
+}
+
+/** The user's role on the case, or null when the case doesn't exist or they aren't a member. */
+export async function getCaseRole(supabaseAdmin: SupabaseClient, caseId: string, userId: string): Promise<CaseRole | null> {
+  const { data: caseRow, error: caseError } = await supabaseAdmin
+    .from('cases')
+    .select('owner_id')
+    .eq('id', caseId)
+    .maybeSingle();
+  if (caseError) throw new Error(`Failed to load case: ${caseError.message}`);
+  if (!caseRow) return null;
+  if (caseRow.owner_id === userId) return 'owner';
+
+  const { data: membership, error } = await supabaseAdmin
+    .from('case_collaborators')
+    .select('role')
+    .eq('case_id', caseId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load case membership: ${error.message}`);
+  // Rows from before roles were introduced get the least-privileged role; the owner is cases.owner_id
+  return membership ? (membership.role ?? 'client') as CaseRole : null;
+}
+
+/**
+ * Whether the user may currently grant the role on the case: they must be able to manage its
+ * members and assign that role. Ownership is never granted.
+ */
+export async function canAssignCaseRole(
+  supabaseAdmin: SupabaseClient,
+  caseId: string,
+  userId: string,
+  role: string,
+): Promise<boolean> {
+  const grantorRole = await getCaseRole(supabaseAdmin, caseId, userId);
+  return roleAllows(grantorRole, 'manage_members') && assignableRoles(grantorRole).includes(role as CaseRole);
+}
+
+/** Whether the user's role on the case allows the action. */
+export async function canAccessCase(
+  supabaseAdmin: SupabaseClient,
+  caseId: string,
+  userId: string,
+  action: CaseAction,
+): Promise<boolean> {
+  return roleAllows(await getCaseRole(supabaseAdmin, caseId, userId), action);
+}
+
+/**
+ * Whether the user may perform the action on a document: documents in a case follow the user's
+ * role on the case, documents outside any case are their owner's alone.
+ */
+export async function canAccessDocument(
+  supabaseAdmin: SupabaseClient,
+  document: { owner_id: string; case_id: string | null },
+  userId: string,
+  action: CaseAction,
+): Promise<boolean> {
+  if (!document.case_id) return document.owner_id === userId;
+  return canAccessCase(supabaseAdmin, document.case_id, userId, action);
+}
+
+/** Ids of every case the user owns or is a member of. */
+export async function getAccessibleCaseIds(supabaseAdmin: SupabaseClient, userId: string): Promise<string[]> {
+  const [{ data: owned, error: ownedError }, { data: memberships, error: membershipError }] = await Promise.all([
+    supabaseAdmin.from('cases').select('id').eq('owner_id', userId),
+    supabaseAdmin.from('case_collaborators').select('case_id').eq('user_id', userId),
+  ]);
+  if (ownedError) throw new Error(`Failed to load cases: ${ownedError.message}`);
+  if (membershipError) throw new Error(`Failed to load case memberships: ${membershipError.message}`);
+  return [...new Set([...(owned || []).map(row => row.id as string), ...(memberships || []).map(row => row.case_id as string)])];
+}
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import { extractCitations } from './citations';
+import { combineResolvers, createCourtListenerResolver, createFixtureResolver, createPerplexityResolver, verifyCitations } from './citationResolvers';
+
+const BRIEF = 'Roe v. Wade, 410 U.S. 113 (1973); Brown v. Board of Educ., 347 U.S. 483 (1955); ' +
+  'Smith v. Nowhere, 999 F.3d 1 (2d Cir. 2021); Casey, 505 U.S. at 846; 42 U.S.C. § 1983.';
+
+describe('citation verification', () => {
+  test('verifies, corrects and rejects citations through the fixture resolver', async () => {
+    const resolver = createFixtureResolver({
+      '410 U.S. 113': { caseName: 'Roe v. Wade', date: '1973-01-22' },
+      '347 U.S. 483': { caseName: 'Brown v. Board of Education of Topeka', date: '1954-05-17' },
+    });
+    const results = await verifyCitations(extractCitations(BRIEF), resolver);
+    expect(results.map(r => [r.citation, r.status])).toEqual([
+      ['Roe v. Wade, 410 U.S. 113 (1973)', 'verified'],
+      ['Brown v. Board of Educ., 347 U.S. 483 (1955)', 'mismatch'],
+      ['Smith v. Nowhere, 999 F.3d 1 (2d Cir. 2021)', 'not_found'],
+      ['Casey, 505 U.S. at 846', 'unverifiable'],
+      ['42 U.S.C. § 1983', 'not_found'],
+    ]);
+    expect(results[0].verified).toBe(true);
+    expect(results[1].correctedCitation).toBe('Brown v. Board of Education of Topeka, 347 U.S. 483 (1954)');
+  });
+
+  test('flags a case found under a different name', async () => {
+    const resolver = createFixtureResolver({ '410 U.S. 113': { caseName: 'Doe v. Bolton', date: '1973-01-22' } });
+    const [result] = await verifyCitations(extractCitations('Roe v. Wade, 410 U.S. 113 (1973).'), resolver);
+    expect(result).toMatchObject({ status: 'mismatch', correctedCitation: 'Doe v. Bolton, 410 U.S. 113 (1973)' });
+  });
+
+  test('maps CourtListener lookup results and leaves other citation types to the next resolver', async () => {
+    const requests: string[] = [];
+    const fakeFetch = (async (_url: string, init: RequestInit) => {
+      requests.push(new URLSearchParams(init.body as string).get('text') ?? '');
+      return new Response(JSON.stringify([
+        { citation: '410 U.S. 113', normalized_citations: ['410 U.S. 113'], status: 200, clusters: [{ case_name: 'Roe v. Wade', date_filed: '1973-01-22', absolute_url: '/opinion/108713/roe-v-wade/' }] },
+        { citation: '999 F.3d 1', normalized_citations: ['999 F.3d 1'], status: 404, error_message: 'Citation not found', clusters: [] },
+      ]), { status: 200 });
+    }) as typeof fetch;
+    const resolver = combineResolvers([
+      createCourtListenerResolver('token', 'https://cl.test', fakeFetch),
+      createFixtureResolver({ '42 U.S.C. § 1983': { summary: 'Civil action for deprivation of rights' } }),
+    ]);
+
+    const results = await verifyCitations(extractCitations(BRIEF), resolver);
+    expect(requests).toEqual(['410 U.S. 113\n347 U.S. 483\n999 F.3d 1']);
+    expect(resolver.name).toBe('courtlistener+fixture');
+    expect(results.map(r => r.status)).toEqual(['verified', 'not_found', 'not_found', 'unverifiable', 'verified']);
+    expect(results[0].sources).toEqual([{ title: 'Roe v. Wade', url: 'https://cl.test/opinion/108713/roe-v-wade/' }]);
+    expect(results[2].error).toBe('Citation not found');
+  });
+
+  test('adds up the tokens of every Perplexity lookup for the usage ledger', async () => {
+    const fakeFetch = (async () => new Response(JSON.stringify({
+      choices: [{ message: { content: JSON.stringify({ verified: true }) } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 },
+    }), { status: 200 })) as typeof fetch;
+    const resolver = combineResolvers([createPerplexityResolver('key', fakeFetch), createFixtureResolver({})]);
+
+    await verifyCitations(extractCitations(BRIEF), resolver);
+    // One lookup per full citation; the short form has nothing to look up
+    expect(resolver.usage?.()).toEqual({ model: 'sonar', requests: 4, inputTokens: 480, outputTokens: 120 });
+    expect(createFixtureResolver({}).usage).toBeUndefined();
+  });
+
+  test('reports a failed Perplexity lookup on that citation and checks the rest', async () => {
+    const fakeFetch = (async (_url: string, init: RequestInit) => {
+      const question = JSON.parse(init.body as string).messages[1].content as string;
+      if (question.includes('410 U.S. 113')) throw new TypeError('network connection lost');
+      if (question.includes('347 U.S. 483')) return new Response('<html>Bad gateway</html>', { status: 200 });
+      return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ verified: false }) } }] }), { status: 200 });
+    }) as typeof fetch;
+
+    const results = await verifyCitations(extractCitations(BRIEF), createPerplexityResolver('key', fakeFetch));
+    expect(results.map(r => r.status)).toEqual(['error', 'error', 'not_found', 'unverifiable', 'not_found']);
+    expect(results[0].error).toBe('Perplexity request failed: network connection lost');
+  });
+});
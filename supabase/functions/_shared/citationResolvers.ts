@@ -0,0 +1,333 @@
+// supabase/functions/_shared/citationResolvers.ts
+// Pluggable lookups that check extracted citations against a source of truth. verify-citations
+// and claude-router both go through createCitationResolver() and verifyCitations().
+import type { CitationOccurrence, CitationType, ParsedCitation } from './citations.ts';
+
+export interface CitationResolution {
+  status: 'found' | 'not_found' | 'error';
+  citation?: string; // The authority's citation as the resolver knows it
+  correctedCitation?: string; // Set when the resolver found the authority under a different citation
+  caseName?: string;
+  court?: string;
+  date?: string; // ISO date of decision or publication
+  summary?: string;
+  sources?: { title: string; url: string }[];
+  error?: string;
+}
+
+// Model requests a resolver has made so far, for the caller's AI usage ledger entry
+export interface ResolverUsage {
+  model: string | null;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CitationResolver {
+  name: string;
+  // Keyed by ParsedCitation.key; citations the resolver can't look up are left out
+  resolve(citations: ParsedCitation[]): Promise<Map<string, CitationResolution>>;
+  usage?(): ResolverUsage; // Only resolvers backed by a model have one
+}
+
+// Mirrors VerifiedCitation in src/types/citation.ts
+export interface VerifiedCitation {
+  citation: string;
+  type: CitationType;
+  status: 'verified' | 'mismatch' | 'not_found' | 'unverifiable' | 'error';
+  verified: boolean;
+  correctedCitation?: string;
+  court?: string;
+  date?: string;
+  summary?: string;
+  sources?: { title: string; url: string }[];
+  error?: string;
+  occurrences: CitationOccurrence[];
+}
+
+const COURTLISTENER_URL = 'https://www.courtlistener.com';
+const COURTLISTENER_BATCH_SIZE = 100; // The lookup API accepts up to 250 citations per request
+
+// Lower-cased words of a name, ignoring "v." and corporate noise words
+const nameWords = (name: string) =>
+  (name.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(word => !['v', 'inc', 'co', 'corp', 'llc', 'ltd', 'the', 'of', 'et', 'al'].includes(word));
+
+// Every party of the cited name must share a word with the name the resolver found
+function caseNamesMatch(cited: string, found: string): boolean {
+  const foundWords = new Set(nameWords(found));
+  return cited.split(/\s+v\.\s+/).every(party => {
+    const words = nameWords(party);
+    return words.length === 0 || words.some(word => foundWords.has(word));
+  });
+}
+
+/**
+ * CourtListener's citation lookup API (or a self-hosted instance of it). Only case citations
+ * are supported; statutes and regulations are left for another resolver.
+ */
+export function createCourtListenerResolver(token: string, baseUrl: string = COURTLISTENER_URL, fetchFn: typeof fetch = fetch): CitationResolver {
+  return {
+    name: 'courtlistener',
+    async resolve(citations: ParsedCitation[]): Promise<Map<string, CitationResolution>> {
+      const results = new Map<string, CitationResolution>();
+      const cases = citations.filter(citation => citation.type === 'case' && citation.page !== null);
+      const byCompactKey = new Map(cases.map(citation => [citation.key.replace(/\s+/g, '').toLowerCase(), citation]));
+
+      for (let i = 0; i < cases.length; i += COURTLISTENER_BATCH_SIZE) {
+        const batch = cases.slice(i, i + COURTLISTENER_BATCH_SIZE);
+        const response = await fetchFn(`${baseUrl}/api/rest/v4/citation-lookup/`, {
+          method: 'POST',
+          headers: { 'Authorization': `Token ${token}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ text: batch.map(citation => citation.key).join('\n') }).toString(),
+        });
+        if (!response.ok) {
+          const detail = await response.text();
+          batch.forEach(citation => results.set(citation.key, { status: 'error', error: `CourtListener lookup failed (${response.status}): ${detail.substring(0, 200)}` }));
+          continue;
+        }
+        const rows = await response.json() as {
+          citation: string;
+          normalized_citations?: string[];
+          status: number;
+          error_message?: string;
+          clusters?: { case_name?: string; date_filed?: string; absolute_url?: string }[];
+        }[];
+        for (const row of rows) {
+          const cited = [row.citation, ...(row.normalized_citations ?? [])]
+            .map(text => byCompactKey.get(text.replace(/\s+/g, '').toLowerCase()))
+            .find(Boolean);
+          if (!cited) continue;
+          const key = cited.key;
+          const clusters = row.clusters ?? [];
+          if ((row.status === 200 || row.status === 300) && clusters.length > 0) {
+            // An ambiguous citation (status 300) is fine if one of the candidates is the cited case
+            const cluster = clusters.find(c => cited.caseName && c.case_name && caseNamesMatch(cited.caseName, c.case_name)) ?? clusters[0];
+            results.set(key, {
+              status: 'found',
+              citation: row.normalized_citations?.[0] ?? row.citation,
+              caseName: cluster.case_name,
+              date: cluster.date_filed,
+              summary: clusters.length > 1 ? `Citation matches ${clusters.length} cases: ${clusters.map(c => c.case_name).join('; ')}` : undefined,
+              sources: clusters
+                .filter(c => c.absolute_url)
+                .map(c => ({ title: c.case_name || row.citation, url: `${baseUrl}${c.absolute_url}` })),
+            });
+          } else if (row.status === 404 || row.status === 400) {
+            results.set(key, { status: 'not_found', error: row.error_message || undefined });
+          } else {
+            results.set(key, { status: 'error', error: row.error_message || `CourtListener returned status ${row.status}` });
+          }
+        }
+        // Citations CourtListener didn't echo back weren't recognised as citations at all
+        batch.filter(citation => !results.has(citation.key)).forEach(citation => results.set(citation.key, { status: 'not_found' }));
+      }
+      return results;
+    },
+  };
+}
+
+const PERPLEXITY_MODEL = 'sonar';
+
+const PERPLEXITY_QUESTIONS: Record<CitationType, string> = {
+  case: '1. The correct full citation\n2. The court that decided it\n3. The date of the decision\n4. A 1-2 sentence summary of the holding/significance',
+  statute: '1. The correct full citation\n2. Whether this is current law\n3. When it was enacted/last amended\n4. A brief description of what this section covers',
+  regulation: '1. The correct full citation\n2. The agency that issued it\n3. When it was published/effective\n4. What it regulates',
+  federalRegister: '1. The correct full citation\n2. The agency that issued it\n3. When it was published/effective\n4. What it regulates',
+  publicLaw: '1. The correct full citation\n2. When it was enacted\n3. A brief description of what it covers',
+};
+
+/**
+ * Asks Perplexity (web search restricted to legal sources) to verify each citation. Works for
+ * every citation type, one request per citation.
+ */
+export function createPerplexityResolver(apiKey: string, fetchFn: typeof fetch = fetch): CitationResolver {
+  const usage: ResolverUsage = { model: PERPLEXITY_MODEL, requests: 0, inputTokens: 0, outputTokens: 0 };
+
+  const verifyOne = async (citation: ParsedCitation): Promise<CitationResolution> => {
+    usage.requests++;
+    // Any failure is reported on this citation alone; the rest of the batch carries on
+    let data: { choices?: { message?: { content?: string } }[]; usage?: { prompt_tokens?: number; completion_tokens?: number } } | null;
+    try {
+      const response = await fetchFn('https://api.perplexity.ai/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+        body: JSON.stringify({
+          model: PERPLEXITY_MODEL,
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a legal research specialist focusing on accurate verification of legal citations, cases, and statutes. Provide precise information with proper legal citations. When verifying a case, include the full citation, court, date, and a brief holding.',
+            },
+            { role: 'user', content: `Verify this legal citation: ${citation.normalized}\n\nPlease provide:\n${PERPLEXITY_QUESTIONS[citation.type]}` },
+          ],
+          search_domain_filter: ['law.cornell.edu', 'scholar.google.com', 'courtlistener.com', 'justia.com', 'oyez.org', 'leagle.com', 'casetext.com', 'findlaw.com', 'govinfo.gov', 'federalregister.gov', 'ecfr.gov'],
+          web_search_options: { search_context_size: 'high' },
+          temperature: 0.1,
+          max_tokens: 500,
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              schema: {
+                type: 'object',
+                properties: {
+                  verified: { type: 'boolean' },
+                  correctedCitation: { type: 'string' },
+                  court: { type: 'string' },
+                  date: { type: 'string' },
+                  summary: { type: 'string' },
+                  sources: { type: 'array', items: { type: 'object', properties: { title: { type: 'string' }, url: { type: 'string' } } } },
+                },
+                required: ['verified'],
+              },
+            },
+          },
+        }),
+      });
+      if (!response.ok) {
+        return { status: 'error', error: `Perplexity request failed (${response.status})` };
+      }
+      data = await response.json();
+    } catch (error) {
+      return { status: 'error', error: `Perplexity request failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    usage.inputTokens += data?.usage?.prompt_tokens ?? 0;
+    usage.outputTokens += data?.usage?.completion_tokens ?? 0;
+    try {
+      const answer = JSON.parse(data?.choices?.[0]?.message?.content ?? '') as {
+        verified: boolean; correctedCitation?: string; court?: string; date?: string; summary?: string; sources?: { title: string; url: string }[];
+      };
+      return {
+        status: answer.verified || answer.correctedCitation ? 'found' : 'not_found',
+        correctedCitation: answer.verified ? undefined : answer.correctedCitation || undefined,
+        court: answer.court,
+        date: answer.date,
+        summary: answer.summary,
+        sources: answer.sources,
+      };
+    } catch {
+      return { status: 'error', error: 'Could not parse verification data' };
+    }
+  };
+
+  return {
+    name: 'perplexity',
+    usage: () => ({ ...usage }),
+    async resolve(citations: ParsedCitation[]): Promise<Map<string, CitationResolution>> {
+      const results = new Map<string, CitationResolution>();
+      // A few at a time to stay inside the API's rate limit
+      const verifiable = citations.filter(citation => citation.page !== null);
+      for (let i = 0; i < verifiable.length; i += 3) {
+        const batch = verifiable.slice(i, i + 3);
+        const resolutions = await Promise.all(batch.map(verifyOne));
+        batch.forEach((citation, n) => results.set(citation.key, resolutions[n]));
+      }
+      return results;
+    },
+  };
+}
+
+/**
+ * Resolves from a fixed table keyed by ParsedCitation.key, for tests and local development.
+ * Citations missing from the table are reported as not found.
+ */
+export function createFixtureResolver(fixtures: Record<string, Omit<CitationResolution, 'status'>>): CitationResolver {
+  return {
+    name: 'fixture',
+    resolve: async (citations: ParsedCitation[]) => new Map(citations
+      .filter(citation => citation.page !== null)
+      .map(citation => [
+        citation.key,
+        fixtures[citation.key] ? { status: 'found' as const, ...fixtures[citation.key] } : { status: 'not_found' as const },
+      ])),
+  };
+}
+
+/** Tries each resolver in turn on the citations the previous ones couldn't look up. */
+export function combineResolvers(resolvers: CitationResolver[]): CitationResolver {
+  const metered = resolvers.filter(resolver => resolver.usage);
+  return {
+    name: resolvers.map(resolver => resolver.name).join('+'),
+    usage: metered.length === 0 ? undefined : () => metered
+      .map(resolver => resolver.usage!())
+      .reduce((total, next) => ({
+        model: total.model ?? next.model,
+        requests: total.requests + next.requests,
+        inputTokens: total.inputTokens + next.inputTokens,
+        outputTokens: total.outputTokens + next.outputTokens,
+      })),
+    async resolve(citations: ParsedCitation[]): Promise<Map<string, CitationResolution>> {
+      const results = new Map<string, CitationResolution>();
+      for (const resolver of resolvers) {
+        const remaining = citations.filter(citation => !results.has(citation.key));
+        if (remaining.length === 0) break;
+        (await resolver.resolve(remaining)).forEach((resolution, key) => results.set(key, resolution));
+      }
+      return results;
+    },
+  };
+}
+
+/**
+ * Picks the resolver from CITATION_RESOLVER ('courtlistener' | 'perplexity' | 'auto'). 'auto'
+ * (the default) checks cases against CourtListener when COURTLISTENER_API_TOKEN is set and
+ * everything else through Perplexity when PERPLEXITY_API_TOKEN is set.
+ */
+export function createCitationResolver(configured: string | undefined = Deno.env.get('CITATION_RESOLVER')): CitationResolver {
+  const choice = configured?.toLowerCase() || 'auto';
+  const courtListenerToken = Deno.env.get('COURTLISTENER_API_TOKEN');
+  const perplexityToken = Deno.env.get('PERPLEXITY_API_TOKEN');
+  const courtListenerUrl = Deno.env.get('COURTLISTENER_URL') || COURTLISTENER_URL;
+
+  if (choice === 'courtlistener') {
+    if (!courtListenerToken) throw new Error('Server configuration error: CITATION_RESOLVER is courtlistener but COURTLISTENER_API_TOKEN is missing.');
+    return createCourtListenerResolver(courtListenerToken, courtListenerUrl);
+  }
+  if (choice === 'perplexity') {
+    if (!perplexityToken) throw new Error('Server configuration error: CITATION_RESOLVER is perplexity but PERPLEXITY_API_TOKEN is missing.');
+    return createPerplexityResolver(perplexityToken);
+  }
+  const resolvers: CitationResolver[] = [];
+  if (courtListenerToken) resolvers.push(createCourtListenerResolver(courtListenerToken, courtListenerUrl));
+  if (perplexityToken) resolvers.push(createPerplexityResolver(perplexityToken));
+  if (resolvers.length === 0) throw new Error('Server configuration error: set COURTLISTENER_API_TOKEN or PERPLEXITY_API_TOKEN to verify citations.');
+  return combineResolvers(resolvers);
+}
+
+/**
+ * Checks each citation with the resolver. A found case whose name or year differs from the
+ * citation is reported as a mismatch with the corrected citation.
+ */
+export async function verifyCitations(citations: ParsedCitation[], resolver: CitationResolver): Promise<VerifiedCitation[]> {
+  const resolutions = await resolver.resolve(citations);
+  return citations.map((citation): VerifiedCitation => {
+    const base = { citation: citation.normalized, type: citation.type, occurrences: citation.occurrences };
+    if (citation.page === null) {
+      return { ...base, status: 'unverifiable', verified: false, error: 'Short form citation without a full citation earlier in the text' };
+    }
+    const resolution = resolutions.get(citation.key);
+    if (!resolution) {
+      return { ...base, status: 'unverifiable', verified: false, error: `The ${resolver.name} resolver cannot verify this type of citation` };
+    }
+    const details = { court: resolution.court, date: resolution.date, summary: resolution.summary, sources: resolution.sources };
+    if (resolution.status === 'error') {
+      return { ...base, ...details, status: 'error', verified: false, error: resolution.error };
+    }
+    if (resolution.status === 'not_found') {
+      return { ...base, ...details, status: 'not_found', verified: false, error: resolution.error };
+    }
+
+    const foundYear = resolution.date?.match(/\d{4}/)?.[0];
+    const nameDiffers = !!(citation.caseName && resolution.caseName && !caseNamesMatch(citation.caseName, resolution.caseName));
+    const yearDiffers = !!(citation.year && foundYear && citation.year !== foundYear);
+    if (resolution.correctedCitation) {
+      return { ...base, ...details, status: 'mismatch', verified: false, correctedCitation: resolution.correctedCitation };
+    }
+    if (nameDiffers || yearDiffers) {
+      const name = resolution.caseName || citation.caseName;
+      const year = foundYear || citation.year;
+      const correctedCitation = `${name ? `${name}, ` : ''}${resolution.citation || citation.key}${year ? ` (${citation.court ? `${citation.court} ` : ''}${year})` : ''}`;
+      return { ...base, ...details, status: 'mismatch', verified: false, correctedCitation };
+    }
+    return { ...base, ...details, status: 'verified', verified: true };
+  });
+}
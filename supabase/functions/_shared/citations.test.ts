@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'vitest';
+import { extractCitations } from './citations';
+
+describe('citation extraction', () => {
+  test('parses full case citations with pin cites and court parentheticals', () => {
+    const [roe, ricci] = extractCitations(
+      'See Roe v. Wade, 410 U.S. 113, 153 (1973). The court in Ricci v. DeStefano, 530 F.3d 88 (2d Cir. 2008), disagreed.'
+    );
+    expect(roe).toMatchObject({
+      key: '410 U.S. 113', type: 'case', caseName: 'Roe v. Wade', year: '1973', court: null,
+      normalized: 'Roe v. Wade, 410 U.S. 113 (1973)',
+    });
+    expect(roe.occurrences[0]).toMatchObject({ pinpoint: '153', shortForm: false, text: '410 U.S. 113, 153 (1973)' });
+    expect(ricci).toMatchObject({ key: '530 F.3d 88', caseName: 'Ricci v. DeStefano', court: '2d Cir.', normalized: 'Ricci v. DeStefano, 530 F.3d 88 (2d Cir. 2008)' });
+  });
+
+  test('normalises reporter spacing and company suffixes', () => {
+    const [citation] = extractCitations('Smith v. Acme, Inc., 123 F. 3d 456 (9th Cir. 1999)');
+    expect(citation.key).toBe('123 F.3d 456');
+    expect(citation.caseName).toBe('Smith v. Acme, Inc.');
+  });
+
+  test('shares the case name and date between parallel cites', () => {
+    const citations = extractCitations('Roe v. Wade, 410 U.S. 113, 93 S. Ct. 705 (1973); In re Marriage Cases, 43 Cal. 4th 757 (2008).');
+    expect(citations.map(c => c.normalized)).toEqual([
+      'Roe v. Wade, 410 U.S. 113 (1973)',
+      'Roe v. Wade, 93 S. Ct. 705 (1973)',
+      'In re Marriage Cases, 43 Cal. 4th 757 (2008)',
+    ]);
+  });
+
+  test('attaches short forms and Id. to their full citation', () => {
+    const text = 'Roe v. Wade, 410 U.S. 113 (1973). Id. at 120. Later, Roe, 410 U.S. at 153, held otherwise. 410 U.S. at 160.';
+    const citations = extractCitations(text);
+    expect(citations).toHaveLength(1);
+    expect(citations[0].occurrences.map(o => [o.shortForm, o.pinpoint])).toEqual([
+      [false, null], [true, '120'], [true, '153'], [true, '160'],
+    ]);
+    expect(text.slice(citations[0].occurrences[2].start, citations[0].occurrences[2].end)).toBe('410 U.S. at 153');
+  });
+
+  test('reports a short form without a full citation on its own', () => {
+    const [citation] = extractCitations('As noted in Casey, 505 U.S. at 846, the standard changed.');
+    expect(citation).toMatchObject({ key: '505 U.S. at 846', page: null, caseName: 'Casey' });
+  });
+
+  test('parses statutes, regulations, Federal Register pages and public laws', () => {
+    const citations = extractCitations(
+      'Claims arise under 42 U.S.C. § 1983 and Cal. Civ. Proc. Code § 425.16(b)(1). See 17 C.F.R. § 240.10b-5; ' +
+      '87 Fed. Reg. 12,345 (Mar. 1, 2022); 87 Fed. Reg. at 12,350; Pub. L. No. 116-283, 134 Stat. 3388 (2021).'
+    );
+    expect(citations.map(c => [c.type, c.normalized])).toEqual([
+      ['statute', '42 U.S.C. § 1983'],
+      ['statute', 'Cal. Civ. Proc. Code § 425.16'],
+      ['regulation', '17 C.F.R. § 240.10b-5'],
+      ['federalRegister', '87 Fed. Reg. 12,345 (Mar. 1, 2022)'],
+      ['publicLaw', 'Pub. L. No. 116-283, 134 Stat. 3388 (2021)'],
+    ]);
+    expect(citations[1].occurrences[0].pinpoint).toBe('(b)(1)');
+    expect(citations[3].occurrences).toHaveLength(2);
+  });
+
+  test('deduplicates repeated citations of the same authority', () => {
+    const citations = extractCitations('42 U.S.C. § 1983(a) applies. Under 42 U.S.C. § 1983, plaintiffs may sue.');
+    expect(citations).toHaveLength(1);
+    expect(citations[0].occurrences.map(o => o.pinpoint)).toEqual(['(a)', null]);
+  });
+});
@@ -0,0 +1,279 @@
+// supabase/functions/_shared/citations.ts
+// Finds Bluebook citations in free text: cases, U.S.C. and state code sections, C.F.R.
+// sections, Federal Register pages and public laws. Each authority is reported once, with
+// every place it is cited; short forms ("Roe, 410 U.S. at 113", "Id. at 5") are attached to
+// the full citation they refer back to.
+
+export type CitationType = 'case' | 'statute' | 'regulation' | 'federalRegister' | 'publicLaw';
+
+export interface CitationOccurrence {
+  text: string;
+  start: number;
+  end: number;
+  pinpoint: string | null; // Pin cite page or subsection, e.g. "115" or "(a)(1)"
+  shortForm: boolean;
+}
+
+export interface ParsedCitation {
+  key: string; // Normalised citation without case name, pin cite or date; identifies the authority
+  type: CitationType;
+  normalized: string; // Full citation in normalised form
+  caseName: string | null;
+  year: string | null;
+  court: string | null; // Court from the date parenthetical, e.g. "2d Cir."
+  volume: string | null; // Reporter, title or Fed. Reg. volume
+  reporter: string | null; // Reporter for cases, code for statutes
+  page: string | null; // First page or section; null for a short form without a full citation
+  occurrences: CitationOccurrence[];
+}
+
+// Common federal and regional reporters, in their Bluebook form
+const REPORTERS = [
+  'U.S.', 'S. Ct.', 'L. Ed.', 'L. Ed. 2d', 'F.', 'F.2d', 'F.3d', 'F.4th', 'F. Supp.', 'F. Supp. 2d', 'F. Supp. 3d',
+  "F. App'x", 'B.R.', 'Fed. Cl.', 'T.C.', 'A.', 'A.2d', 'A.3d', 'N.E.', 'N.E.2d', 'N.E.3d', 'N.W.', 'N.W.2d',
+  'P.', 'P.2d', 'P.3d', 'S.E.', 'S.E.2d', 'S.W.', 'S.W.2d', 'S.W.3d', 'So.', 'So. 2d', 'So. 3d',
+  'Cal. Rptr.', 'Cal. Rptr. 2d', 'Cal. Rptr. 3d', 'Cal.', 'Cal. 2d', 'Cal. 3d', 'Cal. 4th', 'Cal. 5th',
+  'Cal. App.', 'Cal. App. 2d', 'Cal. App. 3d', 'Cal. App. 4th', 'Cal. App. 5th', 'N.Y.', 'N.Y.2d', 'N.Y.3d',
+  'N.Y.S.', 'N.Y.S.2d', 'N.Y.S.3d', 'A.D.2d', 'A.D.3d', 'Ill. 2d', 'Ill. Dec.', 'Mass.', 'Wash. 2d', 'Wis. 2d',
+];
+
+const compact = (text: string) => text.replace(/\s+/g, '').replace(/’/g, "'");
+const CANONICAL_REPORTERS = new Map(REPORTERS.map(reporter => [compact(reporter), reporter]));
+
+// Spacing inside reporter abbreviations varies ("F. 3d", "F.3d"), so the pattern allows either
+const reporterPattern = (reporter: string) =>
+  compact(reporter)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/'/g, "['’]")
+    .replace(/\\\./g, '\\.\\s?');
+
+const REPORTER_ALTERNATION = [...REPORTERS]
+  .sort((a, b) => compact(b).length - compact(a).length)
+  .map(reporterPattern)
+  .join('|');
+
+const CASE_PATTERN = new RegExp(
+  `\\b(\\d{1,4})\\s+(${REPORTER_ALTERNATION})\\s*(at\\s+)?(\\d{1,5})(?!\\d)` +
+  `(?:,\\s*(\\d{1,5}(?:[-–]\\d{1,5})?)(?![\\d–-])(?!\\s*[A-Z]))?` + // Pin cite, unless it is the volume of a parallel cite
+  `(?:\\s*\\(([^()]{0,40}?)\\s*(\\d{4})\\))?`,
+  'g'
+);
+const USC_PATTERN = /\b(\d{1,3})\s+U\.\s?S\.\s?C\.(?:\s?A\.)?\s+(§§?)\s*(\d[\w-]*(?:\.\d[\w-]*)*)((?:\(\w{1,4}\))*)/g;
+const STATE_CODE_PATTERN = /\b([A-Z][A-Za-z.]*\.(?:\s+(?:[A-Z][A-Za-z]*\.?|&))*\s+(?:Code|Law)(?:\s+Ann\.)?)\s+(§§?)\s*(\d[\w-]*(?:[.:]\d[\w-]*)*)((?:\(\w{1,4}\))*)/g;
+const CFR_PATTERN = /\b(\d{1,2})\s+C\.\s?F\.\s?R\.\s+(?:(§§?)\s*(\d+(?:\.[\w-]+)?)((?:\(\w{1,4}\))*)|(?:pt\.|part)\s+(\d+))/g;
+const FED_REG_PATTERN = /\b(\d{1,3})\s+Fed\.\s?Reg\.\s+(at\s+)?(\d{1,3}(?:,\d{3})+|\d+)(?:,\s*(\d{1,3}(?:,\d{3})+|\d+)(?![\d,]*\s+Fed))?(?:\s+\(([A-Z][a-z]{2,4}\.?\s+\d{1,2},\s+\d{4})\))?/g;
+const PUBLIC_LAW_PATTERN = /\bPub\.\s?L\.\s+(?:No\.\s+)?(\d{2,3})[-–](\d{1,3})(?:,\s+(\d{1,3})\s+Stat\.\s+(\d[\d,]*))?(?:\s+\((\d{4})\))?/g;
+const ID_PATTERN = /\b[Ii]d\.(?:\s+at\s+(\d[\d,]*(?:[-–]\d+)?))?/g;
+
+// Words that introduce a citation but aren't part of the case name
+const SIGNAL = /^(?:(?:See|see|also|Cf\.|cf\.|But|but|Accord|accord|Compare|compare|Contra|contra|E\.g\.,?|e\.g\.,?|with|In(?!\s+re\b)|in(?!\s+re\b)|of|the|and|for|on|to)\s+)+/;
+const NAME_WORD = String.raw`(?:[A-Z0-9][\w.'’&-]*|&|of|the|and|for|on|to|de|ex|re|parte|rel\.|v\.|et\s+al\.)`;
+// Words are space separated, except for a company suffix: "Smith v. Acme, Inc."
+const NAME_SEPARATOR = String.raw`(?:\s+|,\s+(?=(?:Inc|Co|Corp|Ltd|LLC|L\.L\.C|L\.P|N\.A)\b))`;
+const TRAILING_NAME = new RegExp(`(${NAME_WORD}(?:${NAME_SEPARATOR}${NAME_WORD}){0,14})\\s*,\\s*$`);
+
+// The case name that ends right before a citation: "... Roe v. Wade, " -> "Roe v. Wade"
+function caseNameBefore(text: string, index: number, fullCite: boolean): string | null {
+  const before = text.slice(Math.max(0, index - 160), index);
+  const match = TRAILING_NAME.exec(before);
+  if (!match) return null;
+  let name = match[1].replace(SIGNAL, '').trim();
+  if (fullCite) {
+    const start = name.search(/\b(?:In re|Ex parte)\s/);
+    if (start > 0) name = name.slice(start);
+    else if (start < 0 && !name.includes(' v. ')) return null; // Not a case name, e.g. the first half of a parallel cite
+  } else {
+    name = name.split(/\s+/).slice(-4).join(' ').replace(SIGNAL, '');
+  }
+  return name || null;
+}
+
+// Bluebook puts commas in numbers of five or more digits only: 3388, 12,345
+const withThousands = (digits: string) => digits.length < 5 ? digits : digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+
+interface RawMatch {
+  start: number;
+  end: number;
+  text: string;
+  pinpoint: string | null;
+  shortForm: boolean;
+  id?: boolean; // "Id." refers to the previous citation
+  citation?: Omit<ParsedCitation, 'occurrences'>;
+  // Short forms, matched to an earlier full citation
+  shortCase?: { volume: string; reporter: string; pin: string; name: string | null };
+  shortFedReg?: { volume: string; page: string };
+}
+
+function findCases(text: string, out: RawMatch[]) {
+  let previous: RawMatch | null = null;
+  for (const match of text.matchAll(CASE_PATTERN)) {
+    const [full, volume, rawReporter, at, page, pin, courtText, year] = match;
+    const reporter = CANONICAL_REPORTERS.get(compact(rawReporter)) ?? rawReporter;
+    const start = match.index!;
+    if (at) {
+      out.push({
+        start, end: start + full.length, text: full, pinpoint: page, shortForm: true,
+        shortCase: { volume, reporter, pin: page, name: caseNameBefore(text, start, false) },
+      });
+      continue;
+    }
+    // A parallel cite ("410 U.S. 113, 93 S. Ct. 705 (1973)") shares the case name and date parenthetical
+    const parallelTo = previous?.citation && /^,\s*$/.test(text.slice(previous.end, start)) ? previous.citation : null;
+    const caseName = parallelTo ? parallelTo.caseName : caseNameBefore(text, start, true);
+    // "(S.D.N.Y. Mar. 3, 2020)": keep the court, drop the month and day
+    const court = courtText?.replace(/\s*[A-Z][a-z]{2,4}\.?\s+\d{1,2},?\s*$/, '').trim() || null;
+    const key = `${volume} ${reporter} ${page}`;
+    const citation: RawMatch['citation'] = {
+      key, type: 'case', normalized: '', caseName, year: year ?? null, court, volume, reporter, page,
+    };
+    if (parallelTo && !parallelTo.year) {
+      parallelTo.year = citation.year;
+      parallelTo.court = court;
+    }
+    previous = { start, end: start + full.length, text: full, pinpoint: pin ?? null, shortForm: false, citation };
+    out.push(previous);
+  }
+  for (const match of out) {
+    if (match.citation?.type !== 'case') continue;
+    const { caseName, key, court, year } = match.citation;
+    match.citation.normalized = `${caseName ? `${caseName}, ` : ''}${key}${year ? ` (${court ? `${court} ` : ''}${year})` : ''}`;
+  }
+}
+
+function findStatutes(text: string, out: RawMatch[]) {
+  for (const match of text.matchAll(USC_PATTERN)) {
+    const [full, title, symbol, section, subsections] = match;
+    const key = `${title} U.S.C. ${symbol} ${section}`;
+    out.push({
+      start: match.index!, end: match.index! + full.length, text: full, pinpoint: subsections || null, shortForm: false,
+      citation: { key, type: 'statute', normalized: key, caseName: null, year: null, court: null, volume: title, reporter: 'U.S.C.', page: section },
+    });
+  }
+  for (const match of text.matchAll(STATE_CODE_PATTERN)) {
+    const [full, code, symbol, section, subsections] = match;
+    const normalizedCode = code.replace(/\s+/g, ' ');
+    const key = `${normalizedCode} ${symbol} ${section}`;
+    out.push({
+      start: match.index!, end: match.index! + full.length, text: full, pinpoint: subsections || null, shortForm: false,
+      citation: { key, type: 'statute', normalized: key, caseName: null, year: null, court: null, volume: null, reporter: normalizedCode, page: section },
+    });
+  }
+}
+
+function findRegulations(text: string, out: RawMatch[]) {
+  for (const match of text.matchAll(CFR_PATTERN)) {
+    const [full, title, symbol, section, subsections, part] = match;
+    const key = part ? `${title} C.F.R. pt. ${part}` : `${title} C.F.R. ${symbol} ${section}`;
+    out.push({
+      start: match.index!, end: match.index! + full.length, text: full, pinpoint: subsections || null, shortForm: false,
+      citation: { key, type: 'regulation', normalized: key, caseName: null, year: null, court: null, volume: title, reporter: 'C.F.R.', page: part ?? section },
+    });
+  }
+  for (const match of text.matchAll(FED_REG_PATTERN)) {
+    const [full, volume, at, rawPage, pin, date] = match;
+    const page = rawPage.replace(/,/g, '');
+    const start = match.index!;
+    if (at) {
+      out.push({ start, end: start + full.length, text: full, pinpoint: page, shortForm: true, shortFedReg: { volume, page } });
+      continue;
+    }
+    const key = `${volume} Fed. Reg. ${withThousands(page)}`;
+    out.push({
+      start, end: start + full.length, text: full, pinpoint: pin ? pin.replace(/,/g, '') : null, shortForm: false,
+      citation: {
+        key, type: 'federalRegister', normalized: date ? `${key} (${date})` : key,
+        caseName: null, year: date?.slice(-4) ?? null, court: null, volume, reporter: 'Fed. Reg.', page,
+      },
+    });
+  }
+  for (const match of text.matchAll(PUBLIC_LAW_PATTERN)) {
+    const [full, congress, law, statVolume, statPage, year] = match;
+    const key = `Pub. L. No. ${congress}-${law}`;
+    const stat = statVolume ? `, ${statVolume} Stat. ${withThousands(statPage.replace(/,/g, ''))}` : '';
+    out.push({
+      start: match.index!, end: match.index! + full.length, text: full, pinpoint: null, shortForm: false,
+      citation: {
+        key, type: 'publicLaw', normalized: `${key}${stat}${year ? ` (${year})` : ''}`,
+        caseName: null, year: year ?? null, court: null, volume: congress, reporter: 'Pub. L.', page: law,
+      },
+    });
+  }
+}
+
+// "Roe" or "Roe v. Wade" against the full citation's case name
+function sameCase(shortName: string | null, caseName: string | null): boolean {
+  if (!shortName || !caseName) return true;
+  const words = (name: string) => name.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const full = new Set(words(caseName));
+  return words(shortName).some(word => word !== 'v' && full.has(word));
+}
+
+/**
+ * Extracts the citations in `text`, in order of first appearance. Short forms and "Id." are
+ * merged into the full citation they refer to; a short form whose full citation never appears
+ * is reported on its own with a null `page`.
+ */
+export function extractCitations(text: string): ParsedCitation[] {
+  const raw: RawMatch[] = [];
+  findCases(text, raw);
+  findStatutes(text, raw);
+  findRegulations(text, raw);
+  for (const match of text.matchAll(ID_PATTERN)) {
+    raw.push({ start: match.index!, end: match.index! + match[0].length, text: match[0], pinpoint: match[1] ?? null, shortForm: true, id: true });
+  }
+
+  // Patterns can overlap; keep the earliest, longest match
+  raw.sort((a, b) => a.start - b.start || b.end - a.end);
+  let lastEnd = 0;
+  const matches = raw.filter(match => {
+    if (match.start < lastEnd) return false;
+    lastEnd = match.end;
+    return true;
+  });
+
+  const citations = new Map<string, ParsedCitation>();
+  let previous: ParsedCitation | null = null;
+  for (const match of matches) {
+    const occurrence: CitationOccurrence = { text: match.text, start: match.start, end: match.end, pinpoint: match.pinpoint, shortForm: match.shortForm };
+    let target: ParsedCitation | null = null;
+
+    if (match.citation) {
+      target = citations.get(match.citation.key) ?? null;
+      if (!target) {
+        target = { ...match.citation, occurrences: [] };
+        citations.set(target.key, target);
+      } else if (!target.caseName && match.citation.caseName) {
+        // A later full cite can carry details the first one left out
+        Object.assign(target, { caseName: match.citation.caseName, normalized: match.citation.normalized });
+      }
+    } else if (match.id) {
+      target = previous;
+    } else if (match.shortCase) {
+      const { volume, reporter, pin, name } = match.shortCase;
+      target = [...citations.values()].reverse().find(c =>
+        c.type === 'case' && c.volume === volume && c.reporter === reporter && c.page !== null &&
+        Number(c.page) <= Number(pin) && sameCase(name, c.caseName)
+      ) ?? null;
+      if (!target) {
+        const key = `${volume} ${reporter} at ${pin}`;
+        target = citations.get(key) ?? { key, type: 'case', normalized: `${name ? `${name}, ` : ''}${key}`, caseName: name, year: null, court: null, volume, reporter, page: null, occurrences: [] };
+        citations.set(key, target);
+      }
+    } else if (match.shortFedReg) {
+      const { volume, page } = match.shortFedReg;
+      target = [...citations.values()].reverse().find(c =>
+        c.type === 'federalRegister' && c.volume === volume && Number(c.page) <= Number(page)
+      ) ?? null;
+      if (!target) {
+        const key = `${volume} Fed. Reg. at ${withThousands(page)}`;
+        target = citations.get(key) ?? { key, type: 'federalRegister', normalized: key, caseName: null, year: null, court: null, volume, reporter: 'Fed. Reg.', page: null, occurrences: [] };
+        citations.set(key, target);
+      }
+    }
+
+    if (!target) continue; // "Id." before any citation
+    target.occurrences.push(occurrence);
+    previous = target;
+  }
+  return [...citations.values()];
+}
@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadDocumentsInScope } from './documentChunks';
+
+// Just enough of the query builder for select().in().eq() over in-memory documents
+const fakeClient = (documents: Record<string, unknown>[]) => ({
+  from: () => {
+    const filters: ((row: Record<string, unknown>) => boolean)[] = [];
+    const builder = {
+      select: () => builder,
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      then: (resolve: (result: unknown) => void) => resolve({ data: documents.filter(row => filters.every(filter => filter(row))), error: null }),
+    };
+    return builder;
+  },
+}) as unknown as SupabaseClient;
+
+const client = fakeClient([
+  { id: 'still-here', filename: 'Lease.pdf', case_id: 'case-1', owner_id: 'olivia', is_deleted: false },
+  // Chunks embedded while these were in case-1
+  { id: 'moved-away', filename: 'Other matter.pdf', case_id: 'case-2', owner_id: 'olivia', is_deleted: false },
+  { id: 'taken-out', filename: 'Personal.pdf', case_id: null, owner_id: 'paul', is_deleted: false },
+  { id: 'deleted', filename: 'Draft.pdf', case_id: 'case-1', owner_id: 'olivia', is_deleted: true },
+  { id: 'mine', filename: 'Notes.pdf', case_id: null, owner_id: 'olivia', is_deleted: false },
+]);
+const matched = ['still-here', 'moved-away', 'taken-out', 'deleted', 'mine', 'still-here'];
+
+describe('matched documents in scope', () => {
+  test('keep only documents whose current case is searched', async () => {
+    const documents = await loadDocumentsInScope(client, matched, { caseIds: ['case-1'], ownerId: null });
+    expect([...documents.values()]).toEqual([{ id: 'still-here', filename: 'Lease.pdf', caseId: 'case-1' }]);
+  });
+
+  test('include case-less documents only for their owner', async () => {
+    const documents = await loadDocumentsInScope(client, matched, { caseIds: ['case-1', 'case-2'], ownerId: 'olivia' });
+    expect([...documents.keys()]).toEqual(['still-here', 'moved-away', 'mine']);
+  });
+
+  test('skip the lookup without matches', async () => {
+    expect((await loadDocumentsInScope(client, [], { caseIds: ['case-1'], ownerId: 'olivia' })).size).toBe(0);
+  });
+});
@@ -0,0 +1,39 @@
+// supabase/functions/_shared/documentChunks.ts
+// document_chunks rows copy their document's case_id and owner_id from when it was embedded.
+// Moving or editing a document re-embeds it, but until that lands the copy is stale, so matches
+// are always checked against the documents row before they are returned.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface ChunkScope {
+  caseIds: string[];
+  ownerId: string | null; // Also allows case-less documents this user owns
+}
+
+export interface ScopedDocument {
+  id: string;
+  filename: string;
+  caseId: string | null;
+}
+
+/** The matched documents that still exist and are in scope now, by id. */
+export async function loadDocumentsInScope(
+  supabaseAdmin: SupabaseClient,
+  documentIds: string[],
+  { caseIds, ownerId }: ChunkScope,
+): Promise<Map<string, ScopedDocument>> {
+  const documents = new Map<string, ScopedDocument>();
+  if (documentIds.length === 0) return documents;
+
+  const { data, error } = await supabaseAdmin
+    .from('documents')
+    .select('id, filename, case_id, owner_id')
+    .in('id', [...new Set(documentIds)])
+    .eq('is_deleted', false);
+  if (error) throw new Error(`Failed to load matched documents: ${error.message}`);
+
+  for (const doc of (data || []) as { id: string; filename: string; case_id: string | null; owner_id: string }[]) {
+    const inScope = doc.case_id ? caseIds.includes(doc.case_id) : ownerId !== null && doc.owner_id === ownerId;
+    if (inScope) documents.set(doc.id, { id: doc.id, filename: doc.filename, caseId: doc.case_id });
+  }
+  return documents;
+}
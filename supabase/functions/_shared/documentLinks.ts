@@ -0,0 +1,6 @@
+// supabase/functions/_shared/documentLinks.ts
+// In-app links that edge functions hand back to the client.
+
+// Mirrors documentReviewUrl in src/types/sources.ts; the reviewer is routed under /app
+export const documentReviewUrl = (documentId: string, passage?: { start: number; end: number }): string =>
+  `/app/review/document/${documentId}` + (passage ? `?passageStart=${passage.start}&passageEnd=${passage.end}` : '');
@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'vitest';
+import {
+  cssColorToHex,
+  cssFontSizeToHalfPoints,
+  listNumberingLevels,
+  pageBreakPosition,
+  parseInlineStyle,
+  resolveDocxOptions,
+  PAGE_HEIGHT,
+  PLEADING_LINE_COUNT,
+  PLEADING_LINE_PITCH,
+} from './docxFormatting';
+
+describe('docx formatting', () => {
+  test('converts Tiptap colours and sizes to Word values', () => {
+    const style = parseInlineStyle('background-color: #fef9c3; color: inherit;font-size:14pt');
+    expect(style).toEqual({ 'background-color': '#fef9c3', color: 'inherit', 'font-size': '14pt' });
+    expect(cssColorToHex(style['background-color'])).toBe('FEF9C3');
+    expect(cssColorToHex('#f00')).toBe('FF0000');
+    expect(cssColorToHex('rgb(239, 68, 68)')).toBe('EF4444');
+    expect(cssColorToHex('rgba(0, 0, 0, 0)')).toBeNull();
+    expect(cssColorToHex('var(--foreground)')).toBeNull();
+    expect(cssColorToHex(style.color)).toBeNull();
+    expect(cssFontSizeToHalfPoints(style['font-size'])).toBe(28);
+    expect(cssFontSizeToHalfPoints('16px')).toBe(24);
+    expect(cssFontSizeToHalfPoints('1.2em')).toBeNull();
+  });
+
+  test('recognises page breaks', () => {
+    expect(pageBreakPosition(parseInlineStyle('page-break-after: always'), null)).toBe('after');
+    expect(pageBreakPosition(parseInlineStyle('break-before: page'), null)).toBe('before');
+    expect(pageBreakPosition({}, 'section page-break')).toBe('after');
+    expect(pageBreakPosition(parseInlineStyle('text-align: center'), 'page-breaker')).toBeNull();
+  });
+
+  test('cycles list formats as lists nest', () => {
+    const ordered = listNumberingLevels(true, 4);
+    expect(ordered.slice(0, 4).map(l => [l.format, l.text])).toEqual([
+      ['decimal', '%1.'], ['lowerLetter', '%2.'], ['lowerRoman', '%3.'], ['decimal', '%4.'],
+    ]);
+    expect(ordered.map(l => l.start)).toEqual([4, 1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(listNumberingLevels(false)[1]).toMatchObject({ format: 'bullet', text: '◦', style: { paragraph: { indent: { left: 1440 } } } });
+  });
+
+  test('resolves defaults in Word units', () => {
+    const options = resolveDocxOptions({ fontSize: 11, lineSpacing: 1.5, margins: { left: 1.25 }, header: '  ' });
+    expect(options).toMatchObject({
+      font: 'Times New Roman',
+      fontSize: 22,
+      lineSpacing: { line: 360, rule: 'auto' },
+      margins: { top: 1440, right: 1440, bottom: 1440, left: 1800 },
+      header: null,
+      pleading: false,
+      caption: null,
+    });
+  });
+
+  test('fits exactly 28 double-spaced lines on pleading paper', () => {
+    const options = resolveDocxOptions({ pleadingPaper: true, lineSpacing: 1, caption: { court: 'SUPERIOR COURT', plaintiffs: 'A', defendants: 'B', caseNumber: '1', documentTitle: 'MOTION' } });
+    expect(options.lineSpacing).toEqual({ line: PLEADING_LINE_PITCH, rule: 'exact' });
+    expect(options.margins.left).toBe(2160);
+    expect(PAGE_HEIGHT - options.margins.top - options.margins.bottom).toBe(PLEADING_LINE_COUNT * PLEADING_LINE_PITCH);
+    expect(options.caption?.court).toBe('SUPERIOR COURT');
+  });
+});
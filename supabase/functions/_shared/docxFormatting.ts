@@ -0,0 +1,212 @@
+// supabase/functions/_shared/docxFormatting.ts
+// Word export helpers shared by generate-docx: CSS from the Tiptap HTML converted to Word
+// units, list numbering levels, and the export options (font, spacing, margins, header/footer,
+// pleading paper) resolved to twips. generate-pdf-from-html reads the same CSS with the helpers.
+
+// 1 inch = 1440 twips; Word line spacing is expressed in 240ths of a line
+export const TWIPS_PER_INCH = 1440;
+const SINGLE_LINE = 240;
+
+// US Letter
+export const PAGE_WIDTH = 12240;
+export const PAGE_HEIGHT = 15840;
+
+// Pleading paper: 28 numbered lines per page at exactly 24pt (double spacing for 12pt text)
+export const PLEADING_LINE_COUNT = 28;
+export const PLEADING_LINE_PITCH = 480;
+
+export type DocxAlignment = 'left' | 'center' | 'right' | 'justified';
+
+export interface DocxCaption {
+  attorneyLines?: string[]; // Name, bar number, firm and address, single-spaced from line 1
+  court: string; // One court name line per "\n"
+  plaintiffs: string;
+  defendants: string;
+  caseNumber: string;
+  documentTitle: string; // e.g. "NOTICE OF MOTION AND MOTION TO COMPEL"
+  details?: string[]; // Judge, department, hearing date... under the title
+}
+
+export interface DocxExportOptions {
+  fontFamily?: string;
+  fontSize?: number; // Points
+  lineSpacing?: number; // 1, 1.5, 2...; ignored on pleading paper, which is always double-spaced
+  margins?: { top?: number; right?: number; bottom?: number; left?: number }; // Inches
+  header?: string;
+  footer?: string;
+  pageNumbers?: boolean; // "Page X of Y" in the footer
+  pleadingPaper?: boolean;
+  caption?: DocxCaption;
+}
+
+// A comment thread exported as a Word comment on the text wrapped in <span data-comment-thread="id">;
+// the first entry is the comment and the rest are written under it as replies
+export interface DocxComment {
+  id: string;
+  entries: { author: string; date?: string; text: string }[];
+}
+
+export interface ResolvedDocxOptions {
+  font: string;
+  fontSize: number; // Half-points, as Word stores them
+  lineSpacing: { line: number; rule: 'auto' | 'exact' };
+  paragraphSpacingAfter: number; // Twips
+  margins: { top: number; right: number; bottom: number; left: number }; // Twips
+  header: string | null;
+  footer: string | null;
+  pageNumbers: boolean;
+  pleading: boolean;
+  caption: DocxCaption | null;
+}
+
+const DEFAULT_FONT = 'Times New Roman';
+const DEFAULT_FONT_SIZE = 12;
+const DEFAULT_MARGIN = 1;
+
+// Pleading paper leaves room on the left for the line numbers and rule
+const PLEADING_MARGINS = { top: 1, right: 0.5, left: 1.5 };
+
+const inchesToTwips = (inches: number) => Math.round(inches * TWIPS_PER_INCH);
+
+function positive(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Fills in defaults and converts the request options to Word units. On pleading paper the bottom
+ * margin is derived so that exactly 28 lines fit between the margins and text lines up with the
+ * line numbers.
+ */
+export function resolveDocxOptions(options: DocxExportOptions = {}): ResolvedDocxOptions {
+  const pleading = options.pleadingPaper === true;
+  const defaults = pleading ? { ...PLEADING_MARGINS, bottom: DEFAULT_MARGIN } : { top: DEFAULT_MARGIN, right: DEFAULT_MARGIN, bottom: DEFAULT_MARGIN, left: DEFAULT_MARGIN };
+  const margins = {
+    top: inchesToTwips(positive(options.margins?.top, defaults.top)),
+    right: inchesToTwips(positive(options.margins?.right, defaults.right)),
+    bottom: inchesToTwips(positive(options.margins?.bottom, defaults.bottom)),
+    left: inchesToTwips(positive(options.margins?.left, defaults.left)),
+  };
+  if (pleading) {
+    margins.bottom = Math.max(0, PAGE_HEIGHT - margins.top - PLEADING_LINE_COUNT * PLEADING_LINE_PITCH);
+  }
+
+  const caption = options.caption && options.caption.court?.trim() ? options.caption : null;
+  return {
+    font: options.fontFamily?.trim() || DEFAULT_FONT,
+    fontSize: Math.round(positive(options.fontSize, DEFAULT_FONT_SIZE) * 2),
+    lineSpacing: pleading
+      ? { line: PLEADING_LINE_PITCH, rule: 'exact' }
+      : { line: Math.round(positive(options.lineSpacing, 1) * SINGLE_LINE), rule: 'auto' },
+    paragraphSpacingAfter: pleading ? 0 : 160,
+    margins,
+    header: options.header?.trim() || null,
+    footer: options.footer?.trim() || null,
+    pageNumbers: options.pageNumbers === true,
+    pleading,
+    caption,
+  };
+}
+
+/** Parses an inline style attribute into lower-cased property names and trimmed values. */
+export function parseInlineStyle(style: string | undefined | null): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const declaration of (style || '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon < 0) continue;
+    const name = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (name && value) properties[name] = value;
+  }
+  return properties;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000', white: 'FFFFFF', red: 'FF0000', green: '008000', blue: '0000FF', yellow: 'FFFF00',
+  orange: 'FFA500', purple: '800080', gray: '808080', grey: '808080', pink: 'FFC0CB',
+};
+
+/**
+ * Converts a CSS colour to the RRGGBB hex Word expects. Theme variables, "inherit" and fully
+ * transparent colours have no Word equivalent and return null, leaving the default colour.
+ */
+export function cssColorToHex(value: string | undefined | null): string | null {
+  const color = (value || '').trim().toLowerCase();
+  if (!color) return null;
+  if (NAMED_COLORS[color]) return NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return digits.toUpperCase();
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : parseFloat(rgb[4]) / (rgb[4].endsWith('%') ? 100 : 1);
+    if (alpha === 0) return null;
+    return rgb.slice(1, 4).map(c => Math.min(255, Number(c)).toString(16).padStart(2, '0')).join('').toUpperCase();
+  }
+  return null;
+}
+
+/** CSS font-size in pt or px to Word half-points; relative sizes return null. */
+export function cssFontSizeToHalfPoints(value: string | undefined | null): number | null {
+  const size = (value || '').trim().toLowerCase().match(/^([\d.]+)\s*(pt|px)$/);
+  if (!size) return null;
+  const points = parseFloat(size[1]) * (size[2] === 'px' ? 0.75 : 1);
+  return points > 0 ? Math.round(points * 2) : null;
+}
+
+export function cssTextAlignment(value: string | undefined | null): DocxAlignment | null {
+  switch ((value || '').trim().toLowerCase()) {
+    case 'left':
+    case 'start':
+      return 'left';
+    case 'center':
+      return 'center';
+    case 'right':
+    case 'end':
+      return 'right';
+    case 'justify':
+      return 'justified';
+    default:
+      return null;
+  }
+}
+
+/** Where an element asks for a page break: Tiptap page-break nodes, or CSS page-break/break properties. */
+export function pageBreakPosition(style: Record<string, string>, className: string | undefined | null): 'before' | 'after' | null {
+  const forces = (value: string | undefined) => value === 'always' || value === 'page';
+  if (forces(style['page-break-before']) || forces(style['break-before'])) return 'before';
+  if (forces(style['page-break-after']) || forces(style['break-after'])) return 'after';
+  if ((className || '').split(/\s+/).includes('page-break')) return 'after';
+  return null;
+}
+
+export interface ListLevel {
+  level: number;
+  format: 'decimal' | 'lowerLetter' | 'lowerRoman' | 'bullet';
+  text: string;
+  alignment: 'left';
+  start: number;
+  style: { paragraph: { indent: { left: number; hanging: number } } };
+}
+
+const ORDERED_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'] as const;
+const BULLET_SYMBOLS = ['•', '◦', '▪'];
+export const LIST_LEVELS = 9;
+
+/**
+ * The nine numbering levels of a list definition. Ordered lists cycle 1. / a. / i. and bullets
+ * cycle disc / circle / square as they nest, each level indented half an inch further.
+ */
+export function listNumberingLevels(ordered: boolean, start = 1): ListLevel[] {
+  return Array.from({ length: LIST_LEVELS }, (_, level) => ({
+    level,
+    format: ordered ? ORDERED_FORMATS[level % ORDERED_FORMATS.length] : 'bullet',
+    text: ordered ? `%${level + 1}.` : BULLET_SYMBOLS[level % BULLET_SYMBOLS.length],
+    alignment: 'left',
+    start: level === 0 ? Math.max(1, Math.floor(start)) : 1,
+    style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+  }));
+}
@@ -0,0 +1,29 @@
+import { describe, expect, test } from 'vitest';
+import { createLocalEmbeddingProvider } from './embeddings';
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('local embedding provider', () => {
+  const provider = createLocalEmbeddingProvider(256);
+
+  test('is deterministic', async () => {
+    const [first] = await provider.embed(['The lessee shall pay rent monthly.']);
+    const [second] = await provider.embed(['The lessee shall pay rent monthly.']);
+    expect(first).toEqual(second);
+  });
+
+  test('returns unit vectors of the configured size', async () => {
+    const [vector] = await provider.embed(['Governing law is the State of New York.']);
+    expect(vector).toHaveLength(256);
+    expect(dot(vector, vector)).toBeCloseTo(1, 6);
+  });
+
+  test('scores texts sharing vocabulary above unrelated ones', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'indemnification obligations of the seller',
+      'The Seller shall indemnify the Buyer; these indemnification obligations survive closing.',
+      'Notices must be sent by certified mail to the registered address.',
+    ]);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
@@ -0,0 +1,111 @@
+// supabase/functions/_shared/embeddings.ts
+// Pluggable embedding providers for the semantic search pipeline. Chunks stored by
+// embed-document and queries embedded by semantic-search-documents must use the same
+// provider/model, so both go through createEmbeddingProvider().
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string; // Stored with every chunk so searches only compare like with like
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Matches the vector(1536) column on document_chunks
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const OPENAI_BATCH_SIZE = 96;
+
+/**
+ * OpenAI embeddings (text-embedding-3-small, 1536 dimensions).
+ */
+export function createOpenAIEmbeddingProvider(apiKey: string, model: string = OPENAI_EMBEDDING_MODEL): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    dimensions: EMBEDDING_DIMENSIONS,
+    async embed(texts: string[]): Promise<number[][]> {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+        const batch = texts.slice(i, i + OPENAI_BATCH_SIZE);
+        const response = await fetch('https://api.openai.com/v1/embeddings', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ model, input: batch, dimensions: EMBEDDING_DIMENSIONS }),
+        });
+        if (!response.ok) {
+          const detail = await response.text();
+          throw new Error(`OpenAI embeddings request failed (${response.status}): ${detail.substring(0, 200)}`);
+        }
+        const json = await response.json() as { data: { index: number; embedding: number[] }[] };
+        // The API does not guarantee order, so sort by the index it echoes back
+        json.data.sort((a, b) => a.index - b.index).forEach(item => vectors.push(item.embedding));
+      }
+      return vectors;
+    },
+  };
+}
+
+// 32-bit FNV-1a; stable across runtimes, which is the whole point of the local provider
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Deterministic, offline embeddings using signed feature hashing of words and word
+ * bigrams. Not semantically smart, but texts that share vocabulary score as similar,
+ * which is enough for tests and for local development without an API key.
+ */
+export function createLocalEmbeddingProvider(dimensions: number = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = tokenize(text);
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const sign = (fnv1a(`#${feature}`) & 1) === 0 ? 1 : -1;
+      vector[hash % dimensions] += sign * weight;
+    };
+    tokens.forEach((token, i) => {
+      addFeature(token, 1);
+      if (i > 0) addFeature(`${tokens[i - 1]} ${token}`, 0.5);
+    });
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  };
+
+  return {
+    name: 'local',
+    model: `local-hash-${dimensions}`,
+    dimensions,
+    embed: async (texts: string[]) => texts.map(embedOne),
+  };
+}
+
+/**
+ * Picks the provider from EMBEDDING_PROVIDER ('openai' | 'local'). Defaults to OpenAI when
+ * an API key is configured and to the local provider otherwise.
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const configured = Deno.env.get('EMBEDDING_PROVIDER')?.toLowerCase();
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+
+  if (configured === 'local' || (!configured && !apiKey)) {
+    return createLocalEmbeddingProvider();
+  }
+  if (!apiKey) {
+    throw new Error('Server configuration error: EMBEDDING_PROVIDER is openai but OPENAI_API_KEY is missing.');
+  }
+  return createOpenAIEmbeddingProvider(apiKey);
+}
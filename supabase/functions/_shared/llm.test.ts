@@ -0,0 +1,295 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  configuredModels,
+  createAnthropicProvider,
+  createLlmGateway,
+  createMockLlmProvider,
+  createOpenAICompatibleProvider,
+  LlmError,
+  parseJsonReply,
+  parseModelList,
+  serverSentData,
+  type LlmProvider,
+  type LlmStreamEvent,
+} from './llm';
+
+const messages = [
+  { role: 'system' as const, content: 'You summarize legal documents.' },
+  { role: 'user' as const, content: 'Summarize the lease.' },
+];
+
+const sseBody = (...events: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    // Split mid-event to exercise buffering across reads
+    const raw = events.map(event => `data: ${event}\n\n`).join('');
+    const encoder = new TextEncoder();
+    controller.enqueue(encoder.encode(raw.slice(0, 7)));
+    controller.enqueue(encoder.encode(raw.slice(7)));
+    controller.close();
+  },
+});
+
+const collect = async (events: AsyncIterable<LlmStreamEvent>) => {
+  const collected: LlmStreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+};
+
+// A provider that fails with the given errors before answering; pass a shared `calls` to see the order across providers
+const flakyProvider = (name: LlmProvider['name'], failures: LlmError[], calls: string[] = []): LlmProvider & { calls: string[] } => {
+  const mock = createMockLlmProvider(model => `answer from ${model}`);
+  const attempt = () => {
+    const failure = failures.shift();
+    if (failure) throw failure;
+  };
+  return {
+    name,
+    calls,
+    chat: async (model, request) => { calls.push(model); attempt(); return { ...await mock.chat(model, request), provider: name }; },
+    stream: async (model, request) => { calls.push(model); attempt(); return mock.stream(model, request); },
+  };
+};
+
+const rateLimited = () => new LlmError('429 Rate limit reached', { status: 429 });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createLlmGateway', () => {
+  const sleep = vi.fn(async () => {});
+  const models = () => [{ provider: 'openai' as const, model: 'gpt-4o' }, { provider: 'anthropic' as const, model: 'claude-3-7-sonnet-20250219' }];
+
+  test('retry rate-limited calls with backoff, honouring Retry-After', async () => {
+    sleep.mockClear();
+    const openai = flakyProvider('openai', [rateLimited(), new LlmError('overloaded', { status: 529, retryAfterMs: 3000 })]);
+    const llm = createLlmGateway({ providers: { openai }, models, sleep });
+    const result = await llm.chat('summarize-text', { messages });
+    expect(result).toMatchObject({ provider: 'openai', text: 'answer from gpt-4o', usage: { model: 'gpt-4o' } });
+    expect(openai.calls).toEqual(['gpt-4o', 'gpt-4o', 'gpt-4o']);
+    expect(sleep.mock.calls).toEqual([[500], [3000]]);
+  });
+
+  test('fall back to the next provider once retries run out or on other errors', async () => {
+    const openai = flakyProvider('openai', [rateLimited(), rateLimited(), rateLimited()]);
+    const anthropic = flakyProvider('anthropic', []);
+    const llm = createLlmGateway({ providers: { openai, anthropic }, models, sleep });
+    expect((await llm.chat('summarize-text', { messages })).usage.model).toBe('claude-3-7-sonnet-20250219');
+    expect(openai.calls).toHaveLength(3);
+
+    const unauthorized = flakyProvider('openai', [new LlmError('401 Incorrect API key', { status: 401 })]);
+    const fallback = createLlmGateway({ providers: { openai: unauthorized, anthropic }, models, sleep });
+    expect((await fallback.stream('summarize-text', { messages })).model).toBe('claude-3-7-sonnet-20250219');
+    expect(unauthorized.calls).toHaveLength(1);
+  });
+
+  test('walk the feature\'s models in order until one answers', async () => {
+    const calls: string[] = [];
+    const openai = flakyProvider('openai', [new LlmError('401 Incorrect API key', { status: 401 })], calls);
+    const anthropic = flakyProvider('anthropic', [new LlmError('400 prompt is too long', { status: 400 })], calls);
+    const llm = createLlmGateway({
+      providers: { openai, anthropic },
+      models: () => [...models(), { provider: 'openai', model: 'gpt-4o-mini' }],
+      sleep,
+    });
+    expect((await llm.chat('summarize-text', { messages })).usage.model).toBe('gpt-4o-mini');
+    expect(calls).toEqual(['gpt-4o', 'claude-3-7-sonnet-20250219', 'gpt-4o-mini']);
+  });
+
+  test('retry network failures and server errors but not requests the provider rejected', async () => {
+    sleep.mockClear();
+    const rejected = flakyProvider('openai', [new LlmError('400 bad request', { status: 400 })]);
+    const anthropic = flakyProvider('anthropic', []);
+    await createLlmGateway({ providers: { openai: rejected, anthropic }, models, sleep }).chat('summarize-text', { messages });
+    expect(rejected.calls).toHaveLength(1);
+    expect(sleep).not.toHaveBeenCalled();
+
+    const unreachable = flakyProvider('openai', [new LlmError('fetch failed', { retryable: true }), new LlmError('502 bad gateway', { status: 502 })]);
+    const result = await createLlmGateway({ providers: { openai: unreachable, anthropic }, models, sleep }).chat('summarize-text', { messages });
+    expect(result.usage.model).toBe('gpt-4o');
+    expect(unreachable.calls).toHaveLength(3);
+    expect(sleep.mock.calls).toEqual([[500], [1000]]);
+  });
+
+  test('skip unconfigured providers and throw the last error when every model fails', async () => {
+    const llm = createLlmGateway({ providers: { anthropic: flakyProvider('anthropic', [new LlmError('400 bad request', { status: 400, model: 'claude-3-7-sonnet-20250219' })]) }, models, sleep });
+    const error = await llm.chat('summarize-text', { messages }).catch(e => e);
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error.usage).toEqual({ model: 'claude-3-7-sonnet-20250219' });
+
+    const unconfigured = createLlmGateway({ providers: {}, models, sleep });
+    expect(unconfigured.isAvailable('summarize-text')).toBe(false);
+    await expect(unconfigured.chat('summarize-text', { messages }))
+      .rejects.toThrow('No LLM provider is configured for feature "summarize-text"');
+  });
+
+  test('try the caller\'s preferred model before the feature\'s, except offline', async () => {
+    const anthropic = flakyProvider('anthropic', [new LlmError('404 model not found', { status: 404 })]);
+    const openai = flakyProvider('openai', []);
+    const llm = createLlmGateway({ providers: { anthropic, openai }, models, sleep });
+    const preferredModel = { provider: 'anthropic' as const, model: 'claude-3-opus-20240229' };
+    expect((await llm.chat('generic-chat-agent', { messages }, { preferredModel })).usage.model).toBe('gpt-4o');
+    expect(anthropic.calls).toEqual(['claude-3-opus-20240229']);
+
+    const mock = flakyProvider('mock', []);
+    const offline = createLlmGateway({ providers: { anthropic, mock }, models: () => [{ provider: 'mock', model: 'mock' }], sleep });
+    await offline.chat('generic-chat-agent', { messages }, { preferredModel });
+    expect(anthropic.calls).toHaveLength(1);
+    expect(mock.calls).toEqual(['mock']);
+  });
+
+  test('parse JSON replies and fall back when a model returns invalid JSON', async () => {
+    const openai = createMockLlmProvider(() => 'Sure! Here you go: not json');
+    const anthropic = createMockLlmProvider(() => '```json\n{"queryType": "simple"}\n```');
+    const llm = createLlmGateway({ providers: { openai, anthropic }, models, sleep });
+    const result = await llm.json<{ queryType: string }>('claude-router:classify', { messages });
+    expect(result.data).toEqual({ queryType: 'simple' });
+  });
+});
+
+describe('gateway configuration', () => {
+  const stubEnv = (env: Record<string, string>) => vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } });
+  const sleep = async () => {};
+
+  test('route a feature to the models in its LLM_MODELS_<FEATURE> override', async () => {
+    stubEnv({ LLM_MODELS_SUMMARIZE_TEXT: 'anthropic:claude-3-5-haiku-20241022,openai:gpt-4o-mini' });
+    const openai = flakyProvider('openai', []);
+    const anthropic = flakyProvider('anthropic', [new LlmError('529 overloaded', { status: 529, retryable: false })]);
+    const result = await createLlmGateway({ providers: { openai, anthropic }, sleep }).chat('summarize-text', { messages });
+    expect(anthropic.calls).toEqual(['claude-3-5-haiku-20241022']);
+    expect(openai.calls).toEqual(['gpt-4o-mini']);
+    expect(result.text).toBe('answer from gpt-4o-mini');
+  });
+
+  test('answer every feature from the mock provider under LLM_PROVIDER=mock, without API keys', async () => {
+    stubEnv({ LLM_PROVIDER: 'mock' });
+    const llm = createLlmGateway({ sleep });
+    expect(llm.isAvailable('case-research-rag')).toBe(true);
+    expect(await llm.chat('case-research-rag', { messages })).toMatchObject({ provider: 'mock', text: 'Mock reply to: Summarize the lease.', usage: { model: 'mock' } });
+    expect((await llm.json('claude-router:classify', { messages })).data).toEqual({});
+  });
+});
+
+describe('mock provider', () => {
+  test('echo the last user message, stream it word by word and report usage', async () => {
+    const mock = createMockLlmProvider();
+    expect((await mock.chat('mock', { messages })).text).toBe('Mock reply to: Summarize the lease.');
+    expect((await mock.chat('mock', { messages, json: true })).text).toBe('{}');
+
+    const events = await collect(await mock.stream('mock', { messages }));
+    expect(events.filter(event => event.type === 'text').map(event => event.type === 'text' && event.text).join('')).toBe('Mock reply to: Summarize the lease.');
+    expect(events.at(-1)).toEqual({ type: 'done', finishReason: 'stop', usage: { model: 'mock', inputTokens: 13, outputTokens: 9 } });
+  });
+});
+
+describe('providers', () => {
+  test('send OpenAI requests with JSON mode and read the completion', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      choices: [{ message: { content: '{"ok":true}' } }],
+      usage: { prompt_tokens: 20, completion_tokens: 4 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+    const result = await createOpenAICompatibleProvider('openai', 'sk-test').chat('gpt-4o', { messages, json: true, maxTokens: 100 });
+    expect(result).toEqual({ provider: 'openai', text: '{"ok":true}', thinking: '', citations: [], usage: { model: 'gpt-4o', inputTokens: 20, outputTokens: 4 } });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'gpt-4o', messages, max_tokens: 100, response_format: { type: 'json_object' } });
+  });
+
+  test('stream Perplexity text, citations and usage', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(sseBody(
+      JSON.stringify({ citations: ['https://law.cornell.edu/ucc'], choices: [{ delta: { content: 'Under the ' } }] }),
+      JSON.stringify({ citations: ['https://law.cornell.edu/ucc'], choices: [{ delta: { content: 'UCC...' }, finish_reason: 'stop' }], usage: { prompt_tokens: 9, completion_tokens: 3 } }),
+      '[DONE]',
+    ))));
+    const events = await collect(await createOpenAICompatibleProvider('perplexity', 'pplx-test').stream('sonar', { messages }));
+    expect(events).toEqual([
+      { type: 'citations', citations: ['https://law.cornell.edu/ucc'] },
+      { type: 'text', text: 'Under the ' },
+      { type: 'text', text: 'UCC...' },
+      { type: 'done', finishReason: 'stop', usage: { model: 'sonar', inputTokens: 9, outputTokens: 3 } },
+    ]);
+  });
+
+  test('send the system prompt and thinking to Anthropic and stream thoughts apart from text', async () => {
+    const fetchMock = vi.fn(async () => new Response(sseBody(
+      JSON.stringify({ type: 'message_start', message: { usage: { input_tokens: 30 } } }),
+      JSON.stringify({ type: 'content_block_delta', delta: { type: 'thinking_delta', thinking: 'The lease is short.' } }),
+      JSON.stringify({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'A one-year lease.' } }),
+      JSON.stringify({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 12 } }),
+      JSON.stringify({ type: 'message_stop' }),
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+    const events = await collect(await createAnthropicProvider('sk-ant-test').stream('claude-3-7-sonnet-20250219', {
+      messages, temperature: 0.3, thinking: { budgetTokens: 1500 }, maxTokens: 4000,
+    }));
+    expect(events).toEqual([
+      { type: 'thinking', text: 'The lease is short.' },
+      { type: 'text', text: 'A one-year lease.' },
+      { type: 'done', finishReason: 'end_turn', usage: { model: 'claude-3-7-sonnet-20250219', inputTokens: 30, outputTokens: 12 } },
+    ]);
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'claude-3-7-sonnet-20250219',
+      system: 'You summarize legal documents.',
+      messages: [messages[1]],
+      max_tokens: 4000,
+      thinking: { type: 'enabled', budget_tokens: 1500 },
+      temperature: 1,
+      stream: true,
+    });
+  });
+
+  test('turn HTTP and network failures into LlmErrors that say whether to retry', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"rate_limit_error"}', { status: 429, headers: { 'retry-after': '2' } })));
+    const rateLimit = await createAnthropicProvider('sk-ant-test').chat('claude-3-5-haiku-20241022', { messages }).catch(e => e);
+    expect(rateLimit).toMatchObject({ status: 429, retryable: true, retryAfterMs: 2000, model: 'claude-3-5-haiku-20241022' });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('bad request', { status: 400 })));
+    expect(await createOpenAICompatibleProvider('openai', 'sk-test').chat('gpt-4o', { messages }).catch(e => e)).toMatchObject({ status: 400, retryable: false });
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    expect(await createOpenAICompatibleProvider('openai', 'sk-test').chat('gpt-4o', { messages }).catch(e => e)).toMatchObject({ status: null, retryable: true });
+  });
+});
+
+describe('configuration', () => {
+  const stubEnv = (env: Record<string, string>) => vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } });
+
+  test('read per-feature overrides and the mock switch from the environment', () => {
+    stubEnv({ LLM_MODELS_CLAUDE_ROUTER_CLASSIFY: 'openai:gpt-4o-mini, anthropic:claude-3-5-haiku-20241022' });
+    expect(configuredModels('claude-router:classify')).toEqual([
+      { provider: 'openai', model: 'gpt-4o-mini' },
+      { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' },
+    ]);
+    expect(configuredModels('summarize-text')[0]).toEqual({ provider: 'openai', model: 'gpt-4o' });
+    expect(() => configuredModels('unknown-feature')).toThrow('No LLM models are configured');
+
+    stubEnv({ LLM_PROVIDER: 'mock' });
+    expect(configuredModels('summarize-text')).toEqual([{ provider: 'mock', model: 'mock' }]);
+  });
+
+  test('reject model lists with unknown providers', () => {
+    expect(() => parseModelList('gpt-4o')).toThrow('Invalid LLM model "gpt-4o"');
+    expect(() => parseModelList('google:gemini')).toThrow('Invalid LLM model');
+  });
+});
+
+test('parseJsonReply reads fenced and wrapped JSON', () => {
+  expect(parseJsonReply('{"a":1}')).toEqual({ a: 1 });
+  expect(parseJsonReply('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  expect(parseJsonReply('Here it is: {"a":{"b":2}} Hope this helps.')).toEqual({ a: { b: 2 } });
+  expect(() => parseJsonReply('no json here')).toThrow();
+});
+
+test('serverSentData joins multi-line data and skips other fields', async () => {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('event: ping\r\n\r\nevent: delta\r\ndata: {"a":\r\ndata: 1}\r\n\r\ndata: [DONE]'));
+      controller.close();
+    },
+  });
+  const payloads: string[] = [];
+  for await (const data of serverSentData(body)) payloads.push(data);
+  expect(payloads).toEqual(['{"a":\n1}', '[DONE]']);
+});
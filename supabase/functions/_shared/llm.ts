@@ -0,0 +1,504 @@
+// supabase/functions/_shared/llm.ts
+// Provider-agnostic LLM gateway shared by the edge functions. Functions ask for a feature
+// ('summarize-text', 'claude-router:simple', ...) rather than a model: FEATURE_MODELS maps each
+// feature to provider models in fallback order. A model that keeps failing with a transient
+// error (rate limit, overload, network) is retried with backoff before the gateway falls back to
+// the next one; other errors fall back straight away. LLM_PROVIDER=mock answers every call from
+// the offline mock provider, for tests and local development without API keys.
+import type { AiCallUsage } from './usage.ts';
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'perplexity' | 'mock';
+
+export interface LlmModel {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[]; // System messages become Anthropic's system prompt
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // JSON mode: the reply is a single JSON object
+  thinking?: { budgetTokens: number }; // Extended thinking, where the provider supports it
+  providerOptions?: Partial<Record<LlmProviderName, Record<string, unknown>>>; // Extra request fields, e.g. Perplexity's search_domain_filter
+}
+
+export interface LlmResult {
+  provider: LlmProviderName;
+  text: string;
+  thinking: string;
+  citations: string[]; // Source URLs, from providers that search the web
+  usage: AiCallUsage & { model: string }; // Ready for the call's meter
+}
+
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'citations'; citations: string[] }
+  | { type: 'done'; usage: AiCallUsage & { model: string }; finishReason: string | null };
+
+export interface LlmStream {
+  provider: LlmProviderName;
+  model: string;
+  events: AsyncIterable<LlmStreamEvent>; // Ends with a done event; errors after the first event aren't retried
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  chat(model: string, request: LlmRequest): Promise<LlmResult>;
+  stream(model: string, request: LlmRequest): Promise<AsyncIterable<LlmStreamEvent>>; // Resolves once the provider accepted the request
+}
+
+// Rate limits, timeouts, overload and server errors are worth retrying on the same model
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+export class LlmError extends Error {
+  readonly provider: LlmProviderName | null;
+  readonly model: string | null;
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    { provider = null, model = null, status = null, retryable, retryAfterMs = null }: {
+      provider?: LlmProviderName | null;
+      model?: string | null;
+      status?: number | null;
+      retryable?: boolean;
+      retryAfterMs?: number | null;
+    } = {},
+  ) {
+    super(message);
+    this.name = 'LlmError';
+    this.provider = provider;
+    this.model = model;
+    this.status = status;
+    this.retryable = retryable ?? (status !== null && RETRYABLE_STATUSES.has(status));
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /** The failed call's usage for its meter: the model the gateway tried last. */
+  get usage(): Partial<AiCallUsage> {
+    return { model: this.model };
+  }
+}
+
+// --- Per-feature models ---
+
+const openai = (model: string): LlmModel => ({ provider: 'openai', model });
+const anthropic = (model: string): LlmModel => ({ provider: 'anthropic', model });
+const perplexity = (model: string): LlmModel => ({ provider: 'perplexity', model });
+
+const CLAUDE_SONNET = anthropic('claude-3-7-sonnet-20250219');
+const CLAUDE_HAIKU = anthropic('claude-3-5-haiku-20241022');
+const GPT_4O = openai('gpt-4o');
+const GPT_4O_MINI = openai('gpt-4o-mini');
+
+/**
+ * Models per feature in fallback order. Override one with LLM_MODELS_<FEATURE> (upper-cased,
+ * other characters as _), a comma-separated list of provider:model, e.g.
+ * LLM_MODELS_SUMMARIZE_TEXT=anthropic:claude-3-5-haiku-20241022,openai:gpt-4o-mini
+ */
+export const FEATURE_MODELS: Record<string, LlmModel[]> = {
+  'agent-draft': [openai('gpt-4'), GPT_4O, CLAUDE_SONNET],
+  'analyze-document': [GPT_4O, CLAUDE_SONNET],
+  'case-research-rag': [GPT_4O, CLAUDE_SONNET],
+  'claude-router:classify': [CLAUDE_HAIKU, GPT_4O_MINI],
+  'claude-router:simple': [CLAUDE_HAIKU, GPT_4O_MINI],
+  'claude-router:reasoning': [CLAUDE_SONNET, GPT_4O], // Complex and research answers, and simple ones with thoughts
+  'claude-router:web-search': [perplexity('sonar')],
+  'compare-documents-ai': [GPT_4O, CLAUDE_SONNET],
+  'create-template-from-ai': [GPT_4O_MINI, CLAUDE_HAIKU],
+  'deep-research-agent': [perplexity('sonar-reasoning-pro'), perplexity('sonar-pro')],
+  'find-similar-clause': [GPT_4O, CLAUDE_SONNET],
+  'generate-field-suggestion': [anthropic('claude-3-haiku-20240307'), GPT_4O_MINI],
+  'generate-inline-text': [GPT_4O, CLAUDE_SONNET],
+  'generic-chat-agent': [GPT_4O, CLAUDE_SONNET],
+  'intelligent-drafting': [GPT_4O, CLAUDE_SONNET],
+  'intelligent-translation': [openai('gpt-3.5-turbo'), GPT_4O_MINI, CLAUDE_HAIKU],
+  'interpret-search-intent': [GPT_4O_MINI, CLAUDE_HAIKU],
+  'rewrite-text': [GPT_4O, CLAUDE_SONNET],
+  'summarize-text': [GPT_4O, CLAUDE_SONNET],
+};
+
+/** Chat models the user can pick. Mirrors availableModels in src/components/chat/ChatInput.tsx. */
+export const CHAT_MODELS: Record<string, LlmModel> = {
+  'openai-gpt-4o': GPT_4O,
+  'perplexity-online': perplexity('sonar'),
+  'claude-3-opus': anthropic('claude-3-opus-20240229'),
+  'claude-3-sonnet': anthropic('claude-3-5-sonnet-20241022'),
+};
+
+const MOCK_MODEL: LlmModel = { provider: 'mock', model: 'mock' };
+
+const PROVIDER_NAMES: LlmProviderName[] = ['openai', 'anthropic', 'perplexity', 'mock'];
+
+/** Parses 'provider:model' lists as used by the LLM_MODELS_<FEATURE> overrides. */
+export function parseModelList(value: string): LlmModel[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    const provider = entry.slice(0, separator) as LlmProviderName;
+    if (separator < 1 || !PROVIDER_NAMES.includes(provider)) {
+      throw new Error(`Invalid LLM model "${entry}", expected provider:model with provider one of ${PROVIDER_NAMES.join(', ')}`);
+    }
+    return { provider, model: entry.slice(separator + 1) };
+  });
+}
+
+/** The feature's models, from its LLM_MODELS_<FEATURE> override or FEATURE_MODELS, or the mock under LLM_PROVIDER=mock. */
+export function configuredModels(feature: string): LlmModel[] {
+  if (Deno.env.get('LLM_PROVIDER')?.toLowerCase() === 'mock') return [MOCK_MODEL];
+  const override = Deno.env.get(`LLM_MODELS_${feature.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`);
+  if (override) return parseModelList(override);
+  const models = FEATURE_MODELS[feature];
+  if (!models) throw new Error(`No LLM models are configured for feature "${feature}"`);
+  return models;
+}
+
+// --- Providers ---
+
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else.';
+
+// Providers without a native JSON mode get the instruction as an extra system message
+const withJsonInstruction = (messages: LlmMessage[]): LlmMessage[] => [...messages, { role: 'system', content: JSON_INSTRUCTION }];
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+async function requestFailure(response: Response, provider: LlmProviderName, model: string): Promise<LlmError> {
+  const detail = await response.text().catch(() => '');
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return new LlmError(`${provider} ${model} request failed (${response.status}): ${detail.substring(0, 200)}`, {
+    provider,
+    model,
+    status: response.status,
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null,
+  });
+}
+
+async function post(url: string, headers: Record<string, string>, body: unknown, provider: LlmProviderName, model: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+  } catch (networkError) {
+    const message = networkError instanceof Error ? networkError.message : String(networkError);
+    throw new LlmError(`${provider} ${model} request failed: ${message}`, { provider, model, retryable: true });
+  }
+  if (!response.ok) throw await requestFailure(response, provider, model);
+  return response;
+}
+
+/** The data payloads of a server-sent events body, one per event. */
+export async function* serverSentData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const dataOf = (event: string) => event
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''))
+    .join('\n');
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, '\n');
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const data = dataOf(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (data) yield data;
+      }
+    }
+    const data = dataOf(buffer + decoder.decode());
+    if (data) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * OpenAI chat completions, and the OpenAI-compatible Perplexity API (which has no JSON mode and
+ * returns the URLs it searched as citations).
+ */
+export function createOpenAICompatibleProvider(name: 'openai' | 'perplexity', apiKey: string): LlmProvider {
+  const url = name === 'openai' ? 'https://api.openai.com/v1/chat/completions' : 'https://api.perplexity.ai/chat/completions';
+  const nativeJson = name === 'openai';
+
+  const body = (model: string, request: LlmRequest) => ({
+    model,
+    messages: request.json && !nativeJson ? withJsonInstruction(request.messages) : request.messages,
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+    ...(request.json && nativeJson && { response_format: { type: 'json_object' } }),
+    ...request.providerOptions?.[name],
+  });
+  const usageOf = (model: string, usage: OpenAIUsage | undefined) => ({
+    model,
+    inputTokens: usage?.prompt_tokens ?? null,
+    outputTokens: usage?.completion_tokens ?? null,
+  });
+  const headers = { Authorization: `Bearer ${apiKey}` };
+
+  return {
+    name,
+    async chat(model, request) {
+      const response = await post(url, headers, body(model, request), name, model);
+      const json = await response.json() as { choices?: { message?: { content?: string | null } }[]; usage?: OpenAIUsage; citations?: string[] };
+      return {
+        provider: name,
+        text: json.choices?.[0]?.message?.content ?? '',
+        thinking: '',
+        citations: json.citations ?? [],
+        usage: usageOf(model, json.usage),
+      };
+    },
+    async stream(model, request) {
+      const response = await post(url, headers, {
+        ...body(model, request),
+        stream: true,
+        ...(name === 'openai' && { stream_options: { include_usage: true } }),
+      }, name, model);
+      return (async function* () {
+        let usage: OpenAIUsage | undefined;
+        let finishReason: string | null = null;
+        let citationsSent = false;
+        for await (const data of serverSentData(response.body!)) {
+          if (data === '[DONE]') break;
+          const chunk = JSON.parse(data) as {
+            choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+            usage?: OpenAIUsage;
+            citations?: string[];
+          };
+          if (chunk.usage) usage = chunk.usage;
+          if (chunk.citations?.length && !citationsSent) {
+            citationsSent = true;
+            yield { type: 'citations', citations: chunk.citations };
+          }
+          const choice = chunk.choices?.[0];
+          if (choice?.delta?.content) yield { type: 'text', text: choice.delta.content };
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+        }
+        yield { type: 'done', usage: usageOf(model, usage), finishReason };
+      })();
+    },
+  };
+}
+
+/** Anthropic messages, with extended thinking when requested (which requires temperature 1). */
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  const url = 'https://api.anthropic.com/v1/messages';
+  const headers = { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+
+  const body = (model: string, request: LlmRequest) => {
+    const messages = request.json ? withJsonInstruction(request.messages) : request.messages;
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    return {
+      model,
+      ...(system && { system }),
+      messages: messages.filter(message => message.role !== 'system'),
+      max_tokens: request.maxTokens ?? 4096,
+      ...(request.thinking
+        ? { thinking: { type: 'enabled', budget_tokens: request.thinking.budgetTokens }, temperature: 1 }
+        : request.temperature !== undefined && { temperature: request.temperature }),
+      ...request.providerOptions?.anthropic,
+    };
+  };
+
+  return {
+    name: 'anthropic',
+    async chat(model, request) {
+      const response = await post(url, headers, body(model, request), 'anthropic', model);
+      const json = await response.json() as {
+        content?: { type: string; text?: string; thinking?: string }[];
+        usage?: { input_tokens?: number; output_tokens?: number };
+      };
+      const blocks = json.content ?? [];
+      return {
+        provider: 'anthropic',
+        text: blocks.filter(block => block.type === 'text').map(block => block.text ?? '').join(''),
+        thinking: blocks.filter(block => block.type === 'thinking').map(block => block.thinking ?? '').join(''),
+        citations: [],
+        usage: { model, inputTokens: json.usage?.input_tokens ?? null, outputTokens: json.usage?.output_tokens ?? null },
+      };
+    },
+    async stream(model, request) {
+      const response = await post(url, headers, { ...body(model, request), stream: true }, 'anthropic', model);
+      return (async function* () {
+        let inputTokens: number | null = null;
+        let outputTokens: number | null = null;
+        let finishReason: string | null = null;
+        for await (const data of serverSentData(response.body!)) {
+          const event = JSON.parse(data);
+          if (event.type === 'message_start') {
+            inputTokens = event.message?.usage?.input_tokens ?? null;
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'thinking_delta' && event.delta.thinking) {
+            yield { type: 'thinking', text: event.delta.thinking };
+          } else if (event.type === 'message_delta') {
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            finishReason = event.delta?.stop_reason ?? finishReason;
+          } else if (event.type === 'error') {
+            throw new LlmError(`anthropic ${model} stream failed: ${event.error?.message ?? 'unknown error'}`, {
+              provider: 'anthropic', model, status: event.error?.type === 'overloaded_error' ? 529 : null,
+            });
+          }
+        }
+        yield { type: 'done', usage: { model, inputTokens, outputTokens }, finishReason };
+      })();
+    },
+  };
+}
+
+/**
+ * Offline provider with deterministic replies: the given reply function's text, or by default an
+ * echo of the last user message ('{}' in JSON mode). Streams the reply word by word.
+ */
+export function createMockLlmProvider(
+  reply: (model: string, request: LlmRequest) => string = (_model, request) => {
+    if (request.json) return '{}';
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+    return `Mock reply to: ${(lastUser?.content ?? '').substring(0, 200)}`;
+  },
+): LlmProvider {
+  const respond = (model: string, request: LlmRequest) => {
+    const text = reply(model, request);
+    const usage = {
+      model,
+      inputTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+      outputTokens: estimateTokens(text),
+    };
+    return { text, usage };
+  };
+  return {
+    name: 'mock',
+    chat: async (model, request) => ({ provider: 'mock', ...respond(model, request), thinking: '', citations: [] }),
+    stream: async (model, request) => {
+      const { text, usage } = respond(model, request);
+      return (async function* () {
+        for (const word of text.match(/\S+\s*/g) ?? []) yield { type: 'text', text: word } as LlmStreamEvent;
+        yield { type: 'done', usage, finishReason: 'stop' } as LlmStreamEvent;
+      })();
+    },
+  };
+}
+
+/** Providers whose API key is set (OPENAI_API_KEY, ANTHROPIC_API_KEY, PERPLEXITY_API_TOKEN), plus the mock. */
+export function createConfiguredProviders(): Partial<Record<LlmProviderName, LlmProvider>> {
+  const providers: Partial<Record<LlmProviderName, LlmProvider>> = { mock: createMockLlmProvider() };
+  const openaiKey = Deno.env.get('OPENAI_API_KEY');
+  const anthropicKey = Deno.env.get('ANTHROPIC_API_KEY');
+  const perplexityKey = Deno.env.get('PERPLEXITY_API_TOKEN');
+  if (openaiKey) providers.openai = createOpenAICompatibleProvider('openai', openaiKey);
+  if (anthropicKey) providers.anthropic = createAnthropicProvider(anthropicKey);
+  if (perplexityKey) providers.perplexity = createOpenAICompatibleProvider('perplexity', perplexityKey);
+  return providers;
+}
+
+// --- Gateway ---
+
+/** Reads a JSON object from a reply, tolerating Markdown code fences and text around it. */
+export function parseJsonReply<T = unknown>(text: string): T {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced) as T;
+  } catch (error) {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(unfenced.slice(start, end + 1)) as T;
+  }
+}
+
+interface LlmCallOptions {
+  preferredModel?: LlmModel; // Tried before the feature's models, e.g. the chat model the user picked; not under LLM_PROVIDER=mock
+}
+
+export interface LlmGateway {
+  chat(feature: string, request: LlmRequest, options?: LlmCallOptions): Promise<LlmResult>;
+  json<T = unknown>(feature: string, request: Omit<LlmRequest, 'json'>, options?: LlmCallOptions): Promise<LlmResult & { data: T }>;
+  stream(feature: string, request: LlmRequest, options?: LlmCallOptions): Promise<LlmStream>;
+  isAvailable(feature: string): boolean; // Whether any of the feature's models has a configured provider
+}
+
+interface LlmGatewayOptions {
+  providers?: Partial<Record<LlmProviderName, LlmProvider>>;
+  models?: (feature: string) => LlmModel[];
+  maxRetries?: number; // Per model, on retryable errors
+  baseDelayMs?: number; // Doubles on every retry, unless the provider sent Retry-After
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * The gateway over the configured providers and FEATURE_MODELS; tests pass their own. Models
+ * whose provider isn't configured are skipped.
+ *
+ *   const llm = createLlmGateway();
+ *   const result = await llm.chat('summarize-text', { messages, maxTokens: 500 });
+ *   await meter.succeed(result.usage);
+ */
+export function createLlmGateway({
+  providers = createConfiguredProviders(),
+  models = configuredModels,
+  maxRetries = 2,
+  baseDelayMs = 500,
+  maxDelayMs = 8000,
+  sleep = ms => new Promise(resolve => setTimeout(resolve, ms)),
+}: LlmGatewayOptions = {}): LlmGateway {
+  const withFallback = async <T>(feature: string, options: LlmCallOptions | undefined, call: (provider: LlmProvider, model: string) => Promise<T>): Promise<T> => {
+    let lastError: LlmError | null = null;
+    const featureModels = models(feature);
+    const offline = featureModels.some(candidate => candidate.provider === 'mock');
+    const candidates = options?.preferredModel && !offline ? [options.preferredModel, ...featureModels] : featureModels;
+    for (const { provider: name, model } of candidates) {
+      const provider = providers[name];
+      if (!provider) continue;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await call(provider, model);
+        } catch (error) {
+          lastError = error instanceof LlmError
+            ? error
+            : new LlmError(error instanceof Error ? error.message : String(error), { provider: name, model });
+          if (!lastError.retryable || attempt >= maxRetries) break;
+          const delay = Math.min(maxDelayMs, lastError.retryAfterMs ?? baseDelayMs * 2 ** attempt);
+          console.warn(`[llm] ${feature}: ${name} ${model} failed (${lastError.message}), retrying in ${delay} ms`);
+          await sleep(delay);
+        }
+      }
+      console.warn(`[llm] ${feature}: ${name} ${model} failed (${lastError?.message}), falling back`);
+    }
+    throw lastError ?? new LlmError(`No LLM provider is configured for feature "${feature}"`);
+  };
+
+  return {
+    chat: (feature, request, options) => withFallback(feature, options, (provider, model) => provider.chat(model, request)),
+    json: <T>(feature: string, request: Omit<LlmRequest, 'json'>, options?: LlmCallOptions) =>
+      withFallback(feature, options, async (provider, model) => {
+        const result = await provider.chat(model, { ...request, json: true });
+        try {
+          return { ...result, data: parseJsonReply<T>(result.text) };
+        } catch {
+          throw new LlmError(`${provider.name} ${model} returned invalid JSON`, { provider: provider.name, model, retryable: false });
+        }
+      }),
+    stream: (feature, request, options) => withFallback(feature, options, async (provider, model) => ({
+      provider: provider.name,
+      model,
+      events: await provider.stream(model, request),
+    })),
+    isAvailable: feature => models(feature).some(candidate => providers[candidate.provider]),
+  };
+}
@@ -0,0 +1,19 @@
+// supabase/functions/_shared/pdfText.ts
+// Text helpers for PDFs drawn with pdf-lib's standard fonts.
+import type { PDFFont } from 'npm:pdf-lib@1.17.1';
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw while drawing
+export function winAnsiSafe(font: PDFFont): (text: string) => string {
+  const encodable = new Map<string, boolean>();
+  return (text) => Array.from(text, ch => {
+    if (!encodable.has(ch)) {
+      try {
+        font.encodeText(ch);
+        encodable.set(ch, true);
+      } catch {
+        encodable.set(ch, false);
+      }
+    }
+    return encodable.get(ch) ? ch : '?';
+  }).join('');
+}
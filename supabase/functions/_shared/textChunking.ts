@@ -0,0 +1,57 @@
+// supabase/functions/_shared/textChunking.ts
+// Splits extracted document text into overlapping chunks whose offsets point back into the
+// full text. Used by analyze-document (large analysis chunks) and embed-document (small
+// retrieval chunks).
+
+export interface DocumentChunk {
+    index: number;
+    start: number; // Offset of the chunk's first character in the full document
+    end: number;   // Exclusive end offset in the full document
+    text: string;
+}
+
+/**
+ * Finds a natural place to end a chunk: the last paragraph, line, sentence or word
+ * break inside the final fifth of the window. Falls back to a hard cut.
+ */
+function findChunkBoundary(text: string, windowStart: number, windowEnd: number): number {
+    if (windowEnd >= text.length) return text.length;
+
+    const searchFrom = windowStart + Math.floor((windowEnd - windowStart) * 0.8);
+    const window = text.substring(searchFrom, windowEnd);
+    for (const separator of ['\n\n', '\n', '. ', '; ', ' ']) {
+        const pos = window.lastIndexOf(separator);
+        if (pos !== -1) {
+            return searchFrom + pos + separator.length;
+        }
+    }
+    return windowEnd;
+}
+
+/**
+ * Splits text into overlapping chunks, preferring to break on paragraph/sentence
+ * boundaries. Every character of the input belongs to at least one chunk.
+ */
+export function chunkText(text: string, chunkSize: number, overlap: number): DocumentChunk[] {
+    if (!text) return [];
+    if (text.length <= chunkSize) {
+        return [{ index: 0, start: 0, end: text.length, text }];
+    }
+
+    const chunks: DocumentChunk[] = [];
+    let start = 0;
+    while (start < text.length) {
+        const end = findChunkBoundary(text, start, Math.min(start + chunkSize, text.length));
+        chunks.push({ index: chunks.length, start, end, text: text.substring(start, end) });
+        if (end >= text.length) break;
+
+        // Step back by the overlap, then forward to the next word so chunks don't open mid-word
+        let nextStart = Math.max(end - overlap, start + 1);
+        const nextSpace = text.indexOf(' ', nextStart);
+        if (nextSpace !== -1 && nextSpace < end) {
+            nextStart = nextSpace + 1;
+        }
+        start = nextStart;
+    }
+    return chunks;
+}
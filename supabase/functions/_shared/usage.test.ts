@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { UserProfile } from './auth';
+import { LlmError } from './llm';
+import { checkAiQuota, startAiCall } from './usage';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const profile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+  id: 'olivia',
+  full_name: 'Olivia Owner',
+  subscription_status: 'trialing',
+  trial_ends_at: '2026-03-08T00:00:00Z',
+  trial_ai_calls_used: 0,
+  ...overrides,
+});
+
+// Just enough of the query builder for the counter's compare-and-set and the ledger insert.
+// `racer` runs before each compare-and-set lands (with its attempt number), so it can move the
+// stored counter as a concurrent call would.
+const fakeClient = (
+  stored: { trial_ai_calls_used: number | null },
+  racer?: (attempt: number) => void,
+  ledgerError: { message: string } | null = null,
+) => {
+  const ledger: Record<string, unknown>[] = [];
+  let updates = 0;
+  const client = {
+    from: (table: string) => {
+      if (table === 'ai_usage') {
+        return { insert: async (row: Record<string, unknown>) => { if (!ledgerError) ledger.push(row); return { error: ledgerError }; } };
+      }
+      let update: { trial_ai_calls_used: number } | null = null;
+      let expected: { value: number | null } | null = null;
+      const builder = {
+        update: (values: { trial_ai_calls_used: number }) => { update = values; return builder; },
+        select: () => builder,
+        eq: (column: string, value: number) => {
+          if (column === 'trial_ai_calls_used') expected = { value };
+          return builder;
+        },
+        is: (_column: string, value: null) => { expected = { value }; return builder; },
+        maybeSingle: async () => {
+          if (update) {
+            racer?.(updates++);
+            if (expected && stored.trial_ai_calls_used !== expected.value) return { data: null, error: null };
+            stored.trial_ai_calls_used = update.trial_ai_calls_used;
+          }
+          return { data: { trial_ai_calls_used: stored.trial_ai_calls_used }, error: null };
+        },
+      };
+      return builder;
+    },
+  } as unknown as SupabaseClient;
+  return { client, ledger };
+};
+
+describe('checkAiQuota', () => {
+  test('allow active plans and trials with calls left', () => {
+    expect(checkAiQuota(profile({ subscription_status: 'active', trial_ai_calls_used: 500 }), NOW)).toBeNull();
+    expect(checkAiQuota(profile({ trial_ai_calls_used: 29 }), NOW)).toBeNull();
+  });
+
+  test('refuse expired or spent trials, other plans and missing profiles', () => {
+    expect(checkAiQuota(profile({ trial_ends_at: '2026-02-28T00:00:00Z' }), NOW)).toBe('trial_expired');
+    expect(checkAiQuota(profile({ trial_ends_at: null }), NOW)).toBe('trial_expired');
+    expect(checkAiQuota(profile({ trial_ai_calls_used: 30 }), NOW)).toBe('trial_limit');
+    expect(checkAiQuota(profile({ subscription_status: 'canceled' }), NOW)).toBe('inactive');
+    expect(checkAiQuota(profile({ subscription_status: null }), NOW)).toBe('inactive');
+    expect(checkAiQuota(null, NOW)).toBe('no_profile');
+  });
+});
+
+describe('startAiCall', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('reserve a trial call and record the succeeded call in the ledger', async () => {
+    const { client, ledger } = fakeClient({ trial_ai_calls_used: 4 });
+    const meter = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 4 }) }, {
+      functionName: 'analyze-document', feature: 'analysis:risks', caseId: 'case-1',
+    });
+    expect(meter).not.toBeInstanceOf(Response);
+    if (meter instanceof Response) return;
+    await meter.succeed({ model: 'gpt-4o', inputTokens: 1200, outputTokens: 300 });
+
+    expect(ledger).toEqual([expect.objectContaining({
+      user_id: 'olivia', case_id: 'case-1', function_name: 'analyze-document', feature: 'analysis:risks',
+      model: 'gpt-4o', input_tokens: 1200, output_tokens: 300, status: 'success', error: null, counted: true,
+    })]);
+    expect(ledger[0].latency_ms).toEqual(expect.any(Number));
+  });
+
+  test('refuse with 403 when the quota is spent, without touching the counter', async () => {
+    const stored = { trial_ai_calls_used: 30 };
+    const { client, ledger } = fakeClient(stored);
+    const response = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 30 }) }, { functionName: 'summarize-text' });
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(403);
+    expect(await (response as Response).json()).toEqual({ error: 'Trial call limit reached', quota: 'trial_limit' });
+    expect(stored.trial_ai_calls_used).toBe(30);
+    expect(ledger).toEqual([]);
+  });
+
+  test('retry the reservation from the latest count when a concurrent call moved it', async () => {
+    const stored = { trial_ai_calls_used: 10 };
+    const { client } = fakeClient(stored, attempt => { if (attempt === 0) stored.trial_ai_calls_used = 11; });
+    const meter = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 10 }) }, { functionName: 'rewrite-text' });
+    expect(meter).not.toBeInstanceOf(Response);
+    expect(stored.trial_ai_calls_used).toBe(12);
+  });
+
+  test('refuse when a concurrent call took the last call of the quota', async () => {
+    const stored = { trial_ai_calls_used: 29 };
+    const { client } = fakeClient(stored, attempt => { if (attempt === 0) stored.trial_ai_calls_used = 30; });
+    const response = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 29 }) }, { functionName: 'rewrite-text' });
+    expect((response as Response).status).toBe(403);
+    expect(stored.trial_ai_calls_used).toBe(30);
+  });
+
+  test('give up rather than reserve from a stale count when the counter keeps moving', async () => {
+    const stored = { trial_ai_calls_used: 0 };
+    const { client, ledger } = fakeClient(stored, () => { stored.trial_ai_calls_used = (stored.trial_ai_calls_used ?? 0) + 1; });
+    await expect(startAiCall(client, { user: { id: 'olivia' }, profile: profile() }, { functionName: 'rewrite-text' }))
+      .rejects.toThrow('AI call quota is busy, please try again');
+    expect(stored.trial_ai_calls_used).toBe(5); // Only the concurrent calls' reservations landed
+    expect(ledger).toEqual([]);
+  });
+
+  test('give a failed call back to the quota and record the error once', async () => {
+    const stored = { trial_ai_calls_used: null };
+    const { client, ledger } = fakeClient(stored);
+    const meter = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: null }) }, { functionName: 'agent-draft' });
+    if (meter instanceof Response) throw new Error('expected a meter');
+    expect(stored.trial_ai_calls_used).toBe(1);
+
+    await meter.fail(new Error('429 Rate limit reached'), { model: 'gpt-4' });
+    await meter.fail(new Error('stream closed'));
+    expect(stored.trial_ai_calls_used).toBe(0);
+    expect(ledger).toEqual([expect.objectContaining({ status: 'error', error: '429 Rate limit reached', model: 'gpt-4', counted: false })]);
+  });
+
+  test('record the model a gateway error failed on, and ignore a failure reported after success', async () => {
+    const stored = { trial_ai_calls_used: 3 };
+    const { client, ledger } = fakeClient(stored);
+    const failed = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 3 }) }, { functionName: 'summarize-text' });
+    if (failed instanceof Response) throw new Error('expected a meter');
+    await failed.fail(new LlmError('Upstream timeout', { provider: 'openai', model: 'gpt-4o-mini', status: 504 }));
+    expect(ledger[0]).toMatchObject({ status: 'error', error: 'Upstream timeout', model: 'gpt-4o-mini', latency_ms: expect.any(Number) });
+    expect(stored.trial_ai_calls_used).toBe(3);
+
+    const succeeded = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 3 }) }, { functionName: 'summarize-text' });
+    if (succeeded instanceof Response) throw new Error('expected a meter');
+    await succeeded.succeed({ model: 'gpt-4o' });
+    await succeeded.fail(new Error('client disconnected'));
+    expect(ledger.map(row => row.status)).toEqual(['error', 'success']);
+    expect(stored.trial_ai_calls_used).toBe(4);
+  });
+
+  test('still refund a failed call when its ledger row cannot be written', async () => {
+    const stored = { trial_ai_calls_used: 7 };
+    const { client } = fakeClient(stored, undefined, { message: 'relation "ai_usage" does not exist' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const meter = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ trial_ai_calls_used: 7 }) }, { functionName: 'agent-draft' });
+    if (meter instanceof Response) throw new Error('expected a meter');
+    await expect(meter.fail(new Error('model overloaded'))).resolves.toBeUndefined();
+    expect(stored.trial_ai_calls_used).toBe(7);
+    vi.mocked(console.error).mockRestore();
+  });
+
+  test('leave unmetered plans and uncounted calls off the counter', async () => {
+    const stored = { trial_ai_calls_used: 0 };
+    const { client, ledger } = fakeClient(stored);
+    const active = await startAiCall(client, { user: { id: 'olivia' }, profile: profile({ subscription_status: 'active' }) }, { functionName: 'summarize-text' });
+    const indexing = await startAiCall(client, { user: { id: 'olivia' }, profile: null }, { functionName: 'embed-document', countsTowardQuota: false });
+    await (active as Exclude<typeof active, Response>).succeed({ model: 'gpt-4o' });
+    await indexing.succeed({ model: 'text-embedding-3-small' });
+
+    expect(stored.trial_ai_calls_used).toBe(0);
+    expect(ledger.map(row => [row.function_name, row.counted])).toEqual([['summarize-text', true], ['embed-document', false]]);
+  });
+});
@@ -0,0 +1,174 @@
+// supabase/functions/_shared/usage.ts
+// AI usage metering and quota enforcement. Every model call goes through startAiCall, which
+// checks the caller's plan, reserves a call against its quota and returns a meter; the meter
+// writes one ai_usage ledger row (function, feature, model, tokens, latency, case, user) when
+// the call succeeds or fails, and gives a failed call's reservation back.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from './cors.ts';
+import type { AuthContext, UserProfile } from './auth.ts';
+import { LlmError } from './llm.ts';
+
+// Mirrors AI_PLAN_QUOTAS in src/utils/subscription.ts. A null callLimit is unmetered for quota
+// purposes (calls are still recorded).
+export const AI_PLAN_QUOTAS: Record<string, { callLimit: number | null }> = {
+  trialing: { callLimit: 30 },
+  active: { callLimit: null },
+};
+
+export type QuotaRefusal = 'no_profile' | 'trial_expired' | 'trial_limit' | 'inactive';
+
+const refusalMessages: Record<QuotaRefusal, string> = {
+  no_profile: 'User profile not found',
+  trial_expired: 'Trial expired',
+  trial_limit: 'Trial call limit reached',
+  inactive: 'Subscription inactive',
+};
+
+// Concurrent reservations retry the compare-and-set this many times before giving up
+const MAX_RESERVE_ATTEMPTS = 5;
+
+/** Why the profile's plan doesn't allow another AI call right now, or null when it does. Mirrors getAiQuotaStatus in src/utils/subscription.ts. */
+export function checkAiQuota(profile: UserProfile | null, now = new Date()): QuotaRefusal | null {
+  if (!profile) return 'no_profile';
+  const plan = profile.subscription_status ? AI_PLAN_QUOTAS[profile.subscription_status] : undefined;
+  if (!plan) return 'inactive';
+  if (profile.subscription_status === 'trialing') {
+    if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) return 'trial_expired';
+  }
+  if (plan.callLimit !== null && (profile.trial_ai_calls_used ?? 0) >= plan.callLimit) return 'trial_limit';
+  return null;
+}
+
+export const quotaErrorResponse = (refusal: QuotaRefusal) =>
+  new Response(JSON.stringify({ error: refusalMessages[refusal], quota: refusal }), {
+    status: 403,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+/**
+ * Moves the profile's call counter by delta with a compare-and-set on its current value, so two
+ * concurrent calls can't both take the last call of a quota. Returns the refusal when the limit
+ * is reached before the reservation lands.
+ */
+async function adjustCallCounter(
+  supabaseAdmin: SupabaseClient,
+  profile: UserProfile,
+  delta: 1 | -1,
+  callLimit: number,
+): Promise<QuotaRefusal | null> {
+  let used = profile.trial_ai_calls_used;
+  for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+    const current = used ?? 0;
+    if (delta > 0 && current >= callLimit) return 'trial_limit';
+    if (delta < 0 && current <= 0) return null;
+
+    const query = supabaseAdmin.from('profiles').update({ trial_ai_calls_used: current + delta }).eq('id', profile.id);
+    const { data, error } = await (used === null ? query.is('trial_ai_calls_used', null) : query.eq('trial_ai_calls_used', used))
+      .select('trial_ai_calls_used')
+      .maybeSingle();
+    if (error) throw new Error(`Failed to update AI call quota: ${error.message}`);
+    if (data) {
+      profile.trial_ai_calls_used = data.trial_ai_calls_used;
+      return null;
+    }
+
+    // Another call moved the counter first; retry from its value
+    const { data: latest, error: latestError } = await supabaseAdmin
+      .from('profiles')
+      .select('trial_ai_calls_used')
+      .eq('id', profile.id)
+      .maybeSingle();
+    if (latestError || !latest) throw new Error(`Failed to reload AI call quota: ${latestError?.message || 'profile not found'}`);
+    used = latest.trial_ai_calls_used;
+  }
+  throw new Error('AI call quota is busy, please try again');
+}
+
+export interface AiCallUsage {
+  model: string | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+}
+
+export interface AiCallMeter {
+  succeed(usage: AiCallUsage): Promise<void>;
+  fail(error: unknown, usage?: Partial<AiCallUsage>): Promise<void>; // Also returns the reserved call to the quota; an LlmError supplies the model it failed on
+}
+
+type AiCaller = { user: Pick<AuthContext['user'], 'id'>; profile: UserProfile | null };
+
+interface StartAiCallOptions {
+  functionName: string;
+  feature?: string; // Finer than the function, e.g. 'analysis:risks'; defaults to the function name
+  caseId?: string | null;
+  countsTowardQuota?: boolean; // false for calls the user doesn't ask for (indexing, palette interpretation)
+}
+
+/**
+ * Checks the caller's plan and reserves an AI call, returning the ready 403 response when the
+ * quota refuses it (calls that don't count toward the quota are never refused):
+ *
+ *   const meter = await startAiCall(supabaseAdmin, auth, { functionName: 'summarize-text' });
+ *   if (meter instanceof Response) return meter;
+ *   ...
+ *   await meter.succeed({ model, inputTokens, outputTokens });
+ */
+export function startAiCall(
+  supabaseAdmin: SupabaseClient,
+  auth: AiCaller,
+  options: StartAiCallOptions & { countsTowardQuota: false },
+): Promise<AiCallMeter>;
+export function startAiCall(supabaseAdmin: SupabaseClient, auth: AiCaller, options: StartAiCallOptions): Promise<AiCallMeter | Response>;
+export async function startAiCall(
+  supabaseAdmin: SupabaseClient,
+  { user, profile }: AiCaller,
+  { functionName, feature, caseId = null, countsTowardQuota = true }: StartAiCallOptions,
+): Promise<AiCallMeter | Response> {
+  let reservedLimit: number | null = null;
+  if (countsTowardQuota) {
+    const refusal = checkAiQuota(profile);
+    if (refusal || !profile) return quotaErrorResponse(refusal ?? 'no_profile');
+    const { callLimit } = AI_PLAN_QUOTAS[profile.subscription_status ?? ''];
+    if (callLimit !== null) {
+      const reserveRefusal = await adjustCallCounter(supabaseAdmin, profile, 1, callLimit);
+      if (reserveRefusal) return quotaErrorResponse(reserveRefusal);
+      reservedLimit = callLimit;
+    }
+  }
+
+  const startedAt = Date.now();
+  let settled = false;
+
+  const record = async (status: 'success' | 'error', usage: Partial<AiCallUsage>, errorMessage: string | null) => {
+    if (settled) return;
+    settled = true;
+    const { error } = await supabaseAdmin.from('ai_usage').insert({
+      user_id: user.id,
+      case_id: caseId,
+      function_name: functionName,
+      feature: feature ?? functionName,
+      model: usage.model ?? null,
+      input_tokens: usage.inputTokens ?? null,
+      output_tokens: usage.outputTokens ?? null,
+      latency_ms: Date.now() - startedAt,
+      status,
+      error: errorMessage,
+      counted: countsTowardQuota && status === 'success',
+    });
+    // The ledger is for reporting; a failed write mustn't fail the user's request
+    if (error) console.error(`[usage] Failed to record ${functionName} call:`, error.message);
+  };
+
+  return {
+    succeed: usage => record('success', usage, null),
+    fail: async (callError, usage = {}) => {
+      const alreadySettled = settled;
+      const failedOn = callError instanceof LlmError ? callError.usage : {};
+      await record('error', { ...failedOn, ...usage }, callError instanceof Error ? callError.message : String(callError));
+      if (!alreadySettled && reservedLimit !== null && profile) {
+        await adjustCallCounter(supabaseAdmin, profile, -1, reservedLimit)
+          .catch(refundError => console.error(`[usage] Failed to refund ${functionName} call:`, refundError));
+      }
+    },
+  };
+}
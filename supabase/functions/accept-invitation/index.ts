@@ -0,0 +1,111 @@
+// supabase/functions/accept-invitation/index.ts
+// Accepts (or declines) an invitation to a case or organisation on behalf of the signed-in user.
+// Membership rows are written here with the service-role client, after checking the invitation
+// was addressed to the email the caller is signed in with and that whoever sent it may still
+// grant its role. Invitations are written from the browser; only the RLS policy pinning
+// invited_by to auth.uid() (see the README) makes that column name the real sender.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { canAssignCaseRole } from '../_shared/caseAccess.ts';
+
+interface AcceptInvitationRequest {
+  invitationId: string;
+  decline?: boolean;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const { user, profile } = auth;
+
+    const body = await req.json() as AcceptInvitationRequest;
+    if (!body.invitationId) return jsonResponse({ success: false, error: 'Missing required parameter: invitationId' }, 400);
+
+    // --- The invitation must be pending and addressed to the caller ---
+    const { data: invitation, error: invitationError } = await supabaseAdmin
+      .from('invitations')
+      .select('*')
+      .eq('id', body.invitationId)
+      .is('accepted_at', null)
+      .maybeSingle();
+    if (invitationError) throw new Error(`Failed to load invitation: ${invitationError.message}`);
+    const email = user.email?.trim().toLowerCase();
+    if (!invitation || !email || invitation.email !== email) {
+      return jsonResponse({ success: false, error: 'Invitation not found or addressed to a different email' }, 404);
+    }
+
+    if (body.decline) {
+      const { error } = await supabaseAdmin.from('invitations').delete().eq('id', invitation.id);
+      if (error) throw new Error(`Failed to decline invitation: ${error.message}`);
+      return jsonResponse({ success: true }, 200);
+    }
+
+    if (!invitation.invited_by) {
+      return jsonResponse({ success: false, error: 'Invitation has no sender' }, 422);
+    }
+
+    const member = { user_id: user.id, role: invitation.role, user_email: email, user_name: profile?.full_name || email };
+
+    if (invitation.case_id) {
+      const { data: caseRow, error: caseError } = await supabaseAdmin
+        .from('cases')
+        .select('owner_id')
+        .eq('id', invitation.case_id)
+        .maybeSingle();
+      if (caseError) throw new Error(`Failed to load case: ${caseError.message}`);
+      if (!caseRow) return jsonResponse({ success: false, error: 'The case no longer exists' }, 404);
+      if (!await canAssignCaseRole(supabaseAdmin, invitation.case_id, invitation.invited_by, invitation.role)) {
+        return jsonResponse({ success: false, error: 'Whoever sent this invitation can no longer grant its role' }, 403);
+      }
+      // The owner keeps their role if they were invited to their own case
+      if (caseRow.owner_id !== user.id) {
+        const { error } = await supabaseAdmin
+          .from('case_collaborators')
+          .upsert({ ...member, case_id: invitation.case_id }, { onConflict: 'case_id,user_id' });
+        if (error) throw new Error(`Failed to add case member: ${error.message}`);
+      }
+    } else if (invitation.organization_id) {
+      const { data: inviter, error: inviterError } = await supabaseAdmin
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', invitation.organization_id)
+        .eq('user_id', invitation.invited_by)
+        .maybeSingle();
+      if (inviterError) throw new Error(`Failed to load the inviter's membership: ${inviterError.message}`);
+      if (inviter?.role !== 'admin' || !['admin', 'member'].includes(invitation.role)) {
+        return jsonResponse({ success: false, error: 'Whoever sent this invitation can no longer grant its role' }, 403);
+      }
+      const { error } = await supabaseAdmin
+        .from('organization_members')
+        .upsert({ ...member, organization_id: invitation.organization_id }, { onConflict: 'organization_id,user_id' });
+      if (error) throw new Error(`Failed to add organisation member: ${error.message}`);
+    } else {
+      return jsonResponse({ success: false, error: 'Invitation has no case or organisation' }, 422);
+    }
+
+    const { error: acceptError } = await supabaseAdmin
+      .from('invitations')
+      .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+      .eq('id', invitation.id);
+    if (acceptError) throw new Error(`Failed to mark invitation accepted: ${acceptError.message}`);
+
+    return jsonResponse({ success: true, caseId: invitation.case_id, organizationId: invitation.organization_id }, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error accepting invitation';
+    console.error('[accept-invitation] Error:', message);
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
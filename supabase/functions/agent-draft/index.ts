@@ -1,7 +1,12 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'https://deno.land/x/openai/mod.ts';
 import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway } from '../_shared/llm.ts';
+
+const llm = createLlmGateway();
 
 serve(async (req)=>{
   if (req.method === 'OPTIONS') {
@@ -10,54 +15,30 @@ serve(async (req)=>{
     });
   }
 
+  let meter: AiCallMeter | undefined;
   try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
+
     const body = await req.json();
-    const { instructions, caseId, documentContext, analysisContext, userId } = body;
+    const { instructions, caseId, documentContext, analysisContext } = body;
 
-    if (!instructions || !userId) {
-      throw new Error('Missing instructions or userId');
+    if (!instructions) {
+      throw new Error('Missing instructions');
     }
 
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) throw new Error('OPENAI_API_KEY not set.');
-
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
+    if (caseId && !await canAccessCase(supabaseAdmin, caseId, userId, 'use_ai')) {
+      return new Response(JSON.stringify({ error: 'Case not found or access denied' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'agent-draft', caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
     console.log(`Agent Draft Function: Case ${caseId || 'N/A'}`);
 
@@ -73,17 +54,12 @@ serve(async (req)=>{
     const systemPrompt = 'You are a paralegal AI assistant. Draft legal documents, emails, or letters as instructed. Use any provided context. Be clear, professional, and legally accurate. Use HTML <strong> tags for bold text instead of markdown asterisks.';
     const userPrompt = `${contextPrompt}Drafting instructions: ${instructions}`;
 
-    // 2. Call OpenAI with streaming
-    const openai = new OpenAI({
-      apiKey: openaiApiKey
-    });
-    const openaiStream = await openai.chat.completions.create({
-      model: 'gpt-4', // Consider gpt-4o-mini for speed/cost if sufficient
+    // 2. Stream the draft from the agent-draft models
+    const { model, events } = await llm.stream('agent-draft', {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ],
-      stream: true,
       temperature: 0.3
     });
 
@@ -92,24 +68,19 @@ serve(async (req)=>{
       async start (controller) {
         const encoder = new TextEncoder();
         try {
-          for await (const chunk of openaiStream){
-            const content = chunk.choices[0]?.delta?.content || '';
-            if (content) {
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify(content)}\n\n`));
+          for await (const event of events){
+            if (event.type === 'text') {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(event.text)}\n\n`));
+            } else if (event.type === 'done') {
+              await aiCall.succeed(event.usage);
             }
           }
           // Signal end of stream
-          if (profile.subscription_status === 'trialing') {
-            await supabaseAdmin
-              .from('profiles')
-              .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-              .eq('id', userId);
-          }
-          
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
           controller.close();
         } catch (streamError) {
-          console.error('Error during OpenAI stream for agent-draft:', streamError);
+          console.error('Error during LLM stream for agent-draft:', streamError);
+          await aiCall.fail(streamError, { model });
           controller.error(streamError);
         }
       }
@@ -126,6 +97,7 @@ serve(async (req)=>{
 
   } catch (error) {
     console.error('Error in Agent Draft Function:', error);
+    await meter?.fail(error);
     return new Response(JSON.stringify({ success: false, error: error.message }), {
       status: 500,
       headers: {
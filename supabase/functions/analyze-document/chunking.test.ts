@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'vitest';
+import {
+    CHUNK_OVERLAP,
+    CHUNK_SIZE,
+    chunkDocumentText,
+    mergeChunkItems,
+    mergePlaybookFindings,
+    reanchorItem,
+    type PositionedItem,
+} from './chunking';
+
+// ~55k characters (three chunks) of numbered sentences, so every sentence is unique and easy to find
+const sentences = Array.from({ length: 700 }, (_, i) => `Clause ${i + 1} binds the parties to obligation number ${i + 1} of the agreement.`);
+const longText = sentences.join(' ');
+
+const item = (fields: Partial<PositionedItem>): PositionedItem => ({ start: null, end: null, ...fields });
+
+describe('chunking', () => {
+    test('keeps short documents whole', () => {
+        expect(chunkDocumentText('')).toEqual([]);
+        expect(chunkDocumentText('Short agreement.')).toEqual([{ index: 0, start: 0, end: 16, text: 'Short agreement.' }]);
+    });
+
+    test('covers the whole document with overlapping chunks that end on sentence breaks', () => {
+        const chunks = chunkDocumentText(longText);
+        expect(chunks.length).toBeGreaterThan(2);
+        expect(chunks[0].start).toBe(0);
+        expect(chunks[chunks.length - 1].end).toBe(longText.length);
+        chunks.forEach((chunk, i) => {
+            expect(chunk.index).toBe(i);
+            expect(chunk.text).toBe(longText.substring(chunk.start, chunk.end));
+            expect(chunk.end - chunk.start).toBeLessThanOrEqual(CHUNK_SIZE);
+            if (i === 0) return;
+            const previous = chunks[i - 1];
+            expect(previous.text.endsWith('. ')).toBe(true);
+            expect(chunk.start).toBeLessThan(previous.end);
+            expect(previous.end - chunk.start).toBeLessThanOrEqual(CHUNK_OVERLAP);
+            expect(longText[chunk.start - 1]).toBe(' '); // Opens on a word, not mid-word
+        });
+    });
+
+    test('sees every sentence near a chunk edge whole in at least one chunk', () => {
+        const chunks = chunkDocumentText(longText);
+        for (const sentence of sentences) {
+            expect(chunks.some(chunk => chunk.text.includes(sentence))).toBe(true);
+        }
+    });
+
+    test('cuts text without any breaks at the chunk size', () => {
+        const chunks = chunkDocumentText('x'.repeat(CHUNK_SIZE * 2));
+        expect(chunks[0]).toMatchObject({ start: 0, end: CHUNK_SIZE });
+        expect(chunks[1].start).toBe(CHUNK_SIZE - CHUNK_OVERLAP);
+        expect(chunks[chunks.length - 1].end).toBe(CHUNK_SIZE * 2);
+    });
+});
+
+describe('re-anchoring', () => {
+    test('shifts chunk-relative offsets back into the full document', () => {
+        const chunk = chunkDocumentText(longText)[2];
+        const sentence = sentences.find(s => chunk.text.indexOf(s) > 0)!;
+        const relativeStart = chunk.text.indexOf(sentence);
+        const anchored = reanchorItem(item({ text: sentence, start: relativeStart, end: relativeStart + sentence.length }), chunk);
+        expect(anchored.start).toBe(chunk.start + relativeStart);
+        expect(longText.substring(anchored.start!, anchored.end!)).toBe(sentence);
+    });
+
+    test('leaves unresolved positions alone', () => {
+        const unresolved = item({ text: 'Not found in the chunk' });
+        expect(reanchorItem(unresolved, chunkDocumentText(longText)[1])).toBe(unresolved);
+    });
+});
+
+describe('merging chunk results', () => {
+    test('drops a finding repeated by overlapping chunks, whatever its case or quotes', () => {
+        const merged = mergeChunkItems('entities', [
+            [item({ type: 'Party', text: 'Acme Corp’s', start: 19950, end: 19961 })],
+            [item({ type: 'party', text: "ACME CORP's", start: 19950, end: 19961 }), item({ type: 'Party', text: 'Globex', start: 21000, end: 21006 })],
+        ]);
+        expect(merged).toEqual([
+            item({ type: 'Party', text: 'Acme Corp’s', start: 19950, end: 19961 }),
+            item({ type: 'Party', text: 'Globex', start: 21000, end: 21006 }),
+        ]);
+    });
+
+    test('keeps the copy of a duplicate whose position was resolved', () => {
+        const merged = mergeChunkItems('clauses', [
+            [item({ title: 'Indemnification', text: 'Paraphrased' })],
+            [item({ title: 'indemnification', text: 'Each party shall indemnify', start: 30500, end: 30526 })],
+        ]);
+        expect(merged).toEqual([item({ title: 'indemnification', text: 'Each party shall indemnify', start: 30500, end: 30526 })]);
+    });
+
+    test('keeps findings without a key, and orders results by position with unresolved ones last', () => {
+        const merged = mergeChunkItems('risks', [
+            [item({ title: 'Uncapped liability', text: 'No cap', start: 40000, end: 40006 }), item({})],
+            [item({ title: 'Auto-renewal', text: 'Renews yearly', start: 100, end: 113 }), item({ title: 'Vague term', text: 'Reasonable efforts' })],
+        ]);
+        expect(merged.map(risk => risk.title)).toEqual(['Auto-renewal', 'Uncapped liability', 'Vague term', undefined]);
+    });
+
+    test('orders the timeline by date, with relative references after the dated events', () => {
+        const merged = mergeChunkItems('timeline', [
+            [item({ date: 'within 30 days', event: 'Notice', start: 50 }), item({ date: '2024-06-01', event: 'Closing', start: 900 })],
+            [item({ date: '2024-01-15', event: 'Signing', start: 25000 })],
+        ]);
+        expect(merged.map(event => event.event)).toEqual(['Signing', 'Closing', 'Notice']);
+    });
+
+    test('takes the most serious playbook status any chunk reported and fills in missing rules', () => {
+        const merged = mergePlaybookFindings(['cap', 'law', 'term'], [
+            [item({ ruleId: 'cap', status: 'met', start: 10, end: 20 }), item({ ruleId: 'other', status: 'deviates' })],
+            [item({ ruleId: 'cap', status: 'deviates', start: 22000, end: 22040 }), item({ ruleId: 'law', status: 'met', start: 23000, end: 23010 })],
+        ]);
+        expect(merged.map(finding => [finding.ruleId, finding.status, finding.start])).toEqual([
+            ['cap', 'deviates', 22000],
+            ['law', 'met', 23000],
+            ['term', 'missing', null],
+        ]);
+    });
+});
@@ -0,0 +1,174 @@
+// supabase/functions/analyze-document/chunking.ts
+// Map-reduce helpers for analyze-document: split long documents into overlapping
+// chunks, then merge and de-duplicate the per-chunk results into one document-level result.
+import { chunkText, type DocumentChunk } from '../_shared/textChunking.ts';
+
+export type { DocumentChunk };
+
+// ~20k characters (~5k tokens) per chunk keeps each call fast and cheap, while the
+// overlap makes sure a clause straddling a chunk boundary is seen whole at least once.
+export const CHUNK_SIZE = 20000;
+export const CHUNK_OVERLAP = 1500;
+// Hard ceiling on calls per request; anything beyond is reported as 'skipped' in the coverage.
+export const MAX_CHUNKS = 40;
+
+export function chunkDocumentText(text: string): DocumentChunk[] {
+    return chunkText(text, CHUNK_SIZE, CHUNK_OVERLAP);
+}
+
+export type ChunkStatus = 'analyzed' | 'failed' | 'skipped';
+
+export interface ChunkCoverage {
+    index: number;
+    start: number;
+    end: number;
+    status: ChunkStatus;
+    error?: string;
+}
+
+// Returned alongside the result so the reviewer can tell which parts of the document were covered
+export interface AnalysisCoverage {
+    documentLength: number;
+    totalChunks: number;
+    analyzedChunks: number;
+    complete: boolean;
+    chunks: ChunkCoverage[];
+}
+
+export type ResultKey = 'entities' | 'clauses' | 'risks' | 'timeline' | 'privilegedTerms' | 'playbook';
+export const RESULT_KEYS: ResultKey[] = ['entities', 'clauses', 'risks', 'timeline', 'privilegedTerms', 'playbook'];
+
+export interface PositionedItem {
+    text?: string;
+    type?: string;
+    title?: string;
+    date?: string;
+    event?: string;
+    category?: string;
+    start: number | null;
+    end: number | null;
+    [key: string]: unknown;
+}
+
+function normalizeKeyPart(value: unknown): string {
+    if (typeof value !== 'string') return '';
+    return value
+        .toLowerCase()
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/[^\p{L}\p{N}$€£%.'"]+/gu, ' ')
+        .trim();
+}
+
+/**
+ * Key used to recognise the same finding reported by two (overlapping) chunks.
+ */
+export function dedupeKeyFor(key: ResultKey, item: PositionedItem): string {
+    switch (key) {
+        case 'entities':
+            return `${normalizeKeyPart(item.type)}|${normalizeKeyPart(item.text)}`;
+        case 'clauses':
+            return normalizeKeyPart(item.title) || normalizeKeyPart(item.text);
+        case 'timeline':
+            return `${normalizeKeyPart(item.date)}|${normalizeKeyPart(item.event)}`;
+        case 'risks':
+            return `${normalizeKeyPart(item.title)}|${normalizeKeyPart(item.text)}`;
+        case 'privilegedTerms':
+            return `${normalizeKeyPart(item.category)}|${normalizeKeyPart(item.text)}`;
+        case 'playbook':
+            return typeof item.ruleId === 'string' ? item.ruleId : '';
+    }
+}
+
+function compareByPosition(a: PositionedItem, b: PositionedItem): number {
+    if (a.start === null && b.start === null) return 0;
+    if (a.start === null) return 1;
+    if (b.start === null) return -1;
+    return a.start - b.start;
+}
+
+function compareTimeline(a: PositionedItem, b: PositionedItem): number {
+    const dateA = typeof a.date === 'string' && /^\d{4}-\d{2}(-\d{2})?/.test(a.date) ? Date.parse(a.date) : NaN;
+    const dateB = typeof b.date === 'string' && /^\d{4}-\d{2}(-\d{2})?/.test(b.date) ? Date.parse(b.date) : NaN;
+    if (!isNaN(dateA) && !isNaN(dateB) && dateA !== dateB) return dateA - dateB;
+    // Dated events first, relative references ("within 30 days") after them in document order
+    if (!isNaN(dateA) && isNaN(dateB)) return -1;
+    if (isNaN(dateA) && !isNaN(dateB)) return 1;
+    return compareByPosition(a, b);
+}
+
+/**
+ * Merges the items each chunk produced for one result key. Duplicates keep the first
+ * occurrence that has a resolved position; results come back in document order
+ * (chronological for timeline).
+ */
+export function mergeChunkItems(key: ResultKey, itemsPerChunk: PositionedItem[][]): PositionedItem[] {
+    const merged = new Map<string, PositionedItem>();
+    const unkeyed: PositionedItem[] = [];
+
+    for (const items of itemsPerChunk) {
+        for (const item of items) {
+            const dedupeKey = dedupeKeyFor(key, item);
+            if (!dedupeKey || dedupeKey === '|') {
+                unkeyed.push(item);
+                continue;
+            }
+            const existing = merged.get(dedupeKey);
+            if (!existing || (existing.start === null && item.start !== null)) {
+                merged.set(dedupeKey, item);
+            }
+        }
+    }
+
+    const result = [...merged.values(), ...unkeyed];
+    return result.sort(key === 'timeline' ? compareTimeline : compareByPosition);
+}
+
+// A deviation anywhere outweighs a conforming clause elsewhere; missing only if no chunk found the clause
+const PLAYBOOK_STATUS_RANK: Record<string, number> = { deviates: 2, met: 1, missing: 0 };
+
+/**
+ * Merges playbook findings: one per rule, in playbook order, taking the most serious status any
+ * chunk reported (preferring a finding with a resolved position). Rules no chunk reported on are
+ * missing.
+ */
+export function mergePlaybookFindings(ruleIds: string[], itemsPerChunk: PositionedItem[][]): PositionedItem[] {
+    const rank = (item: PositionedItem) => PLAYBOOK_STATUS_RANK[String(item.status)] ?? 0;
+    const best = new Map<string, PositionedItem>();
+    for (const items of itemsPerChunk) {
+        for (const item of items) {
+            if (typeof item.ruleId !== 'string' || !ruleIds.includes(item.ruleId)) continue;
+            const existing = best.get(item.ruleId);
+            if (!existing || rank(item) > rank(existing) || (rank(item) === rank(existing) && existing.start === null && item.start !== null)) {
+                best.set(item.ruleId, item);
+            }
+        }
+    }
+    return ruleIds.map(ruleId => best.get(ruleId) ?? {
+        ruleId,
+        status: 'missing',
+        explanation: 'No clause addressing this rule was found in the document.',
+        matchedPosition: null,
+        start: null,
+        end: null,
+    });
+}
+
+/**
+ * Shifts a chunk-relative position into full-document coordinates.
+ */
+export function reanchorItem(item: PositionedItem, chunk: DocumentChunk): PositionedItem {
+    if (item.start === null || item.end === null) return item;
+    return { ...item, start: item.start + chunk.start, end: item.end + chunk.start };
+}
+
+export function buildCoverage(documentLength: number, chunks: ChunkCoverage[]): AnalysisCoverage {
+    const analyzedChunks = chunks.filter(c => c.status === 'analyzed').length;
+    return {
+        documentLength,
+        totalChunks: chunks.length,
+        analyzedChunks,
+        complete: analyzedChunks === chunks.length,
+        chunks,
+    };
+}
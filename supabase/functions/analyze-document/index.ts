@@ -1,10 +1,24 @@
 // supabase/functions/analyze-document/index.ts
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
-import { OpenAI } from 'https://deno.land/x/openai@v4.52.7/mod.ts'; // Use specific version or ensure compatibility
+import { canAccessDocument } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway, type LlmResult } from '../_shared/llm.ts';
 import { distance } from 'https://deno.land/x/fastest_levenshtein/mod.ts'; // Import for fuzzy matching
-// Define type for OpenAI API response usage
-// import type { ChatCompletion } from 'https://deno.land/x/openai@v4.52.7/resources/chat/completions.ts'; // Removed unused import
+import {
+  chunkDocumentText,
+  mergeChunkItems,
+  mergePlaybookFindings,
+  reanchorItem,
+  buildCoverage,
+  MAX_CHUNKS,
+  RESULT_KEYS,
+  type ChunkCoverage,
+  type DocumentChunk,
+  type PositionedItem,
+  type ResultKey,
+} from './chunking.ts';
 
 // Define CORS headers
 const corsHeaders = {
@@ -15,15 +29,7 @@ const corsHeaders = {
 
 console.log('Function analyze-document initializing...');
 
-// --- Helper: Create OpenAI Client ---
-function createOpenAIClient(): OpenAI {
-  const apiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!apiKey) {
-    console.error('Missing environment variable: OPENAI_API_KEY');
-    throw new Error('Server configuration error: Missing OpenAI API Key.');
-  }
-  return new OpenAI({ apiKey });
-}
+const llm = createLlmGateway();
 
 
 // --- Helper: Get Prompt based on Analysis Type ---
@@ -32,16 +38,84 @@ interface ResponseFormat {
     type: "json_object" | "text"; // Extend if needed
 }
 
-function getPrompts(analysisType: string, text: string, customPrompt?: string): { systemPrompt: string; userPrompt: string; responseFormat?: ResponseFormat } {
+// Stored on email documents by extract-text (documents.email_metadata)
+interface EmailMetadata {
+  from: string;
+  to: string;
+  cc: string;
+  subject: string;
+  messageId: string;
+  inReplyTo: string;
+  sentAt: string | null;
+}
+
+// Header block given to the entity and timeline prompts so they use the real sender,
+// recipients and send date instead of inferring them from the body
+function formatEmailContext(email: EmailMetadata): string {
+  return [
+    '[Email message metadata]',
+    email.from && `From: ${email.from}`,
+    email.to && `To: ${email.to}`,
+    email.cc && `Cc: ${email.cc}`,
+    email.sentAt && `Sent: ${email.sentAt}`,
+    email.subject && `Subject: ${email.subject}`,
+    email.inReplyTo && `In reply to: <${email.inReplyTo}>`,
+  ].filter(Boolean).join('\n');
+}
+
+// The firm's standard positions for one contract type, sent with a 'playbook' analysis
+interface PlaybookRulePayload {
+  id: string;
+  title: string;
+  required: boolean;
+  preferredLanguage: string;
+  fallbackPositions: string[];
+  unacceptableTerms: string[];
+  severity: string;
+  guidance?: string;
+}
+
+interface PlaybookPayload {
+  name: string;
+  contractType: string;
+  rules: PlaybookRulePayload[];
+}
+
+function isPlaybookPayload(value: unknown): value is PlaybookPayload {
+  if (!value || typeof value !== 'object') return false;
+  const playbook = value as PlaybookPayload;
+  return typeof playbook.name === 'string'
+    && Array.isArray(playbook.rules)
+    && playbook.rules.length > 0
+    && playbook.rules.every(rule => rule && typeof rule.id === 'string' && typeof rule.title === 'string'
+      && typeof rule.preferredLanguage === 'string' && Array.isArray(rule.fallbackPositions) && Array.isArray(rule.unacceptableTerms));
+}
+
+// Cap on the rules checked in one request, to keep the prompt within the model's context
+const MAX_PLAYBOOK_RULES = 50;
+
+function formatPlaybookRules(playbook: PlaybookPayload): string {
+  return playbook.rules.map(rule => [
+    `Rule ${rule.id}: ${rule.title}${rule.required ? ' (required clause)' : ''} [severity: ${rule.severity}]`,
+    `Preferred language: ${rule.preferredLanguage || '(none given)'}`,
+    rule.fallbackPositions.length > 0 && `Acceptable fallback positions:\n${rule.fallbackPositions.map((position, i) => `  ${i + 1}. ${position}`).join('\n')}`,
+    rule.unacceptableTerms.length > 0 && `Unacceptable terms: ${rule.unacceptableTerms.join('; ')}`,
+    rule.guidance?.trim() && `Guidance: ${rule.guidance.trim()}`,
+  ].filter(Boolean).join('\n')).join('\n\n');
+}
+
+function getPrompts(analysisType: string, text: string, customPrompt?: string, chunk?: { index: number; total: number }, emailContext?: string, playbook?: PlaybookPayload): { systemPrompt: string; userPrompt: string; responseFormat?: ResponseFormat } {
   console.log(`[analyze-document] getPrompts called with type: ${analysisType}`);
 
-  // Limit document size (e.g., ~100k tokens for gpt-4o context, but keep lower for performance/cost)
-  // Let's aim for roughly 20k characters as a practical limit (~5k tokens)
-  const MAX_CHARS = 20000;
-  const truncatedText = text.length > MAX_CHARS ? text.substring(0, MAX_CHARS) + `
+  // Long documents are analyzed chunk by chunk (see chunking.ts), so `text` is at most one
+  // chunk. Tell the model it is looking at an excerpt so it doesn't treat the cut as the end.
+  const excerptText = chunk && chunk.total > 1
+    ? `[Excerpt ${chunk.index + 1} of ${chunk.total} from a longer document. Only analyze this excerpt.]
 
-[Document truncated to ${MAX_CHARS} characters for analysis]` : text;
-  console.log(`[analyze-document] Text length: ${text.length}, using ${truncatedText.length} chars`);
+${text}`
+    : text;
+  const promptText = emailContext ? `${emailContext}\n\n${excerptText}` : excerptText;
+  console.log(`[analyze-document] Text length: ${text.length}${chunk ? ` (chunk ${chunk.index + 1}/${chunk.total})` : ''}`);
 
   let systemPrompt = '';
   let userPrompt = '';
@@ -61,7 +135,7 @@ Focus only on the provided text.`;
 
 Document Text:
 ---
-${truncatedText}
+${promptText}
 ---`;
       responseFormat = { type: "json_object" }; // Expect JSON now
       break;
@@ -83,7 +157,9 @@ Categories:
 - CASE_CITATION: References to specific court cases (e.g., "Marbury v. Madison, 5 U.S. 137 (1803)").
 - MONETARY_VALUE: Specific currency amounts relevant to obligations or penalties (e.g., "$10,000 USD", "€50,000").
 - LEGAL_TERM: Significant legal terms, doctrines, or defined terms within the document (e.g., "Force Majeure", "Indemnification", "Governing Law", "Confidential Information").
-
+${emailContext ? `
+The document is an email. Its sender and recipients are listed in the "[Email message metadata]" block; include them as PERSON or ORGANIZATION entities along with those found in the body.
+` : ''}
 Output Format:
 Respond ONLY with a valid JSON object containing a single key "entities".
 The value of "entities" must be an array of objects.
@@ -94,7 +170,7 @@ Each object in the array **must** have the following keys:
 If no relevant entities are found, return {"entities": []}.`;
       userPrompt = `Extract entities from the following document text precisely according to the system prompt instructions. Focus on legally relevant entities and use the specified categories and JSON format strictly. Document Text:
 ---
-${truncatedText}
+${promptText}
 ---`;
       responseFormat = { type: "json_object" };
       break;
@@ -113,7 +189,7 @@ Each object represents a clause and **must** have the following keys:
 If no significant clauses are found, return {"clauses": []}.`;
       userPrompt = `Extract and analyze important legal clauses from the following document text, ensuring **accuracy** of text and analysis. Use the specified categories and JSON format strictly. Document Text:
 ---
-${truncatedText}
+${promptText}
 ---`;
       responseFormat = { type: "json_object" };
       break;
@@ -134,7 +210,7 @@ Each object represents a potential risk and **must** have the following keys:
 If no significant risks are identified, return {"risks": []}.`;
       userPrompt = `Analyze this document for potential legal risks from the perspective of a party reviewing it. Provide title, severity, explanation, suggestion (optional), and the most relevant text passage where applicable. Use the specified categories and JSON format strictly. If no risks are found, return an empty array. Document Text:
 ---
-${truncatedText}
+${promptText}
 ---`;
       responseFormat = { type: "json_object" };
       break;
@@ -150,11 +226,13 @@ Each object represents a timeline event and **must** have the following keys:
 - "event": A concise description of the event occurring on or by that date.
 - "type": (Optional) A category for the event (e.g., "Commencement", "Deadline", "Milestone", "Termination Condition").
 - "text": The text passage from the original document describing the event/date.
-
+${emailContext ? `
+The document is an email and the "[Email message metadata]" block gives its actual send time. Include the sending of the email as an event on that date, and resolve relative references in the body ("tomorrow", "next Friday", "last week") against it rather than guessing.
+` : ''}
 If no timeline events are found, return {"timeline": []}.`;
       userPrompt = `Extract a chronological timeline of key events, dates, deadlines, and durations from the following document text. Provide date, event, type (optional), and the source text passage for each event. Use the specified categories and JSON format strictly. Document Text:
 ---
-${truncatedText}
+${promptText}
 ---`;
       responseFormat = { type: "json_object" };
       break;
@@ -173,7 +251,34 @@ Each object represents a potentially privileged segment and **must** have the fo
 Focus on flagging, not definitively determining privilege. If no potential terms are found, return {"privilegedTerms": []}.`;
       userPrompt = `Identify potentially privileged or confidential text segments in the following document. Provide the text, suggested category, and a brief explanation for each segment. Use the specified categories and JSON format strictly. Document Text:
 ---
-${truncatedText}
+${promptText}
+---`;
+      responseFormat = { type: "json_object" };
+      break;
+
+    case 'playbook':
+      systemPrompt = `You are an expert contract reviewer checking a contract against a law firm's playbook of standard positions for ${playbook?.contractType || 'this contract type'} contracts ("${playbook?.name ?? ''}").
+
+For EVERY rule in the playbook decide one status:
+- "met": the contract has a clause on the rule's topic that takes the preferred language or one of the acceptable fallback positions, and contains none of the unacceptable terms.
+- "deviates": the contract has a clause on the topic, but it departs from the preferred language and every fallback position, or it contains an unacceptable term.
+- "missing": the contract has no clause addressing the topic.
+
+Respond ONLY with a valid JSON object containing a single key "playbook".
+The value of "playbook" must be an array with one object per rule, each with the following keys:
+- "ruleId": The rule's id exactly as given.
+- "status": "met", "deviates" or "missing".
+- "text": The exact, complete text of the clause the finding is about, copied from the document; null when missing.
+- "matchedPosition": "preferred", "fallback" or "unacceptable" for the position the clause takes; null when it takes none of them or is missing.
+- "explanation": One or two sentences on how the clause compares with the firm's position (for deviations, what differs and why it matters).`;
+      userPrompt = `Playbook rules:
+---
+${playbook ? formatPlaybookRules(playbook) : ''}
+---
+
+Review the following contract against every rule above, adhering strictly to the JSON format specified. Contract Text:
+---
+${promptText}
 ---`;
       responseFormat = { type: "json_object" };
       break;
@@ -186,10 +291,10 @@ ${truncatedText}
 
 Document Text:
 ---
-${truncatedText}
+${promptText}
 ---` : `Please provide a general analysis of the following document:
 ---
-${truncatedText}
+${promptText}
 ---`;
       console.warn(`[analyze-document] Using default/custom prompt for type: ${analysisType}`);
       break;
@@ -197,6 +302,35 @@ ${truncatedText}
   return { systemPrompt, userPrompt, responseFormat };
 }
 
+// --- Helper: Prompts for combining per-chunk summary/custom outputs (reduce step) ---
+function getReducePrompts(analysisType: string, partials: string[], customPrompt?: string): { systemPrompt: string; userPrompt: string; responseFormat?: ResponseFormat } {
+  const joinedPartials = partials.map((partial, i) => `--- Part ${i + 1} of ${partials.length} ---
+${partial}`).join('\n\n');
+
+  if (analysisType === 'summary') {
+    return {
+      systemPrompt: `You are an expert legal assistant. You are given summaries and analyses of consecutive parts of ONE legal document. Combine them into a single concise, factual summary of the whole document and a brief, high-level legal analysis of that summary. Do not repeat points, and do not mention the parts.
+
+Respond ONLY with a valid JSON object containing two keys:
+1. "summary": A string containing the concise, factual summary.
+2. "summaryAnalysis": A string containing the brief, high-level legal analysis of the summary.`,
+      userPrompt: `Combine the following partial results into one summary and analysis for the whole document, adhering strictly to the JSON format specified in the system prompt.
+
+${joinedPartials}`,
+      responseFormat: { type: "json_object" },
+    };
+  }
+
+  return {
+    systemPrompt: 'You are a helpful legal document analysis assistant.',
+    userPrompt: `The request below was answered separately for each consecutive part of one long document. Merge the partial answers into a single, coherent answer for the whole document, removing repetition.
+
+Request: ${customPrompt || 'Please provide a general analysis of the document.'}
+
+${joinedPartials}`,
+  };
+}
+
 console.log('--- analyze-document: Defined helpers ---');
 
 // ---------> ADD IMPROVED UTILITIES <---------
@@ -485,7 +619,7 @@ interface RequestBody {
     analysisType: string; // Consider making this a specific union type 'summary' | 'entities' | ...
     customPrompt?: string;
     documentText: string;
-    userId?: string;
+    playbook?: PlaybookPayload; // Required for the 'playbook' analysis
 }
 
 // Shape for individual analysis items (Entity, Clause, Risk, etc.) before position finding
@@ -501,6 +635,9 @@ interface BaseAnalysisItem {
     event?: string; // Property for timeline
     category?: string; // Property for privileged terms
     analysis?: string; // Property for clauses
+    ruleId?: string; // Properties for playbook findings
+    status?: string;
+    matchedPosition?: string | null;
 }
 
 // Shape for individual analysis items after position finding
@@ -516,13 +653,14 @@ interface Clause extends BaseAnalysisItem { title: string; text: string; analysi
 interface Risk extends BaseAnalysisItem { title: string; severity: string; explanation: string; suggestion?: string; text?: string; }
 interface TimelineEvent extends BaseAnalysisItem { date: string; event: string; type?: string; text: string; }
 interface PrivilegedTerm extends BaseAnalysisItem { text: string; category: string; explanation: string; }
+interface PlaybookFinding extends BaseAnalysisItem { ruleId: string; status: string; explanation: string; }
 
-type AnyAnalysisItem = Entity | Clause | Risk | TimelineEvent | PrivilegedTerm;
+type AnyAnalysisItem = Entity | Clause | Risk | TimelineEvent | PrivilegedTerm | PlaybookFinding;
 
-// Structure of the parsed JSON result from OpenAI
+// Structure of the parsed JSON result from the model
 // It could be an object containing arrays of items, or a specific structure for summary, or an error object
 type ParsedAnalysisResultData = {
-    [key in 'entities' | 'clauses' | 'risks' | 'timeline' | 'privilegedTerms']?: AnyAnalysisItem[];
+    [key in ResultKey]?: AnyAnalysisItem[];
 } | {
     summary?: string;
     summaryAnalysis?: string;
@@ -536,7 +674,7 @@ type ParsedAnalysisResult = ParsedAnalysisResultData | {
 // Structure of the result after adding positions
 // Similar to ParsedAnalysisResult but items have start/end
 type ProcessedAnalysisResultData = {
-    [key in 'entities' | 'clauses' | 'risks' | 'timeline' | 'privilegedTerms']?: ProcessedAnalysisItem[];
+    [key in ResultKey]?: ProcessedAnalysisItem[];
 } | {
     summary?: string;
     summaryAnalysis?: string;
@@ -547,18 +685,162 @@ type ProcessedAnalysisResult = ProcessedAnalysisResultData | {
     rawResponse: string;
 } | string;
 
-// More specific shape for potential OpenAI API errors
-interface OpenAIErrorShape extends Error {
-    response?: {
-        data?: {
-            error?: {
-                message?: string;
-            };
+// ---------> End: Type Definitions <---------
+
+// How many chunk analyses run against the model at the same time
+const CHUNK_CONCURRENCY = 3;
+
+interface TokenUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+}
+
+// Result of analyzing one chunk; `error` is set when the chunk contributes nothing to the merge
+interface ChunkOutcome {
+    chunk: DocumentChunk;
+    result: ProcessedAnalysisResult;
+    parseError: Error | null;
+    usage?: LlmResult['usage'];
+    error?: string;
+}
+
+/** One analysis call through the LLM gateway; JSON analyses ask the provider for JSON mode. */
+function completeAnalysis(systemPrompt: string, userPrompt: string, responseFormat: ResponseFormat | undefined): Promise<LlmResult> {
+    return llm.chat('analyze-document', {
+        temperature: 0.2,
+        messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt }
+        ],
+        json: responseFormat?.type === "json_object",
+    });
+}
+
+/**
+ * Parses the model output for an analysis call, adapting bare arrays to the expected key.
+ */
+function parseAnalysisResult(resultText: string, analysisType: string, responseFormat: ResponseFormat | undefined, requestStartTime: number): { result: ParsedAnalysisResult; parseError: Error | null } {
+    if (responseFormat?.type !== "json_object") {
+        return { result: resultText, parseError: null };
+    }
+    try {
+        let parsedResult: ParsedAnalysisResult = JSON.parse(resultText);
+        // Ensure the top-level key exists if expected (e.g., { entities: [...] })
+        const expectedKey = RESULT_KEYS.find(k => k === analysisType);
+        if (expectedKey && typeof parsedResult === 'object' && parsedResult !== null && !('error' in parsedResult) && !Object.hasOwn(parsedResult, expectedKey)) {
+            console.warn(`[${requestStartTime}] Parsed JSON, but missing expected key '${expectedKey}'. Raw:`, resultText.substring(0, 100));
+            // Attempt to adapt if result is just the array, e.g. [{"text":...}]
+            if (Array.isArray(parsedResult)) {
+                console.log(`[${requestStartTime}] Adapting raw array result to expected key '${expectedKey}'.`);
+                parsedResult = { [expectedKey]: parsedResult };
+            }
+        }
+        return { result: parsedResult, parseError: null };
+    } catch (error) {
+        console.error(`[${requestStartTime}] Failed to parse expected JSON result:`, error);
+        console.error(`[${requestStartTime}] Raw non-JSON result from LLM: ${resultText.substring(0, 500)}...`);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+            result: {
+                error: `AI model did not return valid JSON as requested. Parse Error: ${errorMessage}`,
+                rawResponse: resultText
+            },
+            parseError: error instanceof Error ? error : new Error(String(error)),
         };
-    };
+    }
 }
 
-// ---------> End: Type Definitions <---------
+/**
+ * Adds start/end positions (relative to `sourceText`) to every item of a parsed result.
+ */
+function addItemPositions(parsedResult: ParsedAnalysisResult, sourceText: string, requestStartTime: number): ProcessedAnalysisResult {
+    // Deep copy so the parsed result stays untouched
+    const processedResult: ProcessedAnalysisResult = JSON.parse(JSON.stringify(parsedResult));
+    if (!processedResult || typeof processedResult !== 'object' || 'rawResponse' in processedResult || 'error' in processedResult) {
+        return processedResult;
+    }
+
+    let itemsProcessed = 0;
+    let itemsFound = 0;
+    for (const key of RESULT_KEYS) {
+        if (!Object.hasOwn(processedResult, key)) continue;
+        const items: BaseAnalysisItem[] | undefined = (processedResult as ParsedAnalysisResultData)[key];
+        if (!Array.isArray(items)) {
+            console.warn(`[${requestStartTime}] Expected key '${key}' to be an array, but found:`, typeof items);
+            continue;
+        }
+
+        const verifiedItems: ProcessedAnalysisItem[] = [];
+        for (const item of items) {
+            itemsProcessed++;
+            if (!item) continue;
+            const processedItem: ProcessedAnalysisItem = { ...item, start: null, end: null };
+
+            // Determine the text to search for based on analysis type
+            let textToFind = '';
+            if (typeof item.text === 'string') {
+                textToFind = item.text;
+            } else if (key === 'risks' && typeof item.explanation === 'string') {
+                // For risks without a passage, search for a portion of the explanation
+                textToFind = item.explanation.substring(0, Math.min(150, item.explanation.length));
+            }
+
+            if (textToFind.trim()) {
+                const position = findAccuratePosition(sourceText, textToFind);
+                if (position) {
+                    processedItem.start = position.start;
+                    processedItem.end = position.end;
+                    itemsFound++;
+                } else {
+                    console.warn(`[${requestStartTime}] Keeping item without position - Could not find text for key '${key}': "${textToFind.substring(0, 50)}..."`);
+                }
+            }
+            verifiedItems.push(processedItem);
+        }
+        (processedResult as ProcessedAnalysisResultData)[key] = verifiedItems;
+    }
+    console.log(`[${requestStartTime}] Position finding complete. Items processed: ${itemsProcessed}, Positions found: ${itemsFound}`);
+    return processedResult;
+}
+
+/**
+ * Map step: runs one analysis call over a single chunk and positions its items within the chunk.
+ */
+async function analyzeChunk(
+    analysisType: string,
+    chunk: DocumentChunk,
+    totalChunks: number,
+    customPrompt: string | undefined,
+    emailContext: string | undefined,
+    playbook: PlaybookPayload | undefined,
+    requestStartTime: number
+): Promise<ChunkOutcome> {
+    const { systemPrompt, userPrompt, responseFormat } = getPrompts(analysisType, chunk.text, customPrompt, { index: chunk.index, total: totalChunks }, emailContext, playbook);
+    const llmStartTime = Date.now();
+    try {
+        const completion = await completeAnalysis(systemPrompt, userPrompt, responseFormat);
+        console.log(`[${requestStartTime}] Chunk ${chunk.index + 1}/${totalChunks} analyzed by ${completion.usage.model} (${Date.now() - llmStartTime}ms). Tokens: ${(completion.usage.inputTokens ?? 0) + (completion.usage.outputTokens ?? 0)}`);
+
+        const resultText = completion.text;
+        if (!resultText) {
+            return { chunk, result: '', parseError: null, usage: completion.usage, error: 'Invalid or empty response from AI model' };
+        }
+
+        const { result, parseError } = parseAnalysisResult(resultText, analysisType, responseFormat, requestStartTime);
+        return {
+            chunk,
+            result: addItemPositions(result, chunk.text, requestStartTime),
+            parseError,
+            usage: completion.usage,
+            error: parseError ? parseError.message : undefined,
+        };
+    } catch (error) {
+        console.error(`[${requestStartTime}] AI model error on chunk ${chunk.index + 1}/${totalChunks} (${Date.now() - llmStartTime}ms):`, error);
+        const detail = error instanceof Error ? error.message : 'Unknown API error';
+        return { chunk, result: '', parseError: null, error: `AI model error: ${detail}` };
+    }
+}
 
 
 console.log('--- analyze-document: Defined helpers ---');
@@ -584,8 +866,14 @@ serve(async (req: Request) => {
   }
 
   console.log(`[${requestStartTime}] Handling POST request`);
+  let meter: AiCallMeter | undefined;
   try {
-    // 1. Parse request body
+    // 1. Authenticate the caller and parse the request body
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
+
     let body: RequestBody; // Use defined interface
     try {
       body = await req.json() as RequestBody;
@@ -600,7 +888,7 @@ serve(async (req: Request) => {
     }
 
     // 2. Extract parameters & Validate
-    const { documentId, analysisType = 'summary', customPrompt, documentText, userId } = body;
+    const { documentId, analysisType = 'summary', customPrompt, documentText, playbook } = body;
     const originalText = documentText; // Keep the full original text
 
     if (!documentText || typeof documentText !== 'string' || documentText.trim().length === 0) {
@@ -618,220 +906,144 @@ serve(async (req: Request) => {
       });
     }
 
-    // 3. Initialize clients
-    console.log(`[${requestStartTime}] Initializing clients...`);
-    const supabaseAdmin = createSupabaseAdminClient();
-    const openai = createOpenAIClient();
-    console.log(`[${requestStartTime}] Clients initialized successfully.`);
-
-    // --- Trial and Subscription Check ---
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ success: false, error: 'User profile not found' }), {
-        status: 403,
+    if (analysisType === 'playbook' && (!isPlaybookPayload(playbook) || playbook.rules.length > MAX_PLAYBOOK_RULES)) {
+      console.error(`[${requestStartTime}] Invalid or missing playbook for playbook analysis`);
+      return new Response(JSON.stringify({ success: false, error: `A playbook with between 1 and ${MAX_PLAYBOOK_RULES} rules is required for a playbook review` }), {
+        status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ success: false, error: 'Trial expired' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ success: false, error: 'Trial call limit reached' }), {
+    // Analyses are saved against the document, so the caller's role must allow AI use on it
+    let emailMetadata: EmailMetadata | null = null;
+    let caseId: string | null = null;
+    if (documentId) {
+      const { data: document, error: documentError } = await supabaseAdmin
+        .from('documents')
+        .select('owner_id, case_id, email_metadata')
+        .eq('id', documentId)
+        .maybeSingle();
+      if (documentError) throw new Error(`Failed to load document: ${documentError.message}`);
+      if (!document || !await canAccessDocument(supabaseAdmin, document, userId, 'use_ai')) {
+        return new Response(JSON.stringify({ success: false, error: 'Document not found or access denied' }), {
           status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ success: false, error: 'Subscription inactive' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+      emailMetadata = document.email_metadata as EmailMetadata | null;
+      caseId = document.case_id;
     }
 
-    // 4. Get Prompts
-    const { systemPrompt, userPrompt, responseFormat } = getPrompts(analysisType, documentText, customPrompt);
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'analyze-document', feature: `analysis:${analysisType}`, caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
-    if (!systemPrompt || !userPrompt) {
-      console.error(`[${requestStartTime}] Failed to generate prompts for type: ${analysisType}`);
-      return new Response(JSON.stringify({ success: false, error: `Invalid analysis type: ${analysisType}` }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+    // Email documents carry structured headers; entity and timeline extraction use them
+    let emailContext: string | undefined;
+    if (emailMetadata && (analysisType === 'entities' || analysisType === 'timeline')) {
+      emailContext = formatEmailContext(emailMetadata);
     }
 
-    // 5. Perform analysis with OpenAI
-    const model = "gpt-4o"; // Or consider gpt-4-turbo for balance
-    console.log(`[${requestStartTime}] Performing ${analysisType} analysis using ${model}...`);
-    const openaiStartTime = Date.now();
-    let completion;
-    try {
-      completion = await openai.chat.completions.create({
-        model: model,
-        temperature: 0.2,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        ...(responseFormat && { response_format: responseFormat }) // Apply response format if specified
-      });
-      const openaiEndTime = Date.now();
-      console.log(`[${requestStartTime}] OpenAI API call successful (${openaiEndTime - openaiStartTime}ms). Tokens: ${completion.usage?.total_tokens}`);
-    } catch (error) {
-      const openaiEndTime = Date.now();
-      console.error(`[${requestStartTime}] OpenAI API error (${openaiEndTime - openaiStartTime}ms):`, error);
-      // Try to extract a more specific error message if available
-      // Use type assertion for better type safety
-      const typedError = error as OpenAIErrorShape;
-      const detail = typedError.response?.data?.error?.message || typedError.message || 'Unknown API error';
-      return new Response(JSON.stringify({ success: false, error: `OpenAI API Error: ${detail}` }), {
-        status: 502, // Bad Gateway for upstream errors
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+    // 4. Split the document into chunks (a single chunk for short documents)
+    const allChunks = chunkDocumentText(originalText);
+    const chunksToAnalyze = allChunks.slice(0, MAX_CHUNKS);
+    if (allChunks.length > MAX_CHUNKS) {
+      console.warn(`[${requestStartTime}] Document split into ${allChunks.length} chunks; only the first ${MAX_CHUNKS} will be analyzed.`);
     }
-
-    if (!completion?.choices?.[0]?.message?.content) {
-      console.error(`[${requestStartTime}] Invalid or empty completion response from OpenAI:`, completion);
-      return new Response(JSON.stringify({ success: false, error: 'Invalid or empty response from AI model' }), {
-        status: 502,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+    console.log(`[${requestStartTime}] Document length ${originalText.length} split into ${allChunks.length} chunk(s).`);
+
+    // 5. Map: run the analysis on every chunk (limited concurrency)
+    console.log(`[${requestStartTime}] Performing ${analysisType} analysis...`);
+    const chunkOutcomes: ChunkOutcome[] = new Array(chunksToAnalyze.length);
+    let nextChunk = 0;
+    const worker = async () => {
+      while (nextChunk < chunksToAnalyze.length) {
+        const chunk = chunksToAnalyze[nextChunk++];
+        chunkOutcomes[chunk.index] = await analyzeChunk(analysisType, chunk, allChunks.length, customPrompt, emailContext, playbook, requestStartTime);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunksToAnalyze.length) }, worker));
+
+    // The gateway may fall back to another model part-way through; the last one that answered is recorded
+    let model: string | null = null;
+    const usage: Required<TokenUsage> = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    const addUsage = (u?: LlmResult['usage']) => {
+      if (!u) return;
+      model = u.model;
+      usage.prompt_tokens += u.inputTokens ?? 0;
+      usage.completion_tokens += u.outputTokens ?? 0;
+      usage.total_tokens += (u.inputTokens ?? 0) + (u.outputTokens ?? 0);
+    };
+    chunkOutcomes.forEach(outcome => addUsage(outcome.usage));
+
+    const coverage = buildCoverage(originalText.length, allChunks.map((chunk): ChunkCoverage => {
+      const outcome = chunkOutcomes[chunk.index];
+      if (!outcome) return { index: chunk.index, start: chunk.start, end: chunk.end, status: 'skipped' };
+      return outcome.error
+        ? { index: chunk.index, start: chunk.start, end: chunk.end, status: 'failed', error: outcome.error }
+        : { index: chunk.index, start: chunk.start, end: chunk.end, status: 'analyzed' };
+    }));
+
+    const succeeded = chunkOutcomes.filter(outcome => !outcome.error);
+    if (succeeded.length === 0) {
+      const firstOutcome = chunkOutcomes[0];
+      // A single-chunk parse failure is reported the way it always was: as an error result with the raw response
+      if (chunkOutcomes.length === 1 && firstOutcome.parseError) {
+        succeeded.push(firstOutcome);
+      } else {
+        console.error(`[${requestStartTime}] All ${chunkOutcomes.length} chunk(s) failed. First error: ${firstOutcome?.error}`);
+        await aiCall.fail(firstOutcome?.error || 'Analysis failed for every part of the document', { model, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+        return new Response(JSON.stringify({ success: false, error: firstOutcome?.error || 'Analysis failed for every part of the document', coverage }), {
+          status: 502, // Bad Gateway for upstream errors
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
     }
 
-    const resultText = completion.choices[0].message.content;
-    console.log(`[${requestStartTime}] Analysis complete. Raw result length: ${resultText.length} chars.`);
+    // 6. Reduce: merge chunk results into one document-level result
+    let processedResult: ProcessedAnalysisResult;
+    let parseError: Error | null = succeeded.find(outcome => outcome.parseError)?.parseError ?? null;
+
+    const isItemAnalysis = RESULT_KEYS.includes(analysisType as ResultKey);
 
-    // 6. Parse result (if JSON was requested)
-    let parsedResult: ParsedAnalysisResult = resultText; // Use defined type
-    let parseError: Error | null = null;
-    if (responseFormat?.type === "json_object") {
+    if (succeeded.length === 1 && (!isItemAnalysis || succeeded[0].parseError)) {
+      processedResult = succeeded[0].result;
+    } else if (!isItemAnalysis) {
+      // Summary and custom outputs are prose, so combine them with one more model call
+      const partials = succeeded.map(outcome => typeof outcome.result === 'string' ? outcome.result : JSON.stringify(outcome.result));
+      const { systemPrompt, userPrompt, responseFormat } = getReducePrompts(analysisType, partials, customPrompt);
       try {
-        parsedResult = JSON.parse(resultText);
-        // Ensure the top-level key exists if expected (e.g., { entities: [...] })
-        const expectedKey = ['entities', 'clauses', 'risks', 'timeline', 'privilegedTerms'].find(k => k === analysisType);
-        // Check if parsedResult is an object before using Object.hasOwn
-        if (expectedKey && typeof parsedResult === 'object' && parsedResult !== null && !('error' in parsedResult) && !Object.hasOwn(parsedResult, expectedKey)) {
-          console.warn(`[${requestStartTime}] Parsed JSON, but missing expected key '${expectedKey}'. Raw:`, resultText.substring(0, 100));
-          // Attempt to adapt if result is just the array, e.g. [{"text":...}]
-          if (Array.isArray(parsedResult)) {
-            console.log(`[${requestStartTime}] Adapting raw array result to expected key '${expectedKey}'.`);
-            parsedResult = { [expectedKey]: parsedResult };
-          } else {
-             // Or handle other potential malformations
-          }
-        }
-        console.log(`[${requestStartTime}] JSON result parsed successfully.`);
+        const completion = await completeAnalysis(systemPrompt, userPrompt, responseFormat);
+        addUsage(completion.usage);
+        const parsed = parseAnalysisResult(completion.text, analysisType, responseFormat, requestStartTime);
+        processedResult = parsed.result;
+        parseError = parsed.parseError;
       } catch (error) {
-        console.error(`[${requestStartTime}] Failed to parse expected JSON result:`, error);
-        console.error(`[${requestStartTime}] Raw non-JSON result from LLM: ${resultText.substring(0, 500)}...`);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        parsedResult = {
-          error: `AI model did not return valid JSON as requested. Parse Error: ${errorMessage}`,
-          rawResponse: resultText
-        };
-        parseError = error instanceof Error ? error : new Error(String(error)); // Assign error object
+        const detail = error instanceof Error ? error.message : 'Unknown API error';
+        console.error(`[${requestStartTime}] AI model error while combining chunk results:`, detail);
+        await aiCall.fail(error, { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+        return new Response(JSON.stringify({ success: false, error: `AI model error: ${detail}`, coverage }), {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
       }
+    } else {
+      const key = analysisType as ResultKey;
+      const itemsPerChunk = succeeded.map(outcome => {
+        const items = typeof outcome.result === 'object' && outcome.result !== null && !('error' in outcome.result)
+          ? (outcome.result as ProcessedAnalysisResultData)[key]
+          : undefined;
+        return (Array.isArray(items) ? items : []).map(item => reanchorItem(item as PositionedItem, outcome.chunk));
+      });
+      // Playbook findings are one per rule, so they are merged by rule rather than de-duplicated
+      const merged = key === 'playbook' && playbook
+        ? mergePlaybookFindings(playbook.rules.map(rule => rule.id), itemsPerChunk)
+        : mergeChunkItems(key, itemsPerChunk);
+      console.log(`[${requestStartTime}] Merged ${itemsPerChunk.reduce((n, items) => n + items.length, 0)} ${key} items from ${succeeded.length} chunks into ${merged.length}.`);
+      processedResult = { [key]: merged } as ProcessedAnalysisResultData;
     }
 
-    // ---> 7. Process Results for Accurate Positions <--- 
-    // Initialize processedResult. Start with parsedResult and modify in place if it's an object.
-    const processedResult: ProcessedAnalysisResult = JSON.parse(JSON.stringify(parsedResult)); 
-
-    // Check if it's an object and not the error shape before processing
-    if (processedResult && typeof processedResult === 'object' && !('rawResponse' in processedResult) && !('error' in processedResult) && !parseError && typeof processedResult !== 'string') {
-        console.log(`[${requestStartTime}] Finding accurate positions for ${analysisType}...`);
-        const resultKeys: Array<'entities' | 'clauses' | 'risks' | 'timeline' | 'privilegedTerms'> = ['entities', 'clauses', 'risks', 'timeline', 'privilegedTerms'];
-        let itemsProcessed = 0;
-        let itemsFound = 0;
-
-        // Progressive processing with exponential backoff for large documents
-        for (const key of resultKeys) {
-            // Use Object.hasOwn for safer property checking
-            // Also ensure processedResult is not a string or null before checking keys
-            if (typeof processedResult === 'object' && processedResult !== null && Object.hasOwn(processedResult, key)) {
-                 // Type assertion to access the specific key safely after check
-                 // We expect BaseAnalysisItem[] initially from parsedResult
-                const items: BaseAnalysisItem[] | undefined = (processedResult as ParsedAnalysisResultData)[key]; 
-
-                if(Array.isArray(items)) {
-                    // Now items is confirmed to be an array of BaseAnalysisItem
-                    const verifiedItems: ProcessedAnalysisItem[] = []; // Target type is ProcessedAnalysisItem[]
-                    console.log(`[${requestStartTime}] Processing ${items.length} items for key: ${key}`);
-                    
-                    for (const item of items) { // No type assertion needed here, item is BaseAnalysisItem
-                        itemsProcessed++;
-                        if (!item) continue;
-                        
-                        // Create a new object that adheres to ProcessedAnalysisItem structure
-                        const processedItem: ProcessedAnalysisItem = { 
-                            ...item, // Spread properties from BaseAnalysisItem
-                            start: null, // Initialize position properties
-                            end: null 
-                        };
-
-                        // Determine the text to search for based on analysis type
-                        let textToFind = '';
-                        if (typeof item.text === 'string') {
-                            textToFind = item.text;
-                        } else if (key === 'risks' && typeof item.explanation === 'string') { // Special handling for risks
-                            // For risks, maybe search for a portion of the explanation if text is missing?
-                            textToFind = item.explanation.substring(0, Math.min(150, item.explanation.length));
-                            console.log(`[${requestStartTime}] Risk item missing text, using explanation snippet: "${textToFind.substring(0,30)}..."`);
-                        }
-                        // Add other special cases if needed for timeline, etc.
-                        
-                        // Find position if we have text to find
-                        if (!textToFind || typeof textToFind !== 'string' || !textToFind.trim()) {
-                            console.warn(`[${requestStartTime}] Keeping item without position - No searchable text found or invalid text for key '${key}':`, item);
-                            // start/end are already null in processedItem
-                        } else {
-                            // Find position with improved utility
-                            const position = findAccuratePosition(originalText, textToFind);
-                            
-                            if (position) {
-                                // Update position on the new object
-                                processedItem.start = position.start;
-                                processedItem.end = position.end;
-                                itemsFound++;
-                            } else {
-                                // No position found - start/end remain null
-                                console.warn(`[${requestStartTime}] Keeping item without position - Could not find text for key '${key}': "${textToFind.substring(0, 50)}..."`);
-                            }
-                        } 
-                        // Push the processedItem (which now has start/end null by default)
-                        verifiedItems.push(processedItem); 
-                    }
-                    
-                    // Update results with positions
-                    // Assign the array of ProcessedAnalysisItem back to the correct key in processedResult
-                    (processedResult as ProcessedAnalysisResultData)[key] = verifiedItems; 
-                } else {
-                     console.warn(`[${requestStartTime}] Expected key '${key}' to be an array, but found:`, typeof items);
-                }
-            }
-        }
-        
-        // No need to reassign parsedResult to processedResult here, 
-        // processedResult was modified in place if it was an object.
-        // If parsedResult was a string initially, processedResult remains that string.
-        console.log(`[${requestStartTime}] Position finding complete. Items processed: ${itemsProcessed}, Positions found: ${itemsFound}`);
-    }
-    // ---> End Position Processing <--- 
-
-    // 8. Store in DB (if documentId provided)
+    // 7. Store in DB (if documentId provided)
     let analysisRecordId = null;
     // Ensure processedResult is suitable for storing (handle string case if necessary)
     const resultToStore = typeof processedResult === 'string' ? { custom_analysis: processedResult } : processedResult;
@@ -840,14 +1052,14 @@ serve(async (req: Request) => {
       try {
         const analysisToStore = {
           document_id: documentId,
-          user_id: userId || null,
+          user_id: userId,
           analysis_type: analysisType,
           result: resultToStore, // Store the potentially adapted result
           custom_prompt: customPrompt || null,
           model_used: model,
-          prompt_tokens: completion.usage?.prompt_tokens,
-          completion_tokens: completion.usage?.completion_tokens,
-          total_tokens: completion.usage?.total_tokens,
+          prompt_tokens: usage.prompt_tokens,
+          completion_tokens: usage.completion_tokens,
+          total_tokens: usage.total_tokens,
           parse_error: parseError ? parseError.message : null,
         };
 
@@ -877,21 +1089,17 @@ serve(async (req: Request) => {
       console.log(`[${requestStartTime}] No documentId provided, skipping DB storage.`);
     }
 
-    // 9. Return success response
+    // 8. Return success response
     const requestEndTime = Date.now();
     console.log(`[${requestStartTime}] Returning success response (${requestEndTime - requestStartTime}ms total).`);
 
-    if (profile.subscription_status === 'trialing') {
-      await supabaseAdmin
-        .from('profiles')
-        .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-        .eq('id', userId);
-    }
+    await aiCall.succeed({ model, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
 
     return new Response(JSON.stringify({
       success: true,
       analysisId: analysisRecordId,
-      result: processedResult // Return the result with accurate positions
+      result: processedResult, // Return the result with accurate positions
+      coverage
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }, 
       status: 200 
@@ -901,6 +1109,7 @@ serve(async (req: Request) => {
     // Catch-all for unexpected errors (e.g., client init, param validation)
     const requestEndTime = Date.now();
     console.error(`[${requestStartTime}] Unhandled error in handler (${requestEndTime - requestStartTime}ms):`, error);
+    await meter?.fail(error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
     return new Response(JSON.stringify({ success: false, error: errorMessage }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,110 @@
+// supabase/functions/case-research-rag/index.ts
+// Answers a /research query from the active case's own documents: retrieves the best
+// matching passages from document_chunks, streams an answer that cites them inline as
+// [filename, offset], and sends the cited passages up front as an `event: snippets` SSE event.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings.ts';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway } from '../_shared/llm.ts';
+import { loadDocumentsInScope } from '../_shared/documentChunks.ts';
+import { citePassages, formatPassages, researchEventStream, type ChunkMatchRow } from './research.ts';
+
+const PASSAGE_COUNT = 8;
+// Lower than semantic-search-documents: better to hand the model a weak passage than none
+const PASSAGE_THRESHOLD = 0.3;
+
+interface ResearchRequestBody {
+  query: string;
+  caseId: string;
+}
+
+console.log('Function case-research-rag initializing...');
+
+const llm = createLlmGateway();
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let meter: AiCallMeter | undefined;
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    const { user } = auth;
+
+    const { query, caseId } = await req.json() as ResearchRequestBody;
+    if (!query || typeof query !== 'string' || !query.trim() || !caseId) {
+      return new Response(JSON.stringify({ success: false, error: 'Missing required parameters: query and caseId' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!await canAccessCase(supabaseAdmin, caseId, user.id, 'use_ai')) {
+      return new Response(JSON.stringify({ success: false, error: 'Case not found or access denied' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    const { data: caseRow, error: caseError } = await supabaseAdmin
+      .from('cases')
+      .select('id, name')
+      .eq('id', caseId)
+      .single();
+    if (caseError) throw new Error(`Failed to load case: ${caseError.message}`);
+
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'case-research-rag', caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
+
+    // 1. Retrieve the best passages from this case's documents
+    const provider = createEmbeddingProvider();
+    const [queryEmbedding] = await provider.embed([query.trim()]);
+    const { data: rows, error: matchError } = await supabaseAdmin.rpc('match_document_chunks', {
+      query_embedding: queryEmbedding,
+      match_threshold: PASSAGE_THRESHOLD,
+      match_count: PASSAGE_COUNT,
+      filter_case_ids: [caseId],
+      filter_owner_id: null,
+      filter_embedding_model: provider.model,
+    });
+    if (matchError) throw new Error(`Passage retrieval failed: ${matchError.message}`);
+
+    const matches = (rows || []) as ChunkMatchRow[];
+    // A chunk's case_id is a copy that lags a move; only passages from documents still in the case count
+    const documents = await loadDocumentsInScope(supabaseAdmin, matches.map(row => row.document_id), { caseIds: [caseId], ownerId: null });
+    const { passages, sources } = citePassages(matches, documents);
+
+    // 2. Build the prompt
+    const passagesBlock = formatPassages(passages, sources);
+
+    const systemPrompt = `You are a legal research assistant answering questions about the documents in the case "${caseRow.name}". Answer ONLY from the passages provided. After every statement that relies on a passage, cite it inline using exactly the label shown in that passage's header, e.g. [Lease Agreement.pdf, 10240]. Never invent a citation. If the passages do not answer the question, say so plainly. Use HTML <strong> tags for bold text instead of markdown asterisks.`;
+    const userPrompt = `${passagesBlock}\n\nQuestion: ${query.trim()}`;
+
+    const stream = researchEventStream(sources, () => llm.stream('case-research-rag', {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.2
+    }), aiCall);
+
+    return new Response(stream, {
+      headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+      status: 200
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown research error';
+    console.error('[case-research-rag] Error:', message);
+    await meter?.fail(error);
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
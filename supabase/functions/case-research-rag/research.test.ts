@@ -0,0 +1,116 @@
+import { describe, expect, test, vi } from 'vitest';
+import type { LlmStream, LlmStreamEvent } from '../_shared/llm';
+import type { AiCallMeter } from '../_shared/usage';
+import { documentReviewUrl } from '../_shared/documentLinks';
+import { citePassages, formatPassages, NO_PASSAGES_ANSWER, researchEventStream, type ChunkMatchRow } from './research';
+
+const match = (documentId: string, start: number, content: string, similarity = 0.8): ChunkMatchRow => ({
+  document_id: documentId, chunk_index: 0, start_offset: start, end_offset: start + content.length, content, similarity,
+});
+
+const matches = [
+  match('lease', 10240, 'The tenant shall pay rent on the first day of each month.', 0.91),
+  match('removed', 0, 'A passage from a document that left the case.', 0.88),
+  match('lease', 20480, `Termination. ${'Either party may terminate on notice. '.repeat(20)}`, 0.74),
+];
+const documents = new Map([['lease', { filename: 'Lease Agreement.pdf' }]]);
+
+const meter = () => ({ succeed: vi.fn(async () => {}), fail: vi.fn(async () => {}) }) satisfies AiCallMeter;
+
+const llmStream = (events: LlmStreamEvent[]): LlmStream => ({
+  provider: 'mock',
+  model: 'mock-model',
+  events: (async function* () { yield* events; })(),
+});
+
+// The stream's SSE events, each as its event name (if any) and data
+const readEvents = async (stream: ReadableStream<Uint8Array>) => {
+  const body = await new Response(stream).text();
+  return body.split('\n\n').filter(Boolean).map(block => {
+    const event = block.match(/^event: (.*)$/m)?.[1] ?? null;
+    const data = block.match(/^data: (.*)$/m)![1];
+    return { event, data: data === '[DONE]' ? data : JSON.parse(data) };
+  });
+};
+
+describe('passage selection', () => {
+  test('cites matches from documents still in the case, in match order', () => {
+    const { passages, sources } = citePassages(matches, documents);
+    expect(passages).toEqual([matches[0], matches[2]]);
+    expect(sources[0]).toEqual({
+      type: 'document',
+      documentId: 'lease',
+      filename: 'Lease Agreement.pdf',
+      start: 10240,
+      end: 10240 + matches[0].content.length,
+      snippet: matches[0].content,
+      similarity: 0.91,
+      title: 'Lease Agreement.pdf, 10240',
+      url: `/app/review/document/lease?passageStart=10240&passageEnd=${10240 + matches[0].content.length}`,
+    });
+  });
+
+  test('shortens long passages to a snippet', () => {
+    const { sources } = citePassages(matches, documents);
+    expect(sources[1].snippet).toBe(matches[2].content.substring(0, 300));
+    expect(sources[1].snippet).toHaveLength(300);
+  });
+
+  test('labels each prompt passage with the citation the model must use', () => {
+    const { passages, sources } = citePassages(matches, documents);
+    expect(formatPassages(passages, sources)).toBe(
+      `--- PASSAGE 1 [Lease Agreement.pdf, 10240] ---\n${matches[0].content}\n\n--- PASSAGE 2 [Lease Agreement.pdf, 20480] ---\n${matches[2].content}`,
+    );
+  });
+
+  test('links to the reviewer, with or without a passage', () => {
+    expect(documentReviewUrl('doc-1')).toBe('/app/review/document/doc-1');
+    expect(documentReviewUrl('doc-1', { start: 5, end: 42 })).toBe('/app/review/document/doc-1?passageStart=5&passageEnd=42');
+  });
+});
+
+describe('research event stream', () => {
+  test('sends the snippets, then the answer, then [DONE]', async () => {
+    const { sources } = citePassages(matches, documents);
+    const aiCall = meter();
+    const usage = { model: 'mock-model', inputTokens: 900, outputTokens: 40 };
+    const stream = researchEventStream(sources, async () => llmStream([
+      { type: 'text', text: 'Rent is due on the first ' },
+      { type: 'text', text: '[Lease Agreement.pdf, 10240].' },
+      { type: 'done', usage },
+    ]), aiCall);
+
+    expect(await readEvents(stream)).toEqual([
+      { event: 'snippets', data: sources },
+      { event: null, data: 'Rent is due on the first ' },
+      { event: null, data: '[Lease Agreement.pdf, 10240].' },
+      { event: null, data: '[DONE]' },
+    ]);
+    expect(aiCall.succeed).toHaveBeenCalledWith(usage);
+    expect(aiCall.fail).not.toHaveBeenCalled();
+  });
+
+  test('answers without the model when nothing matched, and gives the call back', async () => {
+    const aiCall = meter();
+    const answer = vi.fn();
+    expect(await readEvents(researchEventStream([], answer, aiCall))).toEqual([
+      { event: 'snippets', data: [] },
+      { event: null, data: NO_PASSAGES_ANSWER },
+      { event: null, data: '[DONE]' },
+    ]);
+    expect(answer).not.toHaveBeenCalled();
+    expect(aiCall.fail).toHaveBeenCalledOnce();
+  });
+
+  test('records a failed answer and errors the stream after the snippets', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { sources } = citePassages(matches, documents);
+    const aiCall = meter();
+    const failure = new Error('provider down');
+    const reader = researchEventStream(sources, async () => { throw failure; }, aiCall).getReader();
+
+    expect(new TextDecoder().decode((await reader.read()).value)).toMatch(/^event: snippets\n/);
+    await expect(reader.read()).rejects.toBe(failure);
+    expect(aiCall.fail).toHaveBeenCalledWith(failure, undefined);
+  });
+});
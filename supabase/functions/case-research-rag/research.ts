@@ -0,0 +1,113 @@
+// supabase/functions/case-research-rag/research.ts
+// The parts of case-research-rag that don't touch the database: turning matched chunks into
+// cited sources and prompt passages, and the SSE stream the client reads the answer from.
+import { documentReviewUrl } from '../_shared/documentLinks.ts';
+import type { LlmStream } from '../_shared/llm.ts';
+import type { AiCallMeter } from '../_shared/usage.ts';
+
+const SNIPPET_LENGTH = 300;
+
+export const NO_PASSAGES_ANSWER = "I couldn't find any passages in this case's documents that address that question. Make sure the relevant documents have finished processing.";
+
+// Row shape returned by the match_document_chunks RPC
+export interface ChunkMatchRow {
+  document_id: string;
+  chunk_index: number;
+  start_offset: number;
+  end_offset: number;
+  content: string;
+  similarity: number;
+}
+
+// Mirrors DocumentCitationSource in src/types/sources.ts
+export interface DocumentCitationSource {
+  type: 'document';
+  documentId: string;
+  filename: string;
+  start: number;
+  end: number;
+  snippet: string;
+  similarity: number;
+  title: string;
+  url: string;
+}
+
+/**
+ * The passages to answer from, in match order, with the source each is cited as. Matches from
+ * documents missing from `documents` (deleted, or no longer in the case) are dropped.
+ */
+export function citePassages(
+  matches: ChunkMatchRow[],
+  documents: Map<string, { filename: string }>,
+): { passages: ChunkMatchRow[]; sources: DocumentCitationSource[] } {
+  const passages = matches.filter(row => documents.has(row.document_id));
+  const sources = passages.map((row): DocumentCitationSource => {
+    const { filename } = documents.get(row.document_id)!;
+    return {
+      type: 'document',
+      documentId: row.document_id,
+      filename,
+      start: row.start_offset,
+      end: row.end_offset,
+      snippet: row.content.substring(0, SNIPPET_LENGTH),
+      similarity: row.similarity,
+      title: `${filename}, ${row.start_offset}`,
+      url: documentReviewUrl(row.document_id, { start: row.start_offset, end: row.end_offset }),
+    };
+  });
+  return { passages, sources };
+}
+
+// Every passage is labelled with the exact citation the model must use
+export function formatPassages(passages: ChunkMatchRow[], sources: DocumentCitationSource[]): string {
+  return passages
+    .map((row, i) => `--- PASSAGE ${i + 1} [${sources[i].title}] ---\n${row.content}`)
+    .join('\n\n');
+}
+
+const sseData = (text: string) => `data: ${JSON.stringify(text)}\n\n`;
+
+/**
+ * The response body: an `event: snippets` with the sources first, so the client can link
+ * citations while the answer streams in, then the answer as data events, then `data: [DONE]`.
+ * `answer` is only asked when there are sources; otherwise the call is given back to the quota.
+ */
+export function researchEventStream(
+  sources: DocumentCitationSource[],
+  answer: () => Promise<LlmStream>,
+  aiCall: AiCallMeter,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      let llmStream: LlmStream | undefined;
+      try {
+        controller.enqueue(encoder.encode(`event: snippets\ndata: ${JSON.stringify(sources)}\n\n`));
+
+        if (sources.length === 0) {
+          await aiCall.fail('No passages matched the question'); // Gives the call back; the model wasn't asked
+          controller.enqueue(encoder.encode(sseData(NO_PASSAGES_ANSWER)));
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+          return;
+        }
+
+        llmStream = await answer();
+        for await (const event of llmStream.events) {
+          if (event.type === 'text' && event.text) {
+            controller.enqueue(encoder.encode(sseData(event.text)));
+          } else if (event.type === 'done') {
+            await aiCall.succeed(event.usage);
+          }
+        }
+
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch (streamError) {
+        console.error('[case-research-rag] Stream error:', streamError);
+        await aiCall.fail(streamError, llmStream && { model: llmStream.model }); // Before the stream opens, the LlmError names the model
+        controller.error(streamError);
+      }
+    },
+  });
+}
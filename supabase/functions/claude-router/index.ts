@@ -1,10 +1,13 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { extractCitations } from '../_shared/citations.ts';
+import { createCitationResolver, verifyCitations, type VerifiedCitation } from '../_shared/citationResolvers.ts';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter, type AiCallUsage } from '../_shared/usage.ts';
 import { createClient } from 'npm:@supabase/supabase-js@^2.0.0';
-import type { SupabaseClient } from 'npm:@supabase/supabase-js@^2.0.0';
 import { v4 as uuidv4 } from "npm:uuid";
-import Anthropic from 'npm:@anthropic-ai/sdk@0.19.0';
-import type { MessageParam } from 'npm:@anthropic-ai/sdk';
+import { createLlmGateway, type LlmMessage, type LlmStream } from '../_shared/llm.ts';
 
 // --- Database Interaction Types ---
 interface DbConversation {
@@ -63,275 +66,8 @@ function estimateTokens(text: string | null | undefined): number {
   return Math.ceil((text || '').length / 3.5);
 }
 
-// Enhanced legal citation detection function
-function extractLegalCitations(text) {
-  const citations = [];
-  let match;
-  
-  // US case law citations (federal and state formats)
-  const caseRegexPatterns = [
-    // Standard case format: Brown v. Board of Education, 347 U.S. 483 (1954)
-    /([A-Za-z\s\.']+)\s+v\.\s+([A-Za-z\s\.']+),?\s+(\d+)\s+([A-Za-z\.]+)\s+(\d+)(?:\s+\((\d{4})\))?/g,
-    
-    // Short form case citation: Roe, 410 U.S. at 113
-    /([A-Za-z\s\.']+),\s+(\d+)\s+([A-Za-z\.]+)\s+at\s+(\d+)/g,
-    
-    // State reporter citation: Smith v. Jones, 123 N.Y.2d 456 (2010)
-    /([A-Za-z\s\.']+)\s+v\.\s+([A-Za-z\s\.']+),?\s+(\d+)\s+([A-Za-z\.]+\d*[a-z]*)\s+(\d+)(?:\s+\((\d{4})\))?/g,
-    
-    // UK/Commonwealth case format: R v Smith [2020] UKSC 1
-    /([A-Za-z\s\.']+)\s+v\s+([A-Za-z\s\.']+)\s+\[(\d{4})\]\s+([A-Za-z]+)\s+(\d+)/g,
-  ];
-  
-  // US Statutes and codes
-  const statuteRegexPatterns = [
-    // US Code: 18 U.S.C. § 1030
-    /(\d+)\s+([A-Za-z\.]+)\s+[§\s]+(\d+[A-Za-z0-9\-\.]*)/g,
-    
-    // CFR: 17 C.F.R. § 240.10b-5
-    /(\d+)\s+C\.F\.R\.\s+[§\s]+(\d+\.\d+[A-Za-z0-9\-\.]*)/g,
-    
-    // Public Law: Pub. L. No. 116-283, 134 Stat. 3388 (2021)
-    /Pub\.\s+L\.\s+No\.\s+(\d+)-(\d+),\s+(\d+)\s+Stat\.\s+(\d+)(?:\s+\((\d{4})\))?/g,
-    
-    // State codes: Cal. Penal Code § 422
-    /([A-Za-z\.]+)\s+([A-Za-z\.]+)\s+Code\s+[§\s]+(\d+[A-Za-z0-9\-\.]*)/g,
-  ];
-  
-  // Regulations and administrative materials
-  const regulationRegexPatterns = [
-    // Federal Register: 87 Fed. Reg. 12345 (Mar. 1, 2022)
-    /(\d+)\s+Fed\.\s+Reg\.\s+(\d+)(?:\s+\(([A-Za-z\.]+\s+\d+,\s+\d{4})\))?/g,
-    
-    // Administrative decisions: In re Smith, 123 B.N.A. 456 (NLRB 2010)
-    /In\s+re\s+([A-Za-z\s\.']+),\s+(\d+)\s+([A-Za-z\.]+)\s+(\d+)(?:\s+\(([A-Za-z]+)\s+(\d{4})\))?/g,
-  ];
-  
-  // Process each regex pattern group
-  const processRegexPatterns = (patterns, type, processFn) => {
-    patterns.forEach(regex => {
-      let match;
-      while ((match = regex.exec(text)) !== null) {
-        const citation = processFn(match);
-        if (citation) {
-          citations.push({...citation, type, full: match[0]});
-        }
-      }
-    });
-  };
-  
-  // Process case citations
-  processRegexPatterns(caseRegexPatterns, 'case', (match) => {
-    // Different processing depending on the pattern matched
-    if (match[0].includes(' v. ')) {
-      return {
-        plaintiff: match[1]?.trim(),
-        defendant: match[2]?.trim(),
-        volume: match[3],
-        reporter: match[4],
-        page: match[5],
-        year: match[6] || null
-      };
-    } else if (match[0].includes(' v ') && match[0].includes('[')) { // UK format
-      return {
-        plaintiff: match[1]?.trim(),
-        defendant: match[2]?.trim(),
-        year: match[3],
-        court: match[4],
-        number: match[5]
-      };
-    } else { // Short form
-      return {
-        case: match[1]?.trim(),
-        volume: match[2],
-        reporter: match[3],
-        page: match[4]
-      };
-    }
-  });
-  
-  // Process statute citations
-  processRegexPatterns(statuteRegexPatterns, 'statute', (match) => {
-    if (match[0].includes('U.S.C.')) { // US Code
-      return {
-        title: match[1],
-        code: match[2],
-        section: match[3]
-      };
-    } else if (match[0].includes('C.F.R.')) { // CFR
-      return {
-        title: match[1],
-        section: match[2]
-      };
-    } else if (match[0].includes('Pub. L.')) { // Public Law
-      return {
-        congress: match[1],
-        law: match[2],
-        statVol: match[3],
-        statPage: match[4],
-        year: match[5] || null
-      };
-    } else { // State codes
-      return {
-        state: match[1],
-        codeType: match[2],
-        section: match[3]
-      };
-    }
-  });
-  
-  // Process regulation citations
-  processRegexPatterns(regulationRegexPatterns, 'regulation', (match) => {
-    if (match[0].includes('Fed. Reg.')) { // Federal Register
-      return {
-        volume: match[1],
-        page: match[2],
-        date: match[3] || null
-      };
-    } else if (match[0].includes('In re')) { // Administrative decisions
-      return {
-        party: match[1]?.trim(),
-        volume: match[2],
-        reporter: match[3],
-        page: match[4],
-        agency: match[5] || null,
-        year: match[6] || null
-      };
-    }
-  });
-  
-  return citations;
-}
-
-// Citation verification with Perplexity
-async function verifyCitationWithPerplexity(citation) {
-  try {
-    const perplexityApiKey = Deno.env.get('PERPLEXITY_API_TOKEN');
-    if (!perplexityApiKey) {
-      return { 
-        citation: citation.full,
-        verified: false,
-        error: 'Perplexity API token not available'
-      };
-    }
-    
-    let prompt = `Verify this legal citation: ${citation.full}`;
-    
-    // Add specific instructions based on citation type
-    if (citation.type === 'case') {
-      prompt += `\n\nPlease provide: 
-1. The correct full citation 
-2. The court that decided it
-3. The date of the decision
-4. A 1-2 sentence summary of the holding/significance`;
-    } else if (citation.type === 'statute') {
-      prompt += `\n\nPlease provide:
-1. The correct full citation
-2. Whether this is current law
-3. When it was enacted/last amended
-4. A brief description of what this section covers`;
-    } else if (citation.type === 'regulation') {
-      prompt += `\n\nPlease provide:
-1. The correct full citation
-2. The agency that issued it
-3. When it was published/effective
-4. What it regulates`;
-    }
-    
-    const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${perplexityApiKey}`
-      },
-      body: JSON.stringify({
-        model: "sonar",
-        messages: [
-          {
-            role: "system",
-            content: "You are a legal research specialist focusing on accurate verification of legal citations, cases, and statutes. Provide precise information with proper legal citations. When verifying a case, include the full citation, court, date, and a brief holding."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        options: {
-          "search_focus": "internet"
-        },
-        // Prefer legal sources
-        search_domain_filter: ["law.cornell.edu", "scholar.google.com", "courtlistener.com", "justia.com", "oyez.org", "leagle.com", "casetext.com", "findlaw.com"],
-        web_search_options: {
-          search_context_size: "high"  // For comprehensive legal search
-        },
-        temperature: 0.1, // Lower temperature for factual accuracy
-        max_tokens: 500,
-        // Use structured output
-        response_format: {
-          type: "json_schema",
-          json_schema: {
-            schema: {
-              type: "object",
-              properties: {
-                verified: { type: "boolean" },
-                correctedCitation: { type: "string" },
-                court: { type: "string" },
-                date: { type: "string" },
-                summary: { type: "string" },
-                sources: { 
-                  type: "array",
-                  items: { 
-                    type: "object",
-                    properties: {
-                      title: { type: "string" },
-                      url: { type: "string" }
-                    }
-                  }
-                }
-              },
-              required: ["verified"]
-            }
-          }
-        }
-      })
-    });
-    
-    if (perplexityResponse.ok) {
-      const data = await perplexityResponse.json();
-      if (data.choices?.[0]?.message?.content) {
-        try {
-          const verificationData = JSON.parse(data.choices[0].message.content);
-          return {
-            citation: citation.full,
-            ...verificationData
-          };
-        } catch (parseError) {
-          return {
-            citation: citation.full,
-            verified: false,
-            error: 'Could not parse verification data'
-          };
-        }
-      }
-    }
-    
-    return {
-      citation: citation.full,
-      verified: false,
-      error: 'Failed to get verification from Perplexity'
-    };
-  } catch (error) {
-    console.error('Citation verification error:', error);
-    return {
-      citation: citation.full,
-      verified: false,
-      error: error.message
-    };
-  }
-}
-
 // Format verification results for display
-function formatVerificationResults(results) {
+function formatVerificationResults(results: VerifiedCitation[]) {
   if (!results.length) return null;
   
   let summary = '### Citation Verification\n\n';
@@ -377,15 +113,7 @@ const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
   auth: { persistSession: false }
 });
 
-// Add Anthropic API key
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY') || '';
-if (!anthropicApiKey) {
-  console.error('Missing ANTHROPIC_API_KEY');
-}
-
-const anthropic = new Anthropic({
-  apiKey: anthropicApiKey,
-});
+const llm = createLlmGateway();
 
 // Import type declarations for Deno
 type DenoReadableStream<T> = ReadableStream<T>;
@@ -393,7 +121,7 @@ type DenoReadableStream<T> = ReadableStream<T>;
 // --- Query Classification Function ---
 async function classifyQuery(query: string): Promise<'simple' | 'complex' | 'research_needed'> {
   try {
-    console.log('Classifying query with Claude 3.5 Haiku');
+    console.log('Classifying query');
     
     // Detect likely research queries with simple heuristics first
     const researchKeywords = [
@@ -412,21 +140,25 @@ async function classifyQuery(query: string): Promise<'simple' | 'complex' | 'res
     }
     
     // Increased context and more specific instructions for model
-    const classification = await anthropic.messages.create({
-      model: "claude-3-5-haiku-20241022",
-      system: `You are a specialized query classifier for a legal assistant system. Your only job is to categorize legal questions into one of three types:
+    const classification = await llm.chat('claude-router:classify', {
+      messages: [
+        {
+          role: "system",
+          content: `You are a specialized query classifier for a legal assistant system. Your only job is to categorize legal questions into one of three types:
 
 1. 'simple' - Basic definitional questions, procedural information, or straightforward legal concepts that don't require nuanced analysis.
 2. 'complex' - Questions requiring legal analysis, strategy, risk assessment, interpretation of laws, or hypothetical scenarios.
 3. 'research_needed' - Questions about current laws, recent cases, jurisdiction-specific details, or that require citing specific statutes.
 
-You MUST return ONLY a valid JSON object with the format: {"queryType": "TYPE"} where TYPE is one of: "simple", "complex", or "research_needed".`,
-      messages: [{ role: "user", content: `Classify this legal query: "${query}"` }],
-      max_tokens: 150,
+You MUST return ONLY a valid JSON object with the format: {"queryType": "TYPE"} where TYPE is one of: "simple", "complex", or "research_needed".`
+        },
+        { role: "user", content: `Classify this legal query: "${query}"` }
+      ],
+      maxTokens: 150,
       temperature: 0.1
     });
     
-    const classificationText = classification.content[0].text;
+    const classificationText = classification.text;
     console.log('Classification response:', classificationText);
     
     // First try direct JSON parsing
@@ -465,24 +197,100 @@ You MUST return ONLY a valid JSON object with the format: {"queryType": "TYPE"}
   }
 }
 
-// --- Simple Query Handler (Claude 3.5 Sonnet with Thinking Capability) ---
+// --- Streams an answer from the gateway as metadata, thought, answer and complete events ---
+function streamAnswer(
+  llmStream: LlmStream,
+  metadata: Record<string, unknown>,
+  streamThoughts: boolean,
+  meter?: AiCallMeter
+): DenoReadableStream<Uint8Array> {
+  const transformer = new TransformStream();
+  const writer = transformer.writable.getWriter();
+  let thinkingBuffer = '';
+  let lastThinkingSent = Date.now();
+
+  const sendThought = async () => {
+    await writer.write(encoder.encode(`data: ${JSON.stringify({
+      type: 'thought',
+      content: thinkingBuffer.trim()
+    })}\n\n`));
+    thinkingBuffer = '';
+    lastThinkingSent = Date.now();
+  };
+
+  // Process the stream
+  (async () => {
+    try {
+      // Send metadata event first, naming the model that is answering (the gateway may have fallen back)
+      await writer.write(encoder.encode(`data: ${JSON.stringify({ ...metadata, model: llmStream.model })}\n\n`));
+
+      let usage: AiCallUsage | undefined;
+      for await (const event of llmStream.events) {
+        if (event.type === 'thinking') {
+          if (event.text && streamThoughts) {
+            thinkingBuffer += event.text;
+            // Send when we hit a natural break or enough time/length has passed
+            if (
+              thinkingBuffer.endsWith('.') ||
+              thinkingBuffer.endsWith('\n') ||
+              thinkingBuffer.length > 100 ||
+              Date.now() - lastThinkingSent > 1000
+            ) {
+              await sendThought();
+            }
+          }
+        } else if (event.type === 'text') {
+          // This is an answer content chunk
+          if (event.text) {
+            await writer.write(encoder.encode(`data: ${JSON.stringify({ 
+              type: 'answer', 
+              content: event.text 
+            })}\n\n`));
+          }
+        } else if (event.type === 'done') {
+          usage = event.usage;
+          await writer.write(encoder.encode(`data: ${JSON.stringify({ 
+            type: 'complete' 
+          })}\n\n`));
+        }
+      }
+      // Flush any remaining buffer before closing
+      if (thinkingBuffer.trim()) {
+        await sendThought();
+      }
+
+      await meter?.succeed(usage ?? { model: llmStream.model });
+    } catch (error) {
+      console.error('Stream processing error:', error);
+      await meter?.fail(error, { model: llmStream.model });
+      await writer.write(encoder.encode(`data: ${JSON.stringify({ 
+        type: 'error',
+        error: `Error processing stream: ${error.message}`
+      })}\n\n`));
+    } finally {
+      await writer.close();
+    }
+  })();
+  
+  return transformer.readable;
+}
+
+// --- Simple Query Handler (fast model, or the reasoning model when thoughts are streamed) ---
 async function handleSimpleQuery(
   query: string,
-  messages: MessageParam[],
+  messages: LlmMessage[],
   documentContext = '',
   streamThoughts = false,
   preloadedContextSnippet?: string, // Added for the specific snippet
-  userId?: string,
-  profile?: { subscription_status: string; trial_ai_calls_used?: number },
-  supabaseAdmin?: SupabaseClient
+  meter?: AiCallMeter
 ): Promise<DenoReadableStream<Uint8Array>> {
   console.log('--- handleSimpleQuery called ---');
   console.log('streamThoughts parameter value:', streamThoughts);
-  const model = streamThoughts ? "claude-3-7-sonnet-20250219" : "claude-3-5-haiku-20241022";
-  console.log(`Selected model: ${model}, thinking enabled: ${streamThoughts}, temperature: ${streamThoughts && model.includes("claude-3-7") ? 1 : 0.3}`);
+  const feature = streamThoughts ? 'claude-router:reasoning' : 'claude-router:simple';
+  console.log(`Selected feature: ${feature}, thinking enabled: ${streamThoughts}, temperature: ${streamThoughts ? 1 : 0.3}`);
   
-  // Format messages for Claude
-  const formattedMessages: MessageParam[] = messages.map(msg => ({
+  // Format messages for the model
+  const formattedMessages: LlmMessage[] = messages.map(msg => ({
     role: msg.role === 'user' ? 'user' : 'assistant',
     content: msg.content
   }));
@@ -511,129 +319,33 @@ If you are referencing information directly from the document context provided b
     systemPrompt += documentContext;
   }
   
-  // Create a stream transformer to handle Claude streaming
-  const transformer = new TransformStream();
-  const writer = transformer.writable.getWriter();
-  
-  // Start the stream with proper Claude model
-  const stream = await anthropic.messages.create({
-    model: model,
-    system: systemPrompt,
+  const llmStream = await llm.stream(feature, {
     messages: [
+      { role: "system", content: systemPrompt },
       ...formattedMessages,
       { role: "user", content: query }
     ],
-    max_tokens: 4000,
+    maxTokens: 4000,
     temperature: streamThoughts ? 1.0 : 0.3,
-    stream: true,
-    thinking: streamThoughts ? { type: "enabled", budget_tokens: 1500 } : undefined
+    thinking: streamThoughts ? { budgetTokens: 1500 } : undefined
   });
-  
-  let chunkCount = 0;
-  let thinkingBuffer = '';
-  let lastThinkingSent = Date.now();
-  
-  // Process the stream
-  (async () => {
-    try {
-      // Send metadata event first
-      const metadataEvent = {
-        type: 'metadata',
-        responseType: 'simple',
-        model: streamThoughts ? 'claude-3-7-sonnet-20250219' : 'claude-3-5-haiku-20241022'
-      };
-      await writer.write(encoder.encode(`data: ${JSON.stringify(metadataEvent)}\n\n`));
-      
-      for await (const chunk of stream) {
-        if (chunkCount < 3) {
-          console.log('Raw chunk:', JSON.stringify(chunk));
-          chunkCount++;
-        }
+  console.log(`Answering with ${llmStream.model}`);
 
-        if (chunk.type === "content_block_delta" && chunk.delta.type === "thinking_delta") {
-          if (chunk.delta.thinking && streamThoughts) {
-            thinkingBuffer += chunk.delta.thinking;
-            // Send when we hit a natural break or enough time/length has passed
-            if (
-              thinkingBuffer.endsWith('.') ||
-              thinkingBuffer.endsWith('\n') ||
-              thinkingBuffer.length > 100 ||
-              Date.now() - lastThinkingSent > 1000
-            ) {
-              await writer.write(encoder.encode(`data: ${JSON.stringify({
-                type: 'thought',
-                content: thinkingBuffer.trim()
-              })}\n\n`));
-              thinkingBuffer = '';
-              lastThinkingSent = Date.now();
-            }
-          }
-        } else if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
-          // This is an answer content chunk
-          if (chunk.delta.text) { // Ensure text exists
-            await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-              type: 'answer', 
-              content: chunk.delta.text 
-            })}\n\n`));
-          }
-        } else if (chunk.type === "message_start") {
-          // Optional: log message start if needed
-           console.log('Raw chunk (message_start):', JSON.stringify(chunk));
-        } else if (chunk.type === "content_block_start" && chunk.content_block.type === "thinking") {
-           // Optional: log start of a thinking block if needed
-           console.log('Raw chunk (content_block_start for thinking):', JSON.stringify(chunk));
-        } else if (chunk.type === "content_block_start" && chunk.content_block.type === "text") {
-          // Optional: log start of a text (answer) block if needed
-          console.log('Raw chunk (content_block_start for text):', JSON.stringify(chunk));
-        } else if (chunk.type === "message_stop") {
-          await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-            type: 'complete' 
-          })}\n\n`));
-        }
-      }
-      // Flush any remaining buffer before closing
-      if (thinkingBuffer.trim()) {
-        await writer.write(encoder.encode(`data: ${JSON.stringify({
-          type: 'thought',
-          content: thinkingBuffer.trim()
-        })}\n\n`));
-      }
-
-      if (profile && userId && supabaseAdmin && profile.subscription_status === 'trialing') {
-        await supabaseAdmin
-          .from('profiles')
-          .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-          .eq('id', userId);
-      }
-    } catch (error) {
-      console.error('Stream processing error:', error);
-      await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-        type: 'error',
-        error: `Error processing stream: ${error.message}`
-      })}\n\n`));
-    } finally {
-      await writer.close();
-    }
-  })();
-  
-  return transformer.readable;
+  return streamAnswer(llmStream, { type: 'metadata', responseType: 'simple' }, streamThoughts, meter);
 }
 
-// --- Complex Query Handler (Claude 3.7 + Thinking) ---
+// --- Complex Query Handler (reasoning model + thinking) ---
 async function handleComplexQuery(
   query: string,
-  messages: MessageParam[],
+  messages: LlmMessage[],
   documentContext = '',
   streamThoughts = true,
   preloadedContextSnippet?: string,
-  userId?: string,
-  profile?: { subscription_status: string; trial_ai_calls_used?: number },
-  supabaseAdmin?: SupabaseClient
+  meter?: AiCallMeter
 ): Promise<DenoReadableStream<Uint8Array>> {
   console.log('--- handleComplexQuery called ---');
   console.log('streamThoughts parameter value:', streamThoughts);
-  const model = "claude-3-7-sonnet-20250219";
-  console.log(`Selected model: ${model}, thinking enabled: ${streamThoughts}, temperature: ${streamThoughts ? 1 : 0.2}`);
+  console.log(`Thinking enabled: ${streamThoughts}, temperature: ${streamThoughts ? 1 : 0.2}`);
   
   // Build a comprehensive legal system prompt
   let systemPrompt = `You are a sophisticated legal assistant with expertise in contract analysis, case law, and regulatory compliance.
@@ -661,207 +373,92 @@ If you are referencing information directly from the document context provided b
     systemPrompt += documentContext;
   }
   
-  // Create a stream transformer
-  const transformer = new TransformStream();
-  const writer = transformer.writable.getWriter();
-  
-  // Start the stream with Claude 3.7 with extended thinking
-  const stream = await anthropic.messages.create({
-    model: model,
-    system: systemPrompt,
-    messages: messages.map(msg => ({
-      role: msg.role === 'user' ? 'user' : 'assistant',
-      content: msg.content
-    })),
-    max_tokens: 7000,
+  // Start the stream with extended thinking
+  const llmStream = await llm.stream('claude-router:reasoning', {
+    messages: [
+      { role: "system", content: systemPrompt },
+      ...messages.map((msg): LlmMessage => ({
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content: msg.content
+      }))
+    ],
+    maxTokens: 7000,
     temperature: streamThoughts ? 1.0 : 0.2,
-    stream: true,
-    thinking: streamThoughts ? { type: "enabled", budget_tokens: 3000 } : undefined
+    thinking: streamThoughts ? { budgetTokens: 3000 } : undefined
   });
-  
-  let chunkCount = 0;
-  let thinkingBuffer = '';
-  let lastThinkingSent = Date.now();
-  
-  // Process the stream
-  (async () => {
-    try {
-      // Send metadata event first
-      const metadataEvent = {
-        type: 'metadata',
-        responseType: 'complex',
-        model: 'claude-3-7-sonnet-20250219'
-      };
-      await writer.write(encoder.encode(`data: ${JSON.stringify(metadataEvent)}\n\n`));
-      
-      for await (const chunk of stream) {
-        if (chunkCount < 3) {
-          console.log('Raw chunk:', JSON.stringify(chunk));
-          chunkCount++;
-        }
+  console.log(`Answering with ${llmStream.model}`);
 
-        if (chunk.type === "content_block_delta" && chunk.delta.type === "thinking_delta") {
-          if (chunk.delta.thinking && streamThoughts) {
-            thinkingBuffer += chunk.delta.thinking;
-            // Send when we hit a natural break or enough time/length has passed
-            if (
-              thinkingBuffer.endsWith('.') ||
-              thinkingBuffer.endsWith('\n') ||
-              thinkingBuffer.length > 100 ||
-              Date.now() - lastThinkingSent > 1000
-            ) {
-              await writer.write(encoder.encode(`data: ${JSON.stringify({
-                type: 'thought',
-                content: thinkingBuffer.trim()
-              })}\n\n`));
-              thinkingBuffer = '';
-              lastThinkingSent = Date.now();
-            }
-          }
-        } else if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
-          // This is an answer content chunk
-          if (chunk.delta.text) { // Ensure text exists
-            await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-              type: 'answer', 
-              content: chunk.delta.text 
-            })}\n\n`));
-          }
-        } else if (chunk.type === "message_start") {
-          // Optional: log message start if needed
-           console.log('Raw chunk (message_start):', JSON.stringify(chunk));
-        } else if (chunk.type === "content_block_start" && chunk.content_block.type === "thinking") {
-           // Optional: log start of a thinking block if needed
-           console.log('Raw chunk (content_block_start for thinking):', JSON.stringify(chunk));
-        } else if (chunk.type === "content_block_start" && chunk.content_block.type === "text") {
-          // Optional: log start of a text (answer) block if needed
-          console.log('Raw chunk (content_block_start for text):', JSON.stringify(chunk));
-        } else if (chunk.type === "message_stop") {
-          await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-            type: 'complete' 
-          })}\n\n`));
-        }
-      }
-      // Flush any remaining buffer before closing
-      if (thinkingBuffer.trim()) {
-        await writer.write(encoder.encode(`data: ${JSON.stringify({
-          type: 'thought',
-          content: thinkingBuffer.trim()
-        })}\n\n`));
-      }
+  return streamAnswer(llmStream, { type: 'metadata', responseType: 'complex' }, streamThoughts, meter);
+}
 
-      if (profile && userId && supabaseAdmin && profile.subscription_status === 'trialing') {
-        await supabaseAdmin
-          .from('profiles')
-          .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-          .eq('id', userId);
-      }
-    } catch (error) {
-      console.error('Stream processing error:', error);
-      await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-        type: 'error',
-        error: 'Error processing stream: ' + error.message
-      })}\n\n`));
-    } finally {
-      await writer.close();
-    }
-  })();
-  
-  return transformer.readable;
+// Cited sources arrive as bare URLs; their host is the most readable title available
+function sourceTitle(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
 }
 
-// --- Research Query Handler (Claude 3.7 + Web Search) ---
+// --- Research Query Handler (web search, then the reasoning model) ---
 async function handleResearchQuery(
   query: string,
-  messages: MessageParam[],
+  messages: LlmMessage[],
   documentContext = '',
   streamThoughts = true,
   preloadedContextSnippet?: string,
-  userId?: string,
-  profile?: { subscription_status: string; trial_ai_calls_used?: number },
-  supabaseAdmin?: SupabaseClient
+  meter?: AiCallMeter
 ): Promise<DenoReadableStream<Uint8Array>> {
   console.log('--- handleResearchQuery called ---');
   console.log('streamThoughts parameter value:', streamThoughts);
-  const model = "claude-3-7-sonnet-20250219";
-  console.log(`Selected model: ${model}, thinking enabled: ${streamThoughts}, temperature: ${streamThoughts ? 1 : 0.3}`);
+  console.log(`Thinking enabled: ${streamThoughts}, temperature: ${streamThoughts ? 1 : 0.3}`);
   
   // First perform a web search
   console.log('Performing legal research search for query:', query);
   const searchResults: SourceInfo[] = [];
   try {
-    // Use Perplexity API if available
-    const perplexityApiToken = Deno.env.get('PERPLEXITY_API_TOKEN');
-    console.log('Perplexity API token available:', !!perplexityApiToken);
-    
-    if (perplexityApiToken) {
-      // Enhanced Perplexity configuration for legal research
-      const perplexityResponse = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${perplexityApiToken}`
+    // Web search through the gateway (Perplexity), focused on legal sources
+    const research = await llm.chat('claude-router:web-search', {
+      messages: [
+        {
+          role: "system",
+          content: "You are a specialized legal research assistant. Focus on finding accurate, up-to-date legal information from authoritative sources. When researching legal topics, prioritize current statutes, recent case law, and official legal resources. Cite your sources properly with full citations."
         },
-        body: JSON.stringify({
-          model: "sonar",
-          messages: [
-            {
-              role: "system",
-              content: "You are a specialized legal research assistant. Focus on finding accurate, up-to-date legal information from authoritative sources. When researching legal topics, prioritize current statutes, recent case law, and official legal resources. Cite your sources properly with full citations."
-            },
-            {
-              role: "user",
-              content: `Research this legal question thoroughly: ${query}`
-            }
-          ],
-          options: {
-            "search_focus": "internet"
-          },
+        {
+          role: "user",
+          content: `Research this legal question thoroughly: ${query}`
+        }
+      ],
+      temperature: 0.2,  // Lower temperature for factual accuracy
+      maxTokens: 2000,
+      providerOptions: {
+        perplexity: {
           search_domain_filter: ["law.cornell.edu", "scholar.google.com", "oyez.org", "justia.com", "courtlistener.com", "findlaw.com", "casetext.com", "leagle.com"],
           web_search_options: {
             search_context_size: "high"  // For comprehensive legal search
-          },
-          temperature: 0.2,  // Lower temperature for factual accuracy
-          max_tokens: 2000
-        })
-      });
-      
-      if (perplexityResponse.ok) {
-        const data = await perplexityResponse.json();
-        console.log('Perplexity API response received');
-        console.log('Perplexity raw context data:', JSON.stringify(data.choices?.[0]?.message?.context, null, 2));
-        
-        // Extract search results from the response
-        if (data.choices?.[0]?.message?.content) {
-          // Add the main response as a source
-          searchResults.push({
-            title: "Perplexity Legal Research",
-            url: "https://www.perplexity.ai/",
-            date: new Date().toISOString(),
-            snippet: data.choices[0].message.content
-          });
-          
-          // Extract cited sources if available
-          if (data.choices[0].message.context?.citations) {
-            const citations = data.choices[0].message.context.citations;
-            for (const citation of citations) {
-              if (citation.title && citation.url) {
-                searchResults.push({
-                  title: citation.title,
-                  url: citation.url,
-                  date: citation.publishedDate || 'Unknown',
-                  snippet: citation.snippet || undefined
-                });
-              }
-            }
           }
         }
-      } else {
-        const errorText = await perplexityResponse.text();
-        console.error('Perplexity API error:', errorText);
-        throw new Error(`Perplexity API error: ${errorText}`);
       }
-    } else {
-      throw new Error('Perplexity API token not available in environment variables');
+    });
+    console.log(`Web search answered by ${research.usage.model} with ${research.citations.length} citation(s)`);
+
+    if (research.text) {
+      // Add the main response as a source
+      searchResults.push({
+        title: "Perplexity Legal Research",
+        url: "https://www.perplexity.ai/",
+        date: new Date().toISOString(),
+        snippet: research.text
+      });
+
+      // Add the cited sources
+      for (const url of research.citations) {
+        searchResults.push({
+          title: sourceTitle(url),
+          url,
+          date: 'Unknown'
+        });
+      }
     }
   } catch (searchError) {
     console.error('Error with web search:', searchError);
@@ -873,7 +470,7 @@ async function handleResearchQuery(
     });
   }
   
-  // Format search results for Claude
+  // Format search results for the model
   const formattedResults = searchResults.map(result => 
     `Source: ${result.title} (${result.url})
      Date: ${result.date || 'Unknown'}
@@ -913,10 +510,6 @@ Please provide a detailed and well-cited answer.`;
   // For now, let's consider how to best add it. It could be part of the initial query to Perplexity if that's used.
   // Or appended to the user's queryContent for Claude.
 
-  // Create a stream transformer
-  const transformer = new TransformStream();
-  const writer = transformer.writable.getWriter();
-  
   // Prepare messages with context
   let contextEnhancedQuery = `${query}\n\nResearch Results:\n${formattedResults}`;
   if (documentContext) {
@@ -927,118 +520,34 @@ Please provide a detailed and well-cited answer.`;
   }
   
   // Format previous messages
-  const formattedMessages = messages.map(msg => ({
+  const formattedMessages = messages.map((msg): LlmMessage => ({
     role: msg.role === 'user' ? 'user' : 'assistant',
     content: msg.content
   }));
   
-  // Start the stream with Claude 3.7 with thinking
-  const stream = await anthropic.messages.create({
-    model: model,
-    system: systemPrompt,
+  // Start the stream with thinking
+  const llmStream = await llm.stream('claude-router:reasoning', {
     messages: [
+      { role: "system", content: systemPrompt },
       ...formattedMessages,
       { role: "user", content: contextEnhancedQuery }
     ],
-    max_tokens: 7000,
+    maxTokens: 7000,
     temperature: streamThoughts ? 1.0 : 0.3,
-    stream: true,
-    thinking: streamThoughts ? { type: "enabled", budget_tokens: 3000 } : undefined
+    thinking: streamThoughts ? { budgetTokens: 3000 } : undefined
   });
-  
-  let chunkCount = 0;
-  let thinkingBuffer = '';
-  let lastThinkingSent = Date.now();
-  
-  // Process the stream
-  (async () => {
-    try {
-      // Send metadata event first with sources
-      const metadataEvent = {
-        type: 'metadata',
-        responseType: 'research',
-        model: 'claude-3-7-sonnet-20250219',
-        sources: searchResults.map((r) => ({
-          title: r.title,
-          url: r.url,
-          date: r.date
-        }))
-      };
-      await writer.write(encoder.encode(`data: ${JSON.stringify(metadataEvent)}\n\n`));
-      
-      for await (const chunk of stream) {
-        if (chunkCount < 3) {
-          console.log('Raw chunk:', JSON.stringify(chunk));
-          chunkCount++;
-        }
-
-        if (chunk.type === "content_block_delta" && chunk.delta.type === "thinking_delta") {
-          if (chunk.delta.thinking && streamThoughts) {
-            thinkingBuffer += chunk.delta.thinking;
-            // Send when we hit a natural break or enough time/length has passed
-            if (
-              thinkingBuffer.endsWith('.') ||
-              thinkingBuffer.endsWith('\n') ||
-              thinkingBuffer.length > 100 ||
-              Date.now() - lastThinkingSent > 1000
-            ) {
-              await writer.write(encoder.encode(`data: ${JSON.stringify({
-                type: 'thought',
-                content: thinkingBuffer.trim()
-              })}\n\n`));
-              thinkingBuffer = '';
-              lastThinkingSent = Date.now();
-            }
-          }
-        } else if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
-          // This is an answer content chunk
-          if (chunk.delta.text) { // Ensure text exists
-            await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-              type: 'answer', 
-              content: chunk.delta.text 
-            })}\n\n`));
-          }
-        } else if (chunk.type === "message_start") {
-          // Optional: log message start if needed
-           console.log('Raw chunk (message_start):', JSON.stringify(chunk));
-        } else if (chunk.type === "content_block_start" && chunk.content_block.type === "thinking") {
-           // Optional: log start of a thinking block if needed
-           console.log('Raw chunk (content_block_start for thinking):', JSON.stringify(chunk));
-        } else if (chunk.type === "content_block_start" && chunk.content_block.type === "text") {
-          // Optional: log start of a text (answer) block if needed
-          console.log('Raw chunk (content_block_start for text):', JSON.stringify(chunk));
-        } else if (chunk.type === "message_stop") {
-          await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-            type: 'complete' 
-          })}\n\n`));
-        }
-      }
-      // Flush any remaining buffer before closing
-      if (thinkingBuffer.trim()) {
-        await writer.write(encoder.encode(`data: ${JSON.stringify({
-          type: 'thought',
-          content: thinkingBuffer.trim()
-        })}\n\n`));
-      }
-
-      if (profile && userId && supabaseAdmin && profile.subscription_status === 'trialing') {
-        await supabaseAdmin
-          .from('profiles')
-          .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-          .eq('id', userId);
-      }
-    } catch (error) {
-      console.error('Stream processing error:', error);
-      await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-        type: 'error',
-        error: 'Error processing stream: ' + error.message
-      })}\n\n`));
-    } finally {
-      await writer.close();
-    }
-  })();
-  
-  return transformer.readable;
+  console.log(`Answering with ${llmStream.model}`);
+
+  // Metadata carries the sources so the client can list them before the answer
+  return streamAnswer(llmStream, {
+    type: 'metadata',
+    responseType: 'research',
+    sources: searchResults.map((r) => ({
+      title: r.title,
+      url: r.url,
+      date: r.date
+    }))
+  }, streamThoughts, meter);
 }
 
 // --- Text encoder for streaming ---
@@ -1052,66 +561,15 @@ serve(async (req: Request) => {
   }
 
   let newConversationId: string | null = null;
+  let meter: AiCallMeter | undefined;
 
   try {
     // --- Authorization ---
-    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
-    if (!token) {
-      console.warn('Missing Authorization header');
-      return new Response(JSON.stringify({ error: 'Missing authorization token' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-    // Use admin client to validate token and get user
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-    if (userError || !user) {
-      const errorMessage = userError?.message || 'User not found for token';
-      console.error('Auth Error:', errorMessage);
-      return new Response(JSON.stringify({ error: errorMessage }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-    
-    const userId = user.id;
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
     console.log('User authenticated:', userId);
 
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
     // --- Request Body Parsing ---
     const {
       messages,
@@ -1144,6 +602,17 @@ serve(async (req: Request) => {
       });
     }
 
+    // Chatting about a case and reading its documents is open to members whose role allows AI use
+    if (caseId && !await canAccessCase(supabaseAdmin, caseId, userId, 'use_ai')) {
+      return new Response(JSON.stringify({ error: 'Case not found or access denied' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'claude-router', caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
+
     // --- Conversation Management ---
     let conversationId: string | null = conversationIdFromRequest || null;
     let conversation: DbConversation | null = null;
@@ -1303,9 +772,7 @@ serve(async (req: Request) => {
         fetchedContextText,
         streamThoughts,
         specificSnippetText,
-        userId,
-        profile,
-        supabaseAdmin
+        aiCall
       );
     } else if (queryType === 'research_needed') {
       console.log('Routing to research query handler');
@@ -1315,9 +782,7 @@ serve(async (req: Request) => {
         fetchedContextText,
         streamThoughts,
         specificSnippetText,
-        userId,
-        profile,
-        supabaseAdmin
+        aiCall
       );
     } else { // 'complex' or default
       console.log('Routing to complex query handler');
@@ -1327,9 +792,7 @@ serve(async (req: Request) => {
         fetchedContextText,
         streamThoughts,
         specificSnippetText,
-        userId,
-        profile,
-        supabaseAdmin
+        aiCall
       );
     }
     
@@ -1354,18 +817,13 @@ serve(async (req: Request) => {
           
           if (assistantMsgData?.content) {
             // Extract citations from the response
-            const citations = extractLegalCitations(assistantMsgData.content);
+            const citations = extractCitations(assistantMsgData.content);
             
             if (citations.length > 0) {
               console.log(`Found ${citations.length} citations to verify in response`);
               
-              // Verify each citation (up to first 3 to limit API calls)
-              const citationsToVerify = citations.slice(0, 3);
-              const verificationResults = await Promise.all(
-                citationsToVerify.map(async (citation) => {
-                  return verifyCitationWithPerplexity(citation);
-                })
-              );
+              // Verify the first 3 citations to limit API calls
+              const verificationResults = await verifyCitations(citations.slice(0, 3), createCitationResolver());
               
               // Create a follow-up message with verification results
               const verificationSummary = formatVerificationResults(verificationResults);
@@ -1412,6 +870,7 @@ serve(async (req: Request) => {
     
   } catch (error) {
     console.error('Claude router error:', error);
+    await meter?.fail(error);
     
     return new Response(
       JSON.stringify({
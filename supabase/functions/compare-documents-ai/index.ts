@@ -1,23 +1,85 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { corsHeaders } from "./cors.ts";
-import { OpenAI } from "https://deno.land/x/openai@v4.48.2/mod.ts";
 import { createSupabaseAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAuth } from "../_shared/auth.ts";
+import { startAiCall, type AiCallMeter, type AiCallUsage } from "../_shared/usage.ts";
+import { createLlmGateway } from "../_shared/llm.ts";
 
 console.log("Compare-Documents-AI: Function script starting...");
 
-// Initialize OpenAI client (ensure OPENAI_API_KEY is set in Supabase Function env vars)
-let openai: OpenAI;
-try {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  console.log(`Compare-Documents-AI: Read OPENAI_API_KEY. Is defined? ${!!apiKey}`);
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is not set.");
+const llm = createLlmGateway();
+
+// A changed clause pair from the client's clause alignment; original or revised is '' for
+// added and removed clauses
+interface ClauseChange {
+  id: string;
+  label: string;
+  original: string;
+  revised: string;
+}
+
+interface ClauseEffect {
+  id: string;
+  effect: string;
+  severity: 'minor' | 'moderate' | 'major';
+}
+
+const MAX_CLAUSE_CHANGES = 60;
+
+function isClauseChangeList(value: unknown): value is ClauseChange[] {
+  return Array.isArray(value) && value.length <= MAX_CLAUSE_CHANGES && value.every(change =>
+    change && typeof change === 'object' &&
+    ['id', 'label', 'original', 'revised'].every(key => typeof (change as Record<string, unknown>)[key] === 'string')
+  );
+}
+
+// The legal effect of each substantive clause change, keyed by the client's ids
+async function summarizeClauseChanges(
+  changes: ClauseChange[],
+  goal?: string,
+): Promise<{ effects: ClauseEffect[]; usage: AiCallUsage }> {
+  if (changes.length === 0) return { effects: [], usage: { model: null } };
+
+  const systemPrompt = `You are an expert legal AI assistant reviewing a contract negotiation.
+You receive clauses that changed between the ORIGINAL and REVISED drafts, each with an "id". An empty ORIGINAL means the clause was added; an empty REVISED means it was removed.
+For each clause, explain the legal effect of the change in one or two sentences: whose rights or obligations change and how (e.g. who bears more risk, what deadline or amount moves, what protection is gained or lost). Do not just restate the wording.
+${goal ? `The reviewer is particularly interested in: "${goal}". Mention how each change bears on it where relevant.` : ''}
+Return a JSON object with one key, "effects": an array with one object per clause, in the order given, each with:
+-   "id": (string) the clause's id, exactly as given
+-   "effect": (string) the legal effect of the change
+-   "severity": (string) "minor", "moderate" or "major", for how much the change shifts the parties' positions
+Ensure your entire response is a single, valid JSON object.`;
+
+  const userPrompt = changes.map(change => `--- CLAUSE id=${change.id} (${change.label}) ---
+ORIGINAL:
+${change.original}
+REVISED:
+${change.revised}`).join('\n\n');
+
+  const response = await llm.json<{ effects?: unknown }>("compare-documents-ai", {
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    temperature: 0.2,
+    maxTokens: 3000,
+  });
+
+  const parsed = response.data;
+  if (!Array.isArray(parsed.effects)) {
+    throw new Error("AI response was valid JSON but missed the required 'effects' array.");
   }
-  openai = new OpenAI({ apiKey });
-  console.log("Compare-Documents-AI: OpenAI client initialized successfully.");
-} catch (initError) {
-  console.error("Compare-Documents-AI: FATAL ERROR initializing OpenAI client:", initError);
-  // If OpenAI init fails, the function won't work.
+
+  // Keep only effects for clauses that were asked about
+  const ids = new Set(changes.map(change => change.id));
+  const effects = (parsed.effects as Partial<ClauseEffect>[])
+    .filter(item => typeof item?.id === 'string' && ids.has(item.id) && typeof item.effect === 'string')
+    .map(item => ({
+      id: item.id!,
+      effect: item.effect!,
+      severity: item.severity === 'major' || item.severity === 'moderate' ? item.severity : 'minor',
+    }));
+  return { effects, usage: response.usage };
 }
 
 serve(async (req) => {
@@ -26,24 +88,26 @@ serve(async (req) => {
     return new Response("ok", { headers: corsHeaders });
   }
 
+  let meter: AiCallMeter | undefined;
   try {
-    // Ensure OpenAI client is available
-    if (!openai) {
-       throw new Error("OpenAI client failed to initialize. Check API key.");
-    }
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
 
     // Parse request body
-    const { text1, text2, goal, userId } = await req.json();
+    const { text1, text2, goal, mode, changes } = await req.json();
 
-    if (!userId || typeof userId !== 'string') {
-      return new Response(JSON.stringify({ error: 'Missing or invalid userId' }), {
+    // Clause mode: the client has already aligned the clauses and sends the changed pairs
+    const clauseMode = mode === 'clauses';
+    if (clauseMode && !isClauseChangeList(changes)) {
+      return new Response(JSON.stringify({ error: `'changes' must be an array of at most ${MAX_CLAUSE_CHANGES} { id, label, original, revised } string objects` }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 400,
       });
     }
 
     // Validate input
-    if (typeof text1 !== 'string' || typeof text2 !== 'string') {
+    if (!clauseMode && (typeof text1 !== 'string' || typeof text2 !== 'string')) {
       return new Response(JSON.stringify({ error: "Missing or invalid text1 or text2 in request body" }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 400,
@@ -60,40 +124,16 @@ serve(async (req) => {
 
     const goalProvided = goal && goal.trim() !== "";
 
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 403,
-      });
-    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'compare-documents-ai', feature: clauseMode ? 'compare:clauses' : 'compare:documents' });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 403,
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 403,
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
+    if (clauseMode) {
+      const { effects, usage } = await summarizeClauseChanges(changes, goalProvided ? goal.trim() : undefined);
+      await aiCall.succeed(usage);
+      return new Response(JSON.stringify({ effects }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 403,
+        status: 200,
       });
     }
 
@@ -146,36 +186,20 @@ ${text2}
 
 Return your analysis as a JSON object with "summary" and "focusedDifferences" keys, according to the system prompt instructions.`;
 
-    console.log("Compare-Documents-AI: Sending request to OpenAI with goal:", goal || "General comparison", " Expecting JSON object.");
+    console.log("Compare-Documents-AI: Sending request to the LLM gateway with goal:", goal || "General comparison", " Expecting JSON object.");
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", 
+    const response = await llm.json<{ summary?: unknown; focusedDifferences?: Record<string, unknown>[] }>("compare-documents-ai", {
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt },
       ],
       temperature: 0.2, // Slightly lower for more precise JSON generation
-      max_tokens: 1500, // Increased to accommodate potentially larger JSON output
-      response_format: { type: "json_object" }, // Enable JSON mode
+      maxTokens: 1500, // Increased to accommodate potentially larger JSON output
     });
 
-    console.log("Compare-Documents-AI: Received response from OpenAI.");
-
-    const rawResponseContent = response.choices[0]?.message?.content;
+    console.log(`Compare-Documents-AI: Received response from ${response.usage.model}:`, response.text);
 
-    if (!rawResponseContent) {
-      throw new Error('OpenAI returned empty content.');
-    }
-
-    console.log("Compare-Documents-AI: Raw AI response:", rawResponseContent);
-
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(rawResponseContent);
-    } catch (parseError) {
-      console.error("Compare-Documents-AI: Failed to parse AI response as JSON:", parseError);
-      throw new Error(`AI returned invalid JSON. Raw output: ${rawResponseContent}`);
-    }
+    const parsedResponse = response.data;
 
     // Validate the structure of the parsed response
     if (typeof parsedResponse.summary !== 'string' || !Array.isArray(parsedResponse.focusedDifferences)) {
@@ -195,12 +219,7 @@ Return your analysis as a JSON object with "summary" and "focusedDifferences" ke
         }
     }
 
-    if (profile.subscription_status === 'trialing') {
-      await supabaseAdmin
-        .from('profiles')
-        .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-        .eq('id', userId);
-    }
+    await aiCall.succeed(response.usage);
 
     return new Response(JSON.stringify(parsedResponse), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -209,6 +228,7 @@ Return your analysis as a JSON object with "summary" and "focusedDifferences" ke
 
   } catch (error) {
     console.error("Compare-Documents-AI: Error in main function handler:", error);
+    await meter?.fail(error);
     const errorMessage = error instanceof Error ? error.message : "Internal Server Error";
     // Ensure CORS headers are included in error responses too
     return new Response(JSON.stringify({ error: errorMessage }), {
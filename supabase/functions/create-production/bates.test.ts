@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { assignBatesRanges, footerPlacement, formatBatesNumber, orderFamilies } from './bates';
+
+describe('Bates numbering', () => {
+  test('pads numbers after the prefix', () => {
+    expect(formatBatesNumber({ prefix: 'ACME', digits: 6 }, 123)).toBe('ACME000123');
+    expect(formatBatesNumber({ prefix: 'SMITH-', digits: 3 }, 4521)).toBe('SMITH-4521');
+  });
+
+  test('assigns consecutive page ranges', () => {
+    expect(assignBatesRanges([
+      { documentId: 'a', pageCount: 3 },
+      { documentId: 'b', pageCount: 1 },
+      { documentId: 'c', pageCount: 2 },
+    ], 101)).toEqual([
+      { documentId: 'a', start: 101, end: 103, pageCount: 3 },
+      { documentId: 'b', start: 104, end: 104, pageCount: 1 },
+      { documentId: 'c', start: 105, end: 106, pageCount: 2 },
+    ]);
+  });
+
+  test('moves attachments directly after their message', () => {
+    const docs = [
+      { id: 'attachment-1', parentDocumentId: 'email' },
+      { id: 'memo', parentDocumentId: null },
+      { id: 'email', parentDocumentId: null },
+      { id: 'nested', parentDocumentId: 'attachment-1' },
+      { id: 'orphan', parentDocumentId: 'not-selected' },
+    ];
+    expect(orderFamilies(docs).map(doc => doc.id)).toEqual(['memo', 'email', 'attachment-1', 'nested', 'orphan']);
+  });
+});
+
+describe('footer placement', () => {
+  const letter = { x: 0, y: 0, width: 612, height: 792 };
+
+  test('bottom right corner of an upright page', () => {
+    expect(footerPlacement(letter, 0, 60, 18)).toEqual({ x: 534, y: 18, rotate: 0 });
+  });
+
+  test('follows the displayed page when it is rotated', () => {
+    expect(footerPlacement(letter, 90, 60, 18)).toEqual({ x: 594, y: 714, rotate: 90 });
+    expect(footerPlacement(letter, 180, 60, 18)).toEqual({ x: 78, y: 774, rotate: 180 });
+    expect(footerPlacement(letter, -90, 60, 18)).toEqual({ x: 18, y: 78, rotate: 270 });
+  });
+
+  test('respects an offset crop box', () => {
+    expect(footerPlacement({ x: 50, y: 40, width: 500, height: 700 }, 0, 60, 18)).toEqual({ x: 472, y: 58, rotate: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+// supabase/functions/create-production/bates.ts
+// Bates numbering: document order, sequential page ranges and where the number is drawn.
+
+export interface BatesFormat {
+  prefix: string; // e.g. "ACME" or "SMITH-"
+  digits: number; // Zero padding, e.g. 6 -> ACME000123
+}
+
+export interface ProductionSource {
+  id: string;
+  parentDocumentId: string | null;
+}
+
+export interface BatesRange {
+  documentId: string;
+  start: number;
+  end: number;
+  pageCount: number;
+}
+
+export function formatBatesNumber(format: BatesFormat, value: number): string {
+  return `${format.prefix}${String(value).padStart(format.digits, '0')}`;
+}
+
+/**
+ * Keeps families together: an email attachment is produced right after its message when both
+ * are in the production. Everything else keeps the order it was selected in.
+ */
+export function orderFamilies<T extends ProductionSource>(documents: T[]): T[] {
+  const included = new Set(documents.map(doc => doc.id));
+  const children = new Map<string, T[]>();
+  for (const doc of documents) {
+    if (doc.parentDocumentId && included.has(doc.parentDocumentId)) {
+      children.set(doc.parentDocumentId, [...(children.get(doc.parentDocumentId) ?? []), doc]);
+    }
+  }
+
+  const ordered: T[] = [];
+  const visit = (doc: T) => {
+    ordered.push(doc);
+    (children.get(doc.id) ?? []).forEach(visit);
+  };
+  documents
+    .filter(doc => !doc.parentDocumentId || !included.has(doc.parentDocumentId))
+    .forEach(visit);
+  return ordered;
+}
+
+// Consecutive page ranges starting at `startNumber`, one per document in order
+export function assignBatesRanges(pageCounts: { documentId: string; pageCount: number }[], startNumber: number): BatesRange[] {
+  let next = startNumber;
+  return pageCounts.map(({ documentId, pageCount }) => {
+    const range = { documentId, start: next, end: next + pageCount - 1, pageCount };
+    next += pageCount;
+    return range;
+  });
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextPlacement {
+  x: number;
+  y: number;
+  rotate: number; // Degrees, counter-clockwise
+}
+
+/**
+ * Where to draw a footer label so it reads left-to-right in the bottom right corner of the
+ * page as displayed. `rotation` is the page's /Rotate (clockwise), which turns the user-space
+ * box before display, so the text is counter-rotated to match.
+ */
+export function footerPlacement(box: Box, rotation: number, textWidth: number, margin: number): TextPlacement {
+  const right = box.x + box.width;
+  const top = box.y + box.height;
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return { x: right - margin, y: top - margin - textWidth, rotate: 90 };
+    case 180:
+      return { x: box.x + margin + textWidth, y: top - margin, rotate: 180 };
+    case 270:
+      return { x: box.x + margin, y: box.y + margin + textWidth, rotate: 270 };
+    default:
+      return { x: right - margin - textWidth, y: box.y + margin, rotate: 0 };
+  }
+}
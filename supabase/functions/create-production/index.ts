@@ -0,0 +1,270 @@
+// supabase/functions/create-production/index.ts
+// Produces a set of case documents: assigns sequential Bates numbers, stamps them on a PDF of
+// every document, writes the production log (CSV) and returns all of it as one ZIP. The range is
+// claimed before any stamping (see reservation.ts), and the per-document ranges are stored in
+// production_documents so a Bates number resolves back to its document.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { PDFDocument } from 'npm:pdf-lib@1.17.1';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { formatBatesNumber, orderFamilies, type BatesFormat } from './bates.ts';
+import { pdfFromImage, pdfFromOriginal, pdfFromText, slipSheet, stampBatesNumbers } from './pdf.ts';
+import { buildProductionLog, type ProductionLogEntry } from './productionLog.ts';
+import { reserveBatesRange } from './reservation.ts';
+import { createZip, type ZipFile } from './zipWriter.ts';
+
+// The whole production is assembled in memory
+const MAX_DOCUMENTS = 200;
+const DEFAULT_DIGITS = 6;
+const PREFIX_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_. -]{0,19}$/;
+const OUTPUT_BUCKET = 'generated-documents';
+const DOWNLOAD_URL_TTL_SECONDS = 3600;
+// Spreadsheets are produced natively (with a slip sheet), as most ESI protocols require
+const NATIVE_FILE_TYPES = new Set(['xlsx', 'xls']);
+
+interface CreateProductionRequest {
+  caseId: string;
+  documentIds: string[]; // In production order; email attachments are moved after their message
+  name?: string;
+  prefix: string;
+  startNumber?: number | null; // Defaults to the number after this prefix's last production in the case
+  digits?: number;
+  withholdPrivileged?: boolean; // Replace documents flagged by the privilegedTerms analysis with a slip sheet
+}
+
+interface SourceDocument {
+  id: string;
+  filename: string;
+  storage_path: string | null;
+  content_type: string | null;
+  file_type: string | null;
+  extracted_text: string | null;
+  parent_document_id: string | null;
+  email_metadata: { sentAt?: string | null } | null;
+}
+
+// How the produced PDF was made. Only 'original' pages line up with the document's page map.
+type Rendering = 'original' | 'image' | 'extracted_text' | 'slip_sheet';
+
+interface RenderedDocument {
+  source: SourceDocument;
+  pdf: PDFDocument;
+  rendering: Rendering;
+  native: Uint8Array | null; // Delivered alongside the slip sheet
+  privileged: boolean;
+  withheld: boolean;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const extensionOf = (filename: string) => filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+
+function imageKind(data: Uint8Array): 'png' | 'jpg' | null {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpg';
+  return null; // TIFF and friends can't be embedded; their OCR text is produced instead
+}
+
+// Documents whose latest privilegedTerms analysis flagged at least one passage
+async function loadPrivilegeFlags(supabaseAdmin: SupabaseClient, documentIds: string[]): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin
+    .from('document_analyses')
+    .select('document_id, result, created_at')
+    .in('document_id', documentIds)
+    .eq('analysis_type', 'privilegedTerms')
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load privilege analyses: ${error.message}`);
+
+  const flagged = new Set<string>();
+  const seen = new Set<string>();
+  for (const row of (data || []) as { document_id: string; result: { privilegedTerms?: unknown[] } | null }[]) {
+    if (seen.has(row.document_id)) continue; // Older analysis of the same document
+    seen.add(row.document_id);
+    if (Array.isArray(row.result?.privilegedTerms) && row.result.privilegedTerms.length > 0) flagged.add(row.document_id);
+  }
+  return flagged;
+}
+
+async function renderDocument(supabaseAdmin: SupabaseClient, source: SourceDocument, privileged: boolean, withhold: boolean): Promise<RenderedDocument> {
+  if (privileged && withhold) {
+    const pdf = await slipSheet(['DOCUMENT WITHHELD', 'Privileged - see privilege log']);
+    return { source, pdf, rendering: 'slip_sheet', native: null, privileged, withheld: true };
+  }
+
+  let data: Uint8Array | null = null;
+  if (source.storage_path) {
+    const { data: blob, error } = await supabaseAdmin.storage.from('documents').download(source.storage_path);
+    if (error || !blob) throw new Error(`Failed to download ${source.filename}: ${error?.message || 'no data'}`);
+    data = new Uint8Array(await blob.arrayBuffer());
+  }
+  const fileType = (source.file_type || extensionOf(source.filename)).toLowerCase();
+
+  if (data && !NATIVE_FILE_TYPES.has(fileType)) {
+    if (fileType === 'pdf') {
+      const pdf = await pdfFromOriginal(data);
+      if (pdf) return { source, pdf, rendering: 'original', native: null, privileged, withheld: false };
+    }
+    const kind = imageKind(data);
+    if (kind) return { source, pdf: await pdfFromImage(data, kind), rendering: 'image', native: null, privileged, withheld: false };
+  }
+  if (!NATIVE_FILE_TYPES.has(fileType) && source.extracted_text?.trim()) {
+    return { source, pdf: await pdfFromText(source.extracted_text), rendering: 'extracted_text', native: null, privileged, withheld: false };
+  }
+  if (!data) throw new Error(`${source.filename} has neither a stored file nor extracted text to produce`);
+  const pdf = await slipSheet(['DOCUMENT PRODUCED IN NATIVE FORMAT', source.filename]);
+  return { source, pdf, rendering: 'slip_sheet', native: data, privileged, withheld: false };
+}
+
+console.log('Function create-production initializing...');
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Gives a claimed Bates range back if the production can't be finished
+  let release: (() => Promise<void>) | null = null;
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const { user } = auth;
+
+    // --- Validate the request ---
+    const body = await req.json() as CreateProductionRequest;
+    const documentIds = Array.isArray(body.documentIds) ? [...new Set(body.documentIds.filter(id => typeof id === 'string'))] : [];
+    const prefix = typeof body.prefix === 'string' ? body.prefix.trim() : '';
+    const digits = Number.isInteger(body.digits) ? body.digits! : DEFAULT_DIGITS;
+    if (!body.caseId) return jsonResponse({ success: false, error: 'Missing required parameter: caseId' }, 400);
+    if (documentIds.length === 0) return jsonResponse({ success: false, error: 'Select at least one document to produce' }, 400);
+    if (documentIds.length > MAX_DOCUMENTS) return jsonResponse({ success: false, error: `A production can contain at most ${MAX_DOCUMENTS} documents` }, 400);
+    if (!PREFIX_PATTERN.test(prefix)) return jsonResponse({ success: false, error: 'Bates prefix must be 1-20 letters, digits, spaces, dots, dashes or underscores' }, 400);
+    if (digits < 3 || digits > 10) return jsonResponse({ success: false, error: 'Bates number padding must be between 3 and 10 digits' }, 400);
+    if (body.startNumber != null && !(Number.isInteger(body.startNumber) && body.startNumber >= 1)) {
+      return jsonResponse({ success: false, error: 'Start number must be a positive whole number' }, 400);
+    }
+
+    if (!await canAccessCase(supabaseAdmin, body.caseId, user.id, 'edit')) {
+      return jsonResponse({ success: false, error: 'Case not found or access denied' }, 403);
+    }
+
+    const { data: documentRows, error: documentsError } = await supabaseAdmin
+      .from('documents')
+      .select('id, filename, storage_path, content_type, file_type, extracted_text, parent_document_id, email_metadata')
+      .in('id', documentIds)
+      .eq('case_id', body.caseId)
+      .eq('is_deleted', false);
+    if (documentsError) throw new Error(`Failed to load documents: ${documentsError.message}`);
+    const byId = new Map(((documentRows || []) as SourceDocument[]).map(doc => [doc.id, doc]));
+    const missing = documentIds.filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      return jsonResponse({ success: false, error: `${missing.length} selected document(s) are not in this case or were deleted` }, 404);
+    }
+
+    // --- Render every document, then number the pages ---
+    const ordered = orderFamilies(documentIds.map(id => byId.get(id)!).map(doc => ({ ...doc, parentDocumentId: doc.parent_document_id })));
+    const privileged = await loadPrivilegeFlags(supabaseAdmin, documentIds);
+    const rendered: RenderedDocument[] = [];
+    for (const doc of ordered) {
+      rendered.push(await renderDocument(supabaseAdmin, doc, privileged.has(doc.id), body.withholdPrivileged === true));
+    }
+    // --- Claim the Bates range; numbers are never reused within a case ---
+    const productionId = crypto.randomUUID();
+    const productionName = (body.name?.trim() || `${prefix} Production`).slice(0, 120);
+    const storagePath = `productions/${user.id}/${productionId}.zip`;
+    const reservation = await reserveBatesRange(supabaseAdmin, {
+      id: productionId,
+      case_id: body.caseId,
+      owner_id: user.id,
+      name: productionName,
+      bates_prefix: prefix,
+      bates_digits: digits,
+      document_count: rendered.length,
+      storage_path: storagePath,
+    }, rendered.map(r => ({ documentId: r.source.id, pageCount: r.pdf.getPageCount() })), body.startNumber ?? null);
+    if (reservation.error !== undefined) return jsonResponse({ success: false, error: reservation.error }, reservation.status);
+    const { row: productionRow, ranges } = reservation;
+    const productionStart = productionRow.bates_start;
+    const productionEnd = productionRow.bates_end;
+    const format: BatesFormat = { prefix, digits };
+    release = async () => {
+      await supabaseAdmin.storage.from(OUTPUT_BUCKET).remove([storagePath]);
+      await supabaseAdmin.from('production_documents').delete().eq('production_id', productionId);
+      await supabaseAdmin.from('productions').delete().eq('id', productionId);
+    };
+
+    // --- Stamp, log and bundle ---
+    const folder = productionName.replace(/[^A-Za-z0-9._ -]+/g, '_').trim() || 'Production';
+    const productionDate = new Date().toISOString().slice(0, 10);
+    const files: ZipFile[] = [];
+    const logEntries: ProductionLogEntry[] = [];
+
+    for (let i = 0; i < rendered.length; i++) {
+      const { source, pdf, native, withheld } = rendered[i];
+      const range = ranges[i];
+      const labels = Array.from({ length: range.pageCount }, (_, page) => formatBatesNumber(format, range.start + page));
+      files.push({ name: `${folder}/IMAGES/${labels[0]}.pdf`, data: await stampBatesNumbers(pdf, labels) });
+      if (native) {
+        const extension = extensionOf(source.filename);
+        files.push({ name: `${folder}/NATIVES/${labels[0]}${extension ? `.${extension}` : ''}`, data: native });
+      }
+      logEntries.push({
+        batesBegin: labels[0],
+        batesEnd: labels[labels.length - 1],
+        pageCount: range.pageCount,
+        filename: source.filename,
+        documentDate: source.email_metadata?.sentAt?.slice(0, 10) ?? null,
+        privileged: rendered[i].privileged,
+        treatment: withheld ? 'Withheld - privileged' : native ? 'Produced natively' : 'Produced',
+      });
+    }
+    files.push({ name: `${folder}/${folder} - Production Log.csv`, data: new TextEncoder().encode(buildProductionLog(logEntries, productionDate)) });
+
+    const archive = createZip(files);
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(OUTPUT_BUCKET)
+      .upload(storagePath, archive, { contentType: 'application/zip', upsert: false });
+    if (uploadError) throw new Error(`Failed to store production: ${uploadError.message}`);
+
+    // --- Persist the ranges ---
+    const { error: rangesError } = await supabaseAdmin.from('production_documents').insert(rendered.map((r, i) => ({
+      production_id: productionId,
+      document_id: r.source.id,
+      case_id: body.caseId,
+      bates_prefix: prefix,
+      bates_start: ranges[i].start,
+      bates_end: ranges[i].end,
+      page_count: ranges[i].pageCount,
+      privileged: r.privileged,
+      withheld: r.withheld,
+      produced_natively: r.native !== null,
+      rendering: r.rendering,
+      position: i,
+    })));
+    if (rangesError) throw new Error(`Failed to save Bates ranges: ${rangesError.message}`);
+
+    const { data: signed, error: signedError } = await supabaseAdmin.storage
+      .from(OUTPUT_BUCKET)
+      .createSignedUrl(storagePath, DOWNLOAD_URL_TTL_SECONDS);
+    if (signedError) throw new Error(`Failed to create download link: ${signedError.message}`);
+
+    console.log(`[create-production] ${productionName}: ${rendered.length} documents, ${formatBatesNumber(format, productionStart)}-${formatBatesNumber(format, productionEnd)}`);
+    return jsonResponse({
+      success: true,
+      production: { ...productionRow, created_at: new Date().toISOString() },
+      downloadUrl: signed.signedUrl,
+      fileName: `${folder}.zip`,
+    }, 200);
+  } catch (error) {
+    await release?.();
+    const message = error instanceof Error ? error.message : 'Unknown production error';
+    console.error('[create-production] Error:', message);
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
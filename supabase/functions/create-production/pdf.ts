@@ -0,0 +1,106 @@
+// supabase/functions/create-production/pdf.ts
+// Builds the produced image of each document as a PDF and stamps the Bates numbers on it.
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont } from 'npm:pdf-lib@1.17.1';
+import { footerPlacement } from './bates.ts';
+import { winAnsiSafe } from '../_shared/pdfText.ts';
+
+// US Letter, 1 inch margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const TEXT_SIZE = 10;
+const LINE_HEIGHT = 13;
+const STAMP_SIZE = 9;
+const STAMP_MARGIN = 18;
+
+function wrapLine(line: string, font: PDFFont, maxWidth: number): string[] {
+  const out: string[] = [];
+  let current = '';
+  for (const word of line.split(/(\s+)/)) {
+    const candidate = current + word;
+    if (font.widthOfTextAtSize(candidate, TEXT_SIZE) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current.trim()) out.push(current.trimEnd());
+    current = word.trimStart();
+    // A single word wider than the line (URLs, hashes) is broken by character
+    while (font.widthOfTextAtSize(current, TEXT_SIZE) > maxWidth) {
+      let fit = current.length - 1;
+      while (fit > 1 && font.widthOfTextAtSize(current.slice(0, fit), TEXT_SIZE) > maxWidth) fit--;
+      out.push(current.slice(0, fit));
+      current = current.slice(fit);
+    }
+  }
+  out.push(current.trimEnd());
+  return out;
+}
+
+/** Loads an uploaded PDF for stamping; null when it can't be parsed (corrupt or encrypted). */
+export async function pdfFromOriginal(data: Uint8Array): Promise<PDFDocument | null> {
+  try {
+    const pdf = await PDFDocument.load(data, { updateMetadata: false });
+    return pdf.getPageCount() > 0 ? pdf : null;
+  } catch (error) {
+    console.warn('[create-production] Could not load PDF for stamping:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/** One page per image, scaled to fit inside the margins. Only PNG and JPEG can be embedded. */
+export async function pdfFromImage(data: Uint8Array, kind: 'png' | 'jpg'): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const image = kind === 'png' ? await pdf.embedPng(data) : await pdf.embedJpg(data);
+  const scale = Math.min((PAGE_WIDTH - 2 * MARGIN) / image.width, (PAGE_HEIGHT - 2 * MARGIN) / image.height, 1);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  page.drawImage(image, { x: (PAGE_WIDTH - width) / 2, y: PAGE_HEIGHT - MARGIN - height, width, height });
+  return pdf;
+}
+
+/** Renders extracted text onto Letter pages, for formats we can't image directly. */
+export async function pdfFromText(text: string): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const clean = winAnsiSafe(font);
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .flatMap(line => wrapLine(clean(line.replace(/\t/g, '    ')), font, PAGE_WIDTH - 2 * MARGIN));
+  const linesPerPage = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+  for (let i = 0; i < Math.max(lines.length, 1); i += linesPerPage) {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    lines.slice(i, i + linesPerPage).forEach((line, n) => {
+      page.drawText(line, { x: MARGIN, y: PAGE_HEIGHT - MARGIN - TEXT_SIZE - n * LINE_HEIGHT, size: TEXT_SIZE, font });
+    });
+  }
+  return pdf;
+}
+
+/** A single placeholder page, used for natives and withheld documents. */
+export async function slipSheet(lines: string[]): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const clean = winAnsiSafe(font);
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  lines.forEach((line, n) => {
+    const text = clean(line);
+    const size = n === 0 ? 16 : 11;
+    const width = Math.min(font.widthOfTextAtSize(text, size), PAGE_WIDTH - 2 * MARGIN);
+    page.drawText(text, { x: (PAGE_WIDTH - width) / 2, y: PAGE_HEIGHT / 2 + 40 - n * 24, size, font, maxWidth: PAGE_WIDTH - 2 * MARGIN });
+  });
+  return pdf;
+}
+
+/** Draws `labels[i]` in the bottom right corner of page i and serializes the result. */
+export async function stampBatesNumbers(pdf: PDFDocument, labels: string[]): Promise<Uint8Array> {
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  pdf.getPages().forEach((page, i) => {
+    const label = labels[i];
+    const placement = footerPlacement(page.getCropBox(), page.getRotation().angle, font.widthOfTextAtSize(label, STAMP_SIZE), STAMP_MARGIN);
+    page.drawText(label, { x: placement.x, y: placement.y, rotate: degrees(placement.rotate), size: STAMP_SIZE, font, color: rgb(0, 0, 0) });
+  });
+  return await pdf.save();
+}
@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'vitest';
+import { buildProductionLog, toCsv } from './productionLog';
+
+describe('production log', () => {
+  test('quotes cells with separators and neutralises formulas', () => {
+    expect(toCsv([['a,b', 'say "hi"', '=SUM(A1)', 'plain']])).toBe('"a,b","say ""hi""",\'=SUM(A1),plain\r\n');
+  });
+
+  test('writes one row per document under the header', () => {
+    const csv = buildProductionLog([
+      { batesBegin: 'ACME000001', batesEnd: 'ACME000003', pageCount: 3, filename: 'Renewal, final.pdf', documentDate: '2024-03-05', privileged: false, treatment: 'Produced' },
+      { batesBegin: 'ACME000004', batesEnd: 'ACME000004', pageCount: 1, filename: 'Advice.eml', documentDate: null, privileged: true, treatment: 'Withheld - privileged' },
+    ], '2024-06-01');
+    expect(csv.split('\r\n')).toEqual([
+      'Bates Begin,Bates End,Pages,Filename,Document Date,Privilege Flag,Treatment,Production Date',
+      'ACME000001,ACME000003,3,"Renewal, final.pdf",2024-03-05,No,Produced,2024-06-01',
+      'ACME000004,ACME000004,1,Advice.eml,,Yes,Withheld - privileged,2024-06-01',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+// supabase/functions/create-production/productionLog.ts
+// The production log delivered with every production: one CSV row per produced document.
+
+export interface ProductionLogEntry {
+  batesBegin: string;
+  batesEnd: string;
+  pageCount: number;
+  filename: string;
+  documentDate: string | null; // YYYY-MM-DD: the email's send date, when known
+  privileged: boolean;
+  treatment: 'Produced' | 'Produced natively' | 'Withheld - privileged';
+}
+
+const HEADER = ['Bates Begin', 'Bates End', 'Pages', 'Filename', 'Document Date', 'Privilege Flag', 'Treatment', 'Production Date'];
+
+function csvCell(value: string): string {
+  // Spreadsheet apps run cells starting with these as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function buildProductionLog(entries: ProductionLogEntry[], productionDate: string): string {
+  return toCsv([
+    HEADER,
+    ...entries.map(entry => [
+      entry.batesBegin,
+      entry.batesEnd,
+      String(entry.pageCount),
+      entry.filename,
+      entry.documentDate ?? '',
+      entry.privileged ? 'Yes' : 'No',
+      entry.treatment,
+      productionDate,
+    ]),
+  ]);
+}
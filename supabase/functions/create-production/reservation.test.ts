@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { reserveBatesRange, type ProductionRow } from './reservation';
+
+type Range = Pick<ProductionRow, 'id' | 'case_id' | 'bates_prefix' | 'bates_start' | 'bates_end'>;
+
+// The productions table, refusing overlapping ranges like productions_bates_range_excl.
+// beforeInsert runs first, so a test can land a competing production between the read and the insert.
+let rows: Range[];
+let beforeInsert: (() => void) | null;
+
+const overlaps = (a: Range, b: Range) =>
+  a.case_id === b.case_id && a.bates_prefix === b.bates_prefix && a.bates_start <= b.bates_end && b.bates_start <= a.bates_end;
+
+const fakeClient = {
+  from: () => {
+    const filters: ((row: Range) => boolean)[] = [];
+    const builder = {
+      select: () => builder,
+      eq: (column: keyof Range, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      lte: (column: keyof Range, value: number) => { filters.push(row => (row[column] as number) <= value); return builder; },
+      gte: (column: keyof Range, value: number) => { filters.push(row => (row[column] as number) >= value); return builder; },
+      order: () => builder,
+      limit: () => builder,
+      maybeSingle: async () => {
+        const matching = rows.filter(row => filters.every(filter => filter(row))).sort((a, b) => b.bates_end - a.bates_end);
+        return { data: matching[0] ?? null, error: null };
+      },
+      insert: async (row: Range) => {
+        beforeInsert?.();
+        beforeInsert = null;
+        if (rows.some(existing => overlaps(existing, row))) {
+          return { error: { code: '23P01', message: 'conflicting key value violates exclusion constraint "productions_bates_range_excl"' } };
+        }
+        rows.push(row);
+        return { error: null };
+      },
+    };
+    return builder;
+  },
+} as unknown as SupabaseClient;
+
+const production = {
+  id: 'production-2',
+  case_id: 'case-1',
+  owner_id: 'olivia',
+  name: 'ACME Production',
+  bates_prefix: 'ACME',
+  bates_digits: 6,
+  document_count: 2,
+  storage_path: 'productions/olivia/production-2.zip',
+};
+const pageCounts = [{ documentId: 'a', pageCount: 3 }, { documentId: 'b', pageCount: 2 }];
+
+beforeEach(() => {
+  rows = [{ id: 'production-1', case_id: 'case-1', bates_prefix: 'ACME', bates_start: 1, bates_end: 10 }];
+  beforeInsert = null;
+});
+
+describe('reserving a Bates range', () => {
+  test('numbers after the last production with the prefix and claims the range', async () => {
+    const reservation = await reserveBatesRange(fakeClient, production, pageCounts, null);
+    expect(reservation).toMatchObject({
+      row: { bates_start: 11, bates_end: 15, page_count: 5 },
+      ranges: [{ documentId: 'a', start: 11, end: 13 }, { documentId: 'b', start: 14, end: 15 }],
+    });
+    expect(rows.map(row => row.id)).toEqual(['production-1', 'production-2']);
+  });
+
+  test('renumbers after a production that claimed the same numbers first', async () => {
+    beforeInsert = () => rows.push({ id: 'production-x', case_id: 'case-1', bates_prefix: 'ACME', bates_start: 11, bates_end: 20 });
+    const reservation = await reserveBatesRange(fakeClient, production, pageCounts, null);
+    expect(reservation).toMatchObject({ row: { bates_start: 21, bates_end: 25 } });
+  });
+
+  test('refuses a requested start number that is already used', async () => {
+    expect(await reserveBatesRange(fakeClient, production, pageCounts, 8)).toEqual({
+      status: 409,
+      error: 'Bates numbers ACME000001-ACME000010 were already used in an earlier production',
+    });
+    expect(rows).toHaveLength(1);
+  });
+
+  test('ignores other prefixes and refuses ranges that outgrow the digits', async () => {
+    expect(await reserveBatesRange(fakeClient, { ...production, bates_prefix: 'DEF' }, pageCounts, null))
+      .toMatchObject({ row: { bates_start: 1, bates_end: 5 } });
+    expect(await reserveBatesRange(fakeClient, { ...production, bates_digits: 2 }, pageCounts, 98))
+      .toEqual({ status: 400, error: 'Bates number 102 does not fit in 2 digits' });
+  });
+});
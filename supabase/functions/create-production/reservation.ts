@@ -0,0 +1,87 @@
+// supabase/functions/create-production/reservation.ts
+// Claims a production's Bates range by inserting its productions row. The exclusion constraint on
+// productions (see the README) refuses a range overlapping another production of the same case
+// and prefix, so two productions started at the same moment can never share numbers.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { assignBatesRanges, formatBatesNumber, type BatesRange } from './bates.ts';
+
+// Postgres' exclusion_violation, raised by productions_bates_range_excl
+const EXCLUSION_VIOLATION = '23P01';
+const RESERVE_ATTEMPTS = 3;
+
+export interface ProductionRow {
+  id: string;
+  case_id: string;
+  owner_id: string;
+  name: string;
+  bates_prefix: string;
+  bates_digits: number;
+  bates_start: number;
+  bates_end: number;
+  document_count: number;
+  page_count: number;
+  storage_path: string;
+}
+
+export type BatesReservation =
+  | { row: ProductionRow; ranges: BatesRange[]; error?: undefined }
+  | { error: string; status: 400 | 409 };
+
+// The number after the last one this case has produced with the prefix
+async function nextBatesNumber(supabaseAdmin: SupabaseClient, caseId: string, prefix: string): Promise<number> {
+  const { data: last, error } = await supabaseAdmin
+    .from('productions')
+    .select('bates_end')
+    .eq('case_id', caseId)
+    .eq('bates_prefix', prefix)
+    .order('bates_end', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to read earlier productions: ${error.message}`);
+  return (last?.bates_end ?? 0) + 1;
+}
+
+/**
+ * Numbers the documents' pages from `startNumber`, or after the case's last production with the
+ * prefix, and inserts the production's row to hold the range. When numbering automatically, a
+ * conflict means another production took those numbers first, so it renumbers after that one
+ * and tries again; a requested start number that is already used is refused.
+ */
+export async function reserveBatesRange(
+  supabaseAdmin: SupabaseClient,
+  production: Omit<ProductionRow, 'bates_start' | 'bates_end' | 'page_count'>,
+  pageCounts: { documentId: string; pageCount: number }[],
+  startNumber: number | null,
+): Promise<BatesReservation> {
+  const format = { prefix: production.bates_prefix, digits: production.bates_digits };
+  for (let attempt = 1; ; attempt++) {
+    const ranges = assignBatesRanges(pageCounts, startNumber ?? await nextBatesNumber(supabaseAdmin, production.case_id, format.prefix));
+    const start = ranges[0].start;
+    const end = ranges[ranges.length - 1].end;
+    if (String(end).length > format.digits) {
+      return { error: `Bates number ${end} does not fit in ${format.digits} digits`, status: 400 };
+    }
+
+    const row: ProductionRow = { ...production, bates_start: start, bates_end: end, page_count: end - start + 1 };
+    const { error } = await supabaseAdmin.from('productions').insert(row);
+    if (!error) return { row, ranges };
+    if (error.code !== EXCLUSION_VIOLATION) throw new Error(`Failed to save production: ${error.message}`);
+    if (startNumber === null && attempt < RESERVE_ATTEMPTS) continue;
+
+    const { data: taken } = await supabaseAdmin
+      .from('productions')
+      .select('bates_start, bates_end')
+      .eq('case_id', production.case_id)
+      .eq('bates_prefix', format.prefix)
+      .lte('bates_start', end)
+      .gte('bates_end', start)
+      .limit(1)
+      .maybeSingle();
+    return {
+      status: 409,
+      error: taken
+        ? `Bates numbers ${formatBatesNumber(format, taken.bates_start)}-${formatBatesNumber(format, taken.bates_end)} were already used in an earlier production`
+        : 'Another production is using these Bates numbers. Try again in a moment.',
+    };
+  }
+}
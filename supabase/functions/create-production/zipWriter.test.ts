@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'vitest';
+import { openZip } from '../extract-text/zip';
+import { crc32, createZip } from './zipWriter';
+
+describe('ZIP writer', () => {
+  test('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  test('writes archives the ZIP reader can open', async () => {
+    const pdf = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]);
+    const archive = createZip([
+      { name: 'Production/IMAGES/ACME000001.pdf', data: pdf },
+      { name: 'Production/Production Log – März.csv', data: new TextEncoder().encode('Bates Begin\r\n') },
+    ]);
+    const zip = openZip(archive);
+    expect(zip.names).toEqual(['Production/IMAGES/ACME000001.pdf', 'Production/Production Log – März.csv']);
+    expect(await zip.read('Production/IMAGES/ACME000001.pdf')).toEqual(pdf);
+    expect(await zip.readText('Production/Production Log – März.csv')).toBe('Bates Begin\r\n');
+  });
+});
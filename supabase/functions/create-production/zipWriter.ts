@@ -0,0 +1,101 @@
+// supabase/functions/create-production/zipWriter.ts
+// Writes ZIP archives with stored (uncompressed) entries. Production PDFs and natives are
+// already compressed, so deflating them again would cost time for almost no gain.
+
+export interface ZipFile {
+  name: string; // Path inside the archive, "/"-separated
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const FLAG_UTF8_NAMES = 0x0800;
+const VERSION = 20; // 2.0: the minimum for folders in names
+// No ZIP64 support: sizes and offsets must fit in 32 bits, entry counts in 16
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields. The format has no time zone; UTC is written
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+export function createZip(files: ZipFile[], modified = new Date()): Uint8Array {
+  if (files.length > MAX_ENTRIES) throw new Error(`Too many files for one ZIP archive (${files.length})`);
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const entries = files.map(file => ({ name: encoder.encode(file.name), data: file.data, crc: crc32(file.data) }));
+
+  const localSize = entries.reduce((size, entry) => size + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((size, entry) => size + 46 + entry.name.length, 0);
+  if (localSize + centralSize + 22 > MAX_SIZE) throw new Error('Production is too large for one ZIP archive');
+
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, FLAG_UTF8_NAMES, true);
+    view.setUint16(offset + 8, 0, true); // Stored
+    view.setUint16(offset + 10, stamp.time, true);
+    view.setUint16(offset + 12, stamp.date, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    out.set(entry.name, offset + 30);
+    out.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  }
+
+  const centralStart = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, VERSION, true);
+    view.setUint16(offset + 8, FLAG_UTF8_NAMES, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, stamp.time, true);
+    view.setUint16(offset + 14, stamp.date, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, offsets[i], true);
+    out.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out;
+}
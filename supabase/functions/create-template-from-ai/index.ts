@@ -1,16 +1,19 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from 'npm:openai@^4.0.0'; // Use npm specifier
 import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway } from '../_shared/llm.ts';
 
 console.log('Initializing create-template-from-ai function...');
 
 // --- Configuration ---
-const AI_MODEL = 'gpt-4o-mini'; // Or 'gpt-4o', 'gpt-4-turbo', etc.
 const MAX_TOKENS_RESPONSE = 2000; // Adjust as needed for template length
 
 // Supabase admin client will be created per request using shared helper
 
+const llm = createLlmGateway();
+
 // --- Helper Function: Sanitize Name ---
 function sanitizeName(name: string): string {
   // Remove problematic characters for filenames or display
@@ -69,9 +72,15 @@ serve(async (req: Request) => {
     return new Response(null, { headers: corsHeaders, status: 200 }); 
   }
 
+  let meter: AiCallMeter | undefined;
   try {
-    // 1. Parse Request Body
-    const { instructions, category, userId }: { instructions: string; category: string; userId: string } = await req.json();
+    // 1. Authenticate the caller and parse the request body
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
+
+    const { instructions, category }: { instructions: string; category: string } = await req.json();
 
     // 2. Validate Input
     if (!instructions || typeof instructions !== 'string' || instructions.trim().length === 0) {
@@ -80,58 +89,14 @@ serve(async (req: Request) => {
     if (!category || typeof category !== 'string' || category.trim().length === 0) {
       throw new Error("Missing or invalid 'category' in request body.");
     }
-    if (!userId || typeof userId !== 'string') {
-      throw new Error("Missing or invalid 'userId' in request body.");
-    }
 
     console.log(`Received request: userId=${userId}, category=${category}`);
 
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ success: false, error: 'User profile not found' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 403,
-      });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ success: false, error: 'Trial expired' }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 403,
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ success: false, error: 'Trial call limit reached' }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 403,
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ success: false, error: 'Subscription inactive' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 403,
-      });
-    }
-
-    // 3. Initialize OpenAI Client
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      throw new Error('OPENAI_API_KEY environment variable not set.');
-    }
-    const openai = new OpenAI({ apiKey: openaiApiKey });
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'create-template-from-ai' });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
-    // 4. Construct Prompt for AI (Updated)
+    // 3. Construct Prompt for AI (Updated)
     const systemPrompt = `You are an AI assistant specialized in drafting legal document templates. Your goal is to generate a high-quality, reusable template based on user instructions.
 
 IMPORTANT INSTRUCTIONS:
@@ -152,40 +117,30 @@ IMPORTANT INSTRUCTIONS:
 
     const userPrompt = `User Instructions: ${instructions}`;
 
-    console.log('Sending request to OpenAI model:', AI_MODEL);
-
-    // 5. Call OpenAI API
-    const response = await openai.chat.completions.create({
-      model: AI_MODEL,
+    // 4. Call the LLM gateway for a JSON reply
+    const response = await llm.json<{ templateName?: unknown; templateContent?: unknown }>('create-template-from-ai', {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt },
       ],
-      response_format: { type: "json_object" }, // Request JSON output
       temperature: 0.4, // Lower temperature for more deterministic template structure
-      max_tokens: MAX_TOKENS_RESPONSE,
+      maxTokens: MAX_TOKENS_RESPONSE,
     });
+    console.log('Template generated by model:', response.usage.model);
 
-    const aiResultContent = response.choices[0]?.message?.content;
-
-    if (!aiResultContent) {
-      console.error('OpenAI response content was null or empty:', response);
-      throw new Error('AI model did not return valid content.');
-    }
-
-    // 6. Parse AI Response
+    // 5. Validate AI Response
     let generatedName;
     let generatedContent;
     let extractedVariables;
     try {
-      const parsedResult = JSON.parse(aiResultContent);
+      const parsedResult = response.data;
       if (typeof parsedResult.templateName !== 'string' || typeof parsedResult.templateContent !== 'string') {
         throw new Error('AI response JSON did not contain valid templateName or templateContent strings.');
       }
       generatedName = sanitizeName(parsedResult.templateName);
       generatedContent = parsedResult.templateContent; // Get raw content first
 
-      // 7. Post-process AI content to ensure correct format
+      // 6. Post-process AI content to ensure correct format
       generatedContent = ensureSpanFormat(generatedContent); 
       // --- End Post-processing ---
 
@@ -198,13 +153,13 @@ IMPORTANT INSTRUCTIONS:
 
       console.log(`AI generated template: Name="${generatedName}"`);
     } catch (parseError) {
-      console.error('Failed to parse JSON response from AI:', parseError);
-      console.error('Raw AI content:', aiResultContent); // Log raw content for debugging
-      throw new Error(`AI did not return valid JSON: ${parseError.message}`);
+      console.error('Invalid template in AI response:', parseError);
+      console.error('Raw AI content:', response.text); // Log raw content for debugging
+      throw new Error(`AI did not return a valid template: ${parseError.message}`);
     }
     if (!extractedVariables) extractedVariables = [];
 
-    // 8. Save to Database (Updated: ADDED 'variables' field)
+    // 7. Save to Database (Updated: ADDED 'variables' field)
     console.log(`Attempting to save template \"${generatedName}\" to database with variables:`, extractedVariables);
     const { data: dbData, error: dbError } = await supabaseAdmin
       .from('document_templates')
@@ -234,14 +189,9 @@ IMPORTANT INSTRUCTIONS:
     const newTemplateId = dbData.id;
     console.log(`Template saved successfully with ID: ${newTemplateId}`);
 
-    if (profile.subscription_status === 'trialing') {
-      await supabaseAdmin
-        .from('profiles')
-        .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-        .eq('id', userId);
-    }
+    await aiCall.succeed(response.usage);
 
-    // 9. Return Success Response
+    // 8. Return Success Response
     return new Response(
       JSON.stringify({ success: true, templateId: newTemplateId }),
       {
@@ -251,8 +201,9 @@ IMPORTANT INSTRUCTIONS:
     );
 
   } catch (error) {
-    // 10. Handle Errors
+    // 9. Handle Errors
     console.error('Error in create-template-from-ai function:', error);
+    await meter?.fail(error);
     return new Response(
       JSON.stringify({ success: false, error: error.message }),
       {
@@ -1,10 +1,11 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
-import type { SupabaseClient } from 'npm:@supabase/supabase-js@^2.0.0';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter, type AiCallUsage } from '../_shared/usage.ts';
+import { createLlmGateway, type LlmMessage, type LlmRequest, type LlmStream } from '../_shared/llm.ts';
 import { v4 as uuidv4 } from "npm:uuid";
-// import Anthropic from 'npm:@anthropic-ai/sdk@0.19.0'; // Will be replaced by Perplexity
-// import type { MessageParam } from 'npm:@anthropic-ai/sdk'; // Will be replaced by Perplexity
 
 // --- Database Interaction Types (can remain similar) ---
 interface DbConversation {
@@ -53,31 +54,32 @@ console.log('Deep Research Agent function initializing...');
 // Initialize Supabase admin client
 const supabaseAdmin = createSupabaseAdminClient();
 
-const perplexityApiKey = Deno.env.get('PERPLEXITY_API_TOKEN') || '';
-if (!perplexityApiKey) {
-  console.error('Missing PERPLEXITY_API_TOKEN for Deep Research Agent');
-}
+const llm = createLlmGateway();
 
 // Import type declarations for Deno
 type DenoReadableStream<T> = ReadableStream<T>;
 const encoder = new TextEncoder();
 
 
+// Citations arrive as bare URLs; their host is the most readable title available
+function sourceTitle(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
 // --- Main Handler for Deep Research ---
 async function handleDeepResearchQuery(
   query: string,
   // deno-lint-ignore no-explicit-any
   messages: any[], // Adjust type based on Perplexity's message format
   documentContext = '',
-  supabaseAdmin?: SupabaseClient,
-  userId?: string,
-  profile?: { subscription_status: string; trial_ai_calls_used?: number }
+  meter?: AiCallMeter
 ): Promise<DenoReadableStream<Uint8Array>> {
   console.log('--- handleDeepResearchQuery called ---');
-  const model = "sonar-reasoning-pro"; // Use reasoning model
-  console.log(`Selected model: ${model}`);
-  
-  const perplexityMessages = messages.map(msg => ({
+  const perplexityMessages = messages.map((msg): LlmMessage => ({
     role: msg.role === 'system' ? 'system' : (msg.role === 'user' ? 'user' : 'assistant'),
     content: msg.content
   }));
@@ -121,117 +123,63 @@ ${documentContext}`;
   const writer = transformer.writable.getWriter();
 
   (async () => {
+    let llmStream: LlmStream | undefined;
     try {
-      const requestBody = {
-        model: model,
+      const llmRequest: LlmRequest = {
         messages: [
           { role: "system", content: systemPrompt },
           ...perplexityMessages
         ],
-        stream: true,
-        web_search_options: {
-          search_context_size: "high" // For more comprehensive search context
+        providerOptions: {
+          perplexity: {
+            web_search_options: {
+              search_context_size: "high" // For more comprehensive search context
+            }
+          }
         }
-        // Perplexity specific options can be added here if needed
-        // e.g., search_focus, search_domain_filter, etc.
-        // For deep legal research, we might want to guide its search:
-        // options: { "search_focus": "scholar", "search_source_filter": ["legal_journals", "case_law_databases"] }, 
-        // The above options are examples and need to be validated against Perplexity's actual API.
-        // For now, keeping it simple until API docs are confirmed.
       };
 
-      console.log("Sending request to Perplexity:", JSON.stringify(requestBody, null, 2));
-
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${perplexityApiKey}`
-        },
-        body: JSON.stringify(requestBody)
-      });
+      console.log("Sending deep research request:", JSON.stringify(llmRequest, null, 2));
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Perplexity API error:', response.status, errorText);
-        throw new Error(`Perplexity API error (${response.status}): ${errorText}`);
-      }
-
-      if (!response.body) {
-        throw new Error('Perplexity response body is null');
-      }
+      llmStream = await llm.stream('deep-research-agent', llmRequest);
+      const model = llmStream.model;
+      console.log(`Researching with ${model}`);
 
       // Send metadata event first
       const metadataEvent = {
         type: 'metadata',
         responseType: 'deep_research', // Important for frontend
         model: model, 
-        sources: [] // Will populate if Perplexity provides structured sources
+        sources: [] // Populated from the citations Perplexity returns
       };
       await writer.write(encoder.encode(`data: ${JSON.stringify(metadataEvent)}\n\n`));
       
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
       let currentSources: SourceInfo[] = [];
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const rawJson = line.substring(5).trim();
-              if (rawJson === '[DONE]') { // Perplexity specific stream end might be different
-                 console.log('Perplexity stream indicated [DONE]');
-                 break; // Or handle completion
-              }
-              const eventData = JSON.parse(rawJson);
-              // console.log("Perplexity event:", JSON.stringify(eventData, null, 2));
-
-              if (eventData.choices && eventData.choices[0].delta?.content) {
-                await writer.write(encoder.encode(`data: ${JSON.stringify({ 
-                  type: 'answer', 
-                  content: eventData.choices[0].delta.content 
-                })}\n\n`));
-              }
-              
-              // Activate and refine Perplexity source streaming
-              if (eventData.choices && eventData.choices[0].sources && Array.isArray(eventData.choices[0].sources)) {
-                 const newSourcesThisEvent: SourceInfo[] = eventData.choices[0].sources.map((s: any) => ({
-                    title: s.title || s.name || "Unknown Source", // Prefer title, fallback to name
-                    url: s.url || "N/A",
-                    snippet: s.snippet || s.text || undefined // Prefer snippet, fallback to text
-                 })).filter((s: SourceInfo) => s.url !== "N/A"); // Filter out sources without URLs
-
-                 if (newSourcesThisEvent.length > 0) {
-                    console.log('Deep Research Agent - Parsed newSourcesThisEvent:', JSON.stringify(newSourcesThisEvent, null, 2)); // Added logging
-                    // Deduplicate sources based on URL before adding to currentSources
-                    const uniqueNewSources = newSourcesThisEvent.filter(newSrc => 
-                        !currentSources.some(existingSrc => existingSrc.url === newSrc.url)
-                    );
-
-                    if (uniqueNewSources.length > 0) {
-                        currentSources = [...currentSources, ...uniqueNewSources];
-                        // Send updated sources metadata
-                        await writer.write(encoder.encode(`data: ${JSON.stringify({
-                            type: 'metadata',
-                            responseType: 'deep_research',
-                            model: model,
-                            sources: currentSources // Send cumulative sources
-                        })}\n\n`));
-                    }
-                 }
-              }
-
-            } catch (e) {
-              console.warn('Failed to parse Perplexity SSE data:', line, e);
-            }
+      let usage: AiCallUsage | undefined;
+
+      for await (const event of llmStream.events) {
+        if (event.type === 'done') {
+          usage = event.usage;
+        } else if (event.type === 'text' && event.text) {
+          await writer.write(encoder.encode(`data: ${JSON.stringify({ 
+            type: 'answer', 
+            content: event.text 
+          })}\n\n`));
+        } else if (event.type === 'citations') {
+          // Citations are the URLs searched; deduplicate against the sources already sent
+          const uniqueNewSources = event.citations
+            .filter(url => !currentSources.some(existingSrc => existingSrc.url === url))
+            .map((url): SourceInfo => ({ title: sourceTitle(url), url }));
+
+          if (uniqueNewSources.length > 0) {
+            currentSources = [...currentSources, ...uniqueNewSources];
+            // Send updated sources metadata
+            await writer.write(encoder.encode(`data: ${JSON.stringify({
+              type: 'metadata',
+              responseType: 'deep_research',
+              model: model,
+              sources: currentSources // Send cumulative sources
+            })}\n\n`));
           }
         }
       }
@@ -239,15 +187,11 @@ ${documentContext}`;
       // Send final complete event
       await writer.write(encoder.encode(`data: ${JSON.stringify({ type: 'complete' })}\n\n`));
 
-      if (profile && userId && supabaseAdmin && profile.subscription_status === 'trialing') {
-        await supabaseAdmin
-          .from('profiles')
-          .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-          .eq('id', userId);
-      }
+      await meter?.succeed(usage ?? { model: llmStream.model });
 
     } catch (error) {
       console.error('Deep research stream processing error:', error);
+      await meter?.fail(error, llmStream && { model: llmStream.model }); // Before the stream opens, the LlmError names the model
       await writer.write(encoder.encode(`data: ${JSON.stringify({ 
         type: 'error',
         error: `Error in deep research: ${error.message}` 
@@ -268,64 +212,14 @@ serve(async (req: Request) => {
   }
 
   let newConversationId: string | null = null;
+  let meter: AiCallMeter | undefined;
 
   try {
-    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
-    if (!token) {
-      console.warn('Missing Authorization header');
-      return new Response(JSON.stringify({ error: 'Missing authorization token' }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-    if (userError || !user) {
-      const errorMessage = userError?.message || 'User not found for token';
-      console.error('Auth Error:', errorMessage);
-      return new Response(JSON.stringify({ error: errorMessage }), {
-        status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-    
-    const userId = user.id;
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
     console.log('User authenticated for Deep Research:', userId);
 
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
     const {
       messages,
       caseId,
@@ -352,6 +246,17 @@ serve(async (req: Request) => {
       });
     }
 
+    // Researching a case and reading its documents is open to members whose role allows AI use
+    if (caseId && !await canAccessCase(supabaseAdmin, caseId, userId, 'use_ai')) {
+      return new Response(JSON.stringify({ error: 'Case not found or access denied' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'deep-research-agent', caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
+
     let conversationId: string | null = conversationIdFromRequest || null;
     
     // Conversation Management (similar to claude-router)
@@ -427,9 +332,7 @@ ${(doc.extracted_text || '').substring(0, 5000)}
       queryContent,
       messages,
       fetchedContextText,
-      supabaseAdmin,
-      userId,
-      profile
+      aiCall
     );
     
     const responseHeadersInit: HeadersInit = { 
@@ -445,6 +348,7 @@ ${(doc.extracted_text || '').substring(0, 5000)}
     
   } catch (error) {
     console.error('Deep Research Agent error:', error);
+    await meter?.fail(error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'An unknown error occurred in Deep Research Agent' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
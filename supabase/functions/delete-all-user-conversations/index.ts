@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts'
-import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@^2.0.0'
 import { corsHeaders } from '../_shared/cors.ts'
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts'
+import { requireAuth } from '../_shared/auth.ts'
 
 console.log(`Function delete-all-user-conversations initializing...`)
 
@@ -11,34 +12,14 @@ serve(async (req: Request) => {
   }
 
   try {
-    // 1. Create Supabase client with Auth context
-    const supabaseClient: SupabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: req.headers.get('Authorization')! } } }
-    )
-
-    // 2. Get user session
-    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
-    if (userError || !user) {
-      console.error('User error:', userError)
-      return new Response(JSON.stringify({ error: 'Authentication required' }), {
-        status: 401,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      })
-    }
-    const userId = user.id;
+    // 1. Authenticate the caller; conversations are deleted with the admin client, scoped to them
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
     console.log('Authenticated user ID:', userId);
 
-    // 3. Create Admin client for elevated privileges (deleting other users' data is restricted)
-    // IMPORTANT: Only use admin client for operations requiring elevated access.
-    const supabaseAdmin: SupabaseClient = createClient(
-        Deno.env.get('SUPABASE_URL')!, 
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
-        { auth: { autoRefreshToken: false, persistSession: false } } // Important for server-side
-    );
-
-    // 4. Find all conversations for the user
+    // 2. Find all conversations for the user
     console.log(`Fetching conversations for user ${userId}...`);
     const { data: conversations, error: fetchError } = await supabaseAdmin
       .from('conversations')
@@ -61,7 +42,7 @@ serve(async (req: Request) => {
     const conversationIds = conversations.map(c => c.id);
     console.log(`Found ${conversationIds.length} conversations to delete.`);
 
-    // 5. Delete associated messages (ensure RLS/Policies allow this OR use Admin client)
+    // 3. Delete associated messages (ensure RLS/Policies allow this OR use Admin client)
     // Using Admin client here for simplicity, assuming cascade delete isn't set up or reliable
     console.log(`Deleting messages for ${conversationIds.length} conversations...`);
     const { error: messageDeleteError } = await supabaseAdmin
@@ -76,7 +57,7 @@ serve(async (req: Request) => {
     }
     console.log('Messages deleted successfully.');
 
-    // 6. Delete conversations
+    // 4. Delete conversations
     console.log(`Deleting ${conversationIds.length} conversations...`);
     const { error: conversationDeleteError } = await supabaseAdmin
       .from('conversations')
@@ -89,7 +70,7 @@ serve(async (req: Request) => {
     }
     console.log('Conversations deleted successfully.');
 
-    // 7. Return success response
+    // 5. Return success response
     return new Response(JSON.stringify({ success: true, deletedCount: conversationIds.length }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,137 @@
+// supabase/functions/embed-document/index.ts
+// Chunks a document's extracted text, embeds every chunk and stores the vectors in
+// document_chunks for semantic-search-documents. Invoked by extract-text once a document
+// reaches 'text_extracted'; can also be called by anyone who can edit the document to re-index.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings.ts';
+import { chunkText } from '../_shared/textChunking.ts';
+import { canAccessDocument } from '../_shared/caseAccess.ts';
+import { isServiceRoleRequest, requireAuth } from '../_shared/auth.ts';
+import { startAiCall } from '../_shared/usage.ts';
+
+// Small chunks retrieve precise passages; the overlap keeps sentences that straddle a boundary searchable
+const EMBEDDING_CHUNK_SIZE = 1500;
+const EMBEDDING_CHUNK_OVERLAP = 200;
+const INSERT_BATCH_SIZE = 100;
+
+console.log('Function embed-document initializing...');
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ success: false, error: 'Method Not Allowed' }), {
+      status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  const supabaseAdmin = createSupabaseAdminClient();
+  let documentId: string | null = null;
+
+  try {
+    // --- Authorization: service role (extract-text) or a user who can edit the document ---
+    let callerId: string | null = null;
+    if (!isServiceRoleRequest(req)) {
+      const auth = await requireAuth(req, supabaseAdmin);
+      if (auth instanceof Response) return auth;
+      callerId = auth.user.id;
+    }
+
+    const body = await req.json();
+    documentId = body?.documentId ?? null;
+    if (!documentId || typeof documentId !== 'string') {
+      return new Response(JSON.stringify({ success: false, error: 'Missing required parameter: documentId' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { data: doc, error: docError } = await supabaseAdmin
+      .from('documents')
+      .select('id, owner_id, case_id, extracted_text, is_deleted')
+      .eq('id', documentId)
+      .maybeSingle();
+    if (docError) throw new Error(`Failed to load document: ${docError.message}`);
+    if (!doc || doc.is_deleted) {
+      return new Response(JSON.stringify({ success: false, error: 'Document not found' }), {
+        status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    if (callerId && !await canAccessDocument(supabaseAdmin, doc, callerId, 'edit')) {
+      return new Response(JSON.stringify({ success: false, error: 'Not allowed to index this document' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const text: string = doc.extracted_text || '';
+    if (!text.trim()) {
+      await supabaseAdmin.from('documents')
+        .update({ processing_status: 'embedding_failed', error_message: 'No extracted text to embed' })
+        .eq('id', documentId);
+      return new Response(JSON.stringify({ success: false, error: 'Document has no extracted text to embed' }), {
+        status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    await supabaseAdmin.from('documents').update({ processing_status: 'embedding_pending' }).eq('id', documentId);
+
+    // 1. Chunk and embed
+    const provider = createEmbeddingProvider();
+    const chunks = chunkText(text, EMBEDDING_CHUNK_SIZE, EMBEDDING_CHUNK_OVERLAP);
+    console.log(`[embed-document] ${documentId}: ${chunks.length} chunk(s), provider ${provider.name}/${provider.model}`);
+    // Indexing is recorded against the document's owner but never counted toward their quota
+    const meter = await startAiCall(supabaseAdmin, { user: { id: doc.owner_id }, profile: null }, {
+      functionName: 'embed-document', feature: 'embedding', caseId: doc.case_id, countsTowardQuota: false,
+    });
+    const embeddings = await provider.embed(chunks.map(chunk => chunk.text)).catch(async embedError => {
+      await meter.fail(embedError, { model: provider.model });
+      throw embedError;
+    });
+    await meter.succeed({ model: provider.model });
+    if (embeddings.length !== chunks.length) {
+      throw new Error(`Embedding provider returned ${embeddings.length} vectors for ${chunks.length} chunks`);
+    }
+
+    // 2. Replace any previous chunks for this document
+    const { error: deleteError } = await supabaseAdmin.from('document_chunks').delete().eq('document_id', documentId);
+    if (deleteError) throw new Error(`Failed to clear previous chunks: ${deleteError.message}`);
+
+    const rows = chunks.map((chunk, i) => ({
+      document_id: documentId,
+      case_id: doc.case_id,
+      owner_id: doc.owner_id,
+      chunk_index: chunk.index,
+      start_offset: chunk.start,
+      end_offset: chunk.end,
+      content: chunk.text,
+      embedding: embeddings[i],
+      embedding_model: provider.model,
+    }));
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const { error: insertError } = await supabaseAdmin.from('document_chunks').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+      if (insertError) throw new Error(`Failed to store chunk embeddings: ${insertError.message}`);
+    }
+
+    // 3. Mark the document fully processed
+    await supabaseAdmin.from('documents')
+      .update({ processing_status: 'completed', error_message: null })
+      .eq('id', documentId);
+
+    return new Response(JSON.stringify({ success: true, documentId, chunkCount: chunks.length, model: provider.model }), {
+      status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown embedding error';
+    console.error('[embed-document] Error:', message);
+    if (documentId) {
+      await supabaseAdmin.from('documents')
+        .update({ processing_status: 'embedding_failed', error_message: message })
+        .eq('id', documentId);
+    }
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,137 @@
+// supabase/functions/extract-text/compoundFile.ts
+// Reader for the OLE2 Compound File Binary format ([MS-CFB]), the container behind Word 97
+// .doc and Outlook .msg files: a FAT-style filesystem of storages (folders) and streams.
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+
+const ENTRY_STORAGE = 1;
+const ENTRY_STREAM = 2;
+const ENTRY_ROOT = 5;
+
+export interface CompoundFileEntry {
+  path: string; // Slash-separated from the root, e.g. "__attach_version1.0_#00000000/__substg1.0_37010102"
+  name: string;
+  isStorage: boolean;
+  size: number;
+}
+
+export interface CompoundFile {
+  entries: CompoundFileEntry[];
+  read(path: string): Uint8Array | null;
+}
+
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  start: number;
+  size: number;
+}
+
+export function isCompoundFile(data: Uint8Array): boolean {
+  return data.length >= 512 && SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+export function openCompoundFile(data: Uint8Array): CompoundFile {
+  if (!isCompoundFile(data)) throw new Error('Not an OLE compound file');
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // --- FAT: sector list from the header DIFAT, continued in DIFAT sectors ---
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector !== FREE_SECTOR) fatSectors.push(sector);
+  }
+  let difatSector = view.getUint32(0x44, true);
+  for (let guard = 0; difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR && guard < 1 << 16; guard++) {
+    const base = sectorOffset(difatSector);
+    const perSector = sectorSize / 4 - 1;
+    for (let i = 0; i < perSector; i++) {
+      const sector = view.getUint32(base + i * 4, true);
+      if (sector !== FREE_SECTOR) fatSectors.push(sector);
+    }
+    difatSector = view.getUint32(base + perSector * 4, true);
+  }
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const base = sectorOffset(sector);
+    for (let i = 0; i < sectorSize / 4; i++) fat.push(view.getUint32(base + i * 4, true));
+  }
+
+  const readChain = (start: number, table: number[], unitSize: number, unitOffset: (n: number) => number, source: Uint8Array): Uint8Array => {
+    const units: number[] = [];
+    for (let sector = start; sector !== END_OF_CHAIN && sector < table.length; sector = table[sector]) {
+      if (units.length > table.length) throw new Error('Corrupt compound file (sector chain loops)');
+      units.push(sector);
+    }
+    const out = new Uint8Array(units.length * unitSize);
+    units.forEach((unit, i) => out.set(source.subarray(unitOffset(unit), unitOffset(unit) + unitSize), i * unitSize));
+    return out;
+  };
+  const readSectors = (start: number) => readChain(start, fat, sectorSize, sectorOffset, data);
+
+  // --- Directory ---
+  const directoryBytes = readSectors(view.getUint32(0x30, true));
+  const directoryView = new DataView(directoryBytes.buffer);
+  const directory: DirectoryEntry[] = [];
+  for (let offset = 0; offset + 128 <= directoryBytes.length; offset += 128) {
+    const nameLength = directoryView.getUint16(offset + 0x40, true);
+    directory.push({
+      name: new TextDecoder('utf-16le').decode(directoryBytes.subarray(offset, offset + Math.max(nameLength - 2, 0))),
+      type: directoryBytes[offset + 0x42],
+      left: directoryView.getUint32(offset + 0x44, true),
+      right: directoryView.getUint32(offset + 0x48, true),
+      child: directoryView.getUint32(offset + 0x4c, true),
+      start: directoryView.getUint32(offset + 0x74, true),
+      size: directoryView.getUint32(offset + 0x78, true), // Low 32 bits; streams here never exceed 4GB
+    });
+  }
+  const root = directory[0];
+  if (!root || root.type !== ENTRY_ROOT) throw new Error('Corrupt compound file (no root entry)');
+
+  // --- Mini stream: small streams are packed into the root entry's data in 64-byte sectors ---
+  const miniStream = readSectors(root.start);
+  const miniFatBytes = readSectors(view.getUint32(0x3c, true));
+  const miniFatView = new DataView(miniFatBytes.buffer);
+  const miniFat: number[] = [];
+  for (let i = 0; i + 4 <= miniFatBytes.length; i += 4) miniFat.push(miniFatView.getUint32(i, true));
+
+  // --- Walk the red-black sibling trees into flat paths ---
+  const entries: CompoundFileEntry[] = [];
+  const byPath = new Map<string, DirectoryEntry>();
+  const visit = (index: number, parentPath: string, depth: number) => {
+    if (index === NO_STREAM || index >= directory.length || depth > 256) return;
+    const entry = directory[index];
+    visit(entry.left, parentPath, depth + 1);
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+    if (entry.type === ENTRY_STORAGE || entry.type === ENTRY_STREAM) {
+      entries.push({ path, name: entry.name, isStorage: entry.type === ENTRY_STORAGE, size: entry.size });
+      byPath.set(path, entry);
+      if (entry.type === ENTRY_STORAGE) visit(entry.child, path, depth + 1);
+    }
+    visit(entry.right, parentPath, depth + 1);
+  };
+  visit(root.child, '', 0);
+
+  return {
+    entries,
+    read: (path) => {
+      const entry = byPath.get(path);
+      if (!entry || entry.type !== ENTRY_STREAM) return null;
+      const bytes = entry.size < miniStreamCutoff
+        ? readChain(entry.start, miniFat, miniSectorSize, n => n * miniSectorSize, miniStream)
+        : readSectors(entry.start);
+      return bytes.subarray(0, entry.size);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { convertDocxToHtml } from './docxHtml';
+
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/sample.docx', import.meta.url)));
+
+describe('DOCX to editor HTML', () => {
+  test('keeps headings, alignment, run formatting, links and tracked changes', async () => {
+    const html = await convertDocxToHtml(fixture);
+    expect(html).toMatch(/^<h1 style="text-align: center">Services Agreement<\/h1>/);
+    expect(html).toContain('<p><strong>This Agreement</strong> is <em>binding</em> on <u>both</u> parties<sup>1</sup> &amp; their <a href="https://example.com/terms">successors</a>.'
+      + '<del data-change-id="docx-del-1" data-author="A" data-date="2024-01-01T00:00:00Z"> Old wording.</del>'
+      + '<ins data-change-id="docx-ins-2" data-author="A" data-date="2024-01-01T00:00:00Z"> New wording.</ins></p>');
+    expect(html).toContain('<p>End of page one</p><hr class="page-break"><h2 style="text-align: right">Signatures</h2>');
+  });
+
+  test('turns simple numbering into lists that keep counting, and writes out multi-level numbers', async () => {
+    const html = await convertDocxToHtml(fixture);
+    expect(html).toContain('<h1>1. Definitions</h1><p>1.1 &quot;Services&quot; means the work in Exhibit A.</p><p>1.2 &quot;Fees&quot;');
+    expect(html).toContain('<ol><li><p>First step</p><ol type="a"><li><p>Sub step</p></li></ol></li><li><p>Second step</p></li></ol>');
+    expect(html).toContain('<ol start="3"><li><p>Third step</p></li></ol><ul><li><p>A bullet</p></li></ul>');
+  });
+
+  test('converts tables with header rows, merged and shaded cells', async () => {
+    const html = await convertDocxToHtml(fixture);
+    expect(html).toContain(
+      '<table><tbody><tr><th><p>Party</p></th><th><p>Role</p></th></tr>'
+      + '<tr><td rowspan="2"><p>Acme</p></td><td style="background-color: #DBEAFE"><p>Provider</p></td></tr>'
+      + '<tr><td><p>Licensor</p></td></tr><tr><td colspan="2"><p></p></td></tr></tbody></table>',
+    );
+  });
+
+  test('collects footnotes as numbered notes at the end', async () => {
+    const html = await convertDocxToHtml(fixture);
+    expect(html).toMatch(/<h2>Notes<\/h2><ol><li><p>See Cal\. Civ\. Code § 1542\.<\/p><\/li><li><p>As amended\.<\/p><\/li><\/ol>$/);
+  });
+});
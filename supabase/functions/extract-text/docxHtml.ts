@@ -0,0 +1,470 @@
+// supabase/functions/extract-text/docxHtml.ts
+// DOCX -> editor HTML, stored as a new document's initial edited_content so the reviewer opens an
+// uploaded agreement with its headings, numbered lists, tables and run formatting intact.
+// Footnotes and endnotes are numbered together in reference order and collected under "Notes".
+// Tracked insertions and deletions come through as <ins>/<del> for the editor's suggest mode.
+import { decodeXml, xmlAttribute } from './xml.ts';
+import { openZip } from './zip.ts';
+
+interface XmlElement {
+  name: string;
+  tag: string; // The start tag, for xmlAttribute
+  children: XmlNode[];
+}
+type XmlNode = XmlElement | string;
+
+// Builds an element tree. Tables nest inside table cells, so unlike the other extractors a flat
+// regex over the paragraphs is not enough here.
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#root', tag: '', children: [] };
+  const stack = [root];
+  for (const match of xml.matchAll(/<(\/?)([\w:.-]+)((?:\s[^>]*?)?)(\/?)>|<[?!][^>]*>|([^<]+)/g)) {
+    const [token, closing, name, , selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.children.push(decodeXml(text));
+    } else if (!name) {
+      continue; // Declaration, comment or processing instruction
+    } else if (closing) {
+      if (stack.length > 1 && parent.name === name) stack.pop();
+    } else {
+      const element: XmlElement = { name, tag: token, children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+  return root;
+}
+
+const elements = (node: XmlElement, name?: string) =>
+  node.children.filter((child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name));
+const child = (node: XmlElement | undefined, name: string) => node ? elements(node, name)[0] : undefined;
+const val = (node: XmlElement | undefined) => node ? xmlAttribute(node.tag, 'w:val') : null;
+const textOf = (node: XmlElement): string => node.children.map(c => typeof c === 'string' ? c : textOf(c)).join('');
+
+// On/off properties (<w:b/>, <w:b w:val="false"/>)
+const isOn = (node: XmlElement | undefined) => !!node && !['0', 'false', 'off'].includes(val(node) ?? '');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface ParagraphStyle {
+  heading: number | null;
+  numbering: { numId: string; level: number } | null;
+}
+
+interface ListLevelFormat {
+  format: string; // w:numFmt: decimal, lowerLetter, upperRoman, bullet...
+  text: string; // w:lvlText, e.g. "%1.%2" for "1.3"
+  start: number;
+}
+
+interface DocxParts {
+  styles: Map<string, ParagraphStyle>;
+  numbering: Map<string, ListLevelFormat[]>; // numId -> levels
+  links: Map<string, string>; // Relationship id -> external URL
+  notes: Map<string, XmlElement>; // "footnote:2" / "endnote:1" -> note body
+}
+
+const HEADING_STYLE = /^heading\s*([1-9])$/i;
+
+function readStyles(xml: string | null): Map<string, ParagraphStyle> {
+  const raw = new Map<string, { basedOn: string | null; heading: number | null; numbering: ParagraphStyle['numbering'] }>();
+  if (xml) {
+    const root = child(parseXml(xml), 'w:styles');
+    for (const style of root ? elements(root, 'w:style') : []) {
+      if (xmlAttribute(style.tag, 'w:type') !== 'paragraph') continue;
+      const id = xmlAttribute(style.tag, 'w:styleId');
+      if (!id) continue;
+      const name = val(child(style, 'w:name')) ?? '';
+      const pPr = child(style, 'w:pPr');
+      const outline = val(child(pPr, 'w:outlineLvl'));
+      const headingMatch = name.match(HEADING_STYLE);
+      const numPr = child(pPr, 'w:numPr');
+      const numId = val(child(numPr, 'w:numId'));
+      raw.set(id, {
+        basedOn: val(child(style, 'w:basedOn')),
+        heading: headingMatch ? Number(headingMatch[1]) : name.toLowerCase() === 'title' ? 1 : outline !== null ? Number(outline) + 1 : null,
+        numbering: numId ? { numId, level: Number(val(child(numPr, 'w:ilvl')) ?? 0) } : null,
+      });
+    }
+  }
+
+  // Headings and list numbering are inherited through basedOn
+  const resolved = new Map<string, ParagraphStyle>();
+  for (const id of raw.keys()) {
+    const style: ParagraphStyle = { heading: null, numbering: null };
+    let current = raw.get(id);
+    for (let depth = 0; current && depth < 10; depth++) {
+      style.heading ??= current.heading;
+      style.numbering ??= current.numbering;
+      current = current.basedOn ? raw.get(current.basedOn) : undefined;
+    }
+    if (style.heading !== null && (style.heading < 1 || style.heading > 6)) style.heading = null;
+    resolved.set(id, style);
+  }
+  return resolved;
+}
+
+function readNumbering(xml: string | null): Map<string, ListLevelFormat[]> {
+  const numbering = new Map<string, ListLevelFormat[]>();
+  if (!xml) return numbering;
+  const root = child(parseXml(xml), 'w:numbering');
+  if (!root) return numbering;
+
+  const abstracts = new Map<string, ListLevelFormat[]>();
+  for (const abstract of elements(root, 'w:abstractNum')) {
+    const levels: ListLevelFormat[] = [];
+    for (const lvl of elements(abstract, 'w:lvl')) {
+      levels[Number(xmlAttribute(lvl.tag, 'w:ilvl') ?? 0)] = {
+        format: val(child(lvl, 'w:numFmt')) ?? 'decimal',
+        text: val(child(lvl, 'w:lvlText')) ?? '',
+        start: Number(val(child(lvl, 'w:start')) ?? 1),
+      };
+    }
+    abstracts.set(xmlAttribute(abstract.tag, 'w:abstractNumId') ?? '', levels);
+  }
+  for (const num of elements(root, 'w:num')) {
+    const levels = (abstracts.get(val(child(num, 'w:abstractNumId')) ?? '') ?? []).map(level => ({ ...level }));
+    for (const override of elements(num, 'w:lvlOverride')) {
+      const start = val(child(override, 'w:startOverride'));
+      const level = levels[Number(xmlAttribute(override.tag, 'w:ilvl') ?? 0)];
+      if (start !== null && level) level.start = Number(start);
+    }
+    numbering.set(xmlAttribute(num.tag, 'w:numId') ?? '', levels);
+  }
+  return numbering;
+}
+
+function readLinks(xml: string | null): Map<string, string> {
+  const links = new Map<string, string>();
+  for (const [tag] of (xml ?? '').matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = xmlAttribute(tag, 'Id');
+    const target = xmlAttribute(tag, 'Target');
+    if (id && target && xmlAttribute(tag, 'TargetMode') === 'External') links.set(id, target);
+  }
+  return links;
+}
+
+function readNotes(xml: string | null, kind: 'footnote' | 'endnote', notes: Map<string, XmlElement>) {
+  if (!xml) return;
+  const root = child(parseXml(xml), `w:${kind}s`);
+  for (const note of root ? elements(root, `w:${kind}`) : []) {
+    // Separator and continuation notices are not real notes
+    const type = xmlAttribute(note.tag, 'w:type');
+    if (type && type !== 'normal') continue;
+    notes.set(`${kind}:${xmlAttribute(note.tag, 'w:id')}`, note);
+  }
+}
+
+const ALIGNMENTS: Record<string, string> = { center: 'center', right: 'right', end: 'right', both: 'justify', distribute: 'justify' };
+// Ordered list formats an HTML list can show
+const LIST_TYPES: Record<string, string> = { decimal: '1', lowerLetter: 'a', upperLetter: 'A', lowerRoman: 'i', upperRoman: 'I' };
+
+const ROMAN: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+
+function formatNumber(n: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+    case 'upperLetter': {
+      // Word repeats the letter past z: aa, bb...
+      const letter = String.fromCharCode(97 + ((n - 1) % 26)).repeat(Math.floor((n - 1) / 26) + 1);
+      return format === 'upperLetter' ? letter.toUpperCase() : letter;
+    }
+    case 'lowerRoman':
+    case 'upperRoman': {
+      let roman = '';
+      let rest = n;
+      for (const [value, digits] of ROMAN) {
+        for (; rest >= value; rest -= value) roman += digits;
+      }
+      return format === 'upperRoman' ? roman.toUpperCase() : roman;
+    }
+    case 'decimalZero':
+      return String(n).padStart(2, '0');
+    default:
+      return String(n);
+  }
+}
+
+interface OpenList {
+  numId: string;
+  level: number;
+  tag: 'ol' | 'ul';
+}
+
+interface WriterState {
+  html: string[];
+  lists: OpenList[];
+  // Current number per list and level, so a list interrupted by other paragraphs carries on counting
+  counters: Map<string, number[]>;
+  noteOrder: string[]; // Note keys in the order they are referenced
+}
+
+function closeList(state: WriterState) {
+  state.html.push(`</li></${state.lists.pop()!.tag}>`);
+}
+
+function closeLists(state: WriterState) {
+  while (state.lists.length > 0) closeList(state);
+}
+
+function pushPageBreak(state: WriterState) {
+  closeLists(state);
+  state.html.push('<hr class="page-break">');
+}
+
+// Steps the list's counter at this level; a higher-level item restarts the numbering beneath it
+function advanceCounter(state: WriterState, numId: string, level: number, levels: ListLevelFormat[]): number[] {
+  const counters = state.counters.get(numId) ?? [];
+  state.counters.set(numId, counters);
+  counters[level] = (counters[level] ?? (levels[level]?.start ?? 1) - 1) + 1;
+  counters.length = level + 1;
+  return counters;
+}
+
+// "%1.%2(%3)" with each placeholder in its own level's format
+function numberLabel(levelText: string, counters: number[], levels: ListLevelFormat[]): string {
+  return levelText.replace(/%([1-9])/g, (_, n: string) => {
+    const index = Number(n) - 1;
+    return formatNumber(counters[index] ?? levels[index]?.start ?? 1, levels[index]?.format ?? 'decimal');
+  });
+}
+
+function openListItem(state: WriterState, numId: string, level: number, tag: 'ol' | 'ul', start: number, format: string) {
+  while (state.lists.length > 0 && state.lists[state.lists.length - 1].level > level) closeList(state);
+  const top = state.lists[state.lists.length - 1];
+  if (top && top.level === level && (top.numId !== numId || top.tag !== tag)) closeList(state);
+
+  const current = state.lists[state.lists.length - 1];
+  if (current && current.level === level) {
+    state.html.push('</li><li>');
+    return;
+  }
+  let open = `<${tag}`;
+  if (tag === 'ol' && format !== 'decimal') open += ` type="${LIST_TYPES[format]}"`;
+  if (tag === 'ol' && start !== 1) open += ` start="${start}"`;
+  state.html.push(`${open}><li>`);
+  state.lists.push({ numId, level, tag });
+}
+
+function convertRun(r: XmlElement, parts: DocxParts, state: WriterState, pageBreak: { after: boolean }, link: string | undefined): string {
+  let text = '';
+  for (const node of elements(r)) {
+    if (node.name === 'w:t' || node.name === 'w:delText') {
+      text += escapeHtml(textOf(node));
+    } else if (node.name === 'w:tab') {
+      text += '\t';
+    } else if (node.name === 'w:noBreakHyphen') {
+      text += '‑';
+    } else if (node.name === 'w:br' || node.name === 'w:cr') {
+      if (xmlAttribute(node.tag, 'w:type') === 'page') pageBreak.after = true;
+      else text += '<br>';
+    } else if (node.name === 'w:footnoteReference' || node.name === 'w:endnoteReference') {
+      const key = `${node.name === 'w:footnoteReference' ? 'footnote' : 'endnote'}:${xmlAttribute(node.tag, 'w:id')}`;
+      if (parts.notes.has(key)) {
+        state.noteOrder.push(key);
+        text += `<sup>${state.noteOrder.length}</sup>`;
+      }
+    }
+  }
+  if (!text) return '';
+
+  const rPr = child(r, 'w:rPr');
+  const vertAlign = val(child(rPr, 'w:vertAlign'));
+  if (vertAlign === 'superscript' && !text.startsWith('<sup>')) text = `<sup>${text}</sup>`;
+  if (vertAlign === 'subscript') text = `<sub>${text}</sub>`;
+  if (isOn(child(rPr, 'w:strike')) || isOn(child(rPr, 'w:dstrike'))) text = `<s>${text}</s>`;
+  // Hyperlink styles underline their text; the link already shows that
+  const underline = child(rPr, 'w:u');
+  if (underline && val(underline) !== 'none' && !link) text = `<u>${text}</u>`;
+  if (isOn(child(rPr, 'w:i'))) text = `<em>${text}</em>`;
+  if (isOn(child(rPr, 'w:b'))) text = `<strong>${text}</strong>`;
+  return text;
+}
+
+function revisionHtml(revision: XmlElement, inner: string): string {
+  const tag = revision.name === 'w:ins' ? 'ins' : 'del';
+  const id = xmlAttribute(revision.tag, 'w:id');
+  const author = xmlAttribute(revision.tag, 'w:author');
+  const date = xmlAttribute(revision.tag, 'w:date');
+  let attributes = ` data-author="${escapeHtml(author || 'Unknown')}"`;
+  if (id) attributes = ` data-change-id="docx-${tag}-${escapeHtml(id)}"${attributes}`;
+  if (date) attributes += ` data-date="${escapeHtml(date)}"`;
+  return `<${tag}${attributes}>${inner}</${tag}>`;
+}
+
+function convertInline(container: XmlElement, parts: DocxParts, state: WriterState, pageBreak: { after: boolean }, link?: string): string {
+  let html = '';
+  for (const node of elements(container)) {
+    switch (node.name) {
+      case 'w:r':
+        html += convertRun(node, parts, state, pageBreak, link);
+        break;
+      case 'w:hyperlink': {
+        const href = link ? undefined : parts.links.get(xmlAttribute(node.tag, 'r:id') ?? '');
+        const inner = convertInline(node, parts, state, pageBreak, href ?? link);
+        html += href ? `<a href="${escapeHtml(href)}">${inner}</a>` : inner;
+        break;
+      }
+      // Word revisions become the editor's tracked changes, keeping their author and date
+      case 'w:ins':
+      case 'w:del': {
+        const inner = convertInline(node, parts, state, pageBreak, link);
+        if (inner) html += revisionHtml(node, inner);
+        break;
+      }
+      // Moves read as they do now: the text at its destination, nothing at its source
+      case 'w:moveTo':
+      case 'w:fldSimple':
+      case 'w:smartTag':
+      case 'w:customXml':
+        html += convertInline(node, parts, state, pageBreak, link);
+        break;
+      case 'w:sdt':
+        html += convertInline(child(node, 'w:sdtContent') ?? node, parts, state, pageBreak, link);
+        break;
+    }
+  }
+  return html;
+}
+
+function convertParagraph(p: XmlElement, parts: DocxParts, state: WriterState) {
+  const pPr = child(p, 'w:pPr');
+  const style = parts.styles.get(val(child(pPr, 'w:pStyle')) ?? '');
+  const numPr = child(pPr, 'w:numPr');
+  const outline = val(child(pPr, 'w:outlineLvl'));
+  const heading = style?.heading ?? (outline !== null && Number(outline) < 6 ? Number(outline) + 1 : null);
+  const align = ALIGNMENTS[val(child(pPr, 'w:jc')) ?? ''];
+  const attributes = align ? ` style="text-align: ${align}"` : '';
+
+  const pageBreak = { after: false };
+  let content = convertInline(p, parts, state, pageBreak);
+  if (isOn(child(pPr, 'w:pageBreakBefore'))) pushPageBreak(state);
+
+  // numId 0 switches off numbering that the paragraph style would otherwise apply
+  const numId = val(child(numPr, 'w:numId')) ?? style?.numbering?.numId ?? null;
+  const levels = numId && numId !== '0' ? parts.numbering.get(numId) : undefined;
+  const level = Math.min(Number(val(child(numPr, 'w:ilvl')) ?? style?.numbering?.level ?? 0), 8);
+  const format = levels?.[level];
+  let listTag: 'ol' | 'ul' | null = null;
+  if (numId && levels && format && format.format !== 'none') {
+    const counters = advanceCounter(state, numId, level, levels);
+    // Plain "1." / "a." levels and bullets become HTML lists. Anything an HTML list can't show
+    // ("1.1", "(a)", "Article I") is written out as text, so clause references still match.
+    if (format.format === 'bullet') listTag = 'ul';
+    else if (!heading && LIST_TYPES[format.format] && format.text === `%${level + 1}.`) listTag = 'ol';
+    else if (format.text) content = `${escapeHtml(numberLabel(format.text, counters, levels))} ${content}`;
+    if (listTag) openListItem(state, numId, level, listTag, counters[level], format.format);
+  }
+
+  if (listTag) {
+    state.html.push(`<p${attributes}>${content}</p>`);
+  } else {
+    closeLists(state);
+    const tag = heading ? `h${heading}` : 'p';
+    state.html.push(`<${tag}${attributes}>${content}</${tag}>`);
+  }
+  if (pageBreak.after) pushPageBreak(state);
+}
+
+function convertTable(tbl: XmlElement, parts: DocxParts, state: WriterState) {
+  closeLists(state);
+  const rows = elements(tbl, 'w:tr').map(tr => {
+    let column = 0;
+    const cells = elements(tr, 'w:tc').map(tc => {
+      const tcPr = child(tc, 'w:tcPr');
+      const vMerge = child(tcPr, 'w:vMerge');
+      const cell = {
+        tc,
+        column,
+        colspan: Math.max(1, Number(val(child(tcPr, 'w:gridSpan')) ?? 1)),
+        rowspan: 1,
+        merge: vMerge ? (val(vMerge) === 'restart' ? 'restart' : 'continue') : null,
+        fill: xmlAttribute(child(tcPr, 'w:shd')?.tag ?? '', 'w:fill'),
+      };
+      column += cell.colspan;
+      return cell;
+    });
+    return { header: isOn(child(child(tr, 'w:trPr'), 'w:tblHeader')), cells };
+  });
+
+  // A vertically merged cell spans down over the "continue" cells below it in the same grid column
+  rows.forEach((row, rowIndex) => {
+    for (const cell of row.cells) {
+      if (cell.merge !== 'restart') continue;
+      while (rows[rowIndex + cell.rowspan]?.cells.some(other => other.column === cell.column && other.merge === 'continue')) cell.rowspan++;
+    }
+  });
+
+  state.html.push('<table><tbody>');
+  for (const row of rows) {
+    state.html.push('<tr>');
+    for (const cell of row.cells) {
+      if (cell.merge === 'continue') continue;
+      const tag = row.header ? 'th' : 'td';
+      let open = `<${tag}`;
+      if (cell.colspan > 1) open += ` colspan="${cell.colspan}"`;
+      if (cell.rowspan > 1) open += ` rowspan="${cell.rowspan}"`;
+      if (cell.fill && /^[0-9a-f]{6}$/i.test(cell.fill) && cell.fill.toUpperCase() !== 'FFFFFF') open += ` style="background-color: #${cell.fill.toUpperCase()}"`;
+      state.html.push(`${open}>`);
+      const start = state.html.length;
+      convertBlocks(cell.tc, parts, state);
+      closeLists(state);
+      if (state.html.length === start) state.html.push('<p></p>');
+      state.html.push(`</${tag}>`);
+    }
+    state.html.push('</tr>');
+  }
+  state.html.push('</tbody></table>');
+}
+
+function convertBlocks(container: XmlElement, parts: DocxParts, state: WriterState) {
+  for (const node of elements(container)) {
+    if (node.name === 'w:p') convertParagraph(node, parts, state);
+    else if (node.name === 'w:tbl') convertTable(node, parts, state);
+    // Content controls and custom XML wrap ordinary paragraphs and tables
+    else if (node.name === 'w:sdt') convertBlocks(child(node, 'w:sdtContent') ?? node, parts, state);
+    else if (node.name === 'w:customXml' || node.name === 'w:ins') convertBlocks(node, parts, state);
+  }
+}
+
+const newState = (): WriterState => ({ html: [], lists: [], counters: new Map(), noteOrder: [] });
+
+/**
+ * Converts a DOCX to HTML for the document editor: headings (from heading styles and outline
+ * levels), numbered and bulleted lists, tables with merged and shaded cells, bold/italic/underline/
+ * strikethrough runs, links and page breaks. Tracked changes are shown accepted. Returns null when
+ * the file has no main document part.
+ */
+export async function convertDocxToHtml(data: Uint8Array): Promise<string | null> {
+  const zip = openZip(data);
+  const documentXml = await zip.readText('word/document.xml');
+  const body = documentXml ? child(child(parseXml(documentXml), 'w:document'), 'w:body') : undefined;
+  if (!body) return null;
+
+  const notes = new Map<string, XmlElement>();
+  readNotes(await zip.readText('word/footnotes.xml'), 'footnote', notes);
+  readNotes(await zip.readText('word/endnotes.xml'), 'endnote', notes);
+  const parts: DocxParts = {
+    styles: readStyles(await zip.readText('word/styles.xml')),
+    numbering: readNumbering(await zip.readText('word/numbering.xml')),
+    links: readLinks(await zip.readText('word/_rels/document.xml.rels')),
+    notes,
+  };
+
+  const state = newState();
+  convertBlocks(body, parts, state);
+  closeLists(state);
+  if (state.noteOrder.length === 0) return state.html.join('');
+
+  // Notes can't reference further notes, so each is converted without any
+  const noteParts = { ...parts, notes: new Map<string, XmlElement>() };
+  const items = state.noteOrder.map(key => {
+    const note = newState();
+    convertBlocks(parts.notes.get(key)!, noteParts, note);
+    closeLists(note);
+    return `<li>${note.html.join('')}</li>`;
+  });
+  return `${state.html.join('')}<h2>Notes</h2><ol>${items.join('')}</ol>`;
+}
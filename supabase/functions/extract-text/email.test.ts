@@ -0,0 +1,55 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { formatEmailText, parseEml, toEmailMetadata } from './email';
+
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/sample.eml', import.meta.url)));
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('.eml parsing', () => {
+  const email = parseEml(fixture);
+
+  test('decodes folded and RFC 2047 encoded headers', () => {
+    expect(email.headers).toEqual({
+      from: '"Smith, Jane" <jane.smith@example.com>',
+      to: 'Bob Jones <bob@example.org>, Legal Team <legal@example.org>',
+      cc: 'Clément <clement@example.org>',
+      date: 'Tue, 5 Mar 2024 14:30:00 +0000',
+      subject: 'Re: Contract réview – draft 2',
+      messageId: 'abc123@example.com',
+      inReplyTo: 'draft1@example.org',
+      references: ['kickoff@example.org', 'draft1@example.org'],
+    });
+  });
+
+  test('derives an ISO send time for the stored metadata', () => {
+    expect(toEmailMetadata(email).sentAt).toBe('2024-03-05T14:30:00.000Z');
+    expect(toEmailMetadata({ ...email, headers: { ...email.headers, date: 'sometime last week' } }).sentAt).toBeNull();
+  });
+
+  test('prefers the quoted-printable text/plain alternative as the body', () => {
+    expect(email.body).toBe('Bob,\n\nThe revised draft is attached. Clause 4 now caps liability at €1m and the exhibit lists the deliverables.\n\nJane');
+  });
+
+  test('returns attachments, including forwarded messages, but not inline images', () => {
+    expect(email.attachments.map(a => [a.filename, a.contentType])).toEqual([
+      ['exhibit-a.txt', 'text/plain'],
+      ['Contrat signé.txt', 'text/plain'],
+      ['Original contract.eml', 'message/rfc822'],
+    ]);
+    expect(decode(email.attachments[0].data)).toBe('Exhibit A: schedule of deliverables.\nItem 1 - Draft contract\n');
+    expect(decode(email.attachments[1].data)).toContain('Le contrat signé.');
+  });
+
+  test('forwarded messages parse as emails in their own right', () => {
+    const forwarded = parseEml(email.attachments[2].data);
+    expect(forwarded.headers.subject).toBe('Original contract');
+    expect(forwarded.headers.from).toBe('Carol White <carol@example.org>');
+    expect(forwarded.body).toBe('Here is the original contract language.');
+  });
+
+  test('formats headers, attachment list and body as the extracted text', () => {
+    const text = formatEmailText(email);
+    expect(text.startsWith('From: "Smith, Jane" <jane.smith@example.com>\nTo: ')).toBe(true);
+    expect(text).toContain('Subject: Re: Contract réview – draft 2\nAttachments: exhibit-a.txt, Contrat signé.txt, Original contract.eml\n\nBob,');
+  });
+});
@@ -0,0 +1,255 @@
+// supabase/functions/extract-text/email.ts
+// RFC 822 / MIME (.eml) parsing. Produces the message headers, a plain-text body and the
+// attachments, which extract-text stores as child documents of the email.
+import { decodeXml } from './xml.ts';
+
+export interface EmailHeaders {
+  from: string;
+  to: string;
+  cc: string;
+  date: string;
+  subject: string;
+  messageId: string; // Without angle brackets
+  inReplyTo: string;
+  references: string[];
+}
+
+// Stored as documents.email_metadata; mirrors EmailMetadata in src/types/document.ts
+export interface EmailMetadata extends EmailHeaders {
+  sentAt: string | null; // ISO 8601, parsed from the Date header
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+export interface ParsedEmail {
+  headers: EmailHeaders;
+  body: string;
+  attachments: EmailAttachment[];
+}
+
+interface HeaderValue {
+  value: string; // Lower-cased, e.g. "multipart/mixed" or "attachment"
+  params: Record<string, string>;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // Binary string: one char per byte, still transfer-encoded
+}
+
+// --- Bytes <-> binary strings (one char per byte, so base64 and 8-bit bodies survive) ---
+export function bytesToBinary(data: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    out += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return out;
+}
+
+export function binaryToBytes(binary: string): Uint8Array {
+  const out = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) out[i] = binary.charCodeAt(i) & 0xff;
+  return out;
+}
+
+function decodeCharset(data: Uint8Array, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(data);
+  } catch {
+    return new TextDecoder().decode(data); // Unknown charset label
+  }
+}
+
+// =?utf-8?B?...?= and =?iso-8859-1?Q?...?= words in headers (RFC 2047)
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(?==\?)/g, '$1') // Whitespace between adjacent encoded words is not content
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toLowerCase() === 'b'
+        ? atob(text)
+        : text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+      return decodeCharset(binaryToBytes(binary), charset.split('*')[0]);
+    });
+}
+
+function parseHeaderBlock(block: string): Map<string, string> {
+  // Raw 8-bit headers are UTF-8 in practice; encoded words cover everything else
+  const text = decodeCharset(binaryToBytes(block), 'utf-8').replace(/\r?\n[ \t]+/g, ' ');
+  const headers = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim()); // First occurrence wins
+  }
+  return headers;
+}
+
+// "attachment; filename*=utf-8''Contrato%20final.pdf" -> { value: 'attachment', params: { filename: ... } }
+function parseHeaderValue(raw: string | undefined): HeaderValue {
+  if (!raw) return { value: '', params: {} };
+  const semicolon = raw.indexOf(';');
+  const value = (semicolon < 0 ? raw : raw.slice(0, semicolon)).trim().toLowerCase();
+  const params: Record<string, string> = {};
+  const continuations: Record<string, string[]> = {};
+  if (semicolon >= 0) {
+    for (const match of raw.slice(semicolon).matchAll(/;\s*([^=;\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g)) {
+      const key = match[1].toLowerCase();
+      let paramValue = match[2].trim();
+      if (paramValue.startsWith('"')) paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+
+      // RFC 2231: name*=charset'lang'percent-encoded, split over name*0*, name*1*, ...
+      const extended = key.match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+      if (!extended) continue;
+      const [, name, index, encoded] = extended;
+      if (encoded) {
+        const charsetMatch = index === undefined || index === '0' ? paramValue.match(/^([^']*)'[^']*'/) : null;
+        if (charsetMatch) paramValue = paramValue.slice(charsetMatch[0].length);
+        const binary = paramValue.replace(/%([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+        paramValue = decodeCharset(binaryToBytes(binary), charsetMatch?.[1]);
+      }
+      if (index !== undefined) {
+        (continuations[name] ??= [])[Number(index)] = paramValue;
+      } else {
+        params[name] = decodeEncodedWords(paramValue);
+      }
+    }
+  }
+  for (const [name, parts] of Object.entries(continuations)) params[name] = parts.join('');
+  return { value, params };
+}
+
+function splitPart(raw: string): MimePart {
+  if (/^\r?\n/.test(raw)) return { headers: new Map(), body: raw.replace(/^\r?\n/, '') };
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headers: parseHeaderBlock(raw), body: '' };
+  return { headers: parseHeaderBlock(raw.slice(0, match.index)), body: raw.slice(match.index + match[0].length) };
+}
+
+function decodeBody(part: MimePart): Uint8Array {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase().trim();
+  if (encoding === 'base64') {
+    // Tolerate line breaks, stray characters and missing padding
+    let clean = part.body.replace(/[^A-Za-z0-9+/]/g, '');
+    if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+    return binaryToBytes(atob(clean + '='.repeat((4 - (clean.length % 4)) % 4)));
+  }
+  if (encoding === 'quoted-printable') {
+    return binaryToBytes(part.body
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+  }
+  return binaryToBytes(part.body);
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  let current: string[] | null = null; // null until the first delimiter (the preamble is ignored)
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `--${boundary}--`) break;
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\r\n')); // Unterminated final part
+  return parts;
+}
+
+// "<a@x> <b@y>" -> ['a@x', 'b@y']; tolerates ids written without brackets
+export function parseMessageIds(value: string): string[] {
+  const bracketed = [...value.matchAll(/<([^<>\s]+)>/g)].map(match => match[1]);
+  return bracketed.length > 0 ? bracketed : value.split(/\s+/).filter(id => id.includes('@'));
+}
+
+export function htmlToText(html: string): string {
+  return decodeXml(html
+    .replace(/<(script|style|head)[\s>][\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseEml(data: Uint8Array): ParsedEmail {
+  const root = splitPart(bytesToBinary(data));
+  const bodies: { text: string | null; html: string | null } = { text: null, html: null };
+  const attachments: EmailAttachment[] = [];
+
+  const walk = (part: MimePart, depth: number) => {
+    const contentType = parseHeaderValue(part.headers.get('content-type') || 'text/plain');
+    const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+
+    if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < 32) {
+      splitMultipart(part.body, contentType.params.boundary).forEach(child => walk(splitPart(child), depth + 1));
+      return;
+    }
+    if (contentType.value === 'message/rfc822') {
+      // Forwarded messages stay whole: they become .eml child documents with their own attachments
+      const data = decodeBody(part);
+      const subject = splitPart(bytesToBinary(data)).headers.get('subject');
+      const name = disposition.params.filename || contentType.params.name || `${decodeEncodedWords(subject || 'Attached message')}.eml`;
+      attachments.push({ filename: name, contentType: 'message/rfc822', data });
+      return;
+    }
+
+    const filename = disposition.params.filename || contentType.params.name;
+    // Inline images referenced from the HTML body (logos, signatures) aren't documents
+    const isEmbeddedImage = disposition.value === 'inline' && contentType.value.startsWith('image/') && part.headers.has('content-id');
+    if (filename && !isEmbeddedImage) {
+      attachments.push({ filename, contentType: contentType.value || 'application/octet-stream', data: decodeBody(part) });
+    } else if (disposition.value !== 'attachment' && contentType.value === 'text/plain' && bodies.text === null) {
+      bodies.text = decodeCharset(decodeBody(part), contentType.params.charset);
+    } else if (disposition.value !== 'attachment' && contentType.value === 'text/html' && bodies.html === null) {
+      bodies.html = decodeCharset(decodeBody(part), contentType.params.charset);
+    }
+  };
+  walk(root, 0);
+
+  const header = (name: string) => decodeEncodedWords(root.headers.get(name) || '');
+  return {
+    headers: {
+      from: header('from'),
+      to: header('to'),
+      cc: header('cc'),
+      date: header('date'),
+      subject: header('subject'),
+      messageId: parseMessageIds(header('message-id'))[0] ?? '',
+      inReplyTo: parseMessageIds(header('in-reply-to'))[0] ?? '',
+      references: parseMessageIds(header('references')),
+    },
+    body: (bodies.text ?? (bodies.html !== null ? htmlToText(bodies.html) : '')).replace(/\r\n/g, '\n').trim(),
+    attachments,
+  };
+}
+
+/**
+ * The text stored as the email's extracted_text: a header block, the attachment list, then
+ * the body. Shared by .eml and .msg so both read the same in search and analysis.
+ */
+export function formatEmailText(email: ParsedEmail): string {
+  const { from, to, cc, date, subject } = email.headers;
+  const lines = [
+    from && `From: ${from}`,
+    to && `To: ${to}`,
+    cc && `Cc: ${cc}`,
+    date && `Date: ${date}`,
+    subject && `Subject: ${subject}`,
+    email.attachments.length > 0 && `Attachments: ${email.attachments.map(a => a.filename).join(', ')}`,
+  ].filter(Boolean);
+  return `${lines.join('\n')}\n\n${email.body}`.trim();
+}
+
+export function toEmailMetadata(email: ParsedEmail): EmailMetadata {
+  const sent = email.headers.date ? new Date(email.headers.date) : null;
+  return { ...email.headers, sentAt: sent && !Number.isNaN(sent.getTime()) ? sent.toISOString() : null };
+}
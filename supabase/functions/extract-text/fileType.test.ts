@@ -0,0 +1,24 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { detectFileType } from './fileType';
+
+const load = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+
+describe('file type detection', () => {
+  test.each([
+    ['sample.doc', 'doc'],
+    ['sample.msg', 'msg'],
+    ['sample.rtf', 'rtf'],
+    ['sample.eml', 'eml'],
+    ['sample.xlsx', 'xlsx'],
+  ])('identifies %s by its content, whatever it was uploaded as', (name, expected) => {
+    expect(detectFileType(load(name), 'upload.bin', 'application/octet-stream')).toBe(expected);
+  });
+
+  test('falls back to the content type and extension for plain formats', () => {
+    const text = new TextEncoder().encode('Meeting notes');
+    expect(detectFileType(text, 'notes.md', '')).toBe('text');
+    expect(detectFileType(text, 'page.html', 'text/html')).toBe('html');
+    expect(detectFileType(text, 'archive.bin', 'application/octet-stream')).toBe('unknown');
+  });
+});
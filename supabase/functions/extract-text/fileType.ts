@@ -0,0 +1,72 @@
+// supabase/functions/extract-text/fileType.ts
+// Works out what an upload actually is. Container signatures win over the browser-reported
+// content type and the extension, which are often wrong for discovery productions
+// (e.g. .msg uploaded as application/octet-stream, .doc files that are really RTF).
+import { isCompoundFile, openCompoundFile } from './compoundFile.ts';
+import { isOutlookMessage } from './outlookMsg.ts';
+import { isRtf } from './rtf.ts';
+import { isZip, openZip } from './zip.ts';
+
+// Stored in documents.file_type once extraction has run
+export type DetectedFileType =
+  | 'pdf'
+  | 'docx'
+  | 'doc'
+  | 'rtf'
+  | 'eml'
+  | 'msg'
+  | 'xlsx'
+  | 'xls'
+  | 'html'
+  | 'text'
+  | 'image'
+  | 'unknown';
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|tiff?|bmp|gif|webp)$/i;
+
+const startsWith = (data: Uint8Array, bytes: number[]) => bytes.every((byte, i) => data[i] === byte);
+
+function isImage(data: Uint8Array): boolean {
+  return startsWith(data, [0x89, 0x50, 0x4e, 0x47]) // PNG
+    || startsWith(data, [0xff, 0xd8, 0xff]) // JPEG
+    || startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a]) // TIFF
+    || startsWith(data, [0x47, 0x49, 0x46, 0x38]) // GIF
+    || (startsWith(data, [0x52, 0x49, 0x46, 0x46]) && new TextDecoder().decode(data.subarray(8, 12)) === 'WEBP');
+}
+
+// A message/rfc822 file starts with header fields and has at least From plus Subject or Date
+function looksLikeEmail(data: Uint8Array): boolean {
+  const head = new TextDecoder().decode(data.subarray(0, 8192));
+  const headerBlock = head.split(/\r?\n\r?\n/)[0];
+  if (!/^[!-9;-~]+:/.test(headerBlock)) return false;
+  return /^from:/im.test(headerBlock) && (/^subject:/im.test(headerBlock) || /^date:/im.test(headerBlock));
+}
+
+export function detectFileType(data: Uint8Array, filename: string, contentType: string): DetectedFileType {
+  const name = filename.toLowerCase();
+
+  if (startsWith(data, [0x25, 0x50, 0x44, 0x46])) return 'pdf'; // %PDF
+  if (isRtf(data)) return 'rtf';
+  if (isCompoundFile(data)) {
+    const file = openCompoundFile(data);
+    if (file.entries.some(entry => entry.path === 'WordDocument')) return 'doc';
+    if (isOutlookMessage(file)) return 'msg';
+    if (file.entries.some(entry => entry.path === 'Workbook' || entry.path === 'Book')) return 'xls';
+    return 'unknown';
+  }
+  if (isZip(data)) {
+    const names = openZip(data).names;
+    if (names.includes('word/document.xml')) return 'docx';
+    if (names.includes('xl/workbook.xml')) return 'xlsx';
+    return 'unknown';
+  }
+  if (isImage(data)) return 'image';
+
+  // No recognisable signature: fall back to what the upload claimed to be
+  if (contentType === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (contentType.startsWith('image/') || IMAGE_EXTENSIONS.test(name)) return 'image';
+  if (contentType === 'message/rfc822' || name.endsWith('.eml') || looksLikeEmail(data)) return 'eml';
+  if (contentType.startsWith('text/html') || name.endsWith('.html') || name.endsWith('.htm')) return 'html';
+  if (contentType.startsWith('text/') || /\.(txt|md|csv|json)$/.test(name)) return 'text';
+  return 'unknown';
+}
@@ -17,6 +17,21 @@ import { extractRawText as extractDocxText } from 'npm:mammoth@1.6.0';
 // --- CHANGE: Import node-html-parser for HTML ---
 import { parse as parseHtml } from 'npm:node-html-parser@6.1.12';
 
+// OCR for scanned PDFs and image uploads
+import { isTextLayerMissing, mergeWithTextLayer, ocrImage, ocrPdf, pagesWithoutTextLayer, type OcrPage } from './ocr.ts';
+// Page boundaries (page -> character range) stored alongside extracted_text
+import { buildPageMap, extractDocxPages, type PageMapEntry } from './pageMap.ts';
+// Format detection and the extractors for legacy Office, RTF, email and spreadsheet files
+import { detectFileType } from './fileType.ts';
+import { extractWordDocText } from './wordDoc.ts';
+import { extractRtfText } from './rtf.ts';
+import { formatEmailText, parseEml, toEmailMetadata, type EmailAttachment, type ParsedEmail } from './email.ts';
+import { parseOutlookMessage } from './outlookMsg.ts';
+import { extractXlsxSheets, formatSheets } from './spreadsheet.ts';
+// DOCX structure (headings, lists, tables, formatting) as editor HTML
+import { convertDocxToHtml } from './docxHtml.ts';
+import { authErrorResponse, isServiceRoleRequest } from '../_shared/auth.ts';
+
 
 // --- Helper: Create Supabase Admin Client (SERVICE_ROLE) ---
 function createSupabaseAdminClient(): SupabaseClient {
@@ -42,17 +57,45 @@ async function updateDocument(supabaseAdmin: SupabaseClient, documentId: string,
 }
 
 // --- PDF Extraction Logic using pdf-parse ---
-async function extractTextFromPdf(data: Uint8Array): Promise<string> {
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+}
+
+async function extractTextFromPdf(data: Uint8Array): Promise<{ text: string; pages: string[][] }> {
   try {
     console.log('Loading PDF document with pdf-parse...');
     
     const buffer = Buffer.from(data);
+    const pages: string[][] = [];
+    // Same line-joining as pdf-parse's default page renderer, but keeps each page's lines
+    const renderPage = async (pageData: { pageNumber: number; getTextContent: (options: object) => Promise<{ items: PdfTextItem[] }> }) => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      const lines: string[] = [];
+      let lastY: number | undefined;
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        if (lines.length === 0) {
+          lines.push(item.str);
+        } else if (lastY === y || !lastY) {
+          lines[lines.length - 1] += item.str;
+        } else {
+          lines.push(item.str);
+        }
+        lastY = y;
+      }
+      pages[pageData.pageNumber - 1] = lines;
+      return lines.join('\n');
+    };
     // Use the default import name
-    const pdfData = await pdfParse(buffer);
+    const pdfData = await pdfParse(buffer, { pagerender: renderPage });
     
-    console.log(`Extracted ${pdfData.text.length} characters from PDF.`);
+    console.log(`Extracted ${pdfData.text.length} characters from ${pdfData.numpages} PDF page(s).`);
     // Replace null bytes using a more common regex for null character
-    return pdfData.text.replace(/\0/g, ''); 
+    return {
+      text: pdfData.text.replace(/\0/g, ''),
+      pages: Array.from({ length: pdfData.numpages }, (_, i) => pages[i] ?? []),
+    };
   } catch (error) {
     console.error('Error extracting text from PDF with pdf-parse:', error);
     throw new Error(`Failed to parse PDF: ${error.message}`);
@@ -88,12 +131,61 @@ async function extractTextFromHtml(data: Uint8Array): Promise<string> {
   }
 }
 
+// --- Clean and normalize extracted text ---
+function normalizeExtractedText(text: string): string {
+  return text
+    .replace(/[\\u0000]/g, '') // FIX: Escaped backslash in null byte regex
+    .replace(/\s+/g, ' ')
+    .replace(/ \n/g, '\n')
+    .trim();
+}
+
+// --- Store email attachments as child documents ---
+// Each child is a normal documents row, so the INSERT webhook runs extract-text on it in turn:
+// attached emails (.eml, .msg) are unpacked recursively the same way.
+async function createAttachmentDocuments(supabaseAdmin: SupabaseClient, parent: Record<string, unknown>, attachments: EmailAttachment[]): Promise<number> {
+  let created = 0;
+  for (const attachment of attachments) {
+    try {
+      const extension = attachment.filename.includes('.') ? attachment.filename.split('.').pop()!.toLowerCase() : 'bin';
+      const storagePath = `${parent.owner_id}/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabaseAdmin.storage.from('documents').upload(storagePath, attachment.data, {
+        contentType: attachment.contentType,
+      });
+      if (uploadError) throw new Error(`upload failed: ${uploadError.message}`);
+
+      const { error: insertError } = await supabaseAdmin.from('documents').insert({
+        owner_id: parent.owner_id,
+        case_id: parent.case_id ?? null,
+        parent_document_id: parent.id,
+        filename: attachment.filename,
+        storage_path: storagePath,
+        content_type: attachment.contentType,
+        file_type: extension,
+        file_size: attachment.data.length,
+        processing_status: 'uploaded',
+        is_deleted: false,
+        uploaded_at: new Date().toISOString(),
+      });
+      if (insertError) throw new Error(`insert failed: ${insertError.message}`);
+      created++;
+    } catch (attachmentError) {
+      // One bad attachment shouldn't lose the email or its other attachments
+      console.error(`Could not store attachment "${attachment.filename}" of document ${parent.id}:`, attachmentError);
+    }
+  }
+  return created;
+}
 
 // --- Main Function Handler ---
 serve(async (req: Request) => {
   if (req.method !== 'POST') {
     return new Response(JSON.stringify({ error: 'Method Not Allowed' }), { status: 405 });
   }
+  // Only the documents INSERT webhook, configured to send the service-role key, may run extraction
+  if (!isServiceRoleRequest(req)) {
+    return authErrorResponse('Extraction is only triggered by the documents webhook', 401);
+  }
 
   const supabaseAdmin = createSupabaseAdminClient();
   let documentId: string | null = null; // Explicit type
@@ -136,52 +228,129 @@ serve(async (req: Request) => {
 
     const fileData = new Uint8Array(await blobData.arrayBuffer());
 
-    // 4. Extract text based on content type
+    // 4. Extract text based on the detected format
+    const fileType = detectFileType(fileData, filename, contentType);
     let extractedText = '';
-    console.log(`Attempting extraction for contentType: ${contentType}, filename: ${filename}`);
+    let ocrPages: OcrPage[] | null = null; // Set when some or all pages were OCRed rather than read from a text layer
+    let pages: string[][] | null = null; // Lines per page, for formats that have pages
+    let email: ParsedEmail | null = null;
+    let editorHtml: string | null = null; // Initial edited_content, for formats with structure worth keeping
+    console.log(`Attempting extraction for detected type: ${fileType} (contentType: ${contentType}, filename: ${filename})`);
 
-    // --- Updated extraction logic --- 
-    if (contentType === 'application/pdf') {
-      extractedText = await extractTextFromPdf(fileData);
-    } else if (contentType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || filename.endsWith('.docx')) {
+    if (fileType === 'pdf') {
+      const pdf = await extractTextFromPdf(fileData);
+      const scannedPages = pagesWithoutTextLayer(pdf.pages);
+      if (pdf.pages.length === 0 && isTextLayerMissing(pdf.text)) {
+        console.log('PDF pages could not be read for text. Falling back to OCR...');
+        ocrPages = await ocrPdf(fileData);
+      } else if (scannedPages.length > 0) {
+        console.log(`${scannedPages.length} of ${pdf.pages.length} PDF page(s) have no usable text layer. Running OCR on them...`);
+        ocrPages = mergeWithTextLayer(pdf.pages, await ocrPdf(fileData, scannedPages));
+      } else {
+        extractedText = pdf.text;
+        pages = pdf.pages;
+      }
+    } else if (fileType === 'image') {
+      console.log(`Processing image with OCR: ${filename}`);
+      ocrPages = await ocrImage(fileData);
+    } else if (fileType === 'docx') {
       extractedText = await extractTextFromDocx(fileData);
-    } else if (contentType.startsWith('text/html') || filename.endsWith('.html') || filename.endsWith('.htm')) {
+      try {
+        pages = await extractDocxPages(fileData);
+      } catch (pageError) {
+        // The text is what matters; a DOCX we can't paginate just gets no page map
+        console.warn(`Could not read page breaks from ${filename}:`, pageError);
+      }
+      try {
+        editorHtml = await convertDocxToHtml(fileData);
+      } catch (htmlError) {
+        // Likewise the editor falls back to the plain text
+        console.warn(`Could not convert ${filename} to editor HTML:`, htmlError);
+      }
+    } else if (fileType === 'doc') {
+      extractedText = extractWordDocText(fileData);
+    } else if (fileType === 'rtf') {
+      extractedText = extractRtfText(fileData);
+    } else if (fileType === 'eml') {
+      email = parseEml(fileData);
+    } else if (fileType === 'msg') {
+      email = parseOutlookMessage(fileData);
+    } else if (fileType === 'xlsx') {
+      const sheets = formatSheets(await extractXlsxSheets(fileData));
+      extractedText = sheets.text;
+      pages = sheets.pages;
+    } else if (fileType === 'html') {
       extractedText = await extractTextFromHtml(fileData);
-    } else if (contentType.startsWith('text/') || filename.endsWith('.md') || filename.endsWith('.txt')) { 
+    } else if (fileType === 'text') {
       console.log(`Processing plain text, markdown or txt file: ${filename}`);
       extractedText = new TextDecoder().decode(fileData);
-    } else if (contentType === 'application/msword' || filename.endsWith('.doc')) {
-      console.warn(`Legacy .doc file detected: ${filename}. Text extraction is currently not supported for this format.`);
+    } else {
+      const reason = fileType === 'xls'
+        ? 'Legacy Excel (.xls) workbooks are not supported; save the file as .xlsx and upload it again'
+        : `Unsupported content type: ${contentType}`;
+      console.warn(`Unsupported file for extraction: ${filename} (${fileType}, ${contentType})`);
       await updateDocument(supabaseAdmin, documentId, {
+        file_type: fileType,
         processing_status: 'text_extraction_failed',
-        error_message: `Unsupported content type: ${contentType} (.doc files cannot be processed currently)`
+        error_message: reason
       });
-      return new Response(JSON.stringify({ message: `Unsupported content type: ${contentType} (.doc)` }), { status: 200 });
-    } else { 
-      console.warn(`Unsupported content type for extraction: ${contentType} (${filename})`);
-      await updateDocument(supabaseAdmin, documentId, {
-        processing_status: 'text_extraction_failed',
-        error_message: `Unsupported content type: ${contentType}`
-      });
-      return new Response(JSON.stringify({ message: `Unsupported content type: ${contentType}` }), { status: 200 }); 
+      return new Response(JSON.stringify({ message: reason }), { status: 200 });
+    }
+
+    if (email) {
+      extractedText = formatEmailText(email);
+      console.log(`Parsed email "${email.headers.subject}" with ${email.attachments.length} attachment(s).`);
     }
 
     // Clean and normalize the extracted text
-    const normalizedText = extractedText
-      .replace(/[\\u0000]/g, '') // FIX: Escaped backslash in null byte regex
-      .replace(/\s+/g, ' ')
-      .replace(/ \n/g, '\n')
-      .trim();
+    let pageMap: PageMapEntry[] | null = null;
+    if (ocrPages) {
+      // OCR pages are joined with a single space, exactly what normalization makes of the page break
+      extractedText = ocrPages.map(page => page.text).join(' ');
+      pages = ocrPages.map(page => page.text.split('\n'));
+    }
+    const normalizedText = normalizeExtractedText(extractedText);
+    if (ocrPages && !normalizedText) {
+      throw new Error('OCR found no readable text in this document');
+    }
+    if (pages && pages.length > 0) {
+      pageMap = buildPageMap(normalizedText, pages, normalizeExtractedText);
+      if (ocrPages) {
+        pageMap.forEach((entry, i) => { entry.ocrConfidence = ocrPages![i]?.confidence ?? null; });
+      }
+    }
 
-    console.log(`Extraction successful. Normalized text length: ${normalizedText.length}`);
+    console.log(`Extraction successful. Normalized text length: ${normalizedText.length}${pageMap ? `, ${pageMap.length} page(s)${ocrPages ? ' (OCR)' : ''}` : ''}`);
 
-    // 5. Update the document record with extracted text and final status
+    // 5. Update the document record with extracted text, page boundaries and final status
     await updateDocument(supabaseAdmin, documentId, {
       extracted_text: normalizedText,
+      page_map: pageMap,
+      file_type: fileType,
+      // Sender, recipients, send time and thread ids (Message-ID / In-Reply-To / References)
+      ...(email && { email_metadata: toEmailMetadata(email) }),
+      // Never overwrite a reviewer's edits when a document is re-extracted
+      ...(editorHtml && !record.edited_content && { edited_content: editorHtml }),
       processing_status: 'text_extracted',
       error_message: null
     });
 
+    // 6. Email attachments become child documents, extracted by their own webhook runs
+    if (email && email.attachments.length > 0) {
+      const created = await createAttachmentDocuments(supabaseAdmin, record, email.attachments);
+      console.log(`Stored ${created} of ${email.attachments.length} attachment(s) of ${documentId} as child documents.`);
+    }
+
+    // 7. Hand off to embed-document, which chunks and embeds the text for semantic search
+    // and moves the status on to 'completed' (or 'embedding_failed'). Extraction itself
+    // succeeded, so an embedding failure is logged but doesn't fail this request.
+    const { error: embedError } = await supabaseAdmin.functions.invoke('embed-document', {
+      body: { documentId },
+    });
+    if (embedError) {
+      console.error(`Embedding step failed for document ${documentId}:`, embedError);
+    }
+
     return new Response(JSON.stringify({ success: true, message: `Document ${documentId} processed successfully.` }), { headers: { 'Content-Type': 'application/json' } });
 
   } catch (error) {
@@ -0,0 +1,61 @@
+import { describe, expect, test, vi } from 'vitest';
+
+// The OCR engine and PDF reader only load in Deno; these tests cover the decisions around them
+vi.mock('npm:tesseract.js@5.1.1', () => ({ createWorker: vi.fn(), OEM: { LSTM_ONLY: 1 } }));
+vi.mock('npm:unpdf@1.0.6', () => ({ getDocumentProxy: vi.fn(), extractImages: vi.fn() }));
+
+import { isTextLayerMissing, mergeWithTextLayer, pagesWithoutTextLayer, toPnm } from './ocr';
+
+const header = (pnm: Uint8Array, length: number) => new TextDecoder().decode(pnm.subarray(0, length));
+
+describe('text layer detection', () => {
+  test('treats a page with less than 20 characters of text as scanned', () => {
+    expect(isTextLayerMissing('x'.repeat(19))).toBe(true);
+    expect(isTextLayerMissing('x'.repeat(20))).toBe(false);
+    expect(isTextLayerMissing(`  ${'x'.repeat(19)}\n  `)).toBe(true); // Whitespace doesn't count
+    expect(isTextLayerMissing('')).toBe(true);
+  });
+
+  test('picks the scanned pages of a mixed PDF', () => {
+    const motion = ['MOTION TO COMPEL DISCOVERY', 'Plaintiff moves the Court for an order'];
+    expect(pagesWithoutTextLayer([motion, [], ['Exhibit A'], motion, undefined])).toEqual([2, 3, 5]);
+    expect(pagesWithoutTextLayer([motion, motion])).toEqual([]);
+  });
+
+  test('decides each page on its own text, not the document average', () => {
+    // 60 characters over two pages averages 30 a page, but the second page is a scan
+    expect(pagesWithoutTextLayer([['x'.repeat(58)], ['p.']])).toEqual([2]);
+  });
+
+  test('keeps the text layer of pages that were not OCRed', () => {
+    const merged = mergeWithTextLayer(
+      [['Digital page', 'second line'], [], ['Another digital page']],
+      [{ pageNumber: 2, text: 'Scanned exhibit', confidence: 91 }],
+    );
+    expect(merged).toEqual([
+      { pageNumber: 1, text: 'Digital page\nsecond line', confidence: null },
+      { pageNumber: 2, text: 'Scanned exhibit', confidence: 91 },
+      { pageNumber: 3, text: 'Another digital page', confidence: null },
+    ]);
+  });
+});
+
+describe('PNM conversion', () => {
+  test('writes grayscale pixels as a P5 image', () => {
+    const pnm = toPnm(new Uint8ClampedArray([0, 128, 255, 64]), 2, 2, 1);
+    expect(header(pnm, 11)).toBe('P5\n2 2\n255\n');
+    expect([...pnm.subarray(11)]).toEqual([0, 128, 255, 64]);
+  });
+
+  test('writes RGB pixels as a P6 image', () => {
+    const pnm = toPnm(new Uint8ClampedArray([255, 0, 0, 0, 255, 0]), 2, 1, 3);
+    expect(header(pnm, 11)).toBe('P6\n2 1\n255\n');
+    expect([...pnm.subarray(11)]).toEqual([255, 0, 0, 0, 255, 0]);
+  });
+
+  test('drops the alpha channel of RGBA pixels', () => {
+    const pnm = toPnm(new Uint8ClampedArray([10, 20, 30, 255, 40, 50, 60, 0]), 1, 2, 4);
+    expect(header(pnm, 11)).toBe('P6\n1 2\n255\n');
+    expect([...pnm.subarray(11)]).toEqual([10, 20, 30, 40, 50, 60]);
+  });
+});
@@ -0,0 +1,111 @@
+// supabase/functions/extract-text/ocr.ts
+// Offline OCR for image uploads and scanned PDFs. Uses the tesseract.js WASM build with
+// language data read from disk (TESSERACT_LANG_PATH, default ./tessdata next to this file),
+// so no document content or model download ever leaves the function.
+import { createWorker, OEM, type Worker } from 'npm:tesseract.js@5.1.1';
+import { getDocumentProxy, extractImages } from 'npm:unpdf@1.0.6';
+
+export interface OcrPage {
+  pageNumber: number; // 1-based
+  text: string;
+  confidence: number | null; // Tesseract mean word confidence, 0-100; null when the page had no image or wasn't OCRed
+}
+
+// Below this many characters a PDF page is treated as scanned (no usable text layer)
+const MIN_TEXT_CHARS_PER_PAGE = 20;
+const OCR_LANGUAGE = 'eng';
+
+export function isTextLayerMissing(pageText: string): boolean {
+  return pageText.trim().length < MIN_TEXT_CHARS_PER_PAGE;
+}
+
+/**
+ * The 1-based numbers of the PDF pages to OCR, given each page's text-layer lines. Decided per
+ * page, so the scanned exhibits of an otherwise digital PDF are read too.
+ */
+export function pagesWithoutTextLayer(pages: (string[] | undefined)[]): number[] {
+  return Array.from(pages, (lines, i) => isTextLayerMissing((lines ?? []).join('\n')) ? i + 1 : null)
+    .filter((pageNumber): pageNumber is number => pageNumber !== null);
+}
+
+/** Every page of a PDF: OCR results where a page was OCRed, its text layer elsewhere. */
+export function mergeWithTextLayer(pages: (string[] | undefined)[], ocrPages: OcrPage[]): OcrPage[] {
+  const recognized = new Map(ocrPages.map(page => [page.pageNumber, page]));
+  return Array.from(pages, (lines, i) => recognized.get(i + 1) ?? { pageNumber: i + 1, text: (lines ?? []).join('\n'), confidence: null });
+}
+
+async function createOcrWorker(): Promise<Worker> {
+  const langPath = Deno.env.get('TESSERACT_LANG_PATH') || new URL('./tessdata', import.meta.url).pathname;
+  return await createWorker(OCR_LANGUAGE, OEM.LSTM_ONLY, {
+    langPath,
+    cacheMethod: 'none', // Read-only function filesystem; the traineddata is already local
+    gzip: true,
+  });
+}
+
+/**
+ * Wraps raw pixels (as returned by unpdf's extractImages) in a binary PNM header so
+ * Tesseract's image loader can read them without a canvas or image codec.
+ */
+export function toPnm(data: Uint8ClampedArray, width: number, height: number, channels: 1 | 3 | 4): Uint8Array {
+  const gray = channels === 1;
+  const header = new TextEncoder().encode(`${gray ? 'P5' : 'P6'}\n${width} ${height}\n255\n`);
+  const pixelBytes = gray ? 1 : 3;
+  const out = new Uint8Array(header.length + width * height * pixelBytes);
+  out.set(header, 0);
+  if (channels === 4) {
+    // Drop alpha
+    for (let src = 0, dst = header.length; src < data.length; src += 4, dst += 3) {
+      out[dst] = data[src];
+      out[dst + 1] = data[src + 1];
+      out[dst + 2] = data[src + 2];
+    }
+  } else {
+    out.set(data.subarray(0, width * height * pixelBytes), header.length);
+  }
+  return out;
+}
+
+async function recognize(worker: Worker, image: Uint8Array, pageNumber: number): Promise<OcrPage> {
+  const { data } = await worker.recognize(image);
+  console.log(`OCR page ${pageNumber}: ${data.text.length} characters, confidence ${Math.round(data.confidence)}`);
+  return { pageNumber, text: data.text, confidence: data.confidence };
+}
+
+/**
+ * OCRs a single uploaded image (PNG, JPEG, TIFF, BMP, GIF, WebP).
+ */
+export async function ocrImage(data: Uint8Array): Promise<OcrPage[]> {
+  const worker = await createOcrWorker();
+  try {
+    return [await recognize(worker, data, 1)];
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * OCRs the given pages of a scanned PDF (every page by default). Scanners embed one full-page
+ * image per page, so the largest image on each page is the one recognised; pages without
+ * images yield empty text.
+ */
+export async function ocrPdf(data: Uint8Array, pageNumbers?: number[]): Promise<OcrPage[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const worker = await createOcrWorker();
+  const pages: OcrPage[] = [];
+  try {
+    for (const pageNumber of pageNumbers ?? Array.from({ length: pdf.numPages }, (_, i) => i + 1)) {
+      const images = await extractImages(pdf, pageNumber);
+      const pageImage = images.sort((a, b) => b.width * b.height - a.width * a.height)[0];
+      if (!pageImage) {
+        pages.push({ pageNumber, text: '', confidence: null });
+        continue;
+      }
+      const pnm = toPnm(pageImage.data, pageImage.width, pageImage.height, pageImage.channels);
+      pages.push(await recognize(worker, pnm, pageNumber));
+    }
+  } finally {
+    await worker.terminate();
+  }
+  return pages;
+}
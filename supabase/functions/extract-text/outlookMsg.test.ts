@@ -0,0 +1,40 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { parseEml } from './email';
+import { parseOutlookMessage } from './outlookMsg';
+
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/sample.msg', import.meta.url)));
+
+describe('Outlook .msg parsing', () => {
+  const email = parseOutlookMessage(fixture);
+
+  test('reads sender, recipients, sent time and subject from MAPI properties', () => {
+    expect(email.headers).toEqual({
+      from: 'Jane Smith <jane.smith@example.com>', // SMTP address, not the Exchange X.500 one
+      to: 'Bob Jones',
+      cc: 'Legal Team',
+      date: 'Tue, 05 Mar 2024 14:30:00 GMT',
+      subject: 'Re: Lease renewal – Unit 4B',
+      messageId: 'renewal-2@example.com',
+      inReplyTo: 'renewal-1@example.org',
+      references: ['renewal-0@example.org', 'renewal-1@example.org'],
+    });
+    expect(email.body).toBe('Bob,\n\nPlease find the signed renewal attached.\n\nJane');
+  });
+
+  test('returns file attachments with their names and types', () => {
+    const [file] = email.attachments;
+    expect(file.filename).toBe('Renewal.txt');
+    expect(file.contentType).toBe('text/plain');
+    expect(new TextDecoder().decode(file.data)).toBe('Lease renewal for Unit 4B, signed by both parties.');
+  });
+
+  test('re-encodes attached Outlook items as .eml', () => {
+    const embedded = email.attachments[1];
+    expect(embedded).toMatchObject({ filename: 'Original lease.eml', contentType: 'message/rfc822' });
+    const inner = parseEml(embedded.data);
+    expect(inner.headers.from).toBe('Landlord Co <leasing@landlord.example>');
+    expect(inner.headers.date).toBe('Tue, 10 Jan 2023 09:00:00 GMT');
+    expect(inner.body).toBe('See the original lease terms.\nTerm: 24 months.');
+  });
+});
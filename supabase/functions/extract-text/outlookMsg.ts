@@ -0,0 +1,157 @@
+// supabase/functions/extract-text/outlookMsg.ts
+// Outlook .msg ([MS-OXMSG]) -> ParsedEmail. A .msg is a compound file whose streams are MAPI
+// properties named __substg1.0_<property id><type>; fixed-size values (dates) are packed
+// into each storage's __properties_version1.0 stream.
+import { openCompoundFile, type CompoundFile } from './compoundFile.ts';
+import { bytesToBinary, htmlToText, parseMessageIds, type EmailAttachment, type ParsedEmail } from './email.ts';
+
+const PROPERTY_STREAM = '__properties_version1.0';
+const ATTACHMENT_PREFIX = '__attach_version1.0_#';
+const EMBEDDED_MESSAGE = '__substg1.0_3701000D';
+
+// Property stream header size: top-level message, embedded message, attachment/recipient
+const PROPERTY_HEADER_TOP = 32;
+const PROPERTY_HEADER_EMBEDDED = 24;
+
+const PR = {
+  SUBJECT: '0037',
+  CLIENT_SUBMIT_TIME: 0x0039,
+  TRANSPORT_HEADERS: '007D',
+  SENDER_NAME: '0C1A',
+  SENDER_EMAIL: '0C1F',
+  DISPLAY_CC: '0E03',
+  DISPLAY_TO: '0E04',
+  MESSAGE_DELIVERY_TIME: 0x0e06,
+  BODY: '1000',
+  HTML_BODY: '1013',
+  INTERNET_MESSAGE_ID: '1035',
+  INTERNET_REFERENCES: '1039',
+  IN_REPLY_TO_ID: '1042',
+  SENDER_SMTP_ADDRESS: '5D01',
+  ATTACH_DATA: '3701',
+  ATTACH_FILENAME: '3704',
+  ATTACH_LONG_FILENAME: '3707',
+  ATTACH_MIME_TYPE: '370E',
+};
+const PT_UNICODE = '001F';
+const PT_STRING8 = '001E';
+const PT_BINARY = '0102';
+const PT_SYSTIME = 0x0040;
+
+// Milliseconds between the FILETIME epoch (1601) and the Unix epoch
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+
+export function isOutlookMessage(file: CompoundFile): boolean {
+  return file.entries.some(entry => entry.path === PROPERTY_STREAM) && file.entries.some(entry => entry.name.startsWith('__substg1.0_'));
+}
+
+function readString(file: CompoundFile, storage: string, id: string): string {
+  const unicode = file.read(`${storage}__substg1.0_${id}${PT_UNICODE}`);
+  if (unicode) return new TextDecoder('utf-16le').decode(unicode).replace(/\0+$/, '');
+  const ansi = file.read(`${storage}__substg1.0_${id}${PT_STRING8}`);
+  return ansi ? new TextDecoder('windows-1252').decode(ansi).replace(/\0+$/, '') : '';
+}
+
+function readTime(file: CompoundFile, storage: string, headerSize: number, id: number): Date | null {
+  const stream = file.read(`${storage}${PROPERTY_STREAM}`);
+  if (!stream) return null;
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  // 16-byte entries: property tag (type in the low word, id in the high word), flags, value
+  for (let offset = headerSize; offset + 16 <= stream.length; offset += 16) {
+    const tag = view.getUint32(offset, true);
+    if (tag >>> 16 === id && (tag & 0xffff) === PT_SYSTIME) {
+      const filetime = view.getUint32(offset + 12, true) * 2 ** 32 + view.getUint32(offset + 8, true);
+      return new Date(filetime / 10000 - FILETIME_EPOCH_OFFSET_MS);
+    }
+  }
+  return null;
+}
+
+function readMessage(file: CompoundFile, storage: string, headerSize: number): ParsedEmail {
+  const senderName = readString(file, storage, PR.SENDER_NAME);
+  // Exchange senders carry an X.500 address in PR_SENDER_EMAIL_ADDRESS; prefer the SMTP one
+  const senderEmail = readString(file, storage, PR.SENDER_SMTP_ADDRESS)
+    || readString(file, storage, PR.SENDER_EMAIL).replace(/^\/.*$/, '');
+  const sent = readTime(file, storage, headerSize, PR.CLIENT_SUBMIT_TIME) ?? readTime(file, storage, headerSize, PR.MESSAGE_DELIVERY_TIME);
+  const transportDate = readString(file, storage, PR.TRANSPORT_HEADERS).match(/^Date:\s*(.+)$/im)?.[1].trim();
+
+  let body = readString(file, storage, PR.BODY);
+  if (!body.trim()) {
+    const html = file.read(`${storage}__substg1.0_${PR.HTML_BODY}${PT_BINARY}`);
+    body = html ? htmlToText(new TextDecoder().decode(html)) : htmlToText(readString(file, storage, PR.HTML_BODY));
+  }
+
+  const attachments: EmailAttachment[] = [];
+  const attachmentStorages = file.entries.filter(entry =>
+    entry.isStorage && entry.name.startsWith(ATTACHMENT_PREFIX) && entry.path === `${storage}${entry.name}`);
+  for (const entry of attachmentStorages) {
+    const attachment = `${entry.path}/`;
+    const data = file.read(`${attachment}__substg1.0_${PR.ATTACH_DATA}${PT_BINARY}`);
+    if (data) {
+      attachments.push({
+        filename: readString(file, attachment, PR.ATTACH_LONG_FILENAME) || readString(file, attachment, PR.ATTACH_FILENAME) || 'attachment',
+        contentType: readString(file, attachment, PR.ATTACH_MIME_TYPE) || 'application/octet-stream',
+        data,
+      });
+    } else if (file.entries.some(e => e.path === `${attachment}${EMBEDDED_MESSAGE}`)) {
+      // An attached Outlook item: re-encode it as .eml so it is processed like any other email
+      const embedded = readMessage(file, `${attachment}${EMBEDDED_MESSAGE}/`, PROPERTY_HEADER_EMBEDDED);
+      attachments.push({
+        filename: `${embedded.headers.subject || 'Attached message'}.eml`,
+        contentType: 'message/rfc822',
+        data: new TextEncoder().encode(toEml(embedded)),
+      });
+    }
+    // Anything else (OLE objects, links to files) has no content we can extract
+  }
+
+  return {
+    headers: {
+      from: senderName && senderEmail && senderName !== senderEmail ? `${senderName} <${senderEmail}>` : senderName || senderEmail,
+      to: readString(file, storage, PR.DISPLAY_TO),
+      cc: readString(file, storage, PR.DISPLAY_CC),
+      date: sent ? sent.toUTCString() : transportDate ?? '',
+      subject: readString(file, storage, PR.SUBJECT),
+      messageId: parseMessageIds(readString(file, storage, PR.INTERNET_MESSAGE_ID))[0] ?? '',
+      inReplyTo: parseMessageIds(readString(file, storage, PR.IN_REPLY_TO_ID))[0] ?? '',
+      references: parseMessageIds(readString(file, storage, PR.INTERNET_REFERENCES)),
+    },
+    body: body.replace(/\r\n/g, '\n').trim(),
+    attachments,
+  };
+}
+
+// Minimal MIME serialization: UTF-8 headers and body, attachments base64-encoded
+function toEml(email: ParsedEmail): string {
+  const boundary = `----=_Part_${crypto.randomUUID()}`;
+  const encodeHeader = (value: string) => /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${btoa(bytesToBinary(new TextEncoder().encode(value)))}?=`;
+  const { from, to, cc, date, subject, messageId, inReplyTo, references } = email.headers;
+  const headers = [
+    from && `From: ${encodeHeader(from)}`,
+    to && `To: ${encodeHeader(to)}`,
+    cc && `Cc: ${encodeHeader(cc)}`,
+    date && `Date: ${date}`,
+    `Subject: ${encodeHeader(subject)}`,
+    messageId && `Message-ID: <${messageId}>`,
+    inReplyTo && `In-Reply-To: <${inReplyTo}>`,
+    references.length > 0 && `References: ${references.map(id => `<${id}>`).join(' ')}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ].filter(Boolean);
+  const parts = [
+    `Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64(new TextEncoder().encode(email.body))}`,
+    ...email.attachments.map(a =>
+      `Content-Type: ${a.contentType}\r\nContent-Disposition: attachment; filename*=utf-8''${encodeURIComponent(a.filename)}\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64(a.data)}`),
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${parts.map(part => `--${boundary}\r\n${part}`).join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+function base64(data: Uint8Array): string {
+  return btoa(bytesToBinary(data)).replace(/.{76}/g, '$&\r\n');
+}
+
+export function parseOutlookMessage(data: Uint8Array): ParsedEmail {
+  const file = openCompoundFile(data);
+  if (!isOutlookMessage(file)) throw new Error('Not an Outlook message');
+  return readMessage(file, '', PROPERTY_HEADER_TOP);
+}
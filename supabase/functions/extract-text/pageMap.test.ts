@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'vitest';
+import { createZip } from '../create-production/zipWriter';
+import { buildPageMap, extractDocxPages } from './pageMap';
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const docx = (body: string) => createZip([{
+  name: 'word/document.xml',
+  data: new TextEncoder().encode(`<?xml version="1.0" encoding="UTF-8"?><w:document><w:body>${body}</w:body></w:document>`),
+}]);
+
+const paragraph = (runs: string, properties = '') => `<w:p>${properties}<w:r>${runs}</w:r></w:p>`;
+
+describe('page maps', () => {
+  test('records where each page and line starts in the normalized text', () => {
+    const pages = [['Page one  line one', 'line two'], [], ['Page three', 'last line']];
+    const text = normalize(pages.flat().join('\n'));
+    expect(buildPageMap(text, pages, normalize)).toEqual([
+      { page: 1, start: 0, end: 26, lineStarts: [0, 18] },
+      { page: 2, start: 26, end: 26, lineStarts: [] }, // Blank pages stay zero-length
+      { page: 3, start: 27, end: text.length, lineStarts: [27, 38] },
+    ]);
+  });
+
+  test('skips lines missing from the text or matched too far ahead', () => {
+    expect(buildPageMap('Alpha Beta', [['Alpha'], ['Running header', 'Beta']], normalize)[1].lineStarts).toEqual([6]);
+    expect(buildPageMap(`Alpha ${'x'.repeat(300)} Beta`, [['Alpha'], ['Beta']], normalize)).toEqual([
+      { page: 1, start: 0, end: 5, lineStarts: [0] },
+      { page: 2, start: 5, end: 5, lineStarts: [] },
+    ]);
+  });
+
+  test('ends each page where the next begins and the last at the end of the text', () => {
+    const text = 'One. Two. Trailing text';
+    const map = buildPageMap(text, [['One.'], ['Two.']], normalize);
+    expect(map.map(entry => [entry.start, entry.end])).toEqual([[0, 5], [5, text.length]]);
+  });
+});
+
+describe('DOCX pages', () => {
+  test('breaks pages at explicit breaks and where Word last rendered one', async () => {
+    const pages = await extractDocxPages(docx(
+      paragraph('<w:t>First page</w:t>')
+      + paragraph('<w:br w:type="page"/><w:lastRenderedPageBreak/><w:t>Second</w:t><w:tab/><w:t xml:space="preserve">page</w:t>')
+      + paragraph('<w:t>Third &amp; page</w:t>', '<w:pPr><w:pageBreakBefore/></w:pPr>')
+      + paragraph('<w:lastRenderedPageBreak/><w:t>Fourth</w:t>')
+    ));
+    expect(pages).toEqual([['First page'], ['Second\tpage'], ['Third & page'], ['Fourth']]);
+  });
+
+  test('splits a paragraph that runs across a page break', async () => {
+    const pages = await extractDocxPages(docx(paragraph('<w:t>Ends here</w:t><w:br w:type="page"/><w:t>and continues</w:t>')));
+    expect(pages).toEqual([['Ends here'], ['and continues']]);
+  });
+
+  test('does not open an empty page for a break at the top of a page', async () => {
+    const pages = await extractDocxPages(docx(
+      paragraph('<w:t>Cover</w:t>', '<w:pPr><w:pageBreakBefore/></w:pPr>')
+      + paragraph('<w:t>Body</w:t>')
+    ));
+    expect(pages).toEqual([['Cover', 'Body']]);
+  });
+
+  test('returns one page for files never laid out by Word, and none without a document part', async () => {
+    expect(await extractDocxPages(docx(paragraph('<w:t>One</w:t>') + paragraph('<w:t>Two</w:t>')))).toEqual([['One', 'Two']]);
+    expect(await extractDocxPages(createZip([{ name: 'word/styles.xml', data: new Uint8Array() }]))).toEqual([]);
+  });
+
+  test('maps DOCX page breaks into the extracted text', async () => {
+    const pages = await extractDocxPages(docx(paragraph('<w:t>Recitals</w:t>') + paragraph('<w:br w:type="page"/><w:t>Terms</w:t>')));
+    const text = normalize(pages.flat().join('\n'));
+    expect(buildPageMap(text, pages, normalize)).toEqual([
+      { page: 1, start: 0, end: 9, lineStarts: [0] },
+      { page: 2, start: 9, end: text.length, lineStarts: [9] },
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+// supabase/functions/extract-text/pageMap.ts
+// Builds documents.page_map: where each page (and each line on it) lands in the normalized
+// extracted_text, so character offsets from analyze-document can be cited as "p. 14:7".
+import { decodeXml } from './xml.ts';
+import { openZip } from './zip.ts';
+
+// Page number -> character range in extracted_text
+export interface PageMapEntry {
+  page: number; // 1-based
+  start: number;
+  end: number;
+  lineStarts: number[]; // Offset of each line on the page, in order (line n = lineStarts[n - 1])
+  ocrConfidence?: number | null; // Only set for OCR'd pages
+}
+
+// A line that isn't found within this many characters of where the previous one ended is
+// treated as missing from the extracted text rather than matched somewhere further on.
+const MAX_LINE_GAP = 200;
+
+/**
+ * Aligns per-page lines (as produced by the extractor, before normalization) against the
+ * normalized document text. Matching rather than re-deriving the text keeps extracted_text
+ * byte-for-byte what it was before page maps existed, so stored analysis offsets stay valid.
+ */
+export function buildPageMap(normalizedText: string, pages: string[][], normalize: (text: string) => string): PageMapEntry[] {
+  const entries: PageMapEntry[] = [];
+  let cursor = 0;
+
+  pages.forEach((lines, pageIndex) => {
+    const lineStarts: number[] = [];
+    for (const line of lines) {
+      const needle = normalize(line);
+      if (!needle) continue;
+      const index = normalizedText.indexOf(needle, cursor);
+      if (index < 0 || index - cursor > MAX_LINE_GAP) continue;
+      lineStarts.push(index);
+      cursor = index + needle.length;
+    }
+    const previousEnd = entries.length > 0 ? entries[entries.length - 1].end : 0;
+    entries.push({ page: pageIndex + 1, start: lineStarts[0] ?? previousEnd, end: cursor, lineStarts });
+  });
+
+  // Pages run back to back: each one ends where the next begins, the last at the end of the
+  // text. Blank pages (nothing matched) stay zero-length.
+  for (let i = 0; i < entries.length; i++) {
+    if (entries[i].lineStarts.length === 0) {
+      entries[i].end = entries[i].start;
+    } else {
+      entries[i].end = i + 1 < entries.length ? Math.max(entries[i + 1].start, entries[i].start) : normalizedText.length;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Splits a DOCX into pages of paragraphs. DOCX has no fixed pagination, so page breaks come
+ * from explicit breaks and the <w:lastRenderedPageBreak/> markers Word saves where it last
+ * laid out a page; files never opened in Word come back as a single page.
+ */
+export async function extractDocxPages(data: Uint8Array): Promise<string[][]> {
+  const xml = await openZip(data).readText('word/document.xml');
+  if (!xml) return [];
+
+  const pages: string[][] = [[]];
+  let line = '';
+  const pageIsEmpty = () => pages[pages.length - 1].length === 0 && !line.trim();
+  const breakPage = () => {
+    if (line.trim()) pages[pages.length - 1].push(line);
+    line = '';
+    pages.push([]);
+  };
+
+  for (const paragraph of xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    const tokens = paragraph[0].matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br [^>]*w:type="page"[^>]*\/>|<w:lastRenderedPageBreak\/>|<w:pageBreakBefore(?:\s+w:val="(?:1|true|on)")?\/>/g);
+    for (const token of tokens) {
+      const [tag, text] = token;
+      if (text !== undefined) {
+        line += decodeXml(text);
+      } else if (tag === '<w:tab/>') {
+        line += '\t';
+      } else if (tag.startsWith('<w:br')) {
+        breakPage();
+      } else if (!pageIsEmpty()) {
+        // Word also writes a rendered-break marker right after an explicit break, and
+        // pageBreakBefore on the first paragraph of a page; don't count those pages twice
+        breakPage();
+      }
+    }
+    if (line.trim()) pages[pages.length - 1].push(line);
+    line = '';
+  }
+  return pages;
+}
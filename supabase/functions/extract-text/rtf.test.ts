@@ -0,0 +1,35 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { extractRtfText, isRtf } from './rtf';
+
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/sample.rtf', import.meta.url)));
+
+describe('RTF extraction', () => {
+  const text = extractRtfText(fixture);
+
+  test('recognises the RTF signature', () => {
+    expect(isRtf(fixture)).toBe(true);
+    expect(isRtf(new TextEncoder().encode('plain text'))).toBe(false);
+  });
+
+  test('keeps body text with code-page, unicode and symbol escapes decoded', () => {
+    expect(text).toContain('Dear Ms. Dupré,');
+    expect(text).toContain('our engagement — effective immediately, on the “standard” terms at our website.');
+    expect(text).toContain('Braces { and backslashes \\ are escaped.');
+  });
+
+  test('turns paragraph, line and tab controls into whitespace', () => {
+    expect(text.split('\n')).toEqual([
+      'Engagement Letter',
+      'Dear Ms. Dupré,',
+      expect.stringContaining('This letter confirms'),
+      'Fees:\t$350/hour',
+      'Retainer:\t$5,000',
+      'Braces { and backslashes \\ are escaped.',
+    ]);
+  });
+
+  test('drops font tables, document info, field instructions and pictures', () => {
+    expect(text).not.toMatch(/Calibri|Riched20|Paralegal|HYPERLINK|0102030405/);
+  });
+});
@@ -0,0 +1,154 @@
+// supabase/functions/extract-text/rtf.ts
+// RTF -> plain text. Walks the control words and groups, keeping body text (including field
+// results such as hyperlink text) and dropping destinations that hold formatting tables,
+// document properties, pictures and embedded objects.
+
+// Destinations whose content is never body text. Anything marked \* is skipped as well.
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl',
+  'info', 'pict', 'object', 'fldinst', 'datastore', 'themedata', 'colorschememapping',
+  'latentstyles', 'xmlnstbl', 'generator', 'filetbl', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'bkmkstart', 'bkmkend', 'nonshppict', 'shpinst',
+]);
+
+const CONTROL_TEXT: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', page: '\n', tab: '\t', cell: '\t', row: '\n',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’',
+  ldblquote: '“', rdblquote: '”', emspace: ' ', enspace: ' ',
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // \ucN: fallback characters that follow each \uN
+}
+
+export function isRtf(data: Uint8Array): boolean {
+  return new TextDecoder().decode(data.subarray(0, 5)) === '{\\rtf';
+}
+
+export function extractRtfText(data: Uint8Array): string {
+  // RTF is 7-bit; anything above that arrives as \'hh escapes in the document code page
+  const source = new TextDecoder('latin1').decode(data);
+  const codePage = source.match(/\\ansicpg(\d+)/)?.[1] ?? '1252';
+  let hexDecoder: TextDecoder;
+  try {
+    hexDecoder = new TextDecoder(`windows-${codePage}`);
+  } catch {
+    hexDecoder = new TextDecoder('windows-1252');
+  }
+
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let out = '';
+  let pendingBytes: number[] = []; // Consecutive \'hh escapes, decoded together (multi-byte code pages)
+  let fallbackToSkip = 0;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      if (!state.skip) out += hexDecoder.decode(new Uint8Array(pendingBytes));
+      pendingBytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) out += text;
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '{' || ch === '}') {
+      flushBytes();
+      fallbackToSkip = 0;
+      if (ch === '{') {
+        stack.push(state);
+        state = { ...state };
+      } else {
+        state = stack.pop() ?? state;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+
+    if (ch !== '\\') {
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else {
+        emit(ch);
+      }
+      i++;
+      continue;
+    }
+
+    // Control symbol or control word
+    const next = source[i + 1];
+    if (next === "'") {
+      const byte = parseInt(source.slice(i + 2, i + 4), 16);
+      i += 4;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else if (!Number.isNaN(byte)) {
+        pendingBytes.push(byte);
+      }
+      continue;
+    }
+    if (next === undefined || !/[a-z]/i.test(next)) {
+      i += 2;
+      if (next === '*') {
+        state.skip = true; // Unknown-destination marker: ignorable by readers that don't support it
+      } else if (next === '~') {
+        emit(' ');
+      } else if (next === '_') {
+        emit('-');
+      } else if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+      } else if (next === '\n' || next === '\r') {
+        emit('\n'); // Escaped line break is an alias for \par
+      }
+      continue;
+    }
+
+    const match = /^\\([a-z]+)(-?\d+)? ?/i.exec(source.slice(i, i + 64));
+    if (!match) {
+      i++;
+      continue;
+    }
+    const [token, word, param] = match;
+    i += token.length;
+
+    if (word === 'bin') {
+      i += Number(param) || 0; // Raw binary payload
+      continue;
+    }
+    if (word === 'u') {
+      let code = Number(param);
+      if (code < 0) code += 65536;
+      emit(String.fromCharCode(code));
+      fallbackToSkip = state.unicodeSkip;
+      continue;
+    }
+    if (word === 'uc') {
+      state.unicodeSkip = Number(param) || 0;
+      continue;
+    }
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      flushBytes();
+      state.skip = true;
+      continue;
+    }
+    const text = CONTROL_TEXT[word];
+    if (text !== undefined) emit(text);
+  }
+  flushBytes();
+
+  return out
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,29 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { extractXlsxSheets, formatSheets } from './spreadsheet';
+
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/sample.xlsx', import.meta.url)));
+
+describe('XLSX extraction', () => {
+  test('reads every sheet in workbook order, one line per non-empty row', async () => {
+    const sheets = await extractXlsxSheets(fixture);
+    expect(sheets).toEqual([
+      {
+        name: 'Invoices',
+        rows: [
+          'Invoice | Vendor | Amount',
+          '1001 | Acme & Sons | 2500.5',
+          '1002 |  | 5001 | Late fee waived', // Blank cell kept in place; rich text runs joined
+          'TRUE |  | Paid in full',
+        ],
+      },
+      { name: 'Notes & Terms', rows: [' | Net 30 <standard>'] },
+    ]);
+  });
+
+  test('formats sheets as pages for the page map', async () => {
+    const { text, pages } = formatSheets(await extractXlsxSheets(fixture));
+    expect(pages.map(lines => lines[0])).toEqual(['Sheet: Invoices', 'Sheet: Notes & Terms']);
+    expect(text).toContain('TRUE |  | Paid in full\n\nSheet: Notes & Terms');
+  });
+});
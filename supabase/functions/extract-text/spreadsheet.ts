@@ -0,0 +1,104 @@
+// supabase/functions/extract-text/spreadsheet.ts
+// XLSX -> text, one sheet at a time. Each sheet becomes a "page" whose lines are its rows
+// (cells joined with " | "), so page_map citations point at sheet and row.
+import { decodeXml, xmlAttribute } from './xml.ts';
+import { openZip, type ZipArchive } from './zip.ts';
+
+export interface SheetText {
+  name: string;
+  rows: string[];
+}
+
+const CELL_SEPARATOR = ' | ';
+
+// "AB12" -> 27 (0-based column index)
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Text of a <si> or <is> element; rich text splits it across several <t> runs
+function runText(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map(match => decodeXml(match[1])).join('');
+}
+
+async function readSharedStrings(zip: ZipArchive): Promise<string[]> {
+  const xml = await zip.readText('xl/sharedStrings.xml');
+  if (!xml) return [];
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>|<si\/>/g)].map(match => runText(match[1] ?? ''));
+}
+
+// Sheet names in workbook order, with the part each one is stored in
+async function readSheetList(zip: ZipArchive): Promise<{ name: string; path: string }[]> {
+  const workbook = await zip.readText('xl/workbook.xml');
+  if (!workbook) throw new Error('Not a spreadsheet: xl/workbook.xml is missing');
+  const rels = (await zip.readText('xl/_rels/workbook.xml.rels')) ?? '';
+
+  const targets = new Map<string, string>();
+  for (const [tag] of rels.matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = xmlAttribute(tag, 'Id');
+    const target = xmlAttribute(tag, 'Target');
+    if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  return [...workbook.matchAll(/<sheet\s[^>]*>/g)].map(([tag], i) => ({
+    name: xmlAttribute(tag, 'name') ?? `Sheet${i + 1}`,
+    path: targets.get(xmlAttribute(tag, 'r:id') ?? '') ?? `xl/worksheets/sheet${i + 1}.xml`,
+  }));
+}
+
+function readRows(sheetXml: string, sharedStrings: string[]): string[] {
+  const rows: string[] = [];
+  for (const row of sheetXml.matchAll(/<row[\s>][\s\S]*?<\/row>/g)) {
+    const cells: string[] = [];
+    for (const cell of row[0].matchAll(/<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const tag = `<c${cell[1] ?? ''}>`;
+      const body = cell[2] ?? '';
+      const raw = body.match(/<v>([^<]*)<\/v>/)?.[1];
+      let value: string;
+      switch (xmlAttribute(tag, 't')) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr':
+          value = runText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          // Numbers, formula results ('str') and errors ('e'); dates stay as Excel serial numbers
+          value = raw !== undefined ? decodeXml(raw) : '';
+      }
+      const ref = xmlAttribute(tag, 'r');
+      const column = ref ? columnIndex(ref) : cells.length;
+      while (cells.length < column) cells.push('');
+      cells[column] = value.trim();
+    }
+    while (cells.length > 0 && !cells[cells.length - 1]) cells.pop();
+    if (cells.length > 0) rows.push(cells.join(CELL_SEPARATOR));
+  }
+  return rows;
+}
+
+export async function extractXlsxSheets(data: Uint8Array): Promise<SheetText[]> {
+  const zip = openZip(data);
+  const sharedStrings = await readSharedStrings(zip);
+  const sheets: SheetText[] = [];
+  for (const { name, path } of await readSheetList(zip)) {
+    const xml = await zip.readText(path);
+    // Chart sheets and dialog sheets have no cell data
+    sheets.push({ name, rows: xml ? readRows(xml, sharedStrings) : [] });
+  }
+  return sheets;
+}
+
+/**
+ * Text plus per-sheet lines for buildPageMap. Every sheet opens with a "Sheet: <name>" line.
+ */
+export function formatSheets(sheets: SheetText[]): { text: string; pages: string[][] } {
+  const pages = sheets.map(sheet => [`Sheet: ${sheet.name}`, ...sheet.rows]);
+  return { text: pages.map(lines => lines.join('\n')).join('\n\n'), pages };
+}
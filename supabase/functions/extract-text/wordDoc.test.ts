@@ -0,0 +1,32 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { extractWordDocText } from './wordDoc';
+
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/sample.doc', import.meta.url)));
+
+describe('Word 97 .doc extraction', () => {
+  const text = extractWordDocText(fixture);
+
+  test('reads 8-bit and UTF-16 pieces in document order', () => {
+    expect(text).toContain('Master Services Agreement\nThis Agreement is made between Acme Corp and Globex LLC.');
+    expect(text).toContain('Payment terms: net 30 — café déjà vu.');
+  });
+
+  test('keeps field results, drops field instructions', () => {
+    expect(text).toContain('See the published terms for details.');
+    expect(text).not.toContain('HYPERLINK');
+  });
+
+  test('lays tables out as tab-separated rows and page breaks as new lines', () => {
+    expect(text).toContain('for details.\nSchedule A');
+    expect(text).toContain('Party\tRole\nAcme\tSupplier');
+  });
+
+  test('stops at the end of the main text (no header stories)', () => {
+    expect(text).not.toContain('CONFIDENTIAL HEADER');
+  });
+
+  test('rejects files that are not compound documents', () => {
+    expect(() => extractWordDocText(new TextEncoder().encode('not a doc'))).toThrow(/compound file/);
+  });
+});
@@ -0,0 +1,106 @@
+// supabase/functions/extract-text/wordDoc.ts
+// Word 97-2003 (.doc) -> text ([MS-DOC]). The text lives in the WordDocument stream as a list
+// of pieces (8-bit or UTF-16) described by the piece table in the 0Table/1Table stream.
+import { openCompoundFile } from './compoundFile.ts';
+
+const WORD_SIGNATURE = 0xa5ec;
+const FLAG_ENCRYPTED = 0x0100;
+const FLAG_WHICH_TABLE_STREAM = 0x0200;
+// Index of the fcClx/lcbClx pair within FibRgFcLcb
+const CLX_PAIR_INDEX = 33;
+const PIECE_COMPRESSED = 0x40000000;
+
+/**
+ * Returns the main document text followed by footnotes. Paragraph and page marks become line
+ * breaks; field codes are dropped in favour of their displayed results.
+ */
+export function extractWordDocText(data: Uint8Array): string {
+  const file = openCompoundFile(data);
+  const wordDocument = file.read('WordDocument');
+  if (!wordDocument) throw new Error('Not a Word document (no WordDocument stream)');
+  const fib = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength);
+
+  if (fib.getUint16(0, true) !== WORD_SIGNATURE) throw new Error('Not a Word 97-2003 document');
+  const flags = fib.getUint16(0x0a, true);
+  if (flags & FLAG_ENCRYPTED) throw new Error('Document is password protected');
+
+  // FibBase (32 bytes), then three variable-length arrays: FibRgW, FibRgLw, FibRgFcLcb
+  const rgWCount = fib.getUint16(32, true);
+  const rgLwOffset = 34 + rgWCount * 2 + 2;
+  const rgLwCount = fib.getUint16(34 + rgWCount * 2, true);
+  const rgFcLcbOffset = rgLwOffset + rgLwCount * 4 + 2;
+  const ccpText = fib.getInt32(rgLwOffset + 3 * 4, true);
+  const ccpFootnotes = fib.getInt32(rgLwOffset + 4 * 4, true);
+  const fcClx = fib.getUint32(rgFcLcbOffset + CLX_PAIR_INDEX * 8, true);
+  const lcbClx = fib.getUint32(rgFcLcbOffset + CLX_PAIR_INDEX * 8 + 4, true);
+
+  const table = file.read(flags & FLAG_WHICH_TABLE_STREAM ? '1Table' : '0Table');
+  if (!table || lcbClx === 0) throw new Error('Word document has no piece table');
+  const clx = new DataView(table.buffer, table.byteOffset + fcClx, lcbClx);
+
+  // Clx = any number of Prc (0x01, formatting) blocks, then one Pcdt (0x02) holding the PlcPcd
+  let offset = 0;
+  while (offset < lcbClx && clx.getUint8(offset) === 0x01) {
+    offset += 3 + clx.getUint16(offset + 1, true);
+  }
+  if (clx.getUint8(offset) !== 0x02) throw new Error('Corrupt Word piece table');
+  const plcLength = clx.getUint32(offset + 1, true);
+  const plc = offset + 5;
+  const pieceCount = (plcLength - 4) / 12;
+
+  const wantedChars = ccpText + Math.max(ccpFootnotes, 0);
+  const cp1252 = new TextDecoder('windows-1252');
+  const utf16 = new TextDecoder('utf-16le');
+  let text = '';
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = clx.getUint32(plc + i * 4, true);
+    if (cpStart >= wantedChars) break;
+    const cpEnd = Math.min(clx.getUint32(plc + (i + 1) * 4, true), wantedChars);
+    const fc = clx.getUint32(plc + (pieceCount + 1) * 4 + i * 8 + 2, true);
+    const length = cpEnd - cpStart;
+    if (fc & PIECE_COMPRESSED) {
+      const start = (fc & ~PIECE_COMPRESSED) / 2;
+      text += cp1252.decode(wordDocument.subarray(start, start + length));
+    } else {
+      text += utf16.decode(wordDocument.subarray(fc, fc + length * 2));
+    }
+  }
+
+  return cleanWordText(text);
+}
+
+// Special characters in the text stream ([MS-DOC] 2.8.25)
+const FIELD_BEGIN = 0x13;
+const FIELD_SEPARATOR = 0x14;
+const FIELD_END = 0x15;
+const CELL_MARK = 0x07;
+const CONTROL_REPLACEMENTS: Record<number, string> = {
+  [CELL_MARK]: '\t', // Table cell end
+  0x09: '\t',
+  0x0b: '\n', // Line break
+  0x0c: '\n', // Page or section break
+  0x0d: '\n', // Paragraph end
+  0x1e: '-', // Non-breaking hyphen
+};
+
+function cleanWordText(text: string): string {
+  // Fields are \x13 instructions \x14 result \x15 and nest; keep only what a reader sees
+  const fields: boolean[] = []; // Per open field: past its separator (showing the result)?
+  let out = '';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (code === FIELD_BEGIN) {
+      fields.push(false);
+    } else if (code === FIELD_SEPARATOR) {
+      if (fields.length > 0) fields[fields.length - 1] = true;
+    } else if (code === FIELD_END) {
+      fields.pop();
+    } else if (code === CELL_MARK && out.endsWith('\t')) {
+      out = `${out.slice(0, -1)}\n`; // Two marks in a row: the second ends the table row
+    } else if (!fields.includes(false)) {
+      // Other control characters anchor pictures, footnote marks and optional hyphens
+      out += code < 0x20 ? CONTROL_REPLACEMENTS[code] ?? '' : ch;
+    }
+  }
+  return out.replace(/[ \t]+\n/g, '\n').trim();
+}
@@ -0,0 +1,21 @@
+// supabase/functions/extract-text/xml.ts
+// Minimal XML helpers for the Office Open XML extractors (DOCX pages, XLSX sheets). The
+// formats are machine-written and regular enough that a tokenizing regex is all we need.
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+// Value of one attribute in a start tag, e.g. xmlAttribute('<sheet name="Q1" r:id="rId2"/>', 'r:id')
+export function xmlAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name.replace(':', '\\:')}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
@@ -0,0 +1,85 @@
+// supabase/functions/extract-text/zip.ts
+// Reads entries out of ZIP containers (DOCX, XLSX) using the runtime's built-in
+// DecompressionStream, so the extractors work unchanged under Deno and in the Node test runner.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+interface ZipEntry {
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  read(name: string): Promise<Uint8Array | null>;
+  readText(name: string): Promise<string | null>;
+}
+
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 && new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Indexes a ZIP archive from its central directory. Entries are only inflated when read.
+ */
+export function openZip(data: Uint8Array): ZipArchive {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-central-directory record sits in the last 22 bytes plus up to 64KB of comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive (no central directory)');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  const nameDecoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = nameDecoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const header = entry.localHeaderOffset;
+    // The local header repeats the name but may carry a different extra field
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const raw = data.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return raw;
+    if (entry.method === 8) return await inflateRaw(raw);
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+  };
+
+  return {
+    names: [...entries.keys()],
+    read,
+    readText: async (name) => {
+      const bytes = await read(name);
+      return bytes ? new TextDecoder().decode(bytes) : null;
+    },
+  };
+}
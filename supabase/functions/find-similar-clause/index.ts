@@ -0,0 +1,144 @@
+// supabase/functions/find-similar-clause/index.ts
+// Compares a clause found in a document with library clauses the client has shortlisted by word
+// overlap, and says which of them cover the same ground and how the document's clause differs.
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createSupabaseAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAuth } from "../_shared/auth.ts";
+import { startAiCall, type AiCallMeter, type AiCallUsage } from "../_shared/usage.ts";
+import { createLlmGateway } from "../_shared/llm.ts";
+
+console.log("Find-Similar-Clause: Function script starting...");
+
+const llm = createLlmGateway();
+
+interface ClauseText {
+  title: string;
+  text: string;
+}
+
+interface Candidate extends ClauseText {
+  id: string;
+}
+
+// Mirrors SimilarClauseMatch in src/types/clauseLibrary.ts, with the clause as its id
+interface ClauseMatch {
+  id: string;
+  match: 'equivalent' | 'close' | 'partial';
+  differences: string;
+}
+
+const MAX_CANDIDATES = 10;
+const MAX_CLAUSE_LENGTH = 8000;
+
+const isClauseText = (value: unknown): value is ClauseText =>
+  !!value && typeof value === 'object' &&
+  typeof (value as Record<string, unknown>).title === 'string' &&
+  typeof (value as Record<string, unknown>).text === 'string' &&
+  ((value as ClauseText).text.length <= MAX_CLAUSE_LENGTH);
+
+function isCandidateList(value: unknown): value is Candidate[] {
+  return Array.isArray(value) && value.length <= MAX_CANDIDATES &&
+    value.every(candidate => isClauseText(candidate) && typeof (candidate as Record<string, unknown>).id === 'string');
+}
+
+async function compareWithLibrary(
+  clause: ClauseText,
+  candidates: Candidate[],
+): Promise<{ matches: ClauseMatch[]; usage: AiCallUsage }> {
+  const systemPrompt = `You are an expert legal AI assistant helping a lawyer reuse their firm's clause library.
+You receive a CLAUSE from a document under review and LIBRARY clauses, each with an "id". Decide which library clauses deal with the same subject and serve the same purpose as the CLAUSE. Ignore library clauses on a different subject, however similar their wording.
+Placeholders in library clauses (e.g. party names, amounts, dates) stand for values to be filled in and are not differences.
+Return a JSON object with one key, "matches": an array, best match first, with one object per library clause that covers the same ground, each with:
+-   "id": (string) the library clause's id, exactly as given
+-   "match": (string) "equivalent" if the legal effect is the same, "close" if it differs in minor terms, "partial" if it covers only part of the CLAUSE or differs materially
+-   "differences": (string) one or two sentences on what the CLAUSE does differently from the library clause (e.g. a different cap, a missing carve-out, a longer notice period); "No material differences." when equivalent
+Return an empty "matches" array when no library clause fits.
+Ensure your entire response is a single, valid JSON object.`;
+
+  const userPrompt = `--- CLAUSE${clause.title ? ` (${clause.title})` : ''} ---
+${clause.text}
+
+${candidates.map(candidate => `--- LIBRARY id=${candidate.id} (${candidate.title}) ---
+${candidate.text}`).join('\n\n')}`;
+
+  const response = await llm.json<{ matches?: unknown }>("find-similar-clause", {
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    temperature: 0.2,
+    maxTokens: 1500,
+  });
+
+  const parsed = response.data;
+  if (!Array.isArray(parsed.matches)) {
+    throw new Error("AI response was valid JSON but missed the required 'matches' array.");
+  }
+
+  // Keep only matches for clauses that were offered, once each
+  const ids = new Set(candidates.map(candidate => candidate.id));
+  const matches = (parsed.matches as Partial<ClauseMatch>[])
+    .filter(item => typeof item?.id === 'string' && ids.delete(item.id))
+    .map(item => ({
+      id: item.id!,
+      match: item.match === 'equivalent' || item.match === 'close' ? item.match : 'partial',
+      differences: typeof item.differences === 'string' ? item.differences : '',
+    }));
+  return { matches, usage: response.usage };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let meter: AiCallMeter | undefined;
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+
+    const { clause, candidates } = await req.json();
+
+    if (!isClauseText(clause) || !clause.text.trim()) {
+      return new Response(JSON.stringify({ error: `'clause' must be a { title, text } object with text of at most ${MAX_CLAUSE_LENGTH} characters` }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+    if (!isCandidateList(candidates)) {
+      return new Response(JSON.stringify({ error: `'candidates' must be an array of at most ${MAX_CANDIDATES} { id, title, text } objects` }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+    if (candidates.length === 0) {
+      return new Response(JSON.stringify({ matches: [] }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'find-similar-clause' });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
+
+    const { matches, usage } = await compareWithLibrary(clause, candidates);
+
+    await aiCall.succeed(usage);
+
+    return new Response(JSON.stringify({ matches }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Find-Similar-Clause: Error in main function handler:", error);
+    await meter?.fail(error);
+    const errorMessage = error instanceof Error ? error.message : "Internal Server Error";
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
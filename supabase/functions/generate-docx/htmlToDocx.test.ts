@@ -0,0 +1,141 @@
+import { describe, expect, test, vi } from 'vitest';
+
+// The function imports docx and node-html-parser through Deno's npm: specifiers
+vi.mock('npm:docx@9.5.0', () => import('docx'));
+vi.mock('npm:node-html-parser@6.1.11', () => import('node-html-parser'));
+
+import { Packer } from 'docx';
+import { openZip } from '../extract-text/zip';
+import { resolveDocxOptions, type DocxComment, type DocxExportOptions } from '../_shared/docxFormatting';
+import { buildDocxDocument } from './htmlToDocx';
+
+const exportDocx = async (html: string, options: DocxExportOptions = {}, comments: DocxComment[] = []) => {
+  const zip = openZip(new Uint8Array(await Packer.toBuffer(buildDocxDocument(html, resolveDocxOptions(options), comments))));
+  const part = async (name: string) => (await zip.readText(name)) ?? '';
+  return { document: await part('word/document.xml'), numbering: await part('word/numbering.xml'), header: await part('word/header1.xml') };
+};
+
+// Each body paragraph's text with its list level, numbering instance and alignment
+const paragraphs = (xml: string) => [...xml.matchAll(/<w:p>(.*?)<\/w:p>|<w:p\/>/g)].map(([, p = '']) => ({
+  text: [...p.matchAll(/<w:(?:t|delText)[^>]*>([^<]*)<\//g)].map(match => match[1]).join(''),
+  level: p.match(/<w:ilvl w:val="(\d+)"\/>/)?.[1] ?? null,
+  list: p.match(/<w:numId w:val="(\d+)"\/>/)?.[1] ?? null,
+  align: p.match(/<w:jc w:val="(\w+)"\/>/)?.[1] ?? null,
+  pageBreak: p.includes('<w:br w:type="page"/>'),
+}));
+const paragraph = (xml: string, text: string) => paragraphs(xml).find(p => p.text === text)!;
+
+describe('HTML to DOCX', () => {
+  test('exports tables with header rows, merged cells and shading', async () => {
+    const { document } = await exportDocx(
+      '<table><thead><tr><th>Party</th><th>Role</th></tr></thead>'
+      + '<tbody><tr><td>Acme Corp</td><td>Plaintiff</td></tr><tr><td colspan="2" style="background-color: #fef9c3">Both represented</td></tr></tbody></table>',
+    );
+    const rows = document.match(/<w:tr>.*?<\/w:tr>/g)!;
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toContain('<w:tblHeader/>');
+    expect(rows[0]).toMatch(/<w:b\/>.*Party/); // Header cells are bold
+    expect(rows[1]).toContain('Acme Corp');
+    expect(rows[2]).toContain('<w:gridSpan w:val="2"/>');
+    expect(rows[2]).toContain('w:fill="FEF9C3"');
+  });
+
+  test('numbers ordered lists from their start, restarts each list and nests levels', async () => {
+    const { document, numbering } = await exportDocx(
+      '<ol start="3"><li><p>Third</p><ul><li><p>Nested bullet</p></li></ul></li><li><p>Fourth</p></li></ol>'
+      + '<ol><li><p>First again</p><ol><li><p>Sub-item</p></li></ol></li></ol>',
+    );
+    const third = paragraph(document, 'Third');
+    expect(third.level).toBe('0');
+    expect(paragraph(document, 'Fourth').list).toBe(third.list);
+    expect(numbering).toContain(`<w:num w:numId="${third.list}"><w:abstractNumId w:val="3"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="3"/>`);
+
+    const nested = paragraph(document, 'Nested bullet');
+    expect(nested.level).toBe('1');
+    expect(nested.list).not.toBe(third.list);
+
+    const again = paragraph(document, 'First again');
+    expect(again.list).not.toBe(third.list);
+    const subItem = paragraph(document, 'Sub-item');
+    expect(subItem.level).toBe('1');
+    expect([third.list, again.list]).not.toContain(subItem.list); // A nested ordered list counts on its own
+  });
+
+  test('aligns paragraphs and table cells', async () => {
+    const { document } = await exportDocx(
+      '<p style="text-align: center">Centered</p><p style="text-align: justify">Justified</p><p style="text-align:right">Right</p><p>Default</p>'
+      + '<table><tr><td style="text-align: right">$1,000</td></tr></table>',
+    );
+    expect(paragraph(document, 'Centered').align).toBe('center');
+    expect(paragraph(document, 'Justified').align).toBe('both');
+    expect(paragraph(document, 'Right').align).toBe('right');
+    expect(paragraph(document, 'Default').align).toBeNull();
+    expect(paragraph(document, '$1,000').align).toBe('right');
+  });
+
+  test('breaks pages at page-break rules and before or after styled blocks', async () => {
+    const { document } = await exportDocx(
+      '<p>Cover</p><hr data-type="page-break"><p>Body</p><p style="page-break-before: always">Exhibit A</p>'
+      + '<p style="break-after: page">Exhibit B</p><p>End</p><hr>',
+    );
+    expect(paragraphs(document).map(p => p.pageBreak ? 'page break' : p.text)).toEqual([
+      'Cover', 'page break', 'Body', 'page break', 'Exhibit A', 'Exhibit B', 'page break', 'End', '',
+    ]);
+    expect(document).toContain('<w:pBdr><w:bottom'); // A plain <hr> stays a rule
+  });
+
+  test('lays out pleading paper with line numbers, exact spacing and the caption', async () => {
+    const { document, header } = await exportDocx('<p>MEMORANDUM OF POINTS AND AUTHORITIES</p>', {
+      pleadingPaper: true,
+      caption: {
+        attorneyLines: ['Jane Doe (SBN 123456)', 'Doe LLP'],
+        court: 'SUPERIOR COURT OF CALIFORNIA\nCOUNTY OF SAN FRANCISCO',
+        plaintiffs: 'ACME CORP,\nPlaintiff,',
+        defendants: 'GLOBEX INC.,\nDefendant.',
+        caseNumber: 'CGC-24-000123',
+        documentTitle: 'MOTION TO COMPEL',
+      },
+    });
+    // Numbers 1-28 in a table floated against the page, in every page's header
+    expect(header).toContain('<w:tblpPr');
+    expect([...header.matchAll(/<w:t[^>]*>(\d+)<\/w:t>/g)].map(match => Number(match[1]))).toEqual(Array.from({ length: 28 }, (_, i) => i + 1));
+    expect(header).toContain('w:lineRule="exact"');
+
+    const texts = paragraphs(document).map(p => p.text);
+    expect(texts.slice(0, 6)).toEqual(['Jane Doe (SBN 123456)', 'Doe LLP', '', 'SUPERIOR COURT OF CALIFORNIA', 'COUNTY OF SAN FRANCISCO', '']);
+    expect(paragraph(document, 'SUPERIOR COURT OF CALIFORNIA').align).toBe('center');
+    expect(texts).toEqual(expect.arrayContaining(['v.', 'Case No. CGC-24-000123', 'MOTION TO COMPEL']));
+    expect(texts.indexOf('MEMORANDUM OF POINTS AND AUTHORITIES')).toBeGreaterThan(texts.indexOf('MOTION TO COMPEL'));
+    expect(document).toMatch(/<w:pgMar w:top="1440" w:right="720" w:bottom="\d+" w:left="2160"/);
+  });
+
+  test('exports tracked changes as Word insertions and deletions with their author and date', async () => {
+    const { document } = await exportDocx(
+      '<p>The term is <del data-author="Paul Paralegal" data-date="2026-03-03T09:30:00Z">two</del>'
+      + '<ins data-author="Olivia Owner" data-date="2026-03-02T10:00:00Z"><strong>three</strong></ins> years.</p>'
+      + '<p><ins>Underlined, not tracked</ins> and <del>struck, not tracked</del></p>',
+    );
+    expect(document).toContain('<w:del w:id="1" w:author="Paul Paralegal" w:date="2026-03-03T09:30:00Z"><w:r><w:delText xml:space="preserve">two</w:delText></w:r></w:del>');
+    expect(document).toMatch(/<w:ins w:id="2" w:author="Olivia Owner" w:date="2026-03-02T10:00:00Z"><w:r><w:rPr><w:b\/>.*?<w:t xml:space="preserve">three<\/w:t><\/w:r><\/w:ins>/);
+    expect(paragraphs(document)[0].text).toBe('The term is twothree years.');
+    // Without an author, <ins>/<del> are only formatting
+    expect(document.match(/<w:ins |<w:del /g)).toHaveLength(2);
+    expect(document).toMatch(/<w:u w:val="single"\/>.*?Underlined, not tracked/);
+    expect(document).toMatch(/<w:strike\/>.*?struck, not tracked/);
+  });
+
+  test('keeps comments and revision ids to the document being converted', async () => {
+    const html = '<p><span data-comment-thread="t1">Disputed clause</span> <ins data-author="Olivia Owner" data-date="2026-03-02T10:00:00Z">added</ins></p>';
+    const comments = [{ id: 't1', entries: [{ author: 'Olivia Owner', text: 'Check this' }] }];
+    // Built back to back before either is packed, as concurrent requests would be
+    const first = buildDocxDocument(html, resolveDocxOptions(), comments);
+    const second = buildDocxDocument('<p><del data-author="Paul Paralegal" data-date="2026-03-03T09:30:00Z">No comments here</del></p>', resolveDocxOptions(), []);
+    const firstZip = openZip(new Uint8Array(await Packer.toBuffer(first)));
+    const secondZip = openZip(new Uint8Array(await Packer.toBuffer(second)));
+    expect(await firstZip.readText('word/document.xml')).toContain('<w:commentRangeStart w:id="0"/>');
+    expect(await firstZip.readText('word/comments.xml')).toContain('Check this');
+    expect(await firstZip.readText('word/document.xml')).toContain('<w:ins w:id="1"');
+    expect(await secondZip.readText('word/document.xml')).not.toContain('commentRange');
+    expect(await secondZip.readText('word/document.xml')).toContain('<w:del w:id="1"');
+  });
+});
@@ -0,0 +1,649 @@
+// supabase/functions/generate-docx/htmlToDocx.ts
+// Converts editor HTML (Tiptap output, filled templates, generated tables) into a Word document:
+// headings, aligned paragraphs, nested bullet and numbered lists, tables, links, text colour and
+// highlight, page breaks, tracked changes (as Word revisions), comments, and the page setup (font,
+// spacing, margins, header/footer, pleading paper and caption) described by ResolvedDocxOptions.
+import {
+  AlignmentType,
+  BorderStyle,
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  DeletedTextRun,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  HeightRule,
+  InsertedTextRun,
+  LevelFormat,
+  LineRuleType,
+  OverlapType,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableAnchorType,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'npm:docx@9.5.0';
+import { parse, type HTMLElement, type Node } from 'npm:node-html-parser@6.1.11';
+import {
+  cssColorToHex,
+  cssFontSizeToHalfPoints,
+  cssTextAlignment,
+  listNumberingLevels,
+  pageBreakPosition,
+  parseInlineStyle,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PLEADING_LINE_COUNT,
+  PLEADING_LINE_PITCH,
+  type DocxAlignment,
+  type DocxCaption,
+  type DocxComment,
+  type ListLevel,
+  type ResolvedDocxOptions,
+} from '../_shared/docxFormatting.ts';
+
+type Block = Paragraph | Table;
+type Run = TextRun | InsertedTextRun | DeletedTextRun;
+type Inline = Run | ExternalHyperlink | CommentRangeStart | CommentRangeEnd;
+
+// A tracked change from the editor (<ins>/<del> with data-author and data-date)
+interface Revision {
+  kind: 'insertion' | 'deletion';
+  author: string;
+  date: string;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  hyperlink?: boolean;
+  preserveWhitespace?: boolean; // Inside <pre>
+  color?: string;
+  shading?: string; // Background fill; Word's highlight only offers a fixed palette
+  size?: number; // Half-points
+  font?: string;
+  revision?: Revision;
+}
+
+interface ParagraphStyle {
+  alignment?: DocxAlignment;
+  indentLeft?: number; // Twips, e.g. for blockquotes
+  // The first paragraph of a list item carries the number/bullet, the rest are indented under it
+  listMarker?: { reference: string; level: number; used: boolean };
+}
+
+// Everything one conversion accumulates; each buildDocxDocument call starts its own
+interface ConversionState {
+  numbering: { reference: string; levels: ReturnType<typeof toDocxLevel>[] }[];
+  orderedLists: number;
+  revisions: number; // Word revision ids only need to be unique within the document
+  // Exported comments by thread id: the Word comment id and how many of the thread's spans are still
+  // to come. A comment across paragraphs arrives as one span per paragraph but Word wants one range.
+  commentRanges: Map<string, { id: number; started: boolean; remaining: number }>;
+}
+
+const BULLET_REFERENCE = 'bullets';
+
+const ALIGNMENT = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justified: AlignmentType.JUSTIFIED,
+};
+
+const HEADINGS: Record<string, typeof HeadingLevel[keyof typeof HeadingLevel]> = {
+  H1: HeadingLevel.HEADING_1,
+  H2: HeadingLevel.HEADING_2,
+  H3: HeadingLevel.HEADING_3,
+  H4: HeadingLevel.HEADING_4,
+  H5: HeadingLevel.HEADING_5,
+  H6: HeadingLevel.HEADING_6,
+};
+
+const LEVEL_FORMATS = {
+  decimal: LevelFormat.DECIMAL,
+  lowerLetter: LevelFormat.LOWER_LETTER,
+  lowerRoman: LevelFormat.LOWER_ROMAN,
+  bullet: LevelFormat.BULLET,
+};
+
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'TABLE', 'BLOCKQUOTE', 'PRE', 'HR',
+  'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'FIGURE',
+]);
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'auto' };
+const NO_BORDERS = {
+  top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER, insideHorizontal: NO_BORDER, insideVertical: NO_BORDER,
+};
+const RULE = { style: BorderStyle.SINGLE, size: 6, color: '000000' };
+
+const isElement = (node: Node): node is HTMLElement => node.nodeType === 1;
+const isBlock = (node: Node) => isElement(node) && BLOCK_TAGS.has(node.tagName);
+
+function toDocxLevel(level: ListLevel) {
+  return {
+    level: level.level,
+    format: LEVEL_FORMATS[level.format],
+    text: level.text,
+    alignment: AlignmentType.LEFT,
+    start: level.start,
+    style: level.style,
+  };
+}
+
+// --- Inline content ---
+
+function textRun(text: string, state: ConversionState, style: RunStyle): Run {
+  const options = {
+    text,
+    bold: style.bold,
+    italics: style.italics,
+    underline: style.underline ? {} : undefined,
+    strike: style.strike,
+    superScript: style.superScript,
+    subScript: style.subScript,
+    color: style.color,
+    size: style.size,
+    font: style.code ? 'Courier New' : style.font,
+    shading: style.shading ? { type: ShadingType.CLEAR, color: 'auto', fill: style.shading } : undefined,
+    style: style.hyperlink ? 'Hyperlink' : undefined,
+  };
+  if (!style.revision) return new TextRun(options);
+  const change = { id: ++state.revisions, author: style.revision.author, date: style.revision.date };
+  return style.revision.kind === 'insertion' ? new InsertedTextRun({ ...options, ...change }) : new DeletedTextRun({ ...options, ...change });
+}
+
+function commented(element: HTMLElement, state: ConversionState, content: Inline[]): Inline[] {
+  const range = state.commentRanges.get(element.getAttribute('data-comment-thread') ?? '');
+  if (!range) return content;
+  const start = range.started ? [] : [new CommentRangeStart(range.id)];
+  range.started = true;
+  range.remaining -= 1;
+  if (range.remaining > 0) return [...start, ...content];
+  return [...start, ...content, new CommentRangeEnd(range.id), new TextRun({ children: [new CommentReference(range.id)] })];
+}
+
+// Editor changes carry their author; any other <ins>/<del> is just underline or strikethrough
+function revision(element: HTMLElement, kind: Revision['kind']): Revision | null {
+  const author = element.getAttribute('data-author');
+  if (!author) return null;
+  return { kind, author, date: element.getAttribute('data-date') || new Date().toISOString() };
+}
+
+// Formatting an inline element adds to its children: tags first, then its inline style
+function inlineStyle(element: HTMLElement, style: RunStyle): RunStyle {
+  const css = parseInlineStyle(element.getAttribute('style'));
+  const next: RunStyle = { ...style };
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      next.bold = true;
+      break;
+    case 'EM':
+    case 'I':
+      next.italics = true;
+      break;
+    case 'INS':
+    case 'DEL': {
+      const change = revision(element, element.tagName === 'INS' ? 'insertion' : 'deletion');
+      if (change) next.revision = change;
+      else if (element.tagName === 'INS') next.underline = true;
+      else next.strike = true;
+      break;
+    }
+    case 'U':
+      next.underline = true;
+      break;
+    case 'S':
+    case 'STRIKE':
+      next.strike = true;
+      break;
+    case 'CODE':
+    case 'KBD':
+      next.code = true;
+      break;
+    case 'SUP':
+      next.superScript = true;
+      break;
+    case 'SUB':
+      next.subScript = true;
+      break;
+    case 'MARK':
+      // Multicolor highlights carry data-color; a plain <mark> is yellow
+      next.shading = cssColorToHex(element.getAttribute('data-color')) ?? cssColorToHex(css['background-color']) ?? 'FFFF00';
+      break;
+    case 'SPAN':
+      // Template variables keep their on-screen emphasis
+      if (element.getAttribute('data-variable-name')) {
+        next.color = 'FF6600';
+        next.bold = true;
+      }
+      break;
+  }
+
+  const color = cssColorToHex(css.color);
+  if (color) next.color = color;
+  const background = element.tagName === 'MARK' ? null : cssColorToHex(css['background-color']);
+  if (background) next.shading = background;
+  const size = cssFontSizeToHalfPoints(css['font-size']);
+  if (size) next.size = size;
+  const family = css['font-family']?.split(',')[0].replace(/["']/g, '').trim();
+  if (family) next.font = family;
+  if (css['font-weight'] === 'bold' || Number(css['font-weight']) >= 600) next.bold = true;
+  if (css['font-style'] === 'italic') next.italics = true;
+  if (css['text-decoration']?.includes('underline')) next.underline = true;
+  if (css['text-decoration']?.includes('line-through')) next.strike = true;
+  return next;
+}
+
+function inlines(nodes: Node[], state: ConversionState, style: RunStyle): Inline[] {
+  return nodes.flatMap(node => inline(node, state, style));
+}
+
+function inline(node: Node, state: ConversionState, style: RunStyle): Inline[] {
+  if (node.nodeType === 3) {
+    const text = node.text;
+    if (style.preserveWhitespace) {
+      return text.split('\n').flatMap((line, i) => [
+        ...(i > 0 ? [new TextRun({ text: '', break: 1 })] : []),
+        ...(line ? [textRun(line, state, style)] : []),
+      ]);
+    }
+    const collapsed = text.replace(/\s+/g, ' ');
+    return collapsed ? [textRun(collapsed, state, style)] : [];
+  }
+  if (!isElement(node)) return [];
+
+  switch (node.tagName) {
+    case 'BR':
+      return [new TextRun({ text: '', break: 1 })];
+    case 'IMG':
+      return [];
+    case 'A': {
+      const href = node.getAttribute('href');
+      if (!href || !/^(https?:|mailto:)/i.test(href)) return inlines(node.childNodes, state, style);
+      // Links don't nest
+      const children = inlines(node.childNodes, state, { ...style, hyperlink: true }).filter(c => !(c instanceof ExternalHyperlink));
+      return [new ExternalHyperlink({ link: href, children })];
+    }
+    case 'SPAN':
+      return node.hasAttribute('data-comment-thread')
+        ? commented(node, state, inlines(node.childNodes, state, inlineStyle(node, style)))
+        : inlines(node.childNodes, state, inlineStyle(node, style));
+    default:
+      return inlines(node.childNodes, state, inlineStyle(node, style));
+  }
+}
+
+// --- Blocks ---
+
+function paragraph(children: Inline[], para: ParagraphStyle, heading?: typeof HeadingLevel[keyof typeof HeadingLevel]): Paragraph {
+  const marker = para.listMarker;
+  const numbered = marker && !marker.used;
+  if (marker) marker.used = true;
+  const indentLeft = marker && !numbered ? 720 * (marker.level + 1) : para.indentLeft;
+  return new Paragraph({
+    children,
+    heading,
+    alignment: para.alignment ? ALIGNMENT[para.alignment] : undefined,
+    numbering: numbered ? { reference: marker.reference, level: marker.level } : undefined,
+    indent: indentLeft ? { left: indentLeft } : undefined,
+  });
+}
+
+const pageBreak = () => new Paragraph({ children: [new PageBreak()] });
+
+// Groups loose inline content between block elements into paragraphs
+function blocks(nodes: Node[], state: ConversionState, para: ParagraphStyle, style: RunStyle): Block[] {
+  const out: Block[] = [];
+  let pending: Node[] = [];
+  const flush = () => {
+    const hasContent = pending.some(node => isElement(node) || node.text.trim() !== '');
+    if (hasContent) out.push(paragraph(inlines(pending, state, style), para));
+    pending = [];
+  };
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      out.push(...block(node as HTMLElement, state, para, style));
+    } else {
+      pending.push(node);
+    }
+  }
+  flush();
+  return out;
+}
+
+function block(element: HTMLElement, state: ConversionState, para: ParagraphStyle, style: RunStyle): Block[] {
+  const css = parseInlineStyle(element.getAttribute('style'));
+  const breakAt = element.tagName === 'HR' && element.getAttribute('data-type') === 'page-break'
+    ? 'after'
+    : pageBreakPosition(css, element.getAttribute('class'));
+  if (element.tagName === 'HR' && breakAt) return [pageBreak()];
+
+  const own: ParagraphStyle = { ...para, alignment: cssTextAlignment(css['text-align']) ?? para.alignment };
+  const content = blockContent(element, state, own, style);
+  if (breakAt === 'before') return [pageBreak(), ...content];
+  if (breakAt === 'after') return [...content, pageBreak()];
+  return content;
+}
+
+function blockContent(element: HTMLElement, state: ConversionState, para: ParagraphStyle, style: RunStyle): Block[] {
+  const tag = element.tagName;
+  if (HEADINGS[tag]) {
+    return [paragraph(inlines(element.childNodes, state, style), para, HEADINGS[tag])];
+  }
+  switch (tag) {
+    case 'P':
+      // Tiptap wraps list item and table cell content in <p>, which can itself hold nothing but inlines
+      return element.childNodes.some(isBlock)
+        ? blocks(element.childNodes, state, para, style)
+        : [paragraph(inlines(element.childNodes, state, style), para)];
+    case 'UL':
+    case 'OL':
+      return list(element, state, 0, para, style);
+    case 'LI':
+      // A stray item outside a list is still a bullet
+      return listItem(element, state, BULLET_REFERENCE, 0, para, style);
+    case 'TABLE':
+      return [table(element, state, style)];
+    case 'BLOCKQUOTE':
+      return blocks(element.childNodes, state, { ...para, indentLeft: (para.indentLeft ?? 0) + 720 }, style);
+    case 'PRE':
+      return [paragraph(inlines(element.childNodes, state, { ...style, code: true, preserveWhitespace: true }), para)];
+    case 'HR':
+      return [new Paragraph({ border: { bottom: { ...RULE, space: 1 } } })];
+    default:
+      return blocks(element.childNodes, state, para, style);
+  }
+}
+
+function list(element: HTMLElement, state: ConversionState, level: number, para: ParagraphStyle, style: RunStyle): Block[] {
+  let reference = BULLET_REFERENCE;
+  if (element.tagName === 'OL') {
+    // Every ordered list restarts its numbering, from its start attribute if it has one
+    reference = `ordered-${++state.orderedLists}`;
+    state.numbering.push({ reference, levels: listNumberingLevels(true, Number(element.getAttribute('start')) || 1).map(toDocxLevel) });
+  }
+  const depth = Math.min(level, 8);
+  return element.childNodes.filter(isElement).flatMap(child => {
+    if (child.tagName === 'UL' || child.tagName === 'OL') return list(child, state, depth + 1, para, style);
+    if (child.tagName !== 'LI') return [];
+    return listItem(child, state, reference, depth, para, style);
+  });
+}
+
+function listItem(item: HTMLElement, state: ConversionState, reference: string, level: number, para: ParagraphStyle, style: RunStyle): Block[] {
+  const itemPara: ParagraphStyle = { ...para, listMarker: { reference, level, used: false } };
+  const out: Block[] = [];
+  let content: Node[] = [];
+  const flush = () => {
+    out.push(...blocks(content, state, itemPara, style));
+    content = [];
+  };
+  for (const child of item.childNodes) {
+    if (isElement(child) && (child.tagName === 'UL' || child.tagName === 'OL')) {
+      flush();
+      out.push(...list(child, state, level + 1, para, style));
+    } else {
+      content.push(child);
+    }
+  }
+  flush();
+  // An empty item still shows its number
+  if (!itemPara.listMarker?.used) out.unshift(paragraph([], itemPara));
+  return out;
+}
+
+function table(element: HTMLElement, state: ConversionState, style: RunStyle): Table {
+  // Rows may sit directly in the table or inside THEAD/TBODY/TFOOT, but not in nested tables
+  const rows = element.querySelectorAll('tr')
+    .filter(tr => tr.closest('table') === element)
+    .map(tr => {
+      const cells = tr.childNodes.filter(isElement).filter(cell => cell.tagName === 'TH' || cell.tagName === 'TD');
+      return new TableRow({
+        tableHeader: cells.length > 0 && cells.every(cell => cell.tagName === 'TH'),
+        children: cells.map(cell => tableCell(cell, state, style)),
+      });
+    });
+  if (rows.length === 0) rows.push(new TableRow({ children: [new TableCell({ children: [new Paragraph({})] })] }));
+  return new Table({ rows, width: { size: 100, type: WidthType.PERCENTAGE } });
+}
+
+function tableCell(cell: HTMLElement, state: ConversionState, style: RunStyle): TableCell {
+  const css = parseInlineStyle(cell.getAttribute('style'));
+  const children = blocks(
+    cell.childNodes,
+    state,
+    { alignment: cssTextAlignment(css['text-align']) ?? undefined },
+    cell.tagName === 'TH' ? { ...style, bold: true } : style,
+  );
+  // Word requires every cell to end with a paragraph
+  if (children.length === 0 || children[children.length - 1] instanceof Table) children.push(new Paragraph({}));
+  const fill = cssColorToHex(css['background-color']);
+  return new TableCell({
+    children,
+    columnSpan: Number(cell.getAttribute('colspan')) > 1 ? Number(cell.getAttribute('colspan')) : undefined,
+    rowSpan: Number(cell.getAttribute('rowspan')) > 1 ? Number(cell.getAttribute('rowspan')) : undefined,
+    shading: fill ? { type: ShadingType.CLEAR, color: 'auto', fill } : undefined,
+  });
+}
+
+// --- Page furniture ---
+
+// Numbers 1-28 down the left margin with a double rule beside them, floated from the page header
+// so they repeat on every page at the same pitch as the body text
+function pleadingLineNumbers(options: ResolvedDocxOptions): Table {
+  const width = 480;
+  const spacing = { line: PLEADING_LINE_PITCH, lineRule: LineRuleType.EXACT, before: 0, after: 0 };
+  const rows = Array.from({ length: PLEADING_LINE_COUNT }, (_, i) => new TableRow({
+    height: { value: PLEADING_LINE_PITCH, rule: HeightRule.EXACT },
+    children: [new TableCell({
+      width: { size: width, type: WidthType.DXA },
+      margins: { top: 0, bottom: 0, left: 0, right: 120 },
+      borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: { style: BorderStyle.DOUBLE, size: 4, color: '000000' } },
+      children: [new Paragraph({
+        alignment: AlignmentType.RIGHT,
+        spacing,
+        children: [new TextRun({ text: String(i + 1), font: options.font, size: options.fontSize })],
+      })],
+    })],
+  }));
+  return new Table({
+    rows,
+    width: { size: width, type: WidthType.DXA },
+    columnWidths: [width],
+    layout: TableLayoutType.FIXED,
+    borders: NO_BORDERS,
+    float: {
+      horizontalAnchor: TableAnchorType.PAGE,
+      verticalAnchor: TableAnchorType.PAGE,
+      absoluteHorizontalPosition: Math.max(0, options.margins.left - width - 144),
+      absoluteVerticalPosition: options.margins.top,
+      overlap: OverlapType.OVERLAP,
+    },
+  });
+}
+
+function header(options: ResolvedDocxOptions): Header | undefined {
+  if (!options.pleading && !options.header) return undefined;
+  const children: Block[] = [];
+  if (options.pleading) children.push(pleadingLineNumbers(options));
+  children.push(new Paragraph({ alignment: AlignmentType.RIGHT, children: options.header ? [new TextRun(options.header)] : [] }));
+  return new Header({ children });
+}
+
+function footer(options: ResolvedDocxOptions): Footer | undefined {
+  if (!options.footer && !options.pageNumbers) return undefined;
+  const children: Paragraph[] = [];
+  // Pleading footers are set off from the body by a rule
+  if (options.pleading) children.push(new Paragraph({ border: { top: { ...RULE, space: 4 } }, children: [] }));
+  if (options.footer) children.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(options.footer)] }));
+  if (options.pageNumbers) {
+    children.push(new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES] })],
+    }));
+  }
+  return new Footer({ children });
+}
+
+// Attorney block, court name, then the parties box beside the case number and document title
+function caption(caption: DocxCaption, state: ConversionState, options: ResolvedDocxOptions): Block[] {
+  // On pleading paper the caption is single-spaced, two text lines to each numbered line
+  const single = options.pleading
+    ? { line: PLEADING_LINE_PITCH / 2, lineRule: LineRuleType.EXACT }
+    : { line: 240, lineRule: LineRuleType.AUTO };
+  const line = (text: string, run: RunStyle = {}, alignment?: DocxAlignment) =>
+    new Paragraph({ children: text ? [textRun(text, state, run)] : [], spacing: { ...single, after: 0 }, alignment: alignment ? ALIGNMENT[alignment] : undefined });
+  const lines = (text: string) => text.split('\n').map(l => l.trim());
+
+  const attorney = (caption.attorneyLines || []).filter(l => l.trim() !== '');
+  // Keep the court name on a numbered line
+  if (attorney.length % 2 === 1) attorney.push('');
+  const blank = () => new Paragraph({ children: [] });
+
+  const details = (caption.details || []).filter(l => l.trim() !== '');
+  const contentWidth = PAGE_WIDTH - options.margins.left - options.margins.right;
+  const partiesWidth = Math.round(contentWidth / 2);
+  const parties = [
+    ...lines(caption.plaintiffs).map(l => line(l)),
+    line(''),
+    line('v.', {}, 'center'),
+    line(''),
+    ...lines(caption.defendants).map(l => line(l)),
+    line(''),
+  ];
+  const matter = [
+    line(`Case No. ${caption.caseNumber}`.trim()),
+    line(''),
+    ...lines(caption.documentTitle).map(l => line(l, { bold: true })),
+    ...(details.length > 0 ? [line(''), ...details.map(l => line(l))] : []),
+  ];
+
+  return [
+    ...attorney.map(l => line(l)),
+    ...(attorney.length > 0 ? [blank()] : []),
+    ...lines(caption.court).map(l => line(l, { bold: true }, 'center')),
+    blank(),
+    new Table({
+      width: { size: contentWidth, type: WidthType.DXA },
+      columnWidths: [partiesWidth, contentWidth - partiesWidth],
+      layout: TableLayoutType.FIXED,
+      borders: NO_BORDERS,
+      rows: [new TableRow({
+        children: [
+          new TableCell({ children: parties, borders: { top: NO_BORDER, left: NO_BORDER, right: RULE, bottom: RULE }, margins: { right: 144 } }),
+          new TableCell({ children: matter, borders: NO_BORDERS, margins: { left: 288 } }),
+        ],
+      })],
+    }),
+    blank(),
+  ];
+}
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).map(word => word[0].toUpperCase()).slice(0, 3).join('');
+}
+
+// Word comments for the threads whose anchors are in the document, numbered as commentRanges has them
+function wordComments(comments: DocxComment[], state: ConversionState) {
+  return comments.flatMap(comment => {
+    const range = state.commentRanges.get(comment.id);
+    const [first, ...replies] = comment.entries;
+    if (!range?.started || !first) return [];
+    const date = first.date ? new Date(first.date) : undefined;
+    return [{
+      id: range.id,
+      author: first.author,
+      initials: initials(first.author),
+      date: date && !isNaN(date.getTime()) ? date : undefined,
+      children: [
+        ...first.text.split('\n').map(line => new Paragraph({ children: [new TextRun(line)] })),
+        ...replies.map(reply => new Paragraph({ children: [new TextRun({ text: `${reply.author}: `, bold: true }), new TextRun(reply.text)] })),
+      ],
+    }];
+  });
+}
+
+/**
+ * Builds the Word document for an HTML body and resolved export options. Document defaults
+ * (font, size, line spacing) live in the styles so that runs only carry explicit formatting.
+ * `comments` become Word comments on the spans marked with their thread id.
+ */
+export function buildDocxDocument(html: string, options: ResolvedDocxOptions, comments: DocxComment[] = []): Document {
+  const root = parse(html);
+  const spans = new Map<string, number>();
+  for (const span of root.querySelectorAll('[data-comment-thread]')) {
+    const thread = span.getAttribute('data-comment-thread') ?? '';
+    spans.set(thread, (spans.get(thread) ?? 0) + 1);
+  }
+  const state: ConversionState = {
+    numbering: [{ reference: BULLET_REFERENCE, levels: listNumberingLevels(false).map(toDocxLevel) }],
+    orderedLists: 0,
+    revisions: 0,
+    commentRanges: new Map(comments.filter(comment => spans.has(comment.id))
+      .map((comment, id) => [comment.id, { id, started: false, remaining: spans.get(comment.id) ?? 0 }])),
+  };
+  const body = blocks(root.childNodes, state, {}, {});
+  const exportedComments = wordComments(comments, state);
+  const children: Block[] = [...(options.caption ? caption(options.caption, state, options) : []), ...body];
+  if (children.length === 0 || children[children.length - 1] instanceof Table) children.push(new Paragraph({}));
+
+  const spacing = {
+    line: options.lineSpacing.line,
+    lineRule: options.lineSpacing.rule === 'exact' ? LineRuleType.EXACT : LineRuleType.AUTO,
+    before: 0,
+    after: options.paragraphSpacingAfter,
+  };
+  // Headings stay in the body font and in black so a filed document looks uniform
+  const heading = (extraHalfPoints: number) => ({
+    run: { font: options.font, size: options.fontSize + extraHalfPoints, bold: true, italics: false, color: '000000' },
+    paragraph: { spacing: { ...spacing, before: options.pleading ? 0 : 240 } },
+  });
+  const pageHeader = header(options);
+  const pageFooter = footer(options);
+
+  return new Document({
+    styles: {
+      default: {
+        document: { run: { font: options.font, size: options.fontSize }, paragraph: { spacing } },
+        heading1: heading(8),
+        heading2: heading(4),
+        heading3: heading(2),
+        heading4: heading(0),
+        heading5: heading(0),
+        heading6: heading(0),
+        hyperlink: { run: { color: '0563C1', underline: {} } },
+      },
+    },
+    numbering: { config: state.numbering },
+    comments: exportedComments.length > 0 ? { children: exportedComments } : undefined,
+    sections: [{
+      properties: {
+        page: {
+          size: { width: PAGE_WIDTH, height: PAGE_HEIGHT },
+          margin: { ...options.margins, header: 720, footer: 720 },
+        },
+      },
+      headers: pageHeader ? { default: pageHeader } : undefined,
+      footers: pageFooter ? { default: pageFooter } : undefined,
+      children,
+    }],
+  });
+}
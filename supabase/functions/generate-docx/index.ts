@@ -5,6 +5,10 @@
 // Setup type definitions for built-in Supabase Runtime APIs
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { corsHeaders } from '../_shared/cors.ts';
+import { resolveDocxOptions } from '../_shared/docxFormatting.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { buildDocxDocument } from './htmlToDocx.ts';
+import { Packer } from 'npm:docx@9.5.0';
 // Add Supabase client import
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.8'; // Or your preferred version
 
@@ -33,7 +37,7 @@ Deno.serve(async (req) => {
     }
   });
 
-  console.log(`[${errorId}] Incoming request:`, req.method, Array.from(req.headers.entries()));
+  console.log(`[${errorId}] Incoming request:`, req.method);
 
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -42,93 +46,30 @@ Deno.serve(async (req) => {
 
   let bodyText = '';
   try {
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+
     bodyText = await req.text();
     console.log(`[${errorId}] Raw body:`, bodyText);
 
-    const { htmlContent, filename } = JSON.parse(bodyText);
+    // options: font, line spacing, margins, header/footer, page numbers, pleading paper and caption
+    // comments: threads to export as Word comments, anchored by data-comment-thread spans in the HTML
+    const { htmlContent, filename, fileName, options, comments } = JSON.parse(bodyText);
 
     if (!htmlContent) {
       throw new Error("Missing htmlContent in request body");
     }
 
-    // Import docx and HTML parser
-    const docx = await import("npm:docx@8.0.3");
-    const { Document, Paragraph, Packer, TextRun, HeadingLevel } = docx.default;
-    const { parse } = await import("npm:node-html-parser@6.1.11");
-
-    // Parse HTML
-    const root = parse(htmlContent);
-
-    // Helper to recursively convert HTML nodes to DOCX elements
-    function htmlToDocxElements(node) {
-      if (!node) return [];
-      if (node.nodeType === 3) { // Text node
-        return [new TextRun(node.rawText)];
-      }
-      if (node.tagName === 'BR') {
-        return [new TextRun({ text: '', break: 1 })];
-      }
-      if (node.tagName === 'STRONG' || node.tagName === 'B') {
-        return [new TextRun({ text: node.text, bold: true })];
-      }
-      if (node.tagName === 'EM' || node.tagName === 'I') {
-        return [new TextRun({ text: node.text, italics: true })];
-      }
-      if (node.tagName === 'U') {
-        return [new TextRun({ text: node.text, underline: {} })];
-      }
-      if (node.tagName === 'SPAN') {
-        // Special handling for variable spans
-        const variableName = node.getAttribute('data-variable-name');
-        if (variableName) {
-          return [new TextRun({ text: node.text, color: 'FF6600', bold: true })];
-        }
-        return [new TextRun(node.text)];
-      }
-      // Recursively process children for inline tags
-      const children = node.childNodes.flatMap(htmlToDocxElements);
-
-      // Block-level tags
-      if (node.tagName === 'H1') {
-        return [new Paragraph({ children, heading: HeadingLevel.HEADING_1 })];
-      }
-      if (node.tagName === 'H2') {
-        return [new Paragraph({ children, heading: HeadingLevel.HEADING_2 })];
-      }
-      if (node.tagName === 'H3') {
-        return [new Paragraph({ children, heading: HeadingLevel.HEADING_3 })];
-      }
-      if (node.tagName === 'P') {
-        return [new Paragraph({ children })];
-      }
-      if (node.tagName === 'LI') {
-        return [new Paragraph({ children, bullet: { level: 0 } })];
-      }
-      if (node.tagName === 'UL' || node.tagName === 'OL') {
-        return node.childNodes.flatMap(htmlToDocxElements);
-      }
-      // Fallback: just return children
-      return children;
-    }
-
-    // Convert HTML to DOCX elements
-    const docxElements = root.childNodes.flatMap(htmlToDocxElements);
-
-    const doc = new Document({
-      sections: [
-        {
-          properties: {},
-          children: docxElements,
-        },
-      ],
-    });
+    const doc = buildDocxDocument(htmlContent, resolveDocxOptions(options), Array.isArray(comments) ? comments : []);
 
     const buffer = await Packer.toBuffer(doc);
+    // Callers send either "filename" or "fileName", with or without the extension
+    const baseName = (filename || fileName || 'document').replace(/\.docx$/i, '').replace(/[^a-zA-Z0-9._-]/g, '_');
 
     // Instead of returning the buffer directly:
     // 1. Define file name and path for storage
-    const storageFileName = `${crypto.randomUUID()}-${(filename || 'document').replace(/[^a-zA-Z0-9._-]/g, '_')}.docx`;
-    const storagePath = `generated-documents/${storageFileName}`; // Example bucket and path
+    const storageFileName = `${crypto.randomUUID()}-${baseName}.docx`;
+    const storagePath = `generated-documents/${auth.user.id}/${storageFileName}`;
 
     // 2. Upload to Supabase Storage
     console.log(`[${errorId}] Uploading ${storagePath} to Supabase storage...`);
@@ -163,7 +104,7 @@ Deno.serve(async (req) => {
       JSON.stringify({
         success: true,
         downloadUrl: signedUrlData.signedUrl,
-        fileName: (filename || 'document').replace(/[^a-zA-Z0-9._-]/g, '_') + '.docx', // Send back the original intended filename
+        fileName: `${baseName}.docx`, // Send back the original intended filename
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
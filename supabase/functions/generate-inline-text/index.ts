@@ -1,22 +1,13 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { corsHeaders } from "./cors.ts";
-import { OpenAI } from "https://deno.land/x/openai@v4.48.2/mod.ts"; // Use Deno module
 import { createSupabaseAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAuth } from "../_shared/auth.ts";
+import { startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway, type LlmRequest, type LlmStream } from '../_shared/llm.ts';
 
 console.log("Generate-inline-text: Function script starting...");
 
-let openai: OpenAI;
-try {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  console.log(`Generate-inline-text: Read OPENAI_API_KEY. Is defined? ${!!apiKey}`);
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is not set.");
-  }
-  openai = new OpenAI({ apiKey });
-  console.log("Generate-inline-text: OpenAI client initialized successfully.");
-} catch (initError) {
-  console.error("Generate-inline-text: FATAL ERROR initializing OpenAI client:", initError);
-}
+const llm = createLlmGateway();
 
 serve(async (req)=>{
   // Handle CORS preflight requests
@@ -25,56 +16,27 @@ serve(async (req)=>{
       headers: corsHeaders
     });
   }
+  let meter: AiCallMeter | undefined;
   try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+
     const payload = await req.json();
-    const { selectedText, instructions, surroundingContext, stream = true, userId } = payload;
+    const { selectedText, instructions, surroundingContext, stream = true } = payload;
 
-    if (!instructions || !userId) {
+    if (!instructions) {
       return new Response(JSON.stringify({
-        error: "Missing instructions or userId"
+        error: "Missing instructions"
       }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
         status: 400
       });
     }
 
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'generate-inline-text' });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
     // --- Construct Prompts for Inline Generation --- 
     // System prompt instructs the AI on how to behave for inline generation.
@@ -110,8 +72,7 @@ ${surroundingContext}
     
     userMessageContent += "\n\nBased on the above, provide ONLY the generated text as per the system prompt rules.";
 
-    const apiPayload = {
-      model: "gpt-4o", // Or a faster model if latency is critical and quality is sufficient
+    const llmRequest: LlmRequest = {
       messages: [
         {
           role: "system",
@@ -128,18 +89,15 @@ ${surroundingContext}
 
     if (stream) {
       console.log(`Generate-inline-text: Generating stream response for instruction: "${instructions.substring(0,50)}..."`);
-      // console.log(`Generate-inline-text: Calling OpenAI with payload:`, JSON.stringify(apiPayload, null, 2)); 
+      // console.log(`Generate-inline-text: Calling the LLM gateway with:`, JSON.stringify(llmRequest, null, 2)); 
       
-      let openaiStream;
+      let llmStream: LlmStream;
       try {
-        openaiStream = await openai.chat.completions.create({
-          ...apiPayload,
-          stream: true
-        });
-        console.log(`Generate-inline-text: OpenAI stream object created successfully.`);
-      } catch (openaiError) {
-        console.error(`Generate-inline-text: ERROR calling OpenAI:`, openaiError);
-        throw openaiError; 
+        llmStream = await llm.stream('generate-inline-text', llmRequest);
+        console.log(`Generate-inline-text: LLM stream opened with ${llmStream.model}.`);
+      } catch (llmError) {
+        console.error(`Generate-inline-text: ERROR calling the LLM gateway:`, llmError);
+        throw llmError; 
       }
 
       const responseStream = new ReadableStream({
@@ -148,26 +106,22 @@ ${surroundingContext}
           const encoder = new TextEncoder();
           try {
             let chunkCounter = 0;
-            for await (const chunk of openaiStream) {
+            for await (const event of llmStream.events) {
               chunkCounter++;
-              const content = chunk.choices[0]?.delta?.content || '';
+              if (event.type === 'done') await aiCall.succeed(event.usage);
+              const content = event.type === 'text' ? event.text : '';
               if (content) {
                 const sseChunk = `data: ${JSON.stringify(content)}\n\n`;
                 controller.enqueue(encoder.encode(sseChunk));
               }
             }
            console.log(`Generate-inline-text: Stream loop finished after ${chunkCounter} chunks.`);
-            if (profile.subscription_status === 'trialing') {
-              await supabaseAdmin
-                .from('profiles')
-                .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-                .eq('id', userId);
-            }
             controller.enqueue(encoder.encode('data: [DONE]\n\n'));
             controller.close();
             console.log(`Generate-inline-text: ReadableStream closed normally.`);
           } catch (streamError) {
-            console.error(`Generate-inline-text: ERROR INSIDE OpenAI stream processing:`, streamError, JSON.stringify(streamError));
+            console.error(`Generate-inline-text: ERROR INSIDE LLM stream processing:`, streamError, JSON.stringify(streamError));
+            await aiCall.fail(streamError, { model: llmStream.model });
             controller.error(streamError);
           }
         }
@@ -183,20 +137,12 @@ ${surroundingContext}
     } else {
       // Non-streaming Logic (kept for completeness, but inline generation should ideally stream)
       console.log(`Generate-inline-text: Generating non-stream response for instruction: "${instructions.substring(0,50)}..."`);
-      const response = await openai.chat.completions.create({
-        ...apiPayload,
-        stream: false
-      });
-      const content = response.choices[0]?.message?.content;
+      const response = await llm.chat('generate-inline-text', llmRequest);
+      const content = response.text;
       if (!content) {
-        throw new Error('OpenAI returned empty content for generate-inline-text.');
-      }
-      if (profile.subscription_status === 'trialing') {
-        await supabaseAdmin
-          .from('profiles')
-          .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-          .eq('id', userId);
+        throw new Error('The model returned empty content for generate-inline-text.');
       }
+      await aiCall.succeed(response.usage);
       return new Response(JSON.stringify({
         result: content
       }), {
@@ -209,6 +155,7 @@ ${surroundingContext}
     }
   } catch (error) {
     console.error("Error in MAIN CATCH generate-inline-text function:", error, JSON.stringify(error));
+    await meter?.fail(error);
     const errorMessage = error instanceof Error ? error.message : "Internal server error";
     return new Response(JSON.stringify({
       error: errorMessage
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'vitest';
+import { htmlToBlocks, listMarker, type HtmlNode, type ParagraphBlock } from './htmlBlocks';
+
+// Just enough of node-html-parser's node shape to build trees by hand
+const text = (value: string): HtmlNode => ({ nodeType: 3, childNodes: [], text: value });
+const el = (tagName: string, attributes: Record<string, string>, ...childNodes: HtmlNode[]): HtmlNode => ({
+  nodeType: 1,
+  tagName,
+  childNodes,
+  text: childNodes.map(child => child.text).join(''),
+  getAttribute: (name: string) => attributes[name],
+});
+const root = (...childNodes: HtmlNode[]) => el('ROOT', {}, ...childNodes);
+const paragraphText = (block: ParagraphBlock) => block.runs.map(run => run.text).join('');
+
+describe('htmlToBlocks', () => {
+  test('keeps alignment, inline styles and links', () => {
+    const [block] = htmlToBlocks(root(
+      el('P', { style: 'text-align: justify' },
+        text('  See '),
+        el('STRONG', {}, text('Roe')),
+        text(' at '),
+        el('A', { href: 'https://example.com' }, text('the opinion')),
+        text(' '),
+        el('SPAN', { style: 'color: #ef4444' }, el('MARK', { 'data-color': '#fef9c3' }, text('here'))),
+      ),
+    )) as ParagraphBlock[];
+    expect(block).toMatchObject({ kind: 'paragraph', align: 'justified', indent: 0 });
+    expect(block.runs.map(run => [run.text, run.style])).toEqual([
+      ['See ', {}],
+      ['Roe', { bold: true }],
+      [' at ', {}],
+      ['the opinion', { link: 'https://example.com', color: '0563C1', underline: true }],
+      [' ', {}],
+      ['here', { color: 'EF4444', background: 'FEF9C3' }],
+    ]);
+  });
+
+  test('numbers nested lists and indents continuation paragraphs', () => {
+    const blocks = htmlToBlocks(root(
+      el('OL', { start: '3' },
+        el('LI', {}, el('P', {}, text('First')), el('P', {}, text('More')), el('OL', {}, el('LI', {}, el('P', {}, text('Nested'))))),
+        el('LI', {}, el('P', {}, text('Second'))),
+      ),
+      el('UL', {}, el('LI', {}, el('P', {}, text('Bullet')))),
+    )) as ParagraphBlock[];
+    expect(blocks.map(b => [paragraphText(b), b.marker, b.indent])).toEqual([
+      ['First', '3.', 18],
+      ['More', undefined, 18],
+      ['Nested', 'a.', 36],
+      ['Second', '4.', 18],
+      ['Bullet', '•', 18],
+    ]);
+    expect(listMarker(true, 2, 14)).toBe('xiv.');
+    expect(listMarker(true, 1, 28)).toBe('ab.');
+  });
+
+  test('prints template variables plainly unless highlighting is requested', () => {
+    const html = root(el('P', {}, text('Dear '), el('SPAN', { 'data-variable-name': 'client', style: 'color: #3b82f6' }, text('ACME'))));
+    const [plain] = htmlToBlocks(html) as ParagraphBlock[];
+    const [highlighted] = htmlToBlocks(html, { highlightVariables: true }) as ParagraphBlock[];
+    expect(plain.runs[1].style).toEqual({});
+    expect(highlighted.runs[1].style).toEqual({ color: 'FF6600', bold: true });
+  });
+
+  test('converts tables, rules and page breaks', () => {
+    const blocks = htmlToBlocks(root(
+      el('TABLE', {}, el('TBODY', {},
+        el('TR', {}, el('TH', {}, text('Term')), el('TH', {}, text('Meaning'))),
+        el('TR', {}, el('TD', { colspan: '2', style: 'background-color: #dbeafe' }, el('P', {}, text('Spans both'))))),
+      ),
+      el('DIV', { style: 'page-break-after: always' }, el('P', {}, text('End of part one'))),
+      el('HR', {}),
+    ));
+    expect(blocks.map(b => b.kind)).toEqual(['table', 'paragraph', 'pageBreak', 'rule']);
+    const table = blocks[0];
+    if (table.kind !== 'table') throw new Error('expected a table');
+    expect(table.rows.map(row => row.header)).toEqual([true, false]);
+    expect(table.rows[0].cells[0].blocks[0].runs[0].style).toEqual({ bold: true });
+    expect(table.rows[1].cells[0]).toMatchObject({ colspan: 2, background: 'DBEAFE' });
+  });
+});
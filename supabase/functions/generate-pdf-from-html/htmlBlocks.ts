@@ -0,0 +1,362 @@
+// supabase/functions/generate-pdf-from-html/htmlBlocks.ts
+// Turns parsed editor HTML into the block model the PDF layout works on: paragraphs of styled
+// runs (headings, list items with their markers, quotes, code), tables, rules and page breaks.
+import {
+  cssColorToHex,
+  cssTextAlignment,
+  pageBreakPosition,
+  parseInlineStyle,
+  type DocxAlignment,
+} from '../_shared/docxFormatting.ts';
+
+// The subset of node-html-parser's Node/HTMLElement the conversion reads
+export interface HtmlNode {
+  nodeType: number; // 1 element, 3 text
+  tagName?: string; // Upper case
+  childNodes: HtmlNode[];
+  text: string; // Entity-decoded
+  getAttribute?: (name: string) => string | undefined;
+}
+
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  color?: string; // RRGGBB
+  background?: string; // RRGGBB
+  link?: string;
+}
+
+// A run whose text is "\n" is a line break
+export interface Run {
+  text: string;
+  style: TextStyle;
+}
+
+export interface ParagraphBlock {
+  kind: 'paragraph';
+  runs: Run[];
+  heading?: number; // 1-6
+  align: DocxAlignment;
+  indent: number; // Points from the left margin
+  marker?: string; // List bullet or number, hung to the left of the indent
+}
+
+export interface TableCellBlock {
+  blocks: ParagraphBlock[];
+  colspan: number;
+  background?: string;
+}
+
+export interface TableBlock {
+  kind: 'table';
+  rows: { header: boolean; cells: TableCellBlock[] }[];
+}
+
+export type PdfBlock = ParagraphBlock | TableBlock | { kind: 'rule' } | { kind: 'pageBreak' };
+
+export interface HtmlBlockOptions {
+  highlightVariables?: boolean; // Show template variables in orange bold, as in the editor
+}
+
+export const LIST_INDENT = 18;
+const QUOTE_INDENT = 24;
+const VARIABLE_COLOR = 'FF6600';
+
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'TABLE', 'BLOCKQUOTE', 'PRE', 'HR',
+  'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'FIGURE',
+]);
+const BULLETS = ['•', '–', '·'];
+
+interface Context {
+  align: DocxAlignment;
+  indent: number;
+  style: TextStyle;
+  preserveWhitespace?: boolean;
+  // Set on the first paragraph of a list item, consumed when that paragraph is emitted
+  marker?: { text: string; used: boolean };
+}
+
+const isElement = (node: HtmlNode) => node.nodeType === 1;
+const isBlock = (node: HtmlNode) => isElement(node) && BLOCK_TAGS.has(node.tagName || '');
+const attribute = (node: HtmlNode, name: string) => node.getAttribute?.(name) ?? undefined;
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+  let out = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      out += numeral;
+      n -= value;
+    }
+  }
+  return out;
+}
+
+function toLetters(n: number): string {
+  let out = '';
+  for (; n > 0; n = Math.floor((n - 1) / 26)) out = String.fromCharCode(97 + ((n - 1) % 26)) + out;
+  return out;
+}
+
+/** The marker of item `n` in a list nested `level` deep: 1. / a. / i. for ordered lists, cycling like Word. */
+export function listMarker(ordered: boolean, level: number, n: number): string {
+  if (!ordered) return BULLETS[level % BULLETS.length];
+  switch (level % 3) {
+    case 0: return `${n}.`;
+    case 1: return `${toLetters(n)}.`;
+    default: return `${toRoman(n)}.`;
+  }
+}
+
+// --- Inline content ---
+
+function inlineStyle(element: HtmlNode, style: TextStyle, options: HtmlBlockOptions): TextStyle {
+  const css = parseInlineStyle(attribute(element, 'style'));
+  const next: TextStyle = { ...style };
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      next.bold = true;
+      break;
+    case 'EM':
+    case 'I':
+      next.italic = true;
+      break;
+    case 'U':
+    case 'INS':
+      next.underline = true;
+      break;
+    case 'S':
+    case 'DEL':
+    case 'STRIKE':
+      next.strike = true;
+      break;
+    case 'CODE':
+    case 'KBD':
+      next.code = true;
+      break;
+    case 'MARK':
+      next.background = cssColorToHex(attribute(element, 'data-color')) ?? cssColorToHex(css['background-color']) ?? 'FFFF00';
+      break;
+    case 'SPAN':
+      // Template variables print as plain text unless asked for
+      if (attribute(element, 'data-variable-name')) {
+        if (options.highlightVariables) {
+          next.color = VARIABLE_COLOR;
+          next.bold = true;
+        }
+        return next;
+      }
+      break;
+  }
+
+  const color = cssColorToHex(css.color);
+  if (color) next.color = color;
+  const background = element.tagName === 'MARK' ? null : cssColorToHex(css['background-color']);
+  if (background) next.background = background;
+  if (css['font-weight'] === 'bold' || Number(css['font-weight']) >= 600) next.bold = true;
+  if (css['font-style'] === 'italic') next.italic = true;
+  if (css['text-decoration']?.includes('underline')) next.underline = true;
+  if (css['text-decoration']?.includes('line-through')) next.strike = true;
+  return next;
+}
+
+function inlineRuns(nodes: HtmlNode[], context: Context, options: HtmlBlockOptions): Run[] {
+  const runs: Run[] = [];
+  const visit = (node: HtmlNode, style: TextStyle) => {
+    if (node.nodeType === 3) {
+      const text = context.preserveWhitespace ? node.text : node.text.replace(/\s+/g, ' ');
+      if (!text) return;
+      text.split('\n').forEach((line, i) => {
+        if (i > 0) runs.push({ text: '\n', style });
+        if (line) runs.push({ text: line, style });
+      });
+      return;
+    }
+    if (!isElement(node)) return;
+    switch (node.tagName) {
+      case 'BR':
+        runs.push({ text: '\n', style });
+        return;
+      case 'IMG':
+        return;
+      case 'A': {
+        const href = attribute(node, 'href');
+        const linked = href && /^(https?:|mailto:)/i.test(href) ? { ...style, link: href, color: style.color ?? '0563C1', underline: true } : style;
+        node.childNodes.forEach(child => visit(child, linked));
+        return;
+      }
+      default:
+        node.childNodes.forEach(child => visit(child, inlineStyle(node, style, options)));
+    }
+  };
+  nodes.forEach(node => visit(node, context.style));
+  return runs;
+}
+
+// --- Blocks ---
+
+function paragraph(runs: Run[], context: Context, heading?: number): ParagraphBlock {
+  const marker = context.marker && !context.marker.used ? context.marker.text : undefined;
+  if (context.marker) context.marker.used = true;
+  return { kind: 'paragraph', runs, heading, align: context.align, indent: context.indent, marker };
+}
+
+function blocks(nodes: HtmlNode[], context: Context, options: HtmlBlockOptions): PdfBlock[] {
+  const out: PdfBlock[] = [];
+  let pending: HtmlNode[] = [];
+  const flush = () => {
+    if (pending.some(node => isElement(node) || node.text.trim() !== '')) {
+      const runs = inlineRuns(pending, context, options);
+      // Whitespace between inline elements is kept, but not at the edges of a paragraph
+      if (runs.length > 0) out.push(paragraph(trimRuns(runs), context));
+    }
+    pending = [];
+  };
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      out.push(...block(node, context, options));
+    } else {
+      pending.push(node);
+    }
+  }
+  flush();
+  return out;
+}
+
+function trimRuns(runs: Run[]): Run[] {
+  const out = runs.map(run => ({ ...run }));
+  if (out.length > 0) out[0].text = out[0].text.replace(/^ +/, '');
+  if (out.length > 0) out[out.length - 1].text = out[out.length - 1].text.replace(/ +$/, '');
+  return out.filter(run => run.text !== '');
+}
+
+function block(element: HtmlNode, context: Context, options: HtmlBlockOptions): PdfBlock[] {
+  const css = parseInlineStyle(attribute(element, 'style'));
+  const breakAt = element.tagName === 'HR' && attribute(element, 'data-type') === 'page-break'
+    ? 'after'
+    : pageBreakPosition(css, attribute(element, 'class'));
+  if (element.tagName === 'HR' && breakAt) return [{ kind: 'pageBreak' }];
+
+  const own: Context = { ...context, align: cssTextAlignment(css['text-align']) ?? context.align };
+  const content = blockContent(element, own, options);
+  if (breakAt === 'before') return [{ kind: 'pageBreak' }, ...content];
+  if (breakAt === 'after') return [...content, { kind: 'pageBreak' }];
+  return content;
+}
+
+function blockContent(element: HtmlNode, context: Context, options: HtmlBlockOptions): PdfBlock[] {
+  const tag = element.tagName || '';
+  const heading = /^H([1-6])$/.exec(tag);
+  if (heading) return [paragraph(trimRuns(inlineRuns(element.childNodes, context, options)), context, Number(heading[1]))];
+  switch (tag) {
+    case 'P':
+      return element.childNodes.some(isBlock)
+        ? blocks(element.childNodes, context, options)
+        : [paragraph(trimRuns(inlineRuns(element.childNodes, context, options)), context)];
+    case 'UL':
+    case 'OL':
+      return list(element, context, 0, options);
+    case 'LI':
+      return listItem(element, { ...context, indent: context.indent + LIST_INDENT }, listMarker(false, 0, 1), 0, options);
+    case 'TABLE':
+      return [table(element, context, options)];
+    case 'BLOCKQUOTE':
+      return blocks(element.childNodes, { ...context, indent: context.indent + QUOTE_INDENT }, options);
+    case 'PRE':
+      return [paragraph(inlineRuns(element.childNodes, { ...context, style: { ...context.style, code: true }, preserveWhitespace: true }, options), context)];
+    case 'HR':
+      return [{ kind: 'rule' }];
+    default:
+      return blocks(element.childNodes, context, options);
+  }
+}
+
+function list(element: HtmlNode, context: Context, level: number, options: HtmlBlockOptions): PdfBlock[] {
+  const ordered = element.tagName === 'OL';
+  let n = ordered ? Number(attribute(element, 'start')) || 1 : 1;
+  const itemContext: Context = { ...context, marker: undefined, indent: context.indent + LIST_INDENT };
+  return element.childNodes.filter(isElement).flatMap(child => {
+    if (child.tagName === 'UL' || child.tagName === 'OL') return list(child, itemContext, level + 1, options);
+    if (child.tagName !== 'LI') return [];
+    return listItem(child, itemContext, listMarker(ordered, level, n++), level, options);
+  });
+}
+
+function listItem(item: HtmlNode, context: Context, marker: string, level: number, options: HtmlBlockOptions): PdfBlock[] {
+  const itemContext: Context = { ...context, marker: { text: marker, used: false } };
+  const out: PdfBlock[] = [];
+  let content: HtmlNode[] = [];
+  const flush = () => {
+    out.push(...blocks(content, itemContext, options));
+    content = [];
+  };
+  for (const child of item.childNodes) {
+    if (isElement(child) && (child.tagName === 'UL' || child.tagName === 'OL')) {
+      flush();
+      out.push(...list(child, { ...context, marker: undefined }, level + 1, options));
+    } else {
+      content.push(child);
+    }
+  }
+  flush();
+  // An empty item still shows its marker
+  if (!itemContext.marker?.used) out.unshift(paragraph([], itemContext));
+  return out;
+}
+
+// Rows may sit directly in the table or in THEAD/TBODY/TFOOT; nested tables become one paragraph per row
+function tableRows(element: HtmlNode): HtmlNode[] {
+  return element.childNodes.filter(isElement).flatMap(child => {
+    if (child.tagName === 'TR') return [child];
+    if (child.tagName === 'THEAD' || child.tagName === 'TBODY' || child.tagName === 'TFOOT') return tableRows(child);
+    return [];
+  });
+}
+
+const tableCells = (row: HtmlNode) => row.childNodes.filter(cell => cell.tagName === 'TH' || cell.tagName === 'TD');
+
+function table(element: HtmlNode, context: Context, options: HtmlBlockOptions): TableBlock {
+  const rows = tableRows(element).map(row => {
+    const cells = tableCells(row);
+    return {
+      header: cells.length > 0 && cells.every(cell => cell.tagName === 'TH'),
+      cells: cells.map(cell => {
+        const css = parseInlineStyle(attribute(cell, 'style'));
+        const cellContext: Context = {
+          align: cssTextAlignment(css['text-align']) ?? 'left',
+          indent: 0,
+          style: cell.tagName === 'TH' ? { ...context.style, bold: true } : context.style,
+        };
+        const cellBlocks = blocks(cell.childNodes, cellContext, options).flatMap((b): ParagraphBlock[] => {
+          if (b.kind === 'paragraph') return [b];
+          if (b.kind === 'table') {
+            return b.rows.map(r => ({
+              kind: 'paragraph',
+              align: cellContext.align,
+              indent: 0,
+              runs: r.cells.flatMap((c, i) => [...(i > 0 ? [{ text: ' | ', style: cellContext.style }] : []), ...c.blocks.flatMap(p => p.runs)]),
+            }));
+          }
+          return [];
+        });
+        return {
+          blocks: cellBlocks,
+          colspan: Math.max(1, Number(attribute(cell, 'colspan')) || 1),
+          background: cssColorToHex(css['background-color']) ?? undefined,
+        };
+      }),
+    };
+  }).filter(row => row.cells.length > 0);
+  return { kind: 'table', rows };
+}
+
+/** Converts the parsed HTML under `root` to PDF blocks. */
+export function htmlToBlocks(root: HtmlNode, options: HtmlBlockOptions = {}): PdfBlock[] {
+  return blocks(root.childNodes, { align: 'left', indent: 0, style: {} }, options);
+}
@@ -0,0 +1,76 @@
+// supabase/functions/generate-pdf-from-html/index.ts
+// Renders editor or template HTML to a paginated PDF (page size, margins, header/footer with
+// "Page X of Y", optional table of contents) and returns a signed download link, with the same
+// { success, downloadUrl, fileName } response as generate-docx.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { parse } from 'npm:node-html-parser@6.1.11';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { htmlToBlocks, type HtmlNode } from './htmlBlocks.ts';
+import { resolvePdfOptions, type PdfExportOptions } from './layout.ts';
+import { renderPdf } from './render.ts';
+
+const OUTPUT_BUCKET = 'generated-documents';
+const DOWNLOAD_URL_TTL_SECONDS = 3600;
+// Layout runs in memory on the edge runtime
+const MAX_HTML_LENGTH = 2_000_000;
+
+interface GeneratePdfRequest {
+  htmlContent: string;
+  fileName?: string; // With or without ".pdf"
+  options?: PdfExportOptions;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+console.log('Function generate-pdf-from-html initializing...');
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const { user } = auth;
+
+    // --- Validate the request ---
+    const body = await req.json() as GeneratePdfRequest;
+    if (typeof body.htmlContent !== 'string' || !body.htmlContent.trim()) {
+      return jsonResponse({ success: false, error: 'Missing htmlContent in request body' }, 400);
+    }
+    if (body.htmlContent.length > MAX_HTML_LENGTH) {
+      return jsonResponse({ success: false, error: `Document is too large to export (${body.htmlContent.length} characters, limit ${MAX_HTML_LENGTH})` }, 413);
+    }
+    const baseName = (body.fileName || 'document').replace(/\.pdf$/i, '').replace(/[^a-zA-Z0-9._-]/g, '_') || 'document';
+    const options = resolvePdfOptions({ title: baseName.replace(/_/g, ' '), ...body.options });
+
+    // --- Render ---
+    const blocks = htmlToBlocks(parse(body.htmlContent) as unknown as HtmlNode, { highlightVariables: options.highlightVariables });
+    const pdfBytes = await renderPdf(blocks, options);
+
+    const storagePath = `generated-documents/${user.id}/${crypto.randomUUID()}-${baseName}.pdf`;
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(OUTPUT_BUCKET)
+      .upload(storagePath, pdfBytes, { contentType: 'application/pdf', upsert: false });
+    if (uploadError) throw new Error(`Failed to upload PDF to storage: ${uploadError.message}`);
+
+    const { data: signed, error: signedError } = await supabaseAdmin.storage
+      .from(OUTPUT_BUCKET)
+      .createSignedUrl(storagePath, DOWNLOAD_URL_TTL_SECONDS);
+    if (signedError) throw new Error(`Failed to create signed URL: ${signedError.message}`);
+
+    console.log(`[generate-pdf-from-html] ${baseName}.pdf: ${blocks.length} blocks, ${pdfBytes.length} bytes`);
+    return jsonResponse({ success: true, downloadUrl: signed.signedUrl, fileName: `${baseName}.pdf` }, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown PDF export error';
+    console.error('[generate-pdf-from-html] Error:', message);
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
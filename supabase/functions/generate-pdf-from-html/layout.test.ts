@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest';
+import type { ParagraphBlock, PdfBlock } from './htmlBlocks';
+import { layoutDocument, resolvePdfOptions, type Measure, type TextItem } from './layout';
+
+// Every character is half the font size wide
+const measure: Measure = (text, _family, _variant, size) => text.length * size * 0.5;
+
+const paragraph = (text: string, extra: Partial<ParagraphBlock> = {}): ParagraphBlock =>
+  ({ kind: 'paragraph', runs: [{ text, style: {} }], align: 'left', indent: 0, ...extra });
+
+const texts = (items: ReturnType<typeof layoutDocument>['items']) => items.filter((item): item is TextItem => item.kind === 'text');
+
+describe('PDF layout', () => {
+  // 4 x 3 inch page with half-inch margins: 216 x 144 points of content, 12pt text -> 36 characters a line
+  const options = resolvePdfOptions({ margins: { top: 0.5, right: 0.5, bottom: 0.5, left: 0.5 } });
+  const small = { ...options, width: 288, height: 216 };
+
+  test('wraps words within the margins', () => {
+    const doc = layoutDocument([paragraph('the quick brown fox jumps over the lazy dog and keeps on running')], small, measure);
+    const lines = texts(doc.items);
+    expect(lines.map(item => item.text)).toEqual(['the quick brown fox jumps over the', 'lazy dog and keeps on running']);
+    expect(lines.every(item => item.x === 36 && item.x + item.width <= 252)).toBe(true);
+    expect(lines[1].y - lines[0].y).toBeCloseTo(15.6);
+  });
+
+  test('justifies every line but the last', () => {
+    // 114 points of content: 19 characters a line
+    const doc = layoutDocument([paragraph('aaaa bbbb cccc dd eeee ffff', { align: 'justified' })], { ...small, width: 72 + 114 }, measure);
+    const items = texts(doc.items);
+    const firstLine = items.filter(item => item.y === items[0].y);
+    expect(firstLine.map(item => item.text).join('')).toBe('aaaa bbbb cccc dd');
+    expect(firstLine[firstLine.length - 1].x + firstLine[firstLine.length - 1].width).toBeCloseTo(36 + 114);
+    expect(items[items.length - 1]).toMatchObject({ text: 'eeee ffff', x: 36, width: 54 });
+  });
+
+  test('moves to a new page when the page is full and on page breaks', () => {
+    const blocks: PdfBlock[] = [
+      ...Array.from({ length: 10 }, (_, i) => paragraph(`Line ${i}`)),
+      { kind: 'pageBreak' },
+      { kind: 'pageBreak' },
+      paragraph('After the break'),
+    ];
+    const doc = layoutDocument(blocks, small, measure);
+    const pages = texts(doc.items).map(item => [item.text, item.page]);
+    expect(pages.filter(([, page]) => page === 0).length).toBeGreaterThan(3);
+    expect(pages[pages.length - 1]).toEqual(['After the break', doc.pageCount - 1]);
+    // Consecutive breaks do not leave a blank page
+    expect(new Set(pages.map(([, page]) => page)).size).toBe(doc.pageCount);
+  });
+
+  test('puts a table of contents with printed page numbers first', () => {
+    const blocks: PdfBlock[] = [
+      paragraph('Introduction', { heading: 1 }),
+      paragraph('Body text'),
+      { kind: 'pageBreak' },
+      paragraph('Argument', { heading: 2 }),
+      paragraph('Detail', { heading: 4 }),
+    ];
+    const doc = layoutDocument(blocks, { ...options, tableOfContents: true }, measure);
+    expect(doc.pageCount).toBe(3);
+    const toc = texts(doc.items).filter(item => item.page === 0).map(item => item.text);
+    expect(toc[0]).toBe('Table of Contents');
+    expect(toc.filter(t => !t.startsWith('.'))).toEqual(['Table of Contents', 'Introduction', '2', 'Argument', '3']);
+    expect(doc.headings.map(h => [h.text, h.page])).toEqual([['Introduction', 1], ['Argument', 2], ['Detail', 2]]);
+  });
+
+  test('repeats table header rows on continuation pages', () => {
+    const row = (text: string, header = false) => ({ header, cells: [{ blocks: [paragraph(text)], colspan: 1 }] });
+    const table: PdfBlock = { kind: 'table', rows: [row('Heading', true), ...Array.from({ length: 8 }, (_, i) => row(`Row ${i}`))] };
+    const doc = layoutDocument([table], small, measure);
+    expect(doc.pageCount).toBeGreaterThan(1);
+    const headers = texts(doc.items).filter(item => item.text === 'Heading');
+    expect(headers.map(item => item.page)).toEqual(Array.from({ length: doc.pageCount }, (_, i) => i));
+  });
+});
@@ -0,0 +1,486 @@
+// supabase/functions/generate-pdf-from-html/layout.ts
+// Page layout for HTML-to-PDF export: breaks paragraphs into lines, places lines, tables and
+// rules on pages, collects headings and lays out the table of contents. Text widths come from
+// the caller's measure function, so the layout itself is independent of pdf-lib.
+import { LIST_INDENT, type ParagraphBlock, type PdfBlock, type Run, type TableBlock, type TextStyle } from './htmlBlocks.ts';
+
+export type FontFamily = 'serif' | 'sans' | 'mono';
+export type FontVariant = 'regular' | 'bold' | 'italic' | 'boldItalic';
+export type Measure = (text: string, family: FontFamily, variant: FontVariant, size: number) => number;
+
+export type PageSize = 'letter' | 'legal' | 'a4';
+
+export interface PdfExportOptions {
+  pageSize?: PageSize;
+  margins?: { top?: number; right?: number; bottom?: number; left?: number }; // Inches
+  fontFamily?: FontFamily;
+  fontSize?: number; // Points
+  header?: string;
+  footer?: string;
+  pageNumbers?: boolean; // "Page X of Y", on unless turned off
+  tableOfContents?: boolean; // Built from H1-H3
+  highlightVariables?: boolean; // Template variables in orange bold; off so exports read as final
+  title?: string; // Document metadata
+}
+
+export interface ResolvedPdfOptions {
+  width: number; // Points
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  fontFamily: FontFamily;
+  fontSize: number;
+  header: string | null;
+  footer: string | null;
+  pageNumbers: boolean;
+  tableOfContents: boolean;
+  highlightVariables: boolean;
+  title: string | null;
+}
+
+export interface TextItem {
+  kind: 'text';
+  page: number;
+  x: number;
+  y: number; // Baseline, measured down from the top of the page
+  width: number;
+  text: string;
+  family: FontFamily;
+  variant: FontVariant;
+  size: number;
+  style: TextStyle;
+}
+
+export interface LineItem {
+  kind: 'line';
+  page: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  thickness: number;
+}
+
+export interface RectItem {
+  kind: 'rect';
+  page: number;
+  x: number;
+  y: number; // Top edge, measured down from the top of the page
+  width: number;
+  height: number;
+  fill: string; // RRGGBB
+}
+
+export type LayoutItem = TextItem | LineItem | RectItem;
+
+export interface HeadingEntry {
+  text: string;
+  level: number;
+  page: number; // Zero-based page of the laid-out body
+}
+
+export interface LaidOutDocument {
+  pageCount: number;
+  items: LayoutItem[];
+  headings: HeadingEntry[];
+}
+
+const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  letter: [612, 792],
+  legal: [612, 1008],
+  a4: [595.28, 841.89],
+};
+const POINTS_PER_INCH = 72;
+const LINE_HEIGHT = 1.3;
+const HEADING_SCALE = [1.6, 1.35, 1.15, 1, 1, 1];
+const CELL_PADDING = 4;
+const TOC_LEVELS = 3;
+const TOC_NUMBER_WIDTH = 36;
+
+function positive(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function resolvePdfOptions(options: PdfExportOptions = {}): ResolvedPdfOptions {
+  const [width, height] = PAGE_SIZES[options.pageSize ?? 'letter'] ?? PAGE_SIZES.letter;
+  const margin = (value: number | undefined) => positive(value, 1) * POINTS_PER_INCH;
+  return {
+    width,
+    height,
+    margins: {
+      top: margin(options.margins?.top),
+      right: margin(options.margins?.right),
+      bottom: margin(options.margins?.bottom),
+      left: margin(options.margins?.left),
+    },
+    fontFamily: options.fontFamily && ['serif', 'sans', 'mono'].includes(options.fontFamily) ? options.fontFamily : 'serif',
+    fontSize: positive(options.fontSize, 12),
+    header: options.header?.trim() || null,
+    footer: options.footer?.trim() || null,
+    pageNumbers: options.pageNumbers !== false,
+    tableOfContents: options.tableOfContents === true,
+    highlightVariables: options.highlightVariables === true,
+    title: options.title?.trim() || null,
+  };
+}
+
+// --- Line breaking ---
+
+interface Fragment {
+  text: string;
+  x: number; // Relative to the start of the line
+  width: number;
+  family: FontFamily;
+  variant: FontVariant;
+  size: number;
+  style: TextStyle;
+}
+
+interface ComposedLine {
+  fragments: Fragment[];
+  height: number;
+  ascent: number; // Baseline offset from the top of the line
+}
+
+interface Token {
+  text: string;
+  width: number;
+  space: boolean;
+  lineBreak: boolean;
+  run: Run;
+}
+
+const variantOf = (style: TextStyle, bold = false): FontVariant =>
+  (style.bold || bold) && style.italic ? 'boldItalic' : style.bold || bold ? 'bold' : style.italic ? 'italic' : 'regular';
+
+interface Composer {
+  measure: Measure;
+  family: FontFamily;
+}
+
+function fontOf(run: Run, composer: Composer, size: number, bold: boolean) {
+  return { family: run.style.code ? 'mono' as const : composer.family, variant: variantOf(run.style, bold), size };
+}
+
+/**
+ * Breaks a paragraph's runs into lines of at most `width` points. Spaces at line ends are dropped;
+ * a word longer than a whole line is split between characters.
+ */
+function composeLines(runs: Run[], width: number, size: number, bold: boolean, align: ParagraphBlock['align'], composer: Composer): ComposedLine[] {
+  const measureToken = (text: string, run: Run) => {
+    const font = fontOf(run, composer, size, bold);
+    return composer.measure(text, font.family, font.variant, font.size);
+  };
+  const tokens: Token[] = runs.flatMap(run => {
+    if (run.text === '\n') return [{ text: '', width: 0, space: false, lineBreak: true, run }];
+    // Code keeps its spacing: non-breaking spaces stop it from being wrapped or collapsed
+    const text = run.style.code ? run.text.replace(/ /g, '\u00a0') : run.text;
+    return text.split(/( +)/).filter(Boolean).map(piece => ({
+      text: piece,
+      width: measureToken(piece, run),
+      space: piece.startsWith(' '),
+      lineBreak: false,
+      run,
+    }));
+  });
+
+  const lines: { tokens: Token[]; forced: boolean }[] = [];
+  let current: Token[] = [];
+  let currentWidth = 0;
+  let pendingSpace: Token | null = null;
+  const endLine = (forced: boolean) => {
+    lines.push({ tokens: current, forced });
+    current = [];
+    currentWidth = 0;
+    pendingSpace = null;
+  };
+  for (const token of tokens) {
+    if (token.lineBreak) {
+      endLine(true);
+      continue;
+    }
+    if (token.space) {
+      if (current.length > 0) pendingSpace = token;
+      continue;
+    }
+    const spaceWidth = pendingSpace?.width ?? 0;
+    if (current.length > 0 && currentWidth + spaceWidth + token.width > width) endLine(false);
+    let word = token;
+    while (current.length === 0 && word.width > width && word.text.length > 1) {
+      let fit = word.text.length - 1;
+      while (fit > 1 && measureToken(word.text.slice(0, fit), word.run) > width) fit--;
+      current.push({ ...word, text: word.text.slice(0, fit), width: measureToken(word.text.slice(0, fit), word.run) });
+      endLine(false);
+      const rest = word.text.slice(fit);
+      word = { ...word, text: rest, width: measureToken(rest, word.run) };
+    }
+    if (pendingSpace && current.length > 0) {
+      current.push(pendingSpace);
+      currentWidth += pendingSpace.width;
+    }
+    pendingSpace = null;
+    current.push(word);
+    currentWidth += word.width;
+  }
+  if (current.length > 0 || lines.length === 0) endLine(true);
+
+  return lines.map(({ tokens: lineTokens, forced }, index) => {
+    const natural = lineTokens.reduce((sum, t) => sum + t.width, 0);
+    const spaces = lineTokens.filter(t => t.space).length;
+    const isLast = forced || index === lines.length - 1;
+    const justify = align === 'justified' && !isLast && spaces > 0;
+    const extraPerSpace = justify ? (width - natural) / spaces : 0;
+    let x = align === 'center' ? (width - natural) / 2 : align === 'right' ? width - natural : 0;
+
+    const fragments: Fragment[] = [];
+    for (const token of lineTokens) {
+      const font = fontOf(token.run, composer, size, bold);
+      const tokenWidth = token.width + (token.space ? extraPerSpace : 0);
+      const previous = fragments[fragments.length - 1];
+      // Neighbouring pieces in the same style are drawn as one string unless spaces are stretched
+      if (!justify && previous && previous.style === token.run.style) {
+        previous.text += token.text;
+        previous.width += tokenWidth;
+      } else {
+        fragments.push({ text: token.text, x, width: tokenWidth, ...font, style: token.run.style });
+      }
+      x += tokenWidth;
+    }
+    return { fragments, height: size * LINE_HEIGHT, ascent: size };
+  });
+}
+
+// --- Placement ---
+
+interface Cursor {
+  page: number;
+  y: number; // Top of the next line, measured down from the top of the page
+}
+
+interface LayoutContext {
+  options: ResolvedPdfOptions;
+  composer: Composer;
+  items: LayoutItem[];
+  headings: HeadingEntry[];
+  cursor: Cursor;
+  pageCount: number;
+}
+
+const contentWidth = (options: ResolvedPdfOptions) => options.width - options.margins.left - options.margins.right;
+const bottomLimit = (options: ResolvedPdfOptions) => options.height - options.margins.bottom;
+
+function newPage(context: LayoutContext) {
+  context.cursor = { page: context.cursor.page + 1, y: context.options.margins.top };
+  context.pageCount = Math.max(context.pageCount, context.cursor.page + 1);
+}
+
+// Moves to a new page unless `height` still fits; never leaves a page blank
+function ensureSpace(context: LayoutContext, height: number) {
+  if (context.cursor.y + height > bottomLimit(context.options) && context.cursor.y > context.options.margins.top) newPage(context);
+}
+
+function placeLine(context: LayoutContext, line: ComposedLine, x: number) {
+  const { cursor } = context;
+  for (const fragment of line.fragments) {
+    if (fragment.style.background) {
+      context.items.push({ kind: 'rect', page: cursor.page, x: x + fragment.x, y: cursor.y, width: fragment.width, height: line.height, fill: fragment.style.background });
+    }
+    context.items.push({
+      kind: 'text',
+      page: cursor.page,
+      x: x + fragment.x,
+      y: cursor.y + line.ascent,
+      width: fragment.width,
+      text: fragment.text,
+      family: fragment.family,
+      variant: fragment.variant,
+      size: fragment.size,
+      style: fragment.style,
+    });
+  }
+}
+
+const headingSize = (block: ParagraphBlock, base: number) => (block.heading ? base * HEADING_SCALE[block.heading - 1] : base);
+const runsText = (runs: Run[]) => runs.map(run => run.text).join('').replace(/\s+/g, ' ').trim();
+
+function composeParagraph(block: ParagraphBlock, width: number, context: LayoutContext) {
+  const size = headingSize(block, context.options.fontSize);
+  return composeLines(block.runs, Math.max(width - block.indent, size), size, !!block.heading, block.align, context.composer);
+}
+
+function layoutParagraph(block: ParagraphBlock, context: LayoutContext) {
+  const { options } = context;
+  const size = headingSize(block, options.fontSize);
+  const lines = composeParagraph(block, contentWidth(options), context);
+  const before = block.heading ? size * 0.8 : 0;
+  const after = block.heading ? size * 0.4 : options.fontSize * 0.6;
+
+  // Keep a heading with the first line that follows it
+  ensureSpace(context, before + lines[0].height + (block.heading ? options.fontSize * LINE_HEIGHT * 2 : 0));
+  if (context.cursor.y > options.margins.top) context.cursor.y += before;
+  if (block.heading) context.headings.push({ text: runsText(block.runs), level: block.heading, page: context.cursor.page });
+
+  const x = options.margins.left + block.indent;
+  lines.forEach((line, i) => {
+    ensureSpace(context, line.height);
+    if (i === 0 && block.marker) {
+      const markerSize = options.fontSize;
+      const markerWidth = context.composer.measure(block.marker, options.fontFamily, 'regular', markerSize);
+      context.items.push({
+        kind: 'text', page: context.cursor.page, x: x - Math.max(LIST_INDENT - 4, markerWidth + 4), y: context.cursor.y + line.ascent,
+        width: markerWidth, text: block.marker, family: options.fontFamily, variant: 'regular', size: markerSize, style: {},
+      });
+    }
+    placeLine(context, line, x);
+    context.cursor.y += line.height;
+  });
+  context.cursor.y += after;
+}
+
+function layoutTable(block: TableBlock, context: LayoutContext) {
+  const { options } = context;
+  const columns = Math.max(1, ...block.rows.map(row => row.cells.reduce((sum, cell) => sum + cell.colspan, 0)));
+  const columnWidth = contentWidth(options) / columns;
+
+  const composeRow = (row: TableBlock['rows'][number]) => {
+    let column = 0;
+    const cells = row.cells.map(cell => {
+      const width = columnWidth * cell.colspan;
+      const paragraphs = cell.blocks.map(p => composeParagraph(p, width - 2 * CELL_PADDING, context));
+      const x = options.margins.left + column * columnWidth;
+      column += cell.colspan;
+      return { cell, x, width, paragraphs, height: paragraphs.flat().reduce((sum, line) => sum + line.height, 0) };
+    });
+    return { cells, height: Math.max(options.fontSize * LINE_HEIGHT, ...cells.map(c => c.height)) + 2 * CELL_PADDING };
+  };
+
+  const drawRow = (composed: ReturnType<typeof composeRow>) => {
+    const { cursor } = context;
+    const top = cursor.y;
+    const rowBottom = top + composed.height;
+    for (const cell of composed.cells) {
+      if (cell.cell.background) {
+        context.items.push({ kind: 'rect', page: cursor.page, x: cell.x, y: top, width: cell.width, height: composed.height, fill: cell.cell.background });
+      }
+      let y = top + CELL_PADDING;
+      cell.paragraphs.forEach((lines, p) => {
+        const indent = cell.cell.blocks[p].indent;
+        for (const line of lines) {
+          context.cursor = { page: cursor.page, y };
+          placeLine(context, line, cell.x + CELL_PADDING + indent);
+          y += line.height;
+        }
+      });
+      context.items.push(
+        { kind: 'line', page: cursor.page, x1: cell.x, y1: top, x2: cell.x + cell.width, y2: top, thickness: 0.5 },
+        { kind: 'line', page: cursor.page, x1: cell.x, y1: rowBottom, x2: cell.x + cell.width, y2: rowBottom, thickness: 0.5 },
+        { kind: 'line', page: cursor.page, x1: cell.x, y1: top, x2: cell.x, y2: rowBottom, thickness: 0.5 },
+        { kind: 'line', page: cursor.page, x1: cell.x + cell.width, y1: top, x2: cell.x + cell.width, y2: rowBottom, thickness: 0.5 },
+      );
+    }
+    context.cursor = { page: cursor.page, y: rowBottom };
+  };
+
+  const headerRows = block.rows.filter(row => row.header).map(composeRow);
+  for (const row of block.rows) {
+    const composed = composeRow(row);
+    const page = context.cursor.page;
+    ensureSpace(context, composed.height);
+    // Header rows repeat at the top of every page the table continues on
+    if (context.cursor.page !== page && !row.header) headerRows.forEach(drawRow);
+    drawRow(composed);
+  }
+  context.cursor.y += options.fontSize * 0.6;
+}
+
+function layoutBlock(block: PdfBlock, context: LayoutContext) {
+  switch (block.kind) {
+    case 'paragraph':
+      layoutParagraph(block, context);
+      break;
+    case 'table':
+      layoutTable(block, context);
+      break;
+    case 'rule': {
+      const { options, cursor } = context;
+      ensureSpace(context, options.fontSize);
+      const y = cursor.y + options.fontSize / 2;
+      context.items.push({ kind: 'line', page: cursor.page, x1: options.margins.left, y1: y, x2: options.width - options.margins.right, y2: y, thickness: 0.75 });
+      cursor.y += options.fontSize;
+      break;
+    }
+    case 'pageBreak':
+      if (context.cursor.y > context.options.margins.top) newPage(context);
+      break;
+  }
+}
+
+function createContext(options: ResolvedPdfOptions, measure: Measure): LayoutContext {
+  return {
+    options,
+    composer: { measure, family: options.fontFamily },
+    items: [],
+    headings: [],
+    cursor: { page: 0, y: options.margins.top },
+    pageCount: 1,
+  };
+}
+
+/** Lays the blocks out on as many pages as they need. */
+export function layoutBlocks(blocks: PdfBlock[], options: ResolvedPdfOptions, measure: Measure): LaidOutDocument {
+  const context = createContext(options, measure);
+  blocks.forEach(block => layoutBlock(block, context));
+  return { pageCount: context.pageCount, items: context.items, headings: context.headings };
+}
+
+// Heading text, dot leaders and the page number, indented by level
+function layoutTableOfContents(headings: HeadingEntry[], pageNumber: (entry: HeadingEntry) => number, options: ResolvedPdfOptions, measure: Measure): LaidOutDocument {
+  const context = createContext(options, measure);
+  layoutParagraph({ kind: 'paragraph', runs: [{ text: 'Table of Contents', style: {} }], heading: 1, align: 'center', indent: 0 }, context);
+  context.headings = [];
+
+  const { fontSize, fontFamily } = options;
+  const dotWidth = measure('.', fontFamily, 'regular', fontSize);
+  for (const entry of headings.filter(h => h.level <= TOC_LEVELS)) {
+    const indent = (entry.level - 1) * LIST_INDENT;
+    const width = contentWidth(options) - indent - TOC_NUMBER_WIDTH;
+    const style: TextStyle = entry.level === 1 ? { bold: true } : {};
+    const lines = composeLines([{ text: entry.text, style }], width, fontSize, false, 'left', context.composer);
+    const x = options.margins.left + indent;
+    lines.forEach((line, i) => {
+      ensureSpace(context, line.height);
+      placeLine(context, line, x);
+      if (i === lines.length - 1) {
+        const number = String(pageNumber(entry));
+        const numberWidth = measure(number, fontFamily, 'regular', fontSize);
+        const right = options.width - options.margins.right;
+        const used = line.fragments.reduce((end, f) => Math.max(end, f.x + f.width), 0);
+        const dots = Math.max(0, Math.floor((right - numberWidth - x - used - 2 * dotWidth) / dotWidth));
+        const baseline = context.cursor.y + line.ascent;
+        if (dots > 0) {
+          context.items.push({ kind: 'text', page: context.cursor.page, x: right - numberWidth - (dots + 1) * dotWidth, y: baseline, width: dots * dotWidth, text: '.'.repeat(dots), family: fontFamily, variant: 'regular', size: fontSize, style: {} });
+        }
+        context.items.push({ kind: 'text', page: context.cursor.page, x: right - numberWidth, y: baseline, width: numberWidth, text: number, family: fontFamily, variant: 'regular', size: fontSize, style: {} });
+      }
+      context.cursor.y += line.height;
+    });
+  }
+  return { pageCount: context.pageCount, items: context.items, headings: [] };
+}
+
+/**
+ * Lays out the whole document. With a table of contents, its pages come first and body pages
+ * are shifted after them; the contents list the printed page number of each heading.
+ */
+export function layoutDocument(blocks: PdfBlock[], options: ResolvedPdfOptions, measure: Measure): LaidOutDocument {
+  const body = layoutBlocks(blocks, options, measure);
+  if (!options.tableOfContents || body.headings.length === 0) return body;
+
+  // Entries wrap the same whatever their page numbers, so one pass gives the contents' length
+  const tocPages = layoutTableOfContents(body.headings, () => 0, options, measure).pageCount;
+  const toc = layoutTableOfContents(body.headings, entry => tocPages + entry.page + 1, options, measure);
+  return {
+    pageCount: toc.pageCount + body.pageCount,
+    items: [...toc.items, ...body.items.map(item => ({ ...item, page: item.page + toc.pageCount }))],
+    headings: body.headings.map(h => ({ ...h, page: h.page + toc.pageCount })),
+  };
+}
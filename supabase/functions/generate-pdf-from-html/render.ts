@@ -0,0 +1,106 @@
+// supabase/functions/generate-pdf-from-html/render.ts
+// Draws a laid-out document with pdf-lib's standard fonts, adds link annotations and the running
+// header and footer ("Page X of Y" needs the final page count, so it is drawn last).
+import { PDFDocument, PDFString, StandardFonts, rgb, type PDFFont, type PDFPage } from 'npm:pdf-lib@1.17.1';
+import { winAnsiSafe } from '../_shared/pdfText.ts';
+import type { PdfBlock } from './htmlBlocks.ts';
+import { layoutDocument, type FontFamily, type FontVariant, type ResolvedPdfOptions } from './layout.ts';
+
+const STANDARD_FONTS: Record<FontFamily, Record<FontVariant, StandardFonts>> = {
+  serif: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold, italic: StandardFonts.TimesRomanItalic, boldItalic: StandardFonts.TimesRomanBoldItalic },
+  sans: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold, italic: StandardFonts.HelveticaOblique, boldItalic: StandardFonts.HelveticaBoldOblique },
+  mono: { regular: StandardFonts.Courier, bold: StandardFonts.CourierBold, italic: StandardFonts.CourierOblique, boldItalic: StandardFonts.CourierBoldOblique },
+};
+const FURNITURE_SIZE = 9;
+
+const hexColor = (hex: string | undefined) => {
+  const value = parseInt(hex || '000000', 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+function addLink(pdf: PDFDocument, page: PDFPage, url: string, rect: [number, number, number, number]) {
+  const annotation = pdf.context.register(pdf.context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: rect,
+    Border: [0, 0, 0],
+    A: { Type: 'Action', S: 'URI', URI: PDFString.of(url) },
+  }));
+  page.node.addAnnot(annotation);
+}
+
+/** Renders the blocks to a PDF file. */
+export async function renderPdf(blocks: PdfBlock[], options: ResolvedPdfOptions): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  if (options.title) pdf.setTitle(options.title);
+  pdf.setProducer('Benchwise');
+
+  // Layout measures synchronously, so all standard fonts (never subset, only a few bytes each) are embedded
+  // up front; measuring and drawing use the same WinAnsi-safe text
+  const fonts = new Map<StandardFonts, { font: PDFFont; clean: (text: string) => string }>();
+  for (const family of Object.values(STANDARD_FONTS)) {
+    for (const name of Object.values(family)) {
+      if (fonts.has(name)) continue;
+      const font = await pdf.embedFont(name);
+      fonts.set(name, { font, clean: winAnsiSafe(font) });
+    }
+  }
+  const fontFor = (family: FontFamily, variant: FontVariant) => fonts.get(STANDARD_FONTS[family][variant])!;
+  const measure = (text: string, family: FontFamily, variant: FontVariant, size: number) => {
+    const { font, clean } = fontFor(family, variant);
+    return font.widthOfTextAtSize(clean(text), size);
+  };
+
+  const document = layoutDocument(blocks, options, measure);
+  const pages = Array.from({ length: document.pageCount }, () => pdf.addPage([options.width, options.height]));
+  const top = (y: number) => options.height - y;
+
+  // Backgrounds first so text and rules sit on top of them
+  for (const item of document.items) {
+    if (item.kind !== 'rect') continue;
+    pages[item.page].drawRectangle({ x: item.x, y: top(item.y + item.height), width: item.width, height: item.height, color: hexColor(item.fill) });
+  }
+  for (const item of document.items) {
+    const page = pages[item.page];
+    if (item.kind === 'line') {
+      page.drawLine({ start: { x: item.x1, y: top(item.y1) }, end: { x: item.x2, y: top(item.y2) }, thickness: item.thickness, color: rgb(0, 0, 0) });
+      continue;
+    }
+    if (item.kind !== 'text') continue;
+    const { font, clean } = fontFor(item.family, item.variant);
+    const color = hexColor(item.style.color);
+    const baseline = top(item.y);
+    page.drawText(clean(item.text), { x: item.x, y: baseline, size: item.size, font, color });
+    if (item.style.underline) {
+      page.drawLine({ start: { x: item.x, y: baseline - item.size * 0.12 }, end: { x: item.x + item.width, y: baseline - item.size * 0.12 }, thickness: item.size / 20, color });
+    }
+    if (item.style.strike) {
+      page.drawLine({ start: { x: item.x, y: baseline + item.size * 0.3 }, end: { x: item.x + item.width, y: baseline + item.size * 0.3 }, thickness: item.size / 20, color });
+    }
+    if (item.style.link) {
+      addLink(pdf, page, item.style.link, [item.x, baseline - item.size * 0.25, item.x + item.width, baseline + item.size * 0.9]);
+    }
+  }
+
+  // Header centred in the top margin; footer text on the left and page numbers on the right
+  const furniture = fontFor(options.fontFamily, 'regular');
+  const left = options.margins.left;
+  const right = options.width - options.margins.right;
+  pages.forEach((page, i) => {
+    if (options.header) {
+      const text = furniture.clean(options.header);
+      const width = furniture.font.widthOfTextAtSize(text, FURNITURE_SIZE);
+      page.drawText(text, { x: (left + right - width) / 2, y: options.height - options.margins.top / 2, size: FURNITURE_SIZE, font: furniture.font });
+    }
+    const footerY = options.margins.bottom / 2;
+    if (options.footer) {
+      page.drawText(furniture.clean(options.footer), { x: left, y: footerY, size: FURNITURE_SIZE, font: furniture.font, maxWidth: right - left - 72 });
+    }
+    if (options.pageNumbers) {
+      const label = `Page ${i + 1} of ${pages.length}`;
+      const width = furniture.font.widthOfTextAtSize(label, FURNITURE_SIZE);
+      page.drawText(label, { x: options.footer ? right - width : (left + right - width) / 2, y: footerY, size: FURNITURE_SIZE, font: furniture.font });
+    }
+  });
+  return await pdf.save();
+}
@@ -1,9 +1,12 @@
 import { serve } from 'https://deno.land/std@0.224.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAI } from "npm:openai@^4.0.0";
 // Remove Vercel AI library stream helpers
 // import { OpenAIStream, StreamingTextResponse } from 'npm:ai@^3.1.32'; 
 import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter, type AiCallUsage } from '../_shared/usage.ts';
+import { CHAT_MODELS, createLlmGateway, type LlmMessage } from '../_shared/llm.ts';
 import type { SupabaseClient } from 'npm:@supabase/supabase-js@^2.0.0';
 import { v4 as uuidv4 } from "npm:uuid"; // Import uuid
 
@@ -77,6 +80,8 @@ console.log('Generic Chat Agent function initializing (Refactored)...')
 // Initialize Supabase client (unchanged)
 const supabaseAdmin: SupabaseClient = createSupabaseAdminClient();
 
+const llm = createLlmGateway();
+
 // --- Main Serve Function --- 
 serve(async (req: Request) => {
   // --- CORS Handling --- 
@@ -86,60 +91,15 @@ serve(async (req: Request) => {
 
   let userId: string | null = null;
   let newConversationId: string | null = null; // Track if a new conv is created
+  let meter: AiCallMeter | undefined;
 
   try {
     // --- Authorization --- 
-    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
-    if (!token) {
-        console.warn('Missing Authorization header');
-        return new Response(JSON.stringify({ error: 'Missing authorization token' }), {
-            status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-    }
-    // Use admin client to validate token and get user
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
-    if (userError || !user) {
-        console.error('Auth Error:', userError?.message || 'User not found for token');
-        return new Response(JSON.stringify({ error: userError?.message || 'Invalid token or user not found' }), {
-            status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-    }
-    userId = user.id;
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+    userId = auth.user.id;
     console.log('User authenticated:', userId);
 
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-        console.error('Profile fetch error:', profileError);
-        return new Response(JSON.stringify({ error: 'User profile not found' }), {
-            status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-        if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-            return new Response(JSON.stringify({ error: 'Trial expired' }), {
-                status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-            });
-        }
-        if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-            return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-                status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-            });
-        }
-    } else if (profile.subscription_status !== 'active') {
-        return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-            status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-    }
-
     // --- Request Body Parsing --- 
     const { 
         messages,
@@ -159,6 +119,17 @@ serve(async (req: Request) => {
         });
     }
 
+    // Chatting about a case and reading its documents is open to members whose role allows AI use
+    if (caseId && !await canAccessCase(supabaseAdmin, caseId, auth.user.id, 'use_ai')) {
+        return new Response(JSON.stringify({ error: 'Case not found or access denied' }), {
+            status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+    }
+
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'generic-chat-agent', caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
+
     // --- Conversation Management ---
     let conversationId: string | null = null; // Initialize as null
     if (conversationIdFromRequest) { // Assign if exists
@@ -281,7 +252,6 @@ serve(async (req: Request) => {
                 .select('id, filename, extracted_text')
                 .in('id', documentContextIds)
                 .eq('case_id', currentCaseId) 
-                .eq('owner_id', userId!) 
                 .neq('processing_status', 'text_extraction_pending')
                 .neq('processing_status', 'text_extraction_failed');
 
@@ -342,10 +312,10 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
 
     const finalSystemPrompt = `${systemPromptContent}${fetchedContextText}`;
     
-    // Prepare messages for OpenAI, including the system prompt
-    // Exclude IDs when sending to OpenAI
+    // Prepare messages for the model, including the system prompt
+    // Exclude IDs when sending to the model
     const historyMessages = messages.map(({ role, content }) => ({ role, content }));
-    const openAiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    const llmMessages: LlmMessage[] = [
         { role: 'system', content: finalSystemPrompt },
         ...historyMessages 
     ];
@@ -353,32 +323,24 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
     console.log(`Final Prompt: System tokens approx=${estimateTokens(finalSystemPrompt)}, History msgs=${historyMessages.length}`);
 
 
-    // --- Call OpenAI --- 
-    const getApiKey = (keyName: string) => {
-        const key = Deno.env.get(keyName);
-        if (!key) throw new Error(`${keyName} not set in environment variables`);
-        return key;
-    };
+    // --- Call the LLM gateway --- 
+    // The model picked in the chat input is tried first; the feature's models are its fallbacks
+    const preferredModel = CHAT_MODELS[modelId];
 
     // Declare modelId outside try block to be accessible in catch
-    let actualModelId = 'gpt-4o'; // Default value
+    let actualModelId = preferredModel?.model ?? 'default';
 
     try {
-        const openai = new OpenAI({ apiKey: getApiKey('OPENAI_API_KEY') });
-        // Correct the default model name
-        const defaultModel = 'gpt-4o'; // Changed from gpt-4o-mini
-        // Assign the final model ID
-        actualModelId = modelId === 'default-chat' ? defaultModel : (modelId || defaultModel);
-        console.log(`Calling OpenAI (${actualModelId}) with streaming...`);
+        console.log(`Calling the LLM gateway (preferred model: ${actualModelId}) with streaming...`);
         
-        const responseIterator = await openai.chat.completions.create({
-            model: actualModelId,
-            messages: openAiMessages,
+        const llmStream = await llm.stream('generic-chat-agent', {
+            messages: llmMessages,
             temperature: 0.7,
-            stream: true,
-        });
+        }, { preferredModel });
+        actualModelId = llmStream.model;
+        console.log(`Streaming from ${actualModelId}`);
 
-        // --- Return RAW OpenAI Stream --- 
+        // --- Return the model's stream --- 
         const responseStream = new ReadableStream({
           async start(controller) {
             const encoder = new TextEncoder();
@@ -393,13 +355,15 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
             const isStreamingThoughtsEnabled = req.headers.get("X-Experimental-Stream-Thoughts") === "true" || streamThoughts; // This 'streamThoughts' is from req.json()
 
             let chunkCounter = 0; // To count incoming chunks
+            let usage: AiCallUsage | undefined;
 
             try {
               console.log(`DEBUG: Starting stream processing loop. streamThoughts enabled: ${isStreamingThoughtsEnabled}`);
-              for await (const chunk of responseIterator) {
+              for await (const event of llmStream.events) {
                 chunkCounter++;
-                const deltaContent = chunk.choices?.[0]?.delta?.content || "";
-                const finishReason = chunk.choices?.[0]?.finish_reason;
+                const deltaContent = event.type === 'text' ? event.text : "";
+                const finishReason = event.type === 'done' ? event.finishReason ?? 'stop' : null;
+                if (event.type === 'done') usage = event.usage;
 
                 console.log(`DEBUG: Chunk ${chunkCounter} received. Delta: "${deltaContent}", Finish Reason: ${finishReason}`);
                 
@@ -463,8 +427,8 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
                 }
 
                 if (finishReason) {
-                  console.log(`DEBUG: OpenAI stream finished with reason: ${finishReason}.`);
-                  break; // Exit loop if OpenAI signals completion
+                  console.log(`DEBUG: Model stream finished with reason: ${finishReason}.`);
+                  break; // Exit loop once the model signals completion
                 }
               }
               console.log(`DEBUG: Stream processing loop finished. Total chunks: ${chunkCounter}.`);
@@ -492,18 +456,14 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
                 buffer = ""; // Clear buffer after flushing
               }
               console.log('DEBUG: Stream adapter logic completed successfully.');
+              await aiCall.succeed(usage ?? { model: actualModelId });
             } catch (streamErr) {
               console.error('DEBUG: ERROR INSIDE stream processing logic:', streamErr);
+              await aiCall.fail(streamErr, { model: actualModelId });
               controller.error(streamErr); 
             } finally {
               controller.close();
               console.log('DEBUG: Stream adapter controller closed (finally block).');
-              if (profile.subscription_status === 'trialing') {
-                await supabaseAdmin
-                  .from('profiles')
-                  .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-                  .eq('id', userId!);
-              }
             }
           },
           cancel(reason) {
@@ -525,8 +485,9 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
         });
 
     } catch (llmError) {
-        console.error(`OpenAI API Error (${actualModelId}):`, llmError); // Now accessible
-        const errorMessage = llmError instanceof Error ? llmError.message : 'Unknown OpenAI API error';
+        console.error(`LLM API Error (${actualModelId}):`, llmError); // Now accessible
+        await aiCall.fail(llmError); // The LlmError names the model tried last
+        const errorMessage = llmError instanceof Error ? llmError.message : 'Unknown LLM API error';
         const isModelAccessError = llmError instanceof Error && llmError.message.includes('does not exist or you do not have access to it');
         const status = isModelAccessError ? 404 : 502; 
         return new Response(JSON.stringify({ error: `LLM API Error: ${errorMessage}` }), {
@@ -537,6 +498,7 @@ FINAL_ANSWER: Based on the statutes of [Jurisdiction], ...`;
   } catch (error) {
     // --- General Error Handling --- 
     console.error('Error in generic-chat-agent:', error)
+    await meter?.fail(error);
     const errorMessage = error instanceof Error ? error.message : 'An internal server error occurred.';
     // Avoid sending back detailed internal errors unless necessary
     const publicErrorMessage = errorMessage.startsWith('Auth Error:') || errorMessage.startsWith('LLM API Error:') ? errorMessage : 'Internal Server Error';
@@ -1,13 +1,13 @@
 import { serve } from "std/http/server";
-import { OpenAI } from "openai";
 import { corsHeaders } from "../_shared/cors.ts";
 import { createSupabaseAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAuth } from "../_shared/auth.ts";
+import { startAiCall, type AiCallMeter } from "../_shared/usage.ts";
+import { createLlmGateway } from "../_shared/llm.ts";
 
 console.log("Intelligent Drafting function initializing...");
 
-const openai = new OpenAI({
-  apiKey: Deno.env.get("OPENAI_API_KEY"),
-});
+const llm = createLlmGateway();
 
 interface DraftingRequestBody {
   draft_type: string; // e.g., "email", "client_portal_message", "text_message", "event_description"
@@ -22,13 +22,18 @@ serve(async (req) => {
     return new Response("ok", { headers: corsHeaders });
   }
 
+  let meter: AiCallMeter | undefined;
   try {
-    const requestBody: DraftingRequestBody & { userId?: string } = await req.json();
-    const { draft_type, prompt_details, document_context, tone, length_preference, userId } = requestBody;
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+
+    const requestBody: DraftingRequestBody = await req.json();
+    const { draft_type, prompt_details, document_context, tone, length_preference } = requestBody;
 
-    if (!draft_type || !prompt_details || !userId) {
+    if (!draft_type || !prompt_details) {
       return new Response(
-        JSON.stringify({ error: "Missing draft_type, prompt_details, or userId" }),
+        JSON.stringify({ error: "Missing draft_type or prompt_details" }),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -36,43 +41,9 @@ serve(async (req) => {
       );
     }
 
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          status: 403,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-        status: 403,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'intelligent-drafting' });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
     let systemMessage = "You are an AI assistant for a legal professional. Your drafts should be clear, concise, and professionally appropriate.";
     
@@ -89,27 +60,21 @@ serve(async (req) => {
       userPrompt += "The desired length is " + length_preference + ".\n";
     }
 
-    const chatCompletion = await openai.chat.completions.create({
+    const chatCompletion = await llm.chat("intelligent-drafting", {
       messages: [
         { role: "system", content: systemMessage },
         { role: "user", content: userPrompt },
       ],
-      model: "gpt-4o", // Using a more advanced model for drafting quality
       temperature: 0.7, // Slightly higher temperature for more creative drafts
     });
 
-    const draft_suggestion = chatCompletion.choices[0].message.content?.trim();
+    const draft_suggestion = chatCompletion.text.trim();
 
     if (!draft_suggestion) {
-        throw new Error("Failed to get draft suggestion from OpenAI");
+        throw new Error("Failed to get draft suggestion from the model");
     }
 
-    if (profile.subscription_status === 'trialing') {
-      await supabaseAdmin
-        .from('profiles')
-        .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-        .eq('id', userId);
-    }
+    await aiCall.succeed(chatCompletion.usage);
 
     return new Response(
       JSON.stringify({ draft_suggestion }),
@@ -120,6 +85,7 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error("Error in intelligent-drafting function:", error);
+    await meter?.fail(error);
     return new Response(
       JSON.stringify({ error: error.message || "An unexpected error occurred" }),
       {
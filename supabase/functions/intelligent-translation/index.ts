@@ -1,19 +1,18 @@
 import { serve } from "std/http/server";
-import { OpenAI } from "openai";
 import { corsHeaders } from "../_shared/cors.ts";
 import { createSupabaseAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAuth } from "../_shared/auth.ts";
+import { startAiCall, type AiCallMeter } from "../_shared/usage.ts";
+import { createLlmGateway } from "../_shared/llm.ts";
 
 console.log("Intelligent Translation function initializing...");
 
-const openai = new OpenAI({
-  apiKey: Deno.env.get("OPENAI_API_KEY"),
-});
+const llm = createLlmGateway();
 
 interface TranslationRequestBody {
   text_to_translate: string;
   target_language: string;
   source_language?: string;
-  userId: string;
 }
 
 serve(async (req) => {
@@ -21,13 +20,18 @@ serve(async (req) => {
     return new Response("ok", { headers: corsHeaders });
   }
 
+  let meter: AiCallMeter | undefined;
   try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+
     const requestBody: TranslationRequestBody = await req.json();
-    const { text_to_translate, target_language, source_language, userId } = requestBody;
+    const { text_to_translate, target_language, source_language } = requestBody;
 
-    if (!text_to_translate || !target_language || !userId) {
+    if (!text_to_translate || !target_language) {
       return new Response(
-        JSON.stringify({ error: "Missing text_to_translate, target_language, or userId" }),
+        JSON.stringify({ error: "Missing text_to_translate or target_language" }),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -35,43 +39,9 @@ serve(async (req) => {
       );
     }
 
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(
-        JSON.stringify({ error: 'User profile not found' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(
-          JSON.stringify({ error: 'Trial expired' }),
-          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(
-          JSON.stringify({ error: 'Trial call limit reached' }),
-          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(
-        JSON.stringify({ error: 'Subscription inactive' }),
-        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'intelligent-translation' });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
 
     // Simplified prompt construction
     let promptContent = `"${text_to_translate}"`;
@@ -85,29 +55,23 @@ serve(async (req) => {
     const fullPrompt = instruction + promptContent;
     
 
-    const chatCompletion = await openai.chat.completions.create({
+    const chatCompletion = await llm.chat("intelligent-translation", {
       messages: [
         { role: "system", content: "You are a helpful translation assistant." },
         { role: "user", content: fullPrompt }, // Use the concatenated prompt
       ],
-      model: "gpt-3.5-turbo", // Or consider gpt-4o for better quality/cost balance
       temperature: 0.3,
     });
 
-    const translated_text = chatCompletion.choices[0].message.content?.trim();
-    // Potentially, OpenAI might include source language detection in its response or we might infer it.
+    const translated_text = chatCompletion.text.trim();
+    // Potentially, the model might include source language detection in its response or we might infer it.
     // For now, we're not explicitly returning detected_source_language unless the model provides it.
 
     if (!translated_text) {
-        throw new Error("Failed to get translation from OpenAI");
+        throw new Error("Failed to get translation from the model");
     }
 
-    if (profile.subscription_status === 'trialing') {
-      await supabaseAdmin
-        .from('profiles')
-        .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-        .eq('id', userId);
-    }
+    await aiCall.succeed(chatCompletion.usage);
 
     return new Response(
       JSON.stringify({ translated_text }),
@@ -118,6 +82,7 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error("Error in intelligent-translation function:", error);
+    await meter?.fail(error);
     return new Response(
       JSON.stringify({ error: error.message || "An unexpected error occurred" }),
       {
@@ -0,0 +1,165 @@
+// supabase/functions/interpret-search-intent/index.ts
+// Interprets a command palette query as a Task (the same union parseCommand produces), with
+// document and template names resolved to IDs within the active case and a confidence score.
+// Fixed phrasings are handled by rules; when OPENAI_API_KEY is set, a model interprets the rest.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { canAccessCase } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { checkAiQuota, startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway } from '../_shared/llm.ts';
+import {
+  IntentCandidates,
+  IntentResponse,
+  MIN_CONFIDENCE,
+  NamedItem,
+  interpretWithRules,
+  taskResponse,
+  validateTask,
+} from './intent.ts';
+
+// Rules results at least this confident are returned without asking the model
+const RULES_CONFIDENT = 0.8;
+const MAX_QUERY_LENGTH = 500;
+const MAX_CANDIDATES = 300;
+
+const llm = createLlmGateway();
+const canUseModel = llm.isAvailable('interpret-search-intent');
+
+console.log(`Function interpret-search-intent initializing (${canUseModel ? 'rules and model' : 'rules only'})...`);
+
+interface IntentRequestBody {
+  query: string;
+  caseId?: string | null;
+}
+
+async function interpretWithModel(query: string, candidates: IntentCandidates, meter: AiCallMeter): Promise<IntentResponse | null> {
+  const systemPrompt = `You interpret what a legal professional typed into an app's command palette as one task.
+Tasks (JSON objects):
+- { "type": "agent", "agent": "summarize", "docId"?: string }
+- { "type": "agent", "agent": "compare", "docIds": string[] } (two or more documents, oldest draft first)
+- { "type": "agent", "agent": "find_clause", "clauseType": string, "docId": string }
+- { "type": "agent", "agent": "key_clauses" | "risk_analysis" | "generate_timeline" | "flag_privileged_terms", "docId": string }
+- { "type": "analyze_document", "docId": string, "analysisType": "entities" | "clauses" | "risks" | "timeline" | "privilegedTerms" }
+- { "type": "agent", "agent": "draft", "instructions": string, "docId"?: string }
+- { "type": "agent", "agent": "rewrite", "instructions": string, "docId"?: string }
+- { "type": "agent", "agent": "explain_term", "term": string }
+- { "type": "agent", "agent": "perplexity", "query": string } (questions needing current information from the web)
+- { "type": "research", "query": string } (legal research questions about the case)
+- { "type": "use_template", "templateName": string }
+- { "type": "case_search", "query": string }
+- { "type": "help" }
+Documents and templates may only be referred to by the ids and names listed below. If the text names a document or template that isn't listed, or doesn't ask for a task, return a null task.
+Return a JSON object: { "task": <task or null>, "confidence": <number from 0 to 1, how sure you are this is what the user wants> }.`;
+
+  const userPrompt = `DOCUMENTS IN THE ACTIVE CASE:
+${candidates.documents.map(doc => `- id=${doc.id} name="${doc.name}"`).join('\n') || '(none)'}
+
+TEMPLATES:
+${candidates.templates.map(template => `- name="${template.name}"`).join('\n') || '(none)'}
+
+TYPED: ${query}`;
+
+  // Invalid JSON from every model throws, and the rules' answer stands
+  const response = await llm.json<{ task?: unknown; confidence?: unknown }>('interpret-search-intent', {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    temperature: 0,
+    maxTokens: 300,
+  });
+  await meter.succeed(response.usage);
+
+  const parsed = response.data;
+
+  const task = validateTask(parsed.task, candidates);
+  if (!task) return null;
+  const confidence = typeof parsed.confidence === 'number' ? Math.min(Math.max(parsed.confidence, 0), 1) : 0.5;
+  const template = task.type === 'use_template' ? candidates.templates.find(item => item.name === task.templateName) : undefined;
+  const names = new Map(candidates.documents.map(doc => [doc.id, doc.name]));
+  const docNames = ('docIds' in task ? task.docIds : 'docId' in task && task.docId ? [task.docId] : []).map(id => `"${names.get(id)}"`);
+  const label = task.type === 'agent' ? task.agent.replace(/_/g, ' ') : task.type.replace(/_/g, ' ');
+  const message = template ? `Fill in the "${template.name}" template` : `${label.charAt(0).toUpperCase()}${label.slice(1)}${docNames.length ? ` ${docNames.join(', ')}` : ''}`;
+  return taskResponse(task, confidence, message, 'model', template ? { templateId: template.id } : {});
+}
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const { user, profile } = auth;
+
+    const { query, caseId } = await req.json() as IntentRequestBody;
+    if (!query || typeof query !== 'string' || !query.trim() || query.length > MAX_QUERY_LENGTH) {
+      return new Response(JSON.stringify({ error: `'query' must be a non-empty string of at most ${MAX_QUERY_LENGTH} characters` }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // --- Names to resolve: the active case's documents and the templates the user can use ---
+    let documents: NamedItem[] = [];
+    if (caseId) {
+      if (!await canAccessCase(supabaseAdmin, caseId, user.id, 'view')) {
+        return new Response(JSON.stringify({ error: 'Case not found or access denied' }), {
+          status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+      const { data: docs, error: docsError } = await supabaseAdmin
+        .from('documents')
+        .select('id, filename')
+        .eq('case_id', caseId)
+        .eq('is_deleted', false)
+        .order('created_at', { ascending: true })
+        .limit(MAX_CANDIDATES);
+      if (docsError) throw new Error(`Failed to load documents: ${docsError.message}`);
+      documents = (docs || []).map((doc: { id: string; filename: string }) => ({ id: doc.id, name: doc.filename }));
+    }
+    const { data: templateRows, error: templatesError } = await supabaseAdmin
+      .from('document_templates')
+      .select('id, name')
+      .or(`is_public.eq.true,user_id.eq.${user.id}`)
+      .limit(MAX_CANDIDATES);
+    if (templatesError) throw new Error(`Failed to load templates: ${templatesError.message}`);
+    const candidates: IntentCandidates = {
+      documents,
+      templates: (templateRows || []).map((template: { id: string; name: string }) => ({ id: template.id, name: template.name })),
+    };
+
+    // --- Rules first; the model only when they aren't sure and the user's plan covers AI ---
+    // Palette interpretation is recorded but not counted toward the quota: it runs on every pause
+    // in typing, not when the user asks for something.
+    let result = interpretWithRules(query, candidates);
+    if (canUseModel && result.confidence < RULES_CONFIDENT && !checkAiQuota(profile)) {
+      const meter = await startAiCall(supabaseAdmin, auth, { functionName: 'interpret-search-intent', caseId, countsTowardQuota: false });
+      try {
+        const modelResult = await interpretWithModel(query.trim(), candidates, meter);
+        if (modelResult && modelResult.confidence > result.confidence) result = modelResult;
+      } catch (modelError) {
+        // The rules' answer stands
+        console.error('interpret-search-intent: model interpretation failed:', modelError);
+        await meter.fail(modelError);
+      }
+    }
+    if (result.intent !== 'general_search' && result.confidence < MIN_CONFIDENCE) {
+      result = { intent: 'general_search', params: { original_query: query.trim() }, task: null, confidence: result.confidence, message: `Search for "${query.trim()}"`, source: result.source };
+    }
+
+    return new Response(JSON.stringify(result), {
+      status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('Error in interpret-search-intent:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Internal Server Error' }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'vitest';
+import { IntentCandidates, interpretWithRules, resolveName, validateTask } from './intent';
+
+const candidates: IntentCandidates = {
+  documents: [
+    { id: 'smith', name: 'Smith Lease 2021.pdf' },
+    { id: 'jones', name: 'Jones Lease.pdf' },
+    { id: 'msa-1', name: 'Acme MSA v1.docx' },
+    { id: 'msa-2', name: 'Acme MSA v2.docx' },
+    { id: 'msa-3', name: 'Acme MSA version 3.docx' },
+    { id: 'nda-2', name: 'NDA draft 2.docx' },
+  ],
+  templates: [
+    { id: 'tpl-nda', name: 'Mutual NDA' },
+    { id: 'tpl-employment', name: 'Employment Contract' },
+  ],
+};
+
+describe('interpret-search-intent rules', () => {
+  test('resolve document and template names', () => {
+    const summary = interpretWithRules('summarize the Smith lease', candidates);
+    expect(summary.task).toEqual({ type: 'agent', agent: 'summarize', docId: 'smith' });
+    expect(summary.confidence).toBeGreaterThan(0.8);
+
+    const template = interpretWithRules('open the NDA template', candidates);
+    expect(template.task).toEqual({ type: 'use_template', templateName: 'Mutual NDA' });
+    expect(template.params.templateId).toBe('tpl-nda');
+
+    const compare = interpretWithRules('compare v2 and v3 of the MSA', candidates);
+    expect(compare.task).toEqual({ type: 'agent', agent: 'compare', docIds: ['msa-2', 'msa-3'] });
+
+    const risks = interpretWithRules('find the risks in the Jones lease', candidates);
+    expect(risks.task).toEqual({ type: 'analyze_document', docId: 'jones', analysisType: 'risks' });
+  });
+
+  test('versions must match exactly', () => {
+    expect(resolveName('MSA v2', candidates.documents)?.item.id).toBe('msa-2');
+    expect(resolveName('NDA version 2', candidates.documents)?.item.id).toBe('nda-2');
+    expect(resolveName('MSA v4', candidates.documents)).toBeNull();
+  });
+
+  test('fall back to a general search with no confidence', () => {
+    const result = interpretWithRules('indemnification obligations', candidates);
+    expect(result.intent).toBe('general_search');
+    expect(result.confidence).toBe(0);
+    // Nothing named like this in the case
+    expect(interpretWithRules('summarize the Brown lease', candidates).intent).toBe('general_search');
+  });
+
+  test('only accept model tasks naming known documents and templates', () => {
+    expect(validateTask({ type: 'agent', agent: 'key_clauses', docId: 'smith' }, candidates)).toEqual({ type: 'agent', agent: 'key_clauses', docId: 'smith' });
+    expect(validateTask({ type: 'agent', agent: 'key_clauses', docId: 'made-up' }, candidates)).toBeNull();
+    expect(validateTask({ type: 'agent', agent: 'compare', docIds: ['msa-1', 'msa-1'] }, candidates)).toBeNull();
+    expect(validateTask({ type: 'use_template', templateName: 'mutual nda' }, candidates)).toEqual({ type: 'use_template', templateName: 'Mutual NDA' });
+    expect(validateTask({ type: 'delete_everything' }, candidates)).toBeNull();
+  });
+});
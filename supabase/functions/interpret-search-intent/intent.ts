@@ -0,0 +1,334 @@
+// supabase/functions/interpret-search-intent/intent.ts
+// Turns a command palette query into a Task: rule-based parsing of common phrasings, name
+// resolution of documents and templates, and validation of tasks suggested by a model.
+import { documentReviewUrl } from '../_shared/documentLinks.ts';
+
+// Mirrors the Task union in src/lib/commandParser.ts (the null "not a command" case aside)
+export type AnalysisType = 'entities' | 'clauses' | 'risks' | 'timeline' | 'privilegedTerms';
+
+export type Task =
+  | { type: 'help'; query?: string }
+  | { type: 'research'; query: string }
+  | { type: 'agent'; agent: 'draft'; instructions: string; docId?: string }
+  | { type: 'agent'; agent: 'find_clause'; clauseType: string; docId: string }
+  | { type: 'agent'; agent: 'flag_privileged_terms'; docId: string }
+  | { type: 'agent'; agent: 'generate_timeline'; docId: string }
+  | { type: 'agent'; agent: 'risk_analysis'; docId: string }
+  | { type: 'agent'; agent: 'key_clauses'; docId: string }
+  | { type: 'agent'; agent: 'summarize'; docId?: string }
+  | { type: 'agent'; agent: 'explain_term'; term: string; docId?: string }
+  | { type: 'agent'; agent: 'perplexity'; query: string }
+  | { type: 'agent'; agent: 'compare'; docIds: string[] }
+  | { type: 'agent'; agent: 'rewrite'; instructions: string; docId?: string }
+  | { type: 'use_template'; templateName: string }
+  | { type: 'case_search'; query: string }
+  | { type: 'analyze_document'; docId: string; analysisType: AnalysisType }
+  | { type: 'unknown'; originalInput: string };
+
+export interface NamedItem {
+  id: string;
+  name: string; // A document's filename or a template's name
+}
+
+export interface IntentCandidates {
+  documents: NamedItem[]; // The active case's documents
+  templates: NamedItem[];
+}
+
+// Mirrors IntentResponse in src/components/common/GlobalCommandPalette.tsx
+export interface IntentResponse {
+  intent: 'run_task' | 'navigate' | 'open_modal' | 'general_search';
+  params: Record<string, unknown>;
+  task: Task | null; // Set for run_task
+  confidence: number; // 0 to 1
+  message: string;
+  source: 'rules' | 'model';
+}
+
+// Below this the palette shows no suggestion
+export const MIN_CONFIDENCE = 0.4;
+
+const STOPWORDS = new Set(['the', 'a', 'an', 'of', 'for', 'my', 'our', 'this', 'that', 'document', 'doc', 'file', 'please']);
+
+/** Words of a name or phrase: lower case, without the file extension, "version 2" as "v2". */
+export function nameTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\.[a-z0-9]{2,5}$/, '')
+    .replace(/\b(?:version|draft|rev(?:ision)?)\s*(\d+)\b/g, 'v$1')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOPWORDS.has(token));
+}
+
+const tokenMatches = (wanted: string, available: string) =>
+  wanted === available || (wanted.length >= 4 && available.startsWith(wanted));
+
+/**
+ * The item whose name best covers the phrase's words, with the share covered as its score.
+ * More than half the words must match, and numbers and versions exactly, so "v2" never picks
+ * "v3" and "the Brown lease" doesn't pick the Smith lease. Ties go to the shorter name.
+ */
+export function resolveName(phrase: string, items: NamedItem[]): { item: NamedItem; score: number } | null {
+  const wanted = nameTokens(phrase);
+  if (wanted.length === 0) return null;
+
+  let best: { item: NamedItem; score: number; extra: number } | null = null;
+  for (const item of items) {
+    const available = nameTokens(item.name);
+    const matched = wanted.filter(token => available.some(other => tokenMatches(token, other)));
+    if (wanted.some(token => /\d/.test(token) && !matched.includes(token))) continue;
+    const score = matched.length / wanted.length;
+    const extra = available.length - matched.length;
+    if (score > 0 && (!best || score > best.score || (score === best.score && extra < best.extra))) {
+      best = { item, score, extra };
+    }
+  }
+  return best && best.score > 0.5 ? { item: best.item, score: best.score } : null;
+}
+
+// "v2 and v3 of the MSA" -> ["MSA v2", "MSA v3"]; "the Smith lease and the Jones lease" -> both
+function comparisonPhrases(text: string): string[] {
+  const shared = text.match(/^(.+?)\s+(?:of|in|for)\s+(?:the\s+)?(.+)$/i);
+  const [targets, subject] = shared && /\b(?:and|vs\.?|versus|with|to|against)\b|,/i.test(shared[1])
+    ? [shared[1], shared[2]]
+    : [text, ''];
+  return targets
+    .split(/\s*,\s*(?:and\s+)?|\s+(?:and|vs\.?|versus|with|to|against)\s+/i)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => (subject ? `${subject} ${part}` : part));
+}
+
+const analysisKeywords: [RegExp, AnalysisType][] = [
+  [/\brisks?\b/, 'risks'],
+  [/\b(?:entities|parties|people|names)\b/, 'entities'],
+  [/\b(?:key\s+)?clauses\b/, 'clauses'],
+  [/\b(?:timeline|chronology|dates)\b/, 'timeline'],
+  [/\bprivileg(?:e|ed)\b/, 'privilegedTerms'],
+];
+
+const analysisLabels: Record<AnalysisType, string> = {
+  entities: 'Extract entities from',
+  clauses: 'Find key clauses in',
+  risks: 'Analyse risks in',
+  timeline: 'Build a timeline from',
+  privilegedTerms: 'Flag privileged terms in',
+};
+
+// App pages the palette can open by name
+const pages: [RegExp, string, string][] = [
+  [/^(?:dashboard|home)$/, '/app/dashboard', 'Dashboard'],
+  [/^(?:files|matters|file manager)$/, '/app/files', 'File Manager'],
+  [/^templates$/, '/app/templates', 'Templates'],
+  [/^playbooks?$/, '/app/playbooks', 'Playbooks'],
+  [/^(?:clauses|clause library)$/, '/app/clauses', 'Clause Library'],
+  [/^settings$/, '/app/settings', 'Settings'],
+  [/^(?:subscription|billing|usage)$/, '/app/settings/subscription', 'Subscription'],
+];
+
+const quoted = (name: string) => `"${name}"`;
+
+export function taskResponse(task: Task, confidence: number, message: string, source: IntentResponse['source'], params: Record<string, unknown> = {}): IntentResponse {
+  return { intent: 'run_task', params: { ...params, task }, task, confidence, message, source };
+}
+
+const generalSearch = (query: string): IntentResponse => ({
+  intent: 'general_search',
+  params: { original_query: query },
+  task: null,
+  confidence: 0,
+  message: `Search for "${query}"`,
+  source: 'rules',
+});
+
+// Confidence of a phrasing that matched, scaled by how well the named item was recognised
+const scaled = (base: number, score: number) => Math.round(base * (0.5 + score / 2) * 100) / 100;
+
+/**
+ * Interprets the query with fixed phrasings ("summarize the Smith lease", "open the NDA template",
+ * "compare v2 and v3 of the MSA", ...). Works without a model; anything unrecognised is a general
+ * search with no confidence.
+ */
+export function interpretWithRules(query: string, candidates: IntentCandidates): IntentResponse {
+  const text = query.trim().replace(/[?!.]+$/, '');
+  const lower = text.toLowerCase();
+  const rest = (match: RegExpMatchArray) => match[match.length - 1].trim();
+
+  if (/^(?:help|what can you do|commands)$/.test(lower)) {
+    return taskResponse({ type: 'help' }, 0.9, 'Show what the assistant can do', 'rules');
+  }
+
+  if (/^upload\b/.test(lower)) {
+    return { intent: 'open_modal', params: { modal: 'UploadModal' }, task: null, confidence: 0.9, message: 'Upload a document', source: 'rules' };
+  }
+
+  const compare = text.match(/^(?:compare|diff|redline)\s+(.+)$/i);
+  if (compare) {
+    const resolved = comparisonPhrases(rest(compare)).map(phrase => resolveName(phrase, candidates.documents));
+    const found = resolved.filter((match): match is NonNullable<typeof match> => match !== null);
+    const docIds = [...new Set(found.map(match => match.item.id))];
+    if (found.length === resolved.length && docIds.length >= 2) {
+      const score = Math.min(...found.map(match => match.score));
+      const names = found.map(match => quoted(match.item.name));
+      return taskResponse({ type: 'agent', agent: 'compare', docIds }, scaled(0.95, score), `Compare ${names.join(' with ')}`, 'rules');
+    }
+  }
+
+  const template = text.match(/^(?:use|open|fill(?:\s+in|\s+out)?|start(?:\s+from)?)\s+(?:the\s+|a\s+|an\s+|my\s+)?(.+?)\s+template$/i)
+    ?? text.match(/^(?:use|open|fill(?:\s+in|\s+out)?)\s+template\s+(.+)$/i);
+  if (template) {
+    const match = resolveName(rest(template), candidates.templates);
+    if (match) {
+      return taskResponse(
+        { type: 'use_template', templateName: match.item.name },
+        scaled(0.95, match.score),
+        `Fill in the ${quoted(match.item.name)} template`,
+        'rules',
+        { templateId: match.item.id }
+      );
+    }
+  }
+
+  const findClause = text.match(/^(?:find|show|locate)\s+(?:the\s+)?(.+?)\s+(?:clause|provision)s?\s+(?:in|from|of)\s+(.+)$/i);
+  if (findClause) {
+    const match = resolveName(findClause[2], candidates.documents);
+    if (match) {
+      return taskResponse(
+        { type: 'agent', agent: 'find_clause', clauseType: findClause[1].trim(), docId: match.item.id },
+        scaled(0.9, match.score),
+        `Find the ${findClause[1].trim()} clause in ${quoted(match.item.name)}`,
+        'rules'
+      );
+    }
+  }
+
+  const summarize = text.match(/^(?:summari[sz]e|summary\s+of|give\s+me\s+a\s+summary\s+of)\s+(.+)$/i);
+  if (summarize) {
+    const match = resolveName(rest(summarize), candidates.documents);
+    if (match) {
+      return taskResponse({ type: 'agent', agent: 'summarize', docId: match.item.id }, scaled(0.95, match.score), `Summarize ${quoted(match.item.name)}`, 'rules');
+    }
+  }
+
+  const analyze = text.match(/^(?:analy[sz]e|check|review|extract|list|find|flag|build|show)\s+(.+?)\s+(?:in|from|of|for)\s+(.+)$/i);
+  if (analyze) {
+    const analysisType = analysisKeywords.find(([pattern]) => pattern.test(analyze[1].toLowerCase()))?.[1];
+    const match = analysisType ? resolveName(analyze[2], candidates.documents) : null;
+    if (analysisType && match) {
+      return taskResponse(
+        { type: 'analyze_document', docId: match.item.id, analysisType },
+        scaled(0.85, match.score),
+        `${analysisLabels[analysisType]} ${quoted(match.item.name)}`,
+        'rules'
+      );
+    }
+  }
+
+  const open = text.match(/^(?:open|show|view|go\s+to|take\s+me\s+to)\s+(?:the\s+|my\s+)?(.+)$/i);
+  if (open) {
+    const page = pages.find(([pattern]) => pattern.test(rest(open).toLowerCase()));
+    if (page) {
+      return { intent: 'navigate', params: { path: page[1] }, task: null, confidence: 0.9, message: `Go to ${page[2]}`, source: 'rules' };
+    }
+    const match = resolveName(rest(open), candidates.documents);
+    if (match) {
+      return {
+        intent: 'navigate',
+        params: { path: documentReviewUrl(match.item.id), documentId: match.item.id },
+        task: null,
+        confidence: scaled(0.9, match.score),
+        message: `Open ${quoted(match.item.name)}`,
+        source: 'rules',
+      };
+    }
+  }
+
+  const research = text.match(/^(?:research|look\s+up|find\s+case\s+law\s+(?:on|about)|case\s+law\s+(?:on|about))\s+(.+)$/i);
+  if (research) {
+    return taskResponse({ type: 'research', query: rest(research) }, 0.8, `Research "${rest(research)}"`, 'rules');
+  }
+
+  const explain = text.match(/^(?:explain|define|what\s+is|what's|what\s+does)\s+(?:the\s+term\s+)?(.+?)(?:\s+mean)?$/i);
+  if (explain) {
+    return taskResponse({ type: 'agent', agent: 'explain_term', term: rest(explain) }, 0.6, `Explain "${rest(explain)}"`, 'rules');
+  }
+
+  const draft = text.match(/^(?:draft|write|prepare)\s+(.+)$/i);
+  if (draft) {
+    return taskResponse({ type: 'agent', agent: 'draft', instructions: text }, 0.7, `Draft ${rest(draft)}`, 'rules');
+  }
+
+  const search = text.match(/^(?:search(?:\s+for)?|find\s+documents?\s+(?:about|mentioning))\s+(.+)$/i);
+  if (search) {
+    return taskResponse({ type: 'case_search', query: rest(search) }, 0.7, `Search the matter for "${rest(search)}"`, 'rules');
+  }
+
+  return generalSearch(text);
+}
+
+const isId = (value: unknown, items: NamedItem[]) => typeof value === 'string' && items.some(item => item.id === value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const ANALYSIS_TYPES: AnalysisType[] = ['entities', 'clauses', 'risks', 'timeline', 'privilegedTerms'];
+
+/**
+ * A task suggested by a model, if it is well formed and only refers to documents and templates
+ * among the candidates; null otherwise. Template names are replaced by the template's exact name.
+ */
+export function validateTask(value: unknown, candidates: IntentCandidates): Task | null {
+  if (!value || typeof value !== 'object') return null;
+  const task = value as Record<string, unknown>;
+  const docs = candidates.documents;
+
+  switch (task.type) {
+    case 'help':
+      return { type: 'help' };
+    case 'research':
+      return isText(task.query) ? { type: 'research', query: task.query } : null;
+    case 'case_search':
+      return isText(task.query) ? { type: 'case_search', query: task.query } : null;
+    case 'use_template': {
+      const template = isText(task.templateName)
+        ? candidates.templates.find(item => item.name.toLowerCase() === (task.templateName as string).toLowerCase())
+        : undefined;
+      return template ? { type: 'use_template', templateName: template.name } : null;
+    }
+    case 'analyze_document':
+      return isId(task.docId, docs) && ANALYSIS_TYPES.includes(task.analysisType as AnalysisType)
+        ? { type: 'analyze_document', docId: task.docId as string, analysisType: task.analysisType as AnalysisType }
+        : null;
+    case 'agent':
+      break;
+    default:
+      return null;
+  }
+
+  const optionalDoc = task.docId === undefined || task.docId === null || isId(task.docId, docs);
+  const docId = isId(task.docId, docs) ? (task.docId as string) : undefined;
+  switch (task.agent) {
+    case 'summarize':
+      return optionalDoc ? { type: 'agent', agent: 'summarize', docId } : null;
+    case 'draft':
+      return optionalDoc && isText(task.instructions) ? { type: 'agent', agent: 'draft', instructions: task.instructions, docId } : null;
+    case 'rewrite':
+      return optionalDoc && isText(task.instructions) ? { type: 'agent', agent: 'rewrite', instructions: task.instructions, docId } : null;
+    case 'explain_term':
+      return isText(task.term) ? { type: 'agent', agent: 'explain_term', term: task.term } : null;
+    case 'perplexity':
+      return isText(task.query) ? { type: 'agent', agent: 'perplexity', query: task.query } : null;
+    case 'find_clause':
+      return docId && isText(task.clauseType) ? { type: 'agent', agent: 'find_clause', clauseType: task.clauseType, docId } : null;
+    case 'flag_privileged_terms':
+    case 'generate_timeline':
+    case 'risk_analysis':
+    case 'key_clauses':
+      return docId ? { type: 'agent', agent: task.agent, docId } : null;
+    case 'compare': {
+      const docIds = Array.isArray(task.docIds) ? [...new Set(task.docIds)] : [];
+      return docIds.length >= 2 && docIds.every(id => isId(id, docs))
+        ? { type: 'agent', agent: 'compare', docIds: docIds as string[] }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -1,25 +1,13 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { corsHeaders } from "./cors.ts";
-import { OpenAI } from "https://deno.land/x/openai@v4.48.2/mod.ts"; // Use Deno module
 import { createSupabaseAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAuth } from "../_shared/auth.ts";
+import { startAiCall, type AiCallMeter } from '../_shared/usage.ts';
+import { createLlmGateway, type LlmRequest, type LlmStream } from '../_shared/llm.ts';
 
 console.log("Rewrite-text: Function script starting...");
 
-let openai: OpenAI;
-try {
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  console.log(`Rewrite-text: Read OPENAI_API_KEY. Is defined? ${!!apiKey}`);
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is not set.");
-  }
-  openai = new OpenAI({ apiKey });
-  console.log("Rewrite-text: OpenAI client initialized successfully.");
-} catch (initError) {
-  console.error("Rewrite-text: FATAL ERROR initializing OpenAI client:", initError);
-  // We can't proceed without the client, so maybe throw to prevent serve?
-  // Or let serve handle it, but it might still cause boot issues.
-  // For now, log and let serve potentially fail later.
-}
+const llm = createLlmGateway();
 
 serve(async (req)=>{
   // Handle CORS preflight requests
@@ -28,13 +16,18 @@ serve(async (req)=>{
       headers: corsHeaders
     });
   }
+  let meter: AiCallMeter | undefined;
   try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin, { requireProfile: true });
+    if (auth instanceof Response) return auth;
+
     const payload = await req.json();
     // Default stream to true, mode to 'improve' if not provided
-    const { textToRewrite, instructions, surroundingContext, mode = 'improve', stream = true, userId } = payload;
-    if (!textToRewrite || !userId) {
+    const { textToRewrite, instructions, surroundingContext, mode = 'improve', stream = true } = payload;
+    if (!textToRewrite) {
       return new Response(JSON.stringify({
-        error: "Missing textToRewrite or userId"
+        error: "Missing textToRewrite"
       }), {
         headers: {
           ...corsHeaders,
@@ -44,43 +37,9 @@ serve(async (req)=>{
       });
     }
 
-    const supabaseAdmin = createSupabaseAdminClient();
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('subscription_status, trial_ends_at, trial_ai_calls_used')
-      .eq('id', userId)
-      .single();
-
-    if (profileError || !profile) {
-      console.error('Profile fetch error:', profileError);
-      return new Response(JSON.stringify({ error: 'User profile not found' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 403
-      });
-    }
-
-    const TRIAL_AI_CALL_LIMIT = 30;
-    const now = new Date();
-
-    if (profile.subscription_status === 'trialing') {
-      if (!profile.trial_ends_at || new Date(profile.trial_ends_at) < now) {
-        return new Response(JSON.stringify({ error: 'Trial expired' }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 403
-        });
-      }
-      if ((profile.trial_ai_calls_used ?? 0) >= TRIAL_AI_CALL_LIMIT) {
-        return new Response(JSON.stringify({ error: 'Trial call limit reached' }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 403
-        });
-      }
-    } else if (profile.subscription_status !== 'active') {
-      return new Response(JSON.stringify({ error: 'Subscription inactive' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 403
-      });
-    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'rewrite-text', feature: `rewrite:${mode}` });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
     // --- Construct Prompts based on Mode --- 
     let systemPrompt = `You are an expert legal writing assistant tasked with rewriting text according to specific instructions. 
 IMPORTANT RULES:
@@ -137,8 +96,7 @@ ${textToRewrite}
 ${surroundingContext}
 --- CONTEXT END ---`;
     }
-    const apiPayload = {
-      model: "gpt-4o",
+    const llmRequest: LlmRequest = {
       messages: [
         {
           role: "system",
@@ -154,18 +112,15 @@ ${surroundingContext}
     if (stream) {
       // Streaming Logic
       console.log(`Rewrite (${mode}): Generating stream response...`);
-      console.log(`Rewrite (${mode}): Calling OpenAI with payload:`, JSON.stringify(apiPayload, null, 2)); // Log the exact payload
+      console.log(`Rewrite (${mode}): Calling the LLM gateway with:`, JSON.stringify(llmRequest, null, 2)); // Log the exact payload
       
-      let openaiStream;
+      let llmStream: LlmStream;
       try {
-        openaiStream = await openai.chat.completions.create({
-          ...apiPayload,
-          stream: true
-        });
-        console.log(`Rewrite (${mode}): OpenAI stream object created successfully.`);
-      } catch (openaiError) {
-        console.error(`Rewrite (${mode}): ERROR calling OpenAI:`, openaiError);
-        throw openaiError; // Rethrow to be caught by the main try/catch
+        llmStream = await llm.stream('rewrite-text', llmRequest);
+        console.log(`Rewrite (${mode}): LLM stream opened with ${llmStream.model}.`);
+      } catch (llmError) {
+        console.error(`Rewrite (${mode}): ERROR calling the LLM gateway:`, llmError);
+        throw llmError; // Rethrow to be caught by the main try/catch
       }
 
       // CORRECTED Streaming Logic:
@@ -175,9 +130,10 @@ ${surroundingContext}
           const encoder = new TextEncoder();
           try {
             let chunkCounter = 0;
-            for await (const chunk of openaiStream) {
+            for await (const event of llmStream.events) {
               chunkCounter++;
-              const content = chunk.choices[0]?.delta?.content || '';
+              if (event.type === 'done') await aiCall.succeed(event.usage);
+              const content = event.type === 'text' ? event.text : '';
               // console.log(`Rewrite (${mode}): Received chunk ${chunkCounter}, content: ${content.length > 0 ? content.substring(0, 50) + '...' : ''}`); // Optional verbose chunk logging
               if (content) {
                 // Format as Server-Sent Event
@@ -188,18 +144,13 @@ ${surroundingContext}
             }
             console.log(`Rewrite (${mode}): Stream loop finished after ${chunkCounter} chunks.`);
             // Signal stream completion
-            if (profile.subscription_status === 'trialing') {
-              await supabaseAdmin
-                .from('profiles')
-                .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-                .eq('id', userId);
-            }
 
             controller.enqueue(encoder.encode('data: [DONE]\n\n'));
             controller.close();
             console.log(`Rewrite (${mode}): ReadableStream closed normally.`);
           } catch (streamError) {
-            console.error(`Rewrite (${mode}): ERROR INSIDE OpenAI stream processing:`, streamError, JSON.stringify(streamError));
+            console.error(`Rewrite (${mode}): ERROR INSIDE LLM stream processing:`, streamError, JSON.stringify(streamError));
+            await aiCall.fail(streamError, { model: llmStream.model });
             controller.error(streamError);
           }
         }
@@ -215,20 +166,12 @@ ${surroundingContext}
     } else {
       // Non-streaming Logic
       console.log(`Rewrite (${mode}): Generating non-stream response...`);
-      const response = await openai.chat.completions.create({
-        ...apiPayload,
-        stream: false
-      });
-      const content = response.choices[0]?.message?.content;
+      const response = await llm.chat('rewrite-text', llmRequest);
+      const content = response.text;
       if (!content) {
-        throw new Error('OpenAI returned empty content.');
-      }
-      if (profile.subscription_status === 'trialing') {
-        await supabaseAdmin
-          .from('profiles')
-          .update({ trial_ai_calls_used: (profile.trial_ai_calls_used ?? 0) + 1 })
-          .eq('id', userId);
+        throw new Error('The model returned empty content.');
       }
+      await aiCall.succeed(response.usage);
       return new Response(JSON.stringify({
         result: content
       }), {
@@ -241,6 +184,7 @@ ${surroundingContext}
     }
   } catch (error) {
     console.error("Error in MAIN CATCH rewrite-text function:", error, JSON.stringify(error));
+    await meter?.fail(error);
     const errorMessage = error instanceof Error ? error.message : "Internal server error";
     return new Response(JSON.stringify({
       error: errorMessage
@@ -0,0 +1,143 @@
+// supabase/functions/semantic-search-documents/index.ts
+// Embeds a search query and returns the best matching document chunks, grouped per
+// document, restricted to documents in the cases the caller owns or is a member of (plus their
+// own case-less uploads).
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { createEmbeddingProvider } from '../_shared/embeddings.ts';
+import { getAccessibleCaseIds } from '../_shared/caseAccess.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall } from '../_shared/usage.ts';
+import { loadDocumentsInScope } from '../_shared/documentChunks.ts';
+
+const DEFAULT_MATCH_COUNT = 5;
+const DEFAULT_MATCH_THRESHOLD = 0.75;
+// Best chunks kept per document in the response
+const MATCHES_PER_DOCUMENT = 3;
+
+interface SearchRequestBody {
+  query: string;
+  match_count?: number;
+  match_threshold?: number;
+  caseId?: string | null;
+}
+
+// Row shape returned by the match_document_chunks RPC
+interface ChunkMatchRow {
+  document_id: string;
+  case_id: string | null;
+  chunk_index: number;
+  start_offset: number;
+  end_offset: number;
+  content: string;
+  similarity: number;
+}
+
+// Mirrors SemanticMatch / SemanticSearchResultItem in src/services/documentService.ts
+interface SemanticMatch {
+  chunkText: string;
+  similarity: number;
+  start: number;
+  end: number;
+}
+
+interface SemanticSearchResultItem {
+  documentId: string;
+  filename: string;
+  caseId?: string | null;
+  matches: SemanticMatch[];
+}
+
+console.log('Function semantic-search-documents initializing...');
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const { user } = auth;
+
+    const { query, match_count, match_threshold, caseId } = await req.json() as SearchRequestBody;
+    if (!query || typeof query !== 'string' || !query.trim()) {
+      return new Response(JSON.stringify({ success: false, error: 'Missing required parameter: query' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    const matchCount = Math.min(Math.max(Number(match_count) || DEFAULT_MATCH_COUNT, 1), 50);
+    const matchThreshold = typeof match_threshold === 'number' ? match_threshold : DEFAULT_MATCH_THRESHOLD;
+
+    // --- Restrict to the caller's cases ---
+    const allowedCaseIds = await getAccessibleCaseIds(supabaseAdmin, user.id);
+
+    if (caseId && !allowedCaseIds.includes(caseId)) {
+      return new Response(JSON.stringify({ success: false, error: 'Case not found or access denied' }), {
+        status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // --- Embed the query with the same provider used for the stored chunks ---
+    const provider = createEmbeddingProvider();
+    const meter = await startAiCall(supabaseAdmin, auth, { functionName: 'semantic-search-documents', feature: 'embedding', caseId, countsTowardQuota: false });
+    const [queryEmbedding] = await provider.embed([query.trim()]).catch(async embedError => {
+      await meter.fail(embedError, { model: provider.model });
+      throw embedError;
+    });
+    await meter.succeed({ model: provider.model });
+
+    // match_document_chunks returns chunks (embedding_model = filter_embedding_model) whose
+    // case is in filter_case_ids, plus case-less chunks owned by filter_owner_id when it is
+    // set, ordered by cosine similarity and cut at match_threshold.
+    const { data: rows, error: matchError } = await supabaseAdmin.rpc('match_document_chunks', {
+      query_embedding: queryEmbedding,
+      match_threshold: matchThreshold,
+      // Fetch extra chunks so several can be grouped under one document
+      match_count: matchCount * MATCHES_PER_DOCUMENT * 2,
+      filter_case_ids: caseId ? [caseId] : allowedCaseIds,
+      filter_owner_id: caseId ? null : user.id,
+      filter_embedding_model: provider.model,
+    });
+    if (matchError) throw new Error(`Chunk matching failed: ${matchError.message}`);
+
+    // --- Group chunk hits per document, best document first ---
+    const grouped = new Map<string, { matches: SemanticMatch[] }>();
+    for (const row of (rows || []) as ChunkMatchRow[]) {
+      const entry = grouped.get(row.document_id) ?? { matches: [] };
+      if (entry.matches.length < MATCHES_PER_DOCUMENT) {
+        entry.matches.push({ chunkText: row.content, similarity: row.similarity, start: row.start_offset, end: row.end_offset });
+      }
+      grouped.set(row.document_id, entry);
+    }
+
+    // Chunks may predate a move out of the case (or into the caller's reach); the documents row decides
+    const documents = await loadDocumentsInScope(supabaseAdmin, [...grouped.keys()], {
+      caseIds: caseId ? [caseId] : allowedCaseIds,
+      ownerId: caseId ? null : user.id,
+    });
+
+    const results: SemanticSearchResultItem[] = [...documents.values()] // Drops soft-deleted and moved documents
+      .map(doc => {
+        const { matches } = grouped.get(doc.id)!;
+        matches.sort((a, b) => b.similarity - a.similarity);
+        return { documentId: doc.id, filename: doc.filename, caseId: doc.caseId, matches };
+      })
+      .sort((a, b) => b.matches[0].similarity - a.matches[0].similarity)
+      .slice(0, matchCount);
+
+    return new Response(JSON.stringify({ success: true, results }), {
+      status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown semantic search error';
+    console.error('[semantic-search-documents] Error:', message);
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
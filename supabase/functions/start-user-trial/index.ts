@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2' // Using esm.sh for Deno compatibility
 import { corsHeaders } from '../_shared/cors.ts' // Assuming cors.ts is in _shared
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts'
+import { requireAuth } from '../_shared/auth.ts'
 
 // Configuration for the trial
 const TRIAL_DURATION_DAYS = 10;
@@ -13,29 +14,11 @@ serve(async (req: Request) => {
   }
 
   try {
-    const body = await req.json();
-    const { userId } = body;
-
-    if (!userId) {
-      return new Response(JSON.stringify({ error: 'User ID is required.' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      });
-    }
-
-    // Initialize Supabase admin client
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-
-    if (!Deno.env.get('SUPABASE_URL') || !Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
-        console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
-        return new Response(JSON.stringify({ error: 'Server configuration error.' }), {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            status: 500,
-        });
-    }
+    // The trial is always started for the caller, never for a user id sent in the body
+    const supabaseAdmin = createSupabaseAdminClient();
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const userId = auth.user.id;
 
     const trial_started_at = new Date().toISOString();
     const trial_ends_at_date = new Date();
@@ -0,0 +1,87 @@
+// supabase/functions/tests/auth_test.ts
+// Calls every edge function with a missing, a forged and a valid token against a running stack:
+//
+//   supabase start && supabase functions serve
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... \
+//   TEST_USER_EMAIL=... TEST_USER_PASSWORD=... deno test --allow-net --allow-env supabase/functions/tests/
+//
+// Use a throwaway user: valid calls go through, so start-user-trial restarts its trial and
+// delete-all-user-conversations clears its conversations. Bodies are empty, so most valid calls
+// stop at validation; the test only checks that the caller got past (or was refused at) auth.
+import { assert, assertEquals } from 'https://deno.land/std@0.177.0/testing/asserts.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? 'http://127.0.0.1:54321';
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+// Functions a signed-in user may call, and those only other services may call
+const USER_FUNCTIONS = [
+  'accept-invitation', 'agent-draft', 'analyze-document', 'case-research-rag', 'claude-router',
+  'compare-documents-ai', 'create-production', 'create-template-from-ai', 'deep-research-agent',
+  'delete-all-user-conversations', 'embed-document', 'find-similar-clause', 'generate-docx',
+  'generate-field-suggestion', 'generate-inline-text', 'generate-pdf-from-html', 'generic-chat-agent',
+  'intelligent-drafting', 'intelligent-translation', 'interpret-search-intent', 'rewrite-text',
+  'semantic-search-documents', 'start-user-trial', 'summarize-text', 'verify-citations',
+];
+const SERVICE_FUNCTIONS = ['extract-text'];
+
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// A well-formed JWT for the test user that wasn't signed by the project
+const forgeToken = (userId: string) => [
+  base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' })),
+  base64Url(JSON.stringify({ sub: userId, role: 'authenticated', aud: 'authenticated', exp: Math.floor(Date.now() / 1000) + 3600 })),
+  base64Url('not-the-project-secret'),
+].join('.');
+
+const callFunction = async (name: string, token?: string) => {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: anonKey,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({}),
+  });
+  await response.body?.cancel();
+  return response.status;
+};
+
+const signIn = async () => {
+  const supabase = createClient(supabaseUrl, anonKey, { auth: { persistSession: false } });
+  const { data, error } = await supabase.auth.signInWithPassword({
+    email: Deno.env.get('TEST_USER_EMAIL') ?? '',
+    password: Deno.env.get('TEST_USER_PASSWORD') ?? '',
+  });
+  if (error || !data.session) throw new Error(`Test user sign-in failed: ${error?.message}`);
+  return { token: data.session.access_token, userId: data.session.user.id };
+};
+
+Deno.test('edge functions verify the caller', async t => {
+  const { token, userId } = await signIn();
+
+  for (const name of [...USER_FUNCTIONS, ...SERVICE_FUNCTIONS]) {
+    await t.step(`${name} rejects a missing token`, async () => {
+      assertEquals(await callFunction(name), 401);
+    });
+    await t.step(`${name} rejects a forged token`, async () => {
+      assertEquals(await callFunction(name, forgeToken(userId)), 401);
+    });
+  }
+
+  for (const name of USER_FUNCTIONS) {
+    await t.step(`${name} accepts a valid token`, async () => {
+      const status = await callFunction(name, token);
+      assert(status !== 401, `${name} answered 401 to a valid token`);
+    });
+  }
+
+  for (const name of SERVICE_FUNCTIONS) {
+    await t.step(`${name} refuses user tokens and accepts the service role`, async () => {
+      assertEquals(await callFunction(name, token), 401);
+      assert(await callFunction(name, serviceRoleKey) !== 401, `${name} answered 401 to the service role`);
+    });
+  }
+});
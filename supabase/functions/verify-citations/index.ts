@@ -0,0 +1,97 @@
+// supabase/functions/verify-citations/index.ts
+// Extracts every Bluebook citation from a document or draft, merges short forms into their
+// full citations and checks each authority with the configured citation resolver. A check is
+// metered as one AI call, recording the tokens of every model lookup the resolver made.
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createSupabaseAdminClient } from '../_shared/supabaseAdmin.ts';
+import { canAccessDocument } from '../_shared/caseAccess.ts';
+import { extractCitations } from '../_shared/citations.ts';
+import { createCitationResolver, verifyCitations, type CitationResolver } from '../_shared/citationResolvers.ts';
+import { requireAuth } from '../_shared/auth.ts';
+import { startAiCall, type AiCallMeter, type AiCallUsage } from '../_shared/usage.ts';
+
+// A long brief has a few hundred citations; more than this is almost certainly not a brief
+const MAX_TEXT_LENGTH = 1_000_000;
+const MAX_CITATIONS = 300;
+
+interface VerifyCitationsRequest {
+  text?: string; // Draft text from the editor; offsets in the response refer to it
+  documentId?: string; // Otherwise the document's extracted text is checked
+}
+
+const resolverUsage = (resolver: CitationResolver | null): AiCallUsage => {
+  const usage = resolver?.usage?.();
+  return { model: usage?.model ?? null, inputTokens: usage?.inputTokens ?? null, outputTokens: usage?.outputTokens ?? null };
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+console.log('Function verify-citations initializing...');
+
+serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let meter: AiCallMeter | null = null;
+  let resolver: CitationResolver | null = null;
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // --- Authorization ---
+    const auth = await requireAuth(req, supabaseAdmin);
+    if (auth instanceof Response) return auth;
+    const { user } = auth;
+
+    // --- Text to check ---
+    const body = await req.json() as VerifyCitationsRequest;
+    let text = typeof body.text === 'string' ? body.text : null;
+    let caseId: string | null = null;
+    if (text === null) {
+      if (!body.documentId) return jsonResponse({ success: false, error: 'Provide either text or documentId' }, 400);
+      const { data: document, error: documentError } = await supabaseAdmin
+        .from('documents')
+        .select('extracted_text, owner_id, case_id')
+        .eq('id', body.documentId)
+        .eq('is_deleted', false)
+        .maybeSingle();
+      if (documentError) throw new Error(`Failed to load document: ${documentError.message}`);
+      if (!document || !await canAccessDocument(supabaseAdmin, document, user.id, 'use_ai')) return jsonResponse({ success: false, error: 'Document not found or access denied' }, 404);
+      if (!document.extracted_text) return jsonResponse({ success: false, error: 'Document has no extracted text yet' }, 422);
+      text = document.extracted_text as string;
+      caseId = document.case_id;
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      return jsonResponse({ success: false, error: `Text is too long to check (${text.length} characters, limit ${MAX_TEXT_LENGTH})` }, 413);
+    }
+
+    // --- Extract and verify ---
+    const citations = extractCitations(text);
+    const checked = citations.slice(0, MAX_CITATIONS);
+    try {
+      resolver = createCitationResolver();
+    } catch (configError) {
+      return jsonResponse({ success: false, error: configError instanceof Error ? configError.message : 'Citation resolver is not configured' }, 500);
+    }
+    const aiCall = await startAiCall(supabaseAdmin, auth, { functionName: 'verify-citations', caseId });
+    if (aiCall instanceof Response) return aiCall;
+    meter = aiCall;
+    const results = await verifyCitations(checked, resolver);
+    await aiCall.succeed(resolverUsage(resolver));
+
+    console.log(`[verify-citations] ${citations.length} citations, ${results.filter(r => r.verified).length} verified via ${resolver.name} (${resolver.usage?.().requests ?? 0} model requests)`);
+    return jsonResponse({
+      success: true,
+      citations: results,
+      resolver: resolver.name,
+      truncated: citations.length > checked.length,
+    }, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown citation verification error';
+    console.error('[verify-citations] Error:', message);
+    await meter?.fail(error, resolverUsage(resolver));
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});